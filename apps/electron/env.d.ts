@@ -90,6 +90,14 @@ interface DesktopApi {
             canceled?: boolean
         }>
     }
+    document: {
+        saveLocal: (data: { base64: string; suggestedName?: string; format: 'docx' | 'pdf' | 'markdown' | 'html' }) => Promise<{
+            success: boolean
+            path?: string
+            error?: string
+            canceled?: boolean
+        }>
+    }
     security: {
         getSensitiveStatus: () => Promise<{ unlockedUntil: number; canBiometric: boolean; pinEnabled: boolean }>
         unlockSensitive: (data: { ttlMs?: number; reason?: string }) => Promise<{ success: boolean; unlockedUntil: number; error?: string }>
@@ -114,6 +122,16 @@ interface DesktopApi {
     onArtifactUpdate: (callback: (data: ArtifactUpdateEvent) => void) => () => void
     // Artifact created listener (for auto-selecting newly created artifacts like charts)
     onArtifactCreated: (callback: (data: ArtifactCreatedEvent) => void) => () => void
+    // Document export requested by the docs agent
+    onArtifactExport: (callback: (data: { artifactId: string; format: 'pdf' | 'docx' | 'markdown' | 'html' }) => void) => () => void
+    // Proofreading requested by the docs agent
+    onArtifactProofread: (callback: (data: { artifactId: string }) => void) => () => void
+    // Tool calls waiting for the user's approval (and requests closed by main)
+    onToolApproval: (callback: (event: ToolApprovalEvent) => void) => () => void
+    // Persistent message queue changed in main (items added, sent or failed)
+    onMessageQueueChanged: (callback: (data: { kind: 'chat' | 'pdf'; targetId: string }) => void) => () => void
+    // Row batch job changed status (submitted, progress, finished)
+    onBatchJobsChanged: (callback: (data: { jobId: string; status: string }) => void) => () => void
     // ChatGPT Plus connected listener
     onChatGPTConnected: (callback: (data: { isConnected: boolean; accountId?: string }) => void) => () => void
     // Gemini Advanced connected listener
@@ -201,6 +219,11 @@ interface AIStreamEvent {
     [key: string]: unknown
 }
 
+// Tool call waiting for the user's approval, or a request closed by main
+type ToolApprovalEvent =
+    | { type: 'tool-approval-request'; toolCallId: string; chatId: string; toolName: string; args: unknown; message: string }
+    | { type: 'tool-approval-response'; toolCallId: string; approved: boolean }
+
 declare global {
     interface Window {
         desktopApi?: DesktopApi
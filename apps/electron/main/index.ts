@@ -25,7 +25,14 @@ import { registerSecurityIpc } from "./lib/security/ipc";
 import { getFileManager } from "./lib/file-manager/file-manager";
 import { lockSensitiveNow } from "./lib/security/sensitive-lock";
 import { getPreferencesStore } from "./lib/preferences-store";
-import { startAIServer, stopAIServer, waitForAIServerReady } from "./lib/ai";
+import {
+  getRowBatchService,
+  startAIServer,
+  stopAIServer,
+  waitForAIServerReady,
+} from "./lib/ai";
+import { getBackupService } from "./lib/backup";
+import { getMessageQueueService } from "./lib/message-queue";
 import log from "electron-log";
 
 const appDisplayName = "S-AGI";
@@ -1544,6 +1551,23 @@ app.whenReady().then(() => {
   // Setup tRPC
   setupTRPC();
 
+  // Scheduled workspace backups
+  const backupService = getBackupService();
+  backupService
+    .init()
+    .then(() => backupService.start())
+    .catch((error) => {
+      log.error("[App] Failed to start backup scheduler:", error);
+    });
+
+  // Persistent message queue: resume prompts left queued or interrupted
+  const messageQueue = getMessageQueueService();
+  messageQueue.init();
+  messageQueue.start();
+
+  // Spreadsheet row batch jobs: pick up results of jobs still running at OpenAI
+  getRowBatchService().start();
+
   // Initialize menu
   updateApplicationMenu();
 
@@ -1611,6 +1635,15 @@ app.on("before-quit", () => {
   // Unregister all hotkeys
   getHotkeyManager().unregisterAll();
 
+  // Stop backup scheduler
+  getBackupService().stop();
+
+  // Stop background queue processing
+  getMessageQueueService().stop();
+
+  // Stop polling row batch jobs
+  getRowBatchService().stop();
+
   // Destroy quick prompt window
   if (quickPromptWindow && !quickPromptWindow.isDestroyed()) {
     quickPromptWindow.destroy();
@@ -9,10 +9,16 @@
 
 import type { LanguageModel } from "ai";
 import { createOpenAI } from "@ai-sdk/openai";
-import { OrchestratorAgent, routeMessage } from "./orchestrator";
+import {
+  OrchestratorAgent,
+  routeMessage,
+  type AgentRoute,
+  type MessageRoute,
+} from "./orchestrator";
 import { PDFAgent, createPDFAgent } from "./pdf-agent";
 import { ExcelAgent, createExcelAgent } from "./excel-agent";
 import { DocsAgent, createDocsAgent } from "./docs-agent";
+import type { AgentRouterOptions } from "@s-agi/core";
 import type {
   AgentContext,
   PDFContext,
@@ -30,9 +36,11 @@ import { readFile } from "node:fs/promises";
  * Agent selection result
  */
 export interface AgentSelection {
-  agent: "excel" | "docs" | "pdf" | "direct";
+  agent: AgentRoute;
   context: AgentContext;
   reason: string;
+  /** Full routing decision (agent, confidence, source) */
+  route: MessageRoute;
 }
 
 /**
@@ -119,31 +127,18 @@ export function getPDFContext(chatId: string): LoadedPDFContext | null {
 /**
  * Select the appropriate agent for a message
  */
-export function selectAgent(
+export async function selectAgent(
   message: string,
   context: AgentContext,
-): AgentSelection {
-  const route = routeMessage(message, context);
-
-  let reason = "";
-  switch (route) {
-    case "excel":
-      reason = "Message contains spreadsheet/data keywords";
-      break;
-    case "docs":
-      reason = "Message requests document creation or editing";
-      break;
-    case "pdf":
-      reason = "PDF context loaded and question relates to document content";
-      break;
-    default:
-      reason = "General query - using direct response";
-  }
+  options?: AgentRouterOptions,
+): Promise<AgentSelection> {
+  const route = await routeMessage(message, context, options);
 
   return {
-    agent: route,
+    agent: route.route,
     context,
-    reason,
+    reason: route.reason,
+    route,
   };
 }
 
@@ -165,6 +160,7 @@ export function createModel(
  * @param context - Agent context with chat info and any loaded documents
  * @param model - Language model to use
  * @param onToken - Callback for streaming tokens
+ * @param preselected - Routing decision already made by the caller
  * @returns Agent response
  */
 export async function executeSpecializedAgent(
@@ -172,12 +168,13 @@ export async function executeSpecializedAgent(
   context: AgentContext,
   model: LanguageModel,
   onToken?: (token: string) => void,
+  preselected?: AgentSelection,
 ): Promise<{
   response: string;
   citations?: Array<{ pageNumber: number; text: string }>;
   toolsUsed?: string[];
 }> {
-  const selection = selectAgent(message, context);
+  const selection = preselected ?? (await selectAgent(message, context));
   log.info(
     `[AgentService] Selected agent: ${selection.agent} - ${selection.reason}`,
   );
@@ -270,11 +267,11 @@ export async function executeSpecializedAgent(
 /**
  * Check if a message should be handled by a specialized agent
  */
-export function shouldUseSpecializedAgent(
+export async function shouldUseSpecializedAgent(
   message: string,
   context: AgentContext,
-): boolean {
-  const selection = selectAgent(message, context);
+): Promise<boolean> {
+  const selection = await selectAgent(message, context);
   return selection.agent !== "direct";
 }
 
@@ -20,9 +20,12 @@ import type { LanguageModel } from "ai";
 import type { DocsContext } from "./types";
 import { sendToRenderer } from "../window-manager";
 import log from "electron-log";
+import { getProofreadingService } from "../proofreading";
 import {
   AGENT_METADATA,
   AGENT_INSTRUCTIONS,
+  applySuggestions,
+  markdownToUniverDoc,
   type ArtifactStage,
 } from "@s-agi/core";
 
@@ -63,7 +66,7 @@ export function createDocsTools(context: DocsContext) {
         });
 
         // Convert markdown to Univer document format
-        const documentData = markdownToUniverDoc(title, content);
+        const documentData = markdownToUniverDoc(content, { title });
 
         // Progressive stage: data_ready
         sendToRenderer("artifact:stage-update", {
@@ -448,7 +451,7 @@ export function createDocsTools(context: DocsContext) {
 
     check_grammar: tool({
       description:
-        "Revisa gramática y ortografía del documento y sugiere correcciones.",
+        "Revisa ortografía, gramática y estilo (concordancia, palabras repetidas, voz pasiva y la guía de estilo del equipo). Con texto devuelve las sugerencias; sin texto las subraya en el documento abierto.",
       inputSchema: z.object({
         text: z
           .string()
@@ -457,67 +460,53 @@ export function createDocsTools(context: DocsContext) {
             "Texto a revisar (si no se proporciona, revisa todo el documento)",
           ),
         language: z
-          .enum(["es", "en"])
-          .default("es")
-          .describe("Idioma del texto"),
+          .enum(["es", "en", "pt", "fr"])
+          .optional()
+          .describe("Idioma del texto (si no se indica, se detecta por párrafo)"),
         artifactId: z.string().optional(),
       }),
-      execute: async ({ text, language }) => {
-        log.info(`[DocsAgent] Checking grammar (${language})`);
+      execute: async ({ text, language, artifactId }) => {
+        log.info(`[DocsAgent] Checking grammar (${language ?? "auto"})`);
 
-        // This will trigger a grammar check
-        // The actual grammar checking could be done by the LLM or a dedicated service
-        return {
-          success: true,
+        if (!text) {
+          const targetId = artifactId || context.artifactId;
+          if (!targetId) {
+            return { success: false, error: "No hay documento activo" };
+          }
+          // The open editor runs the check and underlines the suggestions
+          sendToRenderer("artifact:proofread", { artifactId: targetId });
+          return {
+            success: true,
+            message:
+              "Revisión iniciada: las sugerencias aparecen subrayadas en el documento.",
+          };
+        }
+
+        const { suggestions } = await getProofreadingService().check({
+          text,
           language,
-          instruction: `Please review the following text for grammar and spelling errors in ${language === "es" ? "Spanish" : "English"}:
-                    ${text || "[Document content will be analyzed]"}
+        });
 
-                    Provide corrections and suggestions.`,
-          message: `Revisión de gramática iniciada (${language}).`,
+        return {
+          success: true,
+          suggestions: suggestions.map((suggestion) => ({
+            original: suggestion.original,
+            replacements: suggestion.replacements,
+            message: suggestion.message,
+            category: suggestion.category,
+            rule: suggestion.ruleId,
+          })),
+          correctedText: applySuggestions(text, suggestions),
+          message:
+            suggestions.length > 0
+              ? `${suggestions.length} sugerencias encontradas.`
+              : "No se encontraron problemas.",
         };
       },
     }),
   };
 }
 
-/**
- * Convert Markdown to Univer document format
- */
-function markdownToUniverDoc(title: string, content: string): unknown {
-  // Basic conversion - Univer expects a specific document structure
-  // This is a simplified version; full implementation would parse markdown properly
-  const docId = crypto.randomUUID();
-
-  return {
-    id: docId,
-    title,
-    body: {
-      dataStream: content,
-      textRuns: [],
-      paragraphs: [
-        {
-          startIndex: 0,
-          paragraphStyle: {
-            spaceAbove: 10,
-            spaceBelow: 10,
-          },
-        },
-      ],
-    },
-    documentStyle: {
-      pageSize: {
-        width: 595, // A4 width in points
-        height: 842, // A4 height in points
-      },
-      marginTop: 72,
-      marginBottom: 72,
-      marginLeft: 72,
-      marginRight: 72,
-    },
-  };
-}
-
 /**
  * Get Docs agent metadata from centralized config
  */
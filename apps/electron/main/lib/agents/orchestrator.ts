@@ -12,7 +12,7 @@
  */
 
 import { Agent, handoff } from '@ai-sdk-tools/agents'
-import type { LanguageModel } from 'ai'
+import { generateText, type LanguageModel } from 'ai'
 import type { AgentContext, ExcelContext, DocsContext, PDFContext } from './types'
 import { createExcelAgent } from './excel-agent'
 import { createDocsAgent } from './docs-agent'
@@ -21,8 +21,16 @@ import log from 'electron-log'
 import {
     AGENT_METADATA,
     AGENT_INSTRUCTIONS,
-    getAgentForMessage,
     formatContextForAgent,
+    routeAgent,
+    routeAgentWithClassifier,
+    buildRouterClassifierPrompt,
+    parseRouterClassifierResponse,
+    type AgentType,
+    type AgentRouteClassifier,
+    type AgentRouteDecision,
+    type AgentRouterOptions,
+    type RoutingContext,
 } from '@s-agi/core'
 
 /**
@@ -35,31 +43,118 @@ const ORCHESTRATOR_INSTRUCTIONS = AGENT_INSTRUCTIONS.orchestrator
  */
 const orchestratorMeta = AGENT_METADATA.orchestrator
 
+/**
+ * Specialist that will handle a message ('direct' = main chat loop)
+ */
+export type AgentRoute = 'excel' | 'docs' | 'pdf' | 'direct'
+
+/**
+ * Routing decision exposed to callers and the UI
+ */
+export interface MessageRoute {
+    route: AgentRoute
+    agent: AgentType
+    /** 0-1 confidence */
+    confidence: number
+    /** Why this agent was picked */
+    reason: string
+    source: AgentRouteDecision['source']
+}
+
+// Recent routing decisions per chat, used as handoff history
+const routeHistory = new Map<string, AgentType[]>()
+const MAX_ROUTE_HISTORY = 5
+
+/**
+ * Build the router's view of the current context
+ */
+function getRoutingContext(context: AgentContext): RoutingContext {
+    const selectedRange = context.selectedRange as string | undefined
+    const selectedText = context.selectedText as string | undefined
+
+    return {
+        hasPDF: !!(context.pdfPages && context.pdfPages.length > 0),
+        hasArtifact: !!context.artifactId,
+        artifactType: context.artifactType,
+        selection: context.selection
+            ?? (selectedRange ? { kind: 'cells', range: selectedRange }
+                : selectedText ? { kind: 'text', text: selectedText }
+                    : undefined),
+        recentAgents: routeHistory.get(context.chatId),
+    }
+}
+
+function toMessageRoute(decision: AgentRouteDecision): MessageRoute {
+    // Chart and research have no specialist runtime yet; the main loop has their tools
+    const route: AgentRoute =
+        decision.agent === 'excel' || decision.agent === 'docs' || decision.agent === 'pdf'
+            ? decision.agent
+            : 'direct'
+
+    return {
+        route,
+        agent: decision.agent,
+        confidence: decision.confidence,
+        reason: decision.reason,
+        source: decision.source,
+    }
+}
+
+function recordRoute(chatId: string, route: MessageRoute): void {
+    const history = [...(routeHistory.get(chatId) ?? []), route.agent]
+    routeHistory.set(chatId, history.slice(-MAX_ROUTE_HISTORY))
+}
+
 /**
  * Determine which agent should handle a message
- * Uses centralized routing from @s-agi/core
+ * Scores candidates with the centralized router from @s-agi/core and asks the
+ * classifier (if any) when scoring is unsure
  */
-export function routeMessage(
+export async function routeMessage(
     message: string,
-    context: AgentContext
-): 'excel' | 'docs' | 'pdf' | 'direct' {
-    const hasPDF = context.pdfPages && context.pdfPages.length > 0
-    const hasArtifact = !!context.artifactId
-
-    // Use centralized routing logic
-    const agentType = getAgentForMessage(message, { hasPDF, hasArtifact })
-
-    // Map AgentType to route
-    switch (agentType) {
-        case 'excel':
-            return 'excel'
-        case 'docs':
-            return 'docs'
-        case 'pdf':
-            return 'pdf'
-        case 'orchestrator':
-        default:
-            return 'direct'
+    context: AgentContext,
+    options: AgentRouterOptions = {}
+): Promise<MessageRoute> {
+    const decision = await routeAgentWithClassifier(
+        message,
+        getRoutingContext(context),
+        options
+    )
+    const route = toMessageRoute(decision)
+
+    log.info(
+        `[Orchestrator] Route: ${route.route} (${decision.agent}, ${decision.source}, confidence ${decision.confidence}) - ${decision.reason}`
+    )
+    recordRoute(context.chatId, route)
+    return route
+}
+
+/**
+ * Synchronous routing without classifier or history updates (for previews)
+ */
+export function previewRoute(message: string, context: AgentContext): MessageRoute {
+    return toMessageRoute(routeAgent(message, getRoutingContext(context)))
+}
+
+/**
+ * Clear handoff history for a chat
+ */
+export function clearRouteHistory(chatId: string): void {
+    routeHistory.delete(chatId)
+}
+
+/**
+ * Router classifier backed by a (cheap) language model
+ */
+export function createModelRouteClassifier(model: LanguageModel): AgentRouteClassifier {
+    return async ({ message, context, candidates }) => {
+        const { text } = await generateText({
+            model,
+            prompt: buildRouterClassifierPrompt(message, context, candidates),
+            temperature: 0,
+            maxOutputTokens: 120,
+        })
+        return parseRouterClassifierResponse(text)
     }
 }
 
@@ -129,8 +224,8 @@ export function createOrchestratorAgent(
         handoffs: agentHandoffs,
         // Programmatic routing using centralized config
         matchOn: (message: string) => {
-            const route = routeMessage(message, context)
-            log.info(`[Orchestrator] Route decision: ${route}`)
+            const route = previewRoute(message, context)
+            log.info(`[Orchestrator] Route decision: ${route.route} - ${route.reason}`)
             // Return true to let the orchestrator handle initial routing
             return true
         },
@@ -155,8 +250,8 @@ export const OrchestratorAgent = {
     /**
      * Route a message to the appropriate agent
      */
-    route(message: string, context: AgentContext): 'excel' | 'docs' | 'pdf' | 'direct' {
-        return routeMessage(message, context)
+    route(message: string, context: AgentContext, options?: AgentRouterOptions): Promise<MessageRoute> {
+        return routeMessage(message, context, options)
     },
 
     /**
@@ -14,6 +14,9 @@
  * - Progressive artifact stages
  */
 
+import { app } from "electron";
+import fs from "fs/promises";
+import path from "path";
 import { Agent } from "@ai-sdk-tools/agents";
 import { tool } from "ai";
 import { z } from "zod";
@@ -24,13 +27,142 @@ import {
   searchWithCitations,
   type PageContent,
 } from "../documents/document-processor";
+import { semanticSearchWithCitations } from "../documents/vector-index";
 import * as pdfService from "../pdf/pdf-service";
+import {
+  createPdfArtifact,
+  listPdfDocuments,
+  loadPdfBytes,
+  loadPdfPages,
+  resolvePdfByName,
+  type PdfDocumentRef,
+} from "../pdf/pdf-library";
+import { comparePdfPages, type ComparablePage } from "../pdf/pdf-compare";
+import { getFields } from "../pdf/form-filler";
+import {
+  fillFormForRecords,
+  packageFormFiles,
+  readSheetRecords,
+  suggestFieldMapping,
+  type SheetRecords,
+} from "../pdf/form-merge";
+import { detectTables, tablesToWorkbook } from "../pdf/table-extractor";
+import { supabase } from "../supabase/client";
 import log from "electron-log";
 import {
   AGENT_METADATA,
   type ArtifactStage,
   type PageCitation,
 } from "@s-agi/core";
+import { requestToolApproval, toolNeedsApproval } from "../ai/tool-approval";
+
+/**
+ * Write tools marked for approval wait for the user to confirm in the UI.
+ * Returns the result to hand back to the model when the user rejects.
+ */
+async function confirmWithUser(
+  context: PDFContext,
+  toolName: string,
+  args: unknown,
+  message: string,
+): Promise<{ success: false; rejected: true; message: string } | null> {
+  if (!toolNeedsApproval(toolName, context.chatId)) return null;
+  const approved = await requestToolApproval({
+    chatId: context.chatId,
+    toolName,
+    args,
+    message,
+  });
+  return approved
+    ? null
+    : {
+        success: false,
+        rejected: true,
+        message: "El usuario rechazó la operación. No la repitas salvo que lo pida.",
+      };
+}
+
+/**
+ * Resolve a document name to a single PDF, or an error the model can relay
+ */
+function resolveDocument(
+  library: PdfDocumentRef[],
+  name: string,
+  chatId?: string,
+): { document: PdfDocumentRef } | { error: string } {
+  const result = resolvePdfByName(library, name, chatId);
+  if (result.status === "found") return { document: result.document };
+  if (result.status === "ambiguous") {
+    return {
+      error: `"${name}" coincide con varios PDFs: ${result.candidates
+        .map((d) => d.name)
+        .join(", ")}. Indica el nombre exacto.`,
+    };
+  }
+  return {
+    error: `No encontré un PDF llamado "${name}". Usa list_pdfs para ver los disponibles.`,
+  };
+}
+
+/**
+ * Bytes of the form to fill: a named PDF or the one loaded in the agent
+ */
+async function loadFormPdf(
+  context: PDFContext,
+  name?: string,
+): Promise<{ name: string; bytes: Uint8Array } | { error: string }> {
+  if (!name) {
+    if (!context.pdfBytes) return { error: "PDF bytes no disponibles" };
+    return {
+      name: context.pdfPath?.split("/").pop() || "formulario.pdf",
+      bytes: context.pdfBytes,
+    };
+  }
+
+  const library = await listPdfDocuments(context.userId, context.chatId);
+  const result = resolveDocument(library, name, context.chatId);
+  if ("error" in result) return result;
+  return { name: result.document.name, bytes: await loadPdfBytes(result.document) };
+}
+
+/**
+ * Rows of a spreadsheet artifact (by name) as header-keyed records
+ */
+async function loadSpreadsheetRecords(
+  context: PDFContext,
+  name: string,
+  range: string,
+  sheet?: string,
+): Promise<SheetRecords | { error: string }> {
+  const { data: artifacts, error } = await supabase
+    .from("artifacts")
+    .select("id, name, chat_id, univer_data")
+    .eq("user_id", context.userId)
+    .eq("type", "spreadsheet")
+    .ilike("name", `%${name}%`)
+    .order("updated_at", { ascending: false });
+
+  if (error) return { error: `Error al buscar la hoja: ${error.message}` };
+  if (!artifacts || artifacts.length === 0) {
+    return { error: `No encontré una hoja de cálculo llamada "${name}".` };
+  }
+
+  const exact = artifacts.filter(
+    (a) => a.name.toLowerCase() === name.toLowerCase(),
+  );
+  const candidates = exact.length > 0 ? exact : artifacts;
+  const artifact =
+    candidates.find((a) => a.chat_id === context.chatId) ?? candidates[0];
+  if (!artifact.univer_data) {
+    return { error: `La hoja "${artifact.name}" no tiene datos.` };
+  }
+
+  try {
+    return readSheetRecords(artifact.univer_data, range, sheet);
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+}
 
 /**
  * PDF Agent Instructions - Dynamic based on context
@@ -50,9 +182,11 @@ function getPDFInstructions(context: PDFContext): string {
 - Responder preguntas con citaciones precisas
 - Resumir secciones o documento completo
 - Extraer datos estructurados (tablas, listas)
+- Extraer tablas a una hoja de cálculo con citación por celda (extract_tables)
 
 ## Tus capacidades de MANIPULACIÓN:
 - Rellenar formularios PDF (campos de texto, checkboxes)
+- Llenar un formulario por cada fila de una hoja de cálculo (prepare_form_merge → run_form_merge)
 - Fusionar múltiples PDFs en uno
 - Dividir PDF en páginas individuales o rangos
 - Extraer páginas específicas
@@ -63,6 +197,12 @@ function getPDFInstructions(context: PDFContext): string {
 - Encriptar/proteger con contraseña
 - Modificar metadatos (título, autor, etc.)
 
+## Tus capacidades ENTRE DOCUMENTOS:
+- Listar los PDFs del chat y de la base de conocimiento (list_pdfs)
+- Fusionar varios PDFs por nombre en un nuevo PDF (merge_pdfs)
+- Insertar páginas de un PDF dentro de otro (insert_pages_from)
+- Comparar dos versiones de un documento citando páginas de ambas (compare_pdfs)
+
 ## Tus capacidades de VISOR:
 - Controlar zoom (porcentaje, ajustar a ancho, ajustar a página)
 - Rotar vista de páginas
@@ -80,6 +220,7 @@ function getPDFInstructions(context: PDFContext): string {
 1. Confirma la operación antes de ejecutar cambios destructivos
 2. Informa el resultado de cada operación (éxito/error)
 3. Si el PDF tiene formulario, lista los campos disponibles primero
+4. merge_pdfs, insert_pages_from y run_form_merge piden confirmación al usuario en la interfaz antes de ejecutarse
 
 ## Ejemplo correcto:
 "El presupuesto es $1,500,000 [página 5]. ¿Deseas que llene el campo 'Monto' con este valor?"
@@ -115,7 +256,15 @@ export function createPDFTools(context: PDFContext) {
 
         log.info(`[PDFAgent] Searching for: "${query}"`);
 
-        const results = searchWithCitations(query, context.pages, maxResults);
+        // Ranked by meaning; literal matching catches very short queries
+        let results = await semanticSearchWithCitations(
+          query,
+          context.pages,
+          maxResults,
+        );
+        if (results.length === 0) {
+          results = searchWithCitations(query, context.pages, maxResults);
+        }
 
         if (results.length === 0) {
           return {
@@ -617,6 +766,277 @@ export function createPDFTools(context: PDFContext) {
       },
     }),
 
+    prepare_form_merge: tool({
+      description:
+        "Primer paso para llenar un formulario PDF con cada fila de una hoja de cálculo. Devuelve los campos del formulario, las columnas de la hoja, filas de ejemplo y un mapeo sugerido campo → columna. Propón el mapeo al usuario para que lo confirme o edite.",
+      inputSchema: z.object({
+        spreadsheet: z.string().describe("Nombre de la hoja de cálculo"),
+        range: z
+          .string()
+          .describe("Rango con encabezados en la primera fila (ej: A1:F50 o A:F)"),
+        sheet: z.string().optional().describe("Nombre de la pestaña (vacío = primera)"),
+        form: z
+          .string()
+          .optional()
+          .describe("Nombre del PDF con formulario (vacío = PDF actual)"),
+      }),
+      execute: async ({ spreadsheet, range, sheet, form }) => {
+        try {
+          const formPdf = await loadFormPdf(context, form);
+          if ("error" in formPdf) return { success: false, error: formPdf.error };
+
+          const fields = await getFields(formPdf.bytes);
+          if (fields.length === 0) {
+            return {
+              success: false,
+              error: `"${formPdf.name}" no tiene campos de formulario.`,
+            };
+          }
+
+          const data = await loadSpreadsheetRecords(context, spreadsheet, range, sheet);
+          if ("error" in data) return { success: false, error: data.error };
+
+          const suggestedMapping = suggestFieldMapping(fields, data.headers);
+          const fillable = fields.filter(
+            (f) => f.type !== "button" && f.type !== "signature",
+          );
+
+          log.info(
+            `[PDFAgent] Form merge prepared: ${fields.length} fields, ${data.records.length} rows`,
+          );
+
+          return {
+            success: true,
+            form: formPdf.name,
+            fields: fillable.map((f) => ({ name: f.name, type: f.type })),
+            columns: data.headers,
+            rowCount: data.records.length,
+            sampleRows: data.records.slice(0, 3),
+            suggestedMapping,
+            unmappedFields: fillable
+              .map((f) => f.name)
+              .filter((name) => !(name in suggestedMapping)),
+            message: `${data.records.length} fila(s) y ${fillable.length} campo(s). Muestra el mapeo propuesto al usuario y espera su confirmación antes de usar run_form_merge.`,
+          };
+        } catch (error) {
+          return { success: false, error: `Error al preparar: ${error}` };
+        }
+      },
+    }),
+
+    run_form_merge: tool({
+      description:
+        "Genera un PDF llenado por cada fila de la hoja usando el mapeo confirmado. Resultado: ZIP con un PDF por fila o un único PDF combinado. Requiere confirmación del usuario.",
+      inputSchema: z.object({
+        spreadsheet: z.string().describe("Nombre de la hoja de cálculo"),
+        range: z.string().describe("Rango con encabezados en la primera fila"),
+        sheet: z.string().optional().describe("Nombre de la pestaña (vacío = primera)"),
+        form: z
+          .string()
+          .optional()
+          .describe("Nombre del PDF con formulario (vacío = PDF actual)"),
+        mapping: z
+          .record(z.string())
+          .describe("Mapeo confirmado: nombre de campo PDF → encabezado de columna"),
+        flatten: z
+          .boolean()
+          .default(true)
+          .describe("Aplanar cada PDF (campos no editables)"),
+        output: z
+          .enum(["zip", "merged"])
+          .default("zip")
+          .describe("'zip' = un PDF por fila en un ZIP, 'merged' = un solo PDF"),
+        fileNameColumn: z
+          .string()
+          .optional()
+          .describe("Columna para nombrar cada archivo (ej: Nombre)"),
+      }),
+      execute: async ({
+        spreadsheet,
+        range,
+        sheet,
+        form,
+        mapping,
+        flatten,
+        output,
+        fileNameColumn,
+      }) => {
+        try {
+          const formPdf = await loadFormPdf(context, form);
+          if ("error" in formPdf) return { success: false, error: formPdf.error };
+
+          const data = await loadSpreadsheetRecords(context, spreadsheet, range, sheet);
+          if ("error" in data) return { success: false, error: data.error };
+
+          const unknownColumns = Object.values(mapping).filter(
+            (column) => !data.headers.includes(column),
+          );
+          if (unknownColumns.length > 0) {
+            return {
+              success: false,
+              error: `Columnas no encontradas: ${unknownColumns.join(", ")}. Columnas disponibles: ${data.headers.join(", ")}.`,
+            };
+          }
+
+          const rejection = await confirmWithUser(
+            context,
+            "run_form_merge",
+            { form: formPdf.name, mapping, rowCount: data.records.length, output, flatten },
+            `Se generarán ${data.records.length} PDF(s) de "${formPdf.name}" (${output === "zip" ? "ZIP" : "PDF combinado"}${flatten ? ", aplanados" : ""}) con este mapeo:\n${Object.entries(mapping).map(([field, column]) => `${field} ← ${column}`).join("\n")}`,
+          );
+          if (rejection) return rejection;
+
+          const fields = await getFields(formPdf.bytes);
+          const baseName = formPdf.name.replace(/\.pdf$/i, "");
+          const result = await fillFormForRecords(
+            formPdf.bytes,
+            fields,
+            data.records,
+            { mapping, flatten, fileNameColumn, baseName },
+          );
+          if (result.files.length === 0) {
+            return {
+              success: false,
+              error: "No se generó ningún PDF.",
+              errors: result.errors,
+            };
+          }
+
+          const bytes = await packageFormFiles(result.files, output);
+          let location: Record<string, unknown>;
+          if (output === "merged") {
+            const artifact = await createPdfArtifact({
+              userId: context.userId,
+              chatId: context.chatId,
+              name: `${baseName}_combinado.pdf`,
+              bytes,
+            });
+            location = { artifactId: artifact.artifactId, pageCount: artifact.pageCount };
+          } else {
+            const zipPath = path.join(
+              app.getPath("downloads"),
+              `${baseName}_${Date.now()}.zip`,
+            );
+            await fs.writeFile(zipPath, bytes);
+            location = { path: zipPath };
+          }
+
+          log.info(
+            `[PDFAgent] Form merge generated ${result.files.length} PDFs (${output})`,
+          );
+
+          return {
+            success: true,
+            generated: result.files.length,
+            ...location,
+            errors: result.errors,
+            unknownFields: result.unknownFields,
+            message:
+              output === "merged"
+                ? `PDF combinado con ${result.files.length} formulario(s) creado.`
+                : `ZIP con ${result.files.length} formulario(s) guardado en ${location.path}.`,
+          };
+        } catch (error) {
+          return { success: false, error: `Error al generar formularios: ${error}` };
+        }
+      },
+    }),
+
+    // =========================================================================
+    // TABLE EXTRACTION
+    // =========================================================================
+
+    extract_tables: tool({
+      description:
+        "Detecta tablas en el PDF (incluidas tablas que continúan en varias páginas) y crea una hoja de cálculo con ellas. Cada celda guarda una citación a su página y posición en el PDF; al seleccionar la celda, el usuario puede abrir el PDF en esa página.",
+      inputSchema: z.object({
+        pages: z
+          .array(z.number().min(1))
+          .optional()
+          .describe("Páginas donde buscar tablas (vacío = todo el documento)"),
+        name: z.string().optional().describe("Nombre de la hoja de cálculo"),
+      }),
+      execute: async ({ pages, name }) => {
+        if (!context.pdfBytes) {
+          return { success: false, error: "PDF bytes no disponibles" };
+        }
+
+        try {
+          const filename = context.pdfPath?.split("/").pop() || "PDF";
+          const allPages = await pdfService.extractTextRuns(context.pdfBytes);
+          const selected =
+            pages && pages.length > 0
+              ? allPages.filter((p) => pages.includes(p.pageNumber))
+              : allPages;
+          const tables = detectTables(selected);
+
+          if (tables.length === 0) {
+            return {
+              success: true,
+              found: false,
+              message: "No se detectaron tablas en las páginas indicadas.",
+            };
+          }
+
+          const title = name || `Tablas de ${filename.replace(/\.pdf$/i, "")}`;
+          const univerData = tablesToWorkbook(tables, { name: title, filename });
+          const { data: artifact, error } = await supabase
+            .from("artifacts")
+            .insert({
+              chat_id: context.chatId,
+              user_id: context.userId,
+              type: "spreadsheet",
+              name: title,
+              content: { source: filename, tableCount: tables.length },
+              univer_data: univerData,
+            })
+            .select("id")
+            .single();
+
+          if (error || !artifact) {
+            return {
+              success: false,
+              error: `Error al crear la hoja: ${error?.message}`,
+            };
+          }
+
+          sendToRenderer("artifact:created", {
+            type: "spreadsheet",
+            id: artifact.id,
+            artifactId: artifact.id,
+            name: title,
+            data: univerData,
+            chatId: context.chatId,
+            userId: context.userId,
+          });
+
+          log.info(
+            `[PDFAgent] Extracted ${tables.length} tables from ${filename} into ${artifact.id}`,
+          );
+
+          return {
+            success: true,
+            found: true,
+            artifactId: artifact.id,
+            tables: tables.map((t, i) => ({
+              sheet: `Table ${i + 1}`,
+              pages: t.pages,
+              columns: t.columnCount,
+              rows: t.rows.length,
+              header: t.header?.map((c) => c.text) ?? null,
+              citation:
+                t.pages.length > 1
+                  ? `[páginas ${t.pages.join(", ")}]`
+                  : `[página ${t.pages[0]}]`,
+            })),
+            message: `${tables.length} tabla(s) extraída(s) a la hoja "${title}".`,
+          };
+        } catch (error) {
+          return { success: false, error: `Error al extraer tablas: ${error}` };
+        }
+      },
+    }),
+
     // =========================================================================
     // PAGE MANIPULATION TOOLS
     // =========================================================================
@@ -1052,6 +1472,287 @@ export function createPDFTools(context: PDFContext) {
       },
     }),
 
+    // =========================================================================
+    // CROSS-DOCUMENT TOOLS
+    // =========================================================================
+
+    list_pdfs: tool({
+      description:
+        "Lista los PDFs disponibles (adjuntos del chat, base de conocimiento y artefactos PDF). Úsalo para saber a qué documentos puedes referirte por nombre.",
+      inputSchema: z.object({
+        query: z
+          .string()
+          .optional()
+          .describe("Filtrar por parte del nombre"),
+      }),
+      execute: async ({ query }) => {
+        try {
+          const documents = await listPdfDocuments(
+            context.userId,
+            context.chatId,
+          );
+          const filtered = query
+            ? documents.filter((d) =>
+                d.name.toLowerCase().includes(query.toLowerCase()),
+              )
+            : documents;
+
+          return {
+            success: true,
+            count: filtered.length,
+            documents: filtered.map((d) => ({
+              name: d.name,
+              source: d.source,
+              pageCount: d.pageCount,
+              inCurrentChat: d.chatId === context.chatId,
+              createdAt: d.createdAt,
+            })),
+            message: `${filtered.length} PDF(s) disponibles.`,
+          };
+        } catch (error) {
+          return { success: false, error: `Error al listar PDFs: ${error}` };
+        }
+      },
+    }),
+
+    merge_pdfs: tool({
+      description:
+        "Fusiona varios PDFs (por nombre) en un nuevo PDF. Crea un artefacto nuevo; los originales no se modifican. Requiere confirmación del usuario.",
+      inputSchema: z.object({
+        documents: z
+          .array(z.string())
+          .min(2)
+          .describe("Nombres de los PDFs a fusionar"),
+        order: z
+          .enum(["given", "date", "name"])
+          .default("given")
+          .describe(
+            "Orden: 'given' = el orden indicado, 'date' = fecha de subida (más antiguo primero), 'name' = alfabético",
+          ),
+        outputName: z.string().optional().describe("Nombre del PDF resultante"),
+      }),
+      execute: async ({ documents, order, outputName }) => {
+        try {
+          const library = await listPdfDocuments(context.userId, context.chatId);
+          const resolved: PdfDocumentRef[] = [];
+          for (const name of documents) {
+            const result = resolveDocument(library, name, context.chatId);
+            if ("error" in result) return { success: false, error: result.error };
+            resolved.push(result.document);
+          }
+
+          if (order === "date") {
+            resolved.sort(
+              (a, b) =>
+                new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+            );
+          } else if (order === "name") {
+            resolved.sort((a, b) => a.name.localeCompare(b.name));
+          }
+
+          const name = outputName || "merged.pdf";
+          const plan = resolved.map((d, i) => `${i + 1}. ${d.name}`);
+          const rejection = await confirmWithUser(
+            context,
+            "merge_pdfs",
+            { plan, outputName: name },
+            `Se fusionarán ${resolved.length} PDFs en "${name}" en este orden:\n${plan.join("\n")}`,
+          );
+          if (rejection) return rejection;
+
+          const merged = await pdfService.mergePdfs(
+            await Promise.all(resolved.map((d) => loadPdfBytes(d))),
+          );
+          const artifact = await createPdfArtifact({
+            userId: context.userId,
+            chatId: context.chatId,
+            name,
+            bytes: merged,
+          });
+
+          log.info(`[PDFAgent] Merged ${resolved.length} PDFs into ${name}`);
+
+          return {
+            success: true,
+            artifactId: artifact.artifactId,
+            pageCount: artifact.pageCount,
+            order: plan,
+            message: `PDF "${name}" creado (${artifact.pageCount} páginas) a partir de ${resolved.length} documentos.`,
+          };
+        } catch (error) {
+          return { success: false, error: `Error al fusionar: ${error}` };
+        }
+      },
+    }),
+
+    insert_pages_from: tool({
+      description:
+        "Inserta páginas de otro PDF (por nombre) dentro del PDF actual u otro PDF indicado. Crea un artefacto nuevo; los originales no se modifican. Requiere confirmación del usuario.",
+      inputSchema: z.object({
+        sourceDocument: z.string().describe("Nombre del PDF de origen"),
+        pages: z
+          .array(z.number().min(1))
+          .min(1)
+          .describe("Páginas del origen a copiar (1-indexed)"),
+        afterPage: z
+          .number()
+          .min(0)
+          .describe("Insertar después de esta página del destino (0 = al inicio)"),
+        targetDocument: z
+          .string()
+          .optional()
+          .describe("Nombre del PDF de destino (vacío = PDF actual)"),
+        outputName: z.string().optional().describe("Nombre del PDF resultante"),
+      }),
+      execute: async ({
+        sourceDocument,
+        pages,
+        afterPage,
+        targetDocument,
+        outputName,
+      }) => {
+        try {
+          const library = await listPdfDocuments(context.userId, context.chatId);
+          const source = resolveDocument(library, sourceDocument, context.chatId);
+          if ("error" in source) return { success: false, error: source.error };
+
+          let targetName = context.pdfPath?.split("/").pop() || "PDF";
+          let targetBytes = context.pdfBytes;
+          if (targetDocument) {
+            const target = resolveDocument(library, targetDocument, context.chatId);
+            if ("error" in target) return { success: false, error: target.error };
+            targetName = target.document.name;
+            targetBytes = await loadPdfBytes(target.document);
+          }
+          if (!targetBytes) {
+            return { success: false, error: "PDF de destino no disponible" };
+          }
+
+          const sourceBytes = await loadPdfBytes(source.document);
+          const sourcePageCount = await pdfService.getPageCount(sourceBytes);
+          const invalid = pages.filter((p) => p > sourcePageCount);
+          if (invalid.length > 0) {
+            return {
+              success: false,
+              error: `${source.document.name} tiene ${sourcePageCount} páginas; no existen: ${invalid.join(", ")}.`,
+            };
+          }
+
+          const name =
+            outputName || `${targetName.replace(/\.pdf$/i, "")}_con_paginas.pdf`;
+          const rejection = await confirmWithUser(
+            context,
+            "insert_pages_from",
+            { source: source.document.name, pages, target: targetName, afterPage, outputName: name },
+            `Se insertarán las páginas ${pages.join(", ")} de "${source.document.name}" después de la página ${afterPage} de "${targetName}" en un nuevo PDF "${name}".`,
+          );
+          if (rejection) return rejection;
+
+          const result = await pdfService.insertPages(
+            targetBytes,
+            sourceBytes,
+            afterPage,
+            pages.map((p) => p - 1),
+          );
+          const artifact = await createPdfArtifact({
+            userId: context.userId,
+            chatId: context.chatId,
+            name,
+            bytes: result,
+          });
+
+          log.info(
+            `[PDFAgent] Inserted ${pages.length} pages from ${source.document.name} into ${targetName}`,
+          );
+
+          return {
+            success: true,
+            artifactId: artifact.artifactId,
+            pageCount: artifact.pageCount,
+            message: `PDF "${name}" creado: páginas ${pages.join(", ")} de "${source.document.name}" insertadas después de la página ${afterPage} de "${targetName}".`,
+          };
+        } catch (error) {
+          return { success: false, error: `Error al insertar páginas: ${error}` };
+        }
+      },
+    }),
+
+    compare_pdfs: tool({
+      description:
+        "Compara el texto de dos versiones de un documento y lista las diferencias citando las páginas de ambas versiones.",
+      inputSchema: z.object({
+        before: z.string().describe("Nombre del PDF original (versión anterior)"),
+        after: z
+          .string()
+          .optional()
+          .describe("Nombre del PDF revisado (vacío = PDF actual)"),
+        maxChanges: z
+          .number()
+          .min(1)
+          .max(100)
+          .default(30)
+          .describe("Número máximo de cambios a devolver"),
+      }),
+      execute: async ({ before, after, maxChanges }) => {
+        try {
+          const library = await listPdfDocuments(context.userId, context.chatId);
+          const original = resolveDocument(library, before, context.chatId);
+          if ("error" in original) return { success: false, error: original.error };
+
+          let revisedName = context.pdfPath?.split("/").pop() || "PDF";
+          let revisedPages: ComparablePage[] = context.pages || [];
+          if (after) {
+            const revised = resolveDocument(library, after, context.chatId);
+            if ("error" in revised) return { success: false, error: revised.error };
+            revisedName = revised.document.name;
+            revisedPages = await loadPdfPages(revised.document);
+          }
+          if (revisedPages.length === 0) {
+            return { success: false, error: "PDF revisado sin contenido de texto" };
+          }
+
+          const originalPages = await loadPdfPages(original.document);
+          const comparison = comparePdfPages(originalPages, revisedPages);
+
+          log.info(
+            `[PDFAgent] Compared ${original.document.name} vs ${revisedName}: ${comparison.hunks.length} changes`,
+          );
+
+          if (comparison.identical) {
+            return {
+              success: true,
+              identical: true,
+              message: `No hay diferencias de texto entre "${original.document.name}" y "${revisedName}".`,
+            };
+          }
+
+          const pageRef = (pages: number[]) =>
+            pages.length === 1
+              ? `[página ${pages[0]}]`
+              : `[páginas ${pages.join(", ")}]`;
+
+          return {
+            success: true,
+            identical: false,
+            before: original.document.name,
+            after: revisedName,
+            stats: comparison.stats,
+            totalChanges: comparison.hunks.length,
+            changes: comparison.hunks.slice(0, maxChanges).map((h) => ({
+              kind: h.kind,
+              beforeCitation: `${original.document.name} ${pageRef(h.before.pages)}`,
+              afterCitation: `${revisedName} ${pageRef(h.after.pages)}`,
+              removed: h.before.lines,
+              added: h.after.lines,
+            })),
+            message: `${comparison.hunks.length} cambio(s) entre "${original.document.name}" y "${revisedName}". Cita la página de ambas versiones en cada cambio.`,
+          };
+        } catch (error) {
+          return { success: false, error: `Error al comparar: ${error}` };
+        }
+      },
+    }),
+
     // ==================== VIEWER CONTROL TOOLS ====================
 
     /**
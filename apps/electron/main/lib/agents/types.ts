@@ -3,6 +3,7 @@
  */
 
 import type { UIMessageStreamWriter } from "ai";
+import type { RoutingSelection } from "@s-agi/core";
 import type { PageContent } from "../documents/document-processor";
 
 /**
@@ -17,6 +18,10 @@ export type AgentContext = {
   apiKey?: string;
   /** Current artifact ID (spreadsheet, document, or PDF being worked on) */
   artifactId?: string;
+  /** Current artifact type, used for routing */
+  artifactType?: string;
+  /** Current selection in the open artifact, used for routing */
+  selection?: RoutingSelection;
   /** Current PDF path for PDF agent */
   pdfPath?: string;
   /** Extracted PDF pages for context */
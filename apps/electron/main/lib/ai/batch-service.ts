@@ -19,6 +19,8 @@ import { supabase } from '../supabase/client'
 import fs from 'fs/promises'
 import path from 'path'
 import { app } from 'electron'
+import { MODEL_PRICING } from './pricing'
+import type { PricedModel } from './pricing'
 
 // Types for batch requests
 export interface BatchRequest {
@@ -454,25 +456,13 @@ export interface CostEstimate {
     }
 }
 
-// Approximate pricing per 1M tokens (as of 2024)
-const PRICING = {
-    'gpt-5': { input: 5, output: 15, reasoning: 15 },
-    'gpt-5-mini': { input: 0.15, output: 0.6, reasoning: 0.6 },
-    'gpt-5-nano': { input: 0.075, output: 0.3, reasoning: 0.3 },
-    'gpt-4o-mini': { input: 0.15, output: 0.6, reasoning: 0 },
-    // Z.AI GLM Models pricing
-    'GLM-4.7': { input: 0.6, output: 2.2, reasoning: 0 },
-    'GLM-4.7-FlashX': { input: 0.07, output: 0.4, reasoning: 0 },
-    'GLM-4.7-Flash': { input: 0, output: 0, reasoning: 0 } // Free tier
-} as const
-
 export function estimateCost(
-    model: keyof typeof PRICING,
+    model: PricedModel,
     inputTokens: number,
     outputTokens: number,
     reasoningTokens: number = 0
 ): CostEstimate {
-    const pricing = PRICING[model] || PRICING['gpt-5-mini']
+    const pricing = MODEL_PRICING[model] || MODEL_PRICING['gpt-5-mini']
     
     const inputCost = (inputTokens / 1_000_000) * pricing.input
     const outputCost = (outputTokens / 1_000_000) * pricing.output
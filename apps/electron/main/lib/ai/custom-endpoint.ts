@@ -0,0 +1,133 @@
+import { toCustomModelId } from '@s-agi/core/types/ai'
+import type { ModelDefinition } from '@s-agi/core/types/ai'
+import type { CustomModelConfig } from '../auth/custom-provider-store'
+
+/**
+ * OpenAI-compatible custom endpoints (Ollama, LM Studio, vLLM...)
+ *
+ * Models are discovered with GET {baseURL}/models. The endpoint does not report
+ * capabilities, so they are inferred from the model name and can be adjusted
+ * by the user in Settings.
+ */
+
+const DISCOVERY_TIMEOUT_MS = 10000
+
+/** Models that cannot chat (embeddings, rerankers, speech) */
+const NON_CHAT_MODEL_PATTERN = /embed|rerank|\bbge\b|bge-|\be5-|whisper|tts|moderation/i
+
+const VISION_MODEL_PATTERN = /vision|llava|bakllava|moondream|pixtral|minicpm-v|-vl\b|-vl-|qwen2\.5vl|gemma3|llama4|gpt-4o|gpt-4\.1|gpt-5/i
+
+const REASONING_MODEL_PATTERN = /\br1\b|-r1|qwq|thinking|reason|gpt-oss|qwen3|magistral|\bo[134]\b/i
+
+/** Small or legacy families without reliable function calling */
+const NO_TOOLS_MODEL_PATTERN = /gemma(?!3)|phi-?2|tinyllama|codellama|starcoder|deepseek-coder(?!-v2)|llava/i
+
+/**
+ * Normalize a user-entered base URL (trailing slashes, whitespace)
+ */
+export function normalizeBaseURL(baseURL: string): string {
+    return baseURL.trim().replace(/\/+$/, '')
+}
+
+/**
+ * Best-effort capability guess from the model name
+ */
+export function inferModelCapabilities(modelId: string): Pick<
+    CustomModelConfig,
+    'supportsTools' | 'supportsImages' | 'supportsReasoning'
+> {
+    // Ollama ids carry a tag (llama3.1:8b); the family is what matters
+    const name = modelId.toLowerCase().split('/').pop() ?? modelId
+    return {
+        supportsTools: !NO_TOOLS_MODEL_PATTERN.test(name),
+        supportsImages: VISION_MODEL_PATTERN.test(name),
+        supportsReasoning: REASONING_MODEL_PATTERN.test(name)
+    }
+}
+
+/**
+ * Extract chat model IDs from a /models response
+ */
+export function parseModelList(body: unknown): string[] {
+    const data = (body as { data?: unknown } | null)?.data
+    if (!Array.isArray(data)) {
+        throw new Error('Unexpected /models response: missing "data" array')
+    }
+
+    const ids = data
+        .map((entry) => (entry && typeof entry.id === 'string' ? entry.id.trim() : ''))
+        .filter((id) => id && !NON_CHAT_MODEL_PATTERN.test(id))
+
+    return [...new Set(ids)].sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * List the chat models served by an OpenAI-compatible endpoint
+ */
+export async function discoverCustomModels(
+    baseURL: string,
+    apiKey?: string
+): Promise<CustomModelConfig[]> {
+    const url = `${normalizeBaseURL(baseURL)}/models`
+    const headers: Record<string, string> = { Accept: 'application/json' }
+    if (apiKey) {
+        headers.Authorization = `Bearer ${apiKey}`
+    }
+
+    let response: Response
+    try {
+        response = await fetch(url, {
+            headers,
+            signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS)
+        })
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        throw new Error(`Could not reach ${url}: ${message}`)
+    }
+
+    if (!response.ok) {
+        throw new Error(`Model discovery failed (${response.status} ${response.statusText}) at ${url}`)
+    }
+
+    return parseModelList(await response.json()).map((id) => ({
+        id,
+        ...inferModelCapabilities(id)
+    }))
+}
+
+/**
+ * Merge freshly discovered models with the stored ones, keeping user overrides
+ */
+export function mergeDiscoveredModels(
+    previous: CustomModelConfig[],
+    discovered: CustomModelConfig[]
+): CustomModelConfig[] {
+    const byId = new Map(previous.map((model) => [model.id, model]))
+    return discovered.map((model) => {
+        const existing = byId.get(model.id)
+        return existing?.userOverride ? existing : { ...model, name: existing?.name ?? model.name }
+    })
+}
+
+/**
+ * Model definition used by the chat pipeline for a custom endpoint model
+ */
+export function toCustomModelDefinition(
+    model: CustomModelConfig,
+    providerName?: string
+): ModelDefinition {
+    return {
+        id: toCustomModelId(model.id),
+        provider: 'custom',
+        name: model.name || model.id,
+        description: providerName ? `${providerName} (custom endpoint)` : 'Custom endpoint',
+        supportsTools: model.supportsTools,
+        supportsImages: model.supportsImages,
+        supportsReasoning: model.supportsReasoning,
+        // Served locally or on-prem: no OpenAI-hosted tools
+        supportsNativeWebSearch: false,
+        supportsCodeInterpreter: false,
+        supportsFileSearch: false,
+        modelIdForApi: model.id
+    }
+}
@@ -14,7 +14,7 @@ export {
   clearClientCache,
 } from './blocknote-server'
 
-// AI Providers (OpenAI, ChatGPT Plus, Z.AI)
+// AI Providers (OpenAI, ChatGPT Plus, Z.AI, custom endpoint)
 export {
   getSagiProviderRegistry,
   getLanguageModel,
@@ -49,3 +49,11 @@ export * from './agent'
 
 // Batch Service
 export * from './batch-service'
+
+// Row-wise spreadsheet batch jobs
+export * from './row-batch'
+export { RowBatchService, getRowBatchService, ROW_BATCH_JOB_TYPE } from './row-batch-service'
+export type { RowBatchInput, RowBatchEstimate, RowBatchJob } from './row-batch-service'
+
+// Model pricing
+export * from './pricing'
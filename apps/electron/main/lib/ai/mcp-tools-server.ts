@@ -39,6 +39,7 @@ import { sendToRenderer } from '../window-manager'
 import { supabase } from '../supabase/client'
 import type { ExcelContext, PDFContext, DocsContext } from '../agents/types'
 import { executeTool, ALL_TOOLS, type ToolContext } from '../trpc/routers/tools'
+import { FormulaEngine, getCellFormula, parseFormula, recalculateWorkbook, toPlainValue } from '../formula'
 
 /**
  * MCP Tool Definition compatible with Claude SDK
@@ -80,7 +81,7 @@ function notifyArtifactUpdate(
 
 // Types for univer data structure
 interface UniverSheetData {
-    cellData: Record<number, Record<number, { v?: unknown; s?: Record<string, unknown> }>>;
+    cellData: Record<number, Record<number, { v?: unknown; f?: string; t?: number; s?: Record<string, unknown> }>>;
     [key: string]: unknown;
 }
 
@@ -90,6 +91,17 @@ interface UniverData {
     [key: string]: unknown;
 }
 
+/**
+ * Helper: Recalculate formula cells so stored values match what the renderer shows
+ */
+function recalculateFormulas(univerData: UniverData) {
+    const result = recalculateWorkbook(univerData)
+    if (result.circular.length > 0) {
+        log.warn(`[MCP ExcelTool] Circular references: ${result.circular.join(', ')}`)
+    }
+    return result
+}
+
 interface ArtifactResult {
     id: string;
     univer_data: UniverData;
@@ -524,11 +536,13 @@ DEVUELVE: {"success": true, "updatedCells": 4, "message": "4 celda(s) actualizad
                     for (const update of updates) {
                         const { row, col } = parseCellReference(update.cell)
                         if (!sheet.cellData[row]) sheet.cellData[row] = {}
-                        sheet.cellData[row][col] = {
-                            v: update.formula || update.value
-                        }
+                        const formula = update.formula
+                            || (typeof update.value === 'string' && update.value.startsWith('=') ? update.value : undefined)
+                        sheet.cellData[row][col] = formula ? { f: formula } : { v: update.value }
                     }
 
+                    const recalculation = recalculateFormulas(univerData)
+
                     // Update database (support both artifacts and user_files tables)
                     const tableName = artifact.isUserFile ? 'user_files' : 'artifacts'
                     const { error: updateError } = await supabase
@@ -549,6 +563,7 @@ DEVUELVE: {"success": true, "updatedCells": 4, "message": "4 celda(s) actualizad
                             text: JSON.stringify({
                                 success: true,
                                 updatedCells: updates.length,
+                                formulaErrors: recalculation.errors.length > 0 ? recalculation.errors : undefined,
                                 message: `${updates.length} celda(s) actualizada(s).`
                             })
                         }]
@@ -826,14 +841,30 @@ FÓRMULAS COMUNES:
 EJEMPLO:
 {"cell": "D11", "formula": "=SUM(D2:D10)"}
 
-DEVUELVE: {"success": true, "cell": "D11", "formula": "=SUM(D2:D10)", "message": "Formula insertada..."}`,
+DEVUELVE: {"success": true, "cell": "D11", "formula": "=SUM(D2:D10)", "value": 4520, "message": "Formula insertada..."}`,
             inputSchema: z.object({
                 artifactId: z.string().optional().describe('NO pasar si hay hoja activa'),
                 cell: z.string().describe('Celda destino: "D11", "E5", "B100"'),
                 formula: z.string().describe('Fórmula con = al inicio: "=SUM(A1:A10)", "=IF(B1>0,\\"Sí\\",\\"No\\")"')
             }),
-            handler: async ({ cell, formula, artifactId: providedArtifactId }) => {
+            handler: async ({ cell, formula: rawFormula, artifactId: providedArtifactId }) => {
                 try {
+                    const formula = rawFormula.trim().startsWith('=') ? rawFormula.trim() : `=${rawFormula.trim()}`
+                    try {
+                        parseFormula(formula)
+                    } catch (parseError) {
+                        return {
+                            content: [{
+                                type: 'text',
+                                text: JSON.stringify({
+                                    success: false,
+                                    error: `Fórmula inválida ${formula}: ${parseError instanceof Error ? parseError.message : String(parseError)}`
+                                })
+                            }],
+                            isError: true
+                        }
+                    }
+
                     const targetId = getTargetId(providedArtifactId, context)
                     if (!targetId) {
                         return {
@@ -884,7 +915,10 @@ DEVUELVE: {"success": true, "cell": "D11", "formula": "=SUM(D2:D10)", "message":
                     // Parse cell reference and insert formula
                     const { row, col } = parseCellReference(cell)
                     if (!sheet.cellData[row]) sheet.cellData[row] = {}
-                    sheet.cellData[row][col] = { v: formula }
+                    sheet.cellData[row][col] = { ...sheet.cellData[row][col], f: formula }
+
+                    recalculateFormulas(univerData)
+                    const value = sheet.cellData[row][col].v ?? null
 
                     // Update database (support both artifacts and user_files tables)
                     const tableName = artifact.isUserFile ? 'user_files' : 'artifacts'
@@ -907,7 +941,8 @@ DEVUELVE: {"success": true, "cell": "D11", "formula": "=SUM(D2:D10)", "message":
                                 success: true,
                                 cell,
                                 formula,
-                                message: `Formula "${formula}" insertada en ${cell}.`
+                                value,
+                                message: `Formula "${formula}" insertada en ${cell}. Resultado: ${value}`
                             })
                         }]
                     }
@@ -1546,18 +1581,17 @@ CUÁNDO USAR:
 
                     const univerData = artifact.univer_data
                     const sheetId = Object.keys(univerData.sheets)[0]
-                    const sheet = univerData.sheets[sheetId]
-                    const cellData = sheet.cellData || {}
+                    const engine = new FormulaEngine(univerData)
 
                     // Parse range
                     const { start, end } = parseRange(range)
-                    const data: Array<Array<string | number | null>> = []
+                    const data: Array<Array<string | number | boolean | null>> = []
 
+                    // Formula cells are read with their computed value
                     for (let row = start.row; row <= end.row; row++) {
-                        const rowData: Array<string | number | null> = []
+                        const rowData: Array<string | number | boolean | null> = []
                         for (let col = start.col; col <= end.col; col++) {
-                            const cell = cellData[row]?.[col]
-                            rowData.push(cell?.v as string | number | null ?? null)
+                            rowData.push(toPlainValue(engine.getCellValue(sheetId, row, col)))
                         }
                         data.push(rowData)
                     }
@@ -3042,18 +3076,15 @@ DEVUELVE: {"success": true, "message": "Formato currency aplicado a C2:C100"}`,
                     const artifact = await getArtifactWithOwnership(targetId, context.userId)
                     const univerData = artifact.univer_data
                     const sheetId = Object.keys(univerData.sheets)[0]
-                    const sheet = univerData.sheets[sheetId]
-                    const cellData = sheet.cellData || {}
+                    const engine = new FormulaEngine(univerData)
                     const { start, end } = parseRange(range)
 
                     const values: number[] = []
                     for (let row = start.row; row <= end.row; row++) {
                         for (let col = start.col; col <= end.col; col++) {
-                            const val = cellData[row]?.[col]?.v
+                            const val = engine.getCellValue(sheetId, row, col)
                             if (typeof val === 'number') {
                                 values.push(val)
-                            } else if (typeof val === 'string' && !isNaN(parseFloat(val))) {
-                                values.push(parseFloat(val))
                             }
                         }
                     }
@@ -3381,6 +3412,7 @@ DEVUELVE: {"success": true, "message": "Formato currency aplicado a C2:C100"}`,
                     const { row, col } = parseCellReference(cell)
 
                     const cellData = sheet.cellData[row]?.[col]
+                    const engine = new FormulaEngine(univerData)
 
                     return {
                         content: [{
@@ -3388,8 +3420,8 @@ DEVUELVE: {"success": true, "message": "Formato currency aplicado a C2:C100"}`,
                             text: JSON.stringify({
                                 success: true,
                                 cell,
-                                value: cellData?.v ?? null,
-                                formula: cellData?.f ?? null,
+                                value: toPlainValue(engine.getCellValue(sheetId, row, col)),
+                                formula: getCellFormula(cellData),
                                 hasStyle: !!cellData?.s,
                                 isEmpty: !cellData
                             })
@@ -0,0 +1,61 @@
+/**
+ * Approximate model pricing in USD per 1M tokens, shared by the batch cost
+ * estimate and spending budgets. Reasoning tokens are billed as output.
+ */
+
+export interface ModelPricing {
+    input: number
+    output: number
+    reasoning: number
+}
+
+export const MODEL_PRICING = {
+    'gpt-5': { input: 5, output: 15, reasoning: 15 },
+    'gpt-5-mini': { input: 0.15, output: 0.6, reasoning: 0.6 },
+    'gpt-5-nano': { input: 0.075, output: 0.3, reasoning: 0.3 },
+    'gpt-5.2': { input: 1.75, output: 14, reasoning: 14 },
+    'gpt-5.1-codex-max': { input: 1.25, output: 10, reasoning: 10 },
+    'gpt-5.1-codex-mini': { input: 0.25, output: 2, reasoning: 2 },
+    'gpt-5.2-codex': { input: 1.75, output: 14, reasoning: 14 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6, reasoning: 0 },
+    // Anthropic Claude 4.5 models
+    'claude-opus-4-5': { input: 5, output: 25, reasoning: 25 },
+    'claude-sonnet-4-5': { input: 3, output: 15, reasoning: 15 },
+    'claude-haiku-4-5': { input: 1, output: 5, reasoning: 5 },
+    // Z.AI GLM Models pricing
+    'GLM-4.7': { input: 0.6, output: 2.2, reasoning: 0 },
+    'GLM-4.7-FlashX': { input: 0.07, output: 0.4, reasoning: 0 },
+    'GLM-4.7-Flash': { input: 0, output: 0, reasoning: 0 } // Free tier
+} as const satisfies Record<string, ModelPricing>
+
+export type PricedModel = keyof typeof MODEL_PRICING
+
+/**
+ * Pricing for a model id. Dated or suffixed ids (claude-sonnet-4-5-20250929,
+ * gpt-5.2-openai) use the longest matching entry; unknown models (e.g.
+ * custom endpoints) have no pricing.
+ */
+export function getModelPricing(modelId: string): ModelPricing | null {
+    if (modelId in MODEL_PRICING) return MODEL_PRICING[modelId as PricedModel]
+    let match: PricedModel | null = null
+    for (const key of Object.keys(MODEL_PRICING) as PricedModel[]) {
+        if (modelId.startsWith(`${key}-`) && (!match || key.length > match.length)) match = key
+    }
+    return match ? MODEL_PRICING[match] : null
+}
+
+/**
+ * Cost in USD of a request with the given token counts (0 for unpriced models)
+ */
+export function tokenCost(
+    modelId: string,
+    tokens: { inputTokens: number; outputTokens: number; reasoningTokens?: number }
+): number {
+    const pricing = getModelPricing(modelId)
+    if (!pricing) return 0
+    return (
+        tokens.inputTokens * pricing.input +
+        tokens.outputTokens * pricing.output +
+        (tokens.reasoningTokens ?? 0) * pricing.reasoning
+    ) / 1_000_000
+}
@@ -6,6 +6,7 @@ import { getTokenManager, sanitizeToken } from '../auth/token-manager'
 import { getChatGPTAuthManager } from '../auth/chatgpt-manager'
 import { getClaudeCodeAuthManager } from '../auth/claude-code-manager'
 import { getZaiAuthManager } from '../auth/zai-manager'
+import { getCustomProviderManager } from '../auth/custom-provider-manager'
 import { getSecureApiKeyStore } from '../auth/api-key-store'
 import { resolveModelIdForApi } from '@s-agi/core/types/ai'
 import type { AIProvider } from '@s-agi/core/types/ai'
@@ -186,6 +187,30 @@ function createClaudeProvider() {
     })
 }
 
+/**
+ * Create a provider for the user's OpenAI-compatible endpoint (Ollama, LM Studio, vLLM...)
+ * Uses Chat Completions: most local servers do not implement the Responses API.
+ */
+function createCustomEndpointProvider() {
+    const manager = getCustomProviderManager()
+    const config = manager.getConfig()
+
+    if (!config) {
+        throw new Error('Custom endpoint not configured. Add its base URL in Settings.')
+    }
+
+    const provider = createOpenAI({
+        baseURL: config.baseURL,
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: config.apiKey || 'not-needed',
+        name: 'custom'
+    })
+
+    log.debug(`[AI] Custom endpoint provider: ${config.baseURL}`)
+
+    return (modelId: string) => provider.chat(modelId)
+}
+
 /**
  * Create custom fetch function for Z.AI
  */
@@ -217,6 +242,9 @@ function createZaiFetch(manager: ReturnType<typeof getZaiAuthManager>) {
  * - openai: Standard OpenAI API (requires API key)
  * - chatgpt-plus: ChatGPT Plus/Pro via Codex OAuth (subscription)
  * - zai: Z.AI GLM models (OpenAI-compatible)
+ *
+ * The custom endpoint is not part of the registry: its models are discovered at
+ * runtime, so getLanguageModel builds it on demand.
  */
 let registryInstance: ReturnType<typeof createProviderRegistry> | null = null
 
@@ -251,6 +279,11 @@ export function getLanguageModel(provider: AIProvider, modelId: string) {
         return claude(apiModelId)
     }
 
+    // Custom endpoint config can change at any time: build it per request
+    if (provider === 'custom') {
+        return createCustomEndpointProvider()(apiModelId)
+    }
+
     // For other providers, use the registry
     return registry.languageModel(`${provider}:${apiModelId}`)
 }
@@ -271,6 +304,8 @@ export function isProviderAvailable(provider: AIProvider): boolean {
         case 'claude':
             // Claude supports OAuth (via Claude Agent SDK) or API key
             return getClaudeCodeAuthManager().isConnected() || getSecureApiKeyStore().hasAnthropicKey()
+        case 'custom':
+            return (getCustomProviderManager().getConfig()?.models.length ?? 0) > 0
         default:
             return false
     }
@@ -315,6 +350,18 @@ export function getProviderStatus(provider: AIProvider): {
                 message: available ? undefined : 'Connect Claude Code or add Anthropic API key in Settings'
             }
         }
+        case 'custom': {
+            const config = getCustomProviderManager().getConfig()
+            const available = isProviderAvailable('custom')
+            return {
+                available,
+                message: !config
+                    ? 'Add an OpenAI-compatible endpoint in Settings'
+                    : available
+                        ? `${config.name || 'Custom endpoint'} (${config.baseURL})`
+                        : 'No models found on the custom endpoint. Refresh models in Settings'
+            }
+        }
         default:
             return { available: false, message: 'Unknown provider' }
     }
@@ -0,0 +1,495 @@
+import OpenAI from 'openai'
+import { randomUUID } from 'crypto'
+import log from 'electron-log'
+import { supabase } from '../supabase/client'
+import { sendToRenderer } from '../window-manager'
+import { getSecureApiKeyStore } from '../auth/api-key-store'
+import { estimateCost } from './batch-service'
+import type { BatchStatus, CostEstimate } from './batch-service'
+import {
+    DEFAULT_MAX_OUTPUT_TOKENS,
+    applyRowResults,
+    buildRowRequests,
+    collectRowInputs,
+    downloadRowBatchResults,
+    estimateRowTokens,
+    rowResultsCost,
+    runFlexRows,
+    submitRowBatch,
+    supportsFlex
+} from './row-batch'
+import type { RowBatchMode, RowBatchModel, RowBatchOptions, RowResult } from './row-batch'
+
+export const ROW_BATCH_JOB_TYPE = 'spreadsheet_rows'
+
+const POLL_INTERVAL_MS = 60 * 1000
+const FIRST_POLL_DELAY_MS = 15 * 1000
+const ACTIVE_STATUSES: string[] = ['validating', 'in_progress', 'finalizing', 'cancelling']
+// Terminal batch statuses that may still carry partial output
+const RESULT_STATUSES: string[] = ['completed', 'expired', 'cancelled']
+
+export interface RowBatchInput extends RowBatchOptions {
+    fileId: string
+    prompt: string
+    model: RowBatchModel
+    maxOutputTokens?: number
+}
+
+export interface RowBatchEstimate {
+    sheetName: string
+    rowCount: number
+    /** First rows that would be sent, for a preview */
+    sample: Array<{ row: number; text: string }>
+    cost: CostEstimate
+}
+
+interface RowBatchJobMetadata {
+    mode: RowBatchMode
+    fileId: string
+    fileName: string
+    sheetId: string
+    sheetName: string
+    sourceCol: number
+    targetCol: number
+    model: RowBatchModel
+    prompt: string
+    estimatedCost: number
+    written?: number
+    failed?: number
+    /** Flex rows that fell back to the standard tier (standard price) */
+    standardTierRows?: number
+    /** Billed cost of the answered rows, counted by spending budgets */
+    cost?: number
+    error?: string
+}
+
+export interface RowBatchJob {
+    id: string
+    status: string
+    requestCount: number
+    completedCount: number
+    failedCount: number
+    createdAt: string
+    completedAt: string | null
+    metadata: RowBatchJobMetadata
+}
+
+function toJob(row: any): RowBatchJob {
+    return {
+        id: row.id,
+        status: row.status,
+        requestCount: row.request_count ?? 0,
+        completedCount: row.completed_count ?? 0,
+        failedCount: row.failed_count ?? 0,
+        createdAt: row.created_at,
+        completedAt: row.completed_at ?? null,
+        metadata: row.metadata as RowBatchJobMetadata
+    }
+}
+
+/**
+ * "Apply prompt to each row" jobs on spreadsheets. Large jobs go through the
+ * Batch API and are polled until OpenAI finishes them (possibly after a
+ * restart); flex jobs run right away with Batch pricing. Jobs are tracked in
+ * batch_jobs and the answers are written into the file when they arrive.
+ */
+export class RowBatchService {
+    private pollTimer: ReturnType<typeof setInterval> | null = null
+    private firstPollTimer: ReturnType<typeof setTimeout> | null = null
+    private polling = false
+    /** Flex jobs running in this session; set to true to cancel */
+    private flexJobs = new Map<string, { cancelled: boolean }>()
+
+    start(): void {
+        if (this.pollTimer) return
+        this.firstPollTimer = setTimeout(() => {
+            this.firstPollTimer = null
+            void this.poll()
+        }, FIRST_POLL_DELAY_MS)
+        this.pollTimer = setInterval(() => void this.poll(), POLL_INTERVAL_MS)
+    }
+
+    stop(): void {
+        if (this.firstPollTimer) clearTimeout(this.firstPollTimer)
+        if (this.pollTimer) clearInterval(this.pollTimer)
+        this.firstPollTimer = null
+        this.pollTimer = null
+        for (const job of this.flexJobs.values()) job.cancelled = true
+    }
+
+    private getClient(): OpenAI {
+        const apiKey = getSecureApiKeyStore().getOpenAIKey()
+        if (!apiKey) {
+            throw new Error('An OpenAI API key is required for batch operations')
+        }
+        return new OpenAI({ apiKey })
+    }
+
+    private async loadSpreadsheet(userId: string, fileId: string): Promise<{ name: string; univerData: any }> {
+        const { data: file, error } = await supabase
+            .from('user_files')
+            .select('id, name, type, univer_data')
+            .eq('id', fileId)
+            .eq('user_id', userId)
+            .is('deleted_at', null)
+            .single()
+
+        if (error || !file) {
+            throw new Error('File not found')
+        }
+        if (file.type !== 'excel' || !file.univer_data) {
+            throw new Error(`"${file.name}" is not a spreadsheet`)
+        }
+        return { name: file.name, univerData: file.univer_data }
+    }
+
+    private async prepare(userId: string, input: RowBatchInput) {
+        const file = await this.loadSpreadsheet(userId, input.fileId)
+        const selection = collectRowInputs(file.univerData, input)
+        if (selection.rows.length === 0) {
+            throw new Error('No rows to process: the source column is empty')
+        }
+        const requestOptions = {
+            model: input.model,
+            prompt: input.prompt,
+            maxOutputTokens: input.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS
+        }
+        const tokens = estimateRowTokens(selection.rows, requestOptions)
+        const cost = estimateCost(input.model, tokens.inputTokens, tokens.outputTokens)
+        return { file, selection, requestOptions, cost }
+    }
+
+    /**
+     * Rows that would be processed and what they would cost, before submitting
+     */
+    async estimate(userId: string, input: RowBatchInput): Promise<RowBatchEstimate> {
+        const { selection, cost } = await this.prepare(userId, input)
+        return {
+            sheetName: selection.sheetName,
+            rowCount: selection.rows.length,
+            sample: selection.rows.slice(0, 3),
+            cost
+        }
+    }
+
+    async submit(userId: string, input: RowBatchInput, mode: RowBatchMode): Promise<RowBatchJob> {
+        if (mode === 'flex' && !supportsFlex(input.model)) {
+            throw new Error(`${input.model} is not available on the flex tier`)
+        }
+        const client = this.getClient()
+        const { file, selection, requestOptions, cost } = await this.prepare(userId, input)
+        const requests = buildRowRequests(selection.rows, requestOptions)
+        const metadata: RowBatchJobMetadata = {
+            mode,
+            fileId: input.fileId,
+            fileName: file.name,
+            sheetId: selection.sheetId,
+            sheetName: selection.sheetName,
+            sourceCol: selection.sourceCol,
+            targetCol: selection.targetCol,
+            model: input.model,
+            prompt: input.prompt,
+            estimatedCost: mode === 'batch' ? cost.batchCost : cost.flexCost
+        }
+
+        let id: string
+        let status: string
+        let inputFileId: string | null = null
+        if (mode === 'batch') {
+            const batch = await submitRowBatch(client, requests, {
+                type: ROW_BATCH_JOB_TYPE,
+                file_id: input.fileId
+            })
+            id = batch.id
+            status = batch.status
+            inputFileId = batch.input_file_id
+            log.info(`[RowBatch] Created batch ${batch.id} with ${requests.length} rows for file ${input.fileId}`)
+        } else {
+            id = `flex_${randomUUID()}`
+            status = 'in_progress'
+        }
+
+        const { data, error } = await supabase
+            .from('batch_jobs')
+            .insert({
+                id,
+                user_id: userId,
+                type: ROW_BATCH_JOB_TYPE,
+                status,
+                input_file_id: inputFileId,
+                request_count: requests.length,
+                metadata,
+                created_at: new Date().toISOString()
+            })
+            .select('*')
+            .single()
+
+        if (error || !data) {
+            log.error('[RowBatch] Failed to record job:', error)
+            if (mode === 'batch') {
+                await client.batches.cancel(id).catch(() => {})
+            }
+            throw new Error(`Failed to record batch job: ${error?.message ?? 'unknown error'}`)
+        }
+
+        if (mode === 'flex') {
+            void this.runFlexJob(client, id, userId, requests)
+        }
+        this.notify(id, status)
+        return toJob(data)
+    }
+
+    async list(userId: string, fileId?: string): Promise<RowBatchJob[]> {
+        let query = supabase
+            .from('batch_jobs')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('type', ROW_BATCH_JOB_TYPE)
+            .order('created_at', { ascending: false })
+            .limit(20)
+
+        if (fileId) {
+            query = query.eq('metadata->>fileId', fileId)
+        }
+
+        const { data, error } = await query
+        if (error) {
+            throw new Error(error.message)
+        }
+        return (data || []).map(toJob)
+    }
+
+    async cancel(userId: string, jobId: string): Promise<void> {
+        const job = await this.getJob(userId, jobId)
+        if (!ACTIVE_STATUSES.includes(job.status)) {
+            throw new Error('The job has already finished')
+        }
+
+        if (job.metadata.mode === 'flex') {
+            const running = this.flexJobs.get(jobId)
+            if (running) running.cancelled = true
+            await this.updateJob(jobId, { status: 'cancelled', completed_at: new Date().toISOString() })
+            return
+        }
+
+        const batch = await this.getClient().batches.cancel(jobId)
+        await this.updateJob(jobId, { status: batch.status })
+    }
+
+    private async getJob(userId: string, jobId: string): Promise<RowBatchJob> {
+        const { data, error } = await supabase
+            .from('batch_jobs')
+            .select('*')
+            .eq('id', jobId)
+            .eq('user_id', userId)
+            .eq('type', ROW_BATCH_JOB_TYPE)
+            .single()
+
+        if (error || !data) {
+            throw new Error('Batch job not found')
+        }
+        return toJob(data)
+    }
+
+    private async updateJob(jobId: string, updates: Record<string, unknown>): Promise<void> {
+        const { error } = await supabase.from('batch_jobs').update(updates).eq('id', jobId)
+        if (error) {
+            log.error(`[RowBatch] Failed to update job ${jobId}:`, error)
+        }
+        if (typeof updates.status === 'string') {
+            this.notify(jobId, updates.status)
+        }
+    }
+
+    private notify(jobId: string, status: string): void {
+        sendToRenderer('batch-jobs:changed', { jobId, status })
+    }
+
+    /**
+     * Check the active jobs of the signed-in user (RLS limits batch_jobs to them)
+     */
+    private async poll(): Promise<void> {
+        if (this.polling) return
+        this.polling = true
+        try {
+            const { data: { session } } = await supabase.auth.getSession()
+            const userId = session?.user?.id
+            if (!userId) return
+
+            const { data, error } = await supabase
+                .from('batch_jobs')
+                .select('*')
+                .eq('user_id', userId)
+                .eq('type', ROW_BATCH_JOB_TYPE)
+                .in('status', ACTIVE_STATUSES)
+
+            if (error) {
+                log.error('[RowBatch] Failed to list active jobs:', error)
+                return
+            }
+
+            for (const job of (data || []).map(toJob)) {
+                if (job.metadata.mode === 'flex') {
+                    // Flex calls die with the app; nothing to resume
+                    if (!this.flexJobs.has(job.id)) {
+                        await this.finishJob(job.id, userId, job.metadata, 'failed', [], 'Interrupted before finishing')
+                    }
+                    continue
+                }
+                await this.pollBatch(job, userId)
+            }
+        } catch (error) {
+            log.error('[RowBatch] Poll failed:', error)
+        } finally {
+            this.polling = false
+        }
+    }
+
+    private async pollBatch(job: RowBatchJob, userId: string): Promise<void> {
+        const client = this.getClient()
+        const batch = await client.batches.retrieve(job.id)
+        const status = batch.status as BatchStatus
+
+        if (!RESULT_STATUSES.includes(status) && status !== 'failed') {
+            if (status !== job.status || batch.request_counts?.completed !== job.completedCount) {
+                await this.updateJob(job.id, {
+                    status,
+                    completed_count: batch.request_counts?.completed ?? 0,
+                    failed_count: batch.request_counts?.failed ?? 0
+                })
+            }
+            return
+        }
+
+        await this.updateJob(job.id, {
+            output_file_id: batch.output_file_id ?? null,
+            error_file_id: batch.error_file_id ?? null,
+            completed_count: batch.request_counts?.completed ?? 0,
+            failed_count: batch.request_counts?.failed ?? 0
+        })
+
+        if (status === 'failed') {
+            const reason = batch.errors?.data?.[0]?.message ?? 'The batch failed'
+            await this.finishJob(job.id, userId, job.metadata, 'failed', [], reason)
+            return
+        }
+
+        const results = await downloadRowBatchResults(client, batch)
+        await this.finishJob(job.id, userId, job.metadata, status === 'completed' ? 'processed' : status, results)
+    }
+
+    private async runFlexJob(
+        client: OpenAI,
+        jobId: string,
+        userId: string,
+        requests: ReturnType<typeof buildRowRequests>
+    ): Promise<void> {
+        const state = { cancelled: false }
+        this.flexJobs.set(jobId, state)
+        try {
+            let lastReported = 0
+            const results = await runFlexRows(client, requests, {
+                shouldStop: () => state.cancelled,
+                onProgress: (done) => {
+                    // Keep the row count in the table fresh without a write per row
+                    if (done - lastReported < 50 && done < requests.length) return
+                    lastReported = done
+                    void this.updateJob(jobId, { completed_count: done })
+                }
+            })
+            if (state.cancelled) return
+
+            const failed = results.filter(result => result.error).length
+            await this.updateJob(jobId, { completed_count: results.length - failed, failed_count: failed })
+            const job = await this.getJob(userId, jobId)
+            await this.finishJob(jobId, userId, job.metadata, 'processed', results)
+        } catch (error) {
+            log.error(`[RowBatch] Flex job ${jobId} failed:`, error)
+            const job = await this.getJob(userId, jobId).catch(() => null)
+            if (job) {
+                await this.finishJob(jobId, userId, job.metadata, 'failed', [], error instanceof Error ? error.message : String(error))
+            }
+        } finally {
+            this.flexJobs.delete(jobId)
+        }
+    }
+
+    /**
+     * Write the answers into the current version of the file and close the job
+     */
+    private async finishJob(
+        jobId: string,
+        userId: string,
+        metadata: RowBatchJobMetadata,
+        status: string,
+        results: RowResult[],
+        error?: string
+    ): Promise<void> {
+        let written = 0
+        let failed = results.filter(result => result.error).length
+        let writeError = error
+        const standardTierRows = results.filter(result => result.standardTier).length
+
+        if (results.length > 0) {
+            try {
+                // Re-read the file so edits made while the job ran are kept
+                const file = await this.loadSpreadsheet(userId, metadata.fileId)
+                const applied = applyRowResults(file.univerData, metadata.sheetId, metadata.targetCol, results)
+
+                const { error: updateError } = await supabase
+                    .from('user_files')
+                    .update({ univer_data: applied.snapshot, updated_at: new Date().toISOString() })
+                    .eq('id', metadata.fileId)
+                    .eq('user_id', userId)
+
+                if (updateError) {
+                    throw new Error(updateError.message)
+                }
+
+                written = applied.written
+                failed = applied.failed
+                sendToRenderer('artifact:update', {
+                    artifactId: metadata.fileId,
+                    univerData: applied.snapshot,
+                    type: 'spreadsheet',
+                    fileId: metadata.fileId
+                })
+                // An open spreadsheet saves it as an AI edit version
+                sendToRenderer('file:save-with-ai-metadata', {
+                    fileId: metadata.fileId,
+                    tabType: 'excel',
+                    aiModel: metadata.model,
+                    aiPrompt: metadata.prompt,
+                    toolName: 'RowBatch'
+                })
+                log.info(`[RowBatch] Wrote ${written} row(s) of job ${jobId} into ${metadata.fileName}`)
+            } catch (err) {
+                log.error(`[RowBatch] Failed to write results of job ${jobId}:`, err)
+                status = 'failed'
+                writeError = `Could not write the results: ${err instanceof Error ? err.message : String(err)}`
+            }
+        }
+
+        await this.updateJob(jobId, {
+            status,
+            completed_at: new Date().toISOString(),
+            metadata: {
+                ...metadata,
+                written,
+                failed,
+                ...(standardTierRows > 0 ? { standardTierRows } : {}),
+                ...(results.length > 0 ? { cost: rowResultsCost(metadata.model, results) } : {}),
+                ...(writeError ? { error: writeError } : {})
+            }
+        })
+    }
+}
+
+let rowBatchService: RowBatchService | null = null
+
+export function getRowBatchService(): RowBatchService {
+    if (!rowBatchService) {
+        rowBatchService = new RowBatchService()
+    }
+    return rowBatchService
+}
@@ -0,0 +1,398 @@
+/**
+ * Row-wise AI operations on spreadsheets ("apply prompt to each row").
+ *
+ * Reads one column of a Univer snapshot, turns every non-empty cell into a
+ * chat completion request and writes the answers into another column. The
+ * requests run through the Batch API (JSONL upload + batch job) or, for
+ * smaller jobs, through the flex tier with a few concurrent calls.
+ *
+ * Kept free of Electron and Supabase so it can be tested against a local
+ * mock of the Batch API.
+ */
+
+import type OpenAI from 'openai'
+import type { BatchRequest, BatchResult } from './batch-service'
+import { tokenCost } from './pricing'
+import { columnLetterToIndex } from '../workflows/workflow-definition'
+
+type Snapshot = Record<string, any>
+
+export type RowBatchMode = 'batch' | 'flex'
+
+/** OpenAI models with Batch API and flex pricing (see estimateCost) */
+export const ROW_BATCH_MODELS = ['gpt-5-nano', 'gpt-5-mini', 'gpt-5', 'gpt-4o-mini'] as const
+export type RowBatchModel = typeof ROW_BATCH_MODELS[number]
+
+/** The flex tier only serves o3, o4-mini and the gpt-5 family */
+export const FLEX_MODELS: readonly RowBatchModel[] = ['gpt-5-nano', 'gpt-5-mini', 'gpt-5']
+
+export function supportsFlex(model: string): boolean {
+    return (FLEX_MODELS as readonly string[]).includes(model)
+}
+
+export interface RowBatchOptions {
+    /** Sheet id or name; the first sheet by default */
+    sheet?: string
+    /** Header name or column letter with the input text */
+    sourceColumn: string
+    /** Header name or column letter the answers are written to */
+    targetColumn: string
+    /** 1-based header row; 0 when the sheet has no header */
+    headerRow?: number
+    /** 1-based inclusive row range; the whole column by default */
+    startRow?: number
+    endRow?: number
+    /** Leave rows whose target cell already has a value */
+    skipFilled?: boolean
+}
+
+export interface RowInput {
+    /** 0-based row */
+    row: number
+    text: string
+}
+
+export interface RowSelection {
+    sheetId: string
+    sheetName: string
+    sourceCol: number
+    targetCol: number
+    rows: RowInput[]
+}
+
+export interface RowRequestOptions {
+    model: RowBatchModel
+    prompt: string
+    maxOutputTokens?: number
+}
+
+export interface RowResult {
+    row: number
+    value?: string
+    error?: string
+    /** Answered on the standard tier because flex had no capacity (standard price) */
+    standardTier?: boolean
+    /** Billed tokens, when the response reported them */
+    inputTokens?: number
+    outputTokens?: number
+}
+
+export interface RowTokenEstimate {
+    requests: number
+    inputTokens: number
+    outputTokens: number
+}
+
+/** Batch API limit per job */
+export const MAX_BATCH_ROWS = 50_000
+export const DEFAULT_MAX_OUTPUT_TOKENS = 64
+
+const COLUMN_LETTERS = /^[A-Z]{1,3}$/i
+const CUSTOM_ID_PREFIX = 'row-'
+const ROW_INSTRUCTIONS = 'You are filling one spreadsheet cell per request. Apply the instruction to the cell value and reply with only the value for the target cell: no quotes, no explanations.'
+// Rough chars-per-token ratio and per-request overhead for the estimate
+const CHARS_PER_TOKEN = 4
+const REQUEST_OVERHEAD_TOKENS = 12
+
+function cellText(cell: any): string {
+    if (!cell || typeof cell !== 'object') return ''
+    const value = cell.v ?? cell.f
+    return value === undefined || value === null ? '' : String(value).trim()
+}
+
+function findSheet(snapshot: Snapshot, sheet?: string): { id: string; data: Snapshot } {
+    const sheets: Record<string, Snapshot> = snapshot?.sheets ?? {}
+    const order: string[] = snapshot?.sheetOrder ?? Object.keys(sheets)
+    const wanted = sheet?.trim().toLowerCase()
+    const id = wanted
+        ? order.find(id => id.toLowerCase() === wanted || String(sheets[id]?.name ?? '').trim().toLowerCase() === wanted)
+        : order.find(id => sheets[id])
+    if (!id || !sheets[id]) {
+        throw new Error(sheet ? `Sheet "${sheet}" not found` : 'The workbook has no sheets')
+    }
+    return { id, data: sheets[id] }
+}
+
+function resolveColumn(sheet: Snapshot, column: string, headerRow: number): number {
+    const wanted = column.trim().toLowerCase()
+    const headers: Record<string, any> = headerRow > 0 ? sheet.cellData?.[headerRow - 1] ?? {} : {}
+    for (const [col, cell] of Object.entries(headers)) {
+        if (cellText(cell).toLowerCase() === wanted) return Number(col)
+    }
+    if (COLUMN_LETTERS.test(column.trim())) {
+        return columnLetterToIndex(column.trim().toUpperCase())
+    }
+    throw new Error(`Column "${column}" not found`)
+}
+
+function customId(row: number): string {
+    return `${CUSTOM_ID_PREFIX}${row}`
+}
+
+function rowFromCustomId(id: string): number | null {
+    if (!id.startsWith(CUSTOM_ID_PREFIX)) return null
+    const row = Number(id.slice(CUSTOM_ID_PREFIX.length))
+    return Number.isInteger(row) && row >= 0 ? row : null
+}
+
+/**
+ * Pick the rows to process: non-empty source cells below the header
+ */
+export function collectRowInputs(snapshot: Snapshot, options: RowBatchOptions): RowSelection {
+    const headerRow = options.headerRow ?? 1
+    const sheet = findSheet(snapshot, options.sheet)
+    const sourceCol = resolveColumn(sheet.data, options.sourceColumn, headerRow)
+    const targetCol = resolveColumn(sheet.data, options.targetColumn, headerRow)
+    if (sourceCol === targetCol) {
+        throw new Error('Source and target columns must be different')
+    }
+
+    const first = Math.max(headerRow, (options.startRow ?? 1) - 1)
+    const last = options.endRow ? options.endRow - 1 : Infinity
+    const cellData: Record<string, Record<string, any>> = sheet.data.cellData ?? {}
+
+    const rows = Object.keys(cellData)
+        .map(Number)
+        .filter(row => row >= first && row <= last)
+        .sort((a, b) => a - b)
+        .filter(row => !options.skipFilled || !cellText(cellData[row]?.[targetCol]))
+        .map(row => ({ row, text: cellText(cellData[row]?.[sourceCol]) }))
+        .filter(row => row.text !== '')
+
+    if (rows.length > MAX_BATCH_ROWS) {
+        throw new Error(`Too many rows (${rows.length}); the limit is ${MAX_BATCH_ROWS}`)
+    }
+
+    return {
+        sheetId: sheet.id,
+        sheetName: String(sheet.data.name ?? sheet.id),
+        sourceCol,
+        targetCol,
+        rows
+    }
+}
+
+/**
+ * One chat completion request per row; custom_id carries the row number
+ */
+export function buildRowRequests(rows: RowInput[], options: RowRequestOptions): BatchRequest[] {
+    return rows.map(row => ({
+        custom_id: customId(row.row),
+        method: 'POST',
+        url: '/v1/chat/completions',
+        body: {
+            model: options.model,
+            messages: [
+                { role: 'system', content: `${ROW_INSTRUCTIONS}\n\nInstruction: ${options.prompt}` },
+                { role: 'user', content: row.text }
+            ],
+            max_completion_tokens: options.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+            // Reasoning tokens count against the small output budget
+            ...(options.model.startsWith('gpt-5') ? { reasoning_effort: 'minimal' } : {})
+        }
+    }))
+}
+
+/**
+ * Approximate token usage (chars / 4) so the cost can be shown before submitting.
+ * Output is counted at its maximum, so the estimate is an upper bound.
+ */
+export function estimateRowTokens(rows: RowInput[], options: RowRequestOptions): RowTokenEstimate {
+    const promptTokens = Math.ceil((ROW_INSTRUCTIONS.length + options.prompt.length) / CHARS_PER_TOKEN)
+    let inputTokens = 0
+    for (const row of rows) {
+        inputTokens += promptTokens + REQUEST_OVERHEAD_TOKENS + Math.ceil(row.text.length / CHARS_PER_TOKEN)
+    }
+    return {
+        requests: rows.length,
+        inputTokens,
+        outputTokens: rows.length * (options.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS)
+    }
+}
+
+function completionText(body: any): string | undefined {
+    const content = body?.choices?.[0]?.message?.content
+    return typeof content === 'string' ? content.trim() : undefined
+}
+
+function completionUsage(body: any): Pick<RowResult, 'inputTokens' | 'outputTokens'> {
+    const usage = body?.usage
+    if (!usage) return {}
+    return { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 }
+}
+
+/**
+ * What the answered rows cost: Batch and flex bill at half the standard
+ * price, rows that fell back to the standard tier at the full price
+ */
+export function rowResultsCost(model: RowBatchModel, results: RowResult[]): number {
+    let cost = 0
+    for (const result of results) {
+        const full = tokenCost(model, {
+            inputTokens: result.inputTokens ?? 0,
+            outputTokens: result.outputTokens ?? 0
+        })
+        cost += result.standardTier ? full : full / 2
+    }
+    return cost
+}
+
+/**
+ * Parse a Batch API output (or error) file into per-row results
+ */
+export function parseBatchOutput(jsonl: string): RowResult[] {
+    const results: RowResult[] = []
+    for (const line of jsonl.split('\n')) {
+        if (!line.trim()) continue
+        let result: BatchResult
+        try {
+            result = JSON.parse(line) as BatchResult
+        } catch {
+            continue
+        }
+        const row = rowFromCustomId(String(result.custom_id ?? ''))
+        if (row === null) continue
+
+        if (result.error) {
+            results.push({ row, error: result.error.message || result.error.code })
+        } else if (result.response?.status_code !== 200) {
+            const body = result.response?.body as any
+            results.push({ row, error: body?.error?.message ?? `HTTP ${result.response?.status_code ?? 'error'}` })
+        } else {
+            const value = completionText(result.response.body)
+            const usage = completionUsage(result.response.body)
+            results.push(value === undefined ? { row, error: 'Empty response', ...usage } : { row, value, ...usage })
+        }
+    }
+    return results
+}
+
+/**
+ * Write the answers into the target column. Returns a new snapshot; cell
+ * styles are kept and failed rows are left untouched.
+ */
+export function applyRowResults(
+    snapshot: Snapshot,
+    sheetId: string,
+    targetCol: number,
+    results: RowResult[]
+): { snapshot: Snapshot; written: number; failed: number } {
+    const next = structuredClone(snapshot)
+    const sheet = next.sheets?.[sheetId]
+    if (!sheet) {
+        throw new Error(`Sheet ${sheetId} no longer exists`)
+    }
+    sheet.cellData = sheet.cellData ?? {}
+
+    let written = 0
+    let failed = 0
+    let maxRow = -1
+    for (const result of results) {
+        if (result.value === undefined) {
+            failed++
+            continue
+        }
+        const row = sheet.cellData[result.row] ?? (sheet.cellData[result.row] = {})
+        const previous = row[targetCol]
+        row[targetCol] = previous?.s !== undefined ? { v: result.value, s: previous.s } : { v: result.value }
+        maxRow = Math.max(maxRow, result.row)
+        written++
+    }
+
+    // Grow the sheet if answers landed outside its declared size
+    if (typeof sheet.rowCount === 'number' && maxRow >= sheet.rowCount) sheet.rowCount = maxRow + 1
+    if (typeof sheet.columnCount === 'number' && targetCol >= sheet.columnCount) sheet.columnCount = targetCol + 1
+
+    return { snapshot: next, written, failed }
+}
+
+/**
+ * Upload the requests as JSONL and create the batch job
+ */
+export async function submitRowBatch(
+    client: OpenAI,
+    requests: BatchRequest[],
+    metadata: Record<string, string>
+): Promise<OpenAI.Batches.Batch> {
+    const jsonl = requests.map(request => JSON.stringify(request)).join('\n')
+    const file = await client.files.create({
+        file: new File([jsonl], 'row_batch_input.jsonl', { type: 'application/jsonl' }),
+        purpose: 'batch'
+    })
+
+    return client.batches.create({
+        input_file_id: file.id,
+        endpoint: '/v1/chat/completions',
+        completion_window: '24h',
+        metadata
+    })
+}
+
+/**
+ * Download the results of a finished batch (successful and failed requests)
+ */
+export async function downloadRowBatchResults(client: OpenAI, batch: OpenAI.Batches.Batch): Promise<RowResult[]> {
+    const results: RowResult[] = []
+    for (const fileId of [batch.output_file_id, batch.error_file_id]) {
+        if (!fileId) continue
+        const response = await client.files.content(fileId)
+        results.push(...parseBatchOutput(await response.text()))
+    }
+    return results
+}
+
+/**
+ * Run the requests one by one on the flex tier (Batch pricing, sync API).
+ * Falls back to the standard tier when flex capacity is unavailable (429);
+ * those rows are marked standardTier since they bill at the standard price.
+ */
+export async function runFlexRows(
+    client: OpenAI,
+    requests: BatchRequest[],
+    options: {
+        concurrency?: number
+        timeout?: number
+        /** Checked before each request; pending rows are dropped when it returns true */
+        shouldStop?: () => boolean
+        onProgress?: (done: number) => void
+    } = {}
+): Promise<RowResult[]> {
+    const unsupported = requests.find(request => !supportsFlex(String(request.body.model)))
+    if (unsupported) {
+        throw new Error(`${unsupported.body.model} is not available on the flex tier`)
+    }
+
+    const results: RowResult[] = []
+    const timeout = options.timeout ?? 900_000
+    let next = 0
+
+    const worker = async () => {
+        while (next < requests.length && !options.shouldStop?.()) {
+            const request = requests[next++]
+            const row = rowFromCustomId(request.custom_id) as number
+            const body = request.body as unknown as OpenAI.Chat.ChatCompletionCreateParamsNonStreaming
+            try {
+                let completion: OpenAI.Chat.ChatCompletion
+                let standardTier = false
+                try {
+                    completion = await client.chat.completions.create({ ...body, service_tier: 'flex' }, { timeout })
+                } catch (error: any) {
+                    if (error?.status !== 429) throw error
+                    completion = await client.chat.completions.create(body, { timeout })
+                    standardTier = true
+                }
+                const value = completionText(completion)
+                const extra = { ...(standardTier ? { standardTier } : {}), ...completionUsage(completion) }
+                results.push(value === undefined ? { row, error: 'Empty response', ...extra } : { row, value, ...extra })
+            } catch (error) {
+                results.push({ row, error: error instanceof Error ? error.message : String(error) })
+            }
+            options.onProgress?.(results.length)
+        }
+    }
+
+    const concurrency = Math.max(1, Math.min(options.concurrency ?? 4, requests.length))
+    await Promise.all(Array.from({ length: concurrency }, worker))
+    return results.sort((a, b) => a.row - b.row)
+}
+
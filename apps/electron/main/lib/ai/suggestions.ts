@@ -13,13 +13,15 @@ export const DEFAULT_SUGGESTIONS = [
 
 /**
  * Generates follow-up suggestions based on the last message and chat history.
- * Uses a fast/cheap model (gpt-4o-mini or GLM-4.7-Flash) for quick generation.
+ * Uses a fast/cheap model (gpt-4o-mini or GLM-4.7-Flash) for quick generation,
+ * or the given model for custom endpoints (which only serve their own models).
  */
 export async function generateSuggestions(
   lastMessage: string,
   history: Array<{ role: "user" | "assistant" | "system"; content: string }>,
   apiKey: string,
   baseURL?: string,
+  modelOverride?: string,
 ): Promise<string[]> {
   try {
     const client = new OpenAI({
@@ -31,15 +33,17 @@ export async function generateSuggestions(
     // If baseURL is Z.AI, use GLM-4.7-Flash
     // Otherwise use gpt-4o-mini
     const model =
-      baseURL && baseURL.includes("z.ai") ? "GLM-4.7-Flash" : "gpt-4o-mini";
+      modelOverride ??
+      (baseURL && baseURL.includes("z.ai") ? "GLM-4.7-Flash" : "gpt-4o-mini");
 
     log.info(
       `[AI] Generating suggestions with model: ${model}, baseURL: ${baseURL || "default"}`,
     );
 
     // Z.AI models (GLM) sometimes struggle with response_format: json_object
-    // and require explicit instructions in the system prompt.
-    const isZai = baseURL && baseURL.includes("z.ai");
+    // and require explicit instructions in the system prompt. Custom endpoints
+    // may not implement response_format at all.
+    const isZai = (baseURL && baseURL.includes("z.ai")) || !!modelOverride;
 
     // Truncate lastMessage if too long (keep first 2000 chars)
     const truncatedLastMessage =
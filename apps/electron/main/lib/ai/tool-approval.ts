@@ -0,0 +1,99 @@
+/**
+ * Tool Approval
+ *
+ * Human-in-the-loop confirmation for tools marked 'ask' or 'manual' in the
+ * approval config. The request is shown in the renderer and the tool waits
+ * for the user's answer (ai.respondToolApproval), so a model cannot approve
+ * its own call through the tool arguments.
+ */
+
+import { randomUUID } from 'crypto'
+import log from 'electron-log'
+import {
+    DEFAULT_TOOL_APPROVAL_CONFIG,
+    getToolsRequiringApproval
+} from '@s-agi/core/types/ai'
+import { sendToRenderer } from '../window-manager'
+import { getSessionMode } from '../shared/agent'
+
+const TOOLS_REQUIRING_APPROVAL = getToolsRequiringApproval(DEFAULT_TOOL_APPROVAL_CONFIG)
+
+// An unanswered request counts as rejected
+const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000
+
+export interface ToolApprovalRequest {
+    chatId: string
+    toolName: string
+    args: unknown
+    /** What will happen, shown to the user */
+    message: string
+}
+
+interface PendingApproval {
+    chatId: string
+    resolve: (approved: boolean) => void
+}
+
+const pendingApprovals = new Map<string, PendingApproval>()
+
+/**
+ * Whether a tool call has to be confirmed by the user. Chats in allow-all
+ * permission mode skip the prompt.
+ */
+export function toolNeedsApproval(toolName: string, chatId: string): boolean {
+    if (!TOOLS_REQUIRING_APPROVAL.has(toolName)) return false
+    return getSessionMode(chatId) !== 'allow-all'
+}
+
+/**
+ * Ask the user to approve a tool call; resolves to their answer
+ */
+export function requestToolApproval(request: ToolApprovalRequest): Promise<boolean> {
+    const toolCallId = randomUUID()
+
+    return new Promise(resolve => {
+        const timeout = setTimeout(() => settle(false), APPROVAL_TIMEOUT_MS)
+        const settle = (approved: boolean) => {
+            clearTimeout(timeout)
+            pendingApprovals.delete(toolCallId)
+            log.info(`[ToolApproval] ${request.toolName} ${approved ? 'approved' : 'rejected'}`)
+            resolve(approved)
+        }
+        pendingApprovals.set(toolCallId, { chatId: request.chatId, resolve: settle })
+
+        sendToRenderer('tool:approval', {
+            type: 'tool-approval-request',
+            toolCallId,
+            chatId: request.chatId,
+            toolName: request.toolName,
+            args: request.args,
+            message: request.message
+        })
+    })
+}
+
+/**
+ * Deliver the user's answer; false when the request is no longer pending
+ */
+export function respondToolApproval(toolCallId: string, approved: boolean): boolean {
+    const pending = pendingApprovals.get(toolCallId)
+    if (!pending) return false
+    pending.resolve(approved)
+    return true
+}
+
+/**
+ * Reject every open request of a chat (the stream was cancelled)
+ */
+export function cancelToolApprovals(chatId: string): void {
+    for (const [toolCallId, pending] of pendingApprovals) {
+        if (pending.chatId === chatId) {
+            pending.resolve(false)
+            sendToRenderer('tool:approval', {
+                type: 'tool-approval-response',
+                toolCallId,
+                approved: false
+            })
+        }
+    }
+}
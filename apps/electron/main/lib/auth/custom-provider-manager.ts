@@ -0,0 +1,112 @@
+import { setCustomModels } from '@s-agi/core/types/ai'
+import log from 'electron-log'
+import { getCustomProviderStore } from './custom-provider-store'
+import type { CustomModelConfig, CustomProviderConfig } from './custom-provider-store'
+import {
+    discoverCustomModels,
+    mergeDiscoveredModels,
+    normalizeBaseURL,
+    toCustomModelDefinition
+} from '../ai/custom-endpoint'
+
+export class CustomProviderManager {
+    private store = getCustomProviderStore()
+
+    constructor() {
+        this.registerModels()
+    }
+
+    getConfig(): CustomProviderConfig | null {
+        return this.store.getConfig()
+    }
+
+    isConfigured(): boolean {
+        return this.store.hasConfig()
+    }
+
+    /**
+     * Save the endpoint. Models are kept when only the key or name changes.
+     */
+    setEndpoint(input: { baseURL: string; apiKey?: string | null; name?: string | null }): CustomProviderConfig {
+        const current = this.store.getConfig()
+        const baseURL = normalizeBaseURL(input.baseURL)
+        const config: CustomProviderConfig = {
+            baseURL,
+            apiKey: input.apiKey?.trim() || undefined,
+            name: input.name?.trim() || undefined,
+            models: current?.baseURL === baseURL ? current.models : []
+        }
+        this.save(config)
+        return config
+    }
+
+    /**
+     * Query the endpoint for its models and store them (user overrides are kept)
+     */
+    async refreshModels(): Promise<CustomModelConfig[]> {
+        const config = this.store.getConfig()
+        if (!config) {
+            throw new Error('Custom endpoint not configured')
+        }
+
+        const discovered = await discoverCustomModels(config.baseURL, config.apiKey)
+        const models = mergeDiscoveredModels(config.models, discovered)
+        this.save({ ...config, models })
+        log.info(`[CustomProvider] Discovered ${models.length} model(s) at ${config.baseURL}`)
+        return models
+    }
+
+    /**
+     * Override the capabilities of one model
+     */
+    setModelCapabilities(
+        modelId: string,
+        capabilities: Partial<Pick<CustomModelConfig, 'supportsTools' | 'supportsImages' | 'supportsReasoning'>>
+    ): CustomModelConfig {
+        const config = this.store.getConfig()
+        const model = config?.models.find((m) => m.id === modelId)
+        if (!config || !model) {
+            throw new Error(`Unknown custom model: ${modelId}`)
+        }
+
+        const updated: CustomModelConfig = { ...model, ...capabilities, userOverride: true }
+        this.save({
+            ...config,
+            models: config.models.map((m) => (m.id === modelId ? updated : m))
+        })
+        return updated
+    }
+
+    getApiKey(): string | null {
+        return this.store.getConfig()?.apiKey || null
+    }
+
+    /**
+     * Publish the stored models to the shared model catalog
+     */
+    registerModels(): void {
+        const config = this.store.getConfig()
+        setCustomModels(
+            (config?.models ?? []).map((model) => toCustomModelDefinition(model, config?.name))
+        )
+    }
+
+    clear(): void {
+        this.store.clear()
+        this.registerModels()
+    }
+
+    private save(config: CustomProviderConfig): void {
+        this.store.setConfig(config)
+        this.registerModels()
+    }
+}
+
+let managerInstance: CustomProviderManager | null = null
+
+export function getCustomProviderManager(): CustomProviderManager {
+    if (!managerInstance) {
+        managerInstance = new CustomProviderManager()
+    }
+    return managerInstance
+}
@@ -0,0 +1,113 @@
+import { app, safeStorage } from 'electron'
+import { join } from 'path'
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs'
+import log from 'electron-log'
+
+/**
+ * A model served by the custom endpoint, with the capabilities S-AGI may use
+ */
+export interface CustomModelConfig {
+    /** Model ID as reported by the endpoint (sent to the API as-is) */
+    id: string
+    name?: string
+    supportsTools: boolean
+    supportsImages: boolean
+    supportsReasoning: boolean
+    /** Capabilities were set by the user (kept when models are rediscovered) */
+    userOverride?: boolean
+}
+
+/**
+ * OpenAI-compatible endpoint (Ollama, LM Studio, vLLM...)
+ */
+export interface CustomProviderConfig {
+    /** Base URL including the API version, e.g. http://localhost:11434/v1 */
+    baseURL: string
+    /** Optional: most local servers do not require a key */
+    apiKey?: string
+    /** Display name shown in the model picker */
+    name?: string
+    models: CustomModelConfig[]
+}
+
+const STORE_FILE = 'custom-provider.encrypted'
+const CACHE_TTL_MS = 5000
+
+let cachedData: { data: CustomProviderConfig | null; timestamp: number } | null = null
+
+export class CustomProviderStore {
+    private storePath: string
+
+    constructor() {
+        const userDataPath = app.getPath('userData')
+        const secureDir = join(userDataPath, 'secure')
+
+        if (!existsSync(secureDir)) {
+            mkdirSync(secureDir, { recursive: true })
+        }
+
+        this.storePath = join(secureDir, STORE_FILE)
+    }
+
+    private loadFromDisk(): CustomProviderConfig | null {
+        try {
+            if (existsSync(this.storePath)) {
+                const encryptedData = readFileSync(this.storePath)
+                if (safeStorage.isEncryptionAvailable()) {
+                    const decrypted = safeStorage.decryptString(encryptedData)
+                    const parsed = JSON.parse(decrypted)
+                    log.info('[CustomProviderStore] Loaded encrypted config from disk')
+                    return parsed?.baseURL ? parsed : null
+                }
+            }
+        } catch (error) {
+            log.error('[CustomProviderStore] Failed to load from disk:', error)
+        }
+        return null
+    }
+
+    private saveToDisk(data: CustomProviderConfig | null): void {
+        try {
+            if (safeStorage.isEncryptionAvailable()) {
+                const encrypted = safeStorage.encryptString(JSON.stringify(data ?? {}))
+                writeFileSync(this.storePath, encrypted)
+                log.info('[CustomProviderStore] Saved encrypted config to disk')
+            }
+        } catch (error) {
+            log.error('[CustomProviderStore] Failed to save to disk:', error)
+        }
+    }
+
+    setConfig(config: CustomProviderConfig | null): void {
+        cachedData = { data: config, timestamp: Date.now() }
+        this.saveToDisk(config)
+    }
+
+    getConfig(): CustomProviderConfig | null {
+        if (cachedData && Date.now() - cachedData.timestamp < CACHE_TTL_MS) {
+            return cachedData.data
+        }
+
+        const data = this.loadFromDisk()
+        cachedData = { data, timestamp: Date.now() }
+        return data
+    }
+
+    hasConfig(): boolean {
+        return !!this.getConfig()
+    }
+
+    clear(): void {
+        cachedData = null
+        this.saveToDisk(null)
+    }
+}
+
+let storeInstance: CustomProviderStore | null = null
+
+export function getCustomProviderStore(): CustomProviderStore {
+    if (!storeInstance) {
+        storeInstance = new CustomProviderStore()
+    }
+    return storeInstance
+}
@@ -5,6 +5,8 @@ export * from './chatgpt-store'
 export * from './chatgpt-manager'
 export * from './zai-store'
 export * from './zai-manager'
+export * from './custom-provider-store'
+export * from './custom-provider-manager'
 export * from './gemini-store'
 export * from './gemini-manager'
 export * from './token-manager'
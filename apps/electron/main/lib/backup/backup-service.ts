@@ -0,0 +1,208 @@
+import { join } from 'path'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { readFile, writeFile } from 'fs/promises'
+import log from 'electron-log'
+import { supabase } from '../supabase/client'
+import { BackupManager, getStoragePaths } from '../storage'
+import type { BackupEntry } from '../storage'
+import {
+    packWorkspaceArchive,
+    summarizeWorkspaceSnapshot,
+    unpackWorkspaceArchive,
+    validateWorkspaceSnapshot
+} from './workspace-archive'
+import type { WorkspaceSummary } from './workspace-archive'
+import { collectWorkspaceSnapshot, restoreWorkspaceSnapshot } from './workspace-snapshot'
+
+export interface BackupSettings {
+    enabled: boolean
+    /** Minimum time between automatic backups */
+    intervalHours: number
+    /** Number of backups kept on disk */
+    retention: number
+}
+
+const SETTINGS_FILE = 'backup-settings.json'
+const DEFAULT_SETTINGS: BackupSettings = { enabled: true, intervalHours: 24, retention: 10 }
+const INTERVAL_RANGE = { min: 1, max: 24 * 7 }
+const RETENTION_RANGE = { min: 1, max: 100 }
+
+// The schedule is checked periodically rather than with one long timer, so
+// sleep/resume and app restarts do not push the next backup back
+const CHECK_INTERVAL_MS = 15 * 60 * 1000
+const STARTUP_DELAY_MS = 2 * 60 * 1000
+
+function clamp(value: unknown, range: { min: number; max: number }, fallback: number): number {
+    return typeof value === 'number' && Number.isFinite(value)
+        ? Math.min(range.max, Math.max(range.min, Math.round(value)))
+        : fallback
+}
+
+/**
+ * Scheduled workspace backups (Supabase data → userData/backups) plus
+ * portable export/import of the whole workspace as a zip
+ */
+export class BackupService {
+    private manager: BackupManager
+    private settingsPath: string
+    private settings: BackupSettings
+    private startupTimer: ReturnType<typeof setTimeout> | null = null
+    private checkTimer: ReturnType<typeof setInterval> | null = null
+    private inProgress: Promise<BackupEntry> | null = null
+
+    constructor() {
+        const configDir = getStoragePaths().config
+        if (!existsSync(configDir)) {
+            mkdirSync(configDir, { recursive: true })
+        }
+        this.settingsPath = join(configDir, SETTINGS_FILE)
+        this.settings = this.loadSettings()
+        this.manager = new BackupManager({ maxBackups: this.settings.retention })
+    }
+
+    private loadSettings(): BackupSettings {
+        try {
+            if (existsSync(this.settingsPath)) {
+                const parsed = JSON.parse(readFileSync(this.settingsPath, 'utf-8')) as Partial<BackupSettings>
+                return {
+                    enabled: typeof parsed.enabled === 'boolean' ? parsed.enabled : DEFAULT_SETTINGS.enabled,
+                    intervalHours: clamp(parsed.intervalHours, INTERVAL_RANGE, DEFAULT_SETTINGS.intervalHours),
+                    retention: clamp(parsed.retention, RETENTION_RANGE, DEFAULT_SETTINGS.retention)
+                }
+            }
+        } catch (error) {
+            log.error('[BackupService] Failed to load settings:', error)
+        }
+        return { ...DEFAULT_SETTINGS }
+    }
+
+    async init(): Promise<void> {
+        await this.manager.init()
+    }
+
+    start(): void {
+        if (this.checkTimer) return
+        this.startupTimer = setTimeout(() => void this.runScheduled(), STARTUP_DELAY_MS)
+        this.checkTimer = setInterval(() => void this.runScheduled(), CHECK_INTERVAL_MS)
+        log.info('[BackupService] Scheduler started')
+    }
+
+    stop(): void {
+        if (this.startupTimer) clearTimeout(this.startupTimer)
+        if (this.checkTimer) clearInterval(this.checkTimer)
+        this.startupTimer = null
+        this.checkTimer = null
+    }
+
+    getSettings(): BackupSettings {
+        return { ...this.settings }
+    }
+
+    async updateSettings(patch: Partial<BackupSettings>): Promise<BackupSettings> {
+        this.settings = {
+            enabled: typeof patch.enabled === 'boolean' ? patch.enabled : this.settings.enabled,
+            intervalHours: clamp(patch.intervalHours, INTERVAL_RANGE, this.settings.intervalHours),
+            retention: clamp(patch.retention, RETENTION_RANGE, this.settings.retention)
+        }
+        writeFileSync(this.settingsPath, JSON.stringify(this.settings, null, 2), 'utf-8')
+        await this.manager.setMaxBackups(this.settings.retention)
+        return this.getSettings()
+    }
+
+    /**
+     * Backups of this user, newest first
+     */
+    async list(userId: string): Promise<BackupEntry[]> {
+        const entries = await this.manager.list()
+        return entries.filter(entry => entry.meta?.userId === userId)
+    }
+
+    async createBackup(userId: string, label = 'Manual'): Promise<BackupEntry> {
+        // One snapshot at a time: a manual backup during a scheduled one reuses it
+        if (this.inProgress) return this.inProgress
+
+        this.inProgress = (async () => {
+            const snapshot = await collectWorkspaceSnapshot(userId)
+            const counts = summarizeWorkspaceSnapshot(snapshot)
+            const entry = await this.manager.create(label, snapshot, { userId, counts })
+            log.info(`[BackupService] Created backup ${entry.id} (${entry.sizeBytes} bytes)`)
+            return entry
+        })()
+
+        try {
+            return await this.inProgress
+        } finally {
+            this.inProgress = null
+        }
+    }
+
+    /**
+     * Restore a backup. The current state is backed up first so the restore can be undone.
+     */
+    async restore(userId: string, id: string): Promise<WorkspaceSummary> {
+        const entry = (await this.list(userId)).find(item => item.id === id)
+        if (!entry) {
+            throw new Error('Backup not found')
+        }
+        const snapshot = validateWorkspaceSnapshot(await this.manager.get(id))
+
+        await this.createBackup(userId, 'Before restore')
+        return await restoreWorkspaceSnapshot(userId, snapshot)
+    }
+
+    async delete(userId: string, id: string): Promise<void> {
+        const entry = (await this.list(userId)).find(item => item.id === id)
+        if (entry) {
+            await this.manager.delete(id)
+        }
+    }
+
+    /**
+     * Write the current workspace to a single zip file
+     */
+    async exportArchive(userId: string, filePath: string): Promise<WorkspaceSummary> {
+        const snapshot = await collectWorkspaceSnapshot(userId)
+        await writeFile(filePath, await packWorkspaceArchive(snapshot))
+        log.info(`[BackupService] Exported workspace to ${filePath}`)
+        return summarizeWorkspaceSnapshot(snapshot)
+    }
+
+    /**
+     * Restore a workspace zip into the current account (after a safety backup)
+     */
+    async importArchive(userId: string, filePath: string): Promise<WorkspaceSummary> {
+        const snapshot = await unpackWorkspaceArchive(await readFile(filePath))
+        await this.createBackup(userId, 'Before import')
+        const summary = await restoreWorkspaceSnapshot(userId, snapshot)
+        log.info(`[BackupService] Imported workspace from ${filePath}`)
+        return summary
+    }
+
+    private async runScheduled(): Promise<void> {
+        if (!this.settings.enabled) return
+        try {
+            const { data: { session } } = await supabase.auth.getSession()
+            const userId = session?.user?.id
+            if (!userId) return
+
+            const [latest] = await this.list(userId)
+            const dueAt = latest
+                ? new Date(latest.createdAt).getTime() + this.settings.intervalHours * 60 * 60 * 1000
+                : 0
+            if (Date.now() < dueAt) return
+
+            await this.createBackup(userId, 'Automatic')
+        } catch (error) {
+            log.error('[BackupService] Scheduled backup failed:', error)
+        }
+    }
+}
+
+let serviceInstance: BackupService | null = null
+
+export function getBackupService(): BackupService {
+    if (!serviceInstance) {
+        serviceInstance = new BackupService()
+    }
+    return serviceInstance
+}
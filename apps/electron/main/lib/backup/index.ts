@@ -0,0 +1,3 @@
+export * from './workspace-archive'
+export * from './workspace-snapshot'
+export * from './backup-service'
@@ -0,0 +1,130 @@
+import JSZip from 'jszip'
+
+/**
+ * Workspace snapshots: every row the user owns in the tables below, as returned
+ * by Supabase. Scheduled backups store them as JSON in the backups directory;
+ * export/import packs the same snapshot into a single .zip file.
+ */
+
+export const WORKSPACE_SNAPSHOT_VERSION = 1
+
+/** Tables in restore order (parents before the rows that reference them) */
+export const WORKSPACE_TABLES = [
+    'chats',
+    'chat_messages',
+    'artifacts',
+    'user_files',
+    'notes_spaces',
+    'notes_pages'
+] as const
+
+export type WorkspaceTable = typeof WORKSPACE_TABLES[number]
+
+export type WorkspaceRow = Record<string, unknown>
+
+export interface WorkspaceSnapshot {
+    version: number
+    userId: string
+    createdAt: string
+    tables: Record<WorkspaceTable, WorkspaceRow[]>
+}
+
+export type WorkspaceSummary = Record<WorkspaceTable, number>
+
+const MANIFEST_FILE = 'manifest.json'
+
+interface ArchiveManifest {
+    format: 's-agi-workspace'
+    version: number
+    userId: string
+    createdAt: string
+    counts: WorkspaceSummary
+}
+
+export function summarizeWorkspaceSnapshot(snapshot: WorkspaceSnapshot): WorkspaceSummary {
+    const summary = {} as WorkspaceSummary
+    for (const table of WORKSPACE_TABLES) {
+        summary[table] = snapshot.tables[table]?.length ?? 0
+    }
+    return summary
+}
+
+/**
+ * Check that an unknown value (a backup payload or an imported file) is a snapshot
+ * this version can restore. Missing tables are treated as empty.
+ */
+export function validateWorkspaceSnapshot(value: unknown): WorkspaceSnapshot {
+    const candidate = value as Partial<WorkspaceSnapshot> | null
+    if (!candidate || typeof candidate !== 'object' || !candidate.tables || typeof candidate.tables !== 'object') {
+        throw new Error('Not a workspace backup')
+    }
+    if (typeof candidate.version !== 'number' || candidate.version > WORKSPACE_SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported backup version: ${String(candidate.version)}`)
+    }
+
+    const tables = {} as WorkspaceSnapshot['tables']
+    for (const table of WORKSPACE_TABLES) {
+        const rows = (candidate.tables as Partial<WorkspaceSnapshot['tables']>)[table] ?? []
+        if (!Array.isArray(rows) || rows.some(row => !row || typeof row !== 'object' || Array.isArray(row))) {
+            throw new Error(`Invalid rows for table ${table}`)
+        }
+        tables[table] = rows
+    }
+
+    return {
+        version: candidate.version,
+        userId: typeof candidate.userId === 'string' ? candidate.userId : '',
+        createdAt: typeof candidate.createdAt === 'string' ? candidate.createdAt : new Date(0).toISOString(),
+        tables
+    }
+}
+
+/**
+ * Pack a snapshot into a zip: manifest.json plus one JSON file per table
+ */
+export async function packWorkspaceArchive(snapshot: WorkspaceSnapshot): Promise<Buffer> {
+    const zip = new JSZip()
+    const manifest: ArchiveManifest = {
+        format: 's-agi-workspace',
+        version: snapshot.version,
+        userId: snapshot.userId,
+        createdAt: snapshot.createdAt,
+        counts: summarizeWorkspaceSnapshot(snapshot)
+    }
+    zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2))
+    for (const table of WORKSPACE_TABLES) {
+        zip.file(`tables/${table}.json`, JSON.stringify(snapshot.tables[table]))
+    }
+    return await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
+
+export async function unpackWorkspaceArchive(data: Buffer | Uint8Array): Promise<WorkspaceSnapshot> {
+    let zip: JSZip
+    try {
+        zip = await JSZip.loadAsync(data)
+    } catch {
+        throw new Error('The file is not a valid workspace archive')
+    }
+
+    const manifestFile = zip.file(MANIFEST_FILE)
+    if (!manifestFile) {
+        throw new Error('The archive has no manifest.json')
+    }
+    const manifest = JSON.parse(await manifestFile.async('string')) as Partial<ArchiveManifest>
+    if (manifest.format !== 's-agi-workspace') {
+        throw new Error('The archive is not an S-AGI workspace export')
+    }
+
+    const tables: Partial<Record<WorkspaceTable, unknown>> = {}
+    for (const table of WORKSPACE_TABLES) {
+        const file = zip.file(`tables/${table}.json`)
+        tables[table] = file ? JSON.parse(await file.async('string')) : []
+    }
+
+    return validateWorkspaceSnapshot({
+        version: manifest.version,
+        userId: manifest.userId,
+        createdAt: manifest.createdAt,
+        tables
+    })
+}
@@ -0,0 +1,83 @@
+import log from 'electron-log'
+import { supabase } from '../supabase/client'
+import {
+    WORKSPACE_SNAPSHOT_VERSION,
+    WORKSPACE_TABLES,
+    summarizeWorkspaceSnapshot
+} from './workspace-archive'
+import type { WorkspaceRow, WorkspaceSnapshot, WorkspaceSummary, WorkspaceTable } from './workspace-archive'
+
+const PAGE_SIZE = 500
+const UPSERT_CHUNK_SIZE = 100
+
+/** Notes are keyed per user (client-generated ids); the rest by id */
+const CONFLICT_TARGET: Record<WorkspaceTable, string> = {
+    chats: 'id',
+    chat_messages: 'id',
+    artifacts: 'id',
+    user_files: 'id',
+    notes_spaces: 'user_id,id',
+    notes_pages: 'user_id,id'
+}
+
+async function fetchAllRows(table: WorkspaceTable, userId: string): Promise<WorkspaceRow[]> {
+    const rows: WorkspaceRow[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from(table)
+            .select('*')
+            .eq('user_id', userId)
+            .order(table.startsWith('notes_') ? 'id' : 'created_at', { ascending: true })
+            .range(from, from + PAGE_SIZE - 1)
+
+        if (error) {
+            throw new Error(`Failed to read ${table}: ${error.message}`)
+        }
+        rows.push(...(data ?? []))
+        if (!data || data.length < PAGE_SIZE) break
+    }
+    return rows
+}
+
+/**
+ * Read everything the user owns (including archived and soft-deleted rows)
+ */
+export async function collectWorkspaceSnapshot(userId: string): Promise<WorkspaceSnapshot> {
+    const tables = {} as WorkspaceSnapshot['tables']
+    for (const table of WORKSPACE_TABLES) {
+        tables[table] = await fetchAllRows(table, userId)
+    }
+    return {
+        version: WORKSPACE_SNAPSHOT_VERSION,
+        userId,
+        createdAt: new Date().toISOString(),
+        tables
+    }
+}
+
+/**
+ * Write a snapshot back to Supabase for the signed-in user.
+ *
+ * Rows are upserted: items missing or changed since the backup are restored,
+ * items created afterwards are kept. Rows are re-owned by `userId`, so a backup
+ * taken on another machine or account restores into the current one.
+ */
+export async function restoreWorkspaceSnapshot(
+    userId: string,
+    snapshot: WorkspaceSnapshot
+): Promise<WorkspaceSummary> {
+    for (const table of WORKSPACE_TABLES) {
+        const rows = snapshot.tables[table].map(row => ({ ...row, user_id: userId }))
+        for (let i = 0; i < rows.length; i += UPSERT_CHUNK_SIZE) {
+            const { error } = await supabase
+                .from(table)
+                .upsert(rows.slice(i, i + UPSERT_CHUNK_SIZE), { onConflict: CONFLICT_TARGET[table] })
+
+            if (error) {
+                throw new Error(`Failed to restore ${table}: ${error.message}`)
+            }
+        }
+        log.info(`[WorkspaceBackup] Restored ${rows.length} row(s) into ${table}`)
+    }
+    return summarizeWorkspaceSnapshot(snapshot)
+}
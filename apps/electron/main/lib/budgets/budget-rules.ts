@@ -0,0 +1,264 @@
+/**
+ * Spending budget rules: what has been spent against each budget, whether a
+ * new request fits and the burn-down of the current period.
+ *
+ * Spend is estimated from the token usage saved with each assistant message
+ * and the model pricing table, so it tracks the provider bill only roughly.
+ */
+
+import { tokenCost } from '../ai/pricing'
+
+export type BudgetScope = 'monthly' | 'chat' | 'account'
+export type BudgetState = 'ok' | 'warning' | 'exceeded'
+
+export interface SpendingBudget {
+    id: string
+    name: string
+    scope: BudgetScope
+    /** Chat id or provider account id; null for monthly budgets */
+    targetId: string | null
+    limitUsd: number
+    /** Share of the limit (0-1] that triggers a warning */
+    warnRatio: number
+    /** Block requests that would go over the limit */
+    hardStop: boolean
+}
+
+/** One assistant message with usage */
+export interface UsageRecord {
+    chatId: string
+    modelId: string | null
+    createdAt: string
+    inputTokens: number
+    outputTokens: number
+    /** Billed cost when already known (row batch jobs); replaces the token price */
+    costUsd?: number
+}
+
+export interface SpendSummary {
+    /** Spent in the current calendar month */
+    month: number
+    /** Lifetime spend per chat */
+    chats: Record<string, number>
+    /** Spend in the current month per provider account */
+    accounts: Record<string, number>
+    /** Spent per day of the current month (YYYY-MM-DD), for burn-down */
+    daily: Record<string, number>
+    /** Same per chat */
+    chatDaily: Record<string, Record<string, number>>
+}
+
+export interface BudgetRequest {
+    chatId: string
+    /** Active account of the provider handling the request */
+    accountId?: string | null
+    estimatedCost: number
+}
+
+export interface BudgetCheck {
+    budget: SpendingBudget
+    spent: number
+    /** spent + estimated cost of the request */
+    projected: number
+    /** projected / limit */
+    ratio: number
+    state: BudgetState
+}
+
+export interface BudgetDecision {
+    allowed: boolean
+    /** Hard-stop budgets the request would exceed */
+    blocking: BudgetCheck[]
+    /** Budgets over their warning threshold (or over a soft limit) */
+    warnings: BudgetCheck[]
+}
+
+export interface BurnDownPoint {
+    date: string
+    /** Spent up to and including this day */
+    spent: number
+    /** Even spend that would use the whole limit by the end of the month */
+    ideal: number
+    remaining: number
+}
+
+// Rough chars-per-token ratio for estimating the prompt size
+const CHARS_PER_TOKEN = 4
+/** Output assumed when the request has no max output tokens */
+export const DEFAULT_ESTIMATED_OUTPUT_TOKENS = 2000
+
+export function dayKey(date: Date): string {
+    const y = date.getFullYear()
+    const m = String(date.getMonth() + 1).padStart(2, '0')
+    const d = String(date.getDate()).padStart(2, '0')
+    return `${y}-${m}-${d}`
+}
+
+/** YYYY-MM of a date in local time */
+export function monthKey(date: Date): string {
+    return dayKey(date).slice(0, 7)
+}
+
+/**
+ * Cost of a message from its saved usage. Output tokens already include
+ * reasoning tokens, so those are not billed again.
+ */
+export function usageCost(record: Pick<UsageRecord, 'modelId' | 'inputTokens' | 'outputTokens' | 'costUsd'>): number {
+    if (record.costUsd !== undefined) return record.costUsd
+    if (!record.modelId) return 0
+    return tokenCost(record.modelId, {
+        inputTokens: record.inputTokens,
+        outputTokens: record.outputTokens
+    })
+}
+
+/**
+ * Upper-bound estimate of a request: the prompt and history as input and the
+ * max output tokens (or a default) as output
+ */
+export function estimateRequestCost(modelId: string, inputChars: number, maxOutputTokens?: number): number {
+    return tokenCost(modelId, {
+        inputTokens: Math.ceil(inputChars / CHARS_PER_TOKEN),
+        outputTokens: maxOutputTokens ?? DEFAULT_ESTIMATED_OUTPUT_TOKENS
+    })
+}
+
+/**
+ * Add up the spend of usage records. Monthly and daily totals only count
+ * records of the month of `now`; chat totals count every record given.
+ */
+export function summarizeSpend(
+    records: UsageRecord[],
+    accounts: Record<string, number>,
+    now: Date = new Date()
+): SpendSummary {
+    const currentMonth = monthKey(now)
+    const summary: SpendSummary = { month: 0, chats: {}, accounts: { ...accounts }, daily: {}, chatDaily: {} }
+
+    for (const record of records) {
+        const cost = usageCost(record)
+        if (cost === 0) continue
+        summary.chats[record.chatId] = (summary.chats[record.chatId] ?? 0) + cost
+
+        const day = dayKey(new Date(record.createdAt))
+        const chatDaily = summary.chatDaily[record.chatId] ?? (summary.chatDaily[record.chatId] = {})
+        chatDaily[day] = (chatDaily[day] ?? 0) + cost
+
+        if (day.startsWith(currentMonth)) {
+            summary.month += cost
+            summary.daily[day] = (summary.daily[day] ?? 0) + cost
+        }
+    }
+    return summary
+}
+
+export function spentOn(budget: SpendingBudget, spend: SpendSummary): number {
+    switch (budget.scope) {
+        case 'monthly':
+            return spend.month
+        case 'chat':
+            return spend.chats[budget.targetId ?? ''] ?? 0
+        case 'account':
+            return spend.accounts[budget.targetId ?? ''] ?? 0
+    }
+}
+
+function stateOf(budget: SpendingBudget, ratio: number): BudgetState {
+    if (ratio > 1) return 'exceeded'
+    if (ratio >= budget.warnRatio) return 'warning'
+    return 'ok'
+}
+
+/**
+ * Where a budget stands without a new request
+ */
+export function budgetStatus(budget: SpendingBudget, spend: SpendSummary): BudgetCheck {
+    const spent = spentOn(budget, spend)
+    const ratio = spent / budget.limitUsd
+    return { budget, spent, projected: spent, ratio, state: stateOf(budget, ratio) }
+}
+
+function appliesTo(budget: SpendingBudget, request: BudgetRequest): boolean {
+    switch (budget.scope) {
+        case 'monthly':
+            return true
+        case 'chat':
+            return budget.targetId === request.chatId
+        case 'account':
+            return !!request.accountId && budget.targetId === request.accountId
+    }
+}
+
+/**
+ * Check a request against the budgets that apply to it. Requests with no
+ * estimated cost (subscription or unpriced models) are never blocked.
+ */
+export function checkBudgets(
+    budgets: SpendingBudget[],
+    spend: SpendSummary,
+    request: BudgetRequest
+): BudgetDecision {
+    const blocking: BudgetCheck[] = []
+    const warnings: BudgetCheck[] = []
+
+    for (const budget of budgets) {
+        if (!appliesTo(budget, request)) continue
+        const spent = spentOn(budget, spend)
+        const projected = spent + request.estimatedCost
+        const ratio = projected / budget.limitUsd
+        const check: BudgetCheck = { budget, spent, projected, ratio, state: stateOf(budget, ratio) }
+
+        if (check.state === 'exceeded' && budget.hardStop && request.estimatedCost > 0) {
+            blocking.push(check)
+        } else if (check.state !== 'ok') {
+            warnings.push(check)
+        }
+    }
+
+    return { allowed: blocking.length === 0, blocking, warnings }
+}
+
+export function formatUsd(value: number): string {
+    return value < 0.01 && value > 0 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`
+}
+
+/**
+ * Human-readable reason a request was blocked
+ */
+export function describeBlock(decision: BudgetDecision): string {
+    const parts = decision.blocking.map(check =>
+        `"${check.budget.name}" (${formatUsd(check.spent)} of ${formatUsd(check.budget.limitUsd)} spent, ` +
+        `this request ~${formatUsd(check.projected - check.spent)})`
+    )
+    return `Spending budget reached: ${parts.join('; ')}. Raise the limit in Settings > Usage to continue.`
+}
+
+/**
+ * Cumulative spend per day of the month of `now` against an even burn of the
+ * limit. Days after `now` are left out; `carriedOver` is spend from before
+ * the month (chat budgets are not reset monthly).
+ */
+export function burnDown(
+    limitUsd: number,
+    daily: Record<string, number>,
+    now: Date = new Date(),
+    carriedOver = 0
+): BurnDownPoint[] {
+    const year = now.getFullYear()
+    const month = now.getMonth()
+    const daysInMonth = new Date(year, month + 1, 0).getDate()
+    const points: BurnDownPoint[] = []
+    let spent = carriedOver
+
+    for (let day = 1; day <= now.getDate(); day++) {
+        const date = dayKey(new Date(year, month, day))
+        spent += daily[date] ?? 0
+        points.push({
+            date,
+            spent,
+            ideal: (limitUsd * day) / daysInMonth,
+            remaining: Math.max(0, limitUsd - spent)
+        })
+    }
+    return points
+}
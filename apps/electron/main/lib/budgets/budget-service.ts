@@ -0,0 +1,382 @@
+import log from 'electron-log'
+import { AI_MODELS } from '@s-agi/core/types/ai'
+import type { AIProvider } from '@s-agi/core/types/ai'
+import { supabase } from '../supabase/client'
+import { tokenCost } from '../ai/pricing'
+import { ROW_BATCH_JOB_TYPE } from '../ai/row-batch-service'
+import {
+    budgetStatus,
+    burnDown,
+    checkBudgets,
+    estimateRequestCost,
+    monthKey,
+    summarizeSpend
+} from './budget-rules'
+import type {
+    BudgetCheck,
+    BudgetDecision,
+    BudgetScope,
+    BurnDownPoint,
+    SpendingBudget,
+    SpendSummary,
+    UsageRecord
+} from './budget-rules'
+
+export interface BudgetInput {
+    name: string
+    scope: BudgetScope
+    targetId?: string | null
+    limitUsd: number
+    warnRatio?: number
+    hardStop?: boolean
+}
+
+export interface BudgetCheckInput {
+    chatId: string
+    provider: AIProvider
+    modelId: string
+    /** Characters of the prompt and the history sent with it */
+    inputChars: number
+    maxOutputTokens?: number
+}
+
+export interface BudgetCheckResult extends BudgetDecision {
+    estimatedCost: number
+}
+
+export interface BudgetOverview extends BudgetCheck {
+    /** Chat title or account name of the target */
+    targetName: string | null
+    /** Empty for account budgets, whose spend is not kept per day */
+    burnDown: BurnDownPoint[]
+}
+
+// Chat providers that bill through an ai_provider_accounts account
+const ACCOUNT_PROVIDERS: Partial<Record<AIProvider, string>> = {
+    openai: 'openai',
+    claude: 'anthropic',
+    custom: 'custom'
+}
+
+// Models paid by a subscription add nothing to the spend
+const SUBSCRIPTION_MODELS = new Set(
+    Object.values(AI_MODELS)
+        .filter(model => model.includedInSubscription)
+        .map(model => model.id)
+)
+
+function toBudget(row: any): SpendingBudget {
+    return {
+        id: row.id,
+        name: row.name,
+        scope: row.scope,
+        targetId: row.target_id ?? null,
+        limitUsd: Number(row.limit_usd),
+        warnRatio: Number(row.warn_ratio),
+        hardStop: row.hard_stop
+    }
+}
+
+// Assistant messages with saved usage: chat messages and side panel messages
+// (PDF and agent panels, keyed by their session)
+const MESSAGE_SOURCES = [
+    { table: 'chat_messages', chatColumn: 'chat_id' },
+    { table: 'panel_messages', chatColumn: 'source_id' }
+] as const
+
+function toRecord(row: any, chatColumn: string): UsageRecord | null {
+    const usage = row.metadata?.usage
+    if (!usage || !row.model_id || SUBSCRIPTION_MODELS.has(row.model_id)) return null
+    return {
+        chatId: row[chatColumn],
+        modelId: row.model_id,
+        createdAt: row.created_at,
+        inputTokens: usage.inputTokens ?? 0,
+        outputTokens: usage.outputTokens ?? 0
+    }
+}
+
+function requestCost(modelId: string, usage: { promptTokens?: number; completionTokens?: number }): number {
+    if (SUBSCRIPTION_MODELS.has(modelId)) return 0
+    return tokenCost(modelId, {
+        inputTokens: usage.promptTokens ?? 0,
+        outputTokens: usage.completionTokens ?? 0
+    })
+}
+
+/**
+ * Loads budgets and spend from Supabase and checks chat requests against
+ * them. The spend rules themselves live in budget-rules.
+ */
+export class BudgetService {
+    async list(userId: string): Promise<SpendingBudget[]> {
+        const { data, error } = await supabase
+            .from('spending_budgets')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: true })
+        if (error) throw new Error(error.message)
+        return (data ?? []).map(toBudget)
+    }
+
+    async create(userId: string, input: BudgetInput): Promise<SpendingBudget> {
+        const { data, error } = await supabase
+            .from('spending_budgets')
+            .insert({
+                user_id: userId,
+                name: input.name,
+                scope: input.scope,
+                target_id: input.scope === 'monthly' ? null : input.targetId ?? null,
+                limit_usd: input.limitUsd,
+                warn_ratio: input.warnRatio ?? 0.8,
+                hard_stop: input.hardStop ?? true
+            })
+            .select()
+            .single()
+        if (error) throw new Error(error.message)
+        return toBudget(data)
+    }
+
+    async update(userId: string, id: string, input: Partial<BudgetInput>): Promise<SpendingBudget> {
+        const updates: Record<string, unknown> = { updated_at: new Date().toISOString() }
+        if (input.name !== undefined) updates.name = input.name
+        if (input.scope !== undefined) {
+            updates.scope = input.scope
+            updates.target_id = input.scope === 'monthly' ? null : input.targetId ?? null
+        } else if (input.targetId !== undefined) {
+            updates.target_id = input.targetId
+        }
+        if (input.limitUsd !== undefined) updates.limit_usd = input.limitUsd
+        if (input.warnRatio !== undefined) updates.warn_ratio = input.warnRatio
+        if (input.hardStop !== undefined) updates.hard_stop = input.hardStop
+
+        const { data, error } = await supabase
+            .from('spending_budgets')
+            .update(updates)
+            .eq('id', id)
+            .eq('user_id', userId)
+            .select()
+            .single()
+        if (error) throw new Error(error.message)
+        return toBudget(data)
+    }
+
+    async remove(userId: string, id: string): Promise<void> {
+        const { error } = await supabase
+            .from('spending_budgets')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', userId)
+        if (error) throw new Error(error.message)
+    }
+
+    /**
+     * Spend of the current month, plus the lifetime spend of `chatIds`
+     * (chat budgets are not reset monthly)
+     */
+    async loadSpend(userId: string, chatIds: string[], now: Date = new Date()): Promise<SpendSummary> {
+        const monthStart = new Date(now.getFullYear(), now.getMonth(), 1)
+        const records: UsageRecord[] = []
+
+        for (const { table, chatColumn } of MESSAGE_SOURCES) {
+            const columns = `id, ${chatColumn}, model_id, created_at, metadata`
+            const { data: monthRows, error } = await supabase
+                .from(table)
+                .select(columns)
+                .eq('role', 'assistant')
+                .gte('created_at', monthStart.toISOString())
+                .not('metadata', 'is', null)
+            if (error) throw new Error(error.message)
+
+            const rows = new Map<string, any>()
+            for (const row of (monthRows ?? []) as any[]) rows.set(row.id, row)
+
+            if (chatIds.length > 0) {
+                const { data: chatRows, error: chatError } = await supabase
+                    .from(table)
+                    .select(columns)
+                    .eq('role', 'assistant')
+                    .in(chatColumn, chatIds)
+                    .lt('created_at', monthStart.toISOString())
+                    .not('metadata', 'is', null)
+                if (chatError) throw new Error(chatError.message)
+                for (const row of (chatRows ?? []) as any[]) rows.set(row.id, row)
+            }
+
+            for (const row of rows.values()) {
+                const record = toRecord(row, chatColumn)
+                if (record) records.push(record)
+            }
+        }
+
+        // Row batch jobs store their billed cost when they finish
+        const { data: jobRows, error: jobError } = await supabase
+            .from('batch_jobs')
+            .select('id, completed_at, metadata')
+            .eq('user_id', userId)
+            .eq('type', ROW_BATCH_JOB_TYPE)
+            .gte('completed_at', monthStart.toISOString())
+        if (jobError) throw new Error(jobError.message)
+        for (const row of jobRows ?? []) {
+            const cost = Number(row.metadata?.cost ?? 0)
+            if (cost > 0) {
+                records.push({
+                    chatId: row.id,
+                    modelId: row.metadata?.model ?? null,
+                    createdAt: row.completed_at,
+                    inputTokens: 0,
+                    outputTokens: 0,
+                    costUsd: cost
+                })
+            }
+        }
+
+        const { data: accountRows, error: accountError } = await supabase
+            .from('ai_provider_accounts')
+            .select('id, spend_usd')
+            .eq('user_id', userId)
+            .eq('spend_month', monthKey(now))
+        if (accountError) throw new Error(accountError.message)
+
+        const accounts: Record<string, number> = {}
+        for (const row of accountRows ?? []) accounts[row.id] = Number(row.spend_usd)
+
+        return summarizeSpend(records, accounts, now)
+    }
+
+    async activeAccountId(userId: string, provider: AIProvider): Promise<string | null> {
+        const accountProvider = ACCOUNT_PROVIDERS[provider]
+        if (!accountProvider) return null
+        const { data } = await supabase
+            .from('ai_provider_settings')
+            .select('active_account_id')
+            .eq('user_id', userId)
+            .eq('provider', accountProvider)
+            .maybeSingle()
+        return data?.active_account_id ?? null
+    }
+
+    /**
+     * Check a chat request before it starts. Users without budgets skip the
+     * spend queries entirely.
+     */
+    async check(userId: string, input: BudgetCheckInput): Promise<BudgetCheckResult> {
+        const estimatedCost = SUBSCRIPTION_MODELS.has(input.modelId)
+            ? 0
+            : estimateRequestCost(input.modelId, input.inputChars, input.maxOutputTokens)
+
+        const budgets = await this.list(userId)
+        if (budgets.length === 0) {
+            return { allowed: true, blocking: [], warnings: [], estimatedCost }
+        }
+
+        const [spend, accountId] = await Promise.all([
+            this.loadSpend(userId, [input.chatId]),
+            this.activeAccountId(userId, input.provider)
+        ])
+        const decision = checkBudgets(budgets, spend, { chatId: input.chatId, accountId, estimatedCost })
+        return { ...decision, estimatedCost }
+    }
+
+    /**
+     * Add the cost of a finished request to the active provider account.
+     * Chat and monthly spend come from the saved message usage instead.
+     */
+    async recordUsage(
+        userId: string,
+        provider: AIProvider,
+        modelId: string,
+        usage: { promptTokens?: number; completionTokens?: number }
+    ): Promise<void> {
+        const cost = requestCost(modelId, usage)
+        if (cost <= 0) return
+        const accountId = await this.activeAccountId(userId, provider)
+        if (accountId) await this.recordAccountSpend(userId, accountId, cost)
+    }
+
+    async recordAccountSpend(userId: string, accountId: string, cost: number): Promise<void> {
+        const month = monthKey(new Date())
+        const { data, error } = await supabase
+            .from('ai_provider_accounts')
+            .select('spend_usd, spend_month')
+            .eq('id', accountId)
+            .eq('user_id', userId)
+            .maybeSingle()
+        if (error || !data) {
+            log.warn('[BudgetService] Failed to load account spend:', error?.message)
+            return
+        }
+
+        // Spend is kept for one month at a time
+        const current = data.spend_month === month ? Number(data.spend_usd) : 0
+        const { error: updateError } = await supabase
+            .from('ai_provider_accounts')
+            .update({ spend_usd: current + cost, spend_month: month })
+            .eq('id', accountId)
+            .eq('user_id', userId)
+        if (updateError) {
+            log.warn('[BudgetService] Failed to record account spend:', updateError.message)
+        }
+    }
+
+    /**
+     * Every budget with its current status and burn-down, for the usage tab
+     */
+    async overview(userId: string, now: Date = new Date()): Promise<BudgetOverview[]> {
+        const budgets = await this.list(userId)
+        if (budgets.length === 0) return []
+
+        const chatIds = budgets.filter(b => b.scope === 'chat' && b.targetId).map(b => b.targetId!)
+        const accountIds = budgets.filter(b => b.scope === 'account' && b.targetId).map(b => b.targetId!)
+        const spend = await this.loadSpend(userId, chatIds, now)
+
+        const names = new Map<string, string>()
+        if (chatIds.length > 0) {
+            const { data } = await supabase
+                .from('chats')
+                .select('id, title')
+                .eq('user_id', userId)
+                .in('id', chatIds)
+            for (const chat of data ?? []) names.set(chat.id, chat.title)
+        }
+        if (accountIds.length > 0) {
+            const { data } = await supabase
+                .from('ai_provider_accounts')
+                .select('id, name')
+                .eq('user_id', userId)
+                .in('id', accountIds)
+            for (const account of data ?? []) names.set(account.id, account.name)
+        }
+
+        const currentMonth = monthKey(now)
+        return budgets.map(budget => {
+            let series: BurnDownPoint[] = []
+            if (budget.scope === 'monthly') {
+                series = burnDown(budget.limitUsd, spend.daily, now)
+            } else if (budget.scope === 'chat') {
+                const daily = spend.chatDaily[budget.targetId ?? ''] ?? {}
+                const thisMonth: Record<string, number> = {}
+                let carriedOver = 0
+                for (const [day, cost] of Object.entries(daily)) {
+                    if (day.startsWith(currentMonth)) thisMonth[day] = cost
+                    else carriedOver += cost
+                }
+                series = burnDown(budget.limitUsd, thisMonth, now, carriedOver)
+            }
+            return {
+                ...budgetStatus(budget, spend),
+                targetName: budget.targetId ? names.get(budget.targetId) ?? null : null,
+                burnDown: series
+            }
+        })
+    }
+}
+
+let budgetService: BudgetService | null = null
+
+export function getBudgetService(): BudgetService {
+    if (!budgetService) {
+        budgetService = new BudgetService()
+    }
+    return budgetService
+}
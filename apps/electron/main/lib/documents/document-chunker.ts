@@ -0,0 +1,286 @@
+/**
+ * Document Chunker
+ *
+ * Splits extracted pages into overlapping chunks for semantic search.
+ * - PDF pages are chunked along their positioned lines, so every chunk keeps
+ *   the union bounding box of the lines it covers
+ * - Text pages (no positions) are chunked on paragraph and sentence breaks
+ * - Offsets are relative to the page content, matching searchWithCitations
+ */
+
+import type {
+  BoundingBox,
+  PageContent,
+  TextWithPosition,
+} from "./document-processor";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Target chunk size (in characters)
+const DEFAULT_CHUNK_SIZE = 800;
+
+// Characters carried over from the previous chunk
+const DEFAULT_CHUNK_OVERLAP = 150;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ChunkOptions {
+  /** Target chunk size in characters */
+  chunkSize?: number;
+  /** Overlap between consecutive chunks in characters */
+  overlap?: number;
+}
+
+export interface DocumentChunk {
+  /** Stable ID within a document: "p{page}-c{index}" */
+  id: string;
+  text: string;
+  pageNumber: number;
+  /** Offsets within the page content */
+  startIndex: number;
+  endIndex: number;
+  /** Union of the bounding boxes of the covered lines */
+  boundingBox?: BoundingBox;
+  pageWidth?: number;
+  pageHeight?: number;
+}
+
+interface TextSpan {
+  text: string;
+  start: number;
+  end: number;
+  boundingBox?: BoundingBox;
+}
+
+// ============================================================================
+// Chunking
+// ============================================================================
+
+/**
+ * Split pages into overlapping chunks that never cross a page boundary
+ */
+export function chunkPages(
+  pages: PageContent[],
+  options: ChunkOptions = {},
+): DocumentChunk[] {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const overlap = Math.min(
+    options.overlap ?? DEFAULT_CHUNK_OVERLAP,
+    Math.floor(chunkSize / 2),
+  );
+  const chunks: DocumentChunk[] = [];
+
+  for (const page of pages) {
+    if (!page.content?.trim()) continue;
+
+    const spans =
+      page.lines && page.lines.length > 0
+        ? spansFromLines(page.content, page.lines)
+        : spansFromText(page.content, chunkSize);
+
+    groupSpans(spans, chunkSize, overlap).forEach((group, index) => {
+      const first = group[0];
+      const last = group[group.length - 1];
+      chunks.push({
+        id: `p${page.pageNumber}-c${index}`,
+        text: page.content.substring(first.start, last.end).trim(),
+        pageNumber: page.pageNumber,
+        startIndex: first.start,
+        endIndex: last.end,
+        boundingBox: unionBoundingBoxes(group),
+        pageWidth: page.width,
+        pageHeight: page.height,
+      });
+    });
+  }
+
+  return chunks;
+}
+
+/**
+ * Map positioned lines onto page content offsets.
+ * Lines are located in order; when extraction normalised whitespace and a
+ * line cannot be found, offsets fall back to the "\n"-joined layout.
+ */
+function spansFromLines(
+  content: string,
+  lines: TextWithPosition[],
+): TextSpan[] {
+  const spans: TextSpan[] = [];
+  let cursor = 0;
+
+  for (const line of lines) {
+    const lineText = line.text.trim();
+    if (!lineText) continue;
+
+    let start = content.indexOf(lineText, cursor);
+    if (start === -1) start = Math.min(cursor, content.length);
+    const end = Math.min(content.length, start + lineText.length);
+
+    spans.push({ text: lineText, start, end, boundingBox: line.boundingBox });
+    cursor = end;
+  }
+
+  return spans;
+}
+
+/**
+ * Split unpositioned text on paragraphs, then sentences for long paragraphs
+ */
+function spansFromText(content: string, chunkSize: number): TextSpan[] {
+  const spans: TextSpan[] = [];
+  const paragraph = /[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g;
+
+  for (const match of content.matchAll(paragraph)) {
+    const text = match[0];
+    const start = match.index ?? 0;
+    if (!text.trim()) continue;
+
+    if (text.length <= chunkSize) {
+      spans.push({ text, start, end: start + text.length });
+      continue;
+    }
+
+    const sentence = /[^.!?\n]+(?:[.!?]+|\n|$)\s*/g;
+    for (const part of text.matchAll(sentence)) {
+      if (!part[0].trim()) continue;
+      const partStart = start + (part.index ?? 0);
+      spans.push(
+        ...splitLongSpan(part[0], partStart, chunkSize).filter((s) =>
+          s.text.trim(),
+        ),
+      );
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Hard-split a span that is longer than a chunk (e.g. text without punctuation)
+ */
+function splitLongSpan(
+  text: string,
+  start: number,
+  chunkSize: number,
+): TextSpan[] {
+  if (text.length <= chunkSize) {
+    return [{ text, start, end: start + text.length }];
+  }
+
+  const spans: TextSpan[] = [];
+  let offset = 0;
+  while (offset < text.length) {
+    let end = Math.min(text.length, offset + chunkSize);
+    if (end < text.length) {
+      const lastSpace = text.lastIndexOf(" ", end);
+      if (lastSpace > offset) end = lastSpace + 1;
+    }
+    spans.push({
+      text: text.substring(offset, end),
+      start: start + offset,
+      end: start + end,
+    });
+    offset = end;
+  }
+  return spans;
+}
+
+/**
+ * Greedily pack spans into groups of ~chunkSize characters, starting each
+ * new group with the trailing spans of the previous one as overlap
+ */
+function groupSpans(
+  spans: TextSpan[],
+  chunkSize: number,
+  overlap: number,
+): TextSpan[][] {
+  const groups: TextSpan[][] = [];
+  let current: TextSpan[] = [];
+  let currentLength = 0;
+
+  for (const span of spans) {
+    const spanLength = span.end - span.start;
+    if (current.length > 0 && currentLength + spanLength > chunkSize) {
+      groups.push(current);
+
+      const carried: TextSpan[] = [];
+      let carriedLength = 0;
+      for (let i = current.length - 1; i > 0; i--) {
+        const length = current[i].end - current[i].start;
+        if (carriedLength + length > overlap) break;
+        carried.unshift(current[i]);
+        carriedLength += length;
+      }
+      current = carried;
+      currentLength = carriedLength;
+    }
+    current.push(span);
+    currentLength += spanLength;
+  }
+
+  if (current.length > 0) {
+    const previous = groups[groups.length - 1];
+    const onlyOverlap =
+      previous && current.every((span) => previous.includes(span));
+    if (!onlyOverlap) groups.push(current);
+  }
+
+  return groups;
+}
+
+/**
+ * Smallest box containing all positioned spans
+ */
+function unionBoundingBoxes(spans: TextSpan[]): BoundingBox | undefined {
+  const boxes = spans
+    .map((span) => span.boundingBox)
+    .filter((box): box is BoundingBox => !!box);
+  if (boxes.length === 0) return undefined;
+
+  const left = Math.min(...boxes.map((b) => b.x));
+  const top = Math.min(...boxes.map((b) => b.y));
+  const right = Math.max(...boxes.map((b) => b.x + b.width));
+  const bottom = Math.max(...boxes.map((b) => b.y + b.height));
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Rebuild pages from merged `extracted_content` with "[Page N]" markers,
+ * for rows stored without a `pages` column
+ */
+export function pagesFromExtractedContent(content: string): PageContent[] {
+  const marker = /^\[Page (\d+)\]\n/gm;
+  const matches = [...content.matchAll(marker)];
+
+  if (matches.length === 0) {
+    const text = content.trim();
+    return text
+      ? [
+          {
+            pageNumber: 1,
+            content: text,
+            wordCount: text.split(/\s+/).filter(Boolean).length,
+          },
+        ]
+      : [];
+  }
+
+  return matches
+    .map((match, i) => {
+      const start = (match.index ?? 0) + match[0].length;
+      const end = matches[i + 1]?.index ?? content.length;
+      const text = content.substring(start, end).trim();
+      return {
+        pageNumber: Number(match[1]),
+        content: text,
+        wordCount: text.split(/\s+/).filter(Boolean).length,
+      };
+    })
+    .filter((page) => page.content.length > 0);
+}
@@ -4,7 +4,8 @@
  * Provides document context for AI models that don't support native file search.
  * This implements a hybrid RAG strategy:
  * - OpenAI: Uses native file_search with Vector Stores
- * - Other providers: Uses extracted text + local FTS search
+ * - Other providers: Uses extracted text + local semantic search
+ *   (chunked pages embedded into an in-memory vector index)
  *
  * Adapted from Midday's approach of passing document context directly to models.
  */
@@ -12,11 +13,13 @@
 import { supabase } from "../supabase/client";
 import log from "electron-log";
 import {
-  searchWithCitations,
   formatCitation,
   type PageContent,
   type BoundingBox,
 } from "./document-processor";
+import { pagesFromExtractedContent } from "./document-chunker";
+import { getSharedVectorIndex } from "./vector-index";
+import { CUSTOM_MODEL_PREFIX } from "@s-agi/core/types/ai";
 
 // ============================================================================
 // Configuration
@@ -168,7 +171,9 @@ export async function getDocumentContext(
 }
 
 /**
- * Search within documents and return relevant context with citations
+ * Search within documents and return relevant context with citations.
+ * All documents share one local vector index, so excerpts are ranked by
+ * relevance across files instead of taken in upload order.
  */
 async function searchDocumentsForContext(
   documents: DocumentFile[],
@@ -180,92 +185,71 @@ async function searchDocumentsForContext(
   let currentLength = 0;
   let citationIndex = 1;
 
-  for (const doc of documents) {
-    if (currentLength >= maxLength) break;
+  const index = getSharedVectorIndex();
+  // Documents without page data can't be cited by page number
+  const unpagedIds = new Set<string>();
 
-    // Try to search with page-level citations
+  for (const doc of documents) {
+    let pages: PageContent[] = [];
     if (doc.pages && Array.isArray(doc.pages) && doc.pages.length > 0) {
-      const pages = doc.pages as PageContent[];
-      const results = searchWithCitations(query, pages, MAX_SEARCH_RESULTS);
-
-      for (const result of results) {
-        if (currentLength >= maxLength) break;
-
-        // Human-readable citation for display
-        const citation = formatCitation(
-          doc.filename,
-          result.pageNumber,
-          "bracket",
-        );
-
-        // Machine-parseable citation marker for inline rendering
-        // Format: [[cite:ID|filename|page|text]]
-        const citationMarker = `[[cite:${citationIndex}|${doc.filename}|${result.pageNumber}|${result.text.replace(/\|/g, "¦").replace(/\]/g, "⟧")}]]`;
-
-        allCitations.push({
-          text: result.text,
-          filename: doc.filename,
-          pageNumber: result.pageNumber,
-          citation,
-          citationId: citationIndex,
-          citationMarker,
-          boundingBox: result.boundingBox,
-          pageWidth: result.pageWidth,
-          pageHeight: result.pageHeight,
-        });
-
-        // Context with numbered reference for the AI to use
-        const contextChunk = `\n[${citationIndex}] ${citation}:\n>>> "${result.text}"\n`;
-        if (currentLength + contextChunk.length <= maxLength) {
-          contextParts.push(contextChunk);
-          currentLength += contextChunk.length;
-          citationIndex++;
-        }
+      pages = doc.pages as PageContent[];
+    } else if (doc.extracted_content) {
+      pages = pagesFromExtractedContent(doc.extracted_content);
+      if (!/^\[Page \d+\]$/m.test(doc.extracted_content)) {
+        unpagedIds.add(doc.id);
       }
     }
-    // Fallback: search in extracted_content without page numbers
-    else if (doc.extracted_content) {
-      const lowerContent = doc.extracted_content.toLowerCase();
-      const lowerQuery = query.toLowerCase();
-
-      // Simple search for query terms
-      const queryWords = lowerQuery.split(/\s+/).filter((w) => w.length > 3);
-      for (const word of queryWords) {
-        const index = lowerContent.indexOf(word);
-        if (index !== -1 && currentLength < maxLength) {
-          const start = Math.max(0, index - 100);
-          const end = Math.min(
-            doc.extracted_content.length,
-            index + word.length + 200,
-          );
-          let snippet = doc.extracted_content.substring(start, end);
-          if (start > 0) snippet = "..." + snippet;
-          if (end < doc.extracted_content.length) snippet += "...";
-
-          const citation = `[${doc.filename}]`;
-          const citationMarker = `[[cite:${citationIndex}|${doc.filename}||${snippet.replace(/\|/g, "¦").replace(/\]/g, "⟧")}]]`;
-
-          allCitations.push({
-            text: snippet,
-            filename: doc.filename,
-            pageNumber: null,
-            citation,
-            citationId: citationIndex,
-            citationMarker,
-          });
-
-          const contextChunk = `\n[${citationIndex}] ${citation}:\n>>> "${snippet}"\n`;
-          if (currentLength + contextChunk.length <= maxLength) {
-            contextParts.push(contextChunk);
-            currentLength += contextChunk.length;
-            citationIndex++;
-          }
-          break; // One match per document in fallback mode
-        }
-      }
+    if (pages.length > 0) {
+      await index.addDocument(doc.id, doc.filename, pages);
     }
   }
 
+  const results = await index.search(query, {
+    maxResults: MAX_SEARCH_RESULTS * Math.min(documents.length, 3),
+    documentIds: documents.map((d) => d.id),
+  });
+
+  log.info(
+    `[DocumentContext] Semantic search (${index.embedder.id}) returned ${results.length} chunks from ${documents.length} documents`,
+  );
+
+  for (const result of results) {
+    if (currentLength >= maxLength) break;
+
+    const pageNumber = unpagedIds.has(result.documentId)
+      ? null
+      : result.pageNumber;
+
+    // Human-readable citation for display
+    const citation =
+      pageNumber === null
+        ? `[${result.filename}]`
+        : formatCitation(result.filename, pageNumber, "bracket");
+
+    // Machine-parseable citation marker for inline rendering
+    // Format: [[cite:ID|filename|page|text]]
+    const citationMarker = `[[cite:${citationIndex}|${result.filename}|${pageNumber ?? ""}|${result.text.replace(/\|/g, "¦").replace(/\]/g, "⟧")}]]`;
+
+    // Context with numbered reference for the AI to use
+    const contextChunk = `\n[${citationIndex}] ${citation}:\n>>> "${result.text}"\n`;
+    if (currentLength + contextChunk.length > maxLength) continue;
+
+    allCitations.push({
+      text: result.text,
+      filename: result.filename,
+      pageNumber,
+      citation,
+      citationId: citationIndex,
+      citationMarker,
+      boundingBox: result.boundingBox,
+      pageWidth: result.pageWidth,
+      pageHeight: result.pageHeight,
+    });
+    contextParts.push(contextChunk);
+    currentLength += contextChunk.length;
+    citationIndex++;
+  }
+
   // If no search results, fall back to summaries
   if (contextParts.length === 0) {
     return getDocumentSummaries(documents, maxLength);
@@ -410,6 +394,8 @@ export function supportsNativeFileSearch(provider: string): boolean {
  * Get the AI provider from a model ID
  */
 export function getProviderFromModelId(modelId: string): string {
+  // Custom endpoint models are namespaced and may reuse OpenAI names (gpt-oss)
+  if (modelId.startsWith(CUSTOM_MODEL_PREFIX)) return "custom";
   if (
     modelId.includes("gpt") ||
     modelId.includes("o1") ||
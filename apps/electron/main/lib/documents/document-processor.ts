@@ -3,6 +3,8 @@
  *
  * Adapted from Midday's document processing pipeline for Electron
  * - PDF text extraction using LibPDF (with bounding box positions)
+ * - OCR fallback for scanned pages and images (offline, tesseract WASM)
+ * - Word, PowerPoint and Excel extraction (pages, slides and sheets)
  * - Text file processing
  * - Document classification metadata
  */
@@ -13,6 +15,12 @@ import {
   type TextWithPosition,
   type BoundingBox,
 } from "../pdf/pdf-service";
+import { recognizeImage, recognizePdfPages, type OcrPageResult } from "./ocr";
+import {
+  extractOfficePages,
+  officeFormatOf,
+  OFFICE_MIME_TYPES,
+} from "./office";
 
 // Re-export position types for consumers
 export type { TextWithPosition, BoundingBox };
@@ -55,18 +63,35 @@ export const SUPPORTED_DOCUMENT_TYPES = {
     "application/vnd.openxmlformats-officedocument.presentationml.presentation",
     "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
   ],
+  image: [
+    "image/png",
+    "image/jpeg",
+    "image/webp",
+    "image/tiff",
+    "image/bmp",
+    "image/gif",
+  ],
 } as const;
 
 // ============================================================================
 // Document Processing Result Types
 // ============================================================================
 
+export interface OcrMetadata {
+  engine: "tesseract";
+  /** Per-page mean confidence (0-100) for pages recognized by OCR */
+  pages: Array<{ pageNumber: number; confidence: number }>;
+  averageConfidence: number;
+}
+
 export interface DocumentMetadata {
   title?: string;
   summary?: string;
   pageCount?: number;
   wordCount?: number;
   language?: string;
+  /** Present when some pages had no text layer and were OCR'd */
+  ocr?: OcrMetadata;
   extractedAt: string;
 }
 
@@ -101,6 +126,8 @@ export interface CitedChunk {
   /** Page dimensions for coordinate conversion */
   pageWidth?: number;
   pageHeight?: number;
+  /** Similarity score, set by semantic search */
+  score?: number;
 }
 
 // ============================================================================
@@ -125,6 +152,7 @@ export async function extractTextFromPdfWithPages(pdfBuffer: Buffer): Promise<{
   mergedContent: string;
   pages: PageContent[];
   pageCount: number;
+  ocr?: OcrMetadata;
 } | null> {
   try {
     log.info("[DocumentProcessor] Starting PDF text extraction with LibPDF...");
@@ -147,19 +175,39 @@ export async function extractTextFromPdfWithPages(pdfBuffer: Buffer): Promise<{
     const pages: PageContent[] = [];
     const contentParts: string[] = [];
 
+    // Pages without a text layer (scans) go through OCR
+    const scannedPages = libpdfPages
+      .filter((p) => !p.content.trim())
+      .map((p) => ({ pageNumber: p.pageNumber, width: p.width, height: p.height }));
+    const ocrPages = new Map<number, OcrPageResult>();
+    if (scannedPages.length > 0) {
+      log.info(
+        `[DocumentProcessor] ${scannedPages.length} page(s) without text layer, running OCR`,
+      );
+      try {
+        for (const result of await recognizePdfPages(uint8Array, scannedPages)) {
+          ocrPages.set(result.pageNumber, result);
+        }
+      } catch (error) {
+        log.error("[DocumentProcessor] OCR failed:", error);
+      }
+    }
+
     for (const libpdfPage of libpdfPages) {
-      const pageText = libpdfPage.content.trim();
-      if (pageText) {
-        pages.push({
-          pageNumber: libpdfPage.pageNumber,
-          content: pageText,
-          wordCount: libpdfPage.wordCount,
-          width: libpdfPage.width,
-          height: libpdfPage.height,
-          lines: libpdfPage.lines,
-        });
+      const page: PageContent | undefined = libpdfPage.content.trim()
+        ? {
+            pageNumber: libpdfPage.pageNumber,
+            content: libpdfPage.content.trim(),
+            wordCount: libpdfPage.wordCount,
+            width: libpdfPage.width,
+            height: libpdfPage.height,
+            lines: libpdfPage.lines,
+          }
+        : ocrPages.get(libpdfPage.pageNumber);
+      if (page) {
+        pages.push(page);
         // Add page marker for citation tracking
-        contentParts.push(`[Page ${libpdfPage.pageNumber}]\n${pageText}`);
+        contentParts.push(`[Page ${page.pageNumber}]\n${page.content}`);
       }
     }
 
@@ -187,6 +235,7 @@ export async function extractTextFromPdfWithPages(pdfBuffer: Buffer): Promise<{
       mergedContent,
       pages,
       pageCount,
+      ocr: ocrMetadata([...ocrPages.values()]),
     };
   } catch (error) {
     log.error("[DocumentProcessor] PDF extraction failed:", error);
@@ -194,6 +243,50 @@ export async function extractTextFromPdfWithPages(pdfBuffer: Buffer): Promise<{
   }
 }
 
+/**
+ * Summarize OCR confidence for document metadata
+ */
+function ocrMetadata(results: OcrPageResult[]): OcrMetadata | undefined {
+  if (results.length === 0) return undefined;
+  const pages = results.map((r) => ({
+    pageNumber: r.pageNumber,
+    confidence: r.confidence,
+  }));
+  const average =
+    pages.reduce((sum, p) => sum + p.confidence, 0) / pages.length;
+  return {
+    engine: "tesseract",
+    pages,
+    averageConfidence: Math.round(average * 10) / 10,
+  };
+}
+
+/**
+ * Extract text from an image (photo, screenshot, scanned receipt) with OCR
+ */
+export async function extractTextFromImage(imageBuffer: Buffer): Promise<{
+  content: string;
+  page: PageContent;
+  ocr: OcrMetadata;
+} | null> {
+  try {
+    const result = await recognizeImage(imageBuffer, { pageNumber: 1 });
+    if (!result.content) {
+      log.warn("[DocumentProcessor] No text recognized in image");
+      return null;
+    }
+
+    return {
+      content: result.content.substring(0, MAX_TEXT_LENGTH),
+      page: result,
+      ocr: ocrMetadata([result])!,
+    };
+  } catch (error) {
+    log.error("[DocumentProcessor] Image OCR failed:", error);
+    return null;
+  }
+}
+
 /**
  * Extract text from PDF URL (downloads first)
  */
@@ -336,6 +429,49 @@ export function generateSummary(text: string, maxWords: number = 200): string {
 // Main Document Processor
 // ============================================================================
 
+/**
+ * Extract text from a DOCX, PPTX or XLSX file as pages (Word pages, slides
+ * or worksheets) so citations point to where the text is
+ */
+export async function extractTextFromOffice(
+  buffer: Buffer,
+  mimeType: string,
+): Promise<{ mergedContent: string; pages: PageContent[] } | null> {
+  const format = officeFormatOf(mimeType);
+  if (!format) {
+    log.info(
+      `[DocumentProcessor] Legacy Office format not supported: ${mimeType}`,
+    );
+    return null;
+  }
+
+  try {
+    const pages = await extractOfficePages(buffer, format);
+    if (pages.length === 0) {
+      log.warn(`[DocumentProcessor] No text content found in ${format} file`);
+      return null;
+    }
+
+    let mergedContent = pages
+      .map((page) => `[Page ${page.pageNumber}]\n${page.content}`)
+      .join("\n\n");
+    if (mergedContent.length > MAX_TEXT_LENGTH) {
+      log.info(
+        `[DocumentProcessor] Truncating text from ${mergedContent.length} to ${MAX_TEXT_LENGTH} chars`,
+      );
+      mergedContent = mergedContent.substring(0, MAX_TEXT_LENGTH);
+    }
+
+    log.info(
+      `[DocumentProcessor] Extracted ${mergedContent.length} chars from ${pages.length} ${format} pages`,
+    );
+    return { mergedContent, pages };
+  } catch (error) {
+    log.error(`[DocumentProcessor] ${format} extraction failed:`, error);
+    return null;
+  }
+}
+
 /**
  * Process a document and extract content + metadata
  */
@@ -350,6 +486,7 @@ export async function processDocument(
   try {
     let content: string | null = null;
     let pages: PageContent[] | undefined = undefined;
+    let ocr: OcrMetadata | undefined = undefined;
 
     // PDF processing with page extraction
     if (SUPPORTED_DOCUMENT_TYPES.pdf.includes(mimeType as any)) {
@@ -357,6 +494,16 @@ export async function processDocument(
       if (pdfResult) {
         content = pdfResult.mergedContent;
         pages = pdfResult.pages;
+        ocr = pdfResult.ocr;
+      }
+    }
+    // Images (photos, receipts, screenshots) via OCR
+    else if (SUPPORTED_DOCUMENT_TYPES.image.includes(mimeType as any)) {
+      const imageResult = await extractTextFromImage(buffer);
+      if (imageResult) {
+        content = imageResult.content;
+        pages = [imageResult.page];
+        ocr = imageResult.ocr;
       }
     }
     // Text-based files
@@ -376,12 +523,13 @@ export async function processDocument(
         ];
       }
     }
-    // Office documents - not supported for text extraction yet
+    // Office documents (Word pages, slides, worksheets)
     else if (SUPPORTED_DOCUMENT_TYPES.office.includes(mimeType as any)) {
-      log.info(
-        "[DocumentProcessor] Office document - text extraction not implemented",
-      );
-      content = null;
+      const officeResult = await extractTextFromOffice(buffer, mimeType);
+      if (officeResult) {
+        content = officeResult.mergedContent;
+        pages = officeResult.pages;
+      }
     }
     // Unknown type
     else {
@@ -400,6 +548,9 @@ export async function processDocument(
       metadata.summary = generateSummary(content);
       metadata.pageCount = pages?.length || 1;
     }
+    if (ocr) {
+      metadata.ocr = ocr;
+    }
 
     const duration = Date.now() - startTime;
     log.info(
@@ -440,6 +591,8 @@ export function isProcessableDocument(mimeType: string): boolean {
     ...SUPPORTED_DOCUMENT_TYPES.pdf,
     ...SUPPORTED_DOCUMENT_TYPES.text,
     ...SUPPORTED_DOCUMENT_TYPES.code,
+    ...SUPPORTED_DOCUMENT_TYPES.image,
+    ...Object.values(OFFICE_MIME_TYPES),
   ];
   return allTypes.includes(mimeType as any);
 }
@@ -451,6 +604,9 @@ export function isProcessableExtension(extension: string): boolean {
   const ext = extension.toLowerCase().replace(".", "");
   const processableExtensions = [
     "pdf",
+    "docx",
+    "pptx",
+    "xlsx",
     "txt",
     "md",
     "csv",
@@ -471,6 +627,14 @@ export function isProcessableExtension(extension: string): boolean {
     "php",
     "sh",
     "tex",
+    "png",
+    "jpg",
+    "jpeg",
+    "webp",
+    "tif",
+    "tiff",
+    "bmp",
+    "gif",
   ];
   return processableExtensions.includes(ext);
 }
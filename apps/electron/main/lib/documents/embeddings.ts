@@ -0,0 +1,148 @@
+/**
+ * Document Embeddings
+ *
+ * Pluggable text embedders for the local vector index.
+ * - `Embedder` is the extension point (remote APIs, local models, ...)
+ * - `createLocalEmbedder` is deterministic and fully offline: it hashes
+ *   word, bigram and character trigram features into a fixed-size vector,
+ *   so it works for every provider without network access or API keys
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Embedder {
+  /** Stable identifier, part of the index cache key */
+  readonly id: string;
+  /** Vector length produced by `embed` */
+  readonly dimensions: number;
+  /** Embed a batch of texts; vectors must be L2-normalised */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface LocalEmbedderOptions {
+  /** Vector length (default 512) */
+  dimensions?: number;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_DIMENSIONS = 512;
+
+// Feature weights: whole words dominate, trigrams add tolerance for
+// inflections ("facturas" ~ "factura") and OCR/extraction noise
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+// Common English and Spanish words that carry no retrieval signal
+const STOP_WORDS = new Set(
+  (
+    "the a an is are was were to of and or in on at for with by it this that " +
+    "be as from what which how do does el la los las de del que en un una es " +
+    "son por con para se al lo su sus como cual"
+  ).split(" "),
+);
+
+// ============================================================================
+// Local Embedder
+// ============================================================================
+
+/**
+ * Lowercase, strip diacritics and split into word tokens
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Scale a vector to unit length (zero vectors are returned unchanged)
+ */
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+/**
+ * Create the deterministic offline embedder (signed feature hashing)
+ */
+export function createLocalEmbedder(
+  options: LocalEmbedderOptions = {},
+): Embedder {
+  const dimensions = options.dimensions ?? DEFAULT_DIMENSIONS;
+
+  const embedOne = (text: string): number[] => {
+    const counts = new Map<string, { weight: number; count: number }>();
+    const add = (feature: string, weight: number) => {
+      const entry = counts.get(feature);
+      if (entry) entry.count++;
+      else counts.set(feature, { weight, count: 1 });
+    };
+
+    const tokens = tokenize(text);
+    tokens.forEach((token, i) => {
+      add(`w:${token}`, WORD_WEIGHT);
+      if (i > 0) add(`b:${tokens[i - 1]}_${token}`, BIGRAM_WEIGHT);
+
+      const padded = `^${token}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`t:${padded.substring(j, j + 3)}`, TRIGRAM_WEIGHT);
+      }
+    });
+
+    const vector = new Array<number>(dimensions).fill(0);
+    for (const [feature, { weight, count }] of counts) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      // Sublinear term frequency so repeated words don't swamp a chunk
+      vector[hash % dimensions] += sign * weight * (1 + Math.log(count));
+    }
+    return normalizeVector(vector);
+  };
+
+  return {
+    id: `local-hash-${dimensions}`,
+    dimensions,
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
+
+// ============================================================================
+// Default Embedder
+// ============================================================================
+
+let defaultEmbedder: Embedder = createLocalEmbedder();
+
+/**
+ * Embedder used by document search when none is passed explicitly
+ */
+export function getDocumentEmbedder(): Embedder {
+  return defaultEmbedder;
+}
+
+/**
+ * Replace the default embedder (e.g. with a remote embeddings API)
+ */
+export function setDocumentEmbedder(embedder: Embedder): void {
+  defaultEmbedder = embedder;
+}
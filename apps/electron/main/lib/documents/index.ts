@@ -13,6 +13,12 @@ export {
   extractTextFromPdfWithPages,
   extractTextFromPdfUrl,
 
+  // Office utilities (DOCX, PPTX, XLSX)
+  extractTextFromOffice,
+
+  // Image utilities (OCR)
+  extractTextFromImage,
+
   // Text utilities
   extractTextFromBuffer,
   calculateWordCount,
@@ -34,6 +40,7 @@ export {
   type ProcessingStatus,
   type ProcessedDocument,
   type DocumentMetadata,
+  type OcrMetadata,
   type PageContent,
   type CitedChunk,
   type TextWithPosition,
@@ -43,6 +50,50 @@ export {
   SUPPORTED_DOCUMENT_TYPES,
 } from "./document-processor";
 
+// Semantic search (chunking + local vector index)
+export {
+  chunkPages,
+  pagesFromExtractedContent,
+  type ChunkOptions,
+  type DocumentChunk,
+} from "./document-chunker";
+export {
+  createLocalEmbedder,
+  getDocumentEmbedder,
+  setDocumentEmbedder,
+  type Embedder,
+  type LocalEmbedderOptions,
+} from "./embeddings";
+export {
+  VectorIndex,
+  getSharedVectorIndex,
+  semanticSearchWithCitations,
+  type RankedChunk,
+  type VectorSearchOptions,
+} from "./vector-index";
+
+// OCR for scanned pages and images
+export {
+  recognizeImage,
+  recognizePdfPages,
+  ocrLinesToPositions,
+  terminateOcr,
+  OCR_LANGUAGES,
+  type OcrLine,
+  type OcrPageResult,
+  type OcrPageGeometry,
+} from "./ocr";
+
+// Word, PowerPoint and Excel extraction
+export {
+  extractDocxPages,
+  extractPptxPages,
+  extractXlsxPages,
+  extractOfficePages,
+  OFFICE_MIME_TYPES,
+  type OfficeFormat,
+} from "./office";
+
 // Document context for multi-provider support
 export {
   getDocumentContext,
@@ -0,0 +1,235 @@
+/**
+ * OCR Service
+ *
+ * Offline text recognition for scanned PDFs and photos (tesseract.js, WASM).
+ * Used by the document processor when a page has no text layer. Recognized
+ * lines are mapped to PDF coordinates so citations can be highlighted like
+ * any other extracted text.
+ */
+
+import { app } from "electron";
+import fs from "fs/promises";
+import path from "path";
+import log from "electron-log";
+import sharp from "sharp";
+import { createWorker, OEM, type Worker } from "tesseract.js";
+import { extractImages, getDocumentProxy } from "unpdf";
+import type { TextWithPosition } from "../pdf/pdf-service";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface OcrLine {
+  text: string;
+  /** Tesseract confidence (0-100) */
+  confidence: number;
+  /** Pixel box in the image, origin top-left */
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+export interface OcrPageResult {
+  pageNumber: number;
+  content: string;
+  wordCount: number;
+  width: number;
+  height: number;
+  lines: TextWithPosition[];
+  /** Mean recognition confidence for the page (0-100) */
+  confidence: number;
+}
+
+export interface OcrPageGeometry {
+  pageNumber: number;
+  /** Page size in PDF points; defaults to the image size in pixels */
+  width?: number;
+  height?: number;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Traineddata shipped with the app (npm @tesseract.js-data/*)
+export const OCR_LANGUAGES = ["eng", "spa"] as const;
+
+let workerPromise: Promise<Worker> | null = null;
+
+/**
+ * Copy the bundled language data into one local tessdata directory
+ * (tesseract.js reads every language from a single langPath)
+ */
+async function ensureLanguageData(): Promise<string> {
+  const langPath = path.join(app.getPath("userData"), "tessdata");
+  await fs.mkdir(langPath, { recursive: true });
+
+  for (const lang of OCR_LANGUAGES) {
+    const target = path.join(langPath, `${lang}.traineddata.gz`);
+    const exists = await fs
+      .stat(target)
+      .then(() => true)
+      .catch(() => false);
+    if (exists) continue;
+
+    const source = path.join(
+      path.dirname(require.resolve(`@tesseract.js-data/${lang}/package.json`)),
+      "4.0.0_best_int",
+      `${lang}.traineddata.gz`,
+    );
+    await fs.copyFile(source, target);
+  }
+
+  return langPath;
+}
+
+async function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = (async () => {
+      const langPath = await ensureLanguageData();
+      log.info("[OCR] Starting tesseract worker");
+      return createWorker([...OCR_LANGUAGES], OEM.LSTM_ONLY, {
+        langPath,
+        gzip: true,
+        cacheMethod: "none",
+      });
+    })().catch((error) => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+/**
+ * Stop the OCR worker (frees the WASM heap)
+ */
+export async function terminateOcr(): Promise<void> {
+  if (!workerPromise) return;
+  const worker = await workerPromise.catch(() => null);
+  workerPromise = null;
+  await worker?.terminate();
+}
+
+// ============================================================================
+// Recognition
+// ============================================================================
+
+/**
+ * Map OCR lines from image pixels to PDF coordinates (origin bottom-left)
+ */
+export function ocrLinesToPositions(
+  lines: OcrLine[],
+  geometry: {
+    pageNumber: number;
+    imageWidth: number;
+    imageHeight: number;
+    pageWidth: number;
+    pageHeight: number;
+  },
+): TextWithPosition[] {
+  const scaleX = geometry.pageWidth / geometry.imageWidth;
+  const scaleY = geometry.pageHeight / geometry.imageHeight;
+
+  return lines
+    .map((line) => ({ ...line, text: line.text.replace(/\s+/g, " ").trim() }))
+    .filter((line) => line.text)
+    .map((line, lineIndex) => ({
+      text: line.text,
+      pageNumber: geometry.pageNumber,
+      pageIndex: geometry.pageNumber - 1,
+      boundingBox: {
+        x: line.bbox.x0 * scaleX,
+        y: geometry.pageHeight - line.bbox.y1 * scaleY,
+        width: (line.bbox.x1 - line.bbox.x0) * scaleX,
+        height: (line.bbox.y1 - line.bbox.y0) * scaleY,
+      },
+      lineIndex,
+    }));
+}
+
+/**
+ * Recognize text in an image (PNG, JPEG, WebP, TIFF...)
+ */
+export async function recognizeImage(
+  image: Buffer,
+  page: OcrPageGeometry,
+): Promise<OcrPageResult> {
+  const { width: imageWidth = 0, height: imageHeight = 0 } =
+    await sharp(image).metadata();
+  if (!imageWidth || !imageHeight) {
+    throw new Error("Unsupported or empty image");
+  }
+
+  const worker = await getWorker();
+  const { data } = await worker.recognize(image, {}, { text: true, blocks: true });
+
+  const ocrLines: OcrLine[] = (data.blocks ?? []).flatMap((block) =>
+    block.paragraphs.flatMap((paragraph) =>
+      paragraph.lines.map((line) => ({
+        text: line.text,
+        confidence: line.confidence,
+        bbox: line.bbox,
+      })),
+    ),
+  );
+
+  const width = page.width ?? imageWidth;
+  const height = page.height ?? imageHeight;
+  const lines = ocrLinesToPositions(ocrLines, {
+    pageNumber: page.pageNumber,
+    imageWidth,
+    imageHeight,
+    pageWidth: width,
+    pageHeight: height,
+  });
+  const content = lines.map((l) => l.text).join("\n");
+
+  return {
+    pageNumber: page.pageNumber,
+    content,
+    wordCount: content.split(/\s+/).filter(Boolean).length,
+    width,
+    height,
+    lines,
+    confidence: Math.round(data.confidence * 10) / 10,
+  };
+}
+
+/**
+ * OCR the given pages of a PDF. Scanned pages are a single full-page image,
+ * so the largest image on the page is recognized and stretched to the page.
+ */
+export async function recognizePdfPages(
+  pdfBytes: Uint8Array,
+  pages: Array<Required<OcrPageGeometry>>,
+): Promise<OcrPageResult[]> {
+  // pdf.js takes ownership of the buffer it is given
+  const pdf = await getDocumentProxy(new Uint8Array(pdfBytes));
+  const results: OcrPageResult[] = [];
+
+  try {
+    for (const page of pages) {
+      const images = await extractImages(pdf, page.pageNumber);
+      const scan = images.sort(
+        (a, b) => b.width * b.height - a.width * a.height,
+      )[0];
+      if (!scan) continue;
+
+      const png = await sharp(Buffer.from(scan.data), {
+        raw: { width: scan.width, height: scan.height, channels: scan.channels },
+      })
+        .png()
+        .toBuffer();
+
+      const result = await recognizeImage(png, page);
+      log.info(
+        `[OCR] Page ${page.pageNumber}: ${result.wordCount} words (confidence ${result.confidence})`,
+      );
+      if (result.content) results.push(result);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return results;
+}
@@ -0,0 +1,537 @@
+/**
+ * Office Document Extraction
+ *
+ * Offline text and structure extraction for DOCX, PPTX and XLSX, read straight
+ * from the OOXML package. Results map to PageContent so citations point to
+ * something the user can find:
+ * - DOCX: pages follow Word's page breaks; headings, lists and tables are kept
+ * - PPTX: one page per slide, with its speaker notes
+ * - XLSX: one page per worksheet, as a table
+ */
+
+import JSZip from "jszip";
+import ExcelJS from "exceljs";
+import type { PageContent } from "./document-processor";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const OFFICE_MIME_TYPES = {
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+} as const;
+
+export type OfficeFormat = keyof typeof OFFICE_MIME_TYPES;
+
+// Rows written per worksheet; the rest is summarized in one line
+const MAX_SHEET_ROWS = 500;
+
+// EMU (DrawingML) and twips (WordprocessingML) per point
+const EMU_PER_POINT = 12700;
+const TWIPS_PER_POINT = 20;
+
+// ============================================================================
+// Minimal XML reader
+// ============================================================================
+
+interface XmlNode {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+  /** Character data, only for "#text" nodes */
+  text: string;
+}
+
+const XML_TOKEN =
+  /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+const XML_ATTR = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1] === "x" || entity[1] === "X"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[entity.toLowerCase()] ?? "";
+  });
+}
+
+function parseXml(xml: string): XmlNode {
+  const root: XmlNode = { name: "#document", attrs: {}, children: [], text: "" };
+  const stack = [root];
+
+  for (const match of xml.matchAll(XML_TOKEN)) {
+    const [, cdata, closing, name, rawAttrs, selfClosing, text] = match;
+    const parent = stack[stack.length - 1];
+    if (cdata !== undefined || text !== undefined) {
+      const value = cdata ?? decodeEntities(text);
+      parent.children.push({ name: "#text", attrs: {}, children: [], text: value });
+    } else if (name && closing) {
+      if (stack.length > 1) stack.pop();
+    } else if (name) {
+      const attrs: Record<string, string> = {};
+      for (const attr of (rawAttrs ?? "").matchAll(XML_ATTR)) {
+        attrs[attr[1]] = decodeEntities(attr[2] ?? attr[3] ?? "");
+      }
+      const node: XmlNode = { name, attrs, children: [], text: "" };
+      parent.children.push(node);
+      if (!selfClosing) stack.push(node);
+    }
+  }
+  return root;
+}
+
+function child(node: XmlNode | undefined, name: string): XmlNode | undefined {
+  return node?.children.find((c) => c.name === name);
+}
+
+function childrenNamed(node: XmlNode | undefined, name: string): XmlNode[] {
+  return node?.children.filter((c) => c.name === name) ?? [];
+}
+
+/** Depth-first search for elements, without descending into matches */
+function findAll(node: XmlNode | undefined, name: string, found: XmlNode[] = []): XmlNode[] {
+  for (const c of node?.children ?? []) {
+    if (c.name === name) found.push(c);
+    else findAll(c, name, found);
+  }
+  return found;
+}
+
+function findFirst(node: XmlNode | undefined, name: string): XmlNode | undefined {
+  for (const c of node?.children ?? []) {
+    if (c.name === name) return c;
+    const inner = findFirst(c, name);
+    if (inner) return inner;
+  }
+  return undefined;
+}
+
+async function readXml(zip: JSZip, path: string): Promise<XmlNode | undefined> {
+  const file = zip.file(path);
+  return file ? parseXml(await file.async("string")) : undefined;
+}
+
+/** Relationship id → package path, resolved against the part's folder */
+async function readRelationships(zip: JSZip, partPath: string): Promise<Map<string, string>> {
+  const folder = partPath.slice(0, partPath.lastIndexOf("/") + 1);
+  const file = partPath.slice(folder.length);
+  const rels = await readXml(zip, `${folder}_rels/${file}.rels`);
+  const targets = new Map<string, string>();
+  for (const rel of findAll(rels, "Relationship")) {
+    if (rel.attrs.TargetMode === "External") continue;
+    targets.set(rel.attrs.Id, resolvePath(folder, rel.attrs.Target));
+  }
+  return targets;
+}
+
+function resolvePath(folder: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+  const parts = (folder + target).split("/");
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === "..") resolved.pop();
+    else if (part !== ".") resolved.push(part);
+  }
+  return resolved.join("/");
+}
+
+// ============================================================================
+// Shared formatting
+// ============================================================================
+
+/** Words only, so table pipes and heading marks are not counted */
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+function tableText(rows: string[][]): string {
+  const columns = Math.max(0, ...rows.map((row) => row.length));
+  if (columns === 0) return "";
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => (cells[i] ?? "").replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ")).join(" | ")} |`;
+  const [header, ...body] = rows;
+  return [line(header), `|${" --- |".repeat(columns)}`, ...body.map(line)].join("\n");
+}
+
+function toPage(
+  pageNumber: number,
+  content: string,
+  size?: { width: number; height: number },
+): PageContent {
+  return { pageNumber, content, wordCount: countWords(content), ...size };
+}
+
+// ============================================================================
+// DOCX
+// ============================================================================
+
+// Page break placeholder inside extracted paragraph text
+const PAGE_BREAK = "\f";
+
+interface DocxContext {
+  /** styleId → heading level */
+  headingStyles: Map<string, number>;
+  /** numId → formats by level ("bullet", "decimal", ...) */
+  numberingFormats: Map<string, string[]>;
+  counters: Map<string, number[]>;
+  /** Split pages on Word's rendered page breaks instead of explicit ones */
+  renderedBreaks: boolean;
+}
+
+function docxHeadingStyles(styles: XmlNode | undefined): Map<string, number> {
+  const levels = new Map<string, number>();
+  for (const style of findAll(styles, "w:style")) {
+    const id = style.attrs["w:styleId"];
+    const name = child(style, "w:name")?.attrs["w:val"] ?? "";
+    const outline = findFirst(child(style, "w:pPr"), "w:outlineLvl")?.attrs["w:val"];
+    const heading = /^heading\s*(\d)$/i.exec(name) ?? /^Heading(\d)$/.exec(id ?? "");
+    if (/^(title)$/i.test(name)) levels.set(id, 1);
+    else if (heading) levels.set(id, Number(heading[1]));
+    else if (outline !== undefined && Number(outline) < 9) levels.set(id, Number(outline) + 1);
+  }
+  return levels;
+}
+
+function docxNumberingFormats(numbering: XmlNode | undefined): Map<string, string[]> {
+  const abstracts = new Map<string, string[]>();
+  for (const abstract of findAll(numbering, "w:abstractNum")) {
+    const formats: string[] = [];
+    for (const level of childrenNamed(abstract, "w:lvl")) {
+      formats[Number(level.attrs["w:ilvl"] ?? 0)] =
+        child(level, "w:numFmt")?.attrs["w:val"] ?? "bullet";
+    }
+    abstracts.set(abstract.attrs["w:abstractNumId"], formats);
+  }
+  const formats = new Map<string, string[]>();
+  for (const num of findAll(numbering, "w:num")) {
+    const abstractId = child(num, "w:abstractNumId")?.attrs["w:val"];
+    formats.set(num.attrs["w:numId"], abstracts.get(abstractId ?? "") ?? []);
+  }
+  return formats;
+}
+
+/** Text of runs, hyperlinks and content controls inside a paragraph */
+function docxInlineText(node: XmlNode, context: DocxContext): string {
+  let text = "";
+  for (const c of node.children) {
+    switch (c.name) {
+      case "w:t":
+        text += c.children.map((t) => t.text).join("");
+        break;
+      case "w:tab":
+        text += "\t";
+        break;
+      case "w:br":
+      case "w:cr":
+        if (c.attrs["w:type"] === "page") text += context.renderedBreaks ? "" : PAGE_BREAK;
+        else if (c.attrs["w:type"] !== "column") text += "\n";
+        break;
+      case "w:lastRenderedPageBreak":
+        if (context.renderedBreaks) text += PAGE_BREAK;
+        break;
+      // Deleted text, field instructions and drawings carry no readable text
+      case "w:del":
+      case "w:instrText":
+      case "w:drawing":
+      case "w:pPr":
+      case "w:rPr":
+        break;
+      default:
+        text += docxInlineText(c, context);
+    }
+  }
+  return text;
+}
+
+function docxParagraph(paragraph: XmlNode, context: DocxContext): { text: string; list: boolean } {
+  const pPr = child(paragraph, "w:pPr");
+  let text = docxInlineText(paragraph, context);
+  if (!context.renderedBreaks && child(pPr, "w:pageBreakBefore")) text = PAGE_BREAK + text;
+
+  const styleId = child(pPr, "w:pStyle")?.attrs["w:val"] ?? "";
+  const outline = child(pPr, "w:outlineLvl")?.attrs["w:val"];
+  const level =
+    context.headingStyles.get(styleId) ??
+    (outline !== undefined && Number(outline) < 9 ? Number(outline) + 1 : undefined);
+  // Keep a page break that opens the paragraph in front of the marker
+  const [, lead, body] = /^(\f*)([\s\S]*)$/.exec(text)!;
+
+  if (level && body.trim()) {
+    return { text: `${lead}${"#".repeat(Math.min(level, 6))} ${body.trim()}`, list: false };
+  }
+
+  const numPr = child(pPr, "w:numPr");
+  const numId = child(numPr, "w:numId")?.attrs["w:val"];
+  if (numId && numId !== "0" && body.trim()) {
+    const ilvl = Number(child(numPr, "w:ilvl")?.attrs["w:val"] ?? 0);
+    const counters = context.counters.get(numId) ?? [];
+    counters.length = ilvl + 1;
+    counters[ilvl] = (counters[ilvl] ?? 0) + 1;
+    context.counters.set(numId, counters);
+    const format = context.numberingFormats.get(numId)?.[ilvl] ?? "bullet";
+    const marker = format === "bullet" || format === "none" ? "-" : `${counters[ilvl]}.`;
+    return { text: `${lead}${"  ".repeat(ilvl)}${marker} ${body.trim()}`, list: true };
+  }
+
+  return { text, list: false };
+}
+
+function docxTable(table: XmlNode, context: DocxContext): string {
+  const rows = childrenNamed(table, "w:tr").map((row) =>
+    childrenNamed(row, "w:tc").map((cell) =>
+      findAll(cell, "w:p")
+        .map((p) => docxInlineText(p, context).replaceAll(PAGE_BREAK, ""))
+        .filter((text) => text.trim())
+        .join(" ")
+        .trim(),
+    ),
+  );
+  return tableText(rows);
+}
+
+/**
+ * Extract a .docx as pages. Word stores where it last broke pages
+ * (lastRenderedPageBreak); without them, explicit page breaks are used.
+ */
+export async function extractDocxPages(buffer: Buffer | Uint8Array): Promise<PageContent[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  const documentXml = await zip.file("word/document.xml")?.async("string");
+  if (!documentXml) throw new Error("Not a Word document (word/document.xml missing)");
+
+  const document = parseXml(documentXml);
+  const body = findFirst(document, "w:body");
+  const context: DocxContext = {
+    headingStyles: docxHeadingStyles(await readXml(zip, "word/styles.xml")),
+    numberingFormats: docxNumberingFormats(await readXml(zip, "word/numbering.xml")),
+    counters: new Map(),
+    renderedBreaks: documentXml.includes("<w:lastRenderedPageBreak"),
+  };
+
+  // Blocks in order; list items are joined with single line breaks
+  const blocks: Array<{ text: string; list: boolean }> = [];
+  const walk = (node: XmlNode | undefined) => {
+    for (const c of node?.children ?? []) {
+      if (c.name === "w:p") blocks.push(docxParagraph(c, context));
+      else if (c.name === "w:tbl") blocks.push({ text: docxTable(c, context), list: false });
+      else if (c.name === "w:sdt") walk(child(c, "w:sdtContent"));
+    }
+  };
+  walk(body);
+
+  const pageSize = findAll(body, "w:pgSz").pop();
+  const size = pageSize
+    ? {
+        width: Number(pageSize.attrs["w:w"]) / TWIPS_PER_POINT,
+        height: Number(pageSize.attrs["w:h"]) / TWIPS_PER_POINT,
+      }
+    : undefined;
+
+  const pages: string[] = [""];
+  blocks.forEach((block, index) => {
+    const separator = block.list && blocks[index - 1]?.list ? "\n" : "\n\n";
+    block.text.split(PAGE_BREAK).forEach((part, i) => {
+      if (i > 0) pages.push("");
+      if (!part.trim()) return;
+      const current = pages.length - 1;
+      pages[current] += pages[current] ? separator + part.trimEnd() : part.trimEnd();
+    });
+  });
+
+  return pages
+    .map((content, index) => toPage(index + 1, content.trim(), size))
+    .filter((page) => page.content.length > 0);
+}
+
+// ============================================================================
+// PPTX
+// ============================================================================
+
+// Placeholders that repeat on every slide
+const SKIPPED_PLACEHOLDERS = new Set(["dt", "ftr", "sldNum", "sldImg", "hdr"]);
+
+function drawingParagraphText(paragraph: XmlNode): string {
+  let text = "";
+  for (const c of paragraph.children) {
+    if (c.name === "a:r" || c.name === "a:fld") {
+      text += findAll(c, "a:t").map((t) => t.children.map((n) => n.text).join("")).join("");
+    } else if (c.name === "a:br") {
+      text += "\n";
+    }
+  }
+  return text;
+}
+
+function drawingTable(table: XmlNode): string {
+  const rows = childrenNamed(table, "a:tr").map((row) =>
+    childrenNamed(row, "a:tc").map((cell) =>
+      findAll(cell, "a:p").map(drawingParagraphText).filter((t) => t.trim()).join(" ").trim(),
+    ),
+  );
+  return tableText(rows);
+}
+
+/** Text of a slide or notes shape tree, in drawing order */
+function shapeTreeText(tree: XmlNode | undefined, only?: (type: string) => boolean): string[] {
+  const parts: string[] = [];
+  for (const shape of tree?.children ?? []) {
+    if (shape.name === "p:grpSp") {
+      parts.push(...shapeTreeText(shape, only));
+      continue;
+    }
+    if (shape.name === "p:graphicFrame") {
+      if (only) continue;
+      for (const table of findAll(shape, "a:tbl")) parts.push(drawingTable(table));
+      continue;
+    }
+    if (shape.name !== "p:sp") continue;
+
+    const placeholder = findFirst(child(shape, "p:nvSpPr"), "p:ph");
+    const type = placeholder ? (placeholder.attrs.type ?? "body") : "";
+    if (SKIPPED_PLACEHOLDERS.has(type) || (only && !only(type))) continue;
+
+    const paragraphs = findAll(child(shape, "p:txBody"), "a:p")
+      .map((p) => ({
+        text: drawingParagraphText(p).trim(),
+        level: Number(child(p, "a:pPr")?.attrs.lvl ?? 0),
+      }))
+      .filter((p) => p.text);
+    if (paragraphs.length === 0) continue;
+
+    if (type === "title" || type === "ctrTitle") {
+      parts.push(`# ${paragraphs.map((p) => p.text).join(" ")}`);
+    } else if (type === "body" || type === "obj") {
+      parts.push(paragraphs.map((p) => `${"  ".repeat(p.level)}- ${p.text}`).join("\n"));
+    } else {
+      parts.push(paragraphs.map((p) => p.text).join("\n"));
+    }
+  }
+  return parts;
+}
+
+/**
+ * Extract a .pptx with one page per slide (in presentation order). Speaker
+ * notes are appended to their slide.
+ */
+export async function extractPptxPages(buffer: Buffer | Uint8Array): Promise<PageContent[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  const presentationPath = "ppt/presentation.xml";
+  const presentation = await readXml(zip, presentationPath);
+  if (!presentation) throw new Error("Not a PowerPoint presentation (ppt/presentation.xml missing)");
+
+  const relationships = await readRelationships(zip, presentationPath);
+  const slideSize = findFirst(presentation, "p:sldSz");
+  const size = slideSize
+    ? {
+        width: Number(slideSize.attrs.cx) / EMU_PER_POINT,
+        height: Number(slideSize.attrs.cy) / EMU_PER_POINT,
+      }
+    : undefined;
+
+  const pages: PageContent[] = [];
+  const slideIds = findAll(findFirst(presentation, "p:sldIdLst"), "p:sldId");
+  for (const [index, slideId] of slideIds.entries()) {
+    const slidePath = relationships.get(slideId.attrs["r:id"]);
+    const slide = slidePath ? await readXml(zip, slidePath) : undefined;
+    if (!slidePath || !slide) continue;
+
+    const parts = shapeTreeText(findFirst(slide, "p:spTree"));
+
+    const slideRels = await readRelationships(zip, slidePath);
+    const notesPath = [...slideRels.values()].find((target) => target.includes("notesSlides/"));
+    const notes = notesPath ? await readXml(zip, notesPath) : undefined;
+    const noteText = shapeTreeText(findFirst(notes, "p:spTree"), (type) => type === "body")
+      .join("\n")
+      .replace(/^- /gm, "");
+    if (noteText.trim()) parts.push(`Notes:\n${noteText.trim()}`);
+
+    pages.push(toPage(index + 1, parts.join("\n\n"), size));
+  }
+  return pages.filter((page) => page.content.length > 0);
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso.slice(0, 16).replace("T", " ");
+  }
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  if (typeof value !== "object") return String(value);
+  if ("richText" in value) return value.richText.map((run) => run.text).join("");
+  if ("error" in value) return String(value.error);
+  if ("formula" in value || "sharedFormula" in value) {
+    return cellText((value as { result?: ExcelJS.CellValue }).result ?? null);
+  }
+  if ("text" in value) return cellText(value.text as ExcelJS.CellValue);
+  return "";
+}
+
+/**
+ * Extract a .xlsx with one page per worksheet, written as a table of the
+ * used rows (formula cells show their cached result)
+ */
+export async function extractXlsxPages(buffer: Buffer | Uint8Array): Promise<PageContent[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as any);
+
+  const pages: PageContent[] = [];
+  workbook.worksheets.forEach((sheet, index) => {
+    const rows: string[][] = [];
+    let totalRows = 0;
+    sheet.eachRow({ includeEmpty: false }, (row) => {
+      const cells: string[] = [];
+      row.eachCell({ includeEmpty: false }, (cell, column) => {
+        cells[column - 1] = cellText(cell.value).trim();
+      });
+      if (!cells.some(Boolean)) return;
+      totalRows++;
+      if (rows.length < MAX_SHEET_ROWS) rows.push(Array.from(cells, (c) => c ?? ""));
+    });
+
+    // Drop columns that are empty in every written row
+    const columns = Math.max(0, ...rows.map((row) => row.length));
+    const used = Array.from({ length: columns }, (_, c) => rows.some((row) => row[c]));
+    const table = tableText(rows.map((row) => row.filter((_, c) => used[c])));
+    if (!table) return;
+
+    const more = totalRows > rows.length ? `\n\n… ${totalRows - rows.length} more rows` : "";
+    pages.push(toPage(index + 1, `## ${sheet.name}\n\n${table}${more}`));
+  });
+  return pages;
+}
+
+// ============================================================================
+// Entry point
+// ============================================================================
+
+export function officeFormatOf(mimeType: string): OfficeFormat | null {
+  const entry = Object.entries(OFFICE_MIME_TYPES).find(([, type]) => type === mimeType);
+  return entry ? (entry[0] as OfficeFormat) : null;
+}
+
+/**
+ * Extract pages from a DOCX, PPTX or XLSX buffer
+ */
+export async function extractOfficePages(
+  buffer: Buffer | Uint8Array,
+  format: OfficeFormat,
+): Promise<PageContent[]> {
+  switch (format) {
+    case "docx":
+      return extractDocxPages(buffer);
+    case "pptx":
+      return extractPptxPages(buffer);
+    case "xlsx":
+      return extractXlsxPages(buffer);
+  }
+}
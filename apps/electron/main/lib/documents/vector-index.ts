@@ -0,0 +1,213 @@
+/**
+ * Local Vector Index
+ *
+ * In-memory semantic index over document chunks.
+ * - Chunks come from the chunker, so results keep page + bounding box
+ * - Vectors come from a pluggable embedder (local hashing by default)
+ * - Ranked results are `CitedChunk`s, usable wherever searchWithCitations is
+ */
+
+import type { CitedChunk, PageContent } from "./document-processor";
+import {
+  chunkPages,
+  type ChunkOptions,
+  type DocumentChunk,
+} from "./document-chunker";
+import { getDocumentEmbedder, type Embedder } from "./embeddings";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Results scoring below this cosine similarity are treated as noise
+const DEFAULT_MIN_SCORE = 0.1;
+
+// Bonus for chunks containing the literal query, keeps exact hits on top
+const EXACT_MATCH_BONUS = 0.15;
+
+// Documents kept in the shared index before the oldest is evicted
+const MAX_SHARED_DOCUMENTS = 50;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RankedChunk extends CitedChunk {
+  documentId: string;
+  filename: string;
+  /** Similarity score (higher is better) */
+  score: number;
+}
+
+export interface VectorSearchOptions {
+  maxResults?: number;
+  minScore?: number;
+  /** Restrict the search to these documents */
+  documentIds?: string[];
+}
+
+interface IndexedDocument {
+  filename: string;
+  /** Detects content changes for cached documents */
+  signature: string;
+  chunks: DocumentChunk[];
+  vectors: number[][];
+}
+
+// ============================================================================
+// Vector Index
+// ============================================================================
+
+export class VectorIndex {
+  private documents = new Map<string, IndexedDocument>();
+
+  constructor(
+    readonly embedder: Embedder = getDocumentEmbedder(),
+    private readonly chunkOptions: ChunkOptions = {},
+  ) {}
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(documentId: string, pages?: PageContent[]): boolean {
+    const doc = this.documents.get(documentId);
+    if (!doc) return false;
+    return pages ? doc.signature === pagesSignature(pages) : true;
+  }
+
+  /**
+   * Chunk and embed a document; re-indexing only happens when its pages change
+   */
+  async addDocument(
+    documentId: string,
+    filename: string,
+    pages: PageContent[],
+  ): Promise<number> {
+    const signature = pagesSignature(pages);
+    const existing = this.documents.get(documentId);
+    if (existing?.signature === signature) return existing.chunks.length;
+
+    const chunks = chunkPages(pages, this.chunkOptions);
+    const vectors =
+      chunks.length > 0
+        ? await this.embedder.embed(chunks.map((c) => c.text))
+        : [];
+
+    this.documents.delete(documentId);
+    this.documents.set(documentId, { filename, signature, chunks, vectors });
+    return chunks.length;
+  }
+
+  removeDocument(documentId: string): void {
+    this.documents.delete(documentId);
+  }
+
+  /**
+   * Drop the least recently added documents beyond `maxDocuments`
+   */
+  prune(maxDocuments: number): void {
+    for (const id of this.documents.keys()) {
+      if (this.documents.size <= maxDocuments) break;
+      this.documents.delete(id);
+    }
+  }
+
+  /**
+   * Rank chunks across documents by similarity to the query
+   */
+  async search(
+    query: string,
+    options: VectorSearchOptions = {},
+  ): Promise<RankedChunk[]> {
+    const {
+      maxResults = 5,
+      minScore = DEFAULT_MIN_SCORE,
+      documentIds,
+    } = options;
+    const trimmedQuery = query.trim();
+    if (!trimmedQuery) return [];
+
+    const [queryVector] = await this.embedder.embed([trimmedQuery]);
+    const lowerQuery = trimmedQuery.toLowerCase();
+    const results: RankedChunk[] = [];
+
+    for (const [documentId, doc] of this.documents) {
+      if (documentIds && !documentIds.includes(documentId)) continue;
+
+      doc.chunks.forEach((chunk, i) => {
+        let score = dot(queryVector, doc.vectors[i]);
+        if (chunk.text.toLowerCase().includes(lowerQuery)) {
+          score += EXACT_MATCH_BONUS;
+        }
+        if (score < minScore) return;
+
+        results.push({
+          documentId,
+          filename: doc.filename,
+          score,
+          text: chunk.text,
+          pageNumber: chunk.pageNumber,
+          startIndex: chunk.startIndex,
+          endIndex: chunk.endIndex,
+          boundingBox: chunk.boundingBox,
+          pageWidth: chunk.pageWidth,
+          pageHeight: chunk.pageHeight,
+        });
+      });
+    }
+
+    // Ties keep document order, then reading order
+    return results.sort((a, b) => b.score - a.score).slice(0, maxResults);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * (b[i] ?? 0);
+  return sum;
+}
+
+function pagesSignature(pages: PageContent[]): string {
+  return pages
+    .map((p) => `${p.pageNumber}:${p.content.length}:${p.lines?.length ?? 0}`)
+    .join(",");
+}
+
+// ============================================================================
+// Shared Index
+// ============================================================================
+
+let sharedIndex: VectorIndex | null = null;
+
+/**
+ * Process-wide index reused across chat requests.
+ * Recreated when the default embedder changes.
+ */
+export function getSharedVectorIndex(): VectorIndex {
+  const embedder = getDocumentEmbedder();
+  if (!sharedIndex || sharedIndex.embedder.id !== embedder.id) {
+    sharedIndex = new VectorIndex(embedder);
+  }
+  sharedIndex.prune(MAX_SHARED_DOCUMENTS);
+  return sharedIndex;
+}
+
+/**
+ * Semantic counterpart of searchWithCitations for a single document
+ */
+export async function semanticSearchWithCitations(
+  query: string,
+  pages: PageContent[],
+  maxResults: number = 5,
+  embedder: Embedder = getDocumentEmbedder(),
+): Promise<CitedChunk[]> {
+  const index = new VectorIndex(embedder);
+  await index.addDocument("document", "", pages);
+  const results = await index.search(query, { maxResults });
+  return results.map(({ documentId: _id, filename: _name, ...chunk }) => chunk);
+}
@@ -194,6 +194,44 @@ export function registerFileManagerIpc(getTrayPopover: () => Electron.BrowserWin
         }
     })
 
+    // Save an exported document (DOCX, PDF, Markdown or HTML)
+    const documentFilters = {
+        docx: { name: 'Word Document', extensions: ['docx'] },
+        pdf: { name: 'PDF Document', extensions: ['pdf'] },
+        markdown: { name: 'Markdown', extensions: ['md'] },
+        html: { name: 'HTML Page', extensions: ['html', 'htm'] }
+    }
+
+    ipcMain.handle('document:save-local', async (event, input: unknown) => {
+        if (!validateIPCSender(event.sender)) return { success: false, error: 'Unauthorized' }
+        const { base64, suggestedName, format } = z.object({
+            base64: z.string().min(1),
+            suggestedName: z.string().min(1).optional(),
+            format: z.enum(['docx', 'pdf', 'markdown', 'html'])
+        }).parse(input)
+
+        const filter = documentFilters[format]
+        const result = await dialog.showSaveDialog({
+            title: 'Export document',
+            defaultPath: suggestedName || `document.${filter.extensions[0]}`,
+            filters: [filter]
+        })
+
+        if (result.canceled || !result.filePath) {
+            return { success: false, canceled: true }
+        }
+
+        try {
+            await fs.promises.writeFile(result.filePath, Buffer.from(base64, 'base64'))
+            return { success: true, path: result.filePath }
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to save file'
+            }
+        }
+    })
+
     // Pick local PDF files for viewing only (no import, just returns paths)
     ipcMain.handle('pdf:pick-local', async (event) => {
         if (!validateIPCSender(event.sender)) return { files: [] }
@@ -0,0 +1,624 @@
+/**
+ * Formula Engine
+ *
+ * Evaluates formulas over stored univer_data snapshots in the main process,
+ * so agent tools read the same computed values the renderer shows.
+ * - Cross-sheet references by sheet name or id
+ * - Defined names (SHEET_DEFINED_NAME_PLUGIN and legacy namedRanges)
+ * - Dependency-ordered recalculation: formula cells are evaluated on demand
+ *   and memoized, so precedents always resolve before their dependents
+ * - Circular references evaluate to 0 and are reported
+ */
+
+import {
+  columnIndexToLetter,
+  parseFormula,
+  parseRangeReference,
+  type CellRange,
+  type FormulaNode,
+} from "./formula-parser";
+import { FORMULA_FUNCTIONS, type FunctionContext } from "./formula-functions";
+import {
+  ERRORS,
+  FormulaError,
+  compareValues,
+  formatGeneral,
+  isError,
+  isMatrix,
+  matrix,
+  toNumber,
+  toScalar,
+  toText,
+  type FormulaValue,
+  type Matrix,
+  type Scalar,
+} from "./formula-values";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WorkbookCell {
+  v?: unknown;
+  f?: unknown;
+  t?: number;
+  [key: string]: unknown;
+}
+
+export interface WorkbookSheet {
+  id?: string;
+  name?: string;
+  cellData?: Record<string | number, Record<string | number, WorkbookCell>>;
+  [key: string]: unknown;
+}
+
+export interface WorkbookData {
+  sheets?: Record<string, WorkbookSheet>;
+  sheetOrder?: string[];
+  resources?: Array<{ name: string; data: string }>;
+  namedRanges?: Record<
+    string,
+    {
+      name?: string;
+      range?: {
+        sheetId?: string;
+        startRow: number;
+        endRow: number;
+        startColumn: number;
+        endColumn: number;
+      };
+    }
+  >;
+  [key: string]: unknown;
+}
+
+export interface FormulaEngineOptions {
+  /** Clock for TODAY/NOW (defaults to the current time) */
+  now?: Date;
+}
+
+export interface RecalculationResult {
+  /** Number of formula cells evaluated */
+  evaluated: number;
+  /** Formula cells whose stored value changed */
+  changed: number;
+  /** Cells that evaluated to an error, as Sheet!A1 */
+  errors: Array<{ cell: string; error: string }>;
+  /** Cells that are part of a circular reference, as Sheet!A1 */
+  circular: string[];
+}
+
+// Univer CellValueType
+const CELL_TYPE = { string: 1, number: 2, boolean: 3 } as const;
+
+const DEFINED_NAMES_RESOURCE = "SHEET_DEFINED_NAME_PLUGIN";
+
+const KNOWN_ERRORS = new Map<string, FormulaError>(
+  Object.values(ERRORS).map((error) => [error.code, error]),
+);
+
+// ============================================================================
+// Cell Helpers
+// ============================================================================
+
+/**
+ * Formula stored in a cell: `f`, or a `v` string starting with "="
+ * (older tool writes kept formulas in v)
+ */
+export function getCellFormula(cell: WorkbookCell | undefined): string | null {
+  if (!cell) return null;
+  if (typeof cell.f === "string" && cell.f.trim()) {
+    const formula = cell.f.trim();
+    return formula.startsWith("=") ? formula : `=${formula}`;
+  }
+  if (typeof cell.v === "string" && /^=.+/.test(cell.v.trim())) {
+    return cell.v.trim();
+  }
+  return null;
+}
+
+/**
+ * Literal cell value as a formula scalar
+ */
+function literalValue(cell: WorkbookCell | undefined): Scalar {
+  const value = cell?.v;
+  if (value === undefined || value === null || value === "") return null;
+  if (typeof value === "number") {
+    return cell?.t === CELL_TYPE.boolean ? value !== 0 : value;
+  }
+  if (typeof value === "boolean") return value;
+  if (typeof value !== "string") return String(value);
+
+  const error = KNOWN_ERRORS.get(value);
+  if (error) return error;
+  if (cell?.t === CELL_TYPE.boolean) return value.toUpperCase() === "TRUE";
+  // Tool writes often store numbers as text; only an explicit string type keeps them text
+  if (cell?.t !== CELL_TYPE.string && /^\s*-?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?\s*$/i.test(value)) {
+    return Number(value);
+  }
+  return value;
+}
+
+/**
+ * Convert an evaluation result to a stored cell value and Univer type
+ */
+export function toCellValue(value: Scalar): { v: string | number | boolean; t: number } {
+  if (isError(value)) return { v: value.code, t: CELL_TYPE.string };
+  if (typeof value === "number") return { v: value, t: CELL_TYPE.number };
+  if (typeof value === "boolean") return { v: value, t: CELL_TYPE.boolean };
+  if (value === null) return { v: 0, t: CELL_TYPE.number };
+  return { v: value, t: CELL_TYPE.string };
+}
+
+/**
+ * Computed value as plain JSON for tool results (errors as their code)
+ */
+export function toPlainValue(value: Scalar): string | number | boolean | null {
+  return isError(value) ? value.code : value;
+}
+
+/**
+ * Display text for a computed value (errors as their code)
+ */
+export function formatCellValue(value: Scalar): string {
+  if (value === null) return "";
+  if (typeof value === "number") return formatGeneral(value);
+  const text = toText(value);
+  return isError(text) ? text.code : text;
+}
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+interface EvaluationScope {
+  sheetId: string;
+  row?: number;
+  column?: number;
+}
+
+export class FormulaEngine {
+  private readonly now: Date;
+  private readonly sheetIdsByName = new Map<string, string>();
+  private readonly names = new Map<string, FormulaNode | null>();
+  private readonly extents = new Map<string, { rows: number; columns: number }>();
+  private readonly values = new Map<string, Scalar>();
+  private readonly evaluating = new Set<string>();
+  private readonly circular = new Set<string>();
+  private readonly parsed = new Map<string, FormulaNode | FormulaError>();
+  private definedNamesLoaded = false;
+
+  constructor(
+    private readonly workbook: WorkbookData,
+    options: FormulaEngineOptions = {},
+  ) {
+    this.now = options.now ?? new Date();
+    for (const [id, sheet] of Object.entries(workbook.sheets ?? {})) {
+      this.sheetIdsByName.set(id.toLowerCase(), id);
+      if (sheet.name) this.sheetIdsByName.set(sheet.name.toLowerCase(), id);
+    }
+  }
+
+  /**
+   * Sheet id for a sheet name or id (case-insensitive)
+   */
+  resolveSheetId(nameOrId: string): string | undefined {
+    return this.sheetIdsByName.get(nameOrId.toLowerCase());
+  }
+
+  /**
+   * Computed value of a cell (formulas evaluated, literals normalized)
+   */
+  getCellValue(sheetId: string, row: number, column: number): Scalar {
+    const cell = this.workbook.sheets?.[sheetId]?.cellData?.[row]?.[column];
+    const formula = getCellFormula(cell);
+    if (!formula) return literalValue(cell);
+
+    const key = this.cellKey(sheetId, row, column);
+    if (this.values.has(key)) return this.values.get(key) ?? null;
+
+    if (this.evaluating.has(key)) {
+      // Mark the cycle (this cell and everything evaluated since); Excel-style,
+      // circular cells evaluate to 0
+      let inCycle = false;
+      for (const member of this.evaluating) {
+        inCycle ||= member === key;
+        if (inCycle) this.circular.add(member);
+      }
+      return 0;
+    }
+
+    this.evaluating.add(key);
+    let result: Scalar;
+    try {
+      result = this.finalize(
+        this.evaluateNode(this.parse(formula), { sheetId, row, column }),
+      );
+    } finally {
+      this.evaluating.delete(key);
+    }
+    if (this.circular.has(key)) result = 0;
+
+    this.values.set(key, result);
+    return result;
+  }
+
+  /**
+   * Computed values of a range (rows of columns)
+   */
+  getRangeValues(sheetId: string, range: CellRange): Scalar[][] {
+    return this.readRange(sheetId, range).rows;
+  }
+
+  /**
+   * Evaluate a formula as if it were entered in a cell of sheetId
+   */
+  evaluate(
+    formula: string,
+    sheetId: string,
+    at?: { row: number; column: number },
+  ): Scalar {
+    return this.finalize(
+      this.evaluateNode(this.parse(formula), { sheetId, ...at }),
+    );
+  }
+
+  /**
+   * Evaluate every formula cell and write the results back into `v`
+   * (formulas are normalized into `f`)
+   */
+  recalculate(): RecalculationResult {
+    this.values.clear();
+    this.circular.clear();
+
+    const result: RecalculationResult = {
+      evaluated: 0,
+      changed: 0,
+      errors: [],
+      circular: [],
+    };
+
+    for (const [sheetId, sheet] of Object.entries(this.workbook.sheets ?? {})) {
+      for (const [rowKey, rowData] of Object.entries(sheet.cellData ?? {})) {
+        for (const [columnKey, cell] of Object.entries(rowData ?? {})) {
+          const formula = getCellFormula(cell);
+          if (!formula) continue;
+
+          const row = Number(rowKey);
+          const column = Number(columnKey);
+          const value = this.getCellValue(sheetId, row, column);
+          const stored = toCellValue(value);
+
+          result.evaluated++;
+          if (cell.v !== stored.v || cell.t !== stored.t) result.changed++;
+          cell.f = formula;
+          cell.v = stored.v;
+          cell.t = stored.t;
+
+          if (isError(value)) {
+            result.errors.push({
+              cell: this.describeCell(sheetId, row, column),
+              error: value.code,
+            });
+          }
+        }
+      }
+    }
+
+    result.circular = [...this.circular].map((key) => {
+      const [sheetId, position] = key.split("\u0000");
+      const [row, column] = position.split(":").map(Number);
+      return this.describeCell(sheetId, row, column);
+    });
+    return result;
+  }
+
+  /**
+   * Forget computed values after the workbook was edited
+   */
+  invalidate(): void {
+    this.values.clear();
+    this.circular.clear();
+    this.extents.clear();
+  }
+
+  // ==========================================================================
+  // Evaluation
+  // ==========================================================================
+
+  private parse(formula: string): FormulaNode | FormulaError {
+    let node = this.parsed.get(formula);
+    if (!node) {
+      try {
+        node = parseFormula(formula);
+      } catch {
+        node = ERRORS.name;
+      }
+      this.parsed.set(formula, node);
+    }
+    return node;
+  }
+
+  private finalize(value: FormulaValue): Scalar {
+    const scalar = toScalar(value);
+    if (scalar === null) return 0;
+    if (typeof scalar === "number" && !Number.isFinite(scalar)) return ERRORS.num;
+    return scalar;
+  }
+
+  private evaluateNode(
+    node: FormulaNode | FormulaError,
+    scope: EvaluationScope,
+  ): FormulaValue {
+    if (isError(node)) return node;
+
+    switch (node.type) {
+      case "number":
+      case "string":
+      case "boolean":
+        return node.value;
+      case "error":
+        return KNOWN_ERRORS.get(node.code) ?? new FormulaError(node.code);
+      case "empty":
+        return null;
+      case "reference": {
+        const sheetId = node.sheet ? this.resolveSheetId(node.sheet) : scope.sheetId;
+        return sheetId ? this.readRange(sheetId, node.range) : ERRORS.ref;
+      }
+      case "name":
+        return this.evaluateName(node.name, scope);
+      case "array":
+        return matrix(
+          node.rows.map((row) =>
+            row.map((item) => toScalar(this.evaluateNode(item, scope))),
+          ),
+        );
+      case "unary":
+        return this.mapValues([this.evaluateNode(node.operand, scope)], ([value]) => {
+          const n = toNumber(value);
+          if (isError(n)) return n;
+          if (node.operator === "-") return -n;
+          if (node.operator === "%") return n / 100;
+          return n;
+        });
+      case "binary":
+        return this.mapValues(
+          [
+            this.evaluateNode(node.left, scope),
+            this.evaluateNode(node.right, scope),
+          ],
+          ([left, right]) => applyOperator(node.operator, left, right),
+        );
+      case "call": {
+        const fn = FORMULA_FUNCTIONS[node.name];
+        if (!fn) return ERRORS.name;
+        const context: FunctionContext = {
+          evaluate: (arg) => this.evaluateNode(arg, scope),
+          now: this.now,
+          position:
+            scope.row !== undefined && scope.column !== undefined
+              ? { sheetId: scope.sheetId, row: scope.row, column: scope.column }
+              : undefined,
+        };
+        return fn(node.args, context);
+      }
+    }
+  }
+
+  /**
+   * Apply a scalar operation, broadcasting over ranges/arrays element-wise
+   */
+  private mapValues(
+    operands: FormulaValue[],
+    fn: (values: Scalar[]) => Scalar,
+  ): FormulaValue {
+    const matrices = operands.filter(
+      (value): value is Matrix =>
+        isMatrix(value) && (value.rows.length > 1 || (value.rows[0]?.length ?? 0) > 1),
+    );
+    if (matrices.length === 0) return fn(operands.map(toScalar));
+
+    const rows = Math.max(...matrices.map((m) => m.rows.length));
+    const columns = Math.max(...matrices.map((m) => m.rows[0]?.length ?? 0));
+    const at = (value: FormulaValue, r: number, c: number): Scalar => {
+      if (!isMatrix(value)) return value;
+      const row = value.rows.length === 1 ? value.rows[0] : value.rows[r];
+      if (!row) return ERRORS.na;
+      return (row.length === 1 ? row[0] : row[c]) ?? ERRORS.na;
+    };
+
+    const result: Scalar[][] = [];
+    for (let r = 0; r < rows; r++) {
+      const row: Scalar[] = [];
+      for (let c = 0; c < columns; c++) {
+        row.push(fn(operands.map((value) => at(value, r, c))));
+      }
+      result.push(row);
+    }
+    return matrix(result);
+  }
+
+  private readRange(sheetId: string, range: CellRange): Matrix {
+    const extent = this.getExtent(sheetId);
+    const endRow = range.wholeColumn ? extent.rows - 1 : range.endRow;
+    const endColumn = range.wholeRow ? extent.columns - 1 : range.endColumn;
+
+    const rows: Scalar[][] = [];
+    for (let row = range.startRow; row <= endRow; row++) {
+      const values: Scalar[] = [];
+      for (let column = range.startColumn; column <= endColumn; column++) {
+        values.push(this.getCellValue(sheetId, row, column));
+      }
+      rows.push(values);
+    }
+
+    return {
+      kind: "matrix",
+      rows: rows.length > 0 ? rows : [[null]],
+      origin: { sheetId, row: range.startRow, column: range.startColumn },
+    };
+  }
+
+  /**
+   * Used bounds of a sheet, for whole-row/column references
+   */
+  private getExtent(sheetId: string): { rows: number; columns: number } {
+    let extent = this.extents.get(sheetId);
+    if (!extent) {
+      extent = { rows: 0, columns: 0 };
+      const cellData = this.workbook.sheets?.[sheetId]?.cellData ?? {};
+      for (const [rowKey, rowData] of Object.entries(cellData)) {
+        const columns = Object.keys(rowData ?? {}).map(Number);
+        if (columns.length === 0) continue;
+        extent.rows = Math.max(extent.rows, Number(rowKey) + 1);
+        extent.columns = Math.max(extent.columns, Math.max(...columns) + 1);
+      }
+      this.extents.set(sheetId, extent);
+    }
+    return extent;
+  }
+
+  // ==========================================================================
+  // Defined Names
+  // ==========================================================================
+
+  private evaluateName(name: string, scope: EvaluationScope): FormulaValue {
+    this.loadDefinedNames();
+    const node = this.names.get(name.toLowerCase());
+    if (!node) return ERRORS.name;
+
+    const key = `name\u0000${name.toLowerCase()}`;
+    if (this.evaluating.has(key)) return ERRORS.ref;
+    this.evaluating.add(key);
+    try {
+      return this.evaluateNode(node, scope);
+    } finally {
+      this.evaluating.delete(key);
+    }
+  }
+
+  private loadDefinedNames(): void {
+    if (this.definedNamesLoaded) return;
+    this.definedNamesLoaded = true;
+
+    for (const [name, entry] of Object.entries(this.workbook.namedRanges ?? {})) {
+      const range = entry?.range;
+      if (!range) continue;
+      const sheetId =
+        (range.sheetId && this.resolveSheetId(range.sheetId)) ??
+        this.workbook.sheetOrder?.[0] ??
+        Object.keys(this.workbook.sheets ?? {})[0];
+      this.names.set((entry.name ?? name).toLowerCase(), {
+        type: "reference",
+        sheet: sheetId,
+        range: {
+          startRow: range.startRow,
+          endRow: range.endRow,
+          startColumn: range.startColumn,
+          endColumn: range.endColumn,
+        },
+      });
+    }
+
+    const resource = this.workbook.resources?.find(
+      (r) => r.name === DEFINED_NAMES_RESOURCE,
+    );
+    if (!resource?.data) return;
+
+    let definedNames: Record<string, { name?: string; formulaOrRefString?: string }>;
+    try {
+      definedNames = JSON.parse(resource.data);
+    } catch {
+      return;
+    }
+
+    for (const definedName of Object.values(definedNames ?? {})) {
+      if (!definedName?.name || !definedName.formulaOrRefString) continue;
+      const parsed = this.parse(definedName.formulaOrRefString);
+      this.names.set(definedName.name.toLowerCase(), isError(parsed) ? null : parsed);
+    }
+  }
+
+  private cellKey(sheetId: string, row: number, column: number): string {
+    return `${sheetId}\u0000${row}:${column}`;
+  }
+
+  private describeCell(sheetId: string, row: number, column: number): string {
+    const name = this.workbook.sheets?.[sheetId]?.name ?? sheetId;
+    return `${name}!${columnIndexToLetter(column)}${row + 1}`;
+  }
+}
+
+// ============================================================================
+// Operators
+// ============================================================================
+
+function applyOperator(operator: string, left: Scalar, right: Scalar): Scalar {
+  if (isError(left)) return left;
+  if (isError(right)) return right;
+
+  if (operator === "&") {
+    return `${toText(left) as string}${toText(right) as string}`;
+  }
+
+  if (["=", "<>", "<", ">", "<=", ">="].includes(operator)) {
+    const cmp = compareValues(left, right);
+    switch (operator) {
+      case "=":
+        return cmp === 0;
+      case "<>":
+        return cmp !== 0;
+      case "<":
+        return cmp < 0;
+      case ">":
+        return cmp > 0;
+      case "<=":
+        return cmp <= 0;
+      default:
+        return cmp >= 0;
+    }
+  }
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (isError(a)) return a;
+  if (isError(b)) return b;
+
+  switch (operator) {
+    case "+":
+      return a + b;
+    case "-":
+      return a - b;
+    case "*":
+      return a * b;
+    case "/":
+      return b === 0 ? ERRORS.div0 : a / b;
+    case "^": {
+      const result = a ** b;
+      return Number.isFinite(result) ? result : ERRORS.num;
+    }
+    default:
+      return ERRORS.value;
+  }
+}
+
+// ============================================================================
+// Convenience
+// ============================================================================
+
+/**
+ * Recalculate all formula cells of a workbook snapshot in place
+ */
+export function recalculateWorkbook(
+  workbook: WorkbookData,
+  options?: FormulaEngineOptions,
+): RecalculationResult {
+  return new FormulaEngine(workbook, options).recalculate();
+}
+
+/**
+ * Parse an A1 range for engine lookups ("A1", "B2:C10", "A:A")
+ */
+export function parseA1Range(range: string): CellRange | null {
+  return parseRangeReference(range.trim().replace(/^.*!/, ""));
+}
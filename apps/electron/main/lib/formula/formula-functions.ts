@@ -0,0 +1,1056 @@
+/**
+ * Formula Functions
+ *
+ * Built-in spreadsheet functions for the offline evaluator.
+ * Each function receives unevaluated argument nodes so that IF/IFERROR
+ * and friends only evaluate the branch they need.
+ */
+
+import type { FormulaNode } from "./formula-parser";
+import {
+  ERRORS,
+  FormulaError,
+  compareValues,
+  createCriterion,
+  dateToSerial,
+  flatten,
+  formatNumber,
+  isError,
+  isMatrix,
+  matrix,
+  nowSerial,
+  parseDateText,
+  serialToDate,
+  toBoolean,
+  toNumber,
+  toScalar,
+  toText,
+  todaySerial,
+  wildcardToRegExp,
+  type FormulaValue,
+  type Matrix,
+  type Scalar,
+} from "./formula-values";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FunctionContext {
+  /** Evaluate an argument node in the calling cell's context */
+  evaluate(node: FormulaNode): FormulaValue;
+  /** Cell being evaluated, when known */
+  position?: { sheetId: string; row: number; column: number };
+  /** Clock used by TODAY/NOW */
+  now: Date;
+}
+
+export type FormulaFunction = (
+  args: FormulaNode[],
+  context: FunctionContext,
+) => FormulaValue;
+
+// ============================================================================
+// Argument Helpers
+// ============================================================================
+
+type EagerFunction = (
+  values: FormulaValue[],
+  context: FunctionContext,
+) => FormulaValue;
+
+/**
+ * Wrap a function whose arguments are all evaluated up front
+ */
+const eager =
+  (fn: EagerFunction, minArgs = 0, maxArgs = Infinity): FormulaFunction =>
+  (args, context) => {
+    if (args.length < minArgs || args.length > maxArgs) return ERRORS.value;
+    return fn(
+      args.map((arg) =>
+        arg.type === "empty" ? null : context.evaluate(arg),
+      ),
+      context,
+    );
+  };
+
+const num = (value: FormulaValue | undefined): number | FormulaError =>
+  toNumber(value === undefined ? null : toScalar(value));
+
+const str = (value: FormulaValue | undefined): string | FormulaError =>
+  toText(value === undefined ? null : toScalar(value));
+
+const bool = (value: FormulaValue | undefined): boolean | FormulaError =>
+  toBoolean(value === undefined ? null : toScalar(value));
+
+const asMatrix = (value: FormulaValue): Matrix =>
+  isMatrix(value) ? value : matrix([[value]]);
+
+/**
+ * Numbers for aggregate functions: ranges contribute only numeric cells,
+ * direct scalar arguments are coerced (TRUE, "3")
+ */
+function collectNumbers(values: FormulaValue[]): number[] | FormulaError {
+  const numbers: number[] = [];
+  for (const value of values) {
+    if (isMatrix(value)) {
+      for (const cell of flatten(value)) {
+        if (isError(cell)) return cell;
+        if (typeof cell === "number") numbers.push(cell);
+      }
+      continue;
+    }
+    if (value === null) continue;
+    const n = toNumber(value);
+    if (isError(n)) return n;
+    numbers.push(n);
+  }
+  return numbers;
+}
+
+/**
+ * Map numeric arguments through fn, propagating the first error
+ */
+function withNumbers(
+  values: FormulaValue[],
+  fn: (...numbers: number[]) => FormulaValue,
+): FormulaValue {
+  const numbers: number[] = [];
+  for (const value of values) {
+    const n = num(value);
+    if (isError(n)) return n;
+    numbers.push(n);
+  }
+  return fn(...numbers);
+}
+
+const finite = (value: number): number | FormulaError =>
+  Number.isFinite(value) ? value : ERRORS.num;
+
+/**
+ * Round half away from zero, avoiding binary float artifacts (1.005 -> 1.01)
+ */
+function roundTo(
+  value: number,
+  digits: number,
+  mode: "nearest" | "up" | "down" = "nearest",
+): number {
+  const factor = 10 ** Math.trunc(digits);
+  const scaled = Number((Math.abs(value) * factor).toPrecision(15));
+  const rounded =
+    mode === "up"
+      ? Math.ceil(scaled)
+      : mode === "down"
+        ? Math.floor(scaled)
+        : Math.round(scaled);
+  return (Math.sign(value) * rounded) / factor;
+}
+
+// ============================================================================
+// Math & Statistics
+// ============================================================================
+
+const aggregate = (fn: (numbers: number[]) => FormulaValue): FormulaFunction =>
+  eager((values) => {
+    const numbers = collectNumbers(values);
+    return isError(numbers) ? numbers : fn(numbers);
+  }, 1);
+
+const sum = (numbers: number[]) => numbers.reduce((acc, n) => acc + n, 0);
+
+function median(numbers: number[]): FormulaValue {
+  if (numbers.length === 0) return ERRORS.num;
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const MATH_FUNCTIONS: Record<string, FormulaFunction> = {
+  SUM: aggregate(sum),
+  AVERAGE: aggregate((n) => (n.length ? sum(n) / n.length : ERRORS.div0)),
+  MIN: aggregate((n) => (n.length ? Math.min(...n) : 0)),
+  MAX: aggregate((n) => (n.length ? Math.max(...n) : 0)),
+  PRODUCT: aggregate((n) => n.reduce((acc, v) => acc * v, 1)),
+  MEDIAN: aggregate(median),
+  COUNT: eager(
+    (values) =>
+      values.reduce<number>((count, value) => {
+        if (isMatrix(value)) {
+          return count + flatten(value).filter((v) => typeof v === "number").length;
+        }
+        return count + (isError(toNumber(value)) || value === null ? 0 : 1);
+      }, 0),
+    1,
+  ),
+  COUNTA: eager(
+    (values) =>
+      values.reduce<number>(
+        (count, value) =>
+          count + flatten(value).filter((v) => v !== null).length,
+        0,
+      ),
+    1,
+  ),
+  COUNTBLANK: eager(
+    (values) =>
+      flatten(values[0]).filter((v) => v === null || v === "").length,
+    1,
+    1,
+  ),
+  SUMPRODUCT: eager((values) => {
+    const arrays = values.map(asMatrix);
+    const rows = arrays[0].rows.length;
+    const cols = arrays[0].rows[0]?.length ?? 0;
+    if (
+      arrays.some((a) => a.rows.length !== rows || (a.rows[0]?.length ?? 0) !== cols)
+    ) {
+      return ERRORS.value;
+    }
+    let total = 0;
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        let product = 1;
+        for (const array of arrays) {
+          const cell = array.rows[r][c];
+          if (isError(cell)) return cell;
+          product *= typeof cell === "number" ? cell : 0;
+        }
+        total += product;
+      }
+    }
+    return total;
+  }, 1),
+  ROUND: eager(
+    (v) => withNumbers([v[0], v[1] ?? 0], (n, d) => roundTo(n, d)),
+    1,
+    2,
+  ),
+  ROUNDUP: eager(
+    (v) => withNumbers([v[0], v[1] ?? 0], (n, d) => roundTo(n, d, "up")),
+    1,
+    2,
+  ),
+  ROUNDDOWN: eager(
+    (v) => withNumbers([v[0], v[1] ?? 0], (n, d) => roundTo(n, d, "down")),
+    1,
+    2,
+  ),
+  INT: eager((v) => withNumbers(v, Math.floor), 1, 1),
+  ABS: eager((v) => withNumbers(v, Math.abs), 1, 1),
+  SIGN: eager((v) => withNumbers(v, Math.sign), 1, 1),
+  SQRT: eager(
+    (v) => withNumbers(v, (n) => (n < 0 ? ERRORS.num : Math.sqrt(n))),
+    1,
+    1,
+  ),
+  POWER: eager((v) => withNumbers(v, (a, b) => finite(a ** b)), 2, 2),
+  EXP: eager((v) => withNumbers(v, (n) => finite(Math.exp(n))), 1, 1),
+  LN: eager(
+    (v) => withNumbers(v, (n) => (n <= 0 ? ERRORS.num : Math.log(n))),
+    1,
+    1,
+  ),
+  LOG10: eager(
+    (v) => withNumbers(v, (n) => (n <= 0 ? ERRORS.num : Math.log10(n))),
+    1,
+    1,
+  ),
+  LOG: eager(
+    (v) =>
+      withNumbers([v[0], v[1] ?? 10], (n, base) =>
+        n <= 0 || base <= 0 || base === 1
+          ? ERRORS.num
+          : Math.log(n) / Math.log(base),
+      ),
+    1,
+    2,
+  ),
+  MOD: eager(
+    (v) =>
+      withNumbers(v, (n, d) => (d === 0 ? ERRORS.div0 : n - d * Math.floor(n / d))),
+    2,
+    2,
+  ),
+  CEILING: eager(
+    (v) =>
+      withNumbers([v[0], v[1] ?? 1], (n, s) =>
+        s === 0 ? 0 : Math.ceil(Number((n / s).toPrecision(15))) * s,
+      ),
+    1,
+    2,
+  ),
+  FLOOR: eager(
+    (v) =>
+      withNumbers([v[0], v[1] ?? 1], (n, s) =>
+        s === 0 ? ERRORS.div0 : Math.floor(Number((n / s).toPrecision(15))) * s,
+      ),
+    1,
+    2,
+  ),
+  PI: eager(() => Math.PI, 0, 0),
+};
+
+// ============================================================================
+// Conditional Aggregates (SUMIF, COUNTIFS, ...)
+// ============================================================================
+
+/**
+ * Positions (row, column) of a range matching every criteria pair
+ */
+function matchCriteria(
+  pairs: Array<[FormulaValue, FormulaValue]>,
+): Array<[number, number]> | FormulaError {
+  const ranges = pairs.map(([range]) => asMatrix(range));
+  const rows = ranges[0].rows.length;
+  const cols = ranges[0].rows[0]?.length ?? 0;
+  if (
+    ranges.some((r) => r.rows.length !== rows || (r.rows[0]?.length ?? 0) !== cols)
+  ) {
+    return ERRORS.value;
+  }
+
+  const tests = pairs.map(([, criterion]) => createCriterion(toScalar(criterion)));
+  const matches: Array<[number, number]> = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (tests.every((test, i) => test(ranges[i].rows[r][c]))) {
+        matches.push([r, c]);
+      }
+    }
+  }
+  return matches;
+}
+
+function pairArgs(values: FormulaValue[]): Array<[FormulaValue, FormulaValue]> | null {
+  if (values.length === 0 || values.length % 2 !== 0) return null;
+  const pairs: Array<[FormulaValue, FormulaValue]> = [];
+  for (let i = 0; i < values.length; i += 2) pairs.push([values[i], values[i + 1]]);
+  return pairs;
+}
+
+/**
+ * Numbers in target at the matched positions
+ */
+function pickNumbers(
+  target: FormulaValue,
+  matches: Array<[number, number]>,
+): number[] | FormulaError {
+  const rows = asMatrix(target).rows;
+  const numbers: number[] = [];
+  for (const [r, c] of matches) {
+    const cell = rows[r]?.[c] ?? null;
+    if (isError(cell)) return cell;
+    if (typeof cell === "number") numbers.push(cell);
+  }
+  return numbers;
+}
+
+const conditional = (
+  fn: (numbers: number[]) => FormulaValue,
+): FormulaFunction =>
+  eager((values) => {
+    const [target, ...rest] = values;
+    const pairs = pairArgs(rest);
+    if (!pairs) return ERRORS.value;
+    const matches = matchCriteria(pairs);
+    if (isError(matches)) return matches;
+    const numbers = pickNumbers(target, matches);
+    return isError(numbers) ? numbers : fn(numbers);
+  }, 3);
+
+const singleConditional = (
+  fn: (numbers: number[]) => FormulaValue,
+): FormulaFunction =>
+  eager(
+    (values) => {
+      const [range, criterion, target = range] = values;
+      const matches = matchCriteria([[range, criterion]]);
+      if (isError(matches)) return matches;
+      const numbers = pickNumbers(target, matches);
+      return isError(numbers) ? numbers : fn(numbers);
+    },
+    2,
+    3,
+  );
+
+const average = (n: number[]) => (n.length ? sum(n) / n.length : ERRORS.div0);
+
+const CONDITIONAL_FUNCTIONS: Record<string, FormulaFunction> = {
+  SUMIF: singleConditional(sum),
+  AVERAGEIF: singleConditional(average),
+  SUMIFS: conditional(sum),
+  AVERAGEIFS: conditional(average),
+  MAXIFS: conditional((n) => (n.length ? Math.max(...n) : 0)),
+  MINIFS: conditional((n) => (n.length ? Math.min(...n) : 0)),
+  COUNTIF: eager(
+    (values) => {
+      const matches = matchCriteria([[values[0], values[1]]]);
+      return isError(matches) ? matches : matches.length;
+    },
+    2,
+    2,
+  ),
+  COUNTIFS: eager((values) => {
+    const pairs = pairArgs(values);
+    if (!pairs) return ERRORS.value;
+    const matches = matchCriteria(pairs);
+    return isError(matches) ? matches : matches.length;
+  }, 2),
+};
+
+// ============================================================================
+// Logical & Information
+// ============================================================================
+
+const isType =
+  (test: (value: Scalar) => boolean): FormulaFunction =>
+  eager((values) => test(toScalar(values[0])), 1, 1);
+
+const LOGICAL_FUNCTIONS: Record<string, FormulaFunction> = {
+  IF: (args, context) => {
+    if (args.length < 2 || args.length > 3) return ERRORS.value;
+    const condition = bool(context.evaluate(args[0]));
+    if (isError(condition)) return condition;
+    const branch = condition ? args[1] : args[2];
+    if (!branch) return false;
+    return branch.type === "empty" ? 0 : context.evaluate(branch);
+  },
+  IFS: (args, context) => {
+    if (args.length < 2 || args.length % 2 !== 0) return ERRORS.value;
+    for (let i = 0; i < args.length; i += 2) {
+      const condition = bool(context.evaluate(args[i]));
+      if (isError(condition)) return condition;
+      if (condition) return context.evaluate(args[i + 1]);
+    }
+    return ERRORS.na;
+  },
+  IFERROR: (args, context) => {
+    if (args.length !== 2) return ERRORS.value;
+    const value = context.evaluate(args[0]);
+    return isError(toScalar(value)) ? context.evaluate(args[1]) : value;
+  },
+  IFNA: (args, context) => {
+    if (args.length !== 2) return ERRORS.value;
+    const value = context.evaluate(args[0]);
+    const scalar = toScalar(value);
+    return isError(scalar) && scalar.code === ERRORS.na.code
+      ? context.evaluate(args[1])
+      : value;
+  },
+  SWITCH: (args, context) => {
+    if (args.length < 3) return ERRORS.value;
+    const subject = toScalar(context.evaluate(args[0]));
+    if (isError(subject)) return subject;
+    let i = 1;
+    for (; i + 1 < args.length; i += 2) {
+      const candidate = toScalar(context.evaluate(args[i]));
+      if (!isError(candidate) && compareValues(subject, candidate) === 0) {
+        return context.evaluate(args[i + 1]);
+      }
+    }
+    return i < args.length ? context.evaluate(args[i]) : ERRORS.na;
+  },
+  AND: eager((values) => {
+    let result = true;
+    for (const value of values.flatMap(flatten)) {
+      if (value === null || typeof value === "string") continue;
+      const b = toBoolean(value);
+      if (isError(b)) return b;
+      result = result && b;
+    }
+    return result;
+  }, 1),
+  OR: eager((values) => {
+    let result = false;
+    for (const value of values.flatMap(flatten)) {
+      if (value === null || typeof value === "string") continue;
+      const b = toBoolean(value);
+      if (isError(b)) return b;
+      result = result || b;
+    }
+    return result;
+  }, 1),
+  XOR: eager((values) => {
+    let trueCount = 0;
+    for (const value of values.flatMap(flatten)) {
+      if (value === null || typeof value === "string") continue;
+      const b = toBoolean(value);
+      if (isError(b)) return b;
+      if (b) trueCount++;
+    }
+    return trueCount % 2 === 1;
+  }, 1),
+  NOT: eager(
+    (values) => {
+      const b = bool(values[0]);
+      return isError(b) ? b : !b;
+    },
+    1,
+    1,
+  ),
+  TRUE: eager(() => true, 0, 0),
+  FALSE: eager(() => false, 0, 0),
+  ISBLANK: isType((v) => v === null),
+  ISNUMBER: isType((v) => typeof v === "number"),
+  ISTEXT: isType((v) => typeof v === "string"),
+  ISLOGICAL: isType((v) => typeof v === "boolean"),
+  ISERROR: isType((v) => isError(v)),
+  ISERR: isType((v) => isError(v) && v.code !== ERRORS.na.code),
+  ISNA: isType((v) => isError(v) && v.code === ERRORS.na.code),
+  NA: eager(() => ERRORS.na, 0, 0),
+};
+
+// ============================================================================
+// Lookup & Reference
+// ============================================================================
+
+type MatchMode = "exact" | "smaller" | "larger" | "wildcard";
+
+/**
+ * Index of lookup in a vector, or -1 when not found. Exact matches honour
+ * Excel wildcards only when asked to (VLOOKUP/MATCH do, XLOOKUP does not).
+ */
+function findInVector(
+  vector: Scalar[],
+  lookup: Scalar,
+  mode: MatchMode,
+  options: { reverse?: boolean; wildcards?: boolean } = {},
+): number {
+  const pattern =
+    typeof lookup === "string" &&
+    (mode === "wildcard" || (mode === "exact" && options.wildcards))
+      ? wildcardToRegExp(lookup)
+      : null;
+
+  let best = -1;
+  const order = vector.map((_, i) => i);
+  if (options.reverse) order.reverse();
+
+  for (const i of order) {
+    const value = vector[i];
+    if (value === null || isError(value)) continue;
+
+    if (pattern) {
+      if (typeof value === "string" && pattern.test(value)) return i;
+      continue;
+    }
+
+    const cmp = compareValues(value, lookup);
+    if (cmp === 0) return i;
+    if (typeof value !== typeof lookup) continue;
+    if (mode === "smaller" && cmp < 0) {
+      if (best === -1 || compareValues(value, vector[best]) > 0) best = i;
+    } else if (mode === "larger" && cmp > 0) {
+      if (best === -1 || compareValues(value, vector[best]) < 0) best = i;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Approximate match over data sorted ascending (VLOOKUP/MATCH type 1)
+ */
+function findSorted(vector: Scalar[], lookup: Scalar, descending = false): number {
+  let found = -1;
+  for (let i = 0; i < vector.length; i++) {
+    const value = vector[i];
+    if (value === null || isError(value) || typeof value !== typeof lookup) continue;
+    const cmp = compareValues(value, lookup);
+    if (descending ? cmp >= 0 : cmp <= 0) found = i;
+    else break;
+  }
+  return found;
+}
+
+const column = (m: Matrix, index: number): Scalar[] =>
+  m.rows.map((row) => row[index] ?? null);
+
+function tableLookup(values: FormulaValue[], horizontal: boolean): FormulaValue {
+  const lookup = toScalar(values[0]);
+  if (isError(lookup)) return lookup;
+  const table = asMatrix(values[1]);
+  const index = num(values[2]);
+  if (isError(index)) return index;
+  const approximate = values[3] === undefined ? true : bool(values[3]);
+  if (isError(approximate)) return approximate;
+
+  const width = horizontal ? table.rows.length : (table.rows[0]?.length ?? 0);
+  if (index < 1) return ERRORS.value;
+  if (index > width) return ERRORS.ref;
+
+  const keys = horizontal ? (table.rows[0] ?? []) : column(table, 0);
+  const found = approximate
+    ? findSorted(keys, lookup)
+    : findInVector(keys, lookup, "exact", { wildcards: true });
+  if (found === -1) return ERRORS.na;
+
+  const i = Math.trunc(index) - 1;
+  return (horizontal ? table.rows[i][found] : table.rows[found][i]) ?? null;
+}
+
+const LOOKUP_FUNCTIONS: Record<string, FormulaFunction> = {
+  VLOOKUP: eager((values) => tableLookup(values, false), 3, 4),
+  HLOOKUP: eager((values) => tableLookup(values, true), 3, 4),
+  MATCH: eager(
+    (values) => {
+      const lookup = toScalar(values[0]);
+      if (isError(lookup)) return lookup;
+      const vector = flatten(values[1]);
+      const type = values[2] === undefined ? 1 : num(values[2]);
+      if (isError(type)) return type;
+      const found =
+        type === 0
+          ? findInVector(vector, lookup, "exact", { wildcards: true })
+          : findSorted(vector, lookup, type < 0);
+      return found === -1 ? ERRORS.na : found + 1;
+    },
+    2,
+    3,
+  ),
+  XLOOKUP: (args, context) => {
+    if (args.length < 3 || args.length > 6) return ERRORS.value;
+    const lookup = toScalar(context.evaluate(args[0]));
+    if (isError(lookup)) return lookup;
+    const lookupArray = asMatrix(context.evaluate(args[1]));
+    const returnArray = asMatrix(context.evaluate(args[2]));
+    const optional = (i: number, fallback: number) => {
+      const arg = args[i];
+      return !arg || arg.type === "empty" ? fallback : num(context.evaluate(arg));
+    };
+    const matchMode = optional(4, 0);
+    const searchMode = optional(5, 1);
+    if (isError(matchMode)) return matchMode;
+    if (isError(searchMode)) return searchMode;
+
+    const vertical = lookupArray.rows.length > 1 || lookupArray.rows[0]?.length === 1;
+    const vector = vertical ? column(lookupArray, 0) : (lookupArray.rows[0] ?? []);
+    const mode: MatchMode =
+      matchMode === -1
+        ? "smaller"
+        : matchMode === 1
+          ? "larger"
+          : matchMode === 2
+            ? "wildcard"
+            : "exact";
+    const index = findInVector(vector, lookup, mode, {
+      reverse: searchMode < 0,
+    });
+
+    if (index === -1) {
+      const notFound = args[3];
+      return notFound && notFound.type !== "empty"
+        ? context.evaluate(notFound)
+        : ERRORS.na;
+    }
+
+    if (vertical) {
+      const row = returnArray.rows[index];
+      if (!row) return ERRORS.value;
+      return row.length === 1 ? row[0] : matrix([row]);
+    }
+    const values = column(returnArray, index);
+    return values.length === 1 ? values[0] : matrix(values.map((v) => [v]));
+  },
+  INDEX: eager(
+    (values) => {
+      const array = asMatrix(values[0]);
+      const first = num(values[1] ?? 0);
+      const second = values[2] === undefined ? undefined : num(values[2]);
+      if (isError(first)) return first;
+      if (second !== undefined && isError(second)) return second;
+
+      // INDEX(row_vector, n) indexes along the single row
+      let row = first;
+      let col = second ?? 0;
+      if (second === undefined && array.rows.length === 1) {
+        row = 1;
+        col = first;
+      } else if (second === undefined && (array.rows[0]?.length ?? 0) === 1) {
+        col = 1;
+      }
+
+      if (row < 0 || col < 0) return ERRORS.value;
+      if (row > array.rows.length || col > (array.rows[0]?.length ?? 0)) {
+        return ERRORS.ref;
+      }
+      if (row === 0 && col === 0) return array;
+      if (row === 0) return matrix(column(array, col - 1).map((v) => [v]));
+      if (col === 0) return matrix([array.rows[row - 1]]);
+      return array.rows[row - 1][col - 1] ?? null;
+    },
+    2,
+    3,
+  ),
+  CHOOSE: (args, context) => {
+    if (args.length < 2) return ERRORS.value;
+    const index = num(context.evaluate(args[0]));
+    if (isError(index)) return index;
+    const choice = args[Math.trunc(index)];
+    if (index < 1 || !choice) return ERRORS.value;
+    return context.evaluate(choice);
+  },
+  ROWS: eager((values) => asMatrix(values[0]).rows.length, 1, 1),
+  COLUMNS: eager((values) => asMatrix(values[0]).rows[0]?.length ?? 0, 1, 1),
+  ROW: eager(
+    (values, context) => {
+      if (values.length === 0) {
+        return context.position ? context.position.row + 1 : ERRORS.value;
+      }
+      const origin = isMatrix(values[0]) ? values[0].origin : undefined;
+      return origin ? origin.row + 1 : ERRORS.value;
+    },
+    0,
+    1,
+  ),
+  COLUMN: eager(
+    (values, context) => {
+      if (values.length === 0) {
+        return context.position ? context.position.column + 1 : ERRORS.value;
+      }
+      const origin = isMatrix(values[0]) ? values[0].origin : undefined;
+      return origin ? origin.column + 1 : ERRORS.value;
+    },
+    0,
+    1,
+  ),
+};
+
+// ============================================================================
+// Text
+// ============================================================================
+
+const textFn = (fn: (text: string) => FormulaValue): FormulaFunction =>
+  eager(
+    (values) => {
+      const text = str(values[0]);
+      return isError(text) ? text : fn(text);
+    },
+    1,
+    1,
+  );
+
+function joinText(values: Scalar[]): string | FormulaError {
+  let result = "";
+  for (const value of values) {
+    const text = toText(value);
+    if (isError(text)) return text;
+    result += text;
+  }
+  return result;
+}
+
+const TEXT_FUNCTIONS: Record<string, FormulaFunction> = {
+  TEXT: eager(
+    (values) => {
+      const value = toScalar(values[0]);
+      const format = str(values[1]);
+      if (isError(value)) return value;
+      if (isError(format)) return format;
+      const n = toNumber(value);
+      if (isError(n)) return toText(value);
+      return formatNumber(n, format);
+    },
+    2,
+    2,
+  ),
+  CONCATENATE: eager((values) => joinText(values.map(toScalar)), 1),
+  CONCAT: eager((values) => joinText(values.flatMap(flatten)), 1),
+  TEXTJOIN: eager((values) => {
+    const delimiter = str(values[0]);
+    const ignoreEmpty = bool(values[1]);
+    if (isError(delimiter)) return delimiter;
+    if (isError(ignoreEmpty)) return ignoreEmpty;
+    const parts: string[] = [];
+    for (const value of values.slice(2).flatMap(flatten)) {
+      const text = toText(value);
+      if (isError(text)) return text;
+      if (ignoreEmpty && text === "") continue;
+      parts.push(text);
+    }
+    return parts.join(delimiter);
+  }, 3),
+  LEFT: eager(
+    (values) => {
+      const text = str(values[0]);
+      const count = values[1] === undefined ? 1 : num(values[1]);
+      if (isError(text)) return text;
+      if (isError(count)) return count;
+      return count < 0 ? ERRORS.value : text.substring(0, count);
+    },
+    1,
+    2,
+  ),
+  RIGHT: eager(
+    (values) => {
+      const text = str(values[0]);
+      const count = values[1] === undefined ? 1 : num(values[1]);
+      if (isError(text)) return text;
+      if (isError(count)) return count;
+      if (count < 0) return ERRORS.value;
+      return count === 0 ? "" : text.slice(-count);
+    },
+    1,
+    2,
+  ),
+  MID: eager(
+    (values) => {
+      const text = str(values[0]);
+      if (isError(text)) return text;
+      return withNumbers([values[1], values[2]], (start, count) =>
+        start < 1 || count < 0
+          ? ERRORS.value
+          : text.substring(start - 1, start - 1 + count),
+      );
+    },
+    3,
+    3,
+  ),
+  LEN: textFn((text) => text.length),
+  UPPER: textFn((text) => text.toUpperCase()),
+  LOWER: textFn((text) => text.toLowerCase()),
+  PROPER: textFn((text) =>
+    text.toLowerCase().replace(/(^|[^\p{L}])(\p{L})/gu, (_, p, c) => p + c.toUpperCase()),
+  ),
+  TRIM: textFn((text) => text.trim().replace(/ {2,}/g, " ")),
+  VALUE: textFn((text) => toNumber(text)),
+  DATEVALUE: textFn((text) => {
+    const serial = parseDateText(text.trim());
+    return serial === null ? ERRORS.value : Math.floor(serial);
+  }),
+  SUBSTITUTE: eager(
+    (values) => {
+      const [text, search, replacement] = values.slice(0, 3).map(str);
+      if (isError(text)) return text;
+      if (isError(search)) return search;
+      if (isError(replacement)) return replacement;
+      if (search === "") return text;
+      if (values[3] === undefined) return text.split(search).join(replacement);
+
+      const instance = num(values[3]);
+      if (isError(instance)) return instance;
+      if (instance < 1) return ERRORS.value;
+      let index = -1;
+      for (let i = 0; i < instance; i++) {
+        index = text.indexOf(search, index + 1);
+        if (index === -1) return text;
+      }
+      return text.substring(0, index) + replacement + text.substring(index + search.length);
+    },
+    3,
+    4,
+  ),
+  REPLACE: eager(
+    (values) => {
+      const text = str(values[0]);
+      const replacement = str(values[3]);
+      if (isError(text)) return text;
+      if (isError(replacement)) return replacement;
+      return withNumbers([values[1], values[2]], (start, count) =>
+        start < 1 || count < 0
+          ? ERRORS.value
+          : text.substring(0, start - 1) + replacement + text.substring(start - 1 + count),
+      );
+    },
+    4,
+    4,
+  ),
+  FIND: eager(
+    (values) => {
+      const search = str(values[0]);
+      const text = str(values[1]);
+      const start = values[2] === undefined ? 1 : num(values[2]);
+      if (isError(search)) return search;
+      if (isError(text)) return text;
+      if (isError(start)) return start;
+      const index = text.indexOf(search, start - 1);
+      return start < 1 || index === -1 ? ERRORS.value : index + 1;
+    },
+    2,
+    3,
+  ),
+  SEARCH: eager(
+    (values) => {
+      const search = str(values[0]);
+      const text = str(values[1]);
+      const start = values[2] === undefined ? 1 : num(values[2]);
+      if (isError(search)) return search;
+      if (isError(text)) return text;
+      if (isError(start)) return start;
+      const pattern = wildcardToRegExp(search).source.slice(1, -1);
+      const match = new RegExp(pattern, "i").exec(text.substring(start - 1));
+      return start < 1 || !match ? ERRORS.value : match.index + start;
+    },
+    2,
+    3,
+  ),
+  REPT: eager(
+    (values) => {
+      const text = str(values[0]);
+      const count = num(values[1]);
+      if (isError(text)) return text;
+      if (isError(count)) return count;
+      return count < 0 ? ERRORS.value : text.repeat(Math.trunc(count));
+    },
+    2,
+    2,
+  ),
+  EXACT: eager(
+    (values) => {
+      const a = str(values[0]);
+      const b = str(values[1]);
+      if (isError(a)) return a;
+      if (isError(b)) return b;
+      return a === b;
+    },
+    2,
+    2,
+  ),
+};
+
+// ============================================================================
+// Date & Time
+// ============================================================================
+
+const datePart = (fn: (date: Date) => number): FormulaFunction =>
+  eager(
+    (values) => withNumbers(values, (serial) => (serial < 0 ? ERRORS.num : fn(serialToDate(serial)))),
+    1,
+    1,
+  );
+
+/**
+ * Shift a serial by whole months, clamping the day (EDATE semantics)
+ */
+function addMonths(serial: number, months: number, endOfMonth = false): number {
+  const date = serialToDate(Math.floor(serial));
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + Math.trunc(months);
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const day = endOfMonth ? lastDay : Math.min(date.getUTCDate(), lastDay);
+  const target = new Date(Date.UTC(year, month, day));
+  return dateToSerial(target.getUTCFullYear(), target.getUTCMonth() + 1, day);
+}
+
+function dateDif(start: number, end: number, unit: string): FormulaValue {
+  if (start > end) return ERRORS.num;
+  const a = serialToDate(Math.floor(start));
+  const b = serialToDate(Math.floor(end));
+  let months =
+    (b.getUTCFullYear() - a.getUTCFullYear()) * 12 +
+    (b.getUTCMonth() - a.getUTCMonth());
+  if (b.getUTCDate() < a.getUTCDate()) months--;
+
+  switch (unit.toUpperCase()) {
+    case "Y":
+      return Math.floor(months / 12);
+    case "M":
+      return months;
+    case "D":
+      return Math.floor(end) - Math.floor(start);
+    case "YM":
+      return months % 12;
+    case "MD":
+      return Math.floor(end) - addMonths(start, months);
+    case "YD": {
+      const years = Math.floor(months / 12);
+      return Math.floor(end) - addMonths(start, years * 12);
+    }
+    default:
+      return ERRORS.num;
+  }
+}
+
+const DATE_FUNCTIONS: Record<string, FormulaFunction> = {
+  TODAY: eager((_, context) => todaySerial(context.now), 0, 0),
+  NOW: eager((_, context) => nowSerial(context.now), 0, 0),
+  DATE: eager(
+    (values) =>
+      withNumbers(values, (y, m, d) => {
+        const year = y < 1900 ? y + 1900 : y;
+        const date = new Date(Date.UTC(Math.trunc(year), Math.trunc(m) - 1, Math.trunc(d)));
+        const serial = dateToSerial(
+          date.getUTCFullYear(),
+          date.getUTCMonth() + 1,
+          date.getUTCDate(),
+        );
+        return serial < 0 ? ERRORS.num : serial;
+      }),
+    3,
+    3,
+  ),
+  TIME: eager(
+    (values) =>
+      withNumbers(values, (h, m, s) => {
+        const seconds = Math.trunc(h) * 3600 + Math.trunc(m) * 60 + Math.trunc(s);
+        return seconds < 0 ? ERRORS.num : (seconds % 86400) / 86400;
+      }),
+    3,
+    3,
+  ),
+  YEAR: datePart((d) => d.getUTCFullYear()),
+  MONTH: datePart((d) => d.getUTCMonth() + 1),
+  DAY: datePart((d) => d.getUTCDate()),
+  HOUR: datePart((d) => d.getUTCHours()),
+  MINUTE: datePart((d) => d.getUTCMinutes()),
+  SECOND: datePart((d) => d.getUTCSeconds()),
+  WEEKDAY: eager(
+    (values) =>
+      withNumbers([values[0], values[1] ?? 1], (serial, type) => {
+        const day = serialToDate(serial).getUTCDay();
+        if (type === 1) return day + 1;
+        if (type === 2) return ((day + 6) % 7) + 1;
+        if (type === 3) return (day + 6) % 7;
+        return ERRORS.num;
+      }),
+    1,
+    2,
+  ),
+  EDATE: eager(
+    (values) => withNumbers(values, (serial, months) => addMonths(serial, months)),
+    2,
+    2,
+  ),
+  EOMONTH: eager(
+    (values) =>
+      withNumbers(values, (serial, months) => addMonths(serial, months, true)),
+    2,
+    2,
+  ),
+  DAYS: eager(
+    (values) => withNumbers(values, (end, start) => Math.floor(end) - Math.floor(start)),
+    2,
+    2,
+  ),
+  DATEDIF: eager(
+    (values) => {
+      const unit = str(values[2]);
+      if (isError(unit)) return unit;
+      return withNumbers([values[0], values[1]], (start, end) =>
+        dateDif(start, end, unit),
+      );
+    },
+    3,
+    3,
+  ),
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  ...MATH_FUNCTIONS,
+  ...CONDITIONAL_FUNCTIONS,
+  ...LOGICAL_FUNCTIONS,
+  ...LOOKUP_FUNCTIONS,
+  ...TEXT_FUNCTIONS,
+  ...DATE_FUNCTIONS,
+};
+
+/**
+ * Names of all functions the offline evaluator supports
+ */
+export function getSupportedFunctions(): string[] {
+  return Object.keys(FORMULA_FUNCTIONS).sort();
+}
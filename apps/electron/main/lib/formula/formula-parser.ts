@@ -0,0 +1,506 @@
+/**
+ * Formula Parser
+ *
+ * Tokenizes and parses Excel-style formulas into an AST.
+ * - A1 references with $ anchors, ranges, whole rows/columns
+ * - Cross-sheet references (Sheet1!A1, 'My Sheet'!A1:B5)
+ * - Defined names, function calls, array literals {1,2;3,4}
+ * - Excel operator precedence (negation binds tighter than ^)
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CellRange {
+  startRow: number;
+  startColumn: number;
+  endRow: number;
+  endColumn: number;
+  /** Whole-column reference (A:A) - rows resolved against the sheet extent */
+  wholeColumn?: boolean;
+  /** Whole-row reference (1:1) - columns resolved against the sheet extent */
+  wholeRow?: boolean;
+}
+
+export type FormulaNode =
+  | { type: "number"; value: number }
+  | { type: "string"; value: string }
+  | { type: "boolean"; value: boolean }
+  | { type: "error"; code: string }
+  | { type: "reference"; sheet?: string; range: CellRange }
+  | { type: "name"; name: string }
+  | { type: "unary"; operator: "-" | "+" | "%"; operand: FormulaNode }
+  | {
+      type: "binary";
+      operator: string;
+      left: FormulaNode;
+      right: FormulaNode;
+    }
+  | { type: "call"; name: string; args: FormulaNode[] }
+  | { type: "array"; rows: FormulaNode[][] }
+  | { type: "empty" };
+
+export class FormulaParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FormulaParseError";
+  }
+}
+
+type Token =
+  | { kind: "number"; value: number }
+  | { kind: "string"; value: string }
+  | { kind: "error"; value: string }
+  | { kind: "reference"; sheet?: string; text: string }
+  | { kind: "word"; value: string }
+  | { kind: "operator"; value: string }
+  | { kind: "paren"; value: "(" | ")" }
+  | { kind: "brace"; value: "{" | "}" }
+  | { kind: "separator"; value: "," | ";" }
+  | { kind: "end" };
+
+// ============================================================================
+// Reference Helpers
+// ============================================================================
+
+const ERROR_CODES = [
+  "#NULL!",
+  "#DIV/0!",
+  "#VALUE!",
+  "#REF!",
+  "#NAME?",
+  "#NUM!",
+  "#N/A",
+  "#SPILL!",
+  "#CALC!",
+];
+
+const CELL_RE = /^\$?([A-Z]{1,3})\$?(\d+)$/i;
+const COLUMN_RE = /^\$?([A-Z]{1,3})$/i;
+const ROW_RE = /^\$?(\d+)$/;
+
+/**
+ * Column letters to 0-based index (A -> 0, AA -> 26)
+ */
+export function columnLetterToIndex(letters: string): number {
+  return (
+    letters
+      .toUpperCase()
+      .split("")
+      .reduce((acc, char) => acc * 26 + (char.charCodeAt(0) - 64), 0) - 1
+  );
+}
+
+/**
+ * 0-based column index to letters (0 -> A, 26 -> AA)
+ */
+export function columnIndexToLetter(index: number): string {
+  let result = "";
+  let i = index + 1;
+  while (i > 0) {
+    const remainder = (i - 1) % 26;
+    result = String.fromCharCode(65 + remainder) + result;
+    i = Math.floor((i - 1) / 26);
+  }
+  return result;
+}
+
+/**
+ * Parse "A1", "$B$2:C10", "A:C" or "3:5" into a 0-based range
+ */
+export function parseRangeReference(text: string): CellRange | null {
+  const [startText, endText = startText] = text.split(":");
+
+  const startCell = startText.match(CELL_RE);
+  const endCell = endText.match(CELL_RE);
+  if (startCell && endCell) {
+    const a = {
+      row: Number(startCell[2]) - 1,
+      col: columnLetterToIndex(startCell[1]),
+    };
+    const b = {
+      row: Number(endCell[2]) - 1,
+      col: columnLetterToIndex(endCell[1]),
+    };
+    return {
+      startRow: Math.min(a.row, b.row),
+      startColumn: Math.min(a.col, b.col),
+      endRow: Math.max(a.row, b.row),
+      endColumn: Math.max(a.col, b.col),
+    };
+  }
+
+  if (text.includes(":")) {
+    const startCol = startText.match(COLUMN_RE);
+    const endCol = endText.match(COLUMN_RE);
+    if (startCol && endCol) {
+      const a = columnLetterToIndex(startCol[1]);
+      const b = columnLetterToIndex(endCol[1]);
+      return {
+        startRow: 0,
+        startColumn: Math.min(a, b),
+        endRow: 0,
+        endColumn: Math.max(a, b),
+        wholeColumn: true,
+      };
+    }
+
+    const startRow = startText.match(ROW_RE);
+    const endRow = endText.match(ROW_RE);
+    if (startRow && endRow) {
+      const a = Number(startRow[1]) - 1;
+      const b = Number(endRow[1]) - 1;
+      return {
+        startRow: Math.min(a, b),
+        startColumn: 0,
+        endRow: Math.max(a, b),
+        endColumn: 0,
+        wholeRow: true,
+      };
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+const REFERENCE_CHARS = /[A-Za-z0-9_$.:]/;
+const WORD_START = /[A-Za-z_\\]/;
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readWhile = (test: (char: string) => boolean): string => {
+    const start = i;
+    while (i < formula.length && test(formula[i])) i++;
+    return formula.substring(start, i);
+  };
+
+  while (i < formula.length) {
+    const char = formula[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Numbers: 12, 1.5, .5, 1e-3
+    if (/\d/.test(char) || (char === "." && /\d/.test(formula[i + 1] ?? ""))) {
+      const start = i;
+      readWhile((c) => /[\d.]/.test(c));
+      if (/[eE]/.test(formula[i] ?? "") && /[-+\d]/.test(formula[i + 1] ?? "")) {
+        i++;
+        if (formula[i] === "-" || formula[i] === "+") i++;
+        readWhile((c) => /\d/.test(c));
+      }
+      const text = formula.substring(start, i);
+
+      // Row ranges like 1:3
+      if (formula[i] === ":" && /\$?\d/.test(formula[i + 1] ?? "")) {
+        i++;
+        const rest = readWhile((c) => /[\d$]/.test(c));
+        tokens.push({ kind: "reference", text: `${text}:${rest}` });
+        continue;
+      }
+
+      tokens.push({ kind: "number", value: Number(text) });
+      continue;
+    }
+
+    // Strings with doubled quotes as escapes
+    if (char === '"') {
+      let value = "";
+      i++;
+      while (i < formula.length) {
+        if (formula[i] === '"') {
+          if (formula[i + 1] === '"') {
+            value += '"';
+            i += 2;
+            continue;
+          }
+          break;
+        }
+        value += formula[i++];
+      }
+      if (formula[i] !== '"') throw new FormulaParseError("Unterminated string");
+      i++;
+      tokens.push({ kind: "string", value });
+      continue;
+    }
+
+    // Quoted sheet names: 'My Sheet'!A1
+    if (char === "'") {
+      let sheet = "";
+      i++;
+      while (i < formula.length) {
+        if (formula[i] === "'") {
+          if (formula[i + 1] === "'") {
+            sheet += "'";
+            i += 2;
+            continue;
+          }
+          break;
+        }
+        sheet += formula[i++];
+      }
+      if (formula[i] !== "'" || formula[i + 1] !== "!") {
+        throw new FormulaParseError("Invalid sheet reference");
+      }
+      i += 2;
+      const text = readWhile((c) => REFERENCE_CHARS.test(c));
+      tokens.push({ kind: "reference", sheet, text });
+      continue;
+    }
+
+    // Error literals
+    if (char === "#") {
+      const code = ERROR_CODES.find((c) =>
+        formula.toUpperCase().startsWith(c, i),
+      );
+      if (!code) throw new FormulaParseError(`Unknown error literal at ${i}`);
+      i += code.length;
+      tokens.push({ kind: "error", value: code });
+      continue;
+    }
+
+    // $A$1 style references
+    if (char === "$") {
+      const text = readWhile((c) => REFERENCE_CHARS.test(c));
+      tokens.push({ kind: "reference", text });
+      continue;
+    }
+
+    // Words: function names, references, names, booleans, Sheet1!A1
+    if (WORD_START.test(char)) {
+      const word = readWhile((c) => REFERENCE_CHARS.test(c) || c === "\\");
+      if (formula[i] === "!") {
+        i++;
+        const text = readWhile((c) => REFERENCE_CHARS.test(c));
+        tokens.push({ kind: "reference", sheet: word, text });
+      } else if (parseRangeReference(word) && formula[i] !== "(") {
+        tokens.push({ kind: "reference", text: word });
+      } else {
+        tokens.push({ kind: "word", value: word });
+      }
+      continue;
+    }
+
+    const two = formula.substring(i, i + 2);
+    if (two === "<=" || two === ">=" || two === "<>") {
+      tokens.push({ kind: "operator", value: two });
+      i += 2;
+      continue;
+    }
+    if ("+-*/^&=<>%".includes(char)) {
+      tokens.push({ kind: "operator", value: char });
+      i++;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ kind: "paren", value: char });
+      i++;
+      continue;
+    }
+    if (char === "{" || char === "}") {
+      tokens.push({ kind: "brace", value: char });
+      i++;
+      continue;
+    }
+    if (char === "," || char === ";") {
+      tokens.push({ kind: "separator", value: char });
+      i++;
+      continue;
+    }
+
+    throw new FormulaParseError(`Unexpected character "${char}" at ${i}`);
+  }
+
+  tokens.push({ kind: "end" });
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+// Binary operator precedence (higher binds tighter)
+const PRECEDENCE: Record<string, number> = {
+  "=": 1,
+  "<>": 1,
+  "<": 1,
+  ">": 1,
+  "<=": 1,
+  ">=": 1,
+  "&": 2,
+  "+": 3,
+  "-": 3,
+  "*": 4,
+  "/": 4,
+  "^": 5,
+};
+
+/**
+ * Parse a formula (with or without the leading "=") into an AST
+ */
+export function parseFormula(formula: string): FormulaNode {
+  const source = formula.trim().replace(/^=/, "");
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+
+  const expect = (kind: Token["kind"], value?: string) => {
+    const token = next();
+    if (
+      token.kind !== kind ||
+      (value !== undefined && "value" in token && token.value !== value)
+    ) {
+      throw new FormulaParseError(
+        `Expected ${value ?? kind} but found ${"value" in token ? token.value : token.kind}`,
+      );
+    }
+    return token;
+  };
+
+  const parseExpression = (minPrecedence = 1): FormulaNode => {
+    let left = parseUnary();
+
+    for (;;) {
+      const token = peek();
+      if (token.kind !== "operator" || !(token.value in PRECEDENCE)) break;
+      const precedence = PRECEDENCE[token.value];
+      if (precedence < minPrecedence) break;
+      next();
+      // All binary operators are left-associative in Excel (including ^)
+      const right = parseExpression(precedence + 1);
+      left = { type: "binary", operator: token.value, left, right };
+    }
+
+    return left;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    const token = peek();
+    if (
+      token.kind === "operator" &&
+      (token.value === "-" || token.value === "+")
+    ) {
+      next();
+      return { type: "unary", operator: token.value, operand: parseUnary() };
+    }
+    return parsePostfix();
+  };
+
+  const parsePostfix = (): FormulaNode => {
+    let node = parsePrimary();
+    while (peek().kind === "operator" && (peek() as { value: string }).value === "%") {
+      next();
+      node = { type: "unary", operator: "%", operand: node };
+    }
+    return node;
+  };
+
+  const parseArguments = (): FormulaNode[] => {
+    const args: FormulaNode[] = [];
+    if (peek().kind === "paren" && (peek() as { value: string }).value === ")") {
+      next();
+      return args;
+    }
+    for (;;) {
+      const token = peek();
+      if (
+        token.kind === "separator" ||
+        (token.kind === "paren" && token.value === ")")
+      ) {
+        args.push({ type: "empty" });
+      } else {
+        args.push(parseExpression());
+      }
+      const separator = next();
+      if (separator.kind === "paren" && separator.value === ")") return args;
+      if (separator.kind !== "separator" || separator.value !== ",") {
+        throw new FormulaParseError("Expected , or ) in argument list");
+      }
+    }
+  };
+
+  const parseArray = (): FormulaNode => {
+    const rows: FormulaNode[][] = [[]];
+    for (;;) {
+      rows[rows.length - 1].push(parseUnary());
+      const token = next();
+      if (token.kind === "brace" && token.value === "}") break;
+      if (token.kind !== "separator") {
+        throw new FormulaParseError("Expected , ; or } in array literal");
+      }
+      if (token.value === ";") rows.push([]);
+    }
+    return { type: "array", rows };
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = next();
+
+    switch (token.kind) {
+      case "number":
+        return { type: "number", value: token.value };
+      case "string":
+        return { type: "string", value: token.value };
+      case "error":
+        return { type: "error", code: token.value };
+      case "reference": {
+        const range = parseRangeReference(token.text);
+        if (!range) {
+          // Sheet-qualified names (Sheet1!Total) are resolved as names
+          if (token.sheet) return { type: "error", code: "#REF!" };
+          return { type: "name", name: token.text };
+        }
+        return { type: "reference", sheet: token.sheet, range };
+      }
+      case "word": {
+        const upper = token.value.toUpperCase();
+        if (peek().kind === "paren" && (peek() as { value: string }).value === "(") {
+          next();
+          return {
+            type: "call",
+            name: upper.replace(/^_XLFN\./, ""),
+            args: parseArguments(),
+          };
+        }
+        if (upper === "TRUE" || upper === "FALSE") {
+          return { type: "boolean", value: upper === "TRUE" };
+        }
+        return { type: "name", name: token.value };
+      }
+      case "paren":
+        if (token.value === "(") {
+          const inner = parseExpression();
+          expect("paren", ")");
+          return inner;
+        }
+        break;
+      case "brace":
+        if (token.value === "{") return parseArray();
+        break;
+    }
+
+    throw new FormulaParseError(
+      `Unexpected ${"value" in token ? token.value : token.kind}`,
+    );
+  };
+
+  const ast = parseExpression();
+  if (peek().kind !== "end") {
+    const token = peek();
+    throw new FormulaParseError(
+      `Unexpected ${"value" in token ? token.value : token.kind}`,
+    );
+  }
+  return ast;
+}
@@ -0,0 +1,463 @@
+/**
+ * Formula Values
+ *
+ * Value model shared by the evaluator and the function library:
+ * - Scalars (number, string, boolean, empty) and Excel errors
+ * - Matrices for ranges and array results
+ * - Coercion and comparison rules matching Excel
+ * - Date serials (1900 system) and TEXT() number formats
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export class FormulaError {
+  readonly kind = "error";
+
+  constructor(readonly code: string) {}
+
+  toString(): string {
+    return this.code;
+  }
+}
+
+export const ERRORS = {
+  div0: new FormulaError("#DIV/0!"),
+  value: new FormulaError("#VALUE!"),
+  ref: new FormulaError("#REF!"),
+  name: new FormulaError("#NAME?"),
+  num: new FormulaError("#NUM!"),
+  na: new FormulaError("#N/A"),
+} as const;
+
+/** A single cell value; null is an empty cell */
+export type Scalar = number | string | boolean | null | FormulaError;
+
+/** Range or array value (rows of columns) */
+export interface Matrix {
+  kind: "matrix";
+  rows: Scalar[][];
+  /** Origin of a range reference (for ROW/COLUMN) */
+  origin?: { sheetId: string; row: number; column: number };
+}
+
+export type FormulaValue = Scalar | Matrix;
+
+// ============================================================================
+// Guards & Matrix Helpers
+// ============================================================================
+
+export const isError = (value: unknown): value is FormulaError =>
+  value instanceof FormulaError;
+
+export const isMatrix = (value: unknown): value is Matrix =>
+  !!value && typeof value === "object" && (value as Matrix).kind === "matrix";
+
+export const matrix = (rows: Scalar[][]): Matrix => ({ kind: "matrix", rows });
+
+/**
+ * All values of a matrix (row-major) or the scalar itself
+ */
+export function flatten(value: FormulaValue): Scalar[] {
+  return isMatrix(value) ? value.rows.flat() : [value];
+}
+
+/**
+ * Top-left value of a matrix (implicit intersection is not modelled)
+ */
+export function toScalar(value: FormulaValue): Scalar {
+  if (!isMatrix(value)) return value;
+  return value.rows[0]?.[0] ?? null;
+}
+
+// ============================================================================
+// Coercion
+// ============================================================================
+
+/**
+ * Coerce to number the way arithmetic operators do
+ */
+export function toNumber(value: Scalar): number | FormulaError {
+  if (isError(value)) return value;
+  if (value === null || value === "") return 0;
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+
+  const text = value.trim();
+  const percent = text.endsWith("%");
+  const numeric = Number(text.replace(/[,$%]/g, "").trim());
+  if (text && !Number.isNaN(numeric)) return percent ? numeric / 100 : numeric;
+
+  const date = parseDateText(text);
+  return date ?? ERRORS.value;
+}
+
+export function toText(value: Scalar): string | FormulaError {
+  if (isError(value)) return value;
+  if (value === null) return "";
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  if (typeof value === "number") return formatGeneral(value);
+  return value;
+}
+
+export function toBoolean(value: Scalar): boolean | FormulaError {
+  if (isError(value)) return value;
+  if (value === null) return false;
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  const upper = value.toUpperCase();
+  if (upper === "TRUE") return true;
+  if (upper === "FALSE") return false;
+  return ERRORS.value;
+}
+
+/**
+ * Numbers as Excel's General format shows them (no float noise)
+ */
+export function formatGeneral(value: number): string {
+  if (Number.isInteger(value)) return String(value);
+  return String(Number(value.toPrecision(15)));
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+// Excel orders types: numbers < text < booleans
+const typeRank = (value: Scalar): number =>
+  typeof value === "number" ? 0 : typeof value === "string" ? 1 : 2;
+
+/**
+ * Compare two scalars (-1, 0, 1). Text compares case-insensitively.
+ */
+export function compareValues(a: Scalar, b: Scalar): number {
+  // Empty cells compare as the empty value of the other side's type
+  const emptyLike = (other: Scalar): Scalar =>
+    typeof other === "string" ? "" : typeof other === "boolean" ? false : 0;
+  const left = a === null ? emptyLike(b) : a;
+  const right = b === null ? emptyLike(left) : b;
+
+  const rankDiff = typeRank(left) - typeRank(right);
+  if (rankDiff !== 0) return Math.sign(rankDiff);
+
+  if (typeof left === "string" && typeof right === "string") {
+    const l = left.toLowerCase();
+    const r = right.toLowerCase();
+    return l < r ? -1 : l > r ? 1 : 0;
+  }
+  const l = Number(left);
+  const r = Number(right);
+  return l < r ? -1 : l > r ? 1 : 0;
+}
+
+/**
+ * Match a value against a SUMIF/COUNTIF-style criterion ("&gt;10", "a*", 5)
+ */
+export function createCriterion(criterion: Scalar): (value: Scalar) => boolean {
+  if (typeof criterion !== "string") {
+    return (value) =>
+      !isError(value) && value !== null && compareValues(value, criterion) === 0;
+  }
+
+  const match = criterion.match(/^(<=|>=|<>|<|>|=)?([\s\S]*)$/);
+  const operator = match?.[1] ?? "=";
+  const operandText = match?.[2] ?? "";
+  const numeric = operandText.trim() !== "" ? Number(operandText) : NaN;
+  const operand: Scalar = Number.isNaN(numeric)
+    ? (parseDateText(operandText) ?? operandText)
+    : numeric;
+
+  if (typeof operand === "string" && (operator === "=" || operator === "<>")) {
+    const pattern = wildcardToRegExp(operand);
+    const equal = (value: Scalar) => {
+      if (operand === "") return value === null || value === "";
+      if (isError(value) || value === null) return false;
+      const text = toText(value);
+      return typeof text === "string" && pattern.test(text);
+    };
+    return operator === "=" ? equal : (value) => !equal(value);
+  }
+
+  return (value) => {
+    if (isError(value) || value === null) return operator === "<>";
+    if (typeof operand === "number" && typeof value !== "number") {
+      return operator === "<>";
+    }
+    const cmp = compareValues(value, operand);
+    switch (operator) {
+      case "<":
+        return cmp < 0;
+      case ">":
+        return cmp > 0;
+      case "<=":
+        return cmp <= 0;
+      case ">=":
+        return cmp >= 0;
+      case "<>":
+        return cmp !== 0;
+      default:
+        return cmp === 0;
+    }
+  };
+}
+
+/**
+ * Excel wildcards (* ? with ~ escape) to a case-insensitive RegExp
+ */
+export function wildcardToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "~" && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    } else if (char === "*") {
+      source += "[\\s\\S]*";
+    } else if (char === "?") {
+      source += "[\\s\\S]";
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+// ============================================================================
+// Dates (1900 date system)
+// ============================================================================
+
+const MS_PER_DAY = 86_400_000;
+// Serial 0 is 1899-12-30 for dates after the fictitious 1900-02-29
+const EPOCH = Date.UTC(1899, 11, 30);
+
+/**
+ * Serial number for a UTC date (with Excel's 1900 leap-year quirk)
+ */
+export function dateToSerial(year: number, month: number, day: number): number {
+  const serial = (Date.UTC(year, month - 1, day) - EPOCH) / MS_PER_DAY;
+  return serial <= 60 ? serial - 1 : serial;
+}
+
+/**
+ * UTC date for a serial number; fractional part is the time of day
+ */
+export function serialToDate(serial: number): Date {
+  const adjusted = serial < 60 ? serial + 1 : serial;
+  return new Date(EPOCH + Math.round(adjusted * MS_PER_DAY));
+}
+
+export function todaySerial(now: Date = new Date()): number {
+  return dateToSerial(now.getFullYear(), now.getMonth() + 1, now.getDate());
+}
+
+export function nowSerial(now: Date = new Date()): number {
+  const time =
+    (now.getHours() * 3600 + now.getMinutes() * 60 + now.getSeconds()) / 86400;
+  return todaySerial(now) + time;
+}
+
+/**
+ * Parse ISO (2024-03-15) and day-first (15/03/2024) date text to a serial
+ */
+export function parseDateText(text: string): number | null {
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (iso) {
+    const [, y, m, d, hh = "0", mm = "0", ss = "0"] = iso;
+    return (
+      dateToSerial(Number(y), Number(m), Number(d)) +
+      (Number(hh) * 3600 + Number(mm) * 60 + Number(ss)) / 86400
+    );
+  }
+
+  const dmy = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (dmy) {
+    const [, d, m, y] = dmy;
+    if (Number(m) > 12) return dateToSerial(Number(y), Number(d), Number(m));
+    return dateToSerial(Number(y), Number(m), Number(d));
+  }
+
+  return null;
+}
+
+// ============================================================================
+// TEXT() Formats
+// ============================================================================
+
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June", "July",
+  "August", "September", "October", "November", "December",
+];
+const DAYS = [
+  "Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday",
+];
+
+/**
+ * Format a number with an Excel format string (common number/date codes)
+ */
+export function formatNumber(value: number, format: string): string {
+  const sections = splitSections(format);
+  let section = sections[0];
+  let number = value;
+  if (value < 0 && sections[1] !== undefined) {
+    section = sections[1];
+    number = -value;
+  } else if (value === 0 && sections[2] !== undefined) {
+    section = sections[2];
+  }
+
+  if (/^general$/i.test(section.trim())) return formatGeneral(number);
+  if (/[dmyhs]/i.test(section.replace(/"[^"]*"|\\./g, ""))) {
+    return formatDate(number, section);
+  }
+  return formatDecimal(number, section);
+}
+
+function splitSections(format: string): string[] {
+  const sections: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (const char of format) {
+    if (char === '"') quoted = !quoted;
+    if (char === ";" && !quoted) {
+      sections.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  sections.push(current);
+  return sections;
+}
+
+function formatDecimal(value: number, section: string): string {
+  // Mask quoted text and escapes so only real placeholders are matched
+  const bare = section.replace(/"[^"]*"|\\./g, (m) => "\u0000".repeat(m.length));
+  const first = bare.search(/[0#?]/);
+  if (first === -1) return literalText(section);
+
+  const start = bare[first - 1] === "." ? first - 1 : first;
+  let end = Math.max(...["0", "#", "?"].map((c) => bare.lastIndexOf(c))) + 1;
+  while (bare[end] === ",") end++;
+
+  const pattern = bare.substring(start, end);
+  const prefix = literalText(section.substring(0, start));
+  const suffix = literalText(section.substring(end));
+
+  let number = bare.includes("%") ? value * 100 : value;
+  // Trailing commas scale by 1000 each
+  const scaleCommas = pattern.match(/,+$/)?.[0].length ?? 0;
+  number /= 1000 ** scaleCommas;
+  const body = pattern.replace(/,+$/, "");
+
+  const [intPattern, decPattern] = body.split(".");
+  const decimals = (decPattern ?? "").replace(/[^0#?]/g, "").length;
+  const minDecimals = (decPattern ?? "").replace(/[^0]/g, "").length;
+  const minInt = intPattern.replace(/[^0]/g, "").length;
+
+  const negative = number < 0;
+  const rounded = Math.abs(number).toFixed(decimals);
+  let [intPart, decPart = ""] = rounded.split(".");
+
+  if (intPart === "0" && minInt === 0) intPart = "";
+  intPart = intPart.padStart(minInt, "0");
+  if (intPattern.includes(",")) {
+    intPart = intPart.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  }
+  while (decPart.length > minDecimals && decPart.endsWith("0")) {
+    decPart = decPart.slice(0, -1);
+  }
+
+  const numberText =
+    decPattern !== undefined ? `${intPart}.${decPart}` : intPart;
+  return `${negative ? "-" : ""}${prefix}${numberText}${suffix}`;
+}
+
+function literalText(text: string): string {
+  return text
+    .replace(/"([^"]*)"/g, "$1")
+    .replace(/\\(.)/g, "$1")
+    .replace(/_./g, " ")
+    .replace(/\*./g, "");
+}
+
+function formatDate(serial: number, section: string): string {
+  const date = serialToDate(serial);
+  const hasAmPm = /AM\/PM|A\/P/i.test(section);
+  const hours = date.getUTCHours();
+  const tokens =
+    /"[^"]*"|\\.|AM\/PM|A\/P|yyyy|yy|mmmmm|mmmm|mmm|mm|m|dddd|ddd|dd|d|hh|h|ss|s|\.0+|[\s\S]/gi;
+
+  let output = "";
+  let previous = "";
+  for (const token of section.match(tokens) ?? []) {
+    const lower = token.toLowerCase();
+    let text: string;
+
+    switch (lower) {
+      case "yyyy":
+        text = String(date.getUTCFullYear());
+        break;
+      case "yy":
+        text = String(date.getUTCFullYear()).slice(-2);
+        break;
+      case "mmmmm":
+        text = MONTHS[date.getUTCMonth()][0];
+        break;
+      case "mmmm":
+        text = MONTHS[date.getUTCMonth()];
+        break;
+      case "mmm":
+        text = MONTHS[date.getUTCMonth()].slice(0, 3);
+        break;
+      case "mm":
+      case "m": {
+        // m after h (or before s) means minutes
+        const minutes = /^h/.test(previous);
+        const value = minutes ? date.getUTCMinutes() : date.getUTCMonth() + 1;
+        text = lower === "mm" ? String(value).padStart(2, "0") : String(value);
+        break;
+      }
+      case "dddd":
+        text = DAYS[date.getUTCDay()];
+        break;
+      case "ddd":
+        text = DAYS[date.getUTCDay()].slice(0, 3);
+        break;
+      case "dd":
+        text = String(date.getUTCDate()).padStart(2, "0");
+        break;
+      case "d":
+        text = String(date.getUTCDate());
+        break;
+      case "hh":
+      case "h": {
+        const value = hasAmPm ? hours % 12 || 12 : hours;
+        text = lower === "hh" ? String(value).padStart(2, "0") : String(value);
+        break;
+      }
+      case "ss":
+        text = String(date.getUTCSeconds()).padStart(2, "0");
+        break;
+      case "s":
+        text = String(date.getUTCSeconds());
+        break;
+      case "am/pm":
+        text = hours < 12 ? "AM" : "PM";
+        break;
+      case "a/p":
+        text = hours < 12 ? "A" : "P";
+        break;
+      default:
+        text = token.startsWith('"')
+          ? token.slice(1, -1)
+          : token.startsWith("\\")
+            ? token.slice(1)
+            : token;
+    }
+
+    if (/^[a-z]/i.test(token)) previous = lower;
+    output += text;
+  }
+
+  return output;
+}
@@ -0,0 +1,57 @@
+/**
+ * Formula Module
+ *
+ * Offline evaluation of spreadsheet formulas and pivot tables over
+ * univer_data, used by the agent-side spreadsheet tools.
+ */
+
+export {
+  columnIndexToLetter,
+  columnLetterToIndex,
+  FormulaParseError,
+  parseFormula,
+  parseRangeReference,
+} from "./formula-parser";
+export type { CellRange, FormulaNode } from "./formula-parser";
+
+export {
+  ERRORS,
+  FormulaError,
+  isError,
+} from "./formula-values";
+export type { FormulaValue, Matrix, Scalar } from "./formula-values";
+
+export { FORMULA_FUNCTIONS, getSupportedFunctions } from "./formula-functions";
+
+export {
+  FormulaEngine,
+  formatCellValue,
+  getCellFormula,
+  parseA1Range,
+  recalculateWorkbook,
+  toCellValue,
+  toPlainValue,
+} from "./formula-engine";
+export type {
+  FormulaEngineOptions,
+  RecalculationResult,
+  WorkbookCell,
+  WorkbookData,
+  WorkbookSheet,
+} from "./formula-engine";
+
+export {
+  computePivotTable,
+  getPivotTables,
+  refreshPivotTables,
+  resolvePivotField,
+  writePivotTable,
+} from "./pivot-table";
+export type {
+  PivotAggregation,
+  PivotFilter,
+  PivotTableConfig,
+  PivotTableDefinition,
+  PivotTableResult,
+  PivotValueField,
+} from "./pivot-table";
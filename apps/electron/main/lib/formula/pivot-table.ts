@@ -0,0 +1,397 @@
+/**
+ * Pivot Tables
+ *
+ * Groups a source range (first row = headers) by row/column fields,
+ * aggregates value fields and writes the result as a block of cells.
+ * Definitions are stored on the workbook (univerData.pivotTables) with
+ * their source range, so a pivot can be refreshed after the data changes.
+ */
+
+import { FormulaEngine, type WorkbookData } from "./formula-engine";
+import {
+  columnIndexToLetter,
+  columnLetterToIndex,
+  parseRangeReference,
+} from "./formula-parser";
+import {
+  compareValues,
+  createCriterion,
+  isError,
+  type Scalar,
+} from "./formula-values";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PivotAggregation =
+  | "sum"
+  | "count"
+  | "average"
+  | "min"
+  | "max"
+  | "countDistinct";
+
+export interface PivotValueField {
+  /** Header name or column letter of the source field */
+  field: string;
+  aggregation: PivotAggregation;
+  /** Column label (defaults to "Sum of Amount") */
+  label?: string;
+}
+
+export interface PivotFilter {
+  /** Header name or column letter of the source field */
+  field: string;
+  /** Keep rows whose value is one of these */
+  values?: Array<string | number | boolean | null>;
+  /** Keep rows matching a criterion, as in SUMIF (">100", "North*", "<>") */
+  condition?: string;
+}
+
+export interface PivotTableConfig {
+  rows: string[];
+  columns?: string[];
+  values: PivotValueField[];
+  filters?: PivotFilter[];
+  /** Append grand total row/column (default true) */
+  showGrandTotals?: boolean;
+}
+
+export interface PivotTableDefinition extends PivotTableConfig {
+  id: string;
+  name: string;
+  sourceSheetId: string;
+  /** A1 range including the header row */
+  sourceRange: string;
+  targetSheetId: string;
+  /** Top-left cell of the pivot block */
+  targetCell: string;
+  /** Range written by the last refresh (cleared before rewriting) */
+  outputRange?: string;
+  createdAt: string;
+  refreshedAt?: string;
+}
+
+export interface PivotTableResult {
+  grid: Scalar[][];
+  /** Number of source records after filtering */
+  recordCount: number;
+  /** Distinct row groups (excluding totals) */
+  rowGroupCount: number;
+}
+
+type PivotWorkbook = WorkbookData & {
+  pivotTables?: Record<string, PivotTableDefinition>;
+};
+
+const BLANK_LABEL = "(blank)";
+const TOTAL_LABEL = "Grand Total";
+
+const AGGREGATION_LABELS: Record<PivotAggregation, string> = {
+  sum: "Sum",
+  count: "Count",
+  average: "Average",
+  min: "Min",
+  max: "Max",
+  countDistinct: "Distinct Count",
+};
+
+// ============================================================================
+// Computation
+// ============================================================================
+
+/**
+ * Index of a field by header name (case-insensitive) or column letter
+ */
+export function resolvePivotField(headers: Scalar[], field: string): number {
+  const wanted = field.trim().toLowerCase();
+  const byHeader = headers.findIndex(
+    (header) => header !== null && String(header).trim().toLowerCase() === wanted,
+  );
+  if (byHeader !== -1) return byHeader;
+
+  if (/^[A-Z]{1,3}$/i.test(field.trim())) {
+    const index = columnLetterToIndex(field.trim());
+    if (index < headers.length) return index;
+  }
+  throw new Error(`Unknown pivot field "${field}"`);
+}
+
+function aggregate(values: Scalar[], aggregation: PivotAggregation): Scalar {
+  const present = values.filter((v) => v !== null && v !== "" && !isError(v));
+  if (aggregation === "count") return present.length;
+  if (aggregation === "countDistinct") {
+    return new Set(present.map((v) => String(v).toLowerCase())).size;
+  }
+
+  const numbers = present.filter((v): v is number => typeof v === "number");
+  if (numbers.length === 0) return aggregation === "sum" ? 0 : null;
+  switch (aggregation) {
+    case "sum":
+      return numbers.reduce((a, b) => a + b, 0);
+    case "average":
+      return numbers.reduce((a, b) => a + b, 0) / numbers.length;
+    case "min":
+      return Math.min(...numbers);
+    case "max":
+      return Math.max(...numbers);
+  }
+}
+
+function compareKeys(a: Scalar[], b: Scalar[]): number {
+  for (let i = 0; i < a.length; i++) {
+    // Blanks sort last, like Excel
+    if (a[i] === null || b[i] === null) {
+      if (a[i] !== b[i]) return a[i] === null ? 1 : -1;
+      continue;
+    }
+    const cmp = compareValues(a[i], b[i]);
+    if (cmp !== 0) return cmp;
+  }
+  return 0;
+}
+
+/**
+ * Distinct keys of the given fields, sorted
+ */
+function distinctKeys(records: Scalar[][], fields: number[]): Scalar[][] {
+  const keys = new Map<string, Scalar[]>();
+  for (const record of records) {
+    const key = fields.map((f) => normalizeKey(record[f]));
+    keys.set(JSON.stringify(key), key);
+  }
+  return [...keys.values()].sort(compareKeys);
+}
+
+function normalizeKey(value: Scalar): Scalar {
+  if (value === "" || value === undefined) return null;
+  if (isError(value)) return value.code;
+  return typeof value === "string" ? value.trim() : value;
+}
+
+const keyId = (record: Scalar[], fields: number[]): string =>
+  JSON.stringify(fields.map((f) => normalizeKey(record[f])));
+
+/**
+ * Build the pivot grid from a header row and data records
+ */
+export function computePivotTable(
+  headers: Scalar[],
+  records: Scalar[][],
+  config: PivotTableConfig,
+): PivotTableResult {
+  if (config.values.length === 0) {
+    throw new Error("A pivot table needs at least one value field");
+  }
+
+  const rowFields = config.rows.map((f) => resolvePivotField(headers, f));
+  const columnFields = (config.columns ?? []).map((f) =>
+    resolvePivotField(headers, f),
+  );
+  const valueFields = config.values.map((value) => ({
+    ...value,
+    index: resolvePivotField(headers, value.field),
+  }));
+  const showTotals = config.showGrandTotals ?? true;
+
+  const filters = (config.filters ?? []).map((filter) => {
+    const index = resolvePivotField(headers, filter.field);
+    const allowed = filter.values?.map((v) =>
+      JSON.stringify(normalizeKey(v === undefined ? null : v)),
+    );
+    const matches = filter.condition ? createCriterion(filter.condition) : null;
+    return (record: Scalar[]) =>
+      (!allowed || allowed.includes(JSON.stringify(normalizeKey(record[index])))) &&
+      (!matches || matches(record[index] ?? null));
+  });
+
+  const filtered = records.filter(
+    (record) =>
+      record.some((v) => v !== null && v !== "") &&
+      filters.every((keep) => keep(record)),
+  );
+
+  const rowKeys = distinctKeys(filtered, rowFields);
+  const columnKeys = columnFields.length > 0 ? distinctKeys(filtered, columnFields) : [[]];
+
+  // Bucket records by row key and column key
+  const buckets = new Map<string, Scalar[][]>();
+  const push = (id: string, record: Scalar[]) => {
+    const bucket = buckets.get(id);
+    if (bucket) bucket.push(record);
+    else buckets.set(id, [record]);
+  };
+  for (const record of filtered) {
+    const rowId = keyId(record, rowFields);
+    const columnId = keyId(record, columnFields);
+    push(`${rowId}|${columnId}`, record);
+    push(`${rowId}|*`, record);
+    push(`*|${columnId}`, record);
+    push("*|*", record);
+  }
+
+  const cellsFor = (rowId: string, columnId: string): Scalar[] =>
+    valueFields.map((value) =>
+      aggregate(
+        (buckets.get(`${rowId}|${columnId}`) ?? []).map((r) => r[value.index] ?? null),
+        value.aggregation,
+      ),
+    );
+
+  const valueLabel = (value: (typeof valueFields)[number]) =>
+    value.label ??
+    `${AGGREGATION_LABELS[value.aggregation]} of ${headers[value.index] ?? columnIndexToLetter(value.index)}`;
+
+  const label = (value: Scalar) =>
+    value === null ? BLANK_LABEL : value;
+
+  // Header row: row field names, then one column per column key x value field
+  const header: Scalar[] = rowFields.map((f) => headers[f] ?? columnIndexToLetter(f));
+  if (header.length === 0) header.push("");
+  const columnIds: string[] = [];
+  for (const columnKey of columnKeys) {
+    const prefix = columnKey.map((v) => String(label(v))).join(" / ");
+    columnIds.push(JSON.stringify(columnKey));
+    for (const value of valueFields) {
+      header.push(
+        prefix
+          ? valueFields.length > 1
+            ? `${prefix} - ${valueLabel(value)}`
+            : prefix
+          : valueLabel(value),
+      );
+    }
+  }
+  const totalsColumn = showTotals && columnFields.length > 0;
+  if (totalsColumn) {
+    for (const value of valueFields) {
+      header.push(valueFields.length > 1 ? `${TOTAL_LABEL} - ${valueLabel(value)}` : TOTAL_LABEL);
+    }
+  }
+
+  const grid: Scalar[][] = [header];
+  const rowIds = rowKeys.map((key) => JSON.stringify(key));
+  rowKeys.forEach((rowKey, i) => {
+    const row: Scalar[] = rowKey.length > 0 ? rowKey.map(label) : [TOTAL_LABEL];
+    for (const columnId of columnIds) row.push(...cellsFor(rowIds[i], columnId));
+    if (totalsColumn) row.push(...cellsFor(rowIds[i], "*"));
+    grid.push(row);
+  });
+
+  if (showTotals && rowFields.length > 0) {
+    const row: Scalar[] = [TOTAL_LABEL, ...rowFields.slice(1).map(() => null)];
+    for (const columnId of columnIds) row.push(...cellsFor("*", columnId));
+    if (totalsColumn) row.push(...cellsFor("*", "*"));
+    grid.push(row);
+  }
+
+  return {
+    grid,
+    recordCount: filtered.length,
+    rowGroupCount: rowFields.length > 0 ? rowKeys.length : 0,
+  };
+}
+
+// ============================================================================
+// Workbook Integration
+// ============================================================================
+
+function parseRangeOrThrow(range: string) {
+  const parsed = parseRangeReference(range.trim().replace(/^.*!/, ""));
+  if (!parsed || parsed.wholeColumn || parsed.wholeRow) {
+    throw new Error(`Invalid range: ${range}`);
+  }
+  return parsed;
+}
+
+/**
+ * Write (or rewrite) a pivot table into its target sheet and store its definition
+ */
+export function writePivotTable(
+  workbook: WorkbookData,
+  definition: PivotTableDefinition,
+): PivotTableResult & { outputRange: string } {
+  const pivotWorkbook = workbook as PivotWorkbook;
+  const source = parseRangeOrThrow(definition.sourceRange);
+  const target = parseRangeOrThrow(definition.targetCell);
+
+  const sourceSheet = workbook.sheets?.[definition.sourceSheetId];
+  const targetSheet = workbook.sheets?.[definition.targetSheetId];
+  if (!sourceSheet) throw new Error(`Source sheet not found: ${definition.sourceSheetId}`);
+  if (!targetSheet) throw new Error(`Target sheet not found: ${definition.targetSheetId}`);
+
+  // Source values include computed formula results
+  const values = new FormulaEngine(workbook).getRangeValues(definition.sourceSheetId, source);
+  const [headers = [], ...records] = values;
+  const result = computePivotTable(headers, records, definition);
+
+  if (!targetSheet.cellData) targetSheet.cellData = {};
+  const cellData = targetSheet.cellData;
+
+  // Clear the block written by the previous refresh
+  if (definition.outputRange) {
+    const previous = parseRangeOrThrow(definition.outputRange);
+    for (let row = previous.startRow; row <= previous.endRow; row++) {
+      for (let column = previous.startColumn; column <= previous.endColumn; column++) {
+        delete cellData[row]?.[column];
+      }
+    }
+  }
+
+  const lastRow = result.grid.length - 1;
+  result.grid.forEach((gridRow, r) => {
+    const row = target.startRow + r;
+    if (!cellData[row]) cellData[row] = {};
+    gridRow.forEach((value, c) => {
+      const column = target.startColumn + c;
+      const bold = r === 0 || (r === lastRow && gridRow[0] === TOTAL_LABEL);
+      cellData[row][column] = {
+        v: value === null ? "" : isError(value) ? value.code : value,
+        ...(bold ? { s: { bl: 1, bg: { rgb: "#f3f4f6" } } } : {}),
+      };
+    });
+  });
+
+  const width = Math.max(...result.grid.map((row) => row.length));
+  const outputRange = `${columnIndexToLetter(target.startColumn)}${target.startRow + 1}:${columnIndexToLetter(
+    target.startColumn + width - 1,
+  )}${target.startRow + result.grid.length}`;
+
+  definition.outputRange = outputRange;
+  definition.refreshedAt = new Date().toISOString();
+  pivotWorkbook.pivotTables = {
+    ...pivotWorkbook.pivotTables,
+    [definition.id]: definition,
+  };
+
+  return { ...result, outputRange };
+}
+
+/**
+ * Pivot table definitions stored on a workbook
+ */
+export function getPivotTables(workbook: WorkbookData): PivotTableDefinition[] {
+  return Object.values((workbook as PivotWorkbook).pivotTables ?? {});
+}
+
+/**
+ * Recompute stored pivot tables from their source ranges
+ */
+export function refreshPivotTables(
+  workbook: WorkbookData,
+  pivotId?: string,
+): Array<{ id: string; name: string; outputRange: string; recordCount: number }> {
+  const pivots = getPivotTables(workbook).filter((p) => !pivotId || p.id === pivotId);
+  if (pivotId && pivots.length === 0) throw new Error(`Pivot table not found: ${pivotId}`);
+
+  return pivots.map((pivot) => {
+    const result = writePivotTable(workbook, pivot);
+    return {
+      id: pivot.id,
+      name: pivot.name,
+      outputRange: result.outputRange,
+      recordCount: result.recordCount,
+    };
+  });
+}
@@ -0,0 +1,154 @@
+import { generateText } from 'ai'
+import log from 'electron-log'
+import { resolveModelForProvider } from '@s-agi/core/types/ai'
+import type { AIProvider } from '@s-agi/core/types/ai'
+import { supabase } from '../supabase/client'
+import { getLanguageModel, isProviderAvailable, SYSTEM_PROMPT } from '../ai'
+import { getCustomProviderManager } from '../auth'
+import { describeBlock, getBudgetService } from '../budgets'
+import { needsOpenChat } from './queue-state'
+import type { QueueItem } from './queue-state'
+
+// Messages of the chat sent as context
+const HISTORY_LIMIT = 30
+
+interface QueuedImage {
+    base64Data: string
+    mediaType: string
+    filename?: string
+}
+
+type ModelMessage =
+    | { role: 'user' | 'assistant'; content: string }
+    | { role: 'user'; content: Array<{ type: 'text'; text: string } | { type: 'image'; image: string }> }
+
+/**
+ * Whether a queued chat prompt can be answered without its chat view.
+ * Prompts that need tools stay pending until the chat is opened.
+ */
+export async function canRunInBackground(item: QueueItem): Promise<boolean> {
+    const { count, error } = await supabase
+        .from('artifacts')
+        .select('id', { count: 'exact', head: true })
+        .eq('chat_id', item.targetId)
+    if (error) {
+        log.warn('[MessageQueue] Failed to read chat artifacts:', error.message)
+        return false
+    }
+    return !needsOpenChat(item, { hasArtifact: (count ?? 0) > 0 })
+}
+
+/**
+ * Send a queued chat prompt without the chat view: the user message and the
+ * answer are saved to the chat so they show up the next time it is opened.
+ * Tools are not available here; callers check canRunInBackground first.
+ */
+export async function runChatItemInBackground(item: QueueItem): Promise<void> {
+    const provider = (item.payload.provider as AIProvider | undefined) ?? 'openai'
+    if (provider === 'custom') {
+        getCustomProviderManager().registerModels()
+    }
+    if (!isProviderAvailable(provider)) {
+        throw new Error(`Provider ${provider} is not configured`)
+    }
+    const model = resolveModelForProvider(provider, item.payload.model as string | undefined)
+
+    const { data: chat } = await supabase
+        .from('chats')
+        .select('id')
+        .eq('id', item.targetId)
+        .eq('user_id', item.userId)
+        .maybeSingle()
+    if (!chat) {
+        throw new Error('Chat not found or access denied')
+    }
+
+    // Queued prompts count against the same budgets as chat requests
+    const budgetService = getBudgetService()
+    const budget = await budgetService.check(item.userId, {
+        chatId: item.targetId,
+        provider,
+        modelId: model.id,
+        inputChars: item.message.length
+    })
+    if (!budget.allowed) {
+        throw new Error(describeBlock(budget))
+    }
+
+    const { data: history, error: historyError } = await supabase
+        .from('chat_messages')
+        .select('role, content, created_at')
+        .eq('chat_id', item.targetId)
+        .in('role', ['user', 'assistant'])
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_LIMIT)
+    if (historyError) {
+        throw new Error(historyError.message)
+    }
+
+    const { error: userError } = await supabase.from('chat_messages').insert({
+        chat_id: item.targetId,
+        user_id: item.userId,
+        role: 'user',
+        content: item.message,
+        attachments: [],
+        metadata: { queued: true }
+    })
+    if (userError) {
+        throw new Error(userError.message)
+    }
+
+    const images = (item.payload.images as QueuedImage[] | undefined) ?? []
+    const messages: ModelMessage[] = (history ?? [])
+        .reverse()
+        .map(message => ({ role: message.role as 'user' | 'assistant', content: String(message.content ?? '') }))
+    messages.push(images.length > 0
+        ? {
+            role: 'user',
+            content: [
+                ...images.map(image => ({ type: 'image' as const, image: `data:${image.mediaType};base64,${image.base64Data}` })),
+                { type: 'text' as const, text: item.message }
+            ]
+        }
+        : { role: 'user', content: item.message })
+
+    log.info(`[MessageQueue] Running queued prompt ${item.id} in background (${model.id})`)
+    const result = await generateText({
+        model: getLanguageModel(provider, model.id),
+        system: SYSTEM_PROMPT,
+        messages: messages as any
+    })
+
+    const { error: assistantError } = await supabase.from('chat_messages').insert({
+        chat_id: item.targetId,
+        user_id: item.userId,
+        role: 'assistant',
+        content: result.text,
+        attachments: [],
+        metadata: {
+            queued: true,
+            usage: {
+                inputTokens: result.usage.inputTokens ?? 0,
+                outputTokens: result.usage.outputTokens ?? 0,
+                totalTokens: result.usage.totalTokens ?? 0
+            }
+        },
+        model_id: model.id,
+        model_name: model.name
+    })
+    if (assistantError) {
+        throw new Error(assistantError.message)
+    }
+
+    await budgetService
+        .recordUsage(item.userId, provider, model.id, {
+            promptTokens: result.usage.inputTokens,
+            completionTokens: result.usage.outputTokens
+        })
+        .catch(error => log.warn('[MessageQueue] Failed to record spend:', error))
+
+    await supabase
+        .from('chats')
+        .update({ updated_at: new Date().toISOString() })
+        .eq('id', item.targetId)
+}
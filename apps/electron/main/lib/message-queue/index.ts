@@ -0,0 +1,2 @@
+export * from './queue-state'
+export * from './message-queue-service'
@@ -0,0 +1,281 @@
+import { join } from 'path'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { randomUUID } from 'crypto'
+import log from 'electron-log'
+import { supabase } from '../supabase/client'
+import { getStoragePaths } from '../storage'
+import { sendToRenderer } from '../window-manager'
+import { canRunInBackground, runChatItemInBackground } from './background-runner'
+import {
+    editItem,
+    nextPendingItem,
+    queueKey,
+    recoverInterrupted,
+    reorderItems,
+    retryItem,
+    setItemStatus
+} from './queue-state'
+import type { QueueItem, QueueKind, QueueMap } from './queue-state'
+
+const QUEUE_FILE = 'message-queue.json'
+
+// Give the renderer time to claim the open chat before running in background
+const STARTUP_DELAY_MS = 5 * 1000
+
+/**
+ * Message queues persisted in the main process so queued prompts survive
+ * crashes and restarts. Open chats and PDFs claim their items and send them
+ * from the renderer; chat prompts nobody has open are run in the background
+ * when they can be answered without tools.
+ */
+export class MessageQueueService {
+    private filePath: string
+    private queues: QueueMap = {}
+    /** Queue keys whose view is open in the renderer */
+    private foreground = new Set<string>()
+    private running = new Set<string>()
+    private startupTimer: ReturnType<typeof setTimeout> | null = null
+    private ready = false
+
+    constructor() {
+        const configDir = getStoragePaths().config
+        if (!existsSync(configDir)) {
+            mkdirSync(configDir, { recursive: true })
+        }
+        this.filePath = join(configDir, QUEUE_FILE)
+    }
+
+    init(): void {
+        try {
+            if (existsSync(this.filePath)) {
+                const parsed = JSON.parse(readFileSync(this.filePath, 'utf-8')) as QueueMap
+                const { queues, recovered } = recoverInterrupted(parsed && typeof parsed === 'object' ? parsed : {})
+                this.queues = queues
+                if (recovered > 0) {
+                    log.info(`[MessageQueue] Resuming ${recovered} interrupted message(s)`)
+                    this.save()
+                }
+            }
+        } catch (error) {
+            log.error('[MessageQueue] Failed to load queue:', error)
+            this.queues = {}
+        }
+    }
+
+    start(): void {
+        if (this.ready || this.startupTimer) return
+        this.startupTimer = setTimeout(() => {
+            this.startupTimer = null
+            this.ready = true
+            void this.processBackground()
+        }, STARTUP_DELAY_MS)
+    }
+
+    stop(): void {
+        if (this.startupTimer) clearTimeout(this.startupTimer)
+        this.startupTimer = null
+        this.ready = false
+    }
+
+    private save(): void {
+        try {
+            writeFileSync(this.filePath, JSON.stringify(this.queues), 'utf-8')
+        } catch (error) {
+            log.error('[MessageQueue] Failed to save queue:', error)
+        }
+    }
+
+    private commit(kind: QueueKind, targetId: string, items: QueueItem[]): void {
+        const key = queueKey(kind, targetId)
+        if (items.length > 0) {
+            this.queues[key] = items
+        } else {
+            delete this.queues[key]
+        }
+        this.save()
+        sendToRenderer('message-queue:changed', { kind, targetId })
+        void this.processBackground()
+    }
+
+    private findItem(userId: string, itemId: string): QueueItem {
+        for (const items of Object.values(this.queues)) {
+            const item = items.find(candidate => candidate.id === itemId)
+            if (item && item.userId === userId) return item
+        }
+        throw new Error('Queued message not found')
+    }
+
+    private itemsOf(kind: QueueKind, targetId: string): QueueItem[] {
+        return this.queues[queueKey(kind, targetId)] ?? []
+    }
+
+    /**
+     * All queues of this user, keyed by kind:targetId
+     */
+    listAll(userId: string): QueueMap {
+        const result: QueueMap = {}
+        for (const [key, items] of Object.entries(this.queues)) {
+            const own = items.filter(item => item.userId === userId)
+            if (own.length > 0) result[key] = own
+        }
+        return result
+    }
+
+    add(
+        userId: string,
+        kind: QueueKind,
+        targetId: string,
+        message: string,
+        payload: Record<string, unknown> = {}
+    ): QueueItem {
+        const now = new Date().toISOString()
+        const item: QueueItem = {
+            id: randomUUID(),
+            kind,
+            targetId,
+            userId,
+            message,
+            payload,
+            status: 'pending',
+            attempts: 0,
+            createdAt: now,
+            updatedAt: now
+        }
+        this.commit(kind, targetId, [...this.itemsOf(kind, targetId), item])
+        return item
+    }
+
+    edit(userId: string, itemId: string, message: string): QueueItem {
+        const item = this.findItem(userId, itemId)
+        const items = editItem(this.itemsOf(item.kind, item.targetId), itemId, message)
+        this.commit(item.kind, item.targetId, items)
+        return items.find(candidate => candidate.id === itemId)!
+    }
+
+    reorder(userId: string, kind: QueueKind, targetId: string, orderedIds: string[]): void {
+        const items = this.itemsOf(kind, targetId)
+        if (items.some(item => item.userId !== userId)) {
+            throw new Error('Queue not found')
+        }
+        this.commit(kind, targetId, reorderItems(items, orderedIds))
+    }
+
+    retry(userId: string, itemId: string): void {
+        const item = this.findItem(userId, itemId)
+        this.commit(item.kind, item.targetId, retryItem(this.itemsOf(item.kind, item.targetId), itemId))
+    }
+
+    remove(userId: string, itemId: string): void {
+        const item = this.findItem(userId, itemId)
+        if (item.status === 'running') {
+            throw new Error('The message is being sent')
+        }
+        this.commit(
+            item.kind,
+            item.targetId,
+            this.itemsOf(item.kind, item.targetId).filter(candidate => candidate.id !== itemId)
+        )
+    }
+
+    /**
+     * Remove the finished (done) items of a queue
+     */
+    clearFinished(userId: string, kind: QueueKind, targetId: string): void {
+        this.commit(
+            kind,
+            targetId,
+            this.itemsOf(kind, targetId).filter(item => item.userId !== userId || item.status !== 'done')
+        )
+    }
+
+    /**
+     * Mark the next pending item of an open chat or PDF as running and
+     * return it so the renderer can send it. Null when there is nothing to send.
+     */
+    claim(userId: string, kind: QueueKind, targetId: string): QueueItem | null {
+        const key = queueKey(kind, targetId)
+        if (this.running.has(key)) return null
+        const next = nextPendingItem(this.itemsOf(kind, targetId))
+        if (!next || next.userId !== userId) return null
+        const items = setItemStatus(this.itemsOf(kind, targetId), next.id, 'running')
+        this.commit(kind, targetId, items)
+        return items.find(item => item.id === next.id)!
+    }
+
+    /**
+     * Report the outcome of a claimed item
+     */
+    finish(userId: string, itemId: string, error?: string): void {
+        const item = this.findItem(userId, itemId)
+        this.commit(
+            item.kind,
+            item.targetId,
+            setItemStatus(this.itemsOf(item.kind, item.targetId), itemId, error ? 'failed' : 'done', error)
+        )
+    }
+
+    /**
+     * The renderer reports which queues it is showing; the rest run in background
+     */
+    setForeground(kind: QueueKind, targetIds: string[]): void {
+        for (const key of [...this.foreground]) {
+            if (key.startsWith(`${kind}:`)) this.foreground.delete(key)
+        }
+        for (const targetId of targetIds) {
+            this.foreground.add(queueKey(kind, targetId))
+        }
+        void this.processBackground()
+    }
+
+    private async processBackground(): Promise<void> {
+        if (!this.ready) return
+        let userId: string | undefined
+        try {
+            const { data: { session } } = await supabase.auth.getSession()
+            userId = session?.user?.id
+        } catch (error) {
+            log.error('[MessageQueue] Failed to read session:', error)
+        }
+        if (!userId) return
+
+        for (const [key, items] of Object.entries(this.queues)) {
+            if (this.foreground.has(key) || this.running.has(key)) continue
+            const next = nextPendingItem(items)
+            // Only chat prompts can run without their view
+            if (!next || next.kind !== 'chat' || next.userId !== userId) continue
+            // Prompts that need tools wait (pending) for their chat to be opened
+            if (!(await canRunInBackground(next))) continue
+            if (this.foreground.has(key) || this.running.has(key)) continue
+            if (nextPendingItem(this.itemsOf(next.kind, next.targetId))?.id !== next.id) continue
+            void this.runInBackground(key, next)
+        }
+    }
+
+    private async runInBackground(key: string, item: QueueItem): Promise<void> {
+        this.running.add(key)
+        this.commit(item.kind, item.targetId, setItemStatus(this.itemsOf(item.kind, item.targetId), item.id, 'running'))
+        let error: string | undefined
+        try {
+            await runChatItemInBackground(item)
+        } catch (err) {
+            error = err instanceof Error ? err.message : String(err)
+            log.error(`[MessageQueue] Background prompt ${item.id} failed:`, err)
+        } finally {
+            this.running.delete(key)
+        }
+        this.commit(
+            item.kind,
+            item.targetId,
+            setItemStatus(this.itemsOf(item.kind, item.targetId), item.id, error ? 'failed' : 'done', error)
+        )
+    }
+}
+
+let serviceInstance: MessageQueueService | null = null
+
+export function getMessageQueueService(): MessageQueueService {
+    if (!serviceInstance) {
+        serviceInstance = new MessageQueueService()
+    }
+    return serviceInstance
+}
@@ -0,0 +1,133 @@
+/**
+ * Pure operations over the persisted message queues. Queues are keyed by
+ * kind and target (a chat id or a PDF id) and keep their order in the array.
+ */
+
+import { routeAgent } from '@s-agi/core'
+
+export type QueueKind = 'chat' | 'pdf'
+
+export type QueueItemStatus = 'pending' | 'running' | 'failed' | 'done'
+
+export interface QueueItem {
+    id: string
+    kind: QueueKind
+    /** Chat id or PDF id */
+    targetId: string
+    userId: string
+    message: string
+    /** Everything else needed to send the prompt (images, model, page, ...) */
+    payload: Record<string, unknown>
+    status: QueueItemStatus
+    error?: string
+    attempts: number
+    createdAt: string
+    updatedAt: string
+}
+
+export type QueueMap = Record<string, QueueItem[]>
+
+// Finished items kept per queue so the UI can show what just ran
+const KEEP_DONE = 5
+
+export function queueKey(kind: QueueKind, targetId: string): string {
+    return `${kind}:${targetId}`
+}
+
+function touch(item: QueueItem, patch: Partial<QueueItem>): QueueItem {
+    return { ...item, ...patch, updatedAt: new Date().toISOString() }
+}
+
+/**
+ * Move the listed items into the given order. Items missing from `orderedIds`
+ * keep their relative order after the listed ones; done and running items
+ * stay where they are.
+ */
+export function reorderItems(items: QueueItem[], orderedIds: string[]): QueueItem[] {
+    const movable = items.filter(item => item.status === 'pending' || item.status === 'failed')
+    const byId = new Map(movable.map(item => [item.id, item]))
+    const ordered = orderedIds.map(id => byId.get(id)).filter((item): item is QueueItem => !!item)
+    const rest = movable.filter(item => !orderedIds.includes(item.id))
+    const queue = [...ordered, ...rest]
+
+    let next = 0
+    return items.map(item => (byId.has(item.id) ? queue[next++] : item))
+}
+
+export function editItem(items: QueueItem[], itemId: string, message: string): QueueItem[] {
+    return items.map(item => {
+        if (item.id !== itemId) return item
+        if (item.status === 'running' || item.status === 'done') {
+            throw new Error('Only queued or failed messages can be edited')
+        }
+        return touch(item, { message })
+    })
+}
+
+export function retryItem(items: QueueItem[], itemId: string): QueueItem[] {
+    return items.map(item =>
+        item.id === itemId && item.status === 'failed'
+            ? touch(item, { status: 'pending', error: undefined })
+            : item
+    )
+}
+
+/**
+ * Items left running by a crash or quit go back to pending
+ */
+export function recoverInterrupted(queues: QueueMap): { queues: QueueMap; recovered: number } {
+    let recovered = 0
+    const result: QueueMap = {}
+    for (const [key, items] of Object.entries(queues)) {
+        result[key] = items.map(item => {
+            if (item.status !== 'running') return item
+            recovered++
+            return touch(item, { status: 'pending' })
+        })
+    }
+    return { queues: result, recovered }
+}
+
+/**
+ * Next item to send: the first pending one, unless the queue is already
+ * running an item. Failed items wait for a retry without blocking the rest.
+ */
+export function nextPendingItem(items: QueueItem[]): QueueItem | null {
+    if (items.some(item => item.status === 'running')) return null
+    return items.find(item => item.status === 'pending') ?? null
+}
+
+export function setItemStatus(
+    items: QueueItem[],
+    itemId: string,
+    status: QueueItemStatus,
+    error?: string
+): QueueItem[] {
+    const updated = items.map(item => {
+        if (item.id !== itemId) return item
+        return touch(item, {
+            status,
+            error: status === 'failed' ? error : undefined,
+            attempts: status === 'running' ? item.attempts + 1 : item.attempts
+        })
+    })
+    return status === 'done' ? pruneDone(updated) : updated
+}
+
+function pruneDone(items: QueueItem[]): QueueItem[] {
+    const done = items.filter(item => item.status === 'done')
+    if (done.length <= KEEP_DONE) return items
+    const drop = new Set(done.slice(0, done.length - KEEP_DONE).map(item => item.id))
+    return items.filter(item => !drop.has(item.id))
+}
+
+/**
+ * Whether a queued chat prompt has to wait for its chat to be opened. Image
+ * generation, @-mentioned documents and prompts routed to a specialist agent
+ * (spreadsheet, document or PDF edits) need the tools of the chat view; only
+ * prompts answered directly can run in background.
+ */
+export function needsOpenChat(item: QueueItem, context: { hasArtifact?: boolean } = {}): boolean {
+    if (item.payload.generateImage || item.payload.targetDocument) return true
+    return routeAgent(item.message, context).agent !== 'orchestrator'
+}
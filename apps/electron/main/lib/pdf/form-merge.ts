@@ -0,0 +1,241 @@
+/**
+ * PDF Form Merge
+ *
+ * Mail-merge style form filling: one filled (optionally flattened) copy of
+ * a PDF form per spreadsheet row, packaged as a ZIP or a single merged PDF.
+ */
+
+import JSZip from "jszip";
+import log from "electron-log";
+import { fill, fillAndFlatten, type FormField } from "./form-filler";
+import { mergePdfs } from "./pdf-service";
+import {
+  FormulaEngine,
+  parseA1Range,
+  toPlainValue,
+  type WorkbookData,
+} from "../formula";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** PDF field name → spreadsheet column header */
+export type FieldMapping = Record<string, string>;
+
+export type SheetRecord = Record<string, string | number | boolean | null>;
+
+export interface SheetRecords {
+  headers: string[];
+  records: SheetRecord[];
+}
+
+export interface FormMergeOptions {
+  mapping: FieldMapping;
+  flatten?: boolean;
+  /** Column used to name each generated file */
+  fileNameColumn?: string;
+  baseName?: string;
+}
+
+export interface FormMergeFile {
+  name: string;
+  row: number;
+  bytes: Uint8Array;
+}
+
+export interface FormMergeResult {
+  files: FormMergeFile[];
+  errors: Array<{ row: number; error: string }>;
+  /** Mapped fields that don't exist in the form */
+  unknownFields: string[];
+}
+
+const TRUE_VALUES = new Set(["true", "yes", "y", "x", "1", "si", "sí", "on", "checked"]);
+
+// ============================================================================
+// Spreadsheet rows
+// ============================================================================
+
+/**
+ * Read a sheet range as records keyed by the header row.
+ * Formula cells are evaluated; fully empty rows are skipped.
+ */
+export function readSheetRecords(
+  workbook: WorkbookData,
+  range: string,
+  sheet?: string,
+): SheetRecords {
+  const engine = new FormulaEngine(workbook);
+  const sheetId = sheet
+    ? engine.resolveSheetId(sheet)
+    : Object.keys(workbook.sheets ?? {})[0];
+  if (!sheetId) throw new Error(`Sheet not found: ${sheet}`);
+
+  const cellRange = parseA1Range(range);
+  if (!cellRange) throw new Error(`Invalid range: ${range}`);
+
+  const [headerRow = [], ...rows] = engine.getRangeValues(sheetId, cellRange);
+  const headers = headerRow.map((value, i) => {
+    const header = toPlainValue(value);
+    return header === null || header === "" ? `Column ${i + 1}` : String(header);
+  });
+
+  const records: SheetRecord[] = [];
+  for (const row of rows) {
+    const values = row.map(toPlainValue);
+    if (values.every((v) => v === null || v === "")) continue;
+    records.push(Object.fromEntries(headers.map((h, i) => [h, values[i] ?? null])));
+  }
+
+  return { headers, records };
+}
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+function normalizeLabel(label: string): string {
+  return label
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function labelSimilarity(a: string, b: string): number {
+  const left = normalizeLabel(a);
+  const right = normalizeLabel(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.replace(/ /g, "") === right.replace(/ /g, "")) return 0.95;
+
+  const leftTokens = new Set(left.split(" "));
+  const rightTokens = new Set(right.split(" "));
+  const shared = [...leftTokens].filter((t) => rightTokens.has(t)).length;
+  return shared / Math.max(leftTokens.size, rightTokens.size);
+}
+
+/**
+ * Propose a field → column mapping by label similarity.
+ * Each column is used at most once; weak matches are left out so the
+ * model (or the user) can fill the gaps.
+ */
+export function suggestFieldMapping(
+  fields: Pick<FormField, "name" | "type">[],
+  headers: string[],
+  minScore = 0.5,
+): FieldMapping {
+  const candidates: Array<{ field: string; header: string; score: number }> = [];
+  for (const field of fields) {
+    if (field.type === "button" || field.type === "signature") continue;
+    for (const header of headers) {
+      const score = labelSimilarity(field.name, header);
+      if (score >= minScore) candidates.push({ field: field.name, header, score });
+    }
+  }
+
+  const mapping: FieldMapping = {};
+  const usedHeaders = new Set<string>();
+  for (const { field, header } of candidates.sort((a, b) => b.score - a.score)) {
+    if (field in mapping || usedHeaders.has(header)) continue;
+    mapping[field] = header;
+    usedHeaders.add(header);
+  }
+  return mapping;
+}
+
+/**
+ * Form values for one record; checkbox fields get booleans
+ */
+export function buildFieldValues(
+  record: SheetRecord,
+  mapping: FieldMapping,
+  fields: Pick<FormField, "name" | "type">[],
+): Record<string, string | boolean> {
+  const types = new Map(fields.map((f) => [f.name, f.type]));
+  const values: Record<string, string | boolean> = {};
+
+  for (const [field, column] of Object.entries(mapping)) {
+    const value = record[column];
+    if (types.get(field) === "checkbox") {
+      values[field] =
+        typeof value === "boolean"
+          ? value
+          : TRUE_VALUES.has(String(value ?? "").trim().toLowerCase());
+    } else {
+      values[field] = value === null || value === undefined ? "" : String(value);
+    }
+  }
+  return values;
+}
+
+// ============================================================================
+// Generation
+// ============================================================================
+
+function safeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]+/g, "_").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Fill the form once per record
+ */
+export async function fillFormForRecords(
+  pdfBytes: Uint8Array,
+  fields: FormField[],
+  records: SheetRecord[],
+  options: FormMergeOptions,
+): Promise<FormMergeResult> {
+  const { mapping, flatten = true, fileNameColumn } = options;
+  const baseName = safeFileName(options.baseName || "form");
+  const fieldNames = new Set(fields.map((f) => f.name));
+  const unknownFields = Object.keys(mapping).filter((f) => !fieldNames.has(f));
+
+  const files: FormMergeFile[] = [];
+  const errors: FormMergeResult["errors"] = [];
+  const usedNames = new Set<string>();
+
+  for (const [index, record] of records.entries()) {
+    const row = index + 1;
+    const values = buildFieldValues(record, mapping, fields);
+    const result = flatten
+      ? await fillAndFlatten(pdfBytes, values)
+      : await fill(pdfBytes, values);
+
+    if (!result.pdfBytes || result.error) {
+      errors.push({ row, error: result.error || "Unknown error" });
+      if (!result.pdfBytes) continue;
+    }
+
+    const label = fileNameColumn ? safeFileName(String(record[fileNameColumn] ?? "")) : "";
+    let name = `${baseName}_${label || row}`;
+    if (usedNames.has(name)) name = `${name}_${row}`;
+    usedNames.add(name);
+
+    files.push({ name: `${name}.pdf`, row, bytes: result.pdfBytes });
+  }
+
+  log.info(
+    `[FormMerge] Generated ${files.length}/${records.length} forms (${errors.length} errors)`,
+  );
+  return { files, errors, unknownFields };
+}
+
+/**
+ * Package generated forms as a ZIP archive or one merged PDF
+ */
+export async function packageFormFiles(
+  files: FormMergeFile[],
+  output: "zip" | "merged",
+): Promise<Uint8Array> {
+  if (output === "merged") {
+    return mergePdfs(files.map((f) => f.bytes));
+  }
+
+  const zip = new JSZip();
+  for (const file of files) zip.file(file.name, file.bytes);
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+}
@@ -6,9 +6,11 @@
  *
  * This module provides:
  * - Text extraction with positions (for RAG citations)
+ * - Table detection into spreadsheets with per-cell page citations
  * - PDF merge/split operations
- * - Form filling and flattening
+ * - Form filling and flattening (single or one per spreadsheet row)
  * - PDF compression
+ * - Cross-document lookup by name and revision diffs
  * - Metadata extraction
  */
 
@@ -17,6 +19,7 @@ export {
   loadPdf,
   extractTextWithPositions,
   extractText,
+  extractTextRuns,
   searchTextWithPositions,
   getMetadata,
   mergePdfs,
@@ -26,6 +29,8 @@ export {
   fillFormFields,
   flattenForm,
   type TextWithPosition,
+  type TextRun,
+  type PageTextRuns,
   type PageContent,
   type SearchResultWithPosition,
   type PDFMetadata,
@@ -52,3 +57,48 @@ export {
   type CompressionResult,
   type CompressionOptions,
 } from "./compression-service";
+
+// Cross-document library and comparison
+export {
+  listPdfDocuments,
+  resolvePdfByName,
+  loadPdfBytes,
+  loadPdfPages,
+  createPdfArtifact,
+  type PdfDocumentRef,
+  type PdfResolution,
+  type CreatePdfArtifactOptions,
+} from "./pdf-library";
+
+export {
+  comparePdfPages,
+  type ComparablePage,
+  type DiffHunk,
+  type DiffSide,
+  type PdfComparison,
+} from "./pdf-compare";
+
+// Form mail-merge from spreadsheet rows
+export {
+  readSheetRecords,
+  suggestFieldMapping,
+  buildFieldValues,
+  fillFormForRecords,
+  packageFormFiles,
+  type FieldMapping,
+  type SheetRecord,
+  type SheetRecords,
+  type FormMergeOptions,
+  type FormMergeFile,
+  type FormMergeResult,
+} from "./form-merge";
+
+// Table extraction into spreadsheets
+export {
+  detectTables,
+  tablesToWorkbook,
+  parseCellNumber,
+  type ExtractedTable,
+  type TableCell,
+  type TableDetectionOptions,
+} from "./table-extractor";
@@ -0,0 +1,194 @@
+/**
+ * PDF Compare
+ *
+ * Line-level textual diff between two revisions of a document.
+ * Every change cites the page(s) it sits on in both revisions so the
+ * agent can answer "what changed between v1 and v2" with [página N] refs.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ComparablePage {
+  pageNumber: number;
+  content: string;
+}
+
+export interface DiffSide {
+  /** Pages the lines come from; for an empty side, the page where the change would sit */
+  pages: number[];
+  lines: string[];
+}
+
+export interface DiffHunk {
+  kind: "added" | "removed" | "changed";
+  before: DiffSide;
+  after: DiffSide;
+}
+
+export interface PdfComparison {
+  identical: boolean;
+  hunks: DiffHunk[];
+  stats: { added: number; removed: number; unchanged: number };
+}
+
+interface Line {
+  text: string;
+  key: string;
+  pageNumber: number;
+}
+
+type Op =
+  | { type: "equal"; before: Line; after: Line }
+  | { type: "remove"; line: Line }
+  | { type: "add"; line: Line };
+
+// Above this many LCS cells the diff is done page by page instead
+const MAX_LCS_CELLS = 4_000_000;
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+function toLines(pages: ComparablePage[]): Line[] {
+  const lines: Line[] = [];
+  for (const page of pages) {
+    for (const raw of page.content.split(/\r?\n/)) {
+      const text = raw.replace(/\s+/g, " ").trim();
+      if (text) lines.push({ text, key: text.toLowerCase(), pageNumber: page.pageNumber });
+    }
+  }
+  return lines;
+}
+
+function diffLines(a: Line[], b: Line[]): Op[] {
+  // Common prefix/suffix keep the LCS table small for typical revisions
+  let start = 0;
+  while (start < a.length && start < b.length && a[start].key === b[start].key) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1].key === b[endB - 1].key) {
+    endA--;
+    endB--;
+  }
+
+  const ops: Op[] = [];
+  for (let i = 0; i < start; i++) ops.push({ type: "equal", before: a[i], after: b[i] });
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+  const table: Uint32Array[] = [];
+  for (let i = 0; i <= n; i++) table.push(new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] =
+        midA[i].key === midB[j].key
+          ? table[i + 1][j + 1] + 1
+          : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i].key === midB[j].key) {
+      ops.push({ type: "equal", before: midA[i++], after: midB[j++] });
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      ops.push({ type: "remove", line: midA[i++] });
+    } else {
+      ops.push({ type: "add", line: midB[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: "remove", line: midA[i++] });
+  while (j < m) ops.push({ type: "add", line: midB[j++] });
+
+  for (let k = endA; k < a.length; k++) {
+    ops.push({ type: "equal", before: a[k], after: b[k - endA + endB] });
+  }
+  return ops;
+}
+
+function uniquePages(lines: Line[]): number[] {
+  return [...new Set(lines.map((l) => l.pageNumber))];
+}
+
+function buildHunks(ops: Op[]): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let removed: Line[] = [];
+  let added: Line[] = [];
+  // Last pages seen in each revision, used to anchor one-sided changes
+  let anchorBefore = 1;
+  let anchorAfter = 1;
+
+  const flush = () => {
+    if (removed.length === 0 && added.length === 0) return;
+    hunks.push({
+      kind: removed.length === 0 ? "added" : added.length === 0 ? "removed" : "changed",
+      before: {
+        pages: removed.length > 0 ? uniquePages(removed) : [anchorBefore],
+        lines: removed.map((l) => l.text),
+      },
+      after: {
+        pages: added.length > 0 ? uniquePages(added) : [anchorAfter],
+        lines: added.map((l) => l.text),
+      },
+    });
+    removed = [];
+    added = [];
+  };
+
+  for (const op of ops) {
+    if (op.type === "equal") {
+      flush();
+      anchorBefore = op.before.pageNumber;
+      anchorAfter = op.after.pageNumber;
+    } else if (op.type === "remove") {
+      removed.push(op.line);
+    } else {
+      added.push(op.line);
+    }
+  }
+  flush();
+  return hunks;
+}
+
+/**
+ * Compare the text of two PDF revisions page by page
+ */
+export function comparePdfPages(
+  before: ComparablePage[],
+  after: ComparablePage[],
+): PdfComparison {
+  const linesBefore = toLines(before);
+  const linesAfter = toLines(after);
+
+  let ops: Op[];
+  if (linesBefore.length * linesAfter.length <= MAX_LCS_CELLS) {
+    ops = diffLines(linesBefore, linesAfter);
+  } else {
+    // Very large documents: align pages by number and diff each pair
+    ops = [];
+    const pageCount = Math.max(before.length, after.length);
+    for (let p = 0; p < pageCount; p++) {
+      ops.push(
+        ...diffLines(
+          toLines(before[p] ? [before[p]] : []),
+          toLines(after[p] ? [after[p]] : []),
+        ),
+      );
+    }
+  }
+
+  const stats = { added: 0, removed: 0, unchanged: 0 };
+  for (const op of ops) {
+    if (op.type === "equal") stats.unchanged++;
+    else if (op.type === "add") stats.added++;
+    else stats.removed++;
+  }
+
+  const hunks = buildHunks(ops);
+  return { identical: hunks.length === 0, hunks, stats };
+}
@@ -0,0 +1,265 @@
+/**
+ * PDF Library
+ *
+ * Resolves PDFs available to an agent by name so tools can work across
+ * documents: chat attachments, knowledge documents (chat_files) and PDF
+ * artifacts. Also persists agent-generated PDFs as new artifacts.
+ */
+
+import log from "electron-log";
+import { supabase } from "../supabase/client";
+import { sendToRenderer } from "../window-manager";
+import { extractTextWithPositions, getPageCount } from "./pdf-service";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PdfDocumentRef {
+  source: "chat_file" | "artifact";
+  id: string;
+  name: string;
+  chatId: string | null;
+  createdAt: string;
+  pageCount?: number;
+  /** Extracted pages stored with chat_files (if processed) */
+  pages?: Array<{ pageNumber: number; content: string; wordCount: number }>;
+  storagePath?: string;
+  url?: string;
+}
+
+export type PdfResolution =
+  | { status: "found"; document: PdfDocumentRef }
+  | { status: "not_found" }
+  | { status: "ambiguous"; candidates: PdfDocumentRef[] };
+
+export interface CreatePdfArtifactOptions {
+  userId: string;
+  chatId: string;
+  name: string;
+  bytes: Uint8Array;
+}
+
+// ============================================================================
+// Listing & resolution
+// ============================================================================
+
+/**
+ * List PDFs the user can reference from a chat.
+ * Documents of the current chat come first, newest first within each group.
+ */
+export async function listPdfDocuments(
+  userId: string,
+  chatId?: string,
+): Promise<PdfDocumentRef[]> {
+  const [filesResult, artifactsResult] = await Promise.all([
+    supabase
+      .from("chat_files")
+      .select("id, chat_id, filename, storage_path, pages, created_at")
+      .eq("user_id", userId)
+      .or("content_type.eq.application/pdf,content_type.ilike.%pdf%,filename.ilike.%.pdf")
+      .order("created_at", { ascending: false }),
+    supabase
+      .from("artifacts")
+      .select("id, chat_id, name, content, pdf_url, pdf_page_count, created_at")
+      .eq("user_id", userId)
+      .eq("type", "pdf")
+      .order("created_at", { ascending: false }),
+  ]);
+
+  if (filesResult.error) {
+    log.error("[PdfLibrary] Error fetching chat_files:", filesResult.error);
+  }
+  if (artifactsResult.error) {
+    log.error("[PdfLibrary] Error fetching artifacts:", artifactsResult.error);
+  }
+
+  const documents: PdfDocumentRef[] = [
+    ...(filesResult.data || []).map((file) => ({
+      source: "chat_file" as const,
+      id: file.id,
+      name: file.filename,
+      chatId: file.chat_id,
+      createdAt: file.created_at,
+      pageCount: file.pages?.length || undefined,
+      pages: file.pages || undefined,
+      storagePath: file.storage_path,
+    })),
+    ...(artifactsResult.data || []).map((artifact) => ({
+      source: "artifact" as const,
+      id: artifact.id,
+      name: artifact.name,
+      chatId: artifact.chat_id,
+      createdAt: artifact.created_at,
+      pageCount: artifact.pdf_page_count || undefined,
+      url:
+        artifact.pdf_url ||
+        (typeof artifact.content === "string" &&
+        artifact.content.startsWith("http")
+          ? artifact.content
+          : undefined),
+    })),
+  ];
+
+  const rank = (doc: PdfDocumentRef) => (chatId && doc.chatId === chatId ? 0 : 1);
+  return documents.sort(
+    (a, b) =>
+      rank(a) - rank(b) ||
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+  );
+}
+
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\.pdf$/, "")
+    .replace(/[_\-.]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Resolve a user-facing document name against a list of PDFs.
+ * Exact names (with or without ".pdf") win; otherwise every word of the
+ * query must appear in the name. Matches in the current chat are preferred.
+ */
+export function resolvePdfByName(
+  documents: PdfDocumentRef[],
+  query: string,
+  chatId?: string,
+): PdfResolution {
+  const wanted = normalizeName(query);
+  if (!wanted) return { status: "not_found" };
+
+  const exact = documents.filter((doc) => normalizeName(doc.name) === wanted);
+  const words = wanted.split(" ");
+  const candidates =
+    exact.length > 0
+      ? exact
+      : documents.filter((doc) => {
+          const name = normalizeName(doc.name);
+          return words.every((word) => name.includes(word));
+        });
+
+  if (candidates.length === 0) return { status: "not_found" };
+  if (candidates.length === 1) {
+    return { status: "found", document: candidates[0] };
+  }
+
+  const inChat = chatId
+    ? candidates.filter((doc) => doc.chatId === chatId)
+    : [];
+  if (inChat.length === 1) return { status: "found", document: inChat[0] };
+
+  return { status: "ambiguous", candidates };
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Download the raw bytes of a PDF
+ */
+export async function loadPdfBytes(doc: PdfDocumentRef): Promise<Uint8Array> {
+  if (doc.source === "chat_file" && doc.storagePath) {
+    const { data, error } = await supabase.storage
+      .from("attachments")
+      .download(doc.storagePath);
+    if (error || !data) {
+      throw new Error(`Failed to download ${doc.name}: ${error?.message}`);
+    }
+    return new Uint8Array(await data.arrayBuffer());
+  }
+
+  if (doc.url) {
+    const response = await fetch(doc.url);
+    if (!response.ok) {
+      throw new Error(`Failed to download ${doc.name}: HTTP ${response.status}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  throw new Error(`No stored file for ${doc.name}`);
+}
+
+/**
+ * Get page texts of a PDF, reusing extracted pages when stored
+ */
+export async function loadPdfPages(
+  doc: PdfDocumentRef,
+  bytes?: Uint8Array,
+): Promise<Array<{ pageNumber: number; content: string }>> {
+  if (doc.pages && doc.pages.length > 0) return doc.pages;
+  const pages = await extractTextWithPositions(bytes ?? (await loadPdfBytes(doc)));
+  return pages.map((p) => ({ pageNumber: p.pageNumber, content: p.content }));
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * Save generated PDF bytes as a new PDF artifact in the chat
+ */
+export async function createPdfArtifact(
+  options: CreatePdfArtifactOptions,
+): Promise<{ artifactId: string; url: string; pageCount: number }> {
+  const { userId, chatId, bytes } = options;
+  const name = options.name.toLowerCase().endsWith(".pdf")
+    ? options.name
+    : `${options.name}.pdf`;
+  const pageCount = await getPageCount(bytes);
+
+  const { data: artifact, error } = await supabase
+    .from("artifacts")
+    .insert({
+      chat_id: chatId,
+      user_id: userId,
+      type: "pdf",
+      name,
+      content: null,
+      pdf_page_count: pageCount,
+    })
+    .select("id")
+    .single();
+
+  if (error || !artifact) {
+    throw new Error(`Failed to create PDF artifact: ${error?.message}`);
+  }
+
+  const storagePath = `artifacts/${artifact.id}.pdf`;
+  const { error: uploadError } = await supabase.storage
+    .from("artifacts")
+    .upload(storagePath, bytes, {
+      cacheControl: "3600",
+      upsert: true,
+      contentType: "application/pdf",
+    });
+
+  if (uploadError) {
+    await supabase.from("artifacts").delete().eq("id", artifact.id);
+    throw new Error(`Failed to upload PDF: ${uploadError.message}`);
+  }
+
+  const { data: urlData } = supabase.storage
+    .from("artifacts")
+    .getPublicUrl(storagePath);
+
+  await supabase
+    .from("artifacts")
+    .update({ pdf_url: urlData.publicUrl, updated_at: new Date().toISOString() })
+    .eq("id", artifact.id);
+
+  sendToRenderer("artifact:created", {
+    type: "pdf",
+    id: artifact.id,
+    artifactId: artifact.id,
+    name,
+    chatId,
+    userId,
+  });
+
+  log.info(`[PdfLibrary] Created PDF artifact ${name} (${pageCount} pages)`);
+  return { artifactId: artifact.id, url: urlData.publicUrl, pageCount };
+}
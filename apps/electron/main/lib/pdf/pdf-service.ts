@@ -43,6 +43,25 @@ export interface PageContent {
   lines: TextWithPosition[];
 }
 
+/**
+ * A run of text without wide gaps (roughly one table cell)
+ */
+export interface TextRun {
+  text: string;
+  boundingBox: BoundingBox;
+  fontSize: number;
+}
+
+/**
+ * Page text split into positioned runs (for layout analysis)
+ */
+export interface PageTextRuns {
+  pageNumber: number;
+  width: number;
+  height: number;
+  runs: TextRun[];
+}
+
 /**
  * Search result with exact position for highlighting
  */
@@ -111,6 +130,64 @@ export async function extractTextWithPositions(
   return pages;
 }
 
+/**
+ * Extract positioned text runs per page.
+ * Spans are split wherever the horizontal gap between characters is wider
+ * than a word space, so column-aligned text yields one run per cell.
+ */
+export async function extractTextRuns(
+  pdfBytes: Uint8Array,
+): Promise<PageTextRuns[]> {
+  const pdf = await loadPdf(pdfBytes);
+
+  return pdf.extractText().map((pageText) => {
+    const runs: TextRun[] = [];
+
+    for (const line of pageText.lines) {
+      for (const span of line.spans) {
+        const maxGap = span.fontSize * 0.8;
+        let chars: typeof span.chars = [];
+        let lastRight = -Infinity;
+
+        const flush = () => {
+          const visible = chars.filter((c) => c.char.trim());
+          if (visible.length === 0) return;
+          const left = Math.min(...visible.map((c) => c.bbox.x));
+          const right = Math.max(...visible.map((c) => c.bbox.x + c.bbox.width));
+          const bottom = Math.min(...visible.map((c) => c.bbox.y));
+          const top = Math.max(...visible.map((c) => c.bbox.y + c.bbox.height));
+          runs.push({
+            text: chars.map((c) => c.char).join("").replace(/\s+/g, " ").trim(),
+            boundingBox: { x: left, y: bottom, width: right - left, height: top - bottom },
+            fontSize: span.fontSize,
+          });
+        };
+
+        for (const char of span.chars) {
+          if (!char.char.trim()) {
+            chars.push(char);
+            continue;
+          }
+          if (char.bbox.x - lastRight > maxGap) {
+            flush();
+            chars = [];
+          }
+          chars.push(char);
+          lastRight = char.bbox.x + char.bbox.width;
+        }
+        flush();
+      }
+    }
+
+    return {
+      pageNumber: pageText.pageIndex + 1,
+      width: pageText.width,
+      height: pageText.height,
+      runs,
+    };
+  });
+}
+
 /**
  * Extract plain text from PDF (for simple RAG without positions)
  */
@@ -0,0 +1,401 @@
+/**
+ * PDF Table Extractor
+ *
+ * Reconstructs tables from positioned text runs: runs are clustered into
+ * rows by baseline and into columns by overlapping x-extents. Tables that
+ * continue on the next page (optionally repeating their header) are joined.
+ * Every extracted cell keeps the page and bounding box it came from.
+ */
+
+import type { PageCitation } from "@s-agi/core/types/citations";
+import type { BoundingBox, PageTextRuns, TextRun } from "./pdf-service";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TableCell {
+  text: string;
+  pageNumber: number;
+  /** Union of the runs in the cell (PDF coordinates); null for empty cells */
+  boundingBox: BoundingBox | null;
+  pageWidth: number;
+  pageHeight: number;
+}
+
+export interface ExtractedTable {
+  /** Pages the table spans */
+  pages: number[];
+  columnCount: number;
+  header: TableCell[] | null;
+  rows: TableCell[][];
+}
+
+export interface TableDetectionOptions {
+  /** Minimum rows (including the header) */
+  minRows?: number;
+  minColumns?: number;
+}
+
+interface RunRow {
+  runs: TextRun[];
+  center: number;
+  top: number;
+  bottom: number;
+}
+
+interface PageTable {
+  pageNumber: number;
+  /** Left edges of the column bands, for matching continuations */
+  columnStarts: number[];
+  pageWidth: number;
+  rows: TableCell[][];
+}
+
+// Runs longer than this (median) are prose, not table cells
+const MAX_MEDIAN_CELL_LENGTH = 40;
+
+// ============================================================================
+// Geometry helpers
+// ============================================================================
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function unionBox(boxes: BoundingBox[]): BoundingBox | null {
+  if (boxes.length === 0) return null;
+  const left = Math.min(...boxes.map((b) => b.x));
+  const bottom = Math.min(...boxes.map((b) => b.y));
+  const right = Math.max(...boxes.map((b) => b.x + b.width));
+  const top = Math.max(...boxes.map((b) => b.y + b.height));
+  return { x: left, y: bottom, width: right - left, height: top - bottom };
+}
+
+/**
+ * Cluster runs into visual rows, top of the page first
+ */
+function groupRows(runs: TextRun[]): RunRow[] {
+  const sorted = [...runs].sort(
+    (a, b) =>
+      b.boundingBox.y + b.boundingBox.height / 2 -
+      (a.boundingBox.y + a.boundingBox.height / 2),
+  );
+
+  const rows: RunRow[] = [];
+  for (const run of sorted) {
+    const box = run.boundingBox;
+    const center = box.y + box.height / 2;
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row.center - center) <= Math.max(box.height, 1) / 2) {
+      row.runs.push(run);
+      row.top = Math.max(row.top, box.y + box.height);
+      row.bottom = Math.min(row.bottom, box.y);
+    } else {
+      rows.push({ runs: [run], center, top: box.y + box.height, bottom: box.y });
+    }
+  }
+
+  for (const row of rows) row.runs.sort((a, b) => a.boundingBox.x - b.boundingBox.x);
+  return rows;
+}
+
+/**
+ * Column bands: union of overlapping x-extents of multi-cell rows
+ */
+function columnBands(rows: RunRow[], minColumns: number): Array<[number, number]> {
+  const intervals = rows
+    .filter((row) => row.runs.length >= minColumns)
+    .flatMap((row) =>
+      row.runs.map((run): [number, number] => [
+        run.boundingBox.x,
+        run.boundingBox.x + run.boundingBox.width,
+      ]),
+    )
+    .sort((a, b) => a[0] - b[0]);
+
+  const bands: Array<[number, number]> = [];
+  for (const [start, end] of intervals) {
+    const last = bands[bands.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else bands.push([start, end]);
+  }
+  return bands;
+}
+
+function bandIndex(run: TextRun, bands: Array<[number, number]>): number {
+  const start = run.boundingBox.x;
+  const end = start + run.boundingBox.width;
+  let best = 0;
+  let bestOverlap = -Infinity;
+  bands.forEach(([left, right], i) => {
+    const overlap = Math.min(end, right) - Math.max(start, left);
+    if (overlap > bestOverlap) {
+      bestOverlap = overlap;
+      best = i;
+    }
+  });
+  return best;
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Split a page's rows into candidate blocks: consecutive rows with several
+ * cells. A single-cell row is kept when a multi-cell row follows or it sits
+ * tight under the previous row (wrapped cell text or a sparse row).
+ */
+function candidateBlocks(rows: RunRow[], minColumns: number): RunRow[][] {
+  const lineHeight = median(rows.map((r) => r.top - r.bottom)) || 10;
+  const blocks: RunRow[][] = [];
+  let block: RunRow[] = [];
+
+  rows.forEach((row, i) => {
+    const previous = block[block.length - 1];
+    const next = rows[i + 1];
+    const isMulti = row.runs.length >= minColumns;
+    const gap = previous ? previous.bottom - row.top : 0;
+    const joins =
+      isMulti ||
+      (block.length > 0 &&
+        ((!!next && next.runs.length >= minColumns) || gap <= lineHeight / 2));
+    const tooFar = gap > lineHeight * 2;
+
+    if (!joins || tooFar) {
+      if (block.length > 0) blocks.push(block);
+      block = [];
+    }
+    if (isMulti || (joins && block.length > 0)) block.push(row);
+  });
+  if (block.length > 0) blocks.push(block);
+
+  return blocks;
+}
+
+function tablesOnPage(page: PageTextRuns, minRows: number, minColumns: number): PageTable[] {
+  const tables: PageTable[] = [];
+
+  for (const block of candidateBlocks(groupRows(page.runs), minColumns)) {
+    const bands = columnBands(block, minColumns);
+    if (bands.length < minColumns) continue;
+
+    const lengths = block.flatMap((row) => row.runs.map((run) => run.text.length));
+    if (median(lengths) > MAX_MEDIAN_CELL_LENGTH) continue;
+
+    const rows: TableCell[][] = [];
+    for (const row of block) {
+      const grouped: TextRun[][] = bands.map(() => []);
+      for (const run of row.runs) grouped[bandIndex(run, bands)].push(run);
+
+      const cells = grouped.map((runs) => ({
+        text: runs.map((r) => r.text).join(" "),
+        pageNumber: page.pageNumber,
+        boundingBox: unionBox(runs.map((r) => r.boundingBox)),
+        pageWidth: page.width,
+        pageHeight: page.height,
+      }));
+
+      // Wrapped text: a row with an empty first column continues the previous row
+      const previous = rows[rows.length - 1];
+      if (previous && !cells[0].text && row.runs.length < minColumns) {
+        cells.forEach((cell, i) => {
+          if (!cell.text) return;
+          const target = previous[i];
+          target.text = target.text ? `${target.text} ${cell.text}` : cell.text;
+          target.boundingBox = unionBox(
+            [target.boundingBox, cell.boundingBox].filter((b): b is BoundingBox => !!b),
+          );
+        });
+        continue;
+      }
+      rows.push(cells);
+    }
+
+    // Trailing sparse rows are text below the table, not part of it
+    while (
+      rows.length > 0 &&
+      rows[rows.length - 1].filter((cell) => cell.text).length < minColumns
+    ) {
+      rows.pop();
+    }
+
+    if (rows.length >= minRows) {
+      tables.push({
+        pageNumber: page.pageNumber,
+        columnStarts: bands.map(([start]) => start),
+        pageWidth: page.width,
+        rows,
+      });
+    }
+  }
+
+  return tables;
+}
+
+function sameTexts(a: TableCell[], b: TableCell[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every((cell, i) => cell.text.trim().toLowerCase() === b[i].text.trim().toLowerCase())
+  );
+}
+
+function isNumeric(text: string): boolean {
+  return parseCellNumber(text) !== null;
+}
+
+function looksLikeHeader(row: TableCell[]): boolean {
+  return row.every((cell) => cell.text && !isNumeric(cell.text));
+}
+
+/**
+ * Detect tables across all pages of a document
+ */
+export function detectTables(
+  pages: PageTextRuns[],
+  options: TableDetectionOptions = {},
+): ExtractedTable[] {
+  const { minRows = 2, minColumns = 2 } = options;
+  const tables: ExtractedTable[] = [];
+  let previous: { table: ExtractedTable; pageTable: PageTable } | null = null;
+
+  for (const page of [...pages].sort((a, b) => a.pageNumber - b.pageNumber)) {
+    const pageTables = tablesOnPage(page, minRows, minColumns);
+
+    pageTables.forEach((pageTable, index) => {
+      const columnCount = pageTable.columnStarts.length;
+      let rows = pageTable.rows;
+
+      // Continuation: first table of this page after the last table of the previous page
+      if (
+        index === 0 &&
+        previous &&
+        previous.pageTable.pageNumber === page.pageNumber - 1 &&
+        previous.table.columnCount === columnCount
+      ) {
+        const { table } = previous;
+        const repeatsHeader = !!table.header && sameTexts(table.header, rows[0]);
+        const tolerance = page.width * 0.05;
+        const aligned = pageTable.columnStarts.every(
+          (start, i) => Math.abs(start - previous!.pageTable.columnStarts[i]) <= tolerance,
+        );
+
+        if (repeatsHeader || aligned) {
+          if (repeatsHeader) rows = rows.slice(1);
+          table.rows.push(...rows);
+          table.pages.push(page.pageNumber);
+          previous = { table, pageTable };
+          return;
+        }
+      }
+
+      const [first, ...rest] = rows;
+      const table: ExtractedTable = looksLikeHeader(first)
+        ? { pages: [page.pageNumber], columnCount, header: first, rows: rest }
+        : { pages: [page.pageNumber], columnCount, header: null, rows };
+      tables.push(table);
+      previous = { table, pageTable };
+    });
+
+    // Only the last table of a page can continue on the next one
+    if (pageTables.length === 0) previous = null;
+  }
+
+  return tables;
+}
+
+// ============================================================================
+// Spreadsheet conversion
+// ============================================================================
+
+/**
+ * Parse numbers as printed in reports: "1,234.50", "$ 99", "(120)"
+ */
+export function parseCellNumber(text: string): number | null {
+  const trimmed = text.trim();
+  const match = trimmed.match(/^(\()?([-+])?\s*[$€£]?\s*([0-9]{1,3}(?:,[0-9]{3})+|[0-9]+)(\.[0-9]+)?(\))?$/);
+  if (!match) return null;
+  const [, open, sign, integer, decimals = "", close] = match;
+  if (!!open !== !!close) return null;
+
+  const value = Number(integer.replace(/,/g, "") + decimals);
+  return open || sign === "-" ? -value : value;
+}
+
+/**
+ * Build a Univer workbook (one sheet per table). Each cell stores its
+ * source as a PageCitation in `custom.citation`.
+ */
+export function tablesToWorkbook(
+  tables: ExtractedTable[],
+  options: { name: string; filename: string },
+): Record<string, unknown> {
+  const sheets: Record<string, unknown> = {};
+  const sheetOrder: string[] = [];
+  let citationId = 1;
+
+  const toCell = (cell: TableCell, isHeader: boolean) => {
+    const citation: PageCitation = {
+      type: "page",
+      id: citationId++,
+      filename: options.filename,
+      pageNumber: cell.pageNumber,
+      text: cell.text,
+      boundingBox: cell.boundingBox ?? undefined,
+      pageWidth: cell.pageWidth,
+      pageHeight: cell.pageHeight,
+    };
+    const number = isHeader ? null : parseCellNumber(cell.text);
+    return {
+      v: number ?? cell.text,
+      t: number === null ? 1 : 2,
+      ...(isHeader ? { s: { bl: 1, bg: { rgb: "#f3f4f6" } } } : {}),
+      custom: { citation },
+    };
+  };
+
+  tables.forEach((table, index) => {
+    const sheetId = `sheet${index + 1}`;
+    const rows = table.header ? [table.header, ...table.rows] : table.rows;
+    const cellData: Record<number, Record<number, unknown>> = {};
+    const widths = new Array<number>(table.columnCount).fill(0);
+
+    rows.forEach((row, r) => {
+      cellData[r] = {};
+      row.forEach((cell, c) => {
+        widths[c] = Math.max(widths[c], cell.text.length);
+        if (cell.text) cellData[r][c] = toCell(cell, !!table.header && r === 0);
+      });
+    });
+
+    const pages =
+      table.pages.length > 1
+        ? `p. ${table.pages[0]}-${table.pages[table.pages.length - 1]}`
+        : `p. ${table.pages[0]}`;
+
+    sheetOrder.push(sheetId);
+    sheets[sheetId] = {
+      id: sheetId,
+      name: `Table ${index + 1} (${pages})`,
+      rowCount: Math.max(100, rows.length + 10),
+      columnCount: Math.max(26, table.columnCount + 2),
+      cellData,
+      tabColor: "",
+      defaultColumnWidth: 100,
+      defaultRowHeight: 24,
+      columnData: Object.fromEntries(
+        widths.map((w, i) => [String(i), { w: Math.min(300, Math.max(60, w * 7 + 16)) }]),
+      ),
+    };
+  });
+
+  return {
+    id: crypto.randomUUID(),
+    name: options.name,
+    sheetOrder,
+    sheets,
+  };
+}
@@ -0,0 +1,238 @@
+import { basename, extname, join } from 'path'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { copyFile, readFile, readdir, stat, unlink } from 'fs/promises'
+import log from 'electron-log'
+import { TEXT_LANGUAGES } from '@s-agi/core/utils/detect-language'
+import { supabase } from '../supabase/client'
+import { getStoragePaths } from '../storage'
+
+export interface DictionaryPack {
+    /** Hunspell locale from the file name, e.g. "pt_BR" */
+    id: string
+    /** Language code the paragraphs are routed by, e.g. "pt" */
+    language: string
+    /** Bundled packs ship with the app; installed ones live in userData */
+    source: 'bundled' | 'installed'
+    enabled: boolean
+    sizeBytes?: number
+}
+
+export interface DictionaryPackFiles {
+    aff: string
+    dic: string
+}
+
+interface DictionarySettings {
+    /** Pack ids turned off in the writing settings */
+    disabled: string[]
+}
+
+// Served by the renderer from /dictionaries
+const BUNDLED_PACKS = ['en_US', 'es_ES']
+const SETTINGS_FILE = 'dictionary-settings.json'
+const MAX_WORD_LENGTH = 64
+const PACK_ID = /^[A-Za-z]{2,3}(?:[_-][A-Za-z0-9]{2,8})*$/
+
+export function packLanguage(id: string): string {
+    return id.split(/[_-]/)[0].toLowerCase()
+}
+
+// Paragraphs are routed by detected language, so a pack is only useful in a
+// language detection can tell apart
+function isRoutable(id: string): boolean {
+    return (TEXT_LANGUAGES as readonly string[]).includes(packLanguage(id))
+}
+
+/**
+ * Hunspell packs for spell checking and the personal word list. Packs are
+ * installed per machine; the word list belongs to the account and syncs
+ * through Supabase.
+ */
+export class DictionaryService {
+    private packsDir: string
+    private settingsPath: string
+    private settings: DictionarySettings
+
+    constructor() {
+        const { config, data } = getStoragePaths()
+        this.packsDir = join(data, 'dictionaries')
+        for (const dir of [config, this.packsDir]) {
+            if (!existsSync(dir)) {
+                mkdirSync(dir, { recursive: true })
+            }
+        }
+        this.settingsPath = join(config, SETTINGS_FILE)
+        this.settings = this.loadSettings()
+    }
+
+    private loadSettings(): DictionarySettings {
+        try {
+            if (existsSync(this.settingsPath)) {
+                const parsed = JSON.parse(readFileSync(this.settingsPath, 'utf-8')) as Partial<DictionarySettings>
+                return {
+                    disabled: Array.isArray(parsed.disabled)
+                        ? parsed.disabled.filter(id => typeof id === 'string')
+                        : []
+                }
+            }
+        } catch (error) {
+            log.error('[DictionaryService] Failed to load settings:', error)
+        }
+        return { disabled: [] }
+    }
+
+    private saveSettings(): void {
+        writeFileSync(this.settingsPath, JSON.stringify(this.settings, null, 2), 'utf-8')
+    }
+
+    private packPath(id: string, ext: '.aff' | '.dic'): string {
+        if (!PACK_ID.test(id)) {
+            throw new Error(`Invalid dictionary name: ${id}`)
+        }
+        return join(this.packsDir, id + ext)
+    }
+
+    async listPacks(): Promise<DictionaryPack[]> {
+        const disabled = new Set(this.settings.disabled)
+        const packs: DictionaryPack[] = BUNDLED_PACKS.map(id => ({
+            id,
+            language: packLanguage(id),
+            source: 'bundled',
+            enabled: !disabled.has(id)
+        }))
+
+        const files = new Set(await readdir(this.packsDir))
+        for (const file of [...files].sort()) {
+            if (extname(file) !== '.dic') continue
+            const id = basename(file, '.dic')
+            if (!PACK_ID.test(id) || !files.has(`${id}.aff`) || !isRoutable(id)) continue
+            const { size } = await stat(join(this.packsDir, file))
+            packs.push({
+                id,
+                language: packLanguage(id),
+                source: 'installed',
+                enabled: !disabled.has(id),
+                sizeBytes: size
+            })
+        }
+        return packs
+    }
+
+    /**
+     * Copy .aff/.dic pairs chosen on disk. Files pair up by name
+     * (pt_BR.aff + pt_BR.dic); an installed pack with the same name is replaced.
+     */
+    async install(paths: string[]): Promise<DictionaryPack[]> {
+        const pairs = new Map<string, { aff?: string; dic?: string }>()
+        for (const path of paths) {
+            const ext = extname(path).toLowerCase()
+            if (ext !== '.aff' && ext !== '.dic') continue
+            const id = basename(path, extname(path))
+            const pair = pairs.get(id) ?? {}
+            pair[ext === '.aff' ? 'aff' : 'dic'] = path
+            pairs.set(id, pair)
+        }
+
+        const incomplete = [...pairs].filter(([, pair]) => !pair.aff || !pair.dic).map(([id]) => id)
+        if (pairs.size === 0 || incomplete.length > 0) {
+            throw new Error(incomplete.length > 0
+                ? `Select both the .aff and the .dic file for: ${incomplete.join(', ')}`
+                : 'Select a .aff file and its .dic file')
+        }
+
+        for (const [id, pair] of pairs) {
+            if (BUNDLED_PACKS.includes(id)) {
+                throw new Error(`${id} is already bundled with the app`)
+            }
+            if (!isRoutable(id)) {
+                throw new Error(`${id} is not supported: dictionaries can be installed for ${TEXT_LANGUAGES.join(', ')}`)
+            }
+            // The first line of a Hunspell .dic is its word count
+            const firstLine = (await readFile(pair.dic!, 'utf-8')).slice(0, 64).split(/\r?\n/)[0]
+            if (!/^\d+$/.test(firstLine.replace(/^\uFEFF/, '').trim())) {
+                throw new Error(`${basename(pair.dic!)} is not a Hunspell dictionary`)
+            }
+            await copyFile(pair.aff!, this.packPath(id, '.aff'))
+            await copyFile(pair.dic!, this.packPath(id, '.dic'))
+            this.settings.disabled = this.settings.disabled.filter(disabledId => disabledId !== id)
+            log.info(`[DictionaryService] Installed ${id}`)
+        }
+        this.saveSettings()
+        return this.listPacks()
+    }
+
+    async remove(id: string): Promise<DictionaryPack[]> {
+        if (BUNDLED_PACKS.includes(id)) {
+            throw new Error('Bundled dictionaries can be turned off but not removed')
+        }
+        await unlink(this.packPath(id, '.aff')).catch(() => undefined)
+        await unlink(this.packPath(id, '.dic')).catch(() => undefined)
+        this.settings.disabled = this.settings.disabled.filter(disabledId => disabledId !== id)
+        this.saveSettings()
+        return this.listPacks()
+    }
+
+    async setEnabled(id: string, enabled: boolean): Promise<DictionaryPack[]> {
+        const disabled = new Set(this.settings.disabled)
+        if (enabled) {
+            disabled.delete(id)
+        } else {
+            disabled.add(id)
+        }
+        this.settings.disabled = [...disabled]
+        this.saveSettings()
+        return this.listPacks()
+    }
+
+    /**
+     * Contents of an installed pack, for the renderer's spell checker
+     */
+    async readPack(id: string): Promise<DictionaryPackFiles> {
+        const [aff, dic] = await Promise.all([
+            readFile(this.packPath(id, '.aff'), 'utf-8'),
+            readFile(this.packPath(id, '.dic'), 'utf-8')
+        ])
+        return { aff, dic }
+    }
+
+    async listWords(userId: string): Promise<string[]> {
+        const { data, error } = await supabase
+            .from('user_dictionary_words')
+            .select('word')
+            .eq('user_id', userId)
+            .order('word', { ascending: true })
+        if (error) throw new Error(error.message)
+        return (data ?? []).map(row => row.word as string)
+    }
+
+    async addWord(userId: string, word: string): Promise<string[]> {
+        const trimmed = word.trim()
+        if (!trimmed || trimmed.length > MAX_WORD_LENGTH || /\s/.test(trimmed)) {
+            throw new Error('Add a single word')
+        }
+        const { error } = await supabase
+            .from('user_dictionary_words')
+            .upsert({ user_id: userId, word: trimmed }, { onConflict: 'user_id,word', ignoreDuplicates: true })
+        if (error) throw new Error(error.message)
+        return this.listWords(userId)
+    }
+
+    async removeWord(userId: string, word: string): Promise<string[]> {
+        const { error } = await supabase
+            .from('user_dictionary_words')
+            .delete()
+            .eq('user_id', userId)
+            .eq('word', word)
+        if (error) throw new Error(error.message)
+        return this.listWords(userId)
+    }
+}
+
+let serviceInstance: DictionaryService | null = null
+
+export function getDictionaryService(): DictionaryService {
+    if (!serviceInstance) {
+        serviceInstance = new DictionaryService()
+    }
+    return serviceInstance
+}
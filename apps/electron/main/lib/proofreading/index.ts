@@ -0,0 +1,2 @@
+export * from './proofreading-service'
+export * from './dictionary-service'
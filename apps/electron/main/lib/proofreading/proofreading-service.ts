@@ -0,0 +1,198 @@
+import { join } from 'path'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { generateObject } from 'ai'
+import { z } from 'zod'
+import log from 'electron-log'
+import type { AIProvider } from '@s-agi/core/types/ai'
+import { detectTextLanguage } from '@s-agi/core/utils/detect-language'
+import { checkText, locateSuggestions, mergeSuggestions } from '@s-agi/core/utils/proofreading'
+import type {
+    ProofreadingLanguage,
+    ProofreadingSuggestion,
+    StyleGuideTerm
+} from '@s-agi/core/utils/proofreading'
+import { getStoragePaths } from '../storage'
+import { getLanguageModel, getProviderStatus, isProviderAvailable } from '../ai/providers'
+
+export interface ProofreadingSettings {
+    /** Terms the team avoids, with the preferred wording */
+    styleGuide: StyleGuideTerm[]
+    /** Rules turned off with "ignore rule" */
+    ignoredRules: string[]
+}
+
+export interface ProofreadInput {
+    text: string
+    language?: ProofreadingLanguage
+    /** Also ask a model; rule suggestions come back even if it fails */
+    llm?: { provider: AIProvider; modelId?: string }
+}
+
+export interface ProofreadResult {
+    suggestions: ProofreadingSuggestion[]
+    /** Why the LLM pass failed, when one was requested */
+    llmError?: string
+}
+
+const SETTINGS_FILE = 'proofreading-settings.json'
+const MAX_STYLE_TERMS = 500
+// Longer documents only send their beginning to the model
+const MAX_LLM_CHARS = 12000
+
+const DEFAULT_MODELS: Partial<Record<AIProvider, string>> = {
+    zai: 'GLM-4.7-Flash',
+    claude: 'claude-haiku-4-5-20251001'
+}
+
+const LANGUAGE_NAMES: Record<ProofreadingLanguage, string> = {
+    es: 'Spanish',
+    en: 'English',
+    pt: 'Portuguese',
+    fr: 'French'
+}
+
+const llmIssuesSchema = z.object({
+    issues: z.array(z.object({
+        original: z.string().describe('Exact text copied from the input, only the few words that change'),
+        replacement: z.string().describe('Corrected text; repeat the original when it has to be reworded by hand'),
+        message: z.string().describe('One short sentence in Spanish explaining the issue'),
+        category: z.enum(['spelling', 'grammar', 'style'])
+    }))
+})
+
+function sanitizeStyleGuide(terms: StyleGuideTerm[]): StyleGuideTerm[] {
+    const seen = new Set<string>()
+    const result: StyleGuideTerm[] = []
+    for (const entry of terms) {
+        const term = entry.term?.trim()
+        if (!term || seen.has(term.toLowerCase())) continue
+        seen.add(term.toLowerCase())
+        result.push({
+            term,
+            ...(entry.replacement?.trim() ? { replacement: entry.replacement.trim() } : {}),
+            ...(entry.note?.trim() ? { note: entry.note.trim() } : {})
+        })
+    }
+    return result.slice(0, MAX_STYLE_TERMS)
+}
+
+/**
+ * Proofreading for documents and notes: the offline rules from @s-agi/core
+ * with the team's style guide, plus an optional LLM pass
+ */
+export class ProofreadingService {
+    private settingsPath: string
+    private settings: ProofreadingSettings
+
+    constructor() {
+        const configDir = getStoragePaths().config
+        if (!existsSync(configDir)) {
+            mkdirSync(configDir, { recursive: true })
+        }
+        this.settingsPath = join(configDir, SETTINGS_FILE)
+        this.settings = this.loadSettings()
+    }
+
+    private loadSettings(): ProofreadingSettings {
+        try {
+            if (existsSync(this.settingsPath)) {
+                const parsed = JSON.parse(readFileSync(this.settingsPath, 'utf-8')) as Partial<ProofreadingSettings>
+                return {
+                    styleGuide: Array.isArray(parsed.styleGuide) ? sanitizeStyleGuide(parsed.styleGuide) : [],
+                    ignoredRules: Array.isArray(parsed.ignoredRules)
+                        ? parsed.ignoredRules.filter(rule => typeof rule === 'string')
+                        : []
+                }
+            }
+        } catch (error) {
+            log.error('[ProofreadingService] Failed to load settings:', error)
+        }
+        return { styleGuide: [], ignoredRules: [] }
+    }
+
+    private saveSettings(): void {
+        writeFileSync(this.settingsPath, JSON.stringify(this.settings, null, 2), 'utf-8')
+    }
+
+    getSettings(): ProofreadingSettings {
+        return {
+            styleGuide: this.settings.styleGuide.map(term => ({ ...term })),
+            ignoredRules: [...this.settings.ignoredRules]
+        }
+    }
+
+    updateSettings(patch: Partial<ProofreadingSettings>): ProofreadingSettings {
+        this.settings = {
+            styleGuide: patch.styleGuide ? sanitizeStyleGuide(patch.styleGuide) : this.settings.styleGuide,
+            ignoredRules: patch.ignoredRules ? [...new Set(patch.ignoredRules)] : this.settings.ignoredRules
+        }
+        this.saveSettings()
+        return this.getSettings()
+    }
+
+    ignoreRule(ruleId: string): ProofreadingSettings {
+        return this.updateSettings({ ignoredRules: [...this.settings.ignoredRules, ruleId] })
+    }
+
+    restoreRule(ruleId: string): ProofreadingSettings {
+        return this.updateSettings({ ignoredRules: this.settings.ignoredRules.filter(rule => rule !== ruleId) })
+    }
+
+    /**
+     * Rule suggestions for the text, merged with the model's when requested.
+     * Rule suggestions win where both flag the same words.
+     */
+    async check(input: ProofreadInput): Promise<ProofreadResult> {
+        const { styleGuide, ignoredRules } = this.settings
+        const suggestions = checkText(input.text, { language: input.language, styleGuide, ignoredRules })
+        if (!input.llm) return { suggestions }
+
+        try {
+            const llmSuggestions = await this.llmPass(input.text, input.language, input.llm)
+            return { suggestions: mergeSuggestions(suggestions, llmSuggestions) }
+        } catch (error) {
+            log.error('[ProofreadingService] LLM pass failed:', error)
+            return {
+                suggestions,
+                llmError: error instanceof Error ? error.message : 'LLM pass failed'
+            }
+        }
+    }
+
+    private async llmPass(
+        text: string,
+        language: ProofreadingLanguage | undefined,
+        llm: NonNullable<ProofreadInput['llm']>
+    ): Promise<ProofreadingSuggestion[]> {
+        if (!isProviderAvailable(llm.provider)) {
+            const status = getProviderStatus(llm.provider)
+            throw new Error(status.message || `No credentials configured for ${llm.provider}`)
+        }
+
+        // Same length as the text, so quotes are found at the right offsets
+        const excerpt = text.slice(0, MAX_LLM_CHARS).replace(/\r/g, '\n')
+        const languageName = LANGUAGE_NAMES[language ?? detectTextLanguage(excerpt)]
+        const model = getLanguageModel(llm.provider, llm.modelId ?? DEFAULT_MODELS[llm.provider] ?? 'gpt-5-mini')
+
+        const { object } = await generateObject({
+            model: model as any,
+            schema: llmIssuesSchema,
+            system: `You are a careful copy editor for ${languageName} business documents.
+Report grammar, spelling and clarity issues that a rule checker would miss: wrong word choice, homophones, tense, punctuation, awkward or ambiguous sentences.
+Quote each issue exactly as written in the input, keeping the quote short. Do not report matters of taste, and return no issues for clean text.`,
+            prompt: excerpt
+        })
+
+        const { ignoredRules } = this.settings
+        return locateSuggestions(excerpt, object.issues, ignoredRules)
+    }
+}
+
+let serviceInstance: ProofreadingService | null = null
+
+export function getProofreadingService(): ProofreadingService {
+    if (!serviceInstance) {
+        serviceInstance = new ProofreadingService()
+    }
+    return serviceInstance
+}
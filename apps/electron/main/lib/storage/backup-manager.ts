@@ -8,6 +8,8 @@ export interface BackupEntry {
     label: string
     createdAt: string
     sizeBytes: number
+    /** Small descriptive fields stored next to the payload (owner, counts...) */
+    meta?: Record<string, unknown>
 }
 
 export class BackupManager {
@@ -24,6 +26,14 @@ export class BackupManager {
         await ensurePrivateDir(this.root)
     }
 
+    /**
+     * Change the retention (per account) and drop backups beyond it
+     */
+    async setMaxBackups(maxBackups: number): Promise<void> {
+        this.maxBackups = Math.max(1, maxBackups)
+        await this.pruneOld()
+    }
+
     private backupPath(id: string): string {
         return join(this.root, `${id}.json`)
     }
@@ -44,7 +54,8 @@ export class BackupManager {
                         id: parsed.id,
                         label: parsed.label,
                         createdAt: parsed.createdAt,
-                        sizeBytes: parsed.sizeBytes ?? 0
+                        sizeBytes: parsed.sizeBytes ?? Buffer.byteLength(raw),
+                        meta: parsed.meta
                     })
                 }
             } catch {
@@ -55,15 +66,15 @@ export class BackupManager {
         return entries.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
     }
 
-    async create<T>(label: string, payload: T): Promise<BackupEntry> {
+    async create<T>(label: string, payload: T, meta?: Record<string, unknown>): Promise<BackupEntry> {
         await ensureDir(this.root)
         const createdAt = new Date().toISOString()
         const id = `${createdAt.replace(/[:.]/g, '-')}`
-        const json = JSON.stringify({ id, label, createdAt, payload }, null, 2)
+        const json = JSON.stringify({ id, label, createdAt, meta, payload }, null, 2)
         await writeFile(this.backupPath(id), json, 'utf-8')
         const sizeBytes = Buffer.byteLength(json)
-        const entry: BackupEntry = { id, label, createdAt, sizeBytes }
-        await this.pruneOld()
+        const entry: BackupEntry = { id, label, createdAt, sizeBytes, meta }
+        await this.pruneOld({ userId: meta?.userId })
         return entry
     }
 
@@ -85,12 +96,20 @@ export class BackupManager {
         }
     }
 
-    private async pruneOld(): Promise<void> {
+    /**
+     * Keep the newest `maxBackups` of each owner (`meta.userId`). With `owner`,
+     * only that owner's backups are pruned.
+     */
+    private async pruneOld(owner?: { userId?: unknown }): Promise<void> {
         const entries = await this.list()
-        if (entries.length <= this.maxBackups) return
+        const counts = new Map<unknown, number>()
 
-        const toRemove = entries.slice(this.maxBackups)
-        for (const entry of toRemove) {
+        for (const entry of entries) {
+            const userId = entry.meta?.userId
+            if (owner && userId !== owner.userId) continue
+            const count = (counts.get(userId) ?? 0) + 1
+            counts.set(userId, count)
+            if (count <= this.maxBackups) continue
             try {
                 await rm(this.backupPath(entry.id), { force: true })
             } catch (err) {
@@ -1,4 +1,5 @@
 export * from './paths'
 export * from './cache-manager'
 export * from './template-store'
+export * from './template-placeholders'
 export * from './backup-manager'
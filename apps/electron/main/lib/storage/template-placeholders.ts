@@ -0,0 +1,169 @@
+/**
+ * Template placeholders: {{name}} markers inside template content.
+ *
+ * Spreadsheet and document templates are Univer snapshots, so placeholders can
+ * appear in any string (cell values, sheet names, document text). Document
+ * bodies keep formatting as index ranges over `dataStream`, so those indexes
+ * are shifted when a placeholder is replaced with text of another length.
+ */
+
+export type PlaceholderValue = string | number | boolean
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g
+const SINGLE_PLACEHOLDER_PATTERN = /^\{\{\s*([\w.-]+)\s*\}\}$/
+
+/** Body fields holding positions in `dataStream` */
+const BODY_INDEX_KEYS = new Set(['st', 'ed', 'startIndex', 'endIndex'])
+
+/** Univer CellValueType */
+const CELL_TYPE_NUMBER = 2
+const CELL_TYPE_BOOLEAN = 3
+
+/**
+ * Values always available to templates (user values take precedence)
+ */
+export function getBuiltinPlaceholderValues(now: Date = new Date()): Record<string, string> {
+    const pad = (n: number) => String(n).padStart(2, '0')
+    return {
+        date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+        year: String(now.getFullYear()),
+        month: pad(now.getMonth() + 1),
+        month_name: now.toLocaleString('es-ES', { month: 'long' })
+    }
+}
+
+/**
+ * List the placeholder names used anywhere in the content
+ */
+export function extractPlaceholders(content: unknown): string[] {
+    const found = new Set<string>()
+    const visit = (value: unknown) => {
+        if (typeof value === 'string') {
+            for (const match of value.matchAll(PLACEHOLDER_PATTERN)) {
+                found.add(match[1])
+            }
+        } else if (Array.isArray(value)) {
+            value.forEach(visit)
+        } else if (value && typeof value === 'object') {
+            Object.values(value).forEach(visit)
+        }
+    }
+    visit(content)
+    return [...found].sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * Replace placeholders in a template. Unknown placeholders are left in place and
+ * reported in `missing` so the caller can ask for them.
+ */
+export function fillTemplatePlaceholders<T>(
+    content: T,
+    values: Record<string, PlaceholderValue>,
+    now: Date = new Date()
+): { result: T; missing: string[] } {
+    const all: Record<string, PlaceholderValue> = { ...getBuiltinPlaceholderValues(now), ...values }
+    const missing = new Set<string>()
+
+    const replaceText = (text: string): string =>
+        text.replace(PLACEHOLDER_PATTERN, (marker, key: string) => {
+            if (key in all) return String(all[key])
+            missing.add(key)
+            return marker
+        })
+
+    const visit = (value: unknown): unknown => {
+        if (typeof value === 'string') {
+            return replaceText(value)
+        }
+        if (Array.isArray(value)) {
+            return value.map(visit)
+        }
+        if (!value || typeof value !== 'object') {
+            return value
+        }
+
+        const record = value as Record<string, unknown>
+        if (typeof record.dataStream === 'string') {
+            return fillDocumentBody(record, replaceText, visit)
+        }
+
+        const out: Record<string, unknown> = {}
+        for (const [key, child] of Object.entries(record)) {
+            out[key] = visit(child)
+        }
+
+        // A cell holding only "{{amount}}" takes the typed value
+        const single = typeof record.v === 'string' ? SINGLE_PLACEHOLDER_PATTERN.exec(record.v) : null
+        if (single && single[1] in all && typeof all[single[1]] !== 'string') {
+            out.v = all[single[1]]
+            if ('t' in record) {
+                out.t = typeof out.v === 'number' ? CELL_TYPE_NUMBER : CELL_TYPE_BOOLEAN
+            }
+        }
+        return out
+    }
+
+    return { result: visit(content) as T, missing: [...missing].sort((a, b) => a.localeCompare(b)) }
+}
+
+/**
+ * Replace placeholders in a Univer document body and move formatting ranges
+ */
+function fillDocumentBody(
+    body: Record<string, unknown>,
+    replaceText: (text: string) => string,
+    visit: (value: unknown) => unknown
+): Record<string, unknown> {
+    const source = body.dataStream as string
+    const edits: Array<{ start: number; end: number; delta: number }> = []
+    let dataStream = ''
+    let cursor = 0
+
+    for (const match of source.matchAll(PLACEHOLDER_PATTERN)) {
+        const start = match.index ?? 0
+        const end = start + match[0].length
+        const replacement = replaceText(match[0])
+        dataStream += source.slice(cursor, start) + replacement
+        edits.push({ start, end, delta: replacement.length - match[0].length })
+        cursor = end
+    }
+    dataStream += source.slice(cursor)
+
+    const mapIndex = (index: number): number => {
+        let shift = 0
+        for (const edit of edits) {
+            if (index >= edit.end) {
+                shift += edit.delta
+            } else if (index > edit.start) {
+                // Inside a replaced marker: clamp to the replacement
+                return edit.start + shift + Math.min(index - edit.start, edit.end - edit.start + edit.delta)
+            } else {
+                break
+            }
+        }
+        return index + shift
+    }
+
+    const remap = (value: unknown): unknown => {
+        if (Array.isArray(value)) return value.map(remap)
+        if (!value || typeof value !== 'object') return value
+        const out: Record<string, unknown> = {}
+        for (const [key, child] of Object.entries(value)) {
+            out[key] = BODY_INDEX_KEYS.has(key) && typeof child === 'number' ? mapIndex(child) : remap(child)
+        }
+        return out
+    }
+
+    const out: Record<string, unknown> = {}
+    for (const [key, child] of Object.entries(body)) {
+        if (key === 'dataStream') {
+            out[key] = dataStream
+        } else if (Array.isArray(child)) {
+            // Range arrays (textRuns, paragraphs, tables...) follow the text
+            out[key] = edits.length > 0 ? remap(child) : child
+        } else {
+            out[key] = visit(child)
+        }
+    }
+    return out
+}
@@ -4,8 +4,10 @@ import { randomUUID } from 'crypto'
 import log from 'electron-log'
 import { ensureDir, ensurePrivateDir, getStoragePaths } from './paths'
 import { safeFilename } from '../file-manager/utils'
+import { extractPlaceholders, fillTemplatePlaceholders } from './template-placeholders'
+import type { PlaceholderValue } from './template-placeholders'
 
-export type TemplateType = 'spreadsheet' | 'prompt' | 'workflow'
+export type TemplateType = 'spreadsheet' | 'document' | 'prompt' | 'workflow'
 
 export interface TemplateMeta {
     id: string
@@ -15,6 +17,11 @@ export interface TemplateMeta {
     updatedAt: string
     tags: string[]
     ext?: string
+    description?: string
+    /** Placeholder names ({{name}}) found in the content */
+    placeholders?: string[]
+    /** Account that saved the template; other accounts on the device don't see it */
+    userId?: string
 }
 
 export interface TemplateEntry extends TemplateMeta {
@@ -71,18 +78,23 @@ export class TemplateStore {
     }
 
     private getTemplatePath(meta: TemplateMeta): string {
-        const ext = meta.ext ? `.${meta.ext}` : 'txt'
+        const ext = meta.ext || 'txt'
         return join(this.root, `${meta.id}.${meta.type}.${ext}`)
     }
 
-    async list(type?: TemplateType): Promise<TemplateMeta[]> {
+    private async loadOwned(userId: string): Promise<TemplateMeta[]> {
         const meta = await this.loadMeta()
+        return meta.filter(item => item.userId === userId)
+    }
+
+    async list(userId: string, type?: TemplateType): Promise<TemplateMeta[]> {
+        const meta = await this.loadOwned(userId)
         const items = type ? meta.filter(item => item.type === type) : meta
         return [...items].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
     }
 
-    async get(id: string): Promise<TemplateEntry | null> {
-        const meta = await this.loadMeta()
+    async get(userId: string, id: string): Promise<TemplateEntry | null> {
+        const meta = await this.loadOwned(userId)
         const entry = meta.find(item => item.id === id)
         if (!entry) return null
         try {
@@ -93,8 +105,56 @@ export class TemplateStore {
         }
     }
 
-    async savePrompt(name: string, content: string, tags: string[] = []): Promise<TemplateMeta> {
+    /**
+     * Find a template by id, or by name (case-insensitive)
+     */
+    async find(userId: string, idOrName: string): Promise<TemplateMeta | null> {
+        const meta = await this.loadOwned(userId)
+        const needle = idOrName.trim().toLowerCase()
+        return meta.find(item => item.id === idOrName)
+            ?? meta.find(item => item.name.toLowerCase() === needle)
+            ?? null
+    }
+
+    /**
+     * Fill the placeholders of a spreadsheet/document template and return the
+     * Univer snapshot for a new file
+     */
+    async instantiate(
+        userId: string,
+        id: string,
+        values: Record<string, PlaceholderValue> = {},
+        name?: string
+    ): Promise<{
+        template: TemplateMeta
+        univerData: Record<string, unknown>
+        missing: string[]
+    }> {
+        const entry = await this.get(userId, id)
+        if (!entry) {
+            throw new Error(`Template not found: ${id}`)
+        }
+        if ((entry.type !== 'spreadsheet' && entry.type !== 'document') || entry.ext !== 'json' || !entry.content) {
+            throw new Error(`Template "${entry.name}" cannot be instantiated as a file`)
+        }
+
+        const { content, ...template } = entry
+        const { result, missing } = fillTemplatePlaceholders(JSON.parse(content) as Record<string, unknown>, values)
+        // Each instance is its own Univer unit
+        if (typeof result.id === 'string') {
+            result.id = randomUUID()
+        }
+        if (name) {
+            // Workbooks carry `name`, documents `title`
+            if ('title' in result) result.title = name
+            else result.name = name
+        }
+        return { template, univerData: result, missing }
+    }
+
+    async savePrompt(userId: string, name: string, content: string, tags: string[] = []): Promise<TemplateMeta> {
         return await this.saveTemplate({
+            userId,
             name,
             type: 'prompt',
             content,
@@ -103,17 +163,49 @@ export class TemplateStore {
         })
     }
 
-    async saveWorkflow(name: string, content: object, tags: string[] = []): Promise<TemplateMeta> {
+    async saveWorkflow(
+        userId: string,
+        name: string,
+        content: object,
+        tags: string[] = [],
+        options: { description?: string; placeholders?: string[] } = {}
+    ): Promise<TemplateMeta> {
         return await this.saveTemplate({
+            userId,
             name,
             type: 'workflow',
             content: JSON.stringify(content, null, 2),
             tags,
-            ext: 'json'
+            ext: 'json',
+            description: options.description,
+            placeholders: options.placeholders
         })
     }
 
-    async importSpreadsheetTemplate(filePath: string, name?: string, tags: string[] = []): Promise<TemplateMeta> {
+    /**
+     * Save a Univer snapshot (workbook or document) as a reusable template
+     */
+    async saveUniverTemplate(input: {
+        userId: string
+        name: string
+        type: 'spreadsheet' | 'document'
+        univerData: object
+        description?: string
+        tags?: string[]
+    }): Promise<TemplateMeta> {
+        return await this.saveTemplate({
+            userId: input.userId,
+            name: input.name,
+            type: input.type,
+            content: JSON.stringify(input.univerData),
+            tags: input.tags ?? [],
+            ext: 'json',
+            description: input.description,
+            placeholders: extractPlaceholders(input.univerData)
+        })
+    }
+
+    async importSpreadsheetTemplate(userId: string, filePath: string, name?: string, tags: string[] = []): Promise<TemplateMeta> {
         await ensureDir(this.root)
         const fileName = name ?? safeFilename(basename(filePath))
         const ext = extname(filePath).replace('.', '') || 'xlsx'
@@ -126,7 +218,8 @@ export class TemplateStore {
             createdAt: now,
             updatedAt: now,
             tags,
-            ext
+            ext,
+            userId
         }
 
         const updated = [...await this.loadMeta(), meta]
@@ -135,9 +228,9 @@ export class TemplateStore {
         return meta
     }
 
-    async delete(id: string): Promise<void> {
+    async delete(userId: string, id: string): Promise<void> {
         const meta = await this.loadMeta()
-        const entry = meta.find(item => item.id === id)
+        const entry = meta.find(item => item.id === id && item.userId === userId)
         if (!entry) return
         const updated = meta.filter(item => item.id !== id)
         try {
@@ -148,7 +241,16 @@ export class TemplateStore {
         await this.saveMeta(updated)
     }
 
-    private async saveTemplate(input: { name: string; type: TemplateType; content: string; tags: string[]; ext?: string }): Promise<TemplateMeta> {
+    private async saveTemplate(input: {
+        userId: string
+        name: string
+        type: TemplateType
+        content: string
+        tags: string[]
+        ext?: string
+        description?: string
+        placeholders?: string[]
+    }): Promise<TemplateMeta> {
         await ensureDir(this.root)
         const id = randomUUID()
         const now = new Date().toISOString()
@@ -159,7 +261,10 @@ export class TemplateStore {
             createdAt: now,
             updatedAt: now,
             tags: input.tags,
-            ext: input.ext
+            ext: input.ext,
+            description: input.description,
+            placeholders: input.placeholders,
+            userId: input.userId
         }
 
         const updated = [...await this.loadMeta(), meta]
@@ -168,3 +273,15 @@ export class TemplateStore {
         return meta
     }
 }
+
+let storeInstance: TemplateStore | null = null
+let initPromise: Promise<void> | null = null
+
+export async function getTemplateStore(): Promise<TemplateStore> {
+    if (!storeInstance) {
+        storeInstance = new TemplateStore()
+        initPromise = storeInstance.init()
+    }
+    await initPromise
+    return storeInstance
+}
@@ -0,0 +1,107 @@
+-- Notes pages and spaces synced from the renderer's local store (offline-first)
+-- Ids are generated on the client ("page-..." / "space-..."), so they are TEXT and
+-- unique per user. Client timestamps are kept in *_at_ms (epoch millis) for
+-- last-write-wins merging; updated_at is the server revision used as sync cursor.
+
+CREATE TABLE IF NOT EXISTS notes_spaces (
+    id TEXT NOT NULL,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL DEFAULT '',
+    icon TEXT,
+    color TEXT,
+    archived BOOLEAN DEFAULT FALSE,
+    -- Tombstone: deletions are kept so other devices can apply them
+    deleted BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at_ms BIGINT NOT NULL,
+    updated_at_ms BIGINT NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, id)
+);
+
+CREATE TABLE IF NOT EXISTS notes_pages (
+    id TEXT NOT NULL,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    space_id TEXT,
+    -- Parent page id for nested pages (null = root level)
+    parent_id TEXT,
+    title TEXT NOT NULL DEFAULT '',
+    -- BlockNote blocks
+    content JSONB NOT NULL DEFAULT '[]'::jsonb,
+    -- Per-block edit/delete times (epoch millis) for block-level merging
+    block_clock JSONB NOT NULL DEFAULT '{}'::jsonb,
+    block_tombstones JSONB NOT NULL DEFAULT '{}'::jsonb,
+    icon TEXT,
+    cover_image TEXT,
+    description_visible BOOLEAN,
+    pinned BOOLEAN DEFAULT FALSE,
+    archived BOOLEAN DEFAULT FALSE,
+    deleted BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at_ms BIGINT NOT NULL,
+    updated_at_ms BIGINT NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, id)
+);
+
+-- Enable RLS
+ALTER TABLE notes_spaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notes_pages ENABLE ROW LEVEL SECURITY;
+
+-- Policies
+CREATE POLICY "Users can view their own note spaces"
+    ON notes_spaces FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own note spaces"
+    ON notes_spaces FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own note spaces"
+    ON notes_spaces FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own note spaces"
+    ON notes_spaces FOR DELETE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own note pages"
+    ON notes_pages FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own note pages"
+    ON notes_pages FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own note pages"
+    ON notes_pages FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own note pages"
+    ON notes_pages FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Indexes for incremental pulls
+CREATE INDEX IF NOT EXISTS idx_notes_spaces_user_updated ON notes_spaces(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_notes_pages_user_updated ON notes_pages(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_notes_pages_parent ON notes_pages(user_id, parent_id);
+
+-- Bump the server revision on every write (also on upsert conflicts)
+CREATE OR REPLACE FUNCTION public.update_notes_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_notes_spaces_updated_at
+    BEFORE UPDATE ON notes_spaces
+    FOR EACH ROW
+    EXECUTE FUNCTION update_notes_updated_at();
+
+CREATE TRIGGER update_notes_pages_updated_at
+    BEFORE UPDATE ON notes_pages
+    FOR EACH ROW
+    EXECUTE FUNCTION update_notes_updated_at();
@@ -0,0 +1,35 @@
+-- Migration: Named branches and merges for file version history
+-- Versions keep their per-file version_number sequence; branch_name says which
+-- line of history they belong to. commit_parent_id is the previous version on
+-- the branch (or the fork point) and merge_parent_id the head of the branch
+-- merged in, so the history forms a graph like git.
+
+ALTER TABLE file_versions
+  ADD COLUMN IF NOT EXISTS branch_name TEXT NOT NULL DEFAULT 'main',
+  ADD COLUMN IF NOT EXISTS merge_parent_id UUID REFERENCES file_versions(id);
+
+-- Branch the working copy (user_files.univer_data / content) belongs to
+ALTER TABLE user_files
+  ADD COLUMN IF NOT EXISTS current_branch TEXT NOT NULL DEFAULT 'main';
+
+CREATE INDEX IF NOT EXISTS idx_file_versions_branch
+  ON file_versions(file_id, branch_name, version_number DESC);
+
+-- Allow the new change types (checkpoint was added by the checkpoints migration)
+ALTER TABLE file_versions DROP CONSTRAINT IF EXISTS file_versions_change_type_check;
+ALTER TABLE file_versions ADD CONSTRAINT file_versions_change_type_check CHECK (change_type IN (
+  'created',
+  'auto_save',
+  'manual_save',
+  'ai_edit',
+  'ai_create',
+  'restore',
+  'import',
+  'checkpoint',
+  'branch',       -- First version of a branch forked from another version
+  'merge'         -- Result of merging another branch
+));
+
+COMMENT ON COLUMN file_versions.branch_name IS 'Branch this version belongs to (default main)';
+COMMENT ON COLUMN file_versions.merge_parent_id IS 'For merge versions: head of the branch that was merged in';
+COMMENT ON COLUMN user_files.current_branch IS 'Branch the working copy is on; new versions are added to it';
@@ -0,0 +1,26 @@
+-- Migration: User-owned batch jobs for spreadsheet row operations
+-- "Apply prompt to each row" jobs are started by a user and written back into
+-- one of their files, so they need an owner. Title generation jobs keep
+-- user_id NULL and stay service-role only.
+
+ALTER TABLE public.batch_jobs
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_batch_jobs_user
+  ON public.batch_jobs(user_id, created_at DESC);
+
+-- Owners can see and manage their own jobs
+CREATE POLICY "Users can view own batch jobs" ON public.batch_jobs
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own batch jobs" ON public.batch_jobs
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own batch jobs" ON public.batch_jobs
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON COLUMN public.batch_jobs.user_id IS 'Owner of user-started jobs (spreadsheet_rows); NULL for system jobs';
@@ -0,0 +1,49 @@
+-- Spending budgets: monthly (whole workspace), per chat (lifetime of the chat)
+-- and per provider account (monthly). Spend is estimated from token usage and
+-- model pricing; warn_ratio is the share of the limit that triggers a warning
+-- and hard_stop blocks requests that would go over the limit.
+
+CREATE TABLE IF NOT EXISTS spending_budgets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    scope TEXT NOT NULL CHECK (scope IN ('monthly', 'chat', 'account')),
+    -- Chat id or ai_provider_accounts id; NULL for monthly budgets
+    target_id TEXT,
+    limit_usd NUMERIC(12, 4) NOT NULL CHECK (limit_usd > 0),
+    warn_ratio NUMERIC(4, 3) NOT NULL DEFAULT 0.8 CHECK (warn_ratio > 0 AND warn_ratio <= 1),
+    hard_stop BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK ((scope = 'monthly') = (target_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_spending_budgets_user ON spending_budgets(user_id);
+
+-- Enable RLS
+ALTER TABLE spending_budgets ENABLE ROW LEVEL SECURITY;
+
+-- Policies
+CREATE POLICY "Users can view their own budgets"
+    ON spending_budgets FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own budgets"
+    ON spending_budgets FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own budgets"
+    ON spending_budgets FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own budgets"
+    ON spending_budgets FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Estimated spend of each provider account in spend_month (YYYY-MM); reset
+-- when the first request of a new month is recorded
+ALTER TABLE IF EXISTS ai_provider_accounts
+    ADD COLUMN IF NOT EXISTS spend_usd NUMERIC(14, 6) NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS spend_month TEXT;
+
+COMMENT ON TABLE spending_budgets IS 'Spending limits checked before each AI chat request';
@@ -0,0 +1,28 @@
+-- Personal spell-check dictionary: words a user added with "add to
+-- dictionary", shared by every device signed in to the account
+
+CREATE TABLE IF NOT EXISTS user_dictionary_words (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    word TEXT NOT NULL CHECK (char_length(word) BETWEEN 1 AND 64),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, word)
+);
+
+-- Enable RLS
+ALTER TABLE user_dictionary_words ENABLE ROW LEVEL SECURITY;
+
+-- Policies
+CREATE POLICY "Users can view their own dictionary words"
+    ON user_dictionary_words FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own dictionary words"
+    ON user_dictionary_words FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own dictionary words"
+    ON user_dictionary_words FOR DELETE
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE user_dictionary_words IS 'Personal spell-check words, synced per user';
@@ -22,6 +22,15 @@ import { panelMessagesRouter } from "./routers/panel-messages";
 import { userFilesRouter } from "./routers/user-files";
 import { aiProvidersRouter } from "./routers/ai-providers";
 import { checkpointsRouter } from "./routers/checkpoints";
+import { notesRouter } from "./routers/notes";
+import { templatesRouter } from "./routers/templates";
+import { backupsRouter } from "./routers/backups";
+import { workflowsRouter } from "./routers/workflows";
+import { messageQueueRouter } from "./routers/message-queue";
+import { batchJobsRouter } from "./routers/batch-jobs";
+import { budgetsRouter } from "./routers/budgets";
+import { proofreadingRouter } from "./routers/proofreading";
+import { dictionariesRouter } from "./routers/dictionaries";
 
 // Main app router
 export const appRouter = router({
@@ -44,6 +53,15 @@ export const appRouter = router({
   userFiles: userFilesRouter,
   aiProviders: aiProvidersRouter,
   checkpoints: checkpointsRouter,
+  notes: notesRouter,
+  templates: templatesRouter,
+  backups: backupsRouter,
+  workflows: workflowsRouter,
+  messageQueue: messageQueueRouter,
+  batchJobs: batchJobsRouter,
+  budgets: budgetsRouter,
+  proofreading: proofreadingRouter,
+  dictionaries: dictionariesRouter,
 });
 
 // Export type for client
@@ -12,14 +12,20 @@ import { router, protectedProcedure } from "../trpc";
 import { streamText, stepCountIs, tool } from "ai";
 import log from "electron-log";
 import { sendToRenderer } from "../../window-manager";
-import { getModelById, DEFAULT_MODELS } from "@s-agi/core/types/ai";
+import {
+  getModelById,
+  getModelsByProvider,
+  DEFAULT_MODELS,
+} from "@s-agi/core/types/ai";
 import {
   getLanguageModel,
   getProviderStatus,
   isProviderAvailable,
 } from "../../ai/providers";
 import { streamClaudeForAgentPanel } from "../../ai/claude-agent-sdk";
+import { describeBlock, getBudgetService } from "../../budgets";
 import { getClaudeCodeAuthManager } from "../../auth/claude-code-manager";
+import { getCustomProviderManager } from "../../auth/custom-provider-manager";
 import { getSecureApiKeyStore } from "../../auth/api-key-store";
 import {
   loadPDFContext,
@@ -156,6 +162,8 @@ export type AgentPanelStreamEvent =
   | {
       type: "finish";
       usage?: { promptTokens: number; completionTokens: number };
+      /** Model that produced the usage, saved with the message for budgets */
+      modelId?: string;
     };
 
 // Emit events to renderer
@@ -212,7 +220,7 @@ export const agentPanelRouter = router({
         tabType: z.enum(["excel", "doc", "pdf"]),
         prompt: z.string(),
         provider: z
-          .enum(["openai", "chatgpt-plus", "zai", "claude"])
+          .enum(["openai", "chatgpt-plus", "zai", "claude", "custom"])
           .default("openai"),
         modelId: z.string().optional(),
         messages: z
@@ -286,7 +294,16 @@ export const agentPanelRouter = router({
 
       try {
         // Get model and provider
-        const selectedModelId = modelId || DEFAULT_MODELS[provider];
+        if (provider === "custom") {
+          // Custom endpoint models are registered from the encrypted config
+          getCustomProviderManager().registerModels();
+        }
+        const selectedModelId =
+          modelId ||
+          (provider === "custom"
+            ? getModelsByProvider("custom")[0]?.id
+            : DEFAULT_MODELS[provider]) ||
+          "";
         const modelDef = getModelById(selectedModelId);
         const apiModelId =
           (modelDef as { modelIdForApi?: string } | undefined)?.modelIdForApi ||
@@ -303,6 +320,31 @@ export const agentPanelRouter = router({
           return { success: false };
         }
 
+        // Panel requests count against the same budgets as chat requests
+        const budgetService = getBudgetService();
+        const budget = await budgetService.check(ctx.userId, {
+          chatId: sessionId,
+          provider,
+          modelId: selectedModelId,
+          inputChars:
+            prompt.length +
+            (messages ?? []).reduce(
+              (total, message) => total + message.content.length,
+              0,
+            ),
+        });
+        if (!budget.allowed) {
+          log.warn("[AgentPanel] Request blocked by spending budget:", {
+            sessionId,
+            budgets: budget.blocking.map((check) => check.budget.id),
+          });
+          emitAgentEvent(sessionId, {
+            type: "error",
+            error: describeBlock(budget),
+          });
+          return { success: false };
+        }
+
         const model = getLanguageModel(provider, apiModelId);
 
         // Build agent context
@@ -557,7 +599,8 @@ IMPORTANTE: CADA dato del PDF debe tener su citación [página N].`;
           model: model as any,
           system: systemPrompt,
           messages: chatMessages as any,
-          tools: agentTools as any,
+          // Custom endpoint models may not support function calling
+          tools: (modelDef?.supportsTools === false ? undefined : agentTools) as any,
           abortSignal: abortController.signal,
           stopWhen: stepCountIs(10),
         });
@@ -629,7 +672,14 @@ IMPORTANTE: CADA dato del PDF debe tener su citación [página N].`;
               promptTokens: usage.inputTokens ?? 0,
               completionTokens: usage.outputTokens ?? 0,
             },
+            modelId: selectedModelId,
           });
+          budgetService
+            .recordUsage(ctx.userId, provider, selectedModelId, {
+              promptTokens: usage.inputTokens,
+              completionTokens: usage.outputTokens,
+            })
+            .catch((err) => log.warn("[AgentPanel] Failed to record spend:", err));
 
           // If using file system and tools were called, emit save event
           if (context?.fileId && Object.keys(agentTools).length > 0) {
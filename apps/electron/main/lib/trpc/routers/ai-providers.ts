@@ -18,6 +18,7 @@ import { supabase } from '../../supabase/client'
 import { getClaudeCodeAuthStore } from '../../auth/claude-code-store'
 import { getClaudeCodeAuthManager } from '../../auth'
 import log from 'electron-log'
+import { getBudgetService } from '../../budgets'
 import { safeStorage } from 'electron'
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs'
 import { join } from 'path'
@@ -584,6 +585,11 @@ export const aiProvidersRouter = router({
         log.warn('[AIProviders] Failed to track usage:', error)
       }
 
+      // Counts towards the account's spending budget
+      if (input.cost && input.cost > 0) {
+        await getBudgetService().recordAccountSpend(ctx.userId, input.accountId, input.cost)
+      }
+
       return { success: true }
     }),
 })
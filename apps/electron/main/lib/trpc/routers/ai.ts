@@ -5,7 +5,11 @@ import log from "electron-log";
 import { sendToRenderer } from "../../window-manager";
 import { supabase } from "../../supabase/client";
 import { getSecureApiKeyStore } from "../../auth/api-key-store";
-import { getChatGPTAuthManager, getClaudeCodeAuthManager } from "../../auth";
+import {
+  getChatGPTAuthManager,
+  getClaudeCodeAuthManager,
+  getCustomProviderManager,
+} from "../../auth";
 import { getCredentialManager } from "../../shared/credentials";
 // NOTE: Gemini auth disabled - OAuth token incompatible with generativelanguage.googleapis.com
 // import { getChatGPTAuthManager, getGeminiAuthManager } from '../../auth'
@@ -14,6 +18,10 @@ import OpenAI from "openai";
 import type { Responses } from "openai/resources/responses/responses";
 import { OpenAIFileService, shouldUseAISDK, streamWithAISDK } from "../../ai";
 import { streamWithClaudeAgentSDK } from "../../ai/claude-agent-sdk";
+import {
+  cancelToolApprovals,
+  respondToolApproval,
+} from "../../ai/tool-approval";
 import {
   getDocumentContext,
   shouldUseLocalContext,
@@ -25,6 +33,7 @@ import {
   CHART_TOOLS,
   PLAN_TOOLS,
   UI_NAVIGATION_TOOLS,
+  TEMPLATE_TOOLS,
   executeTool,
   generateImageDirect,
   type ToolContext,
@@ -44,13 +53,15 @@ import {
   sanitizeOpenAiResponseId,
 } from "@s-agi/core/types/ai";
 import { generateSuggestions } from "../../ai";
+import { describeBlock, getBudgetService } from "../../budgets";
 import {
   selectAgent,
   executeSpecializedAgent,
-  shouldUseSpecializedAgent,
   getPDFContext,
   createModel,
 } from "../../agents/agent-service";
+import { createModelRouteClassifier } from "../../agents/orchestrator";
+import { AGENT_METADATA } from "@s-agi/core";
 import type { AgentContext } from "../../agents/types";
 
 // Import from modular structure
@@ -426,6 +437,19 @@ SPREADSHEET TOOLS
 - get_spreadsheet_summary: Get current state of a spreadsheet
   * Use this FIRST when modifying existing spreadsheets
   * Returns structure, data, and formatting information
+- compare_workbooks: Compare two different spreadsheets (e.g. last month vs this month)
+  * Rows are matched by a key column (header name or letter), not by position
+  * Ask which column identifies a row if it is not obvious (ID, code, invoice number)
+  * Set writeResultSheet to add a highlighted sheet with the added, removed and changed rows
+- insert_chart: Add a chart inside the spreadsheet, bound to cell ranges
+  * Prefer it over generate_chart when the data is already in a sheet: the chart updates when the cells change and is exported to Excel as a native chart
+  * Pass dataRange (first column = categories, header row = series names) or explicit series ranges
+- update_chart: Change a chart's type, series, ranges, title or axis titles; get_spreadsheet_summary lists the chart ids
+- create_pivot_table: Summarize a source range (first row = headers) into a pivot table on a new or existing sheet
+  * Group by row/column fields and aggregate value fields (sum, count, average, min, max, countDistinct)
+  * The pivot remembers its source range; the result includes its pivotId for refresh_pivot_table
+- refresh_pivot_table: Recompute pivot tables after their source data changes (one pivotId, or all pivots in the workbook)
+  * The user can also refresh them from the sheet's "Actualizar tablas dinámicas" button
 
 ================================================================================
 DOCUMENT TOOLS
@@ -433,8 +457,18 @@ DOCUMENT TOOLS
 
 - create_document: Create a new Word-like document with optional initial content
 - insert_text: Insert text at the start or end of a document
-- replace_document_content: Replace the entire content of a document
-- get_document_content: Read a document's current content
+- replace_document_content: Replace the entire content of a document (Markdown)
+- get_document_content: Read a document's current content as Markdown
+
+================================================================================
+TEMPLATE TOOLS
+================================================================================
+
+- instantiate_template: Create a spreadsheet or document from one of the user's saved templates
+  * Call it without a template first to see the available templates and their {{placeholders}}
+  * Fill placeholders from the conversation (department, period, amounts); date, year, month and month_name are automatic
+  * Prefer a matching template over building a recurring sheet or report from scratch
+  * If placeholders remain unfilled, ask the user for them or complete them with update_cells
 
 ================================================================================
 WORKFLOW GUIDELINES
@@ -788,6 +822,20 @@ function createFunctionTools(
     executors.set(name, (args) => executeTool(name, args, chatId, userId));
   }
 
+  // Add template tools
+  for (const [name, tool] of Object.entries(TEMPLATE_TOOLS)) {
+    tools.push({
+      type: "function",
+      name,
+      description: tool.description,
+      parameters: zodToJsonSchema(
+        tool.inputSchema,
+      ) as FunctionToolParam["parameters"],
+      strict: true,
+    });
+    executors.set(name, (args) => executeTool(name, args, chatId, userId));
+  }
+
   return { tools, executors };
 }
 
@@ -1071,6 +1119,7 @@ function getAllToolNames(options: {
   const tools = [
     ...Object.keys(SPREADSHEET_TOOLS),
     ...Object.keys(DOCUMENT_TOOLS),
+    ...Object.keys(TEMPLATE_TOOLS),
   ];
 
   // Add native tools based on model and config
@@ -1285,7 +1334,13 @@ export const aiRouter = router({
     .query(({ input }) => {
       const chatGPTAuth = getChatGPTAuthManager();
       return {
-        availableProviders: ["openai", "chatgpt-plus", "zai", "claude"] as const,
+        availableProviders: [
+          "openai",
+          "chatgpt-plus",
+          "zai",
+          "claude",
+          "custom",
+        ] as const,
         availableModels: AI_MODELS,
         availableTools: getAllToolNames({
           modelId: input?.modelId,
@@ -1312,7 +1367,7 @@ export const aiRouter = router({
         prompt: z.string(),
         mode: z.enum(["plan", "agent"]).default("agent"),
         provider: z
-          .enum(["openai", "chatgpt-plus", "zai", "claude"])
+          .enum(["openai", "chatgpt-plus", "zai", "claude", "custom"])
           .default("openai"),
         apiKey: z.string().optional(), // Optional for chatgpt-plus provider
         tavilyApiKey: z.string().optional(),
@@ -1419,6 +1474,17 @@ export const aiRouter = router({
             filename: z.string(),
           })
           .optional(),
+        /** Artifact or file open next to the chat (routing signal) */
+        artifactId: z.string().optional(),
+        artifactType: z.string().optional(),
+        /** Current selection in that artifact (routing signal) */
+        selection: z
+          .object({
+            kind: z.enum(["cells", "text", "pdf"]),
+            range: z.string().optional(),
+            text: z.string().max(2000).optional(),
+          })
+          .optional(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
@@ -1439,6 +1505,45 @@ export const aiRouter = router({
         throw new Error("Chat not found or access denied");
       }
 
+      // Spending budgets: block before any tokens are spent
+      const budgetProvider = (input.provider || "openai") as AIProvider;
+      if (budgetProvider === "custom") {
+        getCustomProviderManager().registerModels();
+      }
+      const budgetModelId = resolveModelForProvider(
+        budgetProvider,
+        input.model,
+      ).id;
+      const budgetService = getBudgetService();
+      const budget = await budgetService.check(ctx.userId, {
+        chatId: input.chatId,
+        provider: budgetProvider,
+        modelId: budgetModelId,
+        inputChars:
+          input.prompt.length +
+          (input.messages ?? []).reduce(
+            (total, message) => total + message.content.length,
+            0,
+          ),
+        maxOutputTokens: input.optimization?.maxOutputTokens,
+      });
+      if (!budget.allowed) {
+        log.warn("[AI] Request blocked by spending budget:", {
+          chatId: input.chatId,
+          budgets: budget.blocking.map((check) => check.budget.id),
+        });
+        throw new Error(describeBlock(budget));
+      }
+      const recordUsage = (usage?: {
+        promptTokens?: number;
+        completionTokens?: number;
+      }) => {
+        if (!usage) return;
+        budgetService
+          .recordUsage(ctx.userId, budgetProvider, budgetModelId, usage)
+          .catch((err) => log.warn("[AI] Failed to record spend:", err));
+      };
+
       // Cancel existing stream for this chat if any
       if (activeStreams.has(input.chatId)) {
         activeStreams.get(input.chatId)?.abort();
@@ -1452,6 +1557,7 @@ export const aiRouter = router({
       activeStreams.set(input.chatId, abortController);
 
       const emit = (event: AIStreamEvent) => {
+        if (event.type === "finish") recordUsage(event.usage);
         sendToRenderer("ai:stream", event);
       };
 
@@ -1460,6 +1566,10 @@ export const aiRouter = router({
         try {
           // Determine provider and model using manifest defaults
           const provider = input.provider || "openai";
+          // Custom endpoint models live in the encrypted config, not the static catalog
+          if (provider === "custom") {
+            getCustomProviderManager().registerModels();
+          }
           const modelDef = resolveModelForProvider(
             provider as AIProvider,
             input.model,
@@ -1481,7 +1591,7 @@ export const aiRouter = router({
             !hasHistoricalImages;
 
           if (canUseAiSdkStreaming) {
-            await streamWithAISDK({
+            const result = await streamWithAISDK({
               chatId: input.chatId,
               prompt: input.prompt,
               provider: provider as AIProvider,
@@ -1494,6 +1604,7 @@ export const aiRouter = router({
               mode: input.mode,
               signal: abortController.signal,
             });
+            recordUsage(result.usage);
             return;
           }
 
@@ -1506,13 +1617,38 @@ export const aiRouter = router({
             userId: ctx.userId,
             chatId: input.chatId,
             apiKey: input.apiKey,
+            artifactId: input.artifactId,
+            artifactType: input.artifactType,
+            selection: input.selection,
             pdfPath: pdfContext?.path,
             pdfPages: pdfContext?.pages,
           };
 
-          if (input.apiKey && shouldUseSpecializedAgent(input.prompt, agentContext)) {
-            const selection = selectAgent(input.prompt, agentContext);
+          const selection = input.apiKey
+            ? await selectAgent(input.prompt, agentContext, {
+                // Cheap model settles ambiguous routes (agents run on OpenAI models)
+                classifier:
+                  provider === "openai"
+                    ? createModelRouteClassifier(
+                        createModel(
+                          input.apiKey,
+                          AGENT_METADATA.orchestrator.defaultModel,
+                        ),
+                      )
+                    : undefined,
+              })
+            : null;
+
+          if (input.apiKey && selection && selection.agent !== "direct") {
             log.info(`[AI] Routing to specialized agent: ${selection.agent} - ${selection.reason}`);
+            emit({
+              type: "agent-route",
+              agent: selection.route.agent,
+              route: selection.route.route,
+              confidence: selection.route.confidence,
+              reason: selection.route.reason,
+              source: selection.route.source,
+            });
 
             try {
               const model = createModel(input.apiKey, modelId);
@@ -1520,7 +1656,8 @@ export const aiRouter = router({
                 input.prompt,
                 agentContext,
                 model,
-                (token) => emit({ type: "text-delta", delta: token })
+                (token) => emit({ type: "text-delta", delta: token }),
+                selection,
               );
 
               if (result.response) {
@@ -1566,8 +1703,11 @@ export const aiRouter = router({
               `[AI] ResponseMode: ${input.responseMode} -> chosen: ${chosenMode}`,
             );
 
+          // Z.AI and custom endpoints only implement Chat Completions
+          const usesChatCompletions = provider === "zai" || provider === "custom";
+
           log.info(
-            `[AI] Starting ${provider === "zai" ? "Chat Completions" : "Responses API"} agent loop with ${modelId} (provider: ${provider})`,
+            `[AI] Starting ${usesChatCompletions ? "Chat Completions" : "Responses API"} agent loop with ${modelId} (provider: ${provider})`,
           );
           log.info(`[AI] Reasoning config:`, input.reasoning);
           if (hasImages) {
@@ -1578,6 +1718,7 @@ export const aiRouter = router({
           let client: OpenAI | null = null;
           let chatGPTAccountId: string | null = null;
           let zaiBaseURL: string | null = null;
+          let customBaseURL: string | null = null;
 
           if (provider === "chatgpt-plus") {
             // ChatGPT Plus/Pro - use OAuth token with custom fetch
@@ -1781,6 +1922,27 @@ export const aiRouter = router({
             log.info(
               `[AI] Using Z.AI provider endpoint: ${wantsCodingEndpoint ? "coding" : "general"}`,
             );
+          } else if (provider === "custom") {
+            // OpenAI-compatible endpoint (Ollama, LM Studio, vLLM...): requests
+            // never leave it, so sensitive documents can stay on-prem
+            const customConfig = getCustomProviderManager().getConfig();
+
+            if (!customConfig) {
+              throw new Error("Custom endpoint is not configured. Please add it in Settings.");
+            }
+
+            customBaseURL = customConfig.baseURL;
+            client = new OpenAI({
+              // Local servers usually ignore the key, but the SDK requires one
+              apiKey: customConfig.apiKey || "not-needed",
+              baseURL: customBaseURL,
+              maxRetries: 0,
+            });
+
+            // Update apiKey for tool context
+            input.apiKey = customConfig.apiKey;
+
+            log.info(`[AI] Using custom endpoint: ${customBaseURL}`);
           } else if (provider === "claude") {
             // Claude uses AI SDK streaming path below (no OpenAI client needed)
             client = null;
@@ -1813,6 +1975,10 @@ export const aiRouter = router({
             toolContext.baseURL = zaiBaseURL || ZAI_GENERAL_BASE_URL;
             toolContext.headers = { "X-Source": ZAI_SOURCE_HEADER };
           }
+          // API-backed tools (e.g. image generation) also target the custom endpoint
+          if (provider === "custom") {
+            toolContext.baseURL = customBaseURL || undefined;
+          }
 
           // Build tools based on mode
           // OPTIMIZATION: When images are present, use minimal tools to avoid 19+ tool call chains
@@ -2345,17 +2511,18 @@ CITATION REQUIREMENTS (MANDATORY):
             input.images,
           );
 
-          // For Z.AI, check if model supports images
-          const zaiSupportsImages = modelDef?.supportsImages ?? true;
+          // For Z.AI, check if model supports images (custom models declare it)
+          const chatSupportsImages =
+            modelDef?.supportsImages ?? provider === "zai";
           const chatMessages =
-            provider === "zai"
+            usesChatCompletions
               ? toChatMessages(
                   systemPrompt,
                   input.messages || [],
                   input.prompt,
                   input.images,
                   {
-                    supportsImages: zaiSupportsImages,
+                    supportsImages: chatSupportsImages,
                     maxHistoricalImages: 10,
                   },
                 )
@@ -2363,7 +2530,7 @@ CITATION REQUIREMENTS (MANDATORY):
 
           // Determine reasoning config (ResponseMode override para GPT-5.2)
           const reasoningConfig: ReasoningConfig | undefined =
-            provider === "zai"
+            usesChatCompletions
               ? undefined
               : chosenMode === "instant"
                 ? { effort: "none", summary: "auto" }
@@ -2400,9 +2567,13 @@ CITATION REQUIREMENTS (MANDATORY):
             // This forces the model to use web_search instead of spreadsheet/doc tools
             const isWebSearchMode =
               provider === "zai" && webSearchDecision.enabled;
-            const chatFunctionTools = isWebSearchMode
-              ? []
-              : toChatCompletionTools(functionTools);
+            // Custom models without function calling get a plain chat
+            const supportsFunctionTools =
+              provider !== "custom" || modelDef?.supportsTools !== false;
+            const chatFunctionTools =
+              isWebSearchMode || !supportsFunctionTools
+                ? []
+                : toChatCompletionTools(functionTools);
 
             // For Z.AI, we need to pass native tools (like web_search) as-is
             // The Chat Completions API accepts both function tools AND native tools
@@ -2439,7 +2610,7 @@ CITATION REQUIREMENTS (MANDATORY):
                   input.reasoning?.effort === "high");
 
               const params: any = {
-                model: modelId,
+                model: apiModelId,
                 messages: chatMessages || [],
                 tools: chatTools.length > 0 ? chatTools : undefined,
                 tool_choice: chatTools.length > 0 ? "auto" : undefined,
@@ -2700,7 +2871,7 @@ CITATION REQUIREMENTS (MANDATORY):
                 role: "assistant",
                 content: null,
                 tool_calls: toolCallPayload,
-                ...(provider === "zai" && stepReasoning
+                ...(usesChatCompletions && stepReasoning
                   ? { reasoning_content: stepReasoning }
                   : {}),
               } as any);
@@ -2782,8 +2953,11 @@ CITATION REQUIREMENTS (MANDATORY):
 
             // Generate suggestions BEFORE emitting finish (so listener is still active)
             if (fullText && !abortController.signal.aborted) {
+              // Custom endpoints generate suggestions locally too (never via OpenAI)
               const suggestionApiKey =
-                input.apiKey || getSecureApiKeyStore().getOpenAIKey();
+                provider === "custom"
+                  ? input.apiKey || "not-needed"
+                  : input.apiKey || getSecureApiKeyStore().getOpenAIKey();
               if (suggestionApiKey) {
                 try {
                   const suggestions = await generateSuggestions(
@@ -2792,7 +2966,10 @@ CITATION REQUIREMENTS (MANDATORY):
                     suggestionApiKey,
                     (provider as string) === "zai"
                       ? zaiBaseURL || undefined
-                      : undefined,
+                      : provider === "custom"
+                        ? customBaseURL || undefined
+                        : undefined,
+                    provider === "custom" ? apiModelId : undefined,
                   );
                   if (
                     suggestions.length > 0 &&
@@ -2837,9 +3014,9 @@ CITATION REQUIREMENTS (MANDATORY):
             });
           };
 
-          if (provider === "zai") {
-            // Z.AI uses Chat Completions API (OpenAI-compatible)
-            // It doesn't support OpenAI's Responses API
+          if (usesChatCompletions) {
+            // Z.AI and custom endpoints use Chat Completions API (OpenAI-compatible)
+            // They don't support OpenAI's Responses API
             await runChatCompletionsAgentLoop();
             return;
           }
@@ -3627,13 +3804,23 @@ CITATION REQUIREMENTS (MANDATORY):
         runAgentLoop();
       }
 
-      return { success: true, message: "Agent loop started" };
+      return {
+        success: true,
+        message: "Agent loop started",
+        budgetWarnings: budget.warnings.map((check) => ({
+          name: check.budget.name,
+          spent: check.spent,
+          limitUsd: check.budget.limitUsd,
+          ratio: check.ratio,
+        })),
+      };
     }),
 
   // Cancel ongoing chat
   cancel: protectedProcedure
     .input(z.object({ chatId: z.string() }))
     .mutation(({ input }) => {
+      cancelToolApprovals(input.chatId);
       if (activeStreams.has(input.chatId)) {
         log.info(`[AI] Cancelling chat ${input.chatId}`);
         activeStreams.get(input.chatId)?.abort();
@@ -3643,6 +3830,13 @@ CITATION REQUIREMENTS (MANDATORY):
       return { success: false, message: "No active stream found" };
     }),
 
+  // Answer a tool approval request shown in the UI
+  respondToolApproval: protectedProcedure
+    .input(z.object({ toolCallId: z.string(), approved: z.boolean() }))
+    .mutation(({ input }) => ({
+      success: respondToolApproval(input.toolCallId, input.approved),
+    })),
+
   // Generate speech audio from text (OpenAI TTS)
   textToSpeech: protectedProcedure
     .input(
@@ -0,0 +1,100 @@
+import { z } from 'zod'
+import { dialog } from 'electron'
+import { router, publicProcedure, protectedProcedure } from '../trpc'
+import { getBackupService } from '../../backup'
+import log from 'electron-log'
+
+/**
+ * tRPC router for workspace backups (scheduled snapshots and zip export/import)
+ */
+export const backupsRouter = router({
+    getSettings: publicProcedure.query(() => {
+        return getBackupService().getSettings()
+    }),
+
+    updateSettings: publicProcedure
+        .input(z.object({
+            enabled: z.boolean().optional(),
+            intervalHours: z.number().int().min(1).max(168).optional(),
+            retention: z.number().int().min(1).max(100).optional()
+        }))
+        .mutation(async ({ input }) => {
+            return getBackupService().updateSettings(input)
+        }),
+
+    list: protectedProcedure.query(async ({ ctx }) => {
+        return getBackupService().list(ctx.userId)
+    }),
+
+    create: protectedProcedure.mutation(async ({ ctx }) => {
+        try {
+            return await getBackupService().createBackup(ctx.userId, 'Manual')
+        } catch (error) {
+            log.error('[BackupsRouter] Backup failed:', error)
+            throw new Error(error instanceof Error ? error.message : 'Backup failed')
+        }
+    }),
+
+    restore: protectedProcedure
+        .input(z.object({ id: z.string().min(1) }))
+        .mutation(async ({ ctx, input }) => {
+            try {
+                return await getBackupService().restore(ctx.userId, input.id)
+            } catch (error) {
+                log.error('[BackupsRouter] Restore failed:', error)
+                throw new Error(error instanceof Error ? error.message : 'Restore failed')
+            }
+        }),
+
+    delete: protectedProcedure
+        .input(z.object({ id: z.string().min(1) }))
+        .mutation(async ({ ctx, input }) => {
+            await getBackupService().delete(ctx.userId, input.id)
+            return { success: true }
+        }),
+
+    /**
+     * Export the whole workspace to a user-selected .zip file
+     */
+    exportArchive: protectedProcedure.mutation(async ({ ctx }) => {
+        const date = new Date().toISOString().slice(0, 10)
+        const result = await dialog.showSaveDialog({
+            title: 'Export workspace',
+            defaultPath: `s-agi-workspace-${date}.zip`,
+            filters: [{ name: 'Workspace archive', extensions: ['zip'] }]
+        })
+        if (result.canceled || !result.filePath) {
+            return { canceled: true as const }
+        }
+
+        try {
+            const counts = await getBackupService().exportArchive(ctx.userId, result.filePath)
+            return { canceled: false as const, path: result.filePath, counts }
+        } catch (error) {
+            log.error('[BackupsRouter] Export failed:', error)
+            throw new Error(error instanceof Error ? error.message : 'Export failed')
+        }
+    }),
+
+    /**
+     * Import a workspace .zip into the current account
+     */
+    importArchive: protectedProcedure.mutation(async ({ ctx }) => {
+        const result = await dialog.showOpenDialog({
+            title: 'Import workspace',
+            properties: ['openFile'],
+            filters: [{ name: 'Workspace archive', extensions: ['zip'] }]
+        })
+        if (result.canceled || result.filePaths.length === 0) {
+            return { canceled: true as const }
+        }
+
+        try {
+            const counts = await getBackupService().importArchive(ctx.userId, result.filePaths[0])
+            return { canceled: false as const, counts }
+        } catch (error) {
+            log.error('[BackupsRouter] Import failed:', error)
+            throw new Error(error instanceof Error ? error.message : 'Import failed')
+        }
+    })
+})
@@ -0,0 +1,69 @@
+import { z } from 'zod'
+import { router, protectedProcedure } from '../trpc'
+import { ROW_BATCH_MODELS, getRowBatchService, supportsFlex } from '../../ai'
+import log from 'electron-log'
+
+const rowBatchInputSchema = z.object({
+    fileId: z.string().uuid(),
+    sheet: z.string().optional(),
+    sourceColumn: z.string().min(1),
+    targetColumn: z.string().min(1),
+    headerRow: z.number().int().min(0).default(1),
+    startRow: z.number().int().min(1).optional(),
+    endRow: z.number().int().min(1).optional(),
+    skipFilled: z.boolean().default(false),
+    prompt: z.string().min(1).max(4000),
+    model: z.enum(ROW_BATCH_MODELS).default('gpt-5-mini'),
+    maxOutputTokens: z.number().int().min(1).max(4096).optional()
+})
+
+async function run<T>(action: string, fn: () => Promise<T>): Promise<T> {
+    try {
+        return await fn()
+    } catch (error) {
+        log.error(`[BatchJobsRouter] ${action} failed:`, error)
+        throw new Error(error instanceof Error ? error.message : `${action} failed`)
+    }
+}
+
+/**
+ * tRPC router for "apply prompt to each row" batch jobs on spreadsheets
+ */
+export const batchJobsRouter = router({
+    /**
+     * Rows that would be sent and the estimated cost, shown before submitting
+     */
+    estimate: protectedProcedure
+        .input(rowBatchInputSchema)
+        .query(({ ctx, input }) => {
+            return run('Estimate', () => getRowBatchService().estimate(ctx.userId, input))
+        }),
+
+    /**
+     * Submit the job via the Batch API (up to 24h) or the flex tier (now)
+     */
+    submit: protectedProcedure
+        .input(rowBatchInputSchema
+            .extend({ mode: z.enum(['batch', 'flex']).default('batch') })
+            .refine(input => input.mode !== 'flex' || supportsFlex(input.model), {
+                message: 'Flex processing is only available for GPT-5 models',
+                path: ['model']
+            }))
+        .mutation(({ ctx, input }) => {
+            const { mode, ...rest } = input
+            return run('Submit', () => getRowBatchService().submit(ctx.userId, rest, mode))
+        }),
+
+    list: protectedProcedure
+        .input(z.object({ fileId: z.string().uuid().optional() }).optional())
+        .query(({ ctx, input }) => {
+            return run('List', () => getRowBatchService().list(ctx.userId, input?.fileId))
+        }),
+
+    cancel: protectedProcedure
+        .input(z.object({ jobId: z.string().min(1) }))
+        .mutation(async ({ ctx, input }) => {
+            await run('Cancel', () => getRowBatchService().cancel(ctx.userId, input.jobId))
+            return { success: true }
+        })
+})
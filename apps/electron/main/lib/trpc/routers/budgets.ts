@@ -0,0 +1,61 @@
+import { z } from 'zod'
+import { router, protectedProcedure } from '../trpc'
+import { getBudgetService } from '../../budgets'
+import log from 'electron-log'
+
+const budgetInputSchema = z.object({
+    name: z.string().min(1).max(100),
+    scope: z.enum(['monthly', 'chat', 'account']),
+    targetId: z.string().nullable().optional(),
+    limitUsd: z.number().positive().max(1_000_000),
+    warnRatio: z.number().gt(0).max(1).optional(),
+    hardStop: z.boolean().optional()
+})
+
+async function run<T>(action: string, fn: () => Promise<T>): Promise<T> {
+    try {
+        return await fn()
+    } catch (error) {
+        log.error(`[BudgetsRouter] ${action} failed:`, error)
+        throw new Error(error instanceof Error ? error.message : `${action} failed`)
+    }
+}
+
+/**
+ * tRPC router for spending budgets checked before each chat request
+ */
+export const budgetsRouter = router({
+    list: protectedProcedure.query(({ ctx }) => {
+        return run('List', () => getBudgetService().list(ctx.userId))
+    }),
+
+    /**
+     * Budgets with their spend, status and burn-down for the usage tab
+     */
+    overview: protectedProcedure.query(({ ctx }) => {
+        return run('Overview', () => getBudgetService().overview(ctx.userId))
+    }),
+
+    create: protectedProcedure
+        .input(budgetInputSchema.refine(
+            input => input.scope === 'monthly' || !!input.targetId,
+            { message: 'Chat and account budgets need a target' }
+        ))
+        .mutation(({ ctx, input }) => {
+            return run('Create', () => getBudgetService().create(ctx.userId, input))
+        }),
+
+    update: protectedProcedure
+        .input(budgetInputSchema.partial().extend({ id: z.string().uuid() }))
+        .mutation(({ ctx, input }) => {
+            const { id, ...rest } = input
+            return run('Update', () => getBudgetService().update(ctx.userId, id, rest))
+        }),
+
+    delete: protectedProcedure
+        .input(z.object({ id: z.string().uuid() }))
+        .mutation(async ({ ctx, input }) => {
+            await run('Delete', () => getBudgetService().remove(ctx.userId, input.id))
+            return { success: true }
+        })
+})
@@ -9,6 +9,7 @@ import { z } from "zod";
 import { router, protectedProcedure } from "../trpc";
 import { supabase } from "../../supabase/client";
 import log from "electron-log";
+import { DEFAULT_BRANCH, findBranchHead } from "../../versioning";
 
 export const checkpointsRouter = router({
   /**
@@ -29,7 +30,7 @@ export const checkpointsRouter = router({
       // Get current file state
       const { data: file, error: fileError } = await supabase
         .from("user_files")
-        .select("id, univer_data, content, version_count")
+        .select("id, univer_data, content, version_count, current_branch")
         .eq("id", fileId)
         .eq("user_id", ctx.userId)
         .single();
@@ -51,6 +52,21 @@ export const checkpointsRouter = router({
       }
 
       const versionNumber = nextVersion || (file.version_count || 0) + 1;
+      const branch = file.current_branch || DEFAULT_BRANCH;
+
+      // Checkpoints are commits on the branch: without a parent they would
+      // cut its history and merges could no longer find a common base
+      const { data: branchVersions, error: graphError } = await supabase
+        .from("file_versions")
+        .select("id, version_number, branch_name, is_obsolete")
+        .eq("file_id", fileId);
+
+      if (graphError) {
+        log.error("[Checkpoints] Error loading branch head:", graphError);
+        throw new Error("Failed to create checkpoint");
+      }
+
+      const branchHead = findBranchHead(branchVersions || [], branch);
 
       // Create checkpoint version
       const { data: checkpoint, error: insertError } = await supabase
@@ -67,6 +83,8 @@ export const checkpointsRouter = router({
           checkpoint_message_id: messageId,
           checkpoint_prompt_id: messageId,
           size_bytes: JSON.stringify(file.univer_data || file.content || "").length,
+          branch_name: branch,
+          commit_parent_id: branchHead?.id ?? null,
         })
         .select("id, version_number, created_at")
         .single();
@@ -172,7 +190,8 @@ export const checkpointsRouter = router({
         throw new Error("File not found");
       }
 
-      // Mark all versions after checkpoint as obsolete
+      // Mark all versions after checkpoint on its branch as obsolete
+      const branch = checkpoint.branch_name || "main";
       const { error: obsoleteError } = await supabase
         .from("file_versions")
         .update({
@@ -181,6 +200,7 @@ export const checkpointsRouter = router({
           obsoleted_by_version: checkpointVersionNumber,
         })
         .eq("file_id", fileId)
+        .eq("branch_name", branch)
         .gt("version_number", checkpointVersionNumber);
 
       if (obsoleteError) {
@@ -193,6 +213,7 @@ export const checkpointsRouter = router({
         .update({
           univer_data: checkpoint.univer_data,
           content: checkpoint.content,
+          current_branch: branch,
           version_count: checkpointVersionNumber,
           updated_at: new Date().toISOString(),
         })
@@ -0,0 +1,81 @@
+import { z } from 'zod'
+import { dialog } from 'electron'
+import { router, publicProcedure, protectedProcedure } from '../trpc'
+import { getDictionaryService } from '../../proofreading'
+import log from 'electron-log'
+
+const packIdSchema = z.object({ id: z.string().min(1).max(32) })
+const wordSchema = z.object({ word: z.string().min(1).max(64) })
+
+async function run<T>(action: string, fn: () => Promise<T>): Promise<T> {
+    try {
+        return await fn()
+    } catch (error) {
+        log.error(`[DictionariesRouter] ${action} failed:`, error)
+        throw new Error(error instanceof Error ? error.message : `${action} failed`)
+    }
+}
+
+/**
+ * tRPC router for spell-check dictionaries: Hunspell packs installed on this
+ * machine and the user's personal word list
+ */
+export const dictionariesRouter = router({
+    list: publicProcedure.query(() => {
+        return run('List', () => getDictionaryService().listPacks())
+    }),
+
+    /**
+     * Contents of an installed pack; bundled packs are served from /dictionaries
+     */
+    read: publicProcedure
+        .input(packIdSchema)
+        .query(({ input }) => {
+            return run('Read', () => getDictionaryService().readPack(input.id))
+        }),
+
+    /**
+     * Pick .aff/.dic pairs on disk and install them
+     */
+    install: publicProcedure.mutation(async () => {
+        const result = await dialog.showOpenDialog({
+            title: 'Install dictionaries',
+            properties: ['openFile', 'multiSelections'],
+            filters: [{ name: 'Hunspell dictionary', extensions: ['aff', 'dic'] }]
+        })
+        if (result.canceled || result.filePaths.length === 0) {
+            return { canceled: true as const }
+        }
+
+        const packs = await run('Install', () => getDictionaryService().install(result.filePaths))
+        return { canceled: false as const, packs }
+    }),
+
+    remove: publicProcedure
+        .input(packIdSchema)
+        .mutation(({ input }) => {
+            return run('Remove', () => getDictionaryService().remove(input.id))
+        }),
+
+    setEnabled: publicProcedure
+        .input(packIdSchema.extend({ enabled: z.boolean() }))
+        .mutation(({ input }) => {
+            return run('Toggle', () => getDictionaryService().setEnabled(input.id, input.enabled))
+        }),
+
+    listWords: protectedProcedure.query(({ ctx }) => {
+        return run('List words', () => getDictionaryService().listWords(ctx.userId))
+    }),
+
+    addWord: protectedProcedure
+        .input(wordSchema)
+        .mutation(({ ctx, input }) => {
+            return run('Add word', () => getDictionaryService().addWord(ctx.userId, input.word))
+        }),
+
+    removeWord: protectedProcedure
+        .input(wordSchema)
+        .mutation(({ ctx, input }) => {
+            return run('Remove word', () => getDictionaryService().removeWord(ctx.userId, input.word))
+        })
+})
@@ -13,6 +13,7 @@ import {
     type DocumentMetadata,
     type PageContent
 } from '../../documents/document-processor'
+import { getSharedVectorIndex } from '../../documents/vector-index'
 import { getCredentialManager } from '../../shared/credentials'
 
 // Supported file types for OpenAI file search
@@ -942,7 +943,8 @@ export const filesRouter = router({
                     .update({
                         processing_status: processed.processingStatus,
                         extracted_content: processed.content,
-                        metadata: processed.metadata
+                        metadata: processed.metadata,
+                        pages: processed.pages || null
                     })
                     .eq('id', input.fileId)
 
@@ -1101,9 +1103,17 @@ export const filesRouter = router({
                 return { results: [], totalMatches: 0 }
             }
 
-            // Search with citations
+            // Ranked semantic search; falls back to literal matching when nothing scores
             const pages = file.pages as PageContent[]
-            const citations = searchWithCitations(input.query, pages, input.maxResults)
+            const index = getSharedVectorIndex()
+            await index.addDocument(file.id, file.filename, pages)
+            const ranked = await index.search(input.query, {
+                maxResults: input.maxResults,
+                documentIds: [file.id]
+            })
+            const citations = ranked.length > 0
+                ? ranked
+                : searchWithCitations(input.query, pages, input.maxResults)
 
             return {
                 results: citations.map(c => ({
@@ -0,0 +1,106 @@
+import { z } from 'zod'
+import { router, protectedProcedure } from '../trpc'
+import { getMessageQueueService } from '../../message-queue'
+import log from 'electron-log'
+
+const kindSchema = z.enum(['chat', 'pdf'])
+
+function run<T>(action: string, fn: () => T): T {
+    try {
+        return fn()
+    } catch (error) {
+        log.error(`[MessageQueueRouter] ${action} failed:`, error)
+        throw new Error(error instanceof Error ? error.message : `${action} failed`)
+    }
+}
+
+/**
+ * tRPC router for the persistent chat and PDF message queues
+ */
+export const messageQueueRouter = router({
+    /**
+     * All queues of the user keyed by kind:targetId
+     */
+    listAll: protectedProcedure.query(({ ctx }) => {
+        return getMessageQueueService().listAll(ctx.userId)
+    }),
+
+    add: protectedProcedure
+        .input(z.object({
+            kind: kindSchema,
+            targetId: z.string().min(1),
+            message: z.string().min(1),
+            payload: z.record(z.string(), z.unknown()).optional()
+        }))
+        .mutation(({ ctx, input }) => {
+            return run('Add', () =>
+                getMessageQueueService().add(ctx.userId, input.kind, input.targetId, input.message, input.payload)
+            )
+        }),
+
+    edit: protectedProcedure
+        .input(z.object({ itemId: z.string(), message: z.string().min(1) }))
+        .mutation(({ ctx, input }) => {
+            return run('Edit', () => getMessageQueueService().edit(ctx.userId, input.itemId, input.message))
+        }),
+
+    reorder: protectedProcedure
+        .input(z.object({
+            kind: kindSchema,
+            targetId: z.string().min(1),
+            orderedIds: z.array(z.string())
+        }))
+        .mutation(({ ctx, input }) => {
+            run('Reorder', () =>
+                getMessageQueueService().reorder(ctx.userId, input.kind, input.targetId, input.orderedIds)
+            )
+            return { success: true }
+        }),
+
+    retry: protectedProcedure
+        .input(z.object({ itemId: z.string() }))
+        .mutation(({ ctx, input }) => {
+            run('Retry', () => getMessageQueueService().retry(ctx.userId, input.itemId))
+            return { success: true }
+        }),
+
+    remove: protectedProcedure
+        .input(z.object({ itemId: z.string() }))
+        .mutation(({ ctx, input }) => {
+            run('Remove', () => getMessageQueueService().remove(ctx.userId, input.itemId))
+            return { success: true }
+        }),
+
+    clearFinished: protectedProcedure
+        .input(z.object({ kind: kindSchema, targetId: z.string().min(1) }))
+        .mutation(({ ctx, input }) => {
+            getMessageQueueService().clearFinished(ctx.userId, input.kind, input.targetId)
+            return { success: true }
+        }),
+
+    /**
+     * Take the next pending item of an open chat or PDF (marks it running)
+     */
+    claim: protectedProcedure
+        .input(z.object({ kind: kindSchema, targetId: z.string().min(1) }))
+        .mutation(({ ctx, input }) => {
+            return getMessageQueueService().claim(ctx.userId, input.kind, input.targetId)
+        }),
+
+    finish: protectedProcedure
+        .input(z.object({ itemId: z.string(), error: z.string().optional() }))
+        .mutation(({ ctx, input }) => {
+            run('Finish', () => getMessageQueueService().finish(ctx.userId, input.itemId, input.error))
+            return { success: true }
+        }),
+
+    /**
+     * Queues shown in the renderer are sent from there; the rest run in background
+     */
+    setForeground: protectedProcedure
+        .input(z.object({ kind: kindSchema, targetIds: z.array(z.string()) }))
+        .mutation(({ input }) => {
+            getMessageQueueService().setForeground(input.kind, input.targetIds)
+            return { success: true }
+        })
+})
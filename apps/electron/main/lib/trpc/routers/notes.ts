@@ -0,0 +1,294 @@
+import { z } from 'zod'
+import { router, protectedProcedure } from '../trpc'
+import { supabase } from '../../supabase/client'
+import log from 'electron-log'
+
+// Notes are authored offline in the renderer (localStorage) and synced here.
+// The renderer merges; this router only stores rows and rejects writes whose
+// base revision is stale, so a concurrent edit from another device is never
+// overwritten blindly. The revision check is part of the write itself.
+
+const spaceSchema = z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    icon: z.string().optional(),
+    color: z.string().optional(),
+    createdAt: z.number(),
+    updatedAt: z.number(),
+    archived: z.boolean().optional()
+})
+
+const pageSchema = z.object({
+    id: z.string().min(1),
+    title: z.string(),
+    content: z.array(z.any()),
+    spaceId: z.string().nullable(),
+    parentId: z.string().nullable(),
+    icon: z.string().optional(),
+    coverImage: z.string().optional(),
+    descriptionVisible: z.boolean().optional(),
+    createdAt: z.number(),
+    updatedAt: z.number(),
+    pinned: z.boolean().optional(),
+    archived: z.boolean().optional(),
+    blockClock: z.record(z.string(), z.number()).optional(),
+    blockTombstones: z.record(z.string(), z.number()).optional()
+})
+
+const deletionSchema = z.object({
+    id: z.string().min(1),
+    deletedAt: z.number()
+})
+
+// Server revision (updated_at) the client last saw; null for records it never pulled
+const revisionSchema = z.string().nullable()
+
+type SpaceInput = z.infer<typeof spaceSchema>
+type PageInput = z.infer<typeof pageSchema>
+
+function spaceToRow(userId: string, space: SpaceInput) {
+    return {
+        id: space.id,
+        user_id: userId,
+        name: space.name,
+        icon: space.icon ?? null,
+        color: space.color ?? null,
+        archived: space.archived ?? false,
+        deleted: false,
+        created_at_ms: space.createdAt,
+        updated_at_ms: space.updatedAt
+    }
+}
+
+function pageToRow(userId: string, page: PageInput) {
+    return {
+        id: page.id,
+        user_id: userId,
+        space_id: page.spaceId,
+        parent_id: page.parentId,
+        title: page.title,
+        content: page.content,
+        block_clock: page.blockClock ?? {},
+        block_tombstones: page.blockTombstones ?? {},
+        icon: page.icon ?? null,
+        cover_image: page.coverImage ?? null,
+        description_visible: page.descriptionVisible ?? null,
+        pinned: page.pinned ?? false,
+        archived: page.archived ?? false,
+        deleted: false,
+        created_at_ms: page.createdAt,
+        updated_at_ms: page.updatedAt
+    }
+}
+
+function rowToSpace(row: any) {
+    return {
+        id: row.id as string,
+        name: row.name as string,
+        icon: row.icon ?? undefined,
+        color: row.color ?? undefined,
+        createdAt: Number(row.created_at_ms),
+        updatedAt: Number(row.updated_at_ms),
+        archived: !!row.archived,
+        deleted: !!row.deleted,
+        revision: row.updated_at as string
+    }
+}
+
+function rowToPage(row: any) {
+    return {
+        id: row.id as string,
+        title: row.title as string,
+        content: (row.content ?? []) as any[],
+        spaceId: (row.space_id ?? null) as string | null,
+        parentId: (row.parent_id ?? null) as string | null,
+        icon: row.icon ?? undefined,
+        coverImage: row.cover_image ?? undefined,
+        descriptionVisible: row.description_visible ?? undefined,
+        createdAt: Number(row.created_at_ms),
+        updatedAt: Number(row.updated_at_ms),
+        pinned: !!row.pinned,
+        archived: !!row.archived,
+        blockClock: (row.block_clock ?? {}) as Record<string, number>,
+        blockTombstones: (row.block_tombstones ?? {}) as Record<string, number>,
+        deleted: !!row.deleted,
+        revision: row.updated_at as string
+    }
+}
+
+type NotesTable = 'notes_spaces' | 'notes_pages'
+
+interface RevisionedWrite {
+    row: Record<string, unknown> & { id: string }
+    /** Server revision the client based the write on; null for new records */
+    baseRevision: string | null
+}
+
+// Pulls re-read this window before the cursor: updated_at is NOW(), the start
+// of the writing transaction, so a write committed after a pull can carry an
+// earlier revision than that pull's cursor. Clients skip revisions they know.
+const PULL_OVERLAP_MS = 60 * 1000
+
+function overlapCursor(since: string): string {
+    const time = Date.parse(since)
+    return Number.isNaN(time) ? since : new Date(time - PULL_OVERLAP_MS).toISOString()
+}
+
+/**
+ * Write rows only if the stored revision still is the client's base revision.
+ * The check is part of each statement (update ... where updated_at = base,
+ * insert ... on conflict do nothing), so of two devices racing on a record
+ * only one wins; rows the write did not affect come back as conflicts.
+ */
+async function writeIfCurrent(table: NotesTable, userId: string, writes: RevisionedWrite[]) {
+    const written: Array<{ id: string; revision: string }> = []
+    const conflicts: string[] = []
+    if (writes.length === 0) return { written, conflicts }
+
+    const fail = (error: { message: string }) => {
+        log.error(`[NotesRouter] Error writing ${table}:`, error)
+        throw new Error(error.message)
+    }
+
+    const inserts = writes.filter((w) => w.baseRevision === null)
+    if (inserts.length > 0) {
+        const { data, error } = await supabase
+            .from(table)
+            .upsert(inserts.map((w) => w.row), { onConflict: 'user_id,id', ignoreDuplicates: true })
+            .select('id, updated_at')
+        if (error) fail(error)
+        const inserted = new Set((data || []).map((row) => row.id as string))
+        for (const row of data || []) written.push({ id: row.id as string, revision: row.updated_at as string })
+        conflicts.push(...inserts.map((w) => w.row.id).filter((id) => !inserted.has(id)))
+    }
+
+    const updates = await Promise.all(
+        writes
+            .filter((w) => w.baseRevision !== null)
+            .map(async (w) => {
+                const { data, error } = await supabase
+                    .from(table)
+                    .update(w.row)
+                    .eq('user_id', userId)
+                    .eq('id', w.row.id)
+                    .eq('updated_at', w.baseRevision!)
+                    .select('id, updated_at')
+                if (error) fail(error)
+                return { id: w.row.id, revision: (data?.[0]?.updated_at as string | undefined) ?? null }
+            })
+    )
+    for (const { id, revision } of updates) {
+        if (revision) {
+            written.push({ id, revision })
+        } else {
+            conflicts.push(id)
+        }
+    }
+
+    return { written, conflicts }
+}
+
+export const notesRouter = router({
+    // Pull spaces and pages changed after the given cursor (all when null)
+    pull: protectedProcedure
+        .input(z.object({
+            since: z.string().nullable().default(null)
+        }))
+        .query(async ({ ctx, input }) => {
+            let spacesQuery = supabase
+                .from('notes_spaces')
+                .select('*')
+                .eq('user_id', ctx.userId)
+                .order('updated_at', { ascending: true })
+            let pagesQuery = supabase
+                .from('notes_pages')
+                .select('*')
+                .eq('user_id', ctx.userId)
+                .order('updated_at', { ascending: true })
+
+            if (input.since) {
+                const from = overlapCursor(input.since)
+                spacesQuery = spacesQuery.gt('updated_at', from)
+                pagesQuery = pagesQuery.gt('updated_at', from)
+            }
+
+            const [spacesResult, pagesResult] = await Promise.all([spacesQuery, pagesQuery])
+
+            if (spacesResult.error || pagesResult.error) {
+                const error = spacesResult.error || pagesResult.error
+                log.error('[NotesRouter] Error pulling notes:', error)
+                throw new Error(error!.message)
+            }
+
+            const spaces = (spacesResult.data || []).map(rowToSpace)
+            const pages = (pagesResult.data || []).map(rowToPage)
+
+            // Advance the cursor to the newest revision actually returned
+            const cursor = [...spaces, ...pages].reduce<string | null>(
+                (latest, record) => (!latest || record.revision > latest ? record.revision : latest),
+                input.since
+            )
+
+            return { spaces, pages, cursor }
+        }),
+
+    // Push local changes; stale writes come back as conflicts to re-merge
+    push: protectedProcedure
+        .input(z.object({
+            spaces: z.array(z.object({ space: spaceSchema, baseRevision: revisionSchema })).default([]),
+            pages: z.array(z.object({ page: pageSchema, baseRevision: revisionSchema })).default([]),
+            deletedSpaces: z.array(deletionSchema.extend({ baseRevision: revisionSchema })).default([]),
+            deletedPages: z.array(deletionSchema.extend({ baseRevision: revisionSchema })).default([])
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const userId = ctx.userId
+
+            // Deletions are stored as tombstones so other devices can apply them.
+            // Written separately: a mixed upsert would null the omitted columns.
+            const spaceWrites = await writeIfCurrent('notes_spaces', userId, input.spaces.map((s) => ({
+                row: spaceToRow(userId, s.space),
+                baseRevision: s.baseRevision
+            })))
+            const spaceTombstones = await writeIfCurrent('notes_spaces', userId, input.deletedSpaces.map((d) => ({
+                row: {
+                    id: d.id,
+                    user_id: userId,
+                    deleted: true,
+                    created_at_ms: d.deletedAt,
+                    updated_at_ms: d.deletedAt
+                },
+                baseRevision: d.baseRevision
+            })))
+            const pageWrites = await writeIfCurrent('notes_pages', userId, input.pages.map((p) => ({
+                row: pageToRow(userId, p.page),
+                baseRevision: p.baseRevision
+            })))
+            const pageTombstones = await writeIfCurrent('notes_pages', userId, input.deletedPages.map((d) => ({
+                row: {
+                    id: d.id,
+                    user_id: userId,
+                    content: [],
+                    deleted: true,
+                    created_at_ms: d.deletedAt,
+                    updated_at_ms: d.deletedAt
+                },
+                baseRevision: d.baseRevision
+            })))
+
+            const conflicts = {
+                spaces: [...spaceWrites.conflicts, ...spaceTombstones.conflicts],
+                pages: [...pageWrites.conflicts, ...pageTombstones.conflicts]
+            }
+            if (conflicts.spaces.length || conflicts.pages.length) {
+                log.info(
+                    `[NotesRouter] Rejected stale writes: ${conflicts.spaces.length} space(s), ${conflicts.pages.length} page(s)`
+                )
+            }
+
+            return {
+                spaces: [...spaceWrites.written, ...spaceTombstones.written],
+                pages: [...pageWrites.written, ...pageTombstones.written],
+                conflicts
+            }
+        })
+})
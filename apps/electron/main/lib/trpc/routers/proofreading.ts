@@ -0,0 +1,62 @@
+import { z } from 'zod'
+import { router, publicProcedure, protectedProcedure } from '../trpc'
+import { getProofreadingService } from '../../proofreading'
+import log from 'electron-log'
+
+const styleGuideTermSchema = z.object({
+    term: z.string().min(1).max(200),
+    replacement: z.string().max(200).optional(),
+    note: z.string().max(500).optional()
+})
+
+/**
+ * tRPC router for proofreading: style guide, ignored rules and the LLM pass.
+ * The offline rules also run in the renderer as the user types.
+ */
+export const proofreadingRouter = router({
+    getSettings: publicProcedure.query(() => {
+        return getProofreadingService().getSettings()
+    }),
+
+    updateSettings: publicProcedure
+        .input(z.object({
+            styleGuide: z.array(styleGuideTermSchema).max(500).optional(),
+            ignoredRules: z.array(z.string().min(1)).optional()
+        }))
+        .mutation(({ input }) => {
+            return getProofreadingService().updateSettings(input)
+        }),
+
+    ignoreRule: publicProcedure
+        .input(z.object({ ruleId: z.string().min(1) }))
+        .mutation(({ input }) => {
+            return getProofreadingService().ignoreRule(input.ruleId)
+        }),
+
+    restoreRule: publicProcedure
+        .input(z.object({ ruleId: z.string().min(1) }))
+        .mutation(({ input }) => {
+            return getProofreadingService().restoreRule(input.ruleId)
+        }),
+
+    /**
+     * Rule suggestions plus, when a provider is given, the model's
+     */
+    check: protectedProcedure
+        .input(z.object({
+            text: z.string().max(200_000),
+            language: z.enum(['es', 'en', 'pt', 'fr']).optional(),
+            llm: z.object({
+                provider: z.enum(['openai', 'chatgpt-plus', 'zai', 'claude', 'custom']),
+                modelId: z.string().optional()
+            }).optional()
+        }))
+        .mutation(async ({ input }) => {
+            try {
+                return await getProofreadingService().check(input)
+            } catch (error) {
+                log.error('[ProofreadingRouter] Check failed:', error)
+                throw new Error(error instanceof Error ? error.message : 'Check failed')
+            }
+        })
+})
@@ -6,7 +6,13 @@ import {
   getSetupNeeds,
   importClaudeFromCli,
 } from "../../shared/auth";
-import { getChatGPTAuthManager, getClaudeCodeAuthManager } from "../../auth";
+import {
+  getChatGPTAuthManager,
+  getClaudeCodeAuthManager,
+  getCustomProviderManager,
+} from "../../auth";
+import { invalidateProviderRegistry } from "../../ai/providers";
+import { toCustomModelDefinition } from "../../ai/custom-endpoint";
 import { supabase } from "../../supabase/client";
 import os from "os";
 import { app } from "electron";
@@ -37,6 +43,9 @@ export const settingsRouter = router({
       // Legacy managers (for backwards compatibility)
       hasChatGPTPlus: chatGPTAuth.isConnected(),
       hasClaudeCode: claudeCodeAuth.isConnected(),
+      // OpenAI-compatible endpoint with at least one discovered model
+      hasCustomProvider:
+        (getCustomProviderManager().getConfig()?.models.length ?? 0) > 0,
     };
   }),
 
@@ -132,6 +141,78 @@ export const settingsRouter = router({
       return { success: true };
     }),
 
+  /**
+   * Custom OpenAI-compatible endpoint (Ollama, LM Studio, vLLM...)
+   * SECURITY: The endpoint key is never returned, only whether one is set.
+   */
+  getCustomProvider: publicProcedure.query(() => {
+    const config = getCustomProviderManager().getConfig();
+    if (!config) return null;
+    return {
+      baseURL: config.baseURL,
+      name: config.name ?? null,
+      hasApiKey: !!config.apiKey,
+      models: config.models,
+      // Definitions the renderer registers for the model picker
+      modelDefinitions: config.models.map((model) =>
+        toCustomModelDefinition(model, config.name),
+      ),
+    };
+  }),
+
+  // Save the endpoint and discover its models
+  setCustomProvider: publicProcedure
+    .input(
+      z.object({
+        baseURL: z.string().url(),
+        name: z.string().nullable().optional(),
+        // undefined keeps the stored key, null clears it
+        apiKey: z.string().nullable().optional(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const manager = getCustomProviderManager();
+      manager.setEndpoint({
+        baseURL: input.baseURL,
+        name: input.name,
+        apiKey:
+          input.apiKey === undefined ? manager.getApiKey() : input.apiKey,
+      });
+      invalidateProviderRegistry();
+      const models = await manager.refreshModels();
+      return { success: true, models };
+    }),
+
+  // Re-query the endpoint's /models list
+  refreshCustomModels: publicProcedure.mutation(async () => {
+    const models = await getCustomProviderManager().refreshModels();
+    return { models };
+  }),
+
+  // Override the inferred capabilities of a custom model
+  setCustomModelCapabilities: publicProcedure
+    .input(
+      z.object({
+        modelId: z.string(),
+        supportsTools: z.boolean().optional(),
+        supportsImages: z.boolean().optional(),
+        supportsReasoning: z.boolean().optional(),
+      }),
+    )
+    .mutation(({ input }) => {
+      const { modelId, ...capabilities } = input;
+      return getCustomProviderManager().setModelCapabilities(
+        modelId,
+        capabilities,
+      );
+    }),
+
+  clearCustomProvider: publicProcedure.mutation(() => {
+    getCustomProviderManager().clear();
+    invalidateProviderRegistry();
+    return { success: true };
+  }),
+
   // Clear all API keys (secure - clears encrypted storage)
   clearAllKeys: publicProcedure.mutation(async () => {
     const manager = getCredentialManager();
@@ -0,0 +1,144 @@
+import { z } from 'zod'
+import { router, protectedProcedure } from '../trpc'
+import { supabase } from '../../supabase/client'
+import { getTemplateStore } from '../../storage'
+import log from 'electron-log'
+
+// Templates live on this device (userData/templates), tagged with the account
+// that saved them. Spreadsheet and document templates are Univer snapshots with
+// {{placeholders}}; instantiating one creates a regular user file.
+
+const templateTypeSchema = z.enum(['spreadsheet', 'document', 'prompt', 'workflow'])
+
+const placeholderValuesSchema = z.record(z.union([z.string(), z.number(), z.boolean()]))
+
+const FILE_TYPE_BY_TEMPLATE = { spreadsheet: 'excel', document: 'doc' } as const
+
+/**
+ * tRPC router for the template library
+ */
+export const templatesRouter = router({
+    list: protectedProcedure
+        .input(z.object({ type: templateTypeSchema.optional() }).optional())
+        .query(async ({ ctx, input }) => {
+            const store = await getTemplateStore()
+            return store.list(ctx.userId, input?.type)
+        }),
+
+    get: protectedProcedure
+        .input(z.object({ id: z.string() }))
+        .query(async ({ ctx, input }) => {
+            const store = await getTemplateStore()
+            return store.get(ctx.userId, input.id)
+        }),
+
+    /**
+     * Save a spreadsheet or document as a template. `univerData` carries unsaved
+     * editor changes; otherwise the stored file is used.
+     */
+    saveFromFile: protectedProcedure
+        .input(z.object({
+            fileId: z.string().uuid(),
+            name: z.string().min(1).max(255),
+            description: z.string().max(1000).optional(),
+            tags: z.array(z.string()).default([]),
+            univerData: z.any().optional()
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const { data: file, error } = await supabase
+                .from('user_files')
+                .select('id, type, univer_data')
+                .eq('id', input.fileId)
+                .eq('user_id', ctx.userId)
+                .single()
+
+            if (error || !file) {
+                log.error('[TemplatesRouter] Error loading file:', error)
+                throw new Error(error?.message ?? 'File not found')
+            }
+            if (file.type !== 'excel' && file.type !== 'doc') {
+                throw new Error('Only spreadsheets and documents can be saved as templates')
+            }
+
+            const univerData = input.univerData ?? file.univer_data
+            if (!univerData) {
+                throw new Error('The file has no content yet')
+            }
+
+            const store = await getTemplateStore()
+            const template = await store.saveUniverTemplate({
+                userId: ctx.userId,
+                name: input.name,
+                type: file.type === 'excel' ? 'spreadsheet' : 'document',
+                univerData,
+                description: input.description,
+                tags: input.tags
+            })
+            log.info(`[TemplatesRouter] Saved template ${template.id} from file ${file.id}`)
+            return template
+        }),
+
+    /**
+     * Create a new user file from a template, filling its placeholders
+     */
+    instantiate: protectedProcedure
+        .input(z.object({
+            id: z.string(),
+            name: z.string().min(1).max(255).optional(),
+            values: placeholderValuesSchema.default({})
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const store = await getTemplateStore()
+            const name = input.name?.trim() || undefined
+            const { template, univerData, missing } = await store.instantiate(ctx.userId, input.id, input.values, name)
+            const type = FILE_TYPE_BY_TEMPLATE[template.type as keyof typeof FILE_TYPE_BY_TEMPLATE]
+
+            const { data: file, error: fileError } = await supabase
+                .from('user_files')
+                .insert({
+                    user_id: ctx.userId,
+                    type,
+                    name: name ?? template.name,
+                    univer_data: univerData,
+                    description: template.description,
+                    last_opened_at: new Date().toISOString(),
+                    version_count: 1,
+                    total_edits: 0
+                })
+                .select()
+                .single()
+
+            if (fileError) {
+                log.error('[TemplatesRouter] Error creating file from template:', fileError)
+                throw new Error(fileError.message)
+            }
+
+            const { error: versionError } = await supabase
+                .from('file_versions')
+                .insert({
+                    file_id: file.id,
+                    version_number: 1,
+                    univer_data: univerData,
+                    change_type: 'created',
+                    change_description: `Creado desde la plantilla "${template.name}"`,
+                    created_by: ctx.userId,
+                    size_bytes: JSON.stringify(univerData).length
+                })
+
+            if (versionError) {
+                log.error('[TemplatesRouter] Error creating initial version:', versionError)
+                // Don't throw - file was created successfully
+            }
+
+            log.info(`[TemplatesRouter] Created file ${file.id} from template ${template.id}`)
+            return { file, missing }
+        }),
+
+    delete: protectedProcedure
+        .input(z.object({ id: z.string() }))
+        .mutation(async ({ ctx, input }) => {
+            const store = await getTemplateStore()
+            await store.delete(ctx.userId, input.id)
+            return { success: true }
+        })
+})
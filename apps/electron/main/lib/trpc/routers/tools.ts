@@ -5,6 +5,38 @@ import { sendToRenderer } from '../../window-manager'
 import { getSecureApiKeyStore } from '../../auth/api-key-store'
 import log from 'electron-log'
 import OpenAI from 'openai'
+import {
+    FormulaEngine,
+    getPivotTables,
+    parseFormula,
+    recalculateWorkbook,
+    refreshPivotTables,
+    toPlainValue,
+    writePivotTable,
+    type PivotTableDefinition
+} from '../../formula'
+import { getTemplateStore } from '../../storage'
+import {
+    DEFAULT_CHART_HEIGHT,
+    DEFAULT_CHART_WIDTH,
+    SHEET_CHART_TYPES,
+    parseRangeRef,
+    readSheetCharts,
+    resolveChartData,
+    seriesFromTable,
+    snapshotRangeReader,
+    writeSheetCharts,
+    markdownToUniverBody,
+    univerDocToMarkdown,
+    type SheetChart
+} from '@s-agi/core/utils'
+import {
+    COMPARISON_COLORS,
+    buildComparisonTable,
+    compareWorkbooks,
+    summarizeComparison,
+    type SheetComparison
+} from '../../versioning'
 
 /**
  * Tool execution router - executes spreadsheet tools in the main process
@@ -14,7 +46,7 @@ import OpenAI from 'openai'
 // Context passed to tools that need external API access
 export interface ToolContext {
     apiKey?: string
-    provider?: 'openai' | 'anthropic' | 'zai' | 'chatgpt-plus'
+    provider?: 'openai' | 'anthropic' | 'zai' | 'chatgpt-plus' | 'custom'
     baseURL?: string
     headers?: Record<string, string>
 }
@@ -25,6 +57,15 @@ function notifyArtifactUpdate(artifactId: string, univerData: any, type: 'spread
     log.info(`[Tools] Sent live update for ${type}: ${artifactId}`)
 }
 
+// Helper: Recalculate formula cells so stored values match what the renderer shows
+function recalculateFormulas(univerData: any) {
+    const result = recalculateWorkbook(univerData)
+    if (result.circular.length > 0) {
+        log.warn(`[Tools] Circular references: ${result.circular.join(', ')}`)
+    }
+    return result
+}
+
 // Helper: Get artifact with ownership check (supports both direct and chat-based ownership)
 async function getArtifactWithOwnership(artifactId: string, userId: string) {
     const { data: artifact, error } = await supabase
@@ -157,6 +198,14 @@ function createUniverDocument(title: string, content: string = ''): Record<strin
 // For 2D arrays, use JSON string that we parse on execution
 const CellValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()])
 
+// Chart series bound to a range (insert_chart / update_chart)
+const ChartSeriesSchema = z.object({
+    values: z.string().describe('Range with the values, e.g. B2:B13'),
+    name: z.string().optional().describe('Series name'),
+    nameRef: z.string().optional().describe('Cell with the series name, e.g. B1'),
+    color: z.string().optional().describe('Hex color, e.g. #3b82f6')
+})
+
 export const SPREADSHEET_TOOLS = {
     create_spreadsheet: {
         description: 'Create a new spreadsheet with column headers and optional initial data.',
@@ -546,6 +595,89 @@ export const SPREADSHEET_TOOLS = {
             name: z.string().describe('Name for the range (e.g., "SalesData", "TotalRow")'),
             range: z.string().describe('Cell range to name (e.g., A1:D100)')
         })
+    },
+    create_pivot_table: {
+        description: 'Create a pivot table that groups a source range by row/column fields and aggregates value fields. The first row of the source range must contain headers. The pivot is written as a block of cells into a new or existing sheet and remembers its source range so it can be refreshed later with refresh_pivot_table.',
+        inputSchema: z.object({
+            artifactId: z.string().describe('ID of the spreadsheet artifact'),
+            sourceRange: z.string().describe('Source data range including the header row (e.g., A1:E200)'),
+            sourceSheet: z.string().optional().describe('Name of the sheet with the source data. Defaults to the first sheet.'),
+            rows: z.array(z.string()).describe('Fields to group rows by (header names or column letters, e.g., ["Region", "Product"])'),
+            columns: z.array(z.string()).optional().describe('Fields to spread across columns (e.g., ["Quarter"])'),
+            values: z.array(z.object({
+                field: z.string().describe('Field to aggregate (header name or column letter)'),
+                aggregation: z.enum(['sum', 'count', 'average', 'min', 'max', 'countDistinct']).describe('Aggregation to apply'),
+                label: z.string().optional().describe('Optional column label (default: "Sum of <field>")')
+            })).min(1).describe('Value fields to aggregate'),
+            filters: z.array(z.object({
+                field: z.string().describe('Field to filter on (header name or column letter)'),
+                values: z.array(CellValueSchema).optional().describe('Keep only rows whose value is in this list'),
+                condition: z.string().optional().describe('Keep rows matching a criterion like SUMIF: ">100", "North*", "<>Closed"')
+            })).optional().describe('Filters applied to source rows before grouping'),
+            targetSheet: z.string().optional().describe('Sheet to write the pivot into. Created if it does not exist. Defaults to a new "Pivot" sheet.'),
+            targetCell: z.string().optional().default('A1').describe('Top-left cell for the pivot table'),
+            name: z.string().optional().describe('Name for the pivot table'),
+            showGrandTotals: z.boolean().optional().default(true).describe('Add grand total row and column')
+        })
+    },
+    refresh_pivot_table: {
+        description: 'Recompute pivot tables from their stored source ranges after the data changed. Refreshes all pivot tables when pivotId is omitted.',
+        inputSchema: z.object({
+            artifactId: z.string().describe('ID of the spreadsheet artifact'),
+            pivotId: z.string().optional().describe('ID of the pivot table to refresh (returned by create_pivot_table)')
+        })
+    },
+    compare_workbooks: {
+        description: 'Compare two different spreadsheets (e.g. last month\'s export vs this month\'s). Sheets are matched by name and rows by the value of a key column, not by position, so reordered rows are not reported. Reports added, removed and changed rows with the old and new values. Optionally writes the differences as a new highlighted sheet (green = added, pink = removed, yellow = changed) into the newer spreadsheet.',
+        inputSchema: z.object({
+            artifactId: z.string().describe('ID of the newer spreadsheet artifact (e.g. this month)'),
+            otherArtifactId: z.string().describe('ID of the older spreadsheet artifact to compare against (e.g. last month)'),
+            keyColumn: z.string().describe('Column that identifies a row in both spreadsheets: header name (e.g. "Invoice ID") or column letter'),
+            sheets: z.array(z.string()).optional().describe('Names of the sheets to compare. Defaults to every sheet present in both.'),
+            headerRow: z.number().int().min(0).optional().default(1).describe('Row number of the headers (1-based); 0 if the sheets have no header row'),
+            writeResultSheet: z.boolean().optional().default(false).describe('Add a highlighted sheet with the differences to the newer spreadsheet'),
+            resultSheetName: z.string().optional().describe('Name for the result sheet (default "Comparison")')
+        })
+    },
+    insert_chart: {
+        description: 'Insert a chart into the spreadsheet that is bound to cell ranges, so it updates whenever the cells change and is exported to XLSX as a native Excel chart. Prefer this over generate_chart when the data is already in a spreadsheet. Give either dataRange (a table whose first column holds the categories and whose other columns are series named by their header) or categories and series ranges. References without a sheet name (e.g. B2:B13) point to the sheet the chart is placed on; use \'Sheet name\'!B2:B13 for data on other sheets.',
+        inputSchema: z.object({
+            artifactId: z.string().describe('ID of the spreadsheet artifact'),
+            type: z.enum(SHEET_CHART_TYPES).describe('Chart type'),
+            title: z.string().optional().describe('Chart title'),
+            dataRange: z.string().optional().describe('Table including the header row, e.g. A1:C13 (first column = categories, other columns = series)'),
+            seriesIn: z.enum(['columns', 'rows']).optional().describe('Whether series run down columns (default) or across rows of dataRange'),
+            categories: z.string().optional().describe('Range with the X axis labels or pie slice names, e.g. A2:A13'),
+            series: z.array(ChartSeriesSchema).optional().describe('Series bound to ranges (used instead of dataRange)'),
+            sheet: z.string().optional().describe('Sheet to place the chart on. Defaults to the sheet of a qualified dataRange, else the first sheet.'),
+            position: z.string().optional().describe('Cell for the top-left corner of the chart, e.g. "F2". Defaults to the right of the data.'),
+            width: z.number().optional().describe('Width in pixels (default 480)'),
+            height: z.number().optional().describe('Height in pixels (default 288)'),
+            xAxisTitle: z.string().optional().describe('Title for the X axis'),
+            yAxisTitle: z.string().optional().describe('Title for the Y axis'),
+            showLegend: z.boolean().optional().describe('Show the legend. Default: true'),
+            stacked: z.boolean().optional().describe('Stack bars/areas. Default: false')
+        })
+    },
+    update_chart: {
+        description: 'Change a chart inserted with insert_chart: type, title, bound ranges (dataRange, categories or series), axis titles, legend, stacking, position or size. Only the fields given are changed; series replaces the whole series list. Chart IDs are listed by get_spreadsheet_summary.',
+        inputSchema: z.object({
+            artifactId: z.string().describe('ID of the spreadsheet artifact'),
+            chartId: z.string().describe('ID of the chart (returned by insert_chart)'),
+            type: z.enum(SHEET_CHART_TYPES).optional().describe('New chart type'),
+            title: z.string().optional().describe('New title'),
+            dataRange: z.string().optional().describe('Rebind the chart to a table including the header row'),
+            seriesIn: z.enum(['columns', 'rows']).optional().describe('Whether series run down columns (default) or across rows of dataRange'),
+            categories: z.string().optional().describe('New categories range'),
+            series: z.array(ChartSeriesSchema).optional().describe('New series list (replaces the current series)'),
+            position: z.string().optional().describe('New top-left cell, e.g. "F2"'),
+            width: z.number().optional().describe('New width in pixels'),
+            height: z.number().optional().describe('New height in pixels'),
+            xAxisTitle: z.string().optional().describe('New X axis title (empty string removes it)'),
+            yAxisTitle: z.string().optional().describe('New Y axis title (empty string removes it)'),
+            showLegend: z.boolean().optional().describe('Show or hide the legend'),
+            stacked: z.boolean().optional().describe('Stack bars/areas')
+        })
     }
 }
 
@@ -567,14 +699,14 @@ export const DOCUMENT_TOOLS = {
         })
     },
     replace_document_content: {
-        description: 'Replace the entire content of a document with new text.',
+        description: 'Replace the entire content of a document. The content is Markdown: headings, nested lists, tables, bold/italic/strikethrough, links, inline code, code fences, quotes and rules become native document formatting.',
         inputSchema: z.object({
             artifactId: z.string().describe('ID of the document artifact'),
-            content: z.string().describe('New text content for the document')
+            content: z.string().describe('New content for the document, in Markdown')
         })
     },
     get_document_content: {
-        description: 'Get the text content of a document. Use this to read what is currently in the document before making modifications.',
+        description: 'Get the content of a document as Markdown (the same format replace_document_content accepts), plus its plain text for index-based tools like format_document_text. Use this to read what is currently in the document before making modifications.',
         inputSchema: z.object({
             artifactId: z.string().describe('ID of the document artifact')
         })
@@ -754,13 +886,26 @@ export const UI_NAVIGATION_TOOLS = {
     }
 }
 
+// Template tools - Instantiate saved spreadsheet/document templates
+export const TEMPLATE_TOOLS = {
+    instantiate_template: {
+        description: 'Create a new spreadsheet or document from a saved template, filling its {{placeholders}} with values taken from the conversation (department, period, amounts...). date, year, month and month_name are filled automatically. Call it without "template" to list the available templates and their placeholders. The result reports placeholders that were left unfilled.',
+        inputSchema: z.object({
+            template: z.string().optional().describe('Template name or ID. Omit to list the available templates.'),
+            name: z.string().optional().describe('Name for the new spreadsheet or document. Defaults to the template name.'),
+            values: z.string().optional().describe('JSON object mapping placeholder names to values, e.g. {"department": "Ventas", "budget": 12000}')
+        })
+    }
+}
+
 // Combined tools object for API exposure
 export const ALL_TOOLS = {
     ...SPREADSHEET_TOOLS,
     ...DOCUMENT_TOOLS,
     ...IMAGE_TOOLS,
     ...CHART_TOOLS,
-    ...UI_NAVIGATION_TOOLS
+    ...UI_NAVIGATION_TOOLS,
+    ...TEMPLATE_TOOLS
 }
 
 // Plan mode tools - used when mode='plan' to create execution plans
@@ -836,9 +981,13 @@ async function executeUpdateCells(
 
     updates.forEach(({ row, column, value }) => {
         if (!sheet.cellData[row]) sheet.cellData[row] = {}
-        sheet.cellData[row][column] = { v: value }
+        sheet.cellData[row][column] = typeof value === 'string' && value.startsWith('=')
+            ? { f: value }
+            : { v: value }
     })
 
+    recalculateFormulas(univerData)
+
     const { error: updateError } = await supabase
         .from('artifacts')
         .update({ univer_data: univerData, updated_at: new Date().toISOString() })
@@ -856,8 +1005,15 @@ async function executeUpdateCells(
 async function executeInsertFormula(
     args: z.infer<typeof SPREADSHEET_TOOLS.insert_formula.inputSchema>,
     userId: string
-): Promise<{ artifactId: string; message: string }> {
-    const { artifactId, cell, formula } = args
+): Promise<{ artifactId: string; message: string; value: string | number | boolean | null }> {
+    const { artifactId, cell } = args
+    const formula = args.formula.trim().startsWith('=') ? args.formula.trim() : `=${args.formula.trim()}`
+
+    try {
+        parseFormula(formula)
+    } catch (error) {
+        throw new Error(`Invalid formula ${formula}: ${error instanceof Error ? error.message : String(error)}`)
+    }
 
     // Get artifact with ownership check (supports standalone and chat-based)
     const artifact = await getArtifactWithOwnership(artifactId, userId)
@@ -868,7 +1024,10 @@ async function executeInsertFormula(
     const sheet = univerData.sheets[sheetId]
 
     if (!sheet.cellData[row]) sheet.cellData[row] = {}
-    sheet.cellData[row][col] = { v: formula, f: formula }
+    sheet.cellData[row][col] = { ...sheet.cellData[row][col], f: formula }
+
+    recalculateFormulas(univerData)
+    const value = sheet.cellData[row][col].v ?? null
 
     const { error: updateError } = await supabase
         .from('artifacts')
@@ -880,8 +1039,8 @@ async function executeInsertFormula(
     // Notify renderer for live UI update
     notifyArtifactUpdate(artifactId, univerData, 'spreadsheet')
 
-    log.info(`[Tools] Inserted formula in ${cell}: ${formula}`)
-    return { artifactId, message: `Inserted formula ${formula} in cell ${cell}` }
+    log.info(`[Tools] Inserted formula in ${cell}: ${formula} = ${value}`)
+    return { artifactId, message: `Inserted formula ${formula} in cell ${cell} (result: ${value})`, value }
 }
 
 // Helper: Convert alignment to Univer format
@@ -1053,7 +1212,7 @@ async function executeAddRow(
 async function executeGetSummary(
     args: z.infer<typeof SPREADSHEET_TOOLS.get_spreadsheet_summary.inputSchema>,
     userId: string
-): Promise<{ summary: string; headers: string[]; rowCount: number; sampleData: any[][] }> {
+): Promise<{ summary: string; headers: string[]; rowCount: number; sampleData: any[][]; charts: Array<{ id: string; type: string; title?: string; sheet: string; ranges: string[] }> }> {
     const { artifactId, maxRows } = args
 
     // Get artifact with ownership check (supports standalone and chat-based)
@@ -1084,9 +1243,18 @@ async function executeGetSummary(
         sampleData.push(row)
     }
 
-    const summary = `Spreadsheet "${artifact.name}" has ${headers.length} columns and ${rowIndices.length} data rows. Headers: ${headers.join(', ')}`
+    // Charts bound to ranges, so the agent can edit them with update_chart
+    const charts = readSheetCharts(univerData).map(chart => ({
+        id: chart.id,
+        type: chart.type,
+        title: chart.title,
+        sheet: univerData.sheets[chart.sheetId]?.name ?? chart.sheetId,
+        ranges: [chart.categories, ...chart.series.map(s => s.values)].filter((ref): ref is string => !!ref)
+    }))
+
+    const summary = `Spreadsheet "${artifact.name}" has ${headers.length} columns and ${rowIndices.length} data rows. Headers: ${headers.join(', ')}${charts.length > 0 ? `. Charts: ${charts.map(c => `${c.id} (${c.type})`).join(', ')}` : ''}`
     
-    return { summary, headers, rowCount: rowIndices.length, sampleData }
+    return { summary, headers, rowCount: rowIndices.length, sampleData, charts }
 }
 
 // Helper: Parse column letter to index (A=0, B=1, ..., Z=25, AA=26, etc.)
@@ -2656,11 +2824,12 @@ async function executeGetCellValue(
     const { row, col } = parseCellReference(cell)
 
     const cellData = sheet.cellData[row]?.[col]
-    
+    const engine = new FormulaEngine(univerData)
+
     return {
         artifactId,
         cell,
-        value: cellData?.v ?? null,
+        value: toPlainValue(engine.getCellValue(sheetId, row, col)),
         formula: cellData?.f,
         hasFormatting: !!cellData?.s
     }
@@ -2680,6 +2849,7 @@ async function executeGetRangeValues(
     const sheet = univerData.sheets[sheetId]
     const { start, end } = parseRange(range)
 
+    const engine = new FormulaEngine(univerData)
     const values: any[][] = []
     
     for (let row = start.row; row <= end.row; row++) {
@@ -2689,7 +2859,7 @@ async function executeGetRangeValues(
             if (includeFormulas && cellData?.f) {
                 rowValues.push(cellData.f)
             } else {
-                rowValues.push(cellData?.v ?? null)
+                rowValues.push(toPlainValue(engine.getCellValue(sheetId, row, col)))
             }
         }
         values.push(rowValues)
@@ -2778,20 +2948,19 @@ async function executeCalculateRange(
 
     const univerData = artifact.univer_data
     const sheetId = Object.keys(univerData.sheets)[0]
-    const sheet = univerData.sheets[sheetId]
     const { start, end } = parseRange(range)
+    const engine = new FormulaEngine(univerData)
 
     const numericValues: number[] = []
     let totalCount = 0
 
+    // Formula cells count with their computed value
     for (let row = start.row; row <= end.row; row++) {
         for (let col = start.col; col <= end.col; col++) {
             totalCount++
-            const value = sheet.cellData[row]?.[col]?.v
+            const value = engine.getCellValue(sheetId, row, col)
             if (typeof value === 'number') {
                 numericValues.push(value)
-            } else if (typeof value === 'string' && !isNaN(parseFloat(value))) {
-                numericValues.push(parseFloat(value))
             }
         }
     }
@@ -3057,6 +3226,347 @@ async function executeCreateNamedRange(
     return { artifactId, message: `Created named range "${name}" referencing ${range}` }
 }
 
+// Helper: Find a sheet by name (case-insensitive)
+function findSheetIdByName(univerData: any, name: string): string | undefined {
+    return Object.keys(univerData.sheets).find(
+        id => (univerData.sheets[id].name ?? id).toLowerCase() === name.toLowerCase()
+    )
+}
+
+async function executeCreatePivotTable(
+    args: z.infer<typeof SPREADSHEET_TOOLS.create_pivot_table.inputSchema>,
+    userId: string
+): Promise<{ artifactId: string; message: string; pivotId: string; sheetId: string; outputRange: string }> {
+    const { artifactId, sourceRange, sourceSheet, rows, columns, values, filters, targetSheet, targetCell = 'A1', showGrandTotals = true } = args
+
+    // Get artifact with ownership check (supports standalone and chat-based)
+    const artifact = await getArtifactWithOwnership(artifactId, userId)
+
+    const univerData = artifact.univer_data
+    const sourceSheetId = sourceSheet
+        ? findSheetIdByName(univerData, sourceSheet)
+        : Object.keys(univerData.sheets)[0]
+    if (!sourceSheetId) throw new Error(`Sheet not found: ${sourceSheet}`)
+
+    // Write into the named sheet (created if missing) or a new "Pivot" sheet
+    let targetSheetId = targetSheet ? findSheetIdByName(univerData, targetSheet) : undefined
+    if (!targetSheetId) {
+        let sheetName = targetSheet || 'Pivot'
+        for (let n = 2; findSheetIdByName(univerData, sheetName); n++) sheetName = `Pivot ${n}`
+        targetSheetId = `sheet_${Date.now()}`
+        univerData.sheets[targetSheetId] = {
+            id: targetSheetId,
+            name: sheetName,
+            rowCount: 100,
+            columnCount: 26,
+            cellData: {},
+            tabColor: '',
+            defaultColumnWidth: 100,
+            defaultRowHeight: 24
+        }
+        if (!univerData.sheetOrder) univerData.sheetOrder = []
+        univerData.sheetOrder.push(targetSheetId)
+    }
+
+    const definition: PivotTableDefinition = {
+        id: `pivot_${Date.now()}`,
+        name: args.name || `Pivot of ${sourceRange}`,
+        sourceSheetId,
+        sourceRange,
+        targetSheetId,
+        targetCell,
+        rows,
+        columns,
+        values,
+        filters,
+        showGrandTotals,
+        createdAt: new Date().toISOString()
+    }
+    const result = writePivotTable(univerData, definition)
+
+    const { error: updateError } = await supabase
+        .from('artifacts')
+        .update({ univer_data: univerData, updated_at: new Date().toISOString() })
+        .eq('id', artifactId)
+
+    if (updateError) throw new Error(`Failed to create pivot table: ${updateError.message}`)
+
+    notifyArtifactUpdate(artifactId, univerData, 'spreadsheet')
+
+    const sheetName = univerData.sheets[targetSheetId].name
+    log.info(`[Tools] Created pivot table ${definition.id} from ${sourceRange} in ${sheetName}!${result.outputRange}`)
+    return {
+        artifactId,
+        message: `Created pivot table "${definition.name}" in ${sheetName}!${result.outputRange} (${result.rowGroupCount} groups from ${result.recordCount} rows)`,
+        pivotId: definition.id,
+        sheetId: targetSheetId,
+        outputRange: result.outputRange
+    }
+}
+
+async function executeRefreshPivotTable(
+    args: z.infer<typeof SPREADSHEET_TOOLS.refresh_pivot_table.inputSchema>,
+    userId: string
+): Promise<{ artifactId: string; message: string; refreshed: Array<{ id: string; name: string; outputRange: string; recordCount: number }> }> {
+    const { artifactId, pivotId } = args
+
+    // Get artifact with ownership check (supports standalone and chat-based)
+    const artifact = await getArtifactWithOwnership(artifactId, userId)
+
+    const univerData = artifact.univer_data
+    const refreshed = refreshPivotTables(univerData, pivotId)
+    if (refreshed.length === 0) {
+        return { artifactId, message: 'No pivot tables to refresh', refreshed }
+    }
+
+    const { error: updateError } = await supabase
+        .from('artifacts')
+        .update({ univer_data: univerData, updated_at: new Date().toISOString() })
+        .eq('id', artifactId)
+
+    if (updateError) throw new Error(`Failed to refresh pivot table: ${updateError.message}`)
+
+    notifyArtifactUpdate(artifactId, univerData, 'spreadsheet')
+
+    log.info(`[Tools] Refreshed ${refreshed.length} pivot table(s) in ${artifactId}`)
+    return { artifactId, message: `Refreshed ${refreshed.length} pivot table(s)`, refreshed }
+}
+
+// Rows listed per category in the tool result; the result sheet has them all
+const COMPARE_RESULT_ROW_LIMIT = 20
+
+async function executeCompareWorkbooks(
+    args: z.infer<typeof SPREADSHEET_TOOLS.compare_workbooks.inputSchema>,
+    userId: string
+): Promise<{ artifactId: string; message: string; summary: string; sheets: unknown[]; resultSheetId?: string }> {
+    const { artifactId, otherArtifactId, keyColumn, sheets, headerRow = 1, writeResultSheet = false, resultSheetName } = args
+
+    // Get both artifacts with ownership check (supports standalone and chat-based)
+    const artifact = await getArtifactWithOwnership(artifactId, userId)
+    const other = await getArtifactWithOwnership(otherArtifactId, userId)
+    if (artifact.type !== 'spreadsheet' || other.type !== 'spreadsheet') {
+        throw new Error('compare_workbooks only works on spreadsheets')
+    }
+
+    const comparison = compareWorkbooks(other.univer_data, artifact.univer_data, { keyColumn, headerRow, sheets })
+    const summary = summarizeComparison(comparison)
+
+    // Keep the result small enough for the model; the result sheet has every row
+    const limit = <T>(items: T[]) => items.slice(0, COMPARE_RESULT_ROW_LIMIT)
+    const sheetResults = comparison.sheets.map((sheet: SheetComparison) => ({
+        sheetName: sheet.sheetName,
+        keyColumn: sheet.keyColumn,
+        counts: {
+            added: sheet.added.length,
+            removed: sheet.removed.length,
+            changed: sheet.changed.length,
+            unchanged: sheet.unchanged
+        },
+        added: limit(sheet.added).map(row => row.values),
+        removed: limit(sheet.removed).map(row => row.values),
+        changed: limit(sheet.changed).map(row => ({ key: row.key, changes: row.changes })),
+        duplicateKeys: limit(sheet.duplicateKeys),
+        truncated: [sheet.added, sheet.removed, sheet.changed].some(items => items.length > COMPARE_RESULT_ROW_LIMIT)
+    }))
+
+    let resultSheetId: string | undefined
+    if (writeResultSheet && comparison.sheets.length > 0) {
+        const univerData = artifact.univer_data
+        const table = buildComparisonTable(comparison)
+
+        const cellData: Record<number, Record<number, any>> = {}
+        table.rows.forEach((row, rowIndex) => {
+            cellData[rowIndex] = {}
+            row.forEach((value, colIndex) => {
+                if (value === '' || value === undefined || value === null) return
+                cellData[rowIndex][colIndex] = { v: value }
+            })
+        })
+        // Header styling matches create_sheet
+        for (const colIndex of Object.keys(cellData[0] ?? {})) {
+            cellData[0][Number(colIndex)].s = { bl: 1, bg: { rgb: '#f3f4f6' } }
+        }
+        for (const mark of table.marks) {
+            if (!cellData[mark.row]) cellData[mark.row] = {}
+            const cell = cellData[mark.row][mark.col] ?? (cellData[mark.row][mark.col] = {})
+            cell.s = { ...(cell.s ?? {}), bg: { rgb: COMPARISON_COLORS[mark.type] } }
+        }
+
+        const existingNames = new Set(Object.values(univerData.sheets ?? {}).map((sheet: any) => String(sheet.name).toLowerCase()))
+        const baseName = resultSheetName?.trim() || 'Comparison'
+        let name = baseName
+        for (let n = 2; existingNames.has(name.toLowerCase()); n++) name = `${baseName} ${n}`
+
+        resultSheetId = `sheet_${Date.now()}`
+        const columnCount = table.rows[0]?.length ?? 0
+        univerData.sheets[resultSheetId] = {
+            id: resultSheetId,
+            name,
+            rowCount: Math.max(100, table.rows.length + 10),
+            columnCount: Math.max(26, columnCount + 2),
+            cellData,
+            tabColor: '',
+            defaultColumnWidth: 100,
+            defaultRowHeight: 24,
+            freeze: { xSplit: 0, ySplit: 1, startRow: 1, startColumn: 0 }
+        }
+        if (!univerData.sheetOrder) univerData.sheetOrder = []
+        univerData.sheetOrder.push(resultSheetId)
+
+        const { error: updateError } = await supabase
+            .from('artifacts')
+            .update({ univer_data: univerData, updated_at: new Date().toISOString() })
+            .eq('id', artifactId)
+
+        if (updateError) throw new Error(`Failed to write comparison sheet: ${updateError.message}`)
+
+        notifyArtifactUpdate(artifactId, univerData, 'spreadsheet')
+    }
+
+    log.info(`[Tools] Compared ${otherArtifactId} → ${artifactId} by "${keyColumn}"`)
+    return {
+        artifactId,
+        message: resultSheetId ? `${summary}\nDifferences written to a new highlighted sheet.` : summary,
+        summary,
+        sheets: sheetResults,
+        resultSheetId
+    }
+}
+
+// Helper: Bind a chart to dataRange or to explicit categories/series ranges
+function bindChartRanges(
+    chart: SheetChart,
+    args: { dataRange?: string; seriesIn?: 'columns' | 'rows'; categories?: string; series?: SheetChart['series'] }
+) {
+    if (args.dataRange) {
+        Object.assign(chart, seriesFromTable(args.dataRange, { seriesIn: args.seriesIn }))
+        return
+    }
+    if (args.categories !== undefined) chart.categories = args.categories || undefined
+    if (args.series) chart.series = args.series
+}
+
+// Helper: Place a chart at a cell, or to the right of the data on its sheet
+function placeChart(chart: SheetChart, univerData: any, position?: string) {
+    if (position) {
+        const { row, col } = parseCellReference(position)
+        chart.anchor = { ...chart.anchor, row, column: col, rowOffset: 0, columnOffset: 0 }
+        return
+    }
+    const sheetName = univerData.sheets[chart.sheetId]?.name
+    const refs = [chart.categories, ...chart.series.map(s => s.values)]
+        .filter((ref): ref is string => !!ref)
+        .map(parseRangeRef)
+        .filter(ref => !ref.sheetName || ref.sheetName.toLowerCase() === sheetName?.toLowerCase())
+    if (refs.length === 0) return
+    chart.anchor = {
+        ...chart.anchor,
+        row: Math.min(...refs.map(ref => ref.startRow)),
+        column: Math.max(...refs.map(ref => ref.endColumn)) + 2
+    }
+}
+
+async function saveChartWorkbook(artifactId: string, univerData: any, charts: SheetChart[]) {
+    writeSheetCharts(univerData, charts)
+    const { error: updateError } = await supabase
+        .from('artifacts')
+        .update({ univer_data: univerData, updated_at: new Date().toISOString() })
+        .eq('id', artifactId)
+
+    if (updateError) throw new Error(`Failed to save chart: ${updateError.message}`)
+
+    notifyArtifactUpdate(artifactId, univerData, 'spreadsheet')
+}
+
+// Helper: Short description of what a chart currently shows
+function describeChartData(chart: SheetChart, univerData: any): string {
+    const data = resolveChartData(chart, snapshotRangeReader(univerData))
+    const series = data.series.map(s => `${s.name} (${s.values.filter(v => v !== null).length} values)`)
+    return `${data.categories.length} categories, series: ${series.join(', ')}`
+}
+
+async function executeInsertChart(
+    args: z.infer<typeof SPREADSHEET_TOOLS.insert_chart.inputSchema>,
+    userId: string
+): Promise<{ artifactId: string; message: string; chartId: string; sheetId: string }> {
+    const { artifactId, type, title, sheet, position, width, height, xAxisTitle, yAxisTitle, showLegend, stacked } = args
+    if (!args.dataRange && !args.series?.length) {
+        throw new Error('insert_chart needs dataRange or series')
+    }
+
+    // Get artifact with ownership check (supports standalone and chat-based)
+    const artifact = await getArtifactWithOwnership(artifactId, userId)
+    if (artifact.type !== 'spreadsheet') throw new Error('insert_chart only works on spreadsheets')
+
+    const univerData = artifact.univer_data
+    const dataSheet = args.dataRange ? parseRangeRef(args.dataRange).sheetName : undefined
+    const sheetName = sheet ?? dataSheet
+    const sheetId = sheetName
+        ? findSheetIdByName(univerData, sheetName)
+        : (univerData.sheetOrder?.[0] ?? Object.keys(univerData.sheets)[0])
+    if (!sheetId) throw new Error(`Sheet not found: ${sheetName}`)
+
+    const chart: SheetChart = {
+        id: `chart_${Date.now()}`,
+        sheetId,
+        type,
+        title,
+        series: [],
+        xAxisTitle,
+        yAxisTitle,
+        showLegend: showLegend ?? true,
+        stacked: stacked ?? false,
+        anchor: { row: 0, column: 0, width: width ?? DEFAULT_CHART_WIDTH, height: height ?? DEFAULT_CHART_HEIGHT }
+    }
+    bindChartRanges(chart, args)
+    placeChart(chart, univerData, position)
+    // Fails on unknown sheets or malformed ranges before anything is saved
+    const shown = describeChartData(chart, univerData)
+
+    await saveChartWorkbook(artifactId, univerData, [...readSheetCharts(univerData), chart])
+
+    const cell = `${columnIndexToLetter(chart.anchor.column)}${chart.anchor.row + 1}`
+    log.info(`[Tools] Inserted ${type} chart ${chart.id} at ${univerData.sheets[sheetId].name}!${cell}`)
+    return {
+        artifactId,
+        message: `Inserted ${type} chart "${title ?? chart.id}" at ${univerData.sheets[sheetId].name}!${cell} (${shown}). It updates when the cells change.`,
+        chartId: chart.id,
+        sheetId
+    }
+}
+
+async function executeUpdateChart(
+    args: z.infer<typeof SPREADSHEET_TOOLS.update_chart.inputSchema>,
+    userId: string
+): Promise<{ artifactId: string; message: string; chartId: string }> {
+    const { artifactId, chartId } = args
+
+    // Get artifact with ownership check (supports standalone and chat-based)
+    const artifact = await getArtifactWithOwnership(artifactId, userId)
+
+    const univerData = artifact.univer_data
+    const charts = readSheetCharts(univerData)
+    const chart = charts.find(c => c.id === chartId)
+    if (!chart) throw new Error(`Chart not found: ${chartId}`)
+
+    if (args.type) chart.type = args.type
+    if (args.title !== undefined) chart.title = args.title || undefined
+    if (args.xAxisTitle !== undefined) chart.xAxisTitle = args.xAxisTitle || undefined
+    if (args.yAxisTitle !== undefined) chart.yAxisTitle = args.yAxisTitle || undefined
+    if (args.showLegend !== undefined) chart.showLegend = args.showLegend
+    if (args.stacked !== undefined) chart.stacked = args.stacked
+    if (args.width) chart.anchor.width = args.width
+    if (args.height) chart.anchor.height = args.height
+    bindChartRanges(chart, args)
+    if (args.position) placeChart(chart, univerData, args.position)
+    const shown = describeChartData(chart, univerData)
+
+    await saveChartWorkbook(artifactId, univerData, charts)
+
+    log.info(`[Tools] Updated chart ${chartId} in ${artifactId}`)
+    return { artifactId, message: `Updated chart "${chart.title ?? chartId}" (${chart.type}; ${shown})`, chartId }
+}
+
 // ============================================
 // Document Tool Execution Functions (FREE)
 // ============================================
@@ -3140,24 +3650,10 @@ async function executeReplaceDocumentContent(
     // Get artifact with ownership check (supports standalone and chat-based)
     const artifact = await getArtifactWithOwnership(artifactId, userId)
 
-    // Create new document body from content
-    const lines = content.split('\n')
-    let dataStream = ''
-    const paragraphs: Array<{ startIndex: number }> = []
-    
-    let currentIndex = 0
-    for (const line of lines) {
-        paragraphs.push({ startIndex: currentIndex })
-        dataStream += line + '\r\n'
-        currentIndex += line.length + 2
-    }
-
     const univerData = artifact.univer_data
-    univerData.body = {
-        dataStream,
-        textRuns: [],
-        paragraphs
-    }
+    univerData.body = markdownToUniverBody(content)
+    // Links from add_link are matched by text and belong to the old content
+    delete univerData.customRanges
 
     const { error: updateError } = await supabase
         .from('artifacts')
@@ -3180,7 +3676,7 @@ async function executeReplaceDocumentContent(
 async function executeGetDocumentContent(
     args: z.infer<typeof DOCUMENT_TOOLS.get_document_content.inputSchema>,
     userId: string
-): Promise<{ artifactId: string; content: string; title: string }> {
+): Promise<{ artifactId: string; content: string; text: string; title: string }> {
     const { artifactId } = args
     
     // Get artifact with ownership check (supports standalone and chat-based)
@@ -3189,12 +3685,11 @@ async function executeGetDocumentContent(
     const univerData = artifact.univer_data
     const body = univerData.body as { dataStream: string }
     
-    // Convert dataStream back to plain text (remove \r\n formatting)
-    const content = body.dataStream.replace(/\r\n/g, '\n').trim()
-    
     return { 
         artifactId, 
-        content, 
+        content: univerDocToMarkdown(univerData),
+        // Plain dataStream text, whose indices format_document_text uses
+        text: body.dataStream.replace(/\r\n/g, '\n').trim(),
         title: univerData.title || artifact.name 
     }
 }
@@ -4471,6 +4966,86 @@ async function executeGenerateChart(
     }
 }
 
+// Instantiate a spreadsheet or document artifact from a saved template
+async function executeInstantiateTemplate(
+    args: z.infer<typeof TEMPLATE_TOOLS.instantiate_template.inputSchema>,
+    chatId: string,
+    userId: string
+): Promise<unknown> {
+    const store = await getTemplateStore()
+    // Only Univer snapshots can become artifacts (imported .xlsx files cannot)
+    const available = (await store.list(userId)).filter(t =>
+        (t.type === 'spreadsheet' || t.type === 'document') && t.ext === 'json'
+    )
+
+    if (!args.template) {
+        return {
+            templates: available.map(t => ({
+                id: t.id,
+                name: t.name,
+                type: t.type,
+                description: t.description,
+                tags: t.tags,
+                placeholders: t.placeholders ?? []
+            })),
+            message: available.length > 0
+                ? `${available.length} template(s) available`
+                : 'No templates saved yet. The user can save one with "Guardar como plantilla" in the file menu.'
+        }
+    }
+
+    const meta = await store.find(userId, args.template)
+    if (!meta || !available.some(t => t.id === meta.id)) {
+        const names = available.map(t => `"${t.name}"`).join(', ') || 'none'
+        throw new Error(`Template not found: ${args.template}. Available templates: ${names}`)
+    }
+
+    let values: Record<string, string | number | boolean> = {}
+    if (args.values) {
+        try {
+            values = JSON.parse(args.values)
+        } catch (e) {
+            throw new Error(`values must be a JSON object: ${e instanceof Error ? e.message : String(e)}`)
+        }
+        if (!values || typeof values !== 'object' || Array.isArray(values)) {
+            throw new Error('values must be a JSON object')
+        }
+    }
+
+    const { template, univerData, missing } = await store.instantiate(userId, meta.id, values, args.name?.trim() || undefined)
+    const name = args.name?.trim() || template.name
+    const type = template.type === 'spreadsheet' ? 'spreadsheet' : 'document'
+
+    if (type === 'spreadsheet') {
+        recalculateFormulas(univerData)
+    }
+
+    const { data: artifact, error } = await supabase
+        .from('artifacts')
+        .insert({
+            chat_id: chatId,
+            user_id: userId, // Always set user_id for direct ownership
+            type,
+            name,
+            content: { templateId: template.id, templateName: template.name },
+            univer_data: univerData
+        })
+        .select()
+        .single()
+
+    if (error) throw new Error(`Failed to create ${type} from template: ${error.message}`)
+
+    log.info(`[Tools] Created ${type} artifact ${artifact.id} from template ${template.id}`)
+    return {
+        artifactId: artifact.id,
+        type,
+        missing,
+        message: missing.length > 0
+            ? `Created ${type} "${name}" from template "${template.name}". Unfilled placeholders: ${missing.join(', ')}`
+            : `Created ${type} "${name}" from template "${template.name}"`
+    }
+}
+
 // Main tool execution function
 export async function executeTool(
     toolName: string,
@@ -4711,6 +5286,35 @@ export async function executeTool(
                 userId
             )
 
+        case 'create_pivot_table':
+            return executeCreatePivotTable(
+                SPREADSHEET_TOOLS.create_pivot_table.inputSchema.parse(args),
+                userId
+            )
+
+        case 'refresh_pivot_table':
+            return executeRefreshPivotTable(
+                SPREADSHEET_TOOLS.refresh_pivot_table.inputSchema.parse(args),
+                userId
+            )
+        case 'compare_workbooks':
+            return executeCompareWorkbooks(
+                SPREADSHEET_TOOLS.compare_workbooks.inputSchema.parse(args),
+                userId
+            )
+
+        case 'insert_chart':
+            return executeInsertChart(
+                SPREADSHEET_TOOLS.insert_chart.inputSchema.parse(args),
+                userId
+            )
+
+        case 'update_chart':
+            return executeUpdateChart(
+                SPREADSHEET_TOOLS.update_chart.inputSchema.parse(args),
+                userId
+            )
+
         // Document tools (FREE)
         case 'create_document':
             return executeCreateDocument(
@@ -4841,6 +5445,14 @@ export async function executeTool(
                 userId
             )
 
+        // Template tools
+        case 'instantiate_template':
+            return executeInstantiateTemplate(
+                TEMPLATE_TOOLS.instantiate_template.inputSchema.parse(args),
+                chatId,
+                userId
+            )
+
         // Plan mode tools
         case 'ExitPlanMode': {
             // ExitPlanMode just returns the plan - no side effects
@@ -5008,6 +5620,29 @@ export const toolsRouter = router({
             return executeTool(input.toolName, input.args, input.chatId, ctx.userId, context)
         }),
 
+    // Pivot tables stored on a spreadsheet artifact (for the sheet's refresh action)
+    listPivotTables: protectedProcedure
+        .input(z.object({ artifactId: z.string().uuid() }))
+        .query(async ({ ctx, input }) => {
+            const artifact = await getArtifactWithOwnership(input.artifactId, ctx.userId)
+            return getPivotTables(artifact.univer_data ?? {}).map(pivot => ({
+                id: pivot.id,
+                name: pivot.name,
+                outputRange: pivot.outputRange,
+                refreshedAt: pivot.refreshedAt
+            }))
+        }),
+
+    // Same as the refresh_pivot_table tool, run by the user from the sheet
+    refreshPivotTables: protectedProcedure
+        .input(z.object({
+            artifactId: z.string().uuid(),
+            pivotId: z.string().optional()
+        }))
+        .mutation(async ({ ctx, input }) => {
+            return executeRefreshPivotTable(input, ctx.userId)
+        }),
+
     list: protectedProcedure.query(() => {
         return Object.entries(ALL_TOOLS).map(([name, tool]) => ({
             name,
@@ -24,6 +24,9 @@ export {
     // UI tools
     UI_NAVIGATION_TOOLS,
     type UIToolName,
+    // Template tools
+    TEMPLATE_TOOLS,
+    type TemplateToolName,
     // Plan tools
     PLAN_TOOLS,
     type PlanToolName,
@@ -11,7 +11,7 @@ import log from 'electron-log'
  */
 export interface ToolContext {
     apiKey?: string
-    provider?: 'openai' | 'anthropic' | 'zai' | 'chatgpt-plus'
+    provider?: 'openai' | 'anthropic' | 'zai' | 'chatgpt-plus' | 'custom'
     baseURL?: string
     headers?: Record<string, string>
 }
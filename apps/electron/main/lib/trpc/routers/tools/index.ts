@@ -24,6 +24,7 @@ export {
     IMAGE_TOOLS,
     CHART_TOOLS,
     UI_NAVIGATION_TOOLS,
+    TEMPLATE_TOOLS,
     PLAN_TOOLS,
     ALL_TOOLS,
     CellValueSchema,
@@ -32,6 +33,7 @@ export {
     type ImageToolName,
     type ChartToolName,
     type UIToolName,
+    type TemplateToolName,
     type PlanToolName,
     type ToolName
 } from './definitions'
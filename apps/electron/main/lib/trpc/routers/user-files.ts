@@ -3,6 +3,18 @@ import { router, protectedProcedure } from "../trpc";
 import { supabase } from "../../supabase/client";
 import log from "electron-log";
 import { cleanupFile } from "./user-files-cleanup";
+import {
+  DEFAULT_BRANCH,
+  findBranchHead,
+  findMergeBase,
+  buildComparisonTable,
+  compareWorkbooks,
+  mergeWorkbooks,
+  normalizeBranchName,
+  summarizeBranches,
+  type MergeSide,
+  type VersionNode,
+} from "../../versioning";
 
 // Cleanup threshold - when version count exceeds this, trigger cleanup
 const CLEANUP_THRESHOLD = 100;
@@ -66,6 +78,91 @@ async function shouldCreateSnapshot(
   return shouldSnapshot;
 }
 
+// ==================== BRANCH HELPERS ====================
+
+/**
+ * Loads every version of a file as graph nodes (branch and parents only)
+ */
+async function loadVersionGraph(fileId: string): Promise<VersionNode[]> {
+  const { data, error } = await supabase
+    .from("file_versions")
+    .select(
+      "id, version_number, branch_name, commit_parent_id, merge_parent_id, is_obsolete, created_at",
+    )
+    .eq("file_id", fileId)
+    .order("version_number", { ascending: true });
+
+  if (error) {
+    log.error("[UserFilesRouter] Error loading version graph:", error);
+    throw new Error(error.message);
+  }
+  return data || [];
+}
+
+async function getVersionData(versionId: string) {
+  const { data, error } = await supabase
+    .from("file_versions")
+    .select("id, version_number, univer_data, content")
+    .eq("id", versionId)
+    .single();
+
+  if (error) {
+    log.error("[UserFilesRouter] Error getting version data:", error);
+    throw new Error(error.message);
+  }
+  return data;
+}
+
+/**
+ * Base, ours (the working copy) and theirs (head of `source`) for merging
+ * `source` into the current branch
+ */
+async function prepareMerge(fileId: string, userId: string, source: string) {
+  const { data: file } = await supabase
+    .from("user_files")
+    .select("id, type, univer_data, content, current_branch, version_count")
+    .eq("id", fileId)
+    .eq("user_id", userId)
+    .single();
+
+  if (!file) {
+    throw new Error("File not found");
+  }
+  if (file.type !== "excel") {
+    throw new Error("Only spreadsheets can be merged");
+  }
+
+  const target = file.current_branch || DEFAULT_BRANCH;
+  if (source === target) {
+    throw new Error("Cannot merge a branch into itself");
+  }
+
+  const versions = await loadVersionGraph(fileId);
+  const sourceHead = findBranchHead(versions, source);
+  const targetHead = findBranchHead(versions, target);
+  if (!sourceHead) {
+    throw new Error(`Branch "${source}" not found`);
+  }
+
+  const mergeBase = targetHead
+    ? findMergeBase(versions, targetHead.id, sourceHead.id)
+    : null;
+  const theirs = await getVersionData(sourceHead.id);
+  const base = mergeBase ? await getVersionData(mergeBase.id) : null;
+
+  return {
+    file,
+    target,
+    sourceHead,
+    targetHead,
+    // Everything on `source` is already part of the current branch
+    upToDate: mergeBase?.id === sourceHead.id,
+    base: base?.univer_data ?? null,
+    ours: file.univer_data ?? {},
+    theirs: theirs.univer_data ?? {},
+  };
+}
+
 // Schemas
 const fileTypeSchema = z.enum(["excel", "doc", "note"]);
 const changeTypeSchema = z.enum([
@@ -269,7 +366,7 @@ export const userFilesRouter = router({
       // Get current file for version count and previous version data
       const { data: currentFile, error: fetchError } = await supabase
         .from("user_files")
-        .select("version_count, total_edits, univer_data, content")
+        .select("version_count, total_edits, univer_data, content, current_branch")
         .eq("id", id)
         .eq("user_id", ctx.userId)
         .single();
@@ -329,13 +426,17 @@ export const userFilesRouter = router({
 
         const newVersionNumber = nextVersionData || (currentFile.version_count || 0) + 1;
 
-        // Get previous version for diff calculation (if available)
+        // Previous version is the head of the branch the working copy is on
+        const branch = currentFile.current_branch || DEFAULT_BRANCH;
         const { data: previousVersion } = await supabase
           .from("file_versions")
-          .select("id, univer_data, content")
+          .select("id, version_number, univer_data, content")
           .eq("file_id", id)
-          .eq("version_number", newVersionNumber - 1)
-          .single();
+          .eq("branch_name", branch)
+          .or("is_obsolete.is.null,is_obsolete.eq.false")
+          .order("version_number", { ascending: false })
+          .limit(1)
+          .maybeSingle();
 
         // Prepare version insert data
         const versionData: Record<string, unknown> = {
@@ -353,6 +454,7 @@ export const userFilesRouter = router({
           size_bytes: JSON.stringify(
             updates.univerData || updates.content || "",
           ).length,
+          branch_name: branch,
         };
 
         // Add commit fields if provided
@@ -378,7 +480,8 @@ export const userFilesRouter = router({
         // For now, we store a placeholder that indicates diff should be calculated
         versionData.diff_summary = {
           needsCalculation: true,
-          previousVersionNumber: newVersionNumber - 1,
+          previousVersionNumber:
+            previousVersion?.version_number ?? newVersionNumber - 1,
         };
 
         const { error: insertVersionError } = await supabase
@@ -538,6 +641,7 @@ export const userFilesRouter = router({
         limit: z.number().min(1).max(100).default(50),
         offset: z.number().min(0).default(0),
         includeObsolete: z.boolean().default(false), // Include obsolete versions (from restore operations)
+        branch: z.string().optional(), // Only versions of this branch
       }),
     )
     .query(async ({ ctx, input }) => {
@@ -556,10 +660,14 @@ export const userFilesRouter = router({
       let query = supabase
         .from("file_versions")
         .select(
-          "id, version_number, change_type, change_description, ai_model, ai_prompt, tool_name, size_bytes, created_at, univer_data, content, commit_id, commit_message, is_obsolete, obsoleted_at, obsoleted_by_version",
+          "id, version_number, change_type, change_description, ai_model, ai_prompt, tool_name, size_bytes, created_at, univer_data, content, commit_id, commit_message, commit_parent_id, merge_parent_id, branch_name, is_obsolete, obsoleted_at, obsoleted_by_version",
         )
         .eq("file_id", input.fileId);
 
+      if (input.branch) {
+        query = query.eq("branch_name", input.branch);
+      }
+
       // By default, hide obsolete versions (they were superseded by a restore)
       if (!input.includeObsolete) {
         query = query.or("is_obsolete.is.null,is_obsolete.eq.false");
@@ -641,7 +749,7 @@ export const userFilesRouter = router({
       // Get current file
       const { data: currentFile, error: fileError } = await supabase
         .from("user_files")
-        .select("version_count")
+        .select("version_count, current_branch")
         .eq("id", input.fileId)
         .eq("user_id", ctx.userId)
         .single();
@@ -652,6 +760,7 @@ export const userFilesRouter = router({
       }
 
       const currentVersionNumber = currentFile.version_count || 0;
+      const branch = currentFile.current_branch || DEFAULT_BRANCH;
 
       // IMPORTANT: When restoring, we need to:
       // 1. Mark all versions after the restored one as obsolete (soft delete)
@@ -680,6 +789,7 @@ export const userFilesRouter = router({
             obsoleted_by_version: newVersionNumber,
           })
           .eq("file_id", input.fileId)
+          .eq("branch_name", branch) // Other branches keep their history
           .gt("version_number", input.versionNumber);
 
         if (obsoleteError) {
@@ -731,6 +841,7 @@ export const userFilesRouter = router({
             version.univer_data || version.content || "",
           ).length,
           commit_parent_id: version.id, // Link to the restored version
+          branch_name: branch,
         });
 
       if (newVersionError) {
@@ -810,6 +921,68 @@ export const userFilesRouter = router({
       };
     }),
 
+  // Compare this spreadsheet with another one, aligning rows by a key column
+  compareWithFile: protectedProcedure
+    .input(
+      z.object({
+        fileId: z.string().uuid(),
+        otherFileId: z.string().uuid(), // The older workbook (e.g. last month)
+        otherVersion: z.number().min(1).optional(), // Compare against a version of the other file
+        keyColumn: z.string().min(1),
+        headerRow: z.number().int().min(0).default(1),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      // Verify ownership of both files
+      const { data: files, error: filesError } = await supabase
+        .from("user_files")
+        .select("id, name, type, univer_data")
+        .in("id", [input.fileId, input.otherFileId])
+        .eq("user_id", ctx.userId);
+
+      if (filesError) {
+        log.error("[UserFilesRouter] Error loading files to compare:", filesError);
+        throw new Error(filesError.message);
+      }
+
+      const file = files?.find((f) => f.id === input.fileId);
+      const otherFile = files?.find((f) => f.id === input.otherFileId);
+      if (!file || !otherFile) {
+        throw new Error("File not found");
+      }
+      if (file.type !== "excel" || otherFile.type !== "excel") {
+        throw new Error("Only spreadsheets can be compared");
+      }
+
+      let otherData = otherFile.univer_data;
+      if (input.otherVersion) {
+        const { data: version, error: versionError } = await supabase
+          .from("file_versions")
+          .select("univer_data")
+          .eq("file_id", input.otherFileId)
+          .eq("version_number", input.otherVersion)
+          .single();
+
+        if (versionError) {
+          log.error("[UserFilesRouter] Error getting version to compare:", versionError);
+          throw new Error(versionError.message);
+        }
+        otherData = version.univer_data;
+      }
+
+      const comparison = compareWorkbooks(otherData ?? {}, file.univer_data ?? {}, {
+        keyColumn: input.keyColumn,
+        headerRow: input.headerRow,
+      });
+
+      return {
+        fileName: file.name,
+        otherFileName: otherFile.name,
+        comparison,
+        table: buildComparisonTable(comparison),
+      };
+    }),
+
   // Get version stats for a file
   getVersionStats: protectedProcedure
     .input(z.object({ fileId: z.string().uuid() }))
@@ -850,6 +1023,351 @@ export const userFilesRouter = router({
       return stats;
     }),
 
+  // ==================== BRANCHES ====================
+
+  // List branches with their head version and the branch of the working copy
+  listBranches: protectedProcedure
+    .input(z.object({ fileId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      // Verify file ownership
+      const { data: file } = await supabase
+        .from("user_files")
+        .select("id, current_branch")
+        .eq("id", input.fileId)
+        .eq("user_id", ctx.userId)
+        .single();
+
+      if (!file) {
+        throw new Error("File not found");
+      }
+
+      const currentBranch = file.current_branch || DEFAULT_BRANCH;
+      const branches = summarizeBranches(await loadVersionGraph(input.fileId));
+      // A file without versions still has its current branch
+      if (!branches.some((branch) => branch.name === currentBranch)) {
+        branches.unshift({
+          name: currentBranch,
+          headVersion: 0,
+          headId: "",
+          versionCount: 0,
+        });
+      }
+
+      return { currentBranch, branches };
+    }),
+
+  // Fork a new branch from any version and switch the working copy to it
+  createBranch: protectedProcedure
+    .input(
+      z.object({
+        fileId: z.string().uuid(),
+        name: z.string().min(1).max(63),
+        fromVersion: z.number().min(1),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const name = normalizeBranchName(input.name);
+
+      // Verify file ownership
+      const { data: file } = await supabase
+        .from("user_files")
+        .select("id")
+        .eq("id", input.fileId)
+        .eq("user_id", ctx.userId)
+        .single();
+
+      if (!file) {
+        throw new Error("File not found");
+      }
+
+      const versions = await loadVersionGraph(input.fileId);
+      if (findBranchHead(versions, name)) {
+        throw new Error(`Branch "${name}" already exists`);
+      }
+
+      const { data: fromVersion, error: fromError } = await supabase
+        .from("file_versions")
+        .select("id, version_number, univer_data, content, branch_name")
+        .eq("file_id", input.fileId)
+        .eq("version_number", input.fromVersion)
+        .single();
+
+      if (fromError) {
+        log.error("[UserFilesRouter] Error getting version to branch from:", fromError);
+        throw new Error(fromError.message);
+      }
+
+      const { data: nextVersionData, error: nextVersionError } = await supabase
+        .rpc("get_next_file_version", { p_file_id: input.fileId });
+
+      if (nextVersionError) {
+        log.error("[UserFilesRouter] Error getting next version for branch:", nextVersionError);
+        throw new Error(`Failed to get next version number: ${nextVersionError.message}`);
+      }
+
+      const newVersionNumber = nextVersionData || versions.length + 1;
+
+      const { error: insertError } = await supabase
+        .from("file_versions")
+        .insert({
+          file_id: input.fileId,
+          version_number: newVersionNumber,
+          univer_data: fromVersion.univer_data,
+          content: fromVersion.content,
+          change_type: "branch",
+          change_description: `Rama "${name}" creada desde versión ${fromVersion.version_number}`,
+          created_by: ctx.userId,
+          size_bytes: JSON.stringify(
+            fromVersion.univer_data || fromVersion.content || "",
+          ).length,
+          branch_name: name,
+          commit_parent_id: fromVersion.id, // Fork point
+        });
+
+      if (insertError) {
+        log.error("[UserFilesRouter] Error creating branch version:", insertError);
+        throw new Error(insertError.message);
+      }
+
+      const { data: updatedFile, error: updateError } = await supabase
+        .from("user_files")
+        .update({
+          univer_data: fromVersion.univer_data,
+          content: fromVersion.content,
+          current_branch: name,
+          version_count: newVersionNumber,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", input.fileId)
+        .eq("user_id", ctx.userId)
+        .select()
+        .single();
+
+      if (updateError) {
+        log.error("[UserFilesRouter] Error switching to new branch:", updateError);
+        throw new Error(updateError.message);
+      }
+
+      log.info(
+        "[UserFilesRouter] Created branch",
+        name,
+        "from version",
+        fromVersion.version_number,
+      );
+      return updatedFile;
+    }),
+
+  // Switch the working copy to the head of another branch
+  switchBranch: protectedProcedure
+    .input(
+      z.object({
+        fileId: z.string().uuid(),
+        name: z.string().min(1),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { data: file } = await supabase
+        .from("user_files")
+        .select("*")
+        .eq("id", input.fileId)
+        .eq("user_id", ctx.userId)
+        .single();
+
+      if (!file) {
+        throw new Error("File not found");
+      }
+
+      const currentBranch = file.current_branch || DEFAULT_BRANCH;
+      if (input.name === currentBranch) {
+        return file;
+      }
+
+      const versions = await loadVersionGraph(input.fileId);
+      const targetHead = findBranchHead(versions, input.name);
+      if (!targetHead) {
+        throw new Error(`Branch "${input.name}" not found`);
+      }
+
+      let versionCount = file.version_count || 0;
+
+      // Edits made since the last snapshot would be lost: keep them on the branch being left
+      const currentHead = findBranchHead(versions, currentBranch);
+      const currentHeadData = currentHead
+        ? await getVersionData(currentHead.id)
+        : null;
+      const hasUnversionedChanges =
+        JSON.stringify(currentHeadData?.univer_data ?? null) !==
+          JSON.stringify(file.univer_data ?? null) ||
+        (currentHeadData?.content ?? null) !== (file.content ?? null);
+
+      if (hasUnversionedChanges) {
+        const { data: nextVersionData, error: nextVersionError } =
+          await supabase.rpc("get_next_file_version", {
+            p_file_id: input.fileId,
+          });
+
+        if (nextVersionError) {
+          log.error("[UserFilesRouter] Error getting next version before switch:", nextVersionError);
+          throw new Error(`Failed to get next version number: ${nextVersionError.message}`);
+        }
+
+        versionCount = nextVersionData || versionCount + 1;
+        const { error: snapshotError } = await supabase
+          .from("file_versions")
+          .insert({
+            file_id: input.fileId,
+            version_number: versionCount,
+            univer_data: file.univer_data,
+            content: file.content,
+            change_type: "auto_save",
+            change_description: `Guardado antes de cambiar a la rama "${input.name}"`,
+            created_by: ctx.userId,
+            size_bytes: JSON.stringify(
+              file.univer_data || file.content || "",
+            ).length,
+            branch_name: currentBranch,
+            commit_parent_id: currentHead?.id,
+          });
+
+        if (snapshotError) {
+          log.error("[UserFilesRouter] Error saving working copy before switch:", snapshotError);
+          throw new Error(snapshotError.message);
+        }
+      }
+
+      const head = await getVersionData(targetHead.id);
+      const { data: updatedFile, error: updateError } = await supabase
+        .from("user_files")
+        .update({
+          univer_data: head.univer_data,
+          content: head.content,
+          current_branch: input.name,
+          version_count: versionCount,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", input.fileId)
+        .eq("user_id", ctx.userId)
+        .select()
+        .single();
+
+      if (updateError) {
+        log.error("[UserFilesRouter] Error switching branch:", updateError);
+        throw new Error(updateError.message);
+      }
+
+      log.info("[UserFilesRouter] Switched file", input.fileId, "to branch", input.name);
+      return updatedFile;
+    }),
+
+  // Three-way merge preview: what merging `source` into the current branch would do
+  previewMerge: protectedProcedure
+    .input(
+      z.object({
+        fileId: z.string().uuid(),
+        source: z.string().min(1),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const prepared = await prepareMerge(input.fileId, ctx.userId, input.source);
+      const result = prepared.upToDate
+        ? null
+        : mergeWorkbooks(prepared.base, prepared.ours, prepared.theirs);
+
+      return {
+        source: input.source,
+        target: prepared.target,
+        upToDate: prepared.upToDate,
+        hasBase: prepared.base !== null,
+        conflicts: result?.conflicts ?? [],
+        autoMerged: result?.autoMerged ?? 0,
+        notes: result?.notes ?? [],
+      };
+    }),
+
+  // Merge `source` into the current branch, resolving conflicts per cell
+  mergeBranch: protectedProcedure
+    .input(
+      z.object({
+        fileId: z.string().uuid(),
+        source: z.string().min(1),
+        // Conflict key (sheetId!row:col) → side to keep; unresolved cells keep the current branch
+        resolutions: z
+          .record(z.string(), z.enum(["ours", "theirs", "base"]))
+          .default({}),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const prepared = await prepareMerge(input.fileId, ctx.userId, input.source);
+      if (prepared.upToDate) {
+        throw new Error(`Branch "${input.source}" is already merged`);
+      }
+
+      const { merged, conflicts } = mergeWorkbooks(
+        prepared.base,
+        prepared.ours,
+        prepared.theirs,
+        input.resolutions as Record<string, MergeSide>,
+      );
+
+      const { data: nextVersionData, error: nextVersionError } = await supabase
+        .rpc("get_next_file_version", { p_file_id: input.fileId });
+
+      if (nextVersionError) {
+        log.error("[UserFilesRouter] Error getting next version for merge:", nextVersionError);
+        throw new Error(`Failed to get next version number: ${nextVersionError.message}`);
+      }
+
+      const newVersionNumber =
+        nextVersionData || (prepared.file.version_count || 0) + 1;
+
+      const { error: insertError } = await supabase
+        .from("file_versions")
+        .insert({
+          file_id: input.fileId,
+          version_number: newVersionNumber,
+          univer_data: merged,
+          change_type: "merge",
+          change_description: `Fusión de "${input.source}" en "${prepared.target}"`,
+          created_by: ctx.userId,
+          size_bytes: JSON.stringify(merged).length,
+          branch_name: prepared.target,
+          commit_parent_id: prepared.targetHead?.id,
+          merge_parent_id: prepared.sourceHead.id,
+          diff_summary: { conflicts: conflicts.length },
+        });
+
+      if (insertError) {
+        log.error("[UserFilesRouter] Error creating merge version:", insertError);
+        throw new Error(insertError.message);
+      }
+
+      const { data: updatedFile, error: updateError } = await supabase
+        .from("user_files")
+        .update({
+          univer_data: merged,
+          version_count: newVersionNumber,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", input.fileId)
+        .eq("user_id", ctx.userId)
+        .select()
+        .single();
+
+      if (updateError) {
+        log.error("[UserFilesRouter] Error applying merge:", updateError);
+        throw new Error(updateError.message);
+      }
+
+      log.info(
+        "[UserFilesRouter] Merged branch",
+        input.source,
+        "into",
+        prepared.target,
+        `(${conflicts.length} conflicts)`,
+      );
+      return updatedFile;
+    }),
+
   // ==================== COMMITS ====================
 
   // Create a commit (group multiple changes)
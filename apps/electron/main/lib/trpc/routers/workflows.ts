@@ -0,0 +1,99 @@
+import { z } from 'zod'
+import { router, protectedProcedure } from '../trpc'
+import { supabase } from '../../supabase/client'
+import { getTemplateStore } from '../../storage'
+import { recordWorkflow, runWorkflow, validateWorkflowDefinition } from '../../workflows'
+import type { RecordedToolCall } from '../../workflows'
+import log from 'electron-log'
+
+// Workflows are stored in the template library as 'workflow' templates whose
+// content is a WorkflowDefinition (JSON), owned by the account that recorded them.
+
+async function loadWorkflow(userId: string, id: string) {
+    const store = await getTemplateStore()
+    const entry = await store.get(userId, id)
+    if (!entry || entry.type !== 'workflow' || !entry.content) {
+        throw new Error('Workflow not found')
+    }
+    const { content, ...meta } = entry
+    return { meta, definition: validateWorkflowDefinition(JSON.parse(content)) }
+}
+
+/**
+ * tRPC router for recorded workflows (macros)
+ */
+export const workflowsRouter = router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+        const store = await getTemplateStore()
+        return store.list(ctx.userId, 'workflow')
+    }),
+
+    get: protectedProcedure
+        .input(z.object({ id: z.string() }))
+        .query(async ({ ctx, input }) => {
+            const { meta, definition } = await loadWorkflow(ctx.userId, input.id)
+            return { ...meta, definition }
+        }),
+
+    /**
+     * Record the tool calls of an assistant message as a workflow
+     */
+    recordFromMessage: protectedProcedure
+        .input(z.object({
+            messageId: z.string().uuid(),
+            name: z.string().min(1).max(255),
+            description: z.string().max(1000).optional()
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const { data: message, error } = await supabase
+                .from('chat_messages')
+                .select('*, chats(user_id)')
+                .eq('id', input.messageId)
+                .single()
+
+            const chatData = Array.isArray(message?.chats) ? message.chats[0] : message?.chats
+            if (error || !message || chatData?.user_id !== ctx.userId) {
+                log.error('[WorkflowsRouter] Error loading message:', error)
+                throw new Error('Message not found')
+            }
+
+            const toolCalls: RecordedToolCall[] = message.metadata?.tool_calls || message.tool_calls || []
+            const { definition, skipped } = recordWorkflow(toolCalls)
+
+            const store = await getTemplateStore()
+            const workflow = await store.saveWorkflow(ctx.userId, input.name, definition, [], {
+                description: input.description,
+                placeholders: definition.parameters.map(param => param.name)
+            })
+            log.info(`[WorkflowsRouter] Recorded workflow ${workflow.id} with ${definition.steps.length} step(s)`)
+            return { workflow, stepCount: definition.steps.length, skipped }
+        }),
+
+    /**
+     * Replay a workflow. With `dryRun` nothing is changed and the before/after
+     * snapshots are returned for preview.
+     */
+    run: protectedProcedure
+        .input(z.object({
+            id: z.string(),
+            values: z.record(z.string()),
+            dryRun: z.boolean().default(false)
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const { definition } = await loadWorkflow(ctx.userId, input.id)
+            try {
+                return await runWorkflow(ctx.userId, definition, input.values, { dryRun: input.dryRun })
+            } catch (error) {
+                log.error('[WorkflowsRouter] Run failed:', error)
+                throw new Error(error instanceof Error ? error.message : 'Workflow failed')
+            }
+        }),
+
+    delete: protectedProcedure
+        .input(z.object({ id: z.string() }))
+        .mutation(async ({ ctx, input }) => {
+            const store = await getTemplateStore()
+            await store.delete(ctx.userId, input.id)
+            return { success: true }
+        })
+})
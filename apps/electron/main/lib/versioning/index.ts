@@ -0,0 +1,3 @@
+export * from './workbook-merge'
+export * from './version-graph'
+export * from './workbook-compare'
@@ -0,0 +1,113 @@
+/**
+ * Helpers over the file_versions graph: branch heads and merge bases.
+ * A version's parents are commit_parent_id (previous version or fork point)
+ * and, for merges, merge_parent_id.
+ */
+
+export const DEFAULT_BRANCH = 'main'
+
+export interface VersionNode {
+    id: string
+    version_number: number
+    branch_name?: string | null
+    commit_parent_id?: string | null
+    merge_parent_id?: string | null
+    is_obsolete?: boolean | null
+    created_at?: string
+}
+
+export interface BranchSummary {
+    name: string
+    headVersion: number
+    headId: string
+    versionCount: number
+    updatedAt?: string
+}
+
+const BRANCH_NAME = /^[\p{L}\p{N}][\p{L}\p{N} ._/-]{0,62}$/u
+
+/**
+ * Branch names: 1–63 characters, letters, digits, spaces and . _ / -
+ */
+export function normalizeBranchName(name: string): string {
+    const trimmed = name.trim().replace(/\s+/g, ' ')
+    if (!BRANCH_NAME.test(trimmed)) {
+        throw new Error('Invalid branch name')
+    }
+    return trimmed
+}
+
+export function branchOf(version: VersionNode): string {
+    return version.branch_name || DEFAULT_BRANCH
+}
+
+/**
+ * Latest non-obsolete version of each branch, most recently updated first
+ */
+export function summarizeBranches(versions: VersionNode[]): BranchSummary[] {
+    const branches = new Map<string, BranchSummary>()
+    for (const version of versions) {
+        if (version.is_obsolete) continue
+        const name = branchOf(version)
+        const current = branches.get(name)
+        if (!current) {
+            branches.set(name, {
+                name,
+                headVersion: version.version_number,
+                headId: version.id,
+                versionCount: 1,
+                updatedAt: version.created_at
+            })
+            continue
+        }
+        current.versionCount++
+        if (version.version_number > current.headVersion) {
+            current.headVersion = version.version_number
+            current.headId = version.id
+            current.updatedAt = version.created_at
+        }
+    }
+    return [...branches.values()].sort((a, b) => b.headVersion - a.headVersion)
+}
+
+export function findBranchHead(versions: VersionNode[], branch: string): VersionNode | null {
+    let head: VersionNode | null = null
+    for (const version of versions) {
+        if (version.is_obsolete || branchOf(version) !== branch) continue
+        if (!head || version.version_number > head.version_number) head = version
+    }
+    return head
+}
+
+function parentsOf(version: VersionNode | undefined): string[] {
+    if (!version) return []
+    return [version.commit_parent_id, version.merge_parent_id].filter((id): id is string => !!id)
+}
+
+/**
+ * Nearest common ancestor of two versions (breadth-first from `b` over the
+ * ancestors of `a`). Null when the histories never meet.
+ */
+export function findMergeBase(versions: VersionNode[], aId: string, bId: string): VersionNode | null {
+    const byId = new Map(versions.map(version => [version.id, version]))
+
+    const ancestorsOfA = new Set<string>()
+    const stack = [aId]
+    while (stack.length > 0) {
+        const id = stack.pop()!
+        if (ancestorsOfA.has(id)) continue
+        ancestorsOfA.add(id)
+        stack.push(...parentsOf(byId.get(id)))
+    }
+
+    const seen = new Set<string>()
+    const queue = [bId]
+    while (queue.length > 0) {
+        const id = queue.shift()!
+        if (seen.has(id)) continue
+        seen.add(id)
+        if (ancestorsOfA.has(id)) return byId.get(id) ?? null
+        queue.push(...parentsOf(byId.get(id)))
+    }
+    return null
+}
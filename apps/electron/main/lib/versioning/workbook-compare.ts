@@ -0,0 +1,348 @@
+/**
+ * Compare two different workbooks (e.g. last month's export vs this month's).
+ *
+ * Unlike the version diff, which compares cells by position, sheets are
+ * aligned by name, columns by header and rows by the value of a key column,
+ * so reordered or inserted rows are not reported as changes.
+ */
+
+import { columnIndexToLetter, columnLetterToIndex } from '../workflows/workflow-definition'
+
+type Snapshot = Record<string, any>
+
+export interface CompareWorkbooksOptions {
+    /** Header name or column letter holding the row key */
+    keyColumn: string
+    /** 1-based header row; 0 when the sheets have no header */
+    headerRow?: number
+    /** Only compare these sheets (by name); all common sheets by default */
+    sheets?: string[]
+}
+
+export interface RowValues {
+    key: string
+    /** 0-based row in its workbook */
+    row: number
+    values: Record<string, unknown>
+}
+
+export interface ColumnChange {
+    column: string
+    before: unknown
+    after: unknown
+}
+
+export interface ChangedRow {
+    key: string
+    beforeRow: number
+    afterRow: number
+    /** Values in the newer workbook */
+    values: Record<string, unknown>
+    changes: ColumnChange[]
+}
+
+export interface SheetComparison {
+    sheetName: string
+    keyColumn: string
+    /** Aligned column names, key column first */
+    columns: string[]
+    added: RowValues[]
+    removed: RowValues[]
+    changed: ChangedRow[]
+    unchanged: number
+    /** Keys found more than once in a sheet; only the first row is compared */
+    duplicateKeys: string[]
+}
+
+export interface WorkbookComparison {
+    sheets: SheetComparison[]
+    onlyInBefore: string[]
+    onlyInAfter: string[]
+    /** Common sheets that could not be compared, e.g. missing key column */
+    skipped: Array<{ sheetName: string; reason: string }>
+}
+
+export type ComparisonMark = 'added' | 'modified' | 'deleted'
+
+export interface ComparisonTable {
+    rows: unknown[][]
+    /** Cells to highlight in `rows` (0-based) */
+    marks: Array<{ row: number; col: number; type: ComparisonMark }>
+}
+
+/** Same palette as the renderer's highlightChanges */
+export const COMPARISON_COLORS: Record<ComparisonMark, string> = {
+    added: '#90EE90',
+    modified: '#FFE4B5',
+    deleted: '#FFB6C1'
+}
+
+const COLUMN_LETTERS = /^[A-Z]{1,3}$/i
+
+interface SheetTable {
+    columns: string[]
+    /** Column name → 0-based column index */
+    indexOf: Map<string, number>
+    rows: Array<{ row: number; cells: Record<number, unknown> }>
+}
+
+function sheetsByName(snapshot: Snapshot): Map<string, Snapshot> {
+    const result = new Map<string, Snapshot>()
+    const sheets: Record<string, Snapshot> = snapshot?.sheets ?? {}
+    const order: string[] = snapshot?.sheetOrder ?? Object.keys(sheets)
+    for (const id of order) {
+        const sheet = sheets[id]
+        if (!sheet) continue
+        const name = String(sheet.name ?? id).trim()
+        if (!result.has(name.toLowerCase())) result.set(name.toLowerCase(), sheet)
+    }
+    return result
+}
+
+function cellValue(cell: any): unknown {
+    if (!cell || typeof cell !== 'object') return undefined
+    if (cell.v !== undefined && cell.v !== null) return cell.v
+    return cell.f ?? undefined
+}
+
+/** Values that differ only in type or surrounding spaces are equal ("5" vs 5) */
+function sameValue(a: unknown, b: unknown): boolean {
+    return String(a ?? '').trim() === String(b ?? '').trim()
+}
+
+function readTable(sheet: Snapshot, headerRow: number): SheetTable {
+    const cellData: Record<string, Record<string, any>> = sheet.cellData ?? {}
+    const headerIndex = headerRow - 1
+    const columns: string[] = []
+    const indexOf = new Map<string, number>()
+
+    let maxCol = -1
+    for (const row of Object.values(cellData)) {
+        for (const col of Object.keys(row ?? {})) maxCol = Math.max(maxCol, Number(col))
+    }
+    for (let col = 0; col <= maxCol; col++) {
+        const header = headerRow > 0 ? String(cellValue(cellData[headerIndex]?.[col]) ?? '').trim() : ''
+        const name = header || columnIndexToLetter(col)
+        if (indexOf.has(name)) continue
+        columns.push(name)
+        indexOf.set(name, col)
+    }
+
+    const rows = Object.keys(cellData)
+        .map(Number)
+        .filter(row => row > headerIndex)
+        .sort((a, b) => a - b)
+        .map(row => {
+            const cells: Record<number, unknown> = {}
+            for (const [col, cell] of Object.entries(cellData[row] ?? {})) {
+                const value = cellValue(cell)
+                if (value !== undefined && value !== '') cells[Number(col)] = value
+            }
+            return { row, cells }
+        })
+        .filter(row => Object.keys(row.cells).length > 0)
+
+    return { columns, indexOf, rows }
+}
+
+function resolveKeyColumn(table: SheetTable, keyColumn: string): string | null {
+    const wanted = keyColumn.trim().toLowerCase()
+    const byHeader = table.columns.find(name => name.toLowerCase() === wanted)
+    if (byHeader) return byHeader
+    if (COLUMN_LETTERS.test(keyColumn.trim())) {
+        const index = columnLetterToIndex(keyColumn.trim().toUpperCase())
+        for (const [name, col] of table.indexOf) {
+            if (col === index) return name
+        }
+    }
+    return null
+}
+
+function compareSheet(
+    sheetName: string,
+    before: SheetTable,
+    after: SheetTable,
+    beforeKey: string,
+    afterKey: string
+): SheetComparison {
+    // Columns are matched by name; the key column is matched even if renamed
+    const columns = [afterKey]
+    for (const name of [...after.columns, ...before.columns]) {
+        if (name !== afterKey && name !== beforeKey && !columns.includes(name)) columns.push(name)
+    }
+    const columnIn = (table: SheetTable, keyName: string, name: string): number | undefined =>
+        name === afterKey ? table.indexOf.get(keyName) : table.indexOf.get(name)
+
+    const duplicateKeys = new Set<string>()
+    const index = (table: SheetTable, keyName: string) => {
+        const keyCol = table.indexOf.get(keyName)!
+        const byKey = new Map<string, RowValues>()
+        for (const { row, cells } of table.rows) {
+            const key = String(cells[keyCol] ?? '').trim()
+            if (!key) continue
+            if (byKey.has(key)) {
+                duplicateKeys.add(key)
+                continue
+            }
+            const values: Record<string, unknown> = {}
+            for (const name of columns) {
+                const col = columnIn(table, keyName, name)
+                if (col !== undefined && cells[col] !== undefined) values[name] = cells[col]
+            }
+            byKey.set(key, { key, row, values })
+        }
+        return byKey
+    }
+
+    const beforeRows = index(before, beforeKey)
+    const afterRows = index(after, afterKey)
+    const result: SheetComparison = {
+        sheetName,
+        keyColumn: afterKey,
+        columns,
+        added: [],
+        removed: [],
+        changed: [],
+        unchanged: 0,
+        duplicateKeys: []
+    }
+
+    for (const [key, row] of afterRows) {
+        const old = beforeRows.get(key)
+        if (!old) {
+            result.added.push(row)
+            continue
+        }
+        const changes: ColumnChange[] = []
+        for (const name of columns) {
+            if (!sameValue(old.values[name], row.values[name])) {
+                changes.push({ column: name, before: old.values[name], after: row.values[name] })
+            }
+        }
+        if (changes.length > 0) {
+            result.changed.push({ key, beforeRow: old.row, afterRow: row.row, values: row.values, changes })
+        } else {
+            result.unchanged++
+        }
+    }
+    for (const [key, row] of beforeRows) {
+        if (!afterRows.has(key)) result.removed.push(row)
+    }
+
+    result.duplicateKeys = [...duplicateKeys]
+    return result
+}
+
+/**
+ * Compare `before` (e.g. last month) with `after` (e.g. this month)
+ */
+export function compareWorkbooks(
+    before: Snapshot,
+    after: Snapshot,
+    options: CompareWorkbooksOptions
+): WorkbookComparison {
+    const headerRow = options.headerRow ?? 1
+    const beforeSheets = sheetsByName(before)
+    const afterSheets = sheetsByName(after)
+    const only = options.sheets?.map(name => name.trim().toLowerCase())
+
+    const comparison: WorkbookComparison = { sheets: [], onlyInBefore: [], onlyInAfter: [], skipped: [] }
+
+    for (const [lower, sheet] of afterSheets) {
+        if (only && !only.includes(lower)) continue
+        const name = String(sheet.name ?? lower)
+        const previous = beforeSheets.get(lower)
+        if (!previous) {
+            comparison.onlyInAfter.push(name)
+            continue
+        }
+
+        const beforeTable = readTable(previous, headerRow)
+        const afterTable = readTable(sheet, headerRow)
+        const beforeKey = resolveKeyColumn(beforeTable, options.keyColumn)
+        const afterKey = resolveKeyColumn(afterTable, options.keyColumn)
+        if (!beforeKey || !afterKey) {
+            comparison.skipped.push({ sheetName: name, reason: `Key column "${options.keyColumn}" not found` })
+            continue
+        }
+        comparison.sheets.push(compareSheet(name, beforeTable, afterTable, beforeKey, afterKey))
+    }
+    for (const [lower, sheet] of beforeSheets) {
+        if (only && !only.includes(lower)) continue
+        if (!afterSheets.has(lower)) comparison.onlyInBefore.push(String(sheet.name ?? lower))
+    }
+
+    if (only && comparison.sheets.length === 0 && comparison.skipped.length === 0) {
+        throw new Error(`None of the sheets ${options.sheets!.join(', ')} exist in both workbooks`)
+    }
+    return comparison
+}
+
+/**
+ * One-line-per-sheet summary for tool results and toasts
+ */
+export function summarizeComparison(comparison: WorkbookComparison): string {
+    const lines = comparison.sheets.map(sheet =>
+        `${sheet.sheetName}: ${sheet.added.length} added, ${sheet.removed.length} removed, ${sheet.changed.length} changed, ${sheet.unchanged} unchanged (key: ${sheet.keyColumn})`
+    )
+    if (comparison.onlyInAfter.length > 0) lines.push(`Only in the new workbook: ${comparison.onlyInAfter.join(', ')}`)
+    if (comparison.onlyInBefore.length > 0) lines.push(`Only in the old workbook: ${comparison.onlyInBefore.join(', ')}`)
+    for (const skipped of comparison.skipped) lines.push(`${skipped.sheetName}: skipped (${skipped.reason})`)
+    return lines.join('\n') || 'No sheets in common'
+}
+
+/**
+ * Flatten a comparison into a sheet: one row per added, removed or changed
+ * record, with the cells to highlight. Changed rows show the new values and
+ * the Details column lists old → new.
+ */
+export function buildComparisonTable(comparison: WorkbookComparison): ComparisonTable {
+    const multipleSheets = comparison.sheets.length > 1
+    const columns: string[] = []
+    for (const sheet of comparison.sheets) {
+        for (const name of sheet.columns) {
+            if (!columns.includes(name)) columns.push(name)
+        }
+    }
+
+    const prefix = multipleSheets ? ['Status', 'Sheet'] : ['Status']
+    const rows: unknown[][] = [[...prefix, ...columns, 'Details']]
+    const marks: ComparisonTable['marks'] = []
+    const firstColumn = prefix.length
+
+    const push = (sheet: SheetComparison, status: string, values: Record<string, unknown>, details = '') => {
+        rows.push([
+            status,
+            ...(multipleSheets ? [sheet.sheetName] : []),
+            ...columns.map(name => values[name] ?? ''),
+            details
+        ])
+    }
+    const markRow = (type: ComparisonMark) => {
+        const row = rows.length - 1
+        for (let col = 0; col < rows[row].length; col++) marks.push({ row, col, type })
+    }
+
+    for (const sheet of comparison.sheets) {
+        for (const added of sheet.added) {
+            push(sheet, 'Added', added.values)
+            markRow('added')
+        }
+        for (const removed of sheet.removed) {
+            push(sheet, 'Removed', removed.values)
+            markRow('deleted')
+        }
+        for (const changed of sheet.changed) {
+            push(sheet, 'Changed', changed.values, changed.changes
+                .map(change => `${change.column}: ${String(change.before ?? '')} → ${String(change.after ?? '')}`)
+                .join('; '))
+            const row = rows.length - 1
+            marks.push({ row, col: 0, type: 'modified' })
+            for (const change of changed.changes) {
+                marks.push({ row, col: firstColumn + columns.indexOf(change.column), type: 'modified' })
+            }
+        }
+    }
+
+    return { rows, marks }
+}
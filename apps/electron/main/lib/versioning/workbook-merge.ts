@@ -0,0 +1,239 @@
+/**
+ * Three-way merge of Univer workbook snapshots at the cell level.
+ *
+ * Each cell (and each sheet/workbook property) is compared against the common
+ * ancestor: a change on one side wins, the same change on both sides is kept,
+ * and different changes to the same cell are reported as conflicts. Conflicts
+ * default to "ours" until a resolution is given.
+ */
+
+type Snapshot = Record<string, any>
+type CellMatrix = Record<string, Record<string, unknown>>
+
+export type MergeSide = 'ours' | 'theirs' | 'base'
+
+export interface CellConflict {
+    /** `${sheetId}!${row}:${col}` — used as the key for resolutions */
+    key: string
+    sheetId: string
+    sheetName: string
+    row: number
+    col: number
+    /** Cell on each side with its style resolved, for display */
+    base: unknown
+    ours: unknown
+    theirs: unknown
+}
+
+export interface WorkbookMergeResult {
+    merged: Snapshot
+    conflicts: CellConflict[]
+    /** Cells taken from the other branch without conflict */
+    autoMerged: number
+    /** Non-cell situations resolved automatically, e.g. a sheet kept because it was edited on one side and deleted on the other */
+    notes: string[]
+}
+
+const SHEET_CELLS_KEY = 'cellData'
+// Workbook keys merged specifically
+const WORKBOOK_SPECIAL_KEYS = new Set(['sheets', 'sheetOrder', 'styles'])
+
+export function conflictKey(sheetId: string, row: number, col: number): string {
+    return `${sheetId}!${row}:${col}`
+}
+
+function clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value))
+}
+
+/**
+ * Stable JSON (sorted keys) so property order does not count as a change
+ */
+function canonical(value: unknown): string {
+    if (value === undefined) return 'undefined'
+    return JSON.stringify(value, (_key, item) => {
+        if (item && typeof item === 'object' && !Array.isArray(item)) {
+            return Object.keys(item).sort().reduce<Record<string, unknown>>((acc, key) => {
+                acc[key] = item[key]
+                return acc
+            }, {})
+        }
+        return item
+    })
+}
+
+function same(a: unknown, b: unknown): boolean {
+    return canonical(a) === canonical(b)
+}
+
+/** Empty cells ({} or only nulls) are treated like missing ones */
+function normalizeCell(cell: unknown, styles: Record<string, unknown>): unknown {
+    if (!cell || typeof cell !== 'object') return undefined
+    const result: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(cell as Record<string, unknown>)) {
+        if (value === null || value === undefined || value === '') continue
+        // Compare the style itself, not its id: ids differ between branches
+        result[key] = key === 's' && typeof value === 'string' ? styles[value] ?? value : value
+    }
+    return Object.keys(result).length > 0 ? result : undefined
+}
+
+function getCell(matrix: CellMatrix | undefined, row: string, col: string): unknown {
+    return matrix?.[row]?.[col]
+}
+
+function setCell(matrix: CellMatrix, row: string, col: string, cell: unknown): void {
+    if (cell === undefined) {
+        if (matrix[row]) {
+            delete matrix[row][col]
+            if (Object.keys(matrix[row]).length === 0) delete matrix[row]
+        }
+        return
+    }
+    if (!matrix[row]) matrix[row] = {}
+    matrix[row][col] = clone(cell)
+}
+
+/**
+ * Three-way pick for a non-cell value; conflicting changes keep ours
+ */
+function pickValue(base: unknown, ours: unknown, theirs: unknown): unknown {
+    if (same(ours, theirs) || same(theirs, base)) return ours
+    if (same(ours, base)) return theirs
+    return ours
+}
+
+function mergeSheet(
+    sheetId: string,
+    base: Snapshot | undefined,
+    ours: Snapshot,
+    theirs: Snapshot,
+    styles: { base: Record<string, unknown>; ours: Record<string, unknown>; theirs: Record<string, unknown> },
+    resolutions: Record<string, MergeSide>,
+    result: WorkbookMergeResult
+): Snapshot {
+    const merged: Snapshot = {}
+    const keys = new Set([...Object.keys(base ?? {}), ...Object.keys(ours), ...Object.keys(theirs)])
+    for (const key of keys) {
+        if (key === SHEET_CELLS_KEY) continue
+        const value = pickValue(base?.[key], ours[key], theirs[key])
+        if (value !== undefined) merged[key] = clone(value)
+    }
+    // Grid size must fit the cells of both sides
+    for (const key of ['rowCount', 'columnCount']) {
+        if (typeof ours[key] === 'number' && typeof theirs[key] === 'number') {
+            merged[key] = Math.max(ours[key], theirs[key])
+        }
+    }
+
+    const baseCells: CellMatrix | undefined = base?.[SHEET_CELLS_KEY]
+    const ourCells: CellMatrix = ours[SHEET_CELLS_KEY] ?? {}
+    const theirCells: CellMatrix = theirs[SHEET_CELLS_KEY] ?? {}
+    const mergedCells: CellMatrix = {}
+
+    const rows = new Set([...Object.keys(baseCells ?? {}), ...Object.keys(ourCells), ...Object.keys(theirCells)])
+    for (const row of rows) {
+        const cols = new Set([
+            ...Object.keys(baseCells?.[row] ?? {}),
+            ...Object.keys(ourCells[row] ?? {}),
+            ...Object.keys(theirCells[row] ?? {})
+        ])
+        for (const col of cols) {
+            const b = getCell(baseCells, row, col)
+            const o = getCell(ourCells, row, col)
+            const t = getCell(theirCells, row, col)
+            const nb = normalizeCell(b, styles.base)
+            const no = normalizeCell(o, styles.ours)
+            const nt = normalizeCell(t, styles.theirs)
+
+            if (same(no, nt) || same(nt, nb)) {
+                setCell(mergedCells, row, col, o)
+            } else if (same(no, nb)) {
+                setCell(mergedCells, row, col, t)
+                result.autoMerged++
+            } else {
+                const key = conflictKey(sheetId, Number(row), Number(col))
+                result.conflicts.push({
+                    key,
+                    sheetId,
+                    sheetName: String(ours.name ?? theirs.name ?? sheetId),
+                    row: Number(row),
+                    col: Number(col),
+                    base: clone(nb),
+                    ours: clone(no),
+                    theirs: clone(nt)
+                })
+                const side = resolutions[key] ?? 'ours'
+                setCell(mergedCells, row, col, side === 'theirs' ? t : side === 'base' ? b : o)
+            }
+        }
+    }
+
+    merged[SHEET_CELLS_KEY] = mergedCells
+    return merged
+}
+
+/**
+ * Merge `theirs` into `ours` using `base` (their common ancestor, or null
+ * when the branches share no history).
+ */
+export function mergeWorkbooks(
+    base: Snapshot | null | undefined,
+    ours: Snapshot,
+    theirs: Snapshot,
+    resolutions: Record<string, MergeSide> = {}
+): WorkbookMergeResult {
+    const result: WorkbookMergeResult = { merged: {}, conflicts: [], autoMerged: 0, notes: [] }
+    const baseSheets: Record<string, Snapshot> = base?.sheets ?? {}
+    const ourSheets: Record<string, Snapshot> = ours.sheets ?? {}
+    const theirSheets: Record<string, Snapshot> = theirs.sheets ?? {}
+    const styles = {
+        base: (base?.styles ?? {}) as Record<string, unknown>,
+        ours: (ours.styles ?? {}) as Record<string, unknown>,
+        theirs: (theirs.styles ?? {}) as Record<string, unknown>
+    }
+
+    // Workbook-level properties (name, locale, resources, ...)
+    const keys = new Set([...Object.keys(base ?? {}), ...Object.keys(ours), ...Object.keys(theirs)])
+    for (const key of keys) {
+        if (WORKBOOK_SPECIAL_KEYS.has(key)) continue
+        const value = pickValue(base?.[key], ours[key], theirs[key])
+        if (value !== undefined) result.merged[key] = clone(value)
+    }
+    // Style ids are random, so the union keeps every cell's style resolvable
+    result.merged.styles = { ...clone(styles.base), ...clone(styles.theirs), ...clone(styles.ours) }
+
+    const mergedSheets: Record<string, Snapshot> = {}
+    const sheetIds = new Set([...Object.keys(baseSheets), ...Object.keys(ourSheets), ...Object.keys(theirSheets)])
+    for (const sheetId of sheetIds) {
+        const b = baseSheets[sheetId]
+        const o = ourSheets[sheetId]
+        const t = theirSheets[sheetId]
+        const name = String((o ?? t ?? b)?.name ?? sheetId)
+
+        if (o && t) {
+            mergedSheets[sheetId] = mergeSheet(sheetId, b, o, t, styles, resolutions, result)
+        } else if (o || t) {
+            const present = (o ?? t)!
+            if (!b) {
+                // Added on one side only
+                mergedSheets[sheetId] = clone(present)
+            } else if (!same(present, b)) {
+                // Deleted on one side but edited on the other: keep the edits
+                mergedSheets[sheetId] = clone(present)
+                result.notes.push(`Sheet "${name}" was deleted on one branch and edited on the other; it was kept`)
+            }
+            // Otherwise deleted on one side and untouched on the other: stays deleted
+        }
+    }
+    result.merged.sheets = mergedSheets
+
+    // Keep our order, then sheets that only the other branch added
+    const order: string[] = []
+    for (const id of [...(ours.sheetOrder ?? []), ...(theirs.sheetOrder ?? []), ...Object.keys(mergedSheets)]) {
+        if (mergedSheets[id] && !order.includes(id)) order.push(id)
+    }
+    result.merged.sheetOrder = order
+
+    return result
+}
@@ -0,0 +1,2 @@
+export * from './workflow-definition'
+export * from './workflow-runner'
@@ -0,0 +1,326 @@
+/**
+ * Recorded workflows ("macros"): a sequence of spreadsheet tool calls taken
+ * from an agent turn, with the target file, sheet and column letters turned
+ * into parameters so it can be replayed on another workbook without the LLM.
+ *
+ * Pure module (no Electron / Supabase) so it can be unit tested.
+ */
+
+export const WORKFLOW_VERSION = 1
+
+export type WorkflowParameterKind = 'file' | 'sheet' | 'column'
+
+export interface WorkflowParameter {
+    name: string
+    kind: WorkflowParameterKind
+    label: string
+    /** Value used when the workflow was recorded */
+    defaultValue?: string
+}
+
+export interface WorkflowStep {
+    tool: string
+    /**
+     * Tool arguments. Strings may contain `{{parameter}}` placeholders and
+     * numeric column indexes are stored as `{ $column: parameter }`
+     */
+    args: Record<string, unknown>
+}
+
+export interface WorkflowDefinition {
+    version: number
+    parameters: WorkflowParameter[]
+    steps: WorkflowStep[]
+}
+
+export interface RecordedToolCall {
+    name: string
+    args: unknown
+    result?: unknown
+}
+
+/**
+ * Spreadsheet tools that transform an existing workbook. Read-only tools add
+ * nothing to a replay and tools that create new artifacts are left out.
+ */
+export const REPLAYABLE_TOOLS = new Set([
+    'update_cells',
+    'insert_formula',
+    'format_cells',
+    'add_row',
+    'merge_cells',
+    'set_column_width',
+    'set_row_height',
+    'delete_row',
+    'sort_range',
+    'conditional_format',
+    'insert_image',
+    'copy_range',
+    'move_range',
+    'find_replace',
+    'freeze_panes',
+    'auto_fill',
+    'clear_range',
+    'insert_column',
+    'delete_column',
+    'duplicate_row',
+    'insert_row',
+    'rename_sheet',
+    'add_sheet',
+    'data_validation',
+    'add_comment',
+    'protect_range',
+    'set_print_area',
+    'transpose_range',
+    'remove_duplicates',
+    'apply_number_format',
+    'create_named_range',
+    'create_pivot_table',
+    'refresh_pivot_table'
+])
+
+/** Arguments holding cell references, ranges or formulas */
+const REFERENCE_KEYS = new Set(['range', 'cell', 'sourceRange', 'destinationCell', 'fillRange', 'targetCell', 'formula'])
+/** Tools whose `columns` argument is a list of column letters (elsewhere it is headers or a count) */
+const COLUMN_LIST_TOOLS = new Set(['set_column_width', 'delete_column', 'remove_duplicates'])
+/** Arguments holding a sheet name */
+const SHEET_KEYS = new Set(['sourceSheet'])
+/** Ids that only exist in the recorded workbook; the tools fall back to their defaults */
+const WORKBOOK_SPECIFIC_KEYS = new Set(['sheetId', 'pivotId'])
+
+const COLUMN_LETTERS = /^[A-Z]{1,3}$/
+// A1 references (optionally absolute) not followed by "(" so functions like LOG10() are kept
+const CELL_REFERENCE = /(^|[^A-Za-z0-9_$])(\$?)([A-Z]{1,3})(\$?)(\d+)(?![A-Za-z0-9_(])/g
+// Whole-column ranges such as A:C
+const COLUMN_RANGE = /(^|[^A-Za-z0-9_$])(\$?)([A-Z]{1,3}):(\$?)([A-Z]{1,3})(?![A-Za-z0-9_(])/g
+const PLACEHOLDER = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g
+
+export function columnLetterToIndex(letters: string): number {
+    let index = 0
+    for (const char of letters.toUpperCase()) {
+        index = index * 26 + (char.charCodeAt(0) - 64)
+    }
+    return index - 1
+}
+
+export function columnIndexToLetter(index: number): string {
+    let letters = ''
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters
+    }
+    return letters
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function isFailedResult(result: unknown): boolean {
+    return isRecord(result) && (typeof result.error === 'string' || result.success === false)
+}
+
+/**
+ * Records which parameters the steps use while they are being generalised
+ */
+class ParameterCollector {
+    private files = new Map<string, string>()
+    private sheets = new Map<string, string>()
+    private columns = new Map<string, string>()
+
+    file(artifactId: string): string {
+        if (!this.files.has(artifactId)) {
+            const n = this.files.size + 1
+            this.files.set(artifactId, n === 1 ? 'file' : `file_${n}`)
+        }
+        return this.files.get(artifactId)!
+    }
+
+    sheet(name: string): string {
+        if (!this.sheets.has(name)) {
+            const n = this.sheets.size + 1
+            this.sheets.set(name, n === 1 ? 'sheet' : `sheet_${n}`)
+        }
+        return this.sheets.get(name)!
+    }
+
+    column(letters: string): string {
+        const key = letters.toUpperCase()
+        if (!this.columns.has(key)) {
+            this.columns.set(key, `column_${key}`)
+        }
+        return this.columns.get(key)!
+    }
+
+    toParameters(): WorkflowParameter[] {
+        const parameters: WorkflowParameter[] = []
+        this.files.forEach((name, value) => parameters.push({
+            name,
+            kind: 'file',
+            label: name === 'file' ? 'Target file' : `Target file ${name.slice(5)}`,
+            defaultValue: value
+        }))
+        this.sheets.forEach((name, value) => parameters.push({ name, kind: 'sheet', label: `Sheet "${value}"`, defaultValue: value }))
+        const columns = [...this.columns.entries()]
+            .sort(([a], [b]) => columnLetterToIndex(a) - columnLetterToIndex(b))
+        for (const [value, name] of columns) {
+            parameters.push({ name, kind: 'column', label: `Column ${value}`, defaultValue: value })
+        }
+        return parameters
+    }
+}
+
+function parameteriseReferences(text: string, params: ParameterCollector): string {
+    return text
+        .replace(COLUMN_RANGE, (_match, prefix: string, abs1: string, col1: string, abs2: string, col2: string) =>
+            `${prefix}${abs1}{{${params.column(col1)}}}:${abs2}{{${params.column(col2)}}}`)
+        .replace(CELL_REFERENCE, (_match, prefix: string, absCol: string, col: string, absRow: string, row: string) =>
+            `${prefix}${absCol}{{${params.column(col)}}}${absRow}${row}`)
+}
+
+function parameteriseValue(tool: string, key: string, value: unknown, params: ParameterCollector): unknown {
+    if (key === 'artifactId' && typeof value === 'string') {
+        return `{{${params.file(value)}}}`
+    }
+    if (SHEET_KEYS.has(key) && typeof value === 'string') {
+        return `{{${params.sheet(value)}}}`
+    }
+    if (key === 'column') {
+        // update_cells addresses columns by 0-based index
+        if (typeof value === 'number') {
+            return { $column: params.column(columnIndexToLetter(value)) }
+        }
+        if (typeof value === 'string' && COLUMN_LETTERS.test(value)) {
+            return `{{${params.column(value)}}}`
+        }
+    }
+    if (key === 'columns' && COLUMN_LIST_TOOLS.has(tool) && Array.isArray(value)) {
+        return value.map(item => typeof item === 'string' && COLUMN_LETTERS.test(item)
+            ? `{{${params.column(item)}}}`
+            : item)
+    }
+    if (typeof value === 'string' && (REFERENCE_KEYS.has(key) || value.startsWith('='))) {
+        return parameteriseReferences(value, params)
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => parameteriseValue(tool, '', item, params))
+    }
+    if (isRecord(value)) {
+        return parameteriseArgs(tool, value, params)
+    }
+    return value
+}
+
+function parameteriseArgs(tool: string, args: Record<string, unknown>, params: ParameterCollector): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(args)) {
+        if (WORKBOOK_SPECIFIC_KEYS.has(key)) continue
+        result[key] = parameteriseValue(tool, key, value, params)
+    }
+    return result
+}
+
+/**
+ * Turn the tool calls of an agent turn into a replayable workflow. Failed and
+ * non-replayable calls are skipped and reported.
+ */
+export function recordWorkflow(toolCalls: RecordedToolCall[]): {
+    definition: WorkflowDefinition
+    skipped: string[]
+} {
+    const params = new ParameterCollector()
+    const steps: WorkflowStep[] = []
+    const skipped: string[] = []
+
+    for (const call of toolCalls) {
+        const args = typeof call.args === 'string' ? safeParse(call.args) : call.args
+        if (!REPLAYABLE_TOOLS.has(call.name) || !isRecord(args) || isFailedResult(call.result)) {
+            skipped.push(call.name)
+            continue
+        }
+        steps.push({ tool: call.name, args: parameteriseArgs(call.name, args, params) })
+    }
+
+    if (steps.length === 0) {
+        throw new Error('No replayable spreadsheet steps to record')
+    }
+
+    return {
+        definition: { version: WORKFLOW_VERSION, parameters: params.toParameters(), steps },
+        skipped
+    }
+}
+
+function safeParse(text: string): unknown {
+    try {
+        return JSON.parse(text)
+    } catch {
+        return null
+    }
+}
+
+function resolveValue(value: unknown, values: Record<string, string>): unknown {
+    if (typeof value === 'string') {
+        return value.replace(PLACEHOLDER, (match, name: string) => values[name] ?? match)
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => resolveValue(item, values))
+    }
+    if (isRecord(value)) {
+        if (typeof value.$column === 'string' && Object.keys(value).length === 1) {
+            return columnLetterToIndex(values[value.$column])
+        }
+        const result: Record<string, unknown> = {}
+        for (const [key, item] of Object.entries(value)) {
+            result[key] = resolveValue(item, values)
+        }
+        return result
+    }
+    return value
+}
+
+/**
+ * Fill the parameters of a workflow. Values default to the recorded ones
+ * except for target files, which must always be chosen.
+ */
+export function resolveWorkflowSteps(
+    definition: WorkflowDefinition,
+    input: Record<string, string>
+): WorkflowStep[] {
+    const values: Record<string, string> = {}
+    for (const param of definition.parameters) {
+        const raw = input[param.name]?.trim() || (param.kind === 'file' ? '' : param.defaultValue ?? '')
+        if (!raw) {
+            throw new Error(`Missing value for ${param.label}`)
+        }
+        if (param.kind === 'column' && !COLUMN_LETTERS.test(raw.toUpperCase())) {
+            throw new Error(`${param.label}: "${raw}" is not a column letter`)
+        }
+        values[param.name] = param.kind === 'column' ? raw.toUpperCase() : raw
+    }
+
+    return definition.steps.map(step => ({
+        tool: step.tool,
+        args: resolveValue(step.args, values) as Record<string, unknown>
+    }))
+}
+
+/**
+ * Check that stored content is a workflow this version can replay
+ */
+export function validateWorkflowDefinition(value: unknown): WorkflowDefinition {
+    if (!isRecord(value) || !Array.isArray(value.steps) || !Array.isArray(value.parameters)) {
+        throw new Error('Not a workflow')
+    }
+    if (typeof value.version !== 'number' || value.version > WORKFLOW_VERSION) {
+        throw new Error(`Unsupported workflow version: ${String(value.version)}`)
+    }
+    for (const step of value.steps) {
+        if (!isRecord(step) || typeof step.tool !== 'string' || !isRecord(step.args)) {
+            throw new Error('Invalid workflow step')
+        }
+        if (!REPLAYABLE_TOOLS.has(step.tool)) {
+            throw new Error(`Tool "${step.tool}" cannot be replayed`)
+        }
+    }
+    return value as unknown as WorkflowDefinition
+}
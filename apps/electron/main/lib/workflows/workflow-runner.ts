@@ -0,0 +1,171 @@
+import log from 'electron-log'
+import { supabase } from '../supabase/client'
+import { sendToRenderer } from '../window-manager'
+import { executeTool } from '../trpc/routers/tools'
+import { resolveWorkflowSteps } from './workflow-definition'
+import type { WorkflowDefinition } from './workflow-definition'
+
+export interface WorkflowFileResult {
+    parameter: string
+    artifactId: string
+    name: string
+    /** Univer snapshots before and after the replay (for diffWorkbooks) */
+    before: unknown
+    after: unknown
+}
+
+export interface WorkflowRunResult {
+    dryRun: boolean
+    steps: Array<{ tool: string; message?: string }>
+    files: WorkflowFileResult[]
+}
+
+interface TargetArtifact {
+    id: string
+    name: string
+    chat_id: string | null
+    univer_data: unknown
+}
+
+async function loadTargetArtifact(artifactId: string, userId: string): Promise<TargetArtifact> {
+    const { data: artifact, error } = await supabase
+        .from('artifacts')
+        .select('id, name, type, chat_id, user_id, univer_data, chats(user_id)')
+        .eq('id', artifactId)
+        .single()
+
+    if (error || !artifact) {
+        throw new Error('Target file not found')
+    }
+
+    const chatData = Array.isArray(artifact.chats) ? artifact.chats[0] : artifact.chats
+    if (artifact.user_id !== userId && chatData?.user_id !== userId) {
+        throw new Error('Access denied')
+    }
+    if (artifact.type !== 'spreadsheet' || !artifact.univer_data) {
+        throw new Error(`"${artifact.name}" is not a spreadsheet`)
+    }
+
+    return artifact as TargetArtifact
+}
+
+async function readUniverData(artifactId: string): Promise<unknown> {
+    const { data, error } = await supabase
+        .from('artifacts')
+        .select('univer_data')
+        .eq('id', artifactId)
+        .single()
+
+    if (error || !data) {
+        throw new Error(`Failed to read workflow result: ${error?.message ?? 'not found'}`)
+    }
+    return data.univer_data
+}
+
+/**
+ * Create a standalone copy of a workbook to replay a dry run on
+ */
+async function createScratchCopy(target: TargetArtifact, userId: string): Promise<string> {
+    const { data, error } = await supabase
+        .from('artifacts')
+        .insert({
+            chat_id: null,
+            user_id: userId,
+            type: 'spreadsheet',
+            name: `${target.name} (workflow preview)`,
+            content: {},
+            univer_data: target.univer_data
+        })
+        .select('id')
+        .single()
+
+    if (error || !data) {
+        throw new Error(`Failed to prepare preview: ${error?.message ?? 'unknown error'}`)
+    }
+    return data.id as string
+}
+
+async function restoreUniverData(artifactId: string, univerData: unknown): Promise<void> {
+    const { error } = await supabase
+        .from('artifacts')
+        .update({ univer_data: univerData, updated_at: new Date().toISOString() })
+        .eq('id', artifactId)
+
+    if (error) {
+        log.error(`[Workflows] Failed to roll back ${artifactId}:`, error)
+        return
+    }
+    sendToRenderer('artifact:update', { artifactId, univerData, type: 'spreadsheet' })
+}
+
+/**
+ * Replay a workflow with the given parameter values.
+ *
+ * A dry run replays on throwaway copies of the target files and returns the
+ * before/after snapshots for previewing. A real run applies the steps to the
+ * target files and rolls them back if a step fails, so a workflow is applied
+ * entirely or not at all.
+ */
+export async function runWorkflow(
+    userId: string,
+    definition: WorkflowDefinition,
+    values: Record<string, string>,
+    options: { dryRun?: boolean } = {}
+): Promise<WorkflowRunResult> {
+    const dryRun = options.dryRun ?? false
+    // Validate all parameters before touching any file
+    resolveWorkflowSteps(definition, values)
+
+    const fileParams = definition.parameters.filter(param => param.kind === 'file')
+    const targets = await Promise.all(fileParams.map(param => loadTargetArtifact(values[param.name], userId)))
+
+    const runValues = { ...values }
+    const workingIds: string[] = []
+    try {
+        for (let i = 0; i < targets.length; i++) {
+            const workingId = dryRun ? await createScratchCopy(targets[i], userId) : targets[i].id
+            workingIds.push(workingId)
+            runValues[fileParams[i].name] = workingId
+        }
+
+        const steps: WorkflowRunResult['steps'] = []
+        const resolved = resolveWorkflowSteps(definition, runValues)
+        for (const [index, step] of resolved.entries()) {
+            // Tools that create artifacts are not replayable, so the chat id is only informative
+            const chatId = targets[0]?.chat_id ?? ''
+            try {
+                const result = await executeTool(step.tool, step.args, chatId, userId) as { message?: string } | undefined
+                steps.push({ tool: step.tool, message: result?.message })
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error)
+                throw new Error(`Step ${index + 1} (${step.tool}) failed: ${message}`)
+            }
+        }
+
+        const files: WorkflowFileResult[] = []
+        for (let i = 0; i < targets.length; i++) {
+            files.push({
+                parameter: fileParams[i].name,
+                artifactId: targets[i].id,
+                name: targets[i].name,
+                before: targets[i].univer_data,
+                after: await readUniverData(workingIds[i])
+            })
+        }
+
+        log.info(`[Workflows] ${dryRun ? 'Previewed' : 'Applied'} ${steps.length} step(s) on ${targets.length} file(s)`)
+        return { dryRun, steps, files }
+    } catch (error) {
+        if (!dryRun) {
+            await Promise.all(targets.map(target => restoreUniverData(target.id, target.univer_data)))
+        }
+        throw error
+    } finally {
+        if (dryRun && workingIds.length > 0) {
+            const { error } = await supabase.from('artifacts').delete().in('id', workingIds)
+            if (error) {
+                log.warn('[Workflows] Failed to delete preview copies:', error)
+            }
+        }
+    }
+}
@@ -109,6 +109,22 @@ export interface DesktopApi {
       type: "spreadsheet" | "document";
     }) => void,
   ) => () => void;
+  onArtifactExport: (
+    callback: (data: {
+      artifactId: string;
+      format: "pdf" | "docx" | "markdown" | "html";
+    }) => void,
+  ) => () => void;
+  onArtifactProofread: (
+    callback: (data: { artifactId: string }) => void,
+  ) => () => void;
+  onToolApproval: (callback: (event: unknown) => void) => () => void;
+  onMessageQueueChanged: (
+    callback: (data: { kind: "chat" | "pdf"; targetId: string }) => void,
+  ) => () => void;
+  onBatchJobsChanged: (
+    callback: (data: { jobId: string; status: string }) => void,
+  ) => () => void;
   // UI Navigation (agent-controlled)
   onNavigateTab: (
     callback: (data: { tab: "chat" | "excel" | "doc" | "gallery" }) => void,
@@ -420,6 +420,20 @@ const desktopApi = {
       }>,
   },
 
+  document: {
+    saveLocal: (data: {
+      base64: string;
+      suggestedName?: string;
+      format: "docx" | "pdf" | "markdown" | "html";
+    }) =>
+      ipcRenderer.invoke("document:save-local", data) as Promise<{
+        success: boolean;
+        path?: string;
+        error?: string;
+        canceled?: boolean;
+      }>,
+  },
+
   // PDF local file picker (view only, no import)
   pdf: {
     pickLocal: () =>
@@ -604,6 +618,60 @@ const desktopApi = {
     };
   },
 
+  // Document export requested by the docs agent (export_document tool)
+  onArtifactExport: (
+    callback: (data: {
+      artifactId: string;
+      format: "pdf" | "docx" | "markdown" | "html";
+    }) => void,
+  ) => {
+    const handler = (_: any, data: any) => callback(data);
+    ipcRenderer.on("artifact:export", handler);
+    return () => {
+      ipcRenderer.removeListener("artifact:export", handler);
+    };
+  },
+
+  // Proofreading requested by the docs agent (check_grammar without text)
+  onArtifactProofread: (callback: (data: { artifactId: string }) => void) => {
+    const handler = (_: any, data: any) => callback(data);
+    ipcRenderer.on("artifact:proofread", handler);
+    return () => {
+      ipcRenderer.removeListener("artifact:proofread", handler);
+    };
+  },
+
+  // Tool approval requests from agents, and requests closed by main
+  onToolApproval: (callback: (event: any) => void) => {
+    const handler = (_: any, event: any) => callback(event);
+    ipcRenderer.on("tool:approval", handler);
+    return () => {
+      ipcRenderer.removeListener("tool:approval", handler);
+    };
+  },
+
+  // Persistent message queue changed in main (items added, sent or failed)
+  onMessageQueueChanged: (
+    callback: (data: { kind: "chat" | "pdf"; targetId: string }) => void,
+  ) => {
+    const handler = (_: any, data: any) => callback(data);
+    ipcRenderer.on("message-queue:changed", handler);
+    return () => {
+      ipcRenderer.removeListener("message-queue:changed", handler);
+    };
+  },
+
+  // Row batch job changed status (submitted, progress, finished)
+  onBatchJobsChanged: (
+    callback: (data: { jobId: string; status: string }) => void,
+  ) => {
+    const handler = (_: any, data: any) => callback(data);
+    ipcRenderer.on("batch-jobs:changed", handler);
+    return () => {
+      ipcRenderer.removeListener("batch-jobs:changed", handler);
+    };
+  },
+
   // File save with AI metadata listener (for version tracking after agent tool operations)
   onFileSaveWithAIMetadata: (
     callback: (data: {
@@ -2,13 +2,15 @@ import { useEffect } from "react";
 import { Provider as JotaiProvider, useSetAtom } from "jotai";
 import { ThemeProvider, useTheme } from "next-themes";
 import { Toaster } from "sonner";
-import { TRPCProvider, trpc } from "./lib/trpc";
+import { TRPCProvider, trpc, trpcClient } from "./lib/trpc";
+import { startNotesSync } from "./lib/notes-sync";
 import { TooltipProvider } from "./components/ui/tooltip";
 import { MainLayout } from "./features/layout/main-layout";
 import { SettingsDialog } from "./features/settings/settings-dialog";
 import { AuthDialog, AuthGuard, OAuthCallbackHandler } from "./features/auth";
 import { OnboardingGuard } from "./features/onboarding";
 import { AboutDialog } from "./features/help/about-dialog";
+import { ToolApprovalDialog } from "./features/chat/components/tool-approval-dialog";
 import { VSCodeThemeProvider } from "./lib/themes";
 import { appStore } from "./lib/stores/jotai-store";
 import "@/features/univer/univer-tooltip-fix.css";
@@ -23,7 +25,10 @@ import {
   sidebarOpenAtom,
   activeTabAtom,
   pendingQuickPromptMessageAtom,
+  notesPageUpdatedAtom,
+  customModelsAtom,
 } from "./lib/atoms";
+import { setCustomModels } from "@s-agi/core/types/ai";
 import { toast } from "sonner";
 
 /**
@@ -49,10 +54,12 @@ function ConnectionStatusSync() {
   const setChatGPTPlusStatus = useSetAtom(chatGPTPlusStatusAtom);
   const setHasGeminiAdvanced = useSetAtom(hasGeminiAdvancedAtom);
   const setGeminiAdvancedStatus = useSetAtom(geminiAdvancedStatusAtom);
+  const setCustomModelsAtom = useSetAtom(customModelsAtom);
 
   // Query connection statuses
   const { data: chatGPTStatus } = trpc.auth.getChatGPTStatus.useQuery();
   const { data: geminiStatus } = trpc.auth.getGeminiStatus.useQuery();
+  const { data: customProvider } = trpc.settings.getCustomProvider.useQuery();
 
   // Sync ChatGPT Plus status
   useEffect(() => {
@@ -79,6 +86,14 @@ function ConnectionStatusSync() {
     }
   }, [geminiStatus, setHasGeminiAdvanced, setGeminiAdvancedStatus]);
 
+  // Sync custom endpoint models (also registered in the shared model catalog)
+  useEffect(() => {
+    if (customProvider === undefined) return;
+    const models = customProvider?.modelDefinitions ?? [];
+    setCustomModels(models);
+    setCustomModelsAtom(models);
+  }, [customProvider, setCustomModelsAtom]);
+
   return null;
 }
 
@@ -131,6 +146,25 @@ function ArtifactCreatedHandler() {
   return null;
 }
 
+/**
+ * Notes Sync Handler - Syncs local notes with Supabase while signed in
+ * Refreshes the notes sidebar when remote changes are applied
+ */
+function NotesSyncHandler() {
+  const notifyPageUpdate = useSetAtom(notesPageUpdatedAtom);
+  const { data: user } = trpc.auth.getUser.useQuery();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+    return startNotesSync(trpcClient, userId, () => {
+      notifyPageUpdate((n) => n + 1);
+    });
+  }, [userId, notifyPageUpdate]);
+
+  return null;
+}
+
 /**
  * Quick Prompt Handler - Creates a new chat from the floating Quick Prompt window
  * Sets pendingQuickPromptMessageAtom so ChatView can auto-send the message with AI response
@@ -234,6 +268,7 @@ export function App() {
                 style={{ minWidth: "835px" }}
               >
                 <AuthGuard>
+                  <NotesSyncHandler />
                   <OnboardingGuard>
                     <MainLayout />
                   </OnboardingGuard>
@@ -242,6 +277,7 @@ export function App() {
               <AuthDialog />
               <SettingsDialog />
               <AboutDialog />
+              <ToolApprovalDialog />
               <ThemedToaster />
             </TooltipProvider>
           </TRPCProvider>
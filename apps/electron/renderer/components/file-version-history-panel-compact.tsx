@@ -5,6 +5,7 @@
  * - Cards compactas como FileItem
  * - Preview funcional cargando versión en Univer
  * - Restauración clara y directa
+ * - Ramas: crear desde cualquier versión, cambiar y fusionar
  * - Estilo adaptado al UI existente
  */
 
@@ -21,8 +22,15 @@ import {
   IconArchive,
   IconEyeOff,
   IconGitCompare,
+  IconGitBranch,
+  IconGitMerge,
 } from "@tabler/icons-react";
-import { VersionDiffViewer } from "./version-diff-viewer";
+import {
+  MergeConflictsViewer,
+  VersionDiffViewer,
+  type MergeConflict,
+  type MergeSide,
+} from "./version-diff-viewer";
 import { cn } from "@/lib/utils";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
@@ -44,6 +52,29 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
 import { useSetAtom } from "jotai";
 import {
   currentExcelFileIdAtom,
@@ -71,17 +102,43 @@ export function FileVersionHistoryPanel({
     old: { versionNumber: number; data: any; createdAt: string } | null;
     new: { versionNumber: number; data: any; createdAt: string } | null;
   }>({ old: null, new: null });
+  const [branchFromVersion, setBranchFromVersion] = React.useState<
+    number | null
+  >(null);
+  const [newBranchName, setNewBranchName] = React.useState("");
+  const [mergePreview, setMergePreview] = React.useState<{
+    source: string;
+    target: string;
+    conflicts: MergeConflict[];
+    autoMerged: number;
+    notes: string[];
+  } | null>(null);
 
   const {
     versions,
     isLoadingVersions,
     previewVersion,
     isRestoring,
+    isSwitchingBranch,
+    isMerging,
+    branches,
+    currentBranch,
     selectVersionForPreview,
     restoreVersion,
+    createBranch,
+    switchBranch,
+    previewMerge,
+    mergeBranch,
     getChangeTypeLabel,
     formatSize,
-  } = useFileVersions(fileId, { includeObsolete: showObsolete });
+  } = useFileVersions(fileId, {
+    includeObsolete: showObsolete,
+    currentBranchOnly: true,
+  });
+
+  const otherBranches = branches.filter(
+    (branch) => branch.name !== currentBranch && branch.versionCount > 0,
+  );
 
   const setCurrentExcelFileId = useSetAtom(currentExcelFileIdAtom);
   const setCurrentDocFileId = useSetAtom(currentDocFileIdAtom);
@@ -179,6 +236,61 @@ export function FileVersionHistoryPanel({
     }
   };
 
+  const handleCreateBranch = async () => {
+    if (branchFromVersion === null || !newBranchName.trim()) return;
+    try {
+      await createBranch(newBranchName.trim(), branchFromVersion);
+      toast.success(`Rama "${newBranchName.trim()}" creada`);
+      setBranchFromVersion(null);
+      setNewBranchName("");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Error al crear la rama",
+      );
+    }
+  };
+
+  const handleSwitchBranch = async (name: string) => {
+    if (name === currentBranch) return;
+    try {
+      await switchBranch(name);
+      toast.success(`Cambiado a la rama "${name}"`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Error al cambiar de rama",
+      );
+    }
+  };
+
+  const handlePreviewMerge = async (source: string) => {
+    try {
+      const preview = await previewMerge(source);
+      if (!preview) return;
+      if (preview.upToDate) {
+        toast.info(`"${source}" ya está fusionada en "${preview.target}"`);
+        return;
+      }
+      setMergePreview(preview);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Error al preparar la fusión",
+      );
+    }
+  };
+
+  const handleMerge = async (resolutions: Record<string, MergeSide>) => {
+    if (!mergePreview) return;
+    try {
+      await mergeBranch(mergePreview.source, resolutions);
+      toast.success(
+        `"${mergePreview.source}" fusionada en "${mergePreview.target}"`,
+      );
+      setMergePreview(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Error al fusionar");
+    }
+  };
+
   const handleBackToCurrent = () => {
     selectVersionForPreview(null);
     if (onPreviewVersion) {
@@ -269,6 +381,64 @@ export function FileVersionHistoryPanel({
               </Button>
             </div>
           </div>
+          {/* Branch selector */}
+          <div className="mt-2 flex items-center gap-1.5">
+            <IconGitBranch size={14} className="text-muted-foreground shrink-0" />
+            <Select
+              value={currentBranch ?? undefined}
+              onValueChange={handleSwitchBranch}
+              disabled={isSwitchingBranch || !currentBranch}
+            >
+              <SelectTrigger className="h-7 text-xs flex-1">
+                <SelectValue placeholder="main" />
+              </SelectTrigger>
+              <SelectContent>
+                {branches.map((branch) => (
+                  <SelectItem
+                    key={branch.name}
+                    value={branch.name}
+                    className="text-xs"
+                  >
+                    {branch.name}
+                    {branch.headVersion > 0 && (
+                      <span className="ml-1.5 text-muted-foreground">
+                        v{branch.headVersion}
+                      </span>
+                    )}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {fileType === "excel" && otherBranches.length > 0 && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    disabled={isMerging}
+                  >
+                    <IconGitMerge size={14} className="mr-1" />
+                    Fusionar
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel className="text-xs">
+                    Fusionar en {currentBranch}
+                  </DropdownMenuLabel>
+                  {otherBranches.map((branch) => (
+                    <DropdownMenuItem
+                      key={branch.name}
+                      className="text-xs"
+                      onSelect={() => handlePreviewMerge(branch.name)}
+                    >
+                      {branch.name}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
           {previewVersion && (
             <div className="mt-2 flex items-center gap-2">
               <Badge variant="outline" className="text-xs">
@@ -366,6 +536,10 @@ export function FileVersionHistoryPanel({
                             onRestore={() =>
                               handleRestore(version.version_number)
                             }
+                            onCreateBranch={() => {
+                              setNewBranchName("");
+                              setBranchFromVersion(version.version_number);
+                            }}
                             onShowDiff={
                               prevVersion
                                 ? () => handleShowDiff(version, prevVersion)
@@ -403,6 +577,56 @@ export function FileVersionHistoryPanel({
         oldVersion={diffVersions.old}
         newVersion={diffVersions.new}
       />
+
+      {/* Merge conflicts (per-cell resolution) */}
+      <MergeConflictsViewer
+        open={!!mergePreview}
+        onOpenChange={(isOpen) => !isOpen && setMergePreview(null)}
+        source={mergePreview?.source ?? ""}
+        target={mergePreview?.target ?? ""}
+        conflicts={mergePreview?.conflicts ?? []}
+        autoMerged={mergePreview?.autoMerged ?? 0}
+        notes={mergePreview?.notes ?? []}
+        isMerging={isMerging}
+        onMerge={handleMerge}
+      />
+
+      {/* New branch name */}
+      <Dialog
+        open={branchFromVersion !== null}
+        onOpenChange={(isOpen) => !isOpen && setBranchFromVersion(null)}
+      >
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Crear rama</DialogTitle>
+            <DialogDescription>
+              La nueva rama parte de la versión {branchFromVersion} y pasa a
+              ser la rama actual. Las demás ramas no se modifican.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={newBranchName}
+            onChange={(e) => setNewBranchName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleCreateBranch()}
+            placeholder="reestructura-alternativa"
+            autoFocus
+          />
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setBranchFromVersion(null)}
+            >
+              Cancelar
+            </Button>
+            <Button
+              onClick={handleCreateBranch}
+              disabled={!newBranchName.trim() || isSwitchingBranch}
+            >
+              Crear rama
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Sheet>
   );
 }
@@ -418,6 +642,7 @@ interface CompactVersionCardProps {
   userName: string;
   onPreview: () => void;
   onRestore: () => void;
+  onCreateBranch: () => void;
   onShowDiff?: () => void;
   getChangeTypeLabel: (type: string) => string;
   formatSize: (bytes?: number) => string;
@@ -433,6 +658,7 @@ function CompactVersionCard({
   userName,
   onPreview,
   onRestore,
+  onCreateBranch,
   onShowDiff,
   getChangeTypeLabel,
   formatSize,
@@ -535,6 +761,9 @@ function CompactVersionCard({
                 "bg-purple-500/10 text-purple-600 dark:text-purple-400 border-purple-500/20",
               version.change_type === "restore" &&
                 "bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20",
+              (version.change_type === "branch" ||
+                version.change_type === "merge") &&
+                "bg-teal-500/10 text-teal-600 dark:text-teal-400 border-teal-500/20",
             )}
           >
             {getChangeTypeLabel(version.change_type)}
@@ -666,6 +895,21 @@ function CompactVersionCard({
           </TooltipTrigger>
           <TooltipContent side="bottom">Restaurar esta versión</TooltipContent>
         </Tooltip>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={onCreateBranch}
+            >
+              <IconGitBranch size={14} />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            Crear rama desde esta versión
+          </TooltipContent>
+        </Tooltip>
       </div>
     </div>
   );
@@ -140,6 +140,38 @@ export function ClaudeIcon({
   );
 }
 
+/**
+ * Custom endpoint icon (self-hosted OpenAI-compatible server)
+ */
+export function CustomEndpointIcon({
+  className,
+  size = 16,
+}: {
+  className?: string;
+  size?: number;
+}) {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      width={size}
+      height={size}
+      className={className}
+      role="img"
+      aria-labelledby="custom-endpoint-title"
+    >
+      <title id="custom-endpoint-title">Custom endpoint</title>
+      <rect x="3" y="4" width="18" height="7" rx="2" />
+      <rect x="3" y="13" width="18" height="7" rx="2" />
+      <path d="M7 7.5h.01M7 16.5h.01" />
+    </svg>
+  );
+}
+
 /**
  * Generic AI model icon that renders based on provider
  */
@@ -153,6 +185,8 @@ export function ModelIcon({ provider, className, size = 16 }: ModelIconProps) {
       return <ZaiIcon className={className} size={size} />;
     case "claude":
       return <ClaudeIcon className={className} size={size} />;
+    case "custom":
+      return <CustomEndpointIcon className={className} size={size} />;
     default:
       return <OpenAIIcon className={className} size={size} />;
   }
@@ -2,7 +2,8 @@
  * Version Diff Viewer Component
  *
  * Shows detailed visual diff between two spreadsheet versions
- * with cell-level highlighting, style changes preview, and side-by-side comparison
+ * with cell-level highlighting, style changes preview, and side-by-side comparison.
+ * Also hosts the merge conflict viewer used when merging branches.
  */
 
 import * as React from "react";
@@ -15,9 +16,11 @@ import {
 } from "@/utils/univer-diff";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import {
   Dialog,
   DialogContent,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
@@ -46,6 +49,9 @@ import {
   IconAlignJustified,
   IconBorderAll,
   IconTypography,
+  IconGitMerge,
+  IconAlertTriangle,
+  IconLoader2,
 } from "@tabler/icons-react";
 
 interface VersionDiffViewerProps {
@@ -256,6 +262,17 @@ function DiffSummary({ diff }: { diff: WorkbookDiff }) {
   );
 }
 
+// Convert column number to Excel-style letter (0 = A, 1 = B, etc.)
+function colToLetter(col: number): string {
+  let result = "";
+  let n = col;
+  while (n >= 0) {
+    result = String.fromCharCode((n % 26) + 65) + result;
+    n = Math.floor(n / 26) - 1;
+  }
+  return result;
+}
+
 // Table showing cell-level changes
 function CellChangesTable({ changes }: { changes: CellChange[] }) {
   if (changes.length === 0) {
@@ -272,17 +289,6 @@ function CellChangesTable({ changes }: { changes: CellChange[] }) {
     return a.col - b.col;
   });
 
-  // Convert column number to Excel-style letter (0 = A, 1 = B, etc.)
-  const colToLetter = (col: number): string => {
-    let result = "";
-    let n = col;
-    while (n >= 0) {
-      result = String.fromCharCode((n % 26) + 65) + result;
-      n = Math.floor(n / 26) - 1;
-    }
-    return result;
-  };
-
   return (
     <TooltipProvider delayDuration={200}>
       <div className="border rounded-lg overflow-hidden">
@@ -783,3 +789,239 @@ function StyleChangesDetail({
     </div>
   );
 }
+
+// ==================== MERGE CONFLICTS ====================
+
+export type MergeSide = "ours" | "theirs" | "base";
+
+// Same cell changed differently on both branches (cells come with their style resolved)
+export interface MergeConflict {
+  key: string;
+  sheetId: string;
+  sheetName: string;
+  row: number;
+  col: number;
+  base: unknown;
+  ours: unknown;
+  theirs: unknown;
+}
+
+interface MergeConflictsViewerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  source: string; // Branch being merged in ("theirs")
+  target: string; // Current branch ("ours")
+  conflicts: MergeConflict[];
+  autoMerged: number;
+  notes: string[];
+  isMerging?: boolean;
+  onMerge: (resolutions: Record<string, MergeSide>) => void;
+}
+
+export function MergeConflictsViewer({
+  open,
+  onOpenChange,
+  source,
+  target,
+  conflicts,
+  autoMerged,
+  notes,
+  isMerging = false,
+  onMerge,
+}: MergeConflictsViewerProps) {
+  const [resolutions, setResolutions] = React.useState<
+    Record<string, MergeSide>
+  >({});
+
+  // Every conflict starts on the current branch
+  React.useEffect(() => {
+    if (open) setResolutions({});
+  }, [open, conflicts]);
+
+  const sideOf = (key: string): MergeSide => resolutions[key] ?? "ours";
+
+  const resolveAll = (side: MergeSide) => {
+    setResolutions(
+      Object.fromEntries(conflicts.map((conflict) => [conflict.key, side])),
+    );
+  };
+
+  const takenFromSource = conflicts.filter(
+    (conflict) => sideOf(conflict.key) === "theirs",
+  ).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl h-[85vh] flex flex-col p-0 gap-0 overflow-hidden">
+        <DialogHeader className="px-6 py-4 border-b flex-shrink-0">
+          <DialogTitle className="text-lg flex items-center gap-2">
+            <IconGitMerge size={18} />
+            Fusionar rama
+            <Badge variant="outline" className="ml-2">
+              {source} → {target}
+            </Badge>
+          </DialogTitle>
+          <div className="flex flex-wrap items-center gap-3 mt-2 text-sm">
+            <span className="flex items-center gap-1 text-green-600 dark:text-green-400">
+              <IconRefresh size={14} />
+              <span>{autoMerged} celdas fusionadas automáticamente</span>
+            </span>
+            <span
+              className={cn(
+                "flex items-center gap-1",
+                conflicts.length > 0
+                  ? "text-amber-600 dark:text-amber-400"
+                  : "text-muted-foreground",
+              )}
+            >
+              <IconAlertTriangle size={14} />
+              <span>{conflicts.length} conflictos</span>
+            </span>
+          </div>
+          {notes.map((note) => (
+            <p key={note} className="text-xs text-muted-foreground mt-1">
+              {note}
+            </p>
+          ))}
+        </DialogHeader>
+
+        {conflicts.length > 0 && (
+          <div className="px-4 py-2 border-b flex-shrink-0 bg-muted/30 flex items-center gap-2">
+            <span className="text-xs text-muted-foreground mr-auto">
+              Elige qué valor conservar en cada celda
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => resolveAll("ours")}
+            >
+              Todo de {target}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => resolveAll("theirs")}
+            >
+              Todo de {source}
+            </Button>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-auto p-4">
+          {conflicts.length === 0 ? (
+            <div className="text-center py-12 text-sm text-muted-foreground">
+              No hay conflictos: los cambios de ambas ramas se pueden combinar
+            </div>
+          ) : (
+            <TooltipProvider delayDuration={200}>
+              <div className="border rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-muted-foreground w-28">
+                        Celda
+                      </th>
+                      <th className="px-3 py-2 text-left font-medium text-muted-foreground">
+                        Original
+                      </th>
+                      <th className="px-3 py-2 text-left font-medium text-muted-foreground">
+                        {target}
+                      </th>
+                      <th className="px-3 py-2 text-left font-medium text-muted-foreground">
+                        {source}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {conflicts.map((conflict) => (
+                      <tr key={conflict.key}>
+                        <td className="px-3 py-2.5 font-mono text-xs font-medium">
+                          <span className="text-muted-foreground">
+                            {conflict.sheetName}!
+                          </span>
+                          {colToLetter(conflict.col)}
+                          {conflict.row + 1}
+                        </td>
+                        {(["base", "ours", "theirs"] as const).map((side) => (
+                          <td key={side} className="px-3 py-2.5">
+                            <ConflictOption
+                              cell={conflict[side]}
+                              selected={sideOf(conflict.key) === side}
+                              onSelect={() =>
+                                setResolutions((prev) => ({
+                                  ...prev,
+                                  [conflict.key]: side,
+                                }))
+                              }
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </TooltipProvider>
+          )}
+        </div>
+
+        <DialogFooter className="px-6 py-3 border-t flex-shrink-0">
+          {conflicts.length > 0 && (
+            <span className="text-xs text-muted-foreground mr-auto self-center">
+              {takenFromSource} de {conflicts.length} celdas desde {source}
+            </span>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={() => onMerge(resolutions)} disabled={isMerging}>
+            {isMerging ? (
+              <IconLoader2 size={16} className="mr-2 animate-spin" />
+            ) : (
+              <IconGitMerge size={16} className="mr-2" />
+            )}
+            Fusionar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// One side of a conflict; click to keep it
+function ConflictOption({
+  cell,
+  selected,
+  onSelect,
+}: {
+  cell: unknown;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  const data = (cell ?? {}) as { v?: unknown; f?: string; s?: unknown };
+  const style =
+    data.s && typeof data.s === "object" ? (data.s as CellStyle) : undefined;
+
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      className={cn(
+        "w-full text-left rounded-md p-1.5 border transition-colors",
+        selected
+          ? "border-primary bg-primary/5 ring-1 ring-primary"
+          : "border-transparent hover:bg-muted/50",
+      )}
+    >
+      <CellPreview
+        value={data.v}
+        formula={data.f}
+        style={style}
+        type="new"
+        changeType="modified"
+      />
+    </button>
+  );
+}
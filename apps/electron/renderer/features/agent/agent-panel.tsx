@@ -88,8 +88,9 @@ import {
   currentExcelFileAtom,
   currentDocFileIdAtom,
   currentDocFileAtom,
+  customModelsAtom,
 } from "@/lib/atoms";
-import { AI_MODELS, getModelsByProvider } from "@s-agi/core/types/ai";
+import { getModelById, getModelsByProvider } from "@s-agi/core/types/ai";
 import type { AIProvider } from "@s-agi/core/types/ai";
 import { trpc } from "@/lib/trpc";
 import {
@@ -566,7 +567,9 @@ const ModelSelector = memo(function ModelSelector({
   onModelChange: (modelId: string) => void;
 }) {
   const { data: keyStatus } = trpc.settings.getApiKeyStatus.useQuery();
-  const currentModel = AI_MODELS[modelId];
+  const customModels = useAtomValue(customModelsAtom);
+  const currentModel =
+    getModelById(modelId) ?? customModels.find((m) => m.id === modelId);
 
   // Group models by provider
   const modelGroups = useMemo(
@@ -575,12 +578,14 @@ const ModelSelector = memo(function ModelSelector({
       "chatgpt-plus": getModelsByProvider("chatgpt-plus"),
       zai: getModelsByProvider("zai"),
       claude: getModelsByProvider("claude"),
+      custom: customModels,
     }),
-    [],
+    [customModels],
   );
 
   const handleModelChange = (newModelId: string) => {
-    const model = AI_MODELS[newModelId];
+    const model =
+      getModelById(newModelId) ?? customModels.find((m) => m.id === newModelId);
     if (model) {
       onProviderChange(model.provider);
       onModelChange(newModelId);
@@ -683,11 +688,32 @@ const ModelSelector = memo(function ModelSelector({
           </>
         )}
 
+        {/* Custom endpoint models */}
+        {keyStatus?.hasCustomProvider && modelGroups.custom.length > 0 && (
+          <>
+            <div className="h-px bg-border/40 my-1 mx-2" />
+            <div className="text-[9px] font-bold uppercase text-muted-foreground/50 px-2.5 py-1.5 flex items-center gap-1.5">
+              <ModelIcon provider="custom" size={10} />
+              Custom Endpoint
+            </div>
+            {modelGroups.custom.map((model) => (
+              <SelectItem
+                key={model.id}
+                value={model.id}
+                className="rounded-lg text-xs"
+              >
+                {model.name}
+              </SelectItem>
+            ))}
+          </>
+        )}
+
         {/* No providers configured */}
         {!keyStatus?.hasOpenAI &&
           !keyStatus?.hasZai &&
           !keyStatus?.hasChatGPTPlus &&
-          !keyStatus?.hasClaudeCode && (
+          !keyStatus?.hasClaudeCode &&
+          !keyStatus?.hasCustomProvider && (
             <div className="text-xs text-muted-foreground px-3 py-3 text-center">
               No API keys configured
             </div>
@@ -911,6 +937,8 @@ export function AgentPanel() {
       toolName?: string;
       toolCallId?: string;
       result?: unknown;
+      usage?: { promptTokens: number; completionTokens: number };
+      modelId?: string;
     }) => {
       if (!event || event.sessionId !== sessionId) {
         return;
@@ -1087,9 +1115,24 @@ export function AgentPanel() {
                       tabType: activeTab,
                       role: "assistant",
                       content: finalContent,
-                      metadata: lastMessage.toolCalls
-                        ? { toolCalls: lastMessage.toolCalls }
-                        : undefined,
+                      // Usage and model let spending budgets count the panel
+                      modelId: event.modelId,
+                      metadata:
+                        lastMessage.toolCalls || event.usage
+                          ? {
+                              ...(lastMessage.toolCalls
+                                ? { toolCalls: lastMessage.toolCalls }
+                                : {}),
+                              ...(event.usage
+                                ? {
+                                    usage: {
+                                      inputTokens: event.usage.promptTokens,
+                                      outputTokens: event.usage.completionTokens,
+                                    },
+                                  }
+                                : {}),
+                            }
+                          : undefined,
                     })
                     .then(() => {
                       // Don't invalidate immediately - the message is already in local state
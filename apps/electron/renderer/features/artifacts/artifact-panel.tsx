@@ -1,6 +1,6 @@
 import { useRef, lazy, Suspense, useMemo, useCallback, useState, type ChangeEvent } from 'react'
 import { useAtom, useSetAtom } from 'jotai'
-import { IconX, IconDownload, IconMaximize, IconFileText, IconUpload, IconFileSpreadsheet, IconChartBar, IconPhoto, IconFileTypePdf, IconCopy, IconExternalLink } from '@tabler/icons-react'
+import { IconX, IconDownload, IconMaximize, IconFileText, IconUpload, IconFileSpreadsheet, IconChartBar, IconPhoto, IconFileTypePdf, IconCopy, IconExternalLink, IconRoute } from '@tabler/icons-react'
 import { toast } from 'sonner'
 import { selectedArtifactAtom, artifactPanelOpenAtom, activeTabAtom, selectedChatIdAtom } from '@/lib/atoms'
 import { Button } from '@/components/ui/button'
@@ -20,6 +20,7 @@ import { trpc } from '@/lib/trpc'
 import { cn } from '@/lib/utils'
 import type { ChartViewerRef } from '@/features/charts/chart-viewer'
 import { FontWarningDialog } from '@/components/font-warning-dialog'
+import { RunWorkflowDialog } from '@/features/workflows/run-workflow-dialog'
 
 // Lazy load ChartViewer to avoid loading Recharts until needed
 const ChartViewer = lazy(() => import('@/features/charts/chart-viewer').then(m => ({ default: m.ChartViewer })))
@@ -137,6 +138,7 @@ export function ArtifactPanel() {
 
     const [missingFonts, setMissingFonts] = useState<string[]>([])
     const [showFontDialog, setShowFontDialog] = useState(false)
+    const [showWorkflowDialog, setShowWorkflowDialog] = useState(false)
 
     const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0]
@@ -307,6 +309,23 @@ export function ArtifactPanel() {
                         </Tooltip>
                     )}
 
+                    {/* Replay a recorded workflow - only for spreadsheets */}
+                    {isSpreadsheet && (
+                        <Tooltip>
+                            <TooltipTrigger asChild>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    onClick={() => setShowWorkflowDialog(true)}
+                                >
+                                    <IconRoute size={16} />
+                                </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>Run Workflow</TooltipContent>
+                        </Tooltip>
+                    )}
+
                     {/* Export dropdown - for spreadsheets and charts */}
                     {isSpreadsheet ? (
                         <DropdownMenu>
@@ -473,6 +492,14 @@ export function ArtifactPanel() {
                 onOpenChange={setShowFontDialog}
                 missingFonts={missingFonts}
             />
+
+            {isSpreadsheet && (
+                <RunWorkflowDialog
+                    artifactId={artifact.id}
+                    open={showWorkflowDialog}
+                    onOpenChange={setShowWorkflowDialog}
+                />
+            )}
         </div>
     )
 }
@@ -978,11 +978,37 @@ export const ChatInput = memo(function ChatInput({
                   </>
                 )}
 
+                {/* Custom OpenAI-compatible endpoint (Ollama, LM Studio, vLLM...) */}
+                {keyStatus?.hasCustomProvider && allModelsGrouped.custom?.length > 0 && (
+                  <>
+                    <div className="h-px bg-border/40 my-1.5 mx-2" />
+                    <div className="text-[10px] font-bold uppercase text-muted-foreground/50 px-3 py-2 flex items-center gap-1.5">
+                      <ModelIcon provider="custom" size={12} />
+                      Custom Endpoint
+                      <span className="ml-auto text-[9px] font-medium text-sky-500 bg-sky-500/10 px-1.5 py-0.5 rounded">
+                        Self-hosted
+                      </span>
+                    </div>
+                    {allModelsGrouped.custom.map((model) => (
+                      <SelectItem
+                        key={model.id}
+                        value={model.id}
+                        className="rounded-lg"
+                      >
+                        <div className="flex items-center gap-2">
+                          <span>{model.name}</span>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </>
+                )}
+
                 {/* Show message if no providers configured */}
                 {!keyStatus?.hasOpenAI &&
                   !keyStatus?.hasZai &&
                   !keyStatus?.hasChatGPTPlus &&
-                  !keyStatus?.hasClaudeCode && (
+                  !keyStatus?.hasClaudeCode &&
+                  !keyStatus?.hasCustomProvider && (
                     <div className="text-xs text-muted-foreground px-3 py-4 text-center">
                       No API keys configured.
                       <br />
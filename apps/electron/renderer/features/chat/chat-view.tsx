@@ -34,10 +34,13 @@ import {
   streamingAnnotationsAtom,
   streamingFileSearchesAtom,
   streamingDocumentCitationsAtom,
+  streamingAgentRouteAtom,
   streamingSuggestionsAtom,
   imageEditDialogAtom,
   pendingQuickPromptMessageAtom,
   chatSoundsEnabledAtom,
+  currentExcelFileAtom,
+  currentDocFileAtom,
   type WebSearchInfo,
   type FileSearchInfo,
   type UrlCitation,
@@ -63,10 +66,16 @@ import { ChatFilesPanel } from "./chat-files-panel";
 import { ImageEditDialog } from "@/features/agent/image-edit-dialog";
 import { useSmoothStream, useDocumentUpload, useChatSounds } from "@/hooks";
 import { AI_MODELS } from "@s-agi/core/types/ai";
-import { useMessageQueueStore } from "./stores/message-queue-store";
+import { useMessageQueueStore, EMPTY_QUEUE } from "./stores/message-queue-store";
 import { useStreamingStatusStore } from "./stores/streaming-status-store";
 import { useSendCallbackStore } from "./stores/send-callback-store";
 import { generateQueueId, createQueueItem } from "./lib/queue-utils";
+import { ChatQueueIndicator } from "./components/queue-indicator";
+import { getSelectedRangeA1 } from "@/features/univer/univer-sheets-core";
+import { getSelectedDocumentText } from "@/features/univer/univer-docs-core";
+
+// Selected document text sent as a routing hint is capped
+const MAX_SELECTION_TEXT = 2_000;
 
 export function ChatView() {
   // Sound effects preference
@@ -119,14 +128,22 @@ export function ChatView() {
   const setStreamingDocumentCitations = useSetAtom(
     streamingDocumentCitationsAtom,
   );
+  // Specialist agent routing decision for the current message
+  const [streamingAgentRoute, setStreamingAgentRoute] = useAtom(
+    streamingAgentRouteAtom,
+  );
   const [streamingSuggestions, setStreamingSuggestions] = useAtom(
     streamingSuggestionsAtom,
   );
 
   // Settings state
-  const setSelectedArtifact = useSetAtom(selectedArtifactAtom);
-  const setArtifactPanelOpen = useSetAtom(artifactPanelOpenAtom);
-  const setActiveTab = useSetAtom(activeTabAtom);
+  const [selectedArtifact, setSelectedArtifact] = useAtom(selectedArtifactAtom);
+  const [artifactPanelOpen, setArtifactPanelOpen] = useAtom(
+    artifactPanelOpenAtom,
+  );
+  const [activeTab, setActiveTab] = useAtom(activeTabAtom);
+  const currentExcelFile = useAtomValue(currentExcelFileAtom);
+  const currentDocFile = useAtomValue(currentDocFileAtom);
 
   // Image edit dialog state
   const imageEditDialog = useAtomValue(imageEditDialogAtom);
@@ -137,7 +154,6 @@ export function ChatView() {
 
   // Zustand stores for queue system
   const addToQueue = useMessageQueueStore((state) => state.addToQueue);
-  const getQueue = useMessageQueueStore((state) => state.getQueue);
   const registerCallback = useSendCallbackStore(
     (state) => state.registerCallback,
   );
@@ -148,8 +164,10 @@ export function ChatView() {
     (state) => state.setStatus,
   );
 
-  // Get current queue for this chat
-  const currentQueue = selectedChatId ? getQueue(selectedChatId) : [];
+  // Get current queue for this chat (subscribed, it changes from main)
+  const currentQueue = useMessageQueueStore((state) =>
+    selectedChatId ? (state.queues[selectedChatId] ?? EMPTY_QUEUE) : EMPTY_QUEUE,
+  );
 
   // Abort controller and scroll refs
   const abortRef = useRef<(() => void) | null>(null);
@@ -273,6 +291,32 @@ export function ChatView() {
   };
 
   // Handle send message
+  /**
+   * What the user is looking at when sending: the open artifact or file and
+   * its current selection, so the main process can route to the right agent
+   */
+  const getRoutingSignals = () => {
+    const open =
+      selectedArtifact && artifactPanelOpen
+        ? { artifactId: selectedArtifact.id, artifactType: selectedArtifact.type }
+        : activeTab === "excel" && currentExcelFile
+          ? { artifactId: currentExcelFile.id, artifactType: "spreadsheet" }
+          : activeTab === "doc" && currentDocFile
+            ? { artifactId: currentDocFile.id, artifactType: "document" }
+            : null;
+    if (!open) return {};
+
+    if (open.artifactType === "spreadsheet") {
+      const range = getSelectedRangeA1();
+      return range ? { ...open, selection: { kind: "cells" as const, range } } : open;
+    }
+    if (open.artifactType === "document") {
+      const text = getSelectedDocumentText()?.slice(0, MAX_SELECTION_TEXT);
+      return text ? { ...open, selection: { kind: "text" as const, text } } : open;
+    }
+    return open;
+  };
+
   const handleSend = async (
     images?: Array<{ base64Data: string; mediaType: string; filename: string }>,
     documents?: File[],
@@ -318,9 +362,17 @@ export function ChatView() {
             : undefined,
           generateImage: shouldGenerateImage,
           imageSize,
+          provider,
+          model: selectedModel,
         },
       );
-      addToQueue(chatId, queuedItem);
+      try {
+        await addToQueue(chatId, queuedItem);
+      } catch (error) {
+        console.error("[ChatView] Failed to queue message:", error);
+        toast.error("No se pudo añadir el mensaje a la cola");
+        return;
+      }
       setInput("");
       setIsImageMode(false);
       return;
@@ -346,6 +398,7 @@ export function ChatView() {
     setStreamingFileSearches([]); // Clear previous file searches
     setStreamingAnnotations([]); // Clear previous annotations
     setStreamingDocumentCitations([]); // Clear previous citations
+    setStreamingAgentRoute(null); // Clear previous routing decision
     setStreamingSuggestions([]); // Clear previous suggestions
 
     // Play thinking sound (single, not loop)
@@ -525,6 +578,19 @@ export function ChatView() {
           return;
         }
         apiKey = undefined;
+      } else if (provider === "custom") {
+        // Self-hosted OpenAI-compatible endpoint - config lives in main process
+        const status = await trpcClient.settings.getApiKeyStatus.query();
+        if (!status.hasCustomProvider) {
+          setStreamingError(
+            "Custom endpoint not configured. Add it in Settings.",
+          );
+          setIsStreaming(false);
+          setStreamingStatus(chatId, "error");
+          chatSounds.playError();
+          return;
+        }
+        apiKey = undefined;
       } else {
         // Anthropic or other providers
         // SECURITY: Credentials are managed in main process only
@@ -823,6 +889,20 @@ export function ChatView() {
                 break;
               }
 
+              case "agent-route": {
+                console.log(
+                  `[ChatView] Routed to ${event.agent} (${event.source}, ${Math.round(event.confidence * 100)}%): ${event.reason}`,
+                );
+                setStreamingAgentRoute({
+                  agent: event.agent,
+                  route: event.route,
+                  confidence: event.confidence,
+                  reason: event.reason,
+                  source: event.source,
+                });
+                break;
+              }
+
               case "code-interpreter-start": {
                 actionCounts.codeInterpreter += 1;
                 break;
@@ -976,6 +1056,7 @@ export function ChatView() {
                 setStreamingFileSearches([]);
                 setStreamingAnnotations([]);
                 setStreamingDocumentCitations([]);
+                setStreamingAgentRoute(null);
                 cleanupListener?.();
                 abortRef.current = null;
                 break;
@@ -1130,6 +1211,7 @@ export function ChatView() {
                 setStreamingFileSearches([]);
                 setStreamingAnnotations([]);
                 setStreamingDocumentCitations([]);
+                setStreamingAgentRoute(null);
 
                 // Stop thinking sound and play response done sound
                 stopThinkingRef.current?.();
@@ -1175,7 +1257,8 @@ export function ChatView() {
           ? `[Focus on document: "${targetDocumentForSearch.filename}"]\n\n${userMessage}`
           : userMessage;
 
-        await chatMutation.mutateAsync({
+        const result = await chatMutation.mutateAsync({
+          ...getRoutingSignals(),
           chatId: chatIdForStream,
           prompt: promptWithDocContext,
           mode,
@@ -1206,6 +1289,11 @@ export function ChatView() {
           // Target document for focused file search
           targetDocument: targetDocumentForSearch || undefined,
         });
+        for (const warning of result.budgetWarnings ?? []) {
+          toast.warning(
+            `Budget "${warning.name}" is at ${Math.round(warning.ratio * 100)}% ($${warning.spent.toFixed(2)} of $${warning.limitUsd.toFixed(2)})`,
+          );
+        }
       } catch (error) {
         cleanupListener?.();
         throw error;
@@ -1685,6 +1773,7 @@ export function ChatView() {
               streamingFileSearches={streamingFileSearches}
               streamingAnnotations={streamingAnnotations}
               streamingDocumentCitations={streamingDocumentCitations}
+              streamingAgentRoute={streamingAgentRoute}
               streamingError={streamingError}
             />
             <div ref={messagesEndRef} className="h-px" />
@@ -1728,23 +1817,10 @@ export function ChatView() {
         </div>
       </div>
 
-      {/* Queue indicator - shows when messages are queued - MOVED OUTSIDE INPUT AREA */}
+      {/* Queue indicator - persisted queue with reorder, edit and retry - MOVED OUTSIDE INPUT AREA */}
       {currentQueue.length > 0 && (
-        <div className="absolute bottom-[calc(100%-4rem)] left-1/2 -translate-x-1/2 z-30 w-full max-w-[740px] px-4 pointer-events-none">
-          <div className="flex items-center justify-center gap-2 text-sm text-foreground bg-blue-500/90 backdrop-blur-sm rounded-lg px-4 py-2.5 shadow-lg border border-blue-400/50 pointer-events-auto">
-            <div className="flex items-center gap-2">
-              <div className="h-2.5 w-2.5 rounded-full bg-white animate-pulse" />
-              <span className="font-semibold text-white">
-                {currentQueue.length}{" "}
-                {currentQueue.length === 1
-                  ? "mensaje en cola"
-                  : "mensajes en cola"}
-              </span>
-            </div>
-            <span className="text-xs text-white/90 hidden sm:inline">
-              · Se enviarán cuando termine el streaming
-            </span>
-          </div>
+        <div className="absolute bottom-[calc(100%-4rem)] left-1/2 -translate-x-1/2 z-30 w-full max-w-[740px] px-4">
+          <ChatQueueIndicator queue={currentQueue} />
         </div>
       )}
 
@@ -0,0 +1,274 @@
+"use client";
+
+import { memo, useCallback, useEffect, useState } from "react";
+import {
+  IconArrowDown,
+  IconArrowUp,
+  IconCheck,
+  IconChevronDown,
+  IconLoader2,
+  IconPencil,
+  IconRefresh,
+  IconX,
+} from "@tabler/icons-react";
+import { motion, AnimatePresence } from "motion/react";
+import { toast } from "sonner";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { useMessageQueueStore } from "../stores/message-queue-store";
+import { createTextPreview } from "../lib/queue-utils";
+import type { ChatQueueItem } from "../lib/queue-utils";
+
+const QUEUE_EXPANDED_KEY = "chat-queue-expanded";
+
+function QueueAction({
+  label,
+  onClick,
+  disabled,
+  children,
+}: {
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onClick();
+          }}
+          disabled={disabled}
+          className="flex-shrink-0 p-1 hover:bg-foreground/10 rounded text-muted-foreground hover:text-foreground transition-all disabled:opacity-30 disabled:pointer-events-none"
+        >
+          {children}
+        </button>
+      </TooltipTrigger>
+      <TooltipContent side="top">{label}</TooltipContent>
+    </Tooltip>
+  );
+}
+
+const QueueItemRow = memo(function QueueItemRow({
+  item,
+  isFirst,
+  isLast,
+}: {
+  item: ChatQueueItem;
+  isFirst: boolean;
+  isLast: boolean;
+}) {
+  const { editItem, moveItem, removeFromQueue, retryItem } =
+    useMessageQueueStore.getState();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(item.message);
+
+  const run = useCallback(async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "No se pudo actualizar la cola",
+      );
+    }
+  }, []);
+
+  const saveEdit = () => {
+    const message = draft.trim();
+    setIsEditing(false);
+    if (message && message !== item.message) {
+      run(() => editItem(item.id, message));
+    }
+  };
+
+  const isRunning = item.status === "running";
+  const isFailed = item.status === "failed";
+  const attachmentCount =
+    (item.images?.length ?? 0) + (item.documents?.length ?? 0);
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-2 px-3 py-1.5 text-xs hover:bg-muted/50 transition-colors cursor-default",
+        isFailed && "bg-red-500/5",
+      )}
+    >
+      {isRunning && (
+        <IconLoader2 className="w-3.5 h-3.5 flex-shrink-0 animate-spin text-muted-foreground" />
+      )}
+      {isEditing ? (
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={saveEdit}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") saveEdit();
+            if (e.key === "Escape") {
+              setDraft(item.message);
+              setIsEditing(false);
+            }
+          }}
+          className="flex-1 min-w-0 bg-transparent border-b border-border outline-none text-foreground"
+        />
+      ) : (
+        <span className="truncate flex-1 text-foreground">
+          {createTextPreview(item.message, 60)}
+        </span>
+      )}
+      {attachmentCount > 0 && (
+        <span className="flex-shrink-0 text-muted-foreground text-[10px]">
+          +{attachmentCount} adjunto{attachmentCount !== 1 ? "s" : ""}
+        </span>
+      )}
+      {isFailed && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span className="flex-shrink-0 text-[10px] text-red-600 dark:text-red-400">
+              Error
+            </span>
+          </TooltipTrigger>
+          <TooltipContent side="top">
+            {item.error || "No se pudo enviar"}
+          </TooltipContent>
+        </Tooltip>
+      )}
+      {!isRunning && (
+        <div className="flex items-center gap-0.5">
+          {isFailed && (
+            <QueueAction label="Reintentar" onClick={() => run(() => retryItem(item.id))}>
+              <IconRefresh className="w-3.5 h-3.5" />
+            </QueueAction>
+          )}
+          {isEditing ? (
+            <QueueAction label="Guardar" onClick={saveEdit}>
+              <IconCheck className="w-3.5 h-3.5" />
+            </QueueAction>
+          ) : (
+            <QueueAction
+              label="Editar"
+              onClick={() => {
+                setDraft(item.message);
+                setIsEditing(true);
+              }}
+            >
+              <IconPencil className="w-3.5 h-3.5" />
+            </QueueAction>
+          )}
+          <QueueAction
+            label="Subir"
+            disabled={isFirst}
+            onClick={() => run(() => moveItem(item.chatId, item.id, -1))}
+          >
+            <IconArrowUp className="w-3.5 h-3.5" />
+          </QueueAction>
+          <QueueAction
+            label="Bajar"
+            disabled={isLast}
+            onClick={() => run(() => moveItem(item.chatId, item.id, 1))}
+          >
+            <IconArrowDown className="w-3.5 h-3.5" />
+          </QueueAction>
+          <QueueAction
+            label="Quitar"
+            onClick={() => run(() => removeFromQueue(item.chatId, item.id))}
+          >
+            <IconX className="w-3.5 h-3.5" />
+          </QueueAction>
+        </div>
+      )}
+    </div>
+  );
+});
+
+interface ChatQueueIndicatorProps {
+  queue: ChatQueueItem[];
+}
+
+/**
+ * Queued messages of the current chat with reorder, edit, retry and remove.
+ * The queue is persisted, so it is still here after a restart.
+ */
+export const ChatQueueIndicator = memo(function ChatQueueIndicator({
+  queue,
+}: ChatQueueIndicatorProps) {
+  const [isExpanded, setIsExpanded] = useState(() => {
+    if (typeof window === "undefined") return true;
+    const saved = localStorage.getItem(QUEUE_EXPANDED_KEY);
+    return saved !== null ? saved === "true" : true;
+  });
+
+  useEffect(() => {
+    localStorage.setItem(QUEUE_EXPANDED_KEY, String(isExpanded));
+  }, [isExpanded]);
+
+  const visible = queue.filter((item) => item.status !== "done");
+  if (visible.length === 0) {
+    return null;
+  }
+
+  const waiting = visible.filter((item) => item.status !== "running");
+  const failedCount = visible.filter((item) => item.status === "failed").length;
+
+  return (
+    <div className="border border-border bg-background/95 backdrop-blur-sm overflow-hidden flex flex-col rounded-xl shadow-lg">
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => setIsExpanded(!isExpanded)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" || e.key === " ") {
+            e.preventDefault();
+            setIsExpanded(!isExpanded);
+          }
+        }}
+        aria-expanded={isExpanded}
+        className="flex items-center gap-2 pr-1 pl-3 h-8 cursor-pointer hover:bg-muted/50 transition-colors duration-150 focus:outline-none"
+      >
+        <IconChevronDown
+          className={cn(
+            "w-4 h-4 text-muted-foreground transition-transform duration-200",
+            !isExpanded && "-rotate-90",
+          )}
+        />
+        <span className="text-xs text-muted-foreground">
+          {visible.length}{" "}
+          {visible.length === 1 ? "mensaje en cola" : "mensajes en cola"}
+          {failedCount > 0 && ` · ${failedCount} con error`}
+        </span>
+        <span className="text-[10px] text-muted-foreground/70 hidden sm:inline">
+          · Se enviarán cuando termine el streaming
+        </span>
+      </div>
+
+      <AnimatePresence initial={false}>
+        {isExpanded && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: "auto", opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2, ease: [0.23, 1, 0.32, 1] }}
+            className="overflow-hidden"
+          >
+            <div className="border-t border-border max-h-[200px] overflow-y-auto">
+              {visible.map((item) => (
+                <QueueItemRow
+                  key={item.id}
+                  item={item}
+                  isFirst={waiting[0]?.id === item.id}
+                  isLast={waiting[waiting.length - 1]?.id === item.id}
+                />
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+});
@@ -2,9 +2,11 @@
 
 import { useEffect, useRef } from 'react'
 import { toast } from 'sonner'
+import { trpc, trpcClient } from '@/lib/trpc'
 import { useMessageQueueStore } from '../stores/message-queue-store'
 import { useStreamingStatusStore } from '../stores/streaming-status-store'
 import { useSendCallbackStore } from '../stores/send-callback-store'
+import { fromPersistedItem } from '../lib/queue-utils'
 
 // Delay between processing queue items (ms)
 const QUEUE_PROCESS_DELAY = 500
@@ -21,16 +23,60 @@ const QUEUE_PROCESS_DELAY = 500
  *
  * Flow:
  * 1. ChatView registers its send callback via useSendCallbackStore
- * 2. When user sends while streaming, message goes to queue via useMessageQueueStore
- * 3. This processor watches both stores
- * 4. When status becomes 'ready' and queue has items, it processes them
- * 5. Calls the registered send callback to actually send the message
+ * 2. When user sends while streaming, message goes to the persisted queue in main
+ * 3. This processor mirrors the main queues into useMessageQueueStore and
+ *    tells main which chats are open (the rest run in the background there)
+ * 4. When an open chat becomes 'ready' and has pending items, it claims the next one
+ * 5. Calls the registered send callback and reports done/failed to main
  */
 export function ChatQueueProcessor() {
   // Track which chats are currently being processed to avoid double-sends
   const processingRef = useRef<Set<string>>(new Set())
   // Track timers for cleanup
   const timersRef = useRef<Map<string, NodeJS.Timeout>>(new Map())
+  const utils = trpc.useUtils()
+
+  // Mirror the persisted queues and refresh chats answered in the background
+  useEffect(() => {
+    const refresh = async () => {
+      try {
+        const persisted = await trpcClient.messageQueue.listAll.query()
+        useMessageQueueStore.getState().hydrate(persisted)
+      } catch (error) {
+        console.error('[QueueProcessor] Failed to load queue:', error)
+      }
+    }
+
+    refresh()
+
+    const unsubscribe = window.desktopApi?.onMessageQueueChanged?.(
+      (data: { kind: 'chat' | 'pdf'; targetId: string }) => {
+        if (data.kind !== 'chat') return
+        refresh()
+        if (!useSendCallbackStore.getState().getCallback(data.targetId)) {
+          utils.messages.list.invalidate({ chatId: data.targetId })
+          utils.chats.list.invalidate()
+        }
+      }
+    )
+    return () => unsubscribe?.()
+  }, [utils])
+
+  // Chats with an open view are sent from here; main runs the others
+  useEffect(() => {
+    const report = (chatIds: string[]) => {
+      trpcClient.messageQueue.setForeground
+        .mutate({ kind: 'chat', targetIds: chatIds })
+        .catch((error) => console.error('[QueueProcessor] Failed to report open chats:', error))
+    }
+
+    report(Object.keys(useSendCallbackStore.getState().callbacks))
+    return useSendCallbackStore.subscribe((state, previous) => {
+      if (state.callbacks !== previous.callbacks) {
+        report(Object.keys(state.callbacks))
+      }
+    })
+  }, [])
 
   useEffect(() => {
     // Function to process queue for a specific chat
@@ -46,46 +92,48 @@ export function ChatQueueProcessor() {
         return
       }
 
-      // Get queue for this chat
-      const queue = useMessageQueueStore.getState().queues[chatId] || []
-      if (queue.length === 0) {
+      // Nothing to send for this chat
+      if (!useMessageQueueStore.getState().getNextItem(chatId)) {
         return
       }
 
       // Get the send callback for this chat
       const sendCallback = useSendCallbackStore.getState().getCallback(chatId)
       if (!sendCallback) {
-        console.warn(`[QueueProcessor] No send callback registered for chat ${chatId}`)
         return
       }
 
       // Mark as processing
       processingRef.current.add(chatId)
 
-      // Pop the first item from queue (atomic operation)
-      const item = useMessageQueueStore.getState().popItem(chatId, queue[0].id)
-      if (!item) {
-        processingRef.current.delete(chatId)
-        return
-      }
-
       try {
+        // Claim the next item in main (marks it running, atomic across windows)
+        const claimed = await trpcClient.messageQueue.claim.mutate({ kind: 'chat', targetId: chatId })
+        if (!claimed) return
+
+        const queued = useMessageQueueStore.getState().getQueue(chatId).find((i) => i.id === claimed.id)
+        const item = fromPersistedItem(claimed, queued?.documents)
         console.log(`[QueueProcessor] Processing queued message for chat ${chatId}:`, item.message.substring(0, 50))
 
-        // Call the registered send callback
-        await sendCallback(item)
+        let error: string | undefined
+        try {
+          // Call the registered send callback
+          await sendCallback(item)
+          if (useStreamingStatusStore.getState().getStatus(chatId) === 'error') {
+            error = 'The message could not be sent'
+          }
+        } catch (sendError) {
+          console.error(`[QueueProcessor] Error processing queue:`, sendError)
+          error = sendError instanceof Error ? sendError.message : 'The message could not be sent'
+        }
 
+        await trpcClient.messageQueue.finish.mutate({ itemId: item.id, error })
+        if (error) {
+          // Notify user; the item stays in the queue for a manual retry
+          toast.error('Failed to send queued message. You can retry it from the queue.')
+        }
       } catch (error) {
         console.error(`[QueueProcessor] Error processing queue:`, error)
-
-        // Requeue the item at the front so it can be retried
-        useMessageQueueStore.getState().prependItem(chatId, item)
-
-        // Set error status (will be cleared on next successful send or manual retry)
-        useStreamingStatusStore.getState().setStatus(chatId, 'error')
-
-        // Notify user
-        toast.error('Failed to send queued message. It will be retried.')
       } finally {
         processingRef.current.delete(chatId)
       }
@@ -110,17 +158,17 @@ export function ChatQueueProcessor() {
 
     // Check all queues and schedule processing for ready chats
     const checkAllQueues = () => {
-      const queues = useMessageQueueStore.getState().queues
+      const { queues, getNextItem } = useMessageQueueStore.getState()
 
       for (const chatId of Object.keys(queues)) {
-        const queue = queues[chatId]
-        if (!queue || queue.length === 0) continue
+        if (!getNextItem(chatId)) continue
+        if (!useSendCallbackStore.getState().getCallback(chatId)) continue
 
         const status = useStreamingStatusStore.getState().getStatus(chatId)
 
-        // Process when ready, or retry on error status
+        // Process when ready, or after an error once the failed item was reported
         if ((status === 'ready' || status === 'error') && !processingRef.current.has(chatId)) {
-          // If error status, clear it before retrying
+          // If error status, clear it before sending the next item
           if (status === 'error') {
             useStreamingStatusStore.getState().setStatus(chatId, 'ready')
           }
@@ -141,6 +189,9 @@ export function ChatQueueProcessor() {
       () => checkAllQueues()
     )
 
+    // A chat view opening may have queued items waiting
+    const unsubscribeCallbacks = useSendCallbackStore.subscribe(() => checkAllQueues())
+
     // Initial check
     checkAllQueues()
 
@@ -148,6 +199,7 @@ export function ChatQueueProcessor() {
     return () => {
       unsubscribeQueue()
       unsubscribeStatus()
+      unsubscribeCallbacks()
 
       // Clear all timers
       for (const timer of timersRef.current.values()) {
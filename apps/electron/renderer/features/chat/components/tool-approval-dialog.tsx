@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { trpcClient } from "@/lib/trpc";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface ToolApprovalRequest {
+  toolCallId: string;
+  toolName: string;
+  message: string;
+}
+
+const TOOL_TITLES: Record<string, string> = {
+  merge_pdfs: "Merge PDFs?",
+  insert_pages_from: "Insert pages?",
+  run_form_merge: "Fill forms from the sheet?",
+};
+
+/**
+ * Confirmation for agent tool calls that need the user's approval.
+ * Requests are answered one at a time, oldest first.
+ */
+export function ToolApprovalDialog() {
+  const [queue, setQueue] = useState<ToolApprovalRequest[]>([]);
+  const current = queue[0];
+
+  useEffect(() => {
+    const cleanup = window.desktopApi?.onToolApproval?.((event) => {
+      if (event.type === "tool-approval-request") {
+        const { toolCallId, toolName, message } = event;
+        setQueue((q) => [...q, { toolCallId, toolName, message }]);
+      } else {
+        // Closed by main (stream cancelled)
+        setQueue((q) => q.filter((r) => r.toolCallId !== event.toolCallId));
+      }
+    });
+    return () => cleanup?.();
+  }, []);
+
+  const respond = (approved: boolean) => {
+    if (!current) return;
+    setQueue((q) => q.slice(1));
+    trpcClient.ai.respondToolApproval
+      .mutate({ toolCallId: current.toolCallId, approved })
+      .then(({ success }) => {
+        if (!success) toast.error("The request expired; ask the agent again");
+      })
+      .catch((error) => toast.error(error.message));
+  };
+
+  return (
+    <AlertDialog open={!!current}>
+      <AlertDialogContent onEscapeKeyDown={() => respond(false)}>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {current
+              ? (TOOL_TITLES[current.toolName] ?? `Run ${current.toolName}?`)
+              : ""}
+          </AlertDialogTitle>
+          <AlertDialogDescription className="whitespace-pre-line">
+            {current?.message}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => respond(false)}>
+            Reject
+          </AlertDialogCancel>
+          <AlertDialogAction onClick={() => respond(true)}>
+            Approve
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
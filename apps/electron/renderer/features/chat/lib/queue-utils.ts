@@ -1,6 +1,9 @@
 /**
  * Queue utilities for managing message queue in chat
  * Adapted from 1code's agent queue implementation
+ *
+ * Queues are persisted in the main process (messageQueue router); these
+ * helpers convert between the persisted items and ChatQueueItem.
  */
 
 export interface QueuedImage {
@@ -20,17 +23,36 @@ export interface QueuedTargetDocument {
   filename: string
 }
 
+export type QueueItemStatus = 'pending' | 'running' | 'failed' | 'done'
+
 export type ChatQueueItem = {
   id: string
   chatId: string
   message: string
   images?: QueuedImage[]
+  // Files are not persisted: documents only survive until the app is closed
   documents?: QueuedDocument[]
   targetDocument?: QueuedTargetDocument | null
   generateImage?: boolean
   imageSize?: string
+  // Provider and model used when the prompt runs in the background
+  provider?: string
+  model?: string
   timestamp: Date
-  status: 'pending' | 'processing'
+  status: QueueItemStatus
+  error?: string
+}
+
+// Shape of an item as stored by the main process
+export interface PersistedQueueItem {
+  id: string
+  kind: 'chat' | 'pdf'
+  targetId: string
+  message: string
+  payload: Record<string, unknown>
+  status: QueueItemStatus
+  error?: string
+  createdAt: string
 }
 
 export function generateQueueId(): string {
@@ -47,6 +69,8 @@ export function createQueueItem(
     targetDocument?: QueuedTargetDocument | null
     generateImage?: boolean
     imageSize?: string
+    provider?: string
+    model?: string
   }
 ): ChatQueueItem {
   return {
@@ -58,11 +82,46 @@ export function createQueueItem(
     targetDocument: options?.targetDocument,
     generateImage: options?.generateImage,
     imageSize: options?.imageSize,
+    provider: options?.provider,
+    model: options?.model,
     timestamp: new Date(),
     status: 'pending',
   }
 }
 
+export function toQueuePayload(item: ChatQueueItem): Record<string, unknown> {
+  return {
+    images: item.images,
+    targetDocument: item.targetDocument ?? undefined,
+    generateImage: item.generateImage,
+    imageSize: item.imageSize,
+    provider: item.provider,
+    model: item.model,
+  }
+}
+
+export function fromPersistedItem(
+  item: PersistedQueueItem,
+  documents?: QueuedDocument[]
+): ChatQueueItem {
+  const payload = item.payload as Partial<ChatQueueItem>
+  return {
+    id: item.id,
+    chatId: item.targetId,
+    message: item.message,
+    images: payload.images,
+    documents,
+    targetDocument: payload.targetDocument,
+    generateImage: payload.generateImage,
+    imageSize: payload.imageSize,
+    provider: payload.provider,
+    model: payload.model,
+    timestamp: new Date(item.createdAt),
+    status: item.status,
+    error: item.error,
+  }
+}
+
 export function getNextQueueItem(
   queue: ChatQueueItem[]
 ): ChatQueueItem | null {
@@ -10,6 +10,7 @@ import {
   IconFile,
   IconAlertCircle,
   IconChartBar,
+  IconRoute,
 } from "@tabler/icons-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAtomValue, useSetAtom } from "jotai";
@@ -19,12 +20,14 @@ import {
   selectedModelAtom,
   selectedArtifactAtom,
   artifactPanelOpenAtom,
+  type AgentRouteInfo,
 } from "@/lib/atoms";
 import { getModelById } from "@s-agi/core/types/ai";
 import { ModelIcon } from "@/components/icons/model-icons";
 import { ChatMarkdownRenderer } from "@/components/chat-markdown-renderer";
 import { CitationsFooter } from "@/components/inline-citation";
 import { MessageAttachments } from "@/components/message-attachments";
+import { SaveWorkflowDialog } from "@/features/workflows/save-workflow-dialog";
 import { Button } from "@/components/ui/button";
 import { Logo } from "@/components/ui/logo";
 import {
@@ -533,6 +536,8 @@ interface MessageListProps {
   >;
   /** Document citations from local RAG (for non-OpenAI providers) */
   streamingDocumentCitations?: DocumentCitation[];
+  /** Specialist agent chosen for the current message */
+  streamingAgentRoute?: AgentRouteInfo | null;
   /** Error message from streaming */
   streamingError?: string | null;
 }
@@ -584,6 +589,7 @@ export const MessageList = memo(function MessageList({
   streamingFileSearches,
   streamingAnnotations,
   streamingDocumentCitations,
+  streamingAgentRoute,
   streamingError,
 }: MessageListProps) {
   if (messages.length === 0 && !isLoading && !lastReasoning) {
@@ -635,6 +641,17 @@ export const MessageList = memo(function MessageList({
             <div className="flex items-start gap-4 w-full overflow-hidden">
               <AssistantAvatar />
               <div className="flex-1 min-w-0 space-y-2 pt-0.5 overflow-hidden">
+                {/* Routing decision - which specialist answers and why */}
+                {streamingAgentRoute && (
+                  <div
+                    className="text-xs text-muted-foreground truncate"
+                    title={streamingAgentRoute.reason}
+                  >
+                    {streamingAgentRoute.reason} ·{" "}
+                    {Math.round(streamingAgentRoute.confidence * 100)}%
+                  </div>
+                )}
+
                 {/* Reasoning section - shows ABOVE the text */}
                 {(isReasoning ||
                   streamingReasoning ||
@@ -732,6 +749,7 @@ const MessageItem = memo(function MessageItem({
     "idle",
   );
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [workflowDialogOpen, setWorkflowDialogOpen] = useState(false);
   const textToSpeech = trpc.ai.textToSpeech.useMutation();
   const selectedModel = useAtomValue(selectedModelAtom);
 
@@ -773,6 +791,18 @@ const MessageItem = memo(function MessageItem({
       .filter((id): id is string => !!id);
   }, [message.tool_calls]);
 
+  // Responses that edited a spreadsheet can be recorded as a workflow
+  const canSaveWorkflow = useMemo(
+    () =>
+      !!message.tool_calls?.some(
+        (tc) =>
+          isRecord(tc.args) &&
+          typeof tc.args.artifactId === "string" &&
+          !tc.name.startsWith("get_"),
+      ),
+    [message.tool_calls],
+  );
+
   useEffect(() => {
     return () => {
       if (audioRef.current) {
@@ -952,7 +982,7 @@ const MessageItem = memo(function MessageItem({
           </div>
         )}
 
-        {(content || hasUsage) && (
+        {(content || hasUsage || canSaveWorkflow) && (
           <div className="flex items-center justify-between text-muted-foreground mt-2">
             <div className="flex items-center gap-1">
               {content && (
@@ -997,6 +1027,21 @@ const MessageItem = memo(function MessageItem({
                   </Tooltip>
                 </>
               )}
+              {canSaveWorkflow && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <button
+                      type="button"
+                      onClick={() => setWorkflowDialogOpen(true)}
+                      className="p-1.5 rounded-md transition-[background-color,transform] duration-150 ease-out hover:bg-accent active:scale-[0.97]"
+                      aria-label="Save as workflow"
+                    >
+                      <IconRoute size={16} />
+                    </button>
+                  </TooltipTrigger>
+                  <TooltipContent side="top">Save as workflow</TooltipContent>
+                </Tooltip>
+              )}
 
               {/* Sources indicator */}
               {message.metadata?.annotations &&
@@ -1084,6 +1129,14 @@ const MessageItem = memo(function MessageItem({
             )}
           </div>
         )}
+
+        {workflowDialogOpen && (
+          <SaveWorkflowDialog
+            messageId={message.id}
+            open={workflowDialogOpen}
+            onOpenChange={setWorkflowDialogOpen}
+          />
+        )}
       </div>
     </div>
   );
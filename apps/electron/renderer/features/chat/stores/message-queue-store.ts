@@ -1,58 +1,118 @@
 /**
  * Message queue store for chat
  * Adapted from 1code's message queue store
+ *
+ * Mirror of the queues persisted in the main process: actions go through the
+ * messageQueue router and the store is refreshed from main (see hydrate), so
+ * queued prompts survive restarts and can run while the chat is closed.
  */
 
 import { create } from 'zustand'
 import { subscribeWithSelector } from 'zustand/middleware'
-import type { ChatQueueItem } from '../lib/queue-utils'
-import { removeQueueItem } from '../lib/queue-utils'
+import { trpcClient } from '@/lib/trpc'
+import type { ChatQueueItem, PersistedQueueItem, QueuedDocument } from '../lib/queue-utils'
+import { fromPersistedItem, toQueuePayload } from '../lib/queue-utils'
 
 // Empty array constant to avoid creating new arrays on each call
 // Exported for use in selectors to maintain stable reference
 export const EMPTY_QUEUE: ChatQueueItem[] = []
 
+// Attached files can't be persisted; keep them for this session by item id
+const sessionDocuments = new Map<string, QueuedDocument[]>()
+
 interface MessageQueueState {
   // Map: chatId -> queue items
   queues: Record<string, ChatQueueItem[]>
 
+  // Replace the mirror with the persisted queues (keyed by kind:targetId)
+  hydrate: (persisted: Record<string, PersistedQueueItem[]>) => void
+
   // Actions
-  addToQueue: (chatId: string, item: ChatQueueItem) => void
-  removeFromQueue: (chatId: string, itemId: string) => void
+  addToQueue: (chatId: string, item: ChatQueueItem) => Promise<void>
+  removeFromQueue: (chatId: string, itemId: string) => Promise<void>
+  editItem: (itemId: string, message: string) => Promise<void>
+  // Move a waiting item one position up (-1) or down (1)
+  moveItem: (chatId: string, itemId: string, offset: -1 | 1) => Promise<void>
+  retryItem: (itemId: string) => Promise<void>
   getQueue: (chatId: string) => ChatQueueItem[]
   getNextItem: (chatId: string) => ChatQueueItem | null
-  clearQueue: (chatId: string) => void
-  // Returns and removes the item from queue (atomic operation)
-  popItem: (chatId: string, itemId: string) => ChatQueueItem | null
-  // Add item to front of queue (for error recovery)
-  prependItem: (chatId: string, item: ChatQueueItem) => void
+  clearQueue: (chatId: string) => Promise<void>
 }
 
 export const useMessageQueueStore = create<MessageQueueState>()(
   subscribeWithSelector((set, get) => ({
     queues: {},
 
-    addToQueue: (chatId, item) => {
+    hydrate: (persisted) => {
+      const queues: Record<string, ChatQueueItem[]> = {}
+      for (const items of Object.values(persisted)) {
+        for (const item of items) {
+          if (item.kind !== 'chat') continue
+          const queue = queues[item.targetId] ?? (queues[item.targetId] = [])
+          queue.push(fromPersistedItem(item, sessionDocuments.get(item.id)))
+        }
+      }
+      for (const itemId of sessionDocuments.keys()) {
+        const stillQueued = Object.values(queues).some((queue) =>
+          queue.some((item) => item.id === itemId && item.status !== 'done')
+        )
+        if (!stillQueued) sessionDocuments.delete(itemId)
+      }
+      set({ queues })
+    },
+
+    addToQueue: async (chatId, item) => {
+      const persisted = await trpcClient.messageQueue.add.mutate({
+        kind: 'chat',
+        targetId: chatId,
+        message: item.message,
+        payload: toQueuePayload(item),
+      })
+      if (item.documents?.length) {
+        sessionDocuments.set(persisted.id, item.documents)
+      }
+      // Show it right away; the change event brings the persisted state
       set((state) => ({
         queues: {
           ...state.queues,
-          [chatId]: [...(state.queues[chatId] || []), item],
+          [chatId]: [
+            ...(state.queues[chatId] || []),
+            fromPersistedItem(persisted, item.documents),
+          ],
         },
       }))
     },
 
-    removeFromQueue: (chatId, itemId) => {
-      set((state) => {
-        const currentQueue = state.queues[chatId] || []
-        return {
-          queues: {
-            ...state.queues,
-            [chatId]: removeQueueItem(currentQueue, itemId),
-          },
-        }
+    removeFromQueue: async (_chatId, itemId) => {
+      await trpcClient.messageQueue.remove.mutate({ itemId })
+      sessionDocuments.delete(itemId)
+    },
+
+    editItem: async (itemId, message) => {
+      await trpcClient.messageQueue.edit.mutate({ itemId, message })
+    },
+
+    moveItem: async (chatId, itemId, offset) => {
+      const waiting = get()
+        .getQueue(chatId)
+        .filter((item) => item.status === 'pending' || item.status === 'failed')
+      const index = waiting.findIndex((item) => item.id === itemId)
+      const target = index + offset
+      if (index < 0 || target < 0 || target >= waiting.length) return
+
+      const ordered = waiting.map((item) => item.id)
+      ordered.splice(target, 0, ...ordered.splice(index, 1))
+      await trpcClient.messageQueue.reorder.mutate({
+        kind: 'chat',
+        targetId: chatId,
+        orderedIds: ordered,
       })
     },
 
+    retryItem: async (itemId) => {
+      await trpcClient.messageQueue.retry.mutate({ itemId })
+    },
+
     getQueue: (chatId) => {
       return get().queues[chatId] ?? EMPTY_QUEUE
     },
@@ -62,40 +122,14 @@ export const useMessageQueueStore = create<MessageQueueState>()(
       return queue.find((item) => item.status === 'pending') || null
     },
 
-    clearQueue: (chatId) => {
-      set((state) => ({
-        queues: {
-          ...state.queues,
-          [chatId]: [],
-        },
-      }))
-    },
-
-    // Atomic pop: find and remove in single set() call to prevent race conditions
-    popItem: (chatId, itemId) => {
-      let foundItem: ChatQueueItem | null = null
-      set((state) => {
-        const currentQueue = state.queues[chatId] || []
-        foundItem = currentQueue.find((i) => i.id === itemId) || null
-        if (!foundItem) return state
-        return {
-          queues: {
-            ...state.queues,
-            [chatId]: currentQueue.filter((i) => i.id !== itemId),
-          },
-        }
-      })
-      return foundItem
-    },
-
-    // Add item to front of queue (used for error recovery - requeue failed items)
-    prependItem: (chatId, item) => {
-      set((state) => ({
-        queues: {
-          ...state.queues,
-          [chatId]: [item, ...(state.queues[chatId] || [])],
-        },
-      }))
+    // Drop everything that is not being sent right now
+    clearQueue: async (chatId) => {
+      const queue = get().queues[chatId] || []
+      for (const item of queue) {
+        if (item.status === 'running') continue
+        await trpcClient.messageQueue.remove.mutate({ itemId: item.id })
+        sessionDocuments.delete(item.id)
+      }
     },
   }))
 )
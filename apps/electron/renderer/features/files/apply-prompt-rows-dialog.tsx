@@ -0,0 +1,399 @@
+/**
+ * ApplyPromptToRowsDialog - Run one prompt on every row of a column (e.g.
+ * classify the tickets in column B into column C). Shows the cost estimate
+ * first, then submits a Batch API or flex job whose answers are written back
+ * into the workbook when it finishes.
+ */
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { IconCalculator, IconLoader2, IconX } from "@tabler/icons-react";
+import type { UserFile } from "@/lib/atoms/user-files";
+
+// Flex only serves the GPT-5 family; the rest run through the Batch API only
+const MODELS = [
+  { id: "gpt-5-nano", label: "GPT-5 nano", flex: true },
+  { id: "gpt-5-mini", label: "GPT-5 mini", flex: true },
+  { id: "gpt-5", label: "GPT-5", flex: true },
+  { id: "gpt-4o-mini", label: "GPT-4o mini", flex: false },
+] as const;
+
+type ModelId = (typeof MODELS)[number]["id"];
+type Mode = "batch" | "flex";
+
+const ACTIVE_STATUSES = ["validating", "in_progress", "finalizing", "cancelling"];
+
+const STATUS_LABELS: Record<string, string> = {
+  validating: "Validando",
+  in_progress: "En curso",
+  finalizing: "Finalizando",
+  cancelling: "Cancelando",
+  processed: "Escrito",
+  completed: "Completado",
+  expired: "Expirado",
+  cancelled: "Cancelado",
+  failed: "Error",
+};
+
+interface ApplyPromptToRowsDialogProps {
+  file: UserFile | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface EstimateParams {
+  fileId: string;
+  prompt: string;
+  sourceColumn: string;
+  targetColumn: string;
+  headerRow: number;
+  skipFilled: boolean;
+  model: ModelId;
+}
+
+function supportsFlex(model: ModelId): boolean {
+  return MODELS.some((m) => m.id === model && m.flex);
+}
+
+function formatCost(value: number): string {
+  return value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+export function ApplyPromptToRowsDialog({
+  file,
+  open,
+  onOpenChange,
+}: ApplyPromptToRowsDialogProps) {
+  const [prompt, setPrompt] = useState("");
+  const [sourceColumn, setSourceColumn] = useState("");
+  const [targetColumn, setTargetColumn] = useState("");
+  const [headerRow, setHeaderRow] = useState("1");
+  const [skipFilled, setSkipFilled] = useState(true);
+  const [model, setModel] = useState<ModelId>("gpt-5-mini");
+  const [mode, setMode] = useState<Mode>("batch");
+  const [params, setParams] = useState<EstimateParams | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setPrompt("");
+      setSourceColumn("");
+      setTargetColumn("");
+      setHeaderRow("1");
+      setSkipFilled(true);
+      setParams(null);
+    }
+  }, [open]);
+
+  const current: EstimateParams | null =
+    file && prompt.trim() && sourceColumn.trim() && targetColumn.trim()
+      ? {
+          fileId: file.id,
+          prompt: prompt.trim(),
+          sourceColumn: sourceColumn.trim(),
+          targetColumn: targetColumn.trim(),
+          headerRow: Math.max(0, Number.parseInt(headerRow, 10) || 0),
+          skipFilled,
+          model,
+        }
+      : null;
+  // The estimate shown must match what would be submitted
+  const isEstimateCurrent =
+    !!params && !!current && JSON.stringify(params) === JSON.stringify(current);
+
+  const {
+    data: estimate,
+    isFetching: isEstimating,
+    error: estimateError,
+  } = trpc.batchJobs.estimate.useQuery(params as EstimateParams, {
+    enabled: open && !!params,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (estimateError) toast.error(estimateError.message);
+  }, [estimateError]);
+
+  const { data: jobs = [], refetch: refetchJobs } =
+    trpc.batchJobs.list.useQuery(
+      { fileId: file?.id },
+      { enabled: open && !!file },
+    );
+
+  useEffect(() => {
+    if (!open) return;
+    const unsubscribe = window.desktopApi?.onBatchJobsChanged?.(() => {
+      refetchJobs();
+    });
+    return () => unsubscribe?.();
+  }, [open, refetchJobs]);
+
+  const submitMutation = trpc.batchJobs.submit.useMutation({
+    onSuccess: (job) => {
+      toast.success(
+        mode === "batch"
+          ? `Trabajo enviado: ${job.requestCount} filas (puede tardar hasta 24 h)`
+          : `Procesando ${job.requestCount} filas`,
+      );
+      setParams(null);
+      refetchJobs();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const cancelMutation = trpc.batchJobs.cancel.useMutation({
+    onSuccess: () => refetchJobs(),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handleEstimate = () => {
+    if (current) setParams(current);
+  };
+
+  const handleSubmit = () => {
+    if (!current || !isEstimateCurrent) return;
+    submitMutation.mutate({ ...current, mode });
+  };
+
+  const cost = estimate?.cost;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Aplicar prompt a cada fila</DialogTitle>
+          <DialogDescription>
+            Cada celda de la columna origen se envía con la instrucción y la
+            respuesta se escribe en la columna destino. Se usan los datos
+            guardados del libro.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2 max-h-[60vh] overflow-y-auto">
+          <div className="space-y-1.5">
+            <Label htmlFor="rows-prompt">Instrucción</Label>
+            <Textarea
+              id="rows-prompt"
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              placeholder="Clasifica el ticket como facturación, bug, cuenta u otro"
+              rows={3}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="rows-source">Columna origen</Label>
+              <Input
+                id="rows-source"
+                value={sourceColumn}
+                onChange={(e) => setSourceColumn(e.target.value)}
+                placeholder="Ticket o B"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="rows-target">Columna destino</Label>
+              <Input
+                id="rows-target"
+                value={targetColumn}
+                onChange={(e) => setTargetColumn(e.target.value)}
+                placeholder="Categoría o C"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="rows-header">Fila encabezado</Label>
+              <Input
+                id="rows-header"
+                type="number"
+                min={0}
+                value={headerRow}
+                onChange={(e) => setHeaderRow(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label>Modelo</Label>
+              <Select value={model} onValueChange={(v) => setModel(v as ModelId)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MODELS.map((m) => (
+                    <SelectItem
+                      key={m.id}
+                      value={m.id}
+                      disabled={mode === "flex" && !m.flex}
+                    >
+                      {m.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>Procesamiento</Label>
+              <Select
+                value={mode}
+                onValueChange={(v) => {
+                  setMode(v as Mode);
+                  if (v === "flex" && !supportsFlex(model)) setModel("gpt-5-mini");
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="batch">Batch API (hasta 24 h)</SelectItem>
+                  <SelectItem value="flex">Flex (ahora, más lento)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={skipFilled}
+              onCheckedChange={(checked) => setSkipFilled(checked === true)}
+            />
+            Omitir filas que ya tienen valor en la columna destino
+          </label>
+
+          {estimate && cost && isEstimateCurrent && (
+            <div className="rounded-lg border p-3 space-y-2 text-sm">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="font-medium">
+                  {estimate.rowCount} filas en {estimate.sheetName}
+                </span>
+                <Badge variant="outline" className="text-[10px]">
+                  ~{(cost.inputTokens + cost.outputTokens).toLocaleString()} tokens
+                </Badge>
+              </div>
+              <p className="text-muted-foreground">
+                Costo estimado:{" "}
+                <span className="text-foreground font-medium">
+                  {formatCost(mode === "batch" ? cost.batchCost : cost.flexCost)}
+                </span>{" "}
+                (en lugar de {formatCost(cost.standardCost)} sin descuento)
+              </p>
+              {mode === "flex" && (
+                <p className="text-xs text-muted-foreground">
+                  Si flex no tiene capacidad, esas filas se procesan en el nivel
+                  estándar y se cobran a precio normal.
+                </p>
+              )}
+              <div className="text-xs text-muted-foreground space-y-0.5">
+                {estimate.sample.map((row) => (
+                  <p key={row.row} className="truncate">
+                    Fila {row.row + 1}: {row.text}
+                  </p>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {jobs.length > 0 && (
+            <div className="space-y-1.5">
+              <Label>Trabajos de este libro</Label>
+              <div className="border rounded-lg divide-y text-xs">
+                {jobs.map((job) => {
+                  const isActive = ACTIVE_STATUSES.includes(job.status);
+                  return (
+                    <div key={job.id} className="flex items-center gap-2 px-3 py-1.5">
+                      <Badge variant="outline" className="text-[10px]">
+                        {STATUS_LABELS[job.status] ?? job.status}
+                      </Badge>
+                      <span className="truncate flex-1" title={job.metadata.prompt}>
+                        {job.metadata.prompt}
+                      </span>
+                      <span className="text-muted-foreground flex-shrink-0">
+                        {job.status === "processed"
+                          ? `${job.metadata.written ?? 0}/${job.requestCount} filas`
+                          : `${job.completedCount}/${job.requestCount}`}
+                      </span>
+                      {!!job.metadata.standardTierRows && (
+                        <span
+                          className="text-amber-600 dark:text-amber-400 flex-shrink-0"
+                          title="Flex sin capacidad: filas cobradas a precio estándar"
+                        >
+                          {job.metadata.standardTierRows} a precio estándar
+                        </span>
+                      )}
+                      {job.metadata.error && (
+                        <span
+                          className="text-red-600 dark:text-red-400 truncate max-w-[160px]"
+                          title={job.metadata.error}
+                        >
+                          {job.metadata.error}
+                        </span>
+                      )}
+                      {isActive && job.status !== "cancelling" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          title="Cancelar"
+                          onClick={() => cancelMutation.mutate({ jobId: job.id })}
+                        >
+                          <IconX size={14} />
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cerrar
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleEstimate}
+            disabled={!current || isEstimating}
+          >
+            {isEstimating ? (
+              <IconLoader2 size={16} className="mr-2 animate-spin" />
+            ) : (
+              <IconCalculator size={16} className="mr-2" />
+            )}
+            Calcular costo
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!isEstimateCurrent || !estimate || submitMutation.isPending}
+          >
+            {submitMutation.isPending && (
+              <IconLoader2 size={16} className="mr-2 animate-spin" />
+            )}
+            Enviar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
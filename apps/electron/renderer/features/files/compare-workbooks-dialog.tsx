@@ -0,0 +1,387 @@
+/**
+ * CompareWorkbooksDialog - Compare the open spreadsheet with another workbook
+ * (e.g. last month's export), aligning rows by a key column instead of position.
+ * The differences can be written to a new sheet highlighted with highlightChanges.
+ */
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { IconLoader2, IconTablePlus } from "@tabler/icons-react";
+import { getSheetsInstance } from "@/features/univer/univer-sheets-core";
+import { highlightChanges } from "@/utils/univer-highlight";
+import type { CellChange } from "@/utils/univer-diff";
+import type { UserFile } from "@/lib/atoms/user-files";
+
+// Rows shown per sheet; the highlighted sheet has all of them
+const PREVIEW_ROW_LIMIT = 100;
+
+interface CompareWorkbooksDialogProps {
+  file: UserFile | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface CompareParams {
+  otherFileId: string;
+  keyColumn: string;
+  headerRow: number;
+}
+
+/**
+ * Add the comparison as a new sheet of the open workbook and color its cells
+ */
+function insertHighlightedSheet(
+  name: string,
+  table: {
+    rows: unknown[][];
+    marks: Array<{ row: number; col: number; type: CellChange["type"] }>;
+  },
+): boolean {
+  const workbook = getSheetsInstance()?.api.getActiveWorkbook();
+  if (!workbook || table.rows.length === 0) return false;
+
+  const existing = new Set(
+    workbook.getSheets().map((sheet) => sheet.getSheetName().toLowerCase()),
+  );
+  let sheetName = name;
+  for (let n = 2; existing.has(sheetName.toLowerCase()); n++) {
+    sheetName = `${name} ${n}`;
+  }
+
+  const columnCount = table.rows[0].length;
+  const sheet = workbook.create(
+    sheetName,
+    Math.max(100, table.rows.length + 10),
+    Math.max(26, columnCount + 2),
+  );
+  const values = table.rows.map((row) =>
+    row.map((value) =>
+      value === null || value === undefined ? "" : (value as string | number),
+    ),
+  );
+  sheet.getRange(0, 0, values.length, columnCount).setValues(values);
+  sheet.getRange(0, 0, 1, columnCount).setFontWeight("bold");
+
+  const sheetId = sheet.getSheetId();
+  const cellChanges: CellChange[] = table.marks.map((mark) => ({
+    row: mark.row,
+    col: mark.col,
+    sheetId,
+    type: mark.type,
+    changeFlags: { valueChanged: true, formulaChanged: false, styleChanged: false },
+  }));
+  // fadeAfter 0 keeps the colors in the sheet
+  highlightChanges(
+    {
+      addedSheets: [],
+      deletedSheets: [],
+      modifiedSheets: [
+        { sheetId, sheetName, type: "added", cellChanges },
+      ],
+      totalChanges: cellChanges.length,
+    },
+    { fadeAfter: 0 },
+  );
+  return true;
+}
+
+export function CompareWorkbooksDialog({
+  file,
+  open,
+  onOpenChange,
+}: CompareWorkbooksDialogProps) {
+  const [otherFileId, setOtherFileId] = useState<string | null>(null);
+  const [keyColumn, setKeyColumn] = useState("");
+  const [headerRow, setHeaderRow] = useState("1");
+  const [params, setParams] = useState<CompareParams | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setOtherFileId(null);
+      setKeyColumn("");
+      setHeaderRow("1");
+      setParams(null);
+    }
+  }, [open]);
+
+  const { data: files = [] } = trpc.userFiles.list.useQuery(
+    { type: "excel", limit: 100 },
+    { enabled: open },
+  );
+  const otherFiles = files.filter((f) => f.id !== file?.id);
+
+  const {
+    data: result,
+    isFetching,
+    error,
+  } = trpc.userFiles.compareWithFile.useQuery(
+    {
+      fileId: file?.id ?? "",
+      otherFileId: params?.otherFileId ?? "",
+      keyColumn: params?.keyColumn ?? "",
+      headerRow: params?.headerRow ?? 1,
+    },
+    { enabled: open && !!file && !!params, retry: false },
+  );
+
+  useEffect(() => {
+    if (error) toast.error(error.message);
+  }, [error]);
+
+  const handleCompare = () => {
+    if (!otherFileId || !keyColumn.trim()) return;
+    setParams({
+      otherFileId,
+      keyColumn: keyColumn.trim(),
+      headerRow: Math.max(0, Number.parseInt(headerRow, 10) || 0),
+    });
+  };
+
+  const handleWriteSheet = () => {
+    if (!result) return;
+    const written = insertHighlightedSheet(
+      `Comparación ${result.otherFileName}`.slice(0, 31),
+      result.table,
+    );
+    if (written) {
+      toast.success("Hoja de comparación creada");
+      onOpenChange(false);
+    } else {
+      toast.error("Abre el libro para crear la hoja de comparación");
+    }
+  };
+
+  const comparison = result?.comparison;
+  const hasDifferences = (result?.table.rows.length ?? 0) > 1;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Comparar con otro libro</DialogTitle>
+          <DialogDescription>
+            Las hojas se emparejan por nombre y las filas por una columna
+            clave, así que reordenar filas no cuenta como cambio.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2 max-h-[60vh] overflow-y-auto">
+          <div className="grid grid-cols-[1fr_160px_100px] gap-3">
+            <div className="space-y-1.5">
+              <Label>Libro anterior</Label>
+              <Select
+                value={otherFileId ?? undefined}
+                onValueChange={setOtherFileId}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Elige un libro" />
+                </SelectTrigger>
+                <SelectContent>
+                  {otherFiles.map((f) => (
+                    <SelectItem key={f.id} value={f.id}>
+                      {f.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="compare-key-column">Columna clave</Label>
+              <Input
+                id="compare-key-column"
+                value={keyColumn}
+                onChange={(e) => setKeyColumn(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleCompare()}
+                placeholder="ID o A"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="compare-header-row">Fila encabezado</Label>
+              <Input
+                id="compare-header-row"
+                type="number"
+                min={0}
+                value={headerRow}
+                onChange={(e) => setHeaderRow(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {comparison && (
+            <div className="space-y-4">
+              {comparison.sheets.map((sheet) => {
+                const rows = [
+                  ...sheet.added.map((row) => ({
+                    status: "Agregada",
+                    key: row.key,
+                    details: "",
+                    className: "bg-green-500/5",
+                  })),
+                  ...sheet.removed.map((row) => ({
+                    status: "Eliminada",
+                    key: row.key,
+                    details: "",
+                    className: "bg-red-500/5",
+                  })),
+                  ...sheet.changed.map((row) => ({
+                    status: "Modificada",
+                    key: row.key,
+                    details: row.changes
+                      .map(
+                        (change) =>
+                          `${change.column}: ${String(change.before ?? "")} → ${String(change.after ?? "")}`,
+                      )
+                      .join("; "),
+                    className: "bg-blue-500/5",
+                  })),
+                ];
+                return (
+                  <div key={sheet.sheetName} className="space-y-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-medium">
+                        {sheet.sheetName}
+                      </span>
+                      <Badge
+                        variant="outline"
+                        className="text-[10px] bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20"
+                      >
+                        +{sheet.added.length}
+                      </Badge>
+                      <Badge
+                        variant="outline"
+                        className="text-[10px] bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20"
+                      >
+                        -{sheet.removed.length}
+                      </Badge>
+                      <Badge
+                        variant="outline"
+                        className="text-[10px] bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20"
+                      >
+                        ~{sheet.changed.length}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {sheet.unchanged} sin cambios · clave: {sheet.keyColumn}
+                      </span>
+                    </div>
+                    {sheet.duplicateKeys.length > 0 && (
+                      <p className="text-xs text-amber-600 dark:text-amber-400">
+                        Claves repetidas (solo se compara la primera fila):{" "}
+                        {sheet.duplicateKeys.slice(0, 10).join(", ")}
+                      </p>
+                    )}
+                    {rows.length > 0 && (
+                      <div className="border rounded-lg overflow-hidden">
+                        <table className="w-full text-xs">
+                          <thead className="bg-muted/50">
+                            <tr>
+                              <th className="px-3 py-1.5 text-left font-medium text-muted-foreground w-24">
+                                Estado
+                              </th>
+                              <th className="px-3 py-1.5 text-left font-medium text-muted-foreground w-32">
+                                {sheet.keyColumn}
+                              </th>
+                              <th className="px-3 py-1.5 text-left font-medium text-muted-foreground">
+                                Cambios
+                              </th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y">
+                            {rows.slice(0, PREVIEW_ROW_LIMIT).map((row) => (
+                              <tr
+                                key={`${row.status}-${row.key}`}
+                                className={row.className}
+                              >
+                                <td className="px-3 py-1.5">{row.status}</td>
+                                <td className="px-3 py-1.5 font-mono">
+                                  {row.key}
+                                </td>
+                                <td className="px-3 py-1.5 text-muted-foreground">
+                                  {row.details}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        {rows.length > PREVIEW_ROW_LIMIT && (
+                          <p className="px-3 py-1.5 text-xs text-muted-foreground border-t">
+                            {rows.length - PREVIEW_ROW_LIMIT} filas más en la
+                            hoja de comparación
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              {(comparison.onlyInAfter.length > 0 ||
+                comparison.onlyInBefore.length > 0 ||
+                comparison.skipped.length > 0) && (
+                <div className="text-xs text-muted-foreground space-y-0.5">
+                  {comparison.onlyInAfter.length > 0 && (
+                    <p>Solo en este libro: {comparison.onlyInAfter.join(", ")}</p>
+                  )}
+                  {comparison.onlyInBefore.length > 0 && (
+                    <p>
+                      Solo en {result?.otherFileName}:{" "}
+                      {comparison.onlyInBefore.join(", ")}
+                    </p>
+                  )}
+                  {comparison.skipped.map((skipped) => (
+                    <p key={skipped.sheetName}>
+                      {skipped.sheetName}: no tiene la columna clave
+                    </p>
+                  ))}
+                </div>
+              )}
+              {!hasDifferences && comparison.sheets.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  No hay diferencias en las hojas comparadas
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cerrar
+          </Button>
+          {hasDifferences && (
+            <Button variant="outline" onClick={handleWriteSheet}>
+              <IconTablePlus size={16} className="mr-2" />
+              Crear hoja resaltada
+            </Button>
+          )}
+          <Button
+            onClick={handleCompare}
+            disabled={!otherFileId || !keyColumn.trim() || isFetching}
+          >
+            {isFetching && (
+              <IconLoader2 size={16} className="mr-2 animate-spin" />
+            )}
+            Comparar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * ExportDocumentDialog - Export the open document as DOCX, PDF, Markdown or
+ * HTML. Headings, lists, tables, links, code blocks and quotes are kept.
+ */
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import {
+  IconFileTypeDocx,
+  IconFileTypeHtml,
+  IconFileTypePdf,
+  IconLoader2,
+  IconMarkdown,
+} from "@tabler/icons-react";
+import {
+  DOCUMENT_EXPORT_FORMATS,
+  DocumentExportService,
+  type DocumentExportFormat,
+} from "@/features/univer/services/document-export-service";
+import type { UserFile } from "@/lib/atoms/user-files";
+
+const FORMAT_OPTIONS: Array<{
+  format: DocumentExportFormat;
+  icon: typeof IconFileTypeDocx;
+  description: string;
+}> = [
+  { format: "docx", icon: IconFileTypeDocx, description: "Editable en Word y Google Docs" },
+  { format: "pdf", icon: IconFileTypePdf, description: "Paginado, listo para compartir o imprimir" },
+  { format: "markdown", icon: IconMarkdown, description: "Texto plano con formato ligero" },
+  { format: "html", icon: IconFileTypeHtml, description: "Página web independiente" },
+];
+
+interface ExportDocumentDialogProps {
+  file: UserFile | null;
+  /** Current editor snapshot of the document */
+  getContent: () => any;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ExportDocumentDialog({
+  file,
+  getContent,
+  open,
+  onOpenChange,
+}: ExportDocumentDialogProps) {
+  const [format, setFormat] = useState<DocumentExportFormat>("docx");
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    const snapshot = getContent() ?? file?.univer_data;
+    if (!snapshot) {
+      toast.error("No hay contenido para exportar");
+      return;
+    }
+
+    setIsExporting(true);
+    const result = await DocumentExportService.save(snapshot, format, {
+      title: file?.name,
+    });
+    setIsExporting(false);
+
+    if (result.success) {
+      toast.success("Documento exportado");
+      onOpenChange(false);
+    } else if (!result.canceled) {
+      toast.error(result.error || "No se pudo exportar el documento");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Exportar documento</DialogTitle>
+          <DialogDescription>
+            Se conservan títulos, listas, tablas, enlaces, bloques de código y
+            citas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2 py-2">
+          {FORMAT_OPTIONS.map(({ format: option, icon: Icon, description }) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setFormat(option)}
+              className={cn(
+                "flex flex-col items-start gap-1 rounded-md border p-3 text-left transition-colors",
+                format === option
+                  ? "border-primary bg-primary/5"
+                  : "border-border hover:bg-accent/50",
+              )}
+            >
+              <span className="flex items-center gap-2 text-sm font-medium">
+                <Icon size={16} />
+                {DOCUMENT_EXPORT_FORMATS[option].label}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {description}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting && <IconLoader2 size={16} className="mr-2 animate-spin" />}
+            Exportar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
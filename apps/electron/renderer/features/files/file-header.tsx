@@ -17,6 +17,9 @@ import {
     IconTrash,
     IconDownload,
     IconCopy,
+    IconTemplate,
+    IconArrowsDiff,
+    IconListDetails,
 } from "@tabler/icons-react";
 import { Button } from "@/components/ui/button";
 import { ExcelIcon, DocIcon, PdfIcon } from "@/features/agent/icons";
@@ -49,6 +52,9 @@ interface FileHeaderProps {
     onOpenHistory?: () => void;
     onExport?: () => void;
     onDuplicate?: () => void;
+    onSaveAsTemplate?: () => void;
+    onCompare?: () => void;
+    onApplyPromptToRows?: () => void;
     onSave?: () => void; // Manual save handler
     storageKind?: "cloud" | "local";
     storageLabel?: string;
@@ -65,6 +71,9 @@ export function FileHeader({
     onOpenHistory,
     onExport,
     onDuplicate,
+    onSaveAsTemplate,
+    onCompare,
+    onApplyPromptToRows,
     onSave,
     storageKind = "cloud",
     storageLabel,
@@ -360,6 +369,24 @@ export function FileHeader({
                                 Duplicar
                             </DropdownMenuItem>
                         )}
+                        {onSaveAsTemplate && (
+                            <DropdownMenuItem onClick={onSaveAsTemplate}>
+                                <IconTemplate size={16} className="mr-2" />
+                                Guardar como plantilla
+                            </DropdownMenuItem>
+                        )}
+                        {onCompare && (
+                            <DropdownMenuItem onClick={onCompare}>
+                                <IconArrowsDiff size={16} className="mr-2" />
+                                Comparar con otro libro
+                            </DropdownMenuItem>
+                        )}
+                        {onApplyPromptToRows && (
+                            <DropdownMenuItem onClick={onApplyPromptToRows}>
+                                <IconListDetails size={16} className="mr-2" />
+                                Aplicar prompt a cada fila
+                            </DropdownMenuItem>
+                        )}
                         {onExport && (
                             <DropdownMenuItem onClick={onExport}>
                                 <IconDownload size={16} className="mr-2" />
@@ -4,7 +4,7 @@
  *
  * Features:
  * - List files by type (excel/doc)
- * - Create new files
+ * - Create new files (blank or from a template)
  * - Save scratch content as new file
  * - Pin/archive/delete files
  * - Search functionality
@@ -28,6 +28,7 @@ import {
   IconDeviceFloppy,
   IconArchiveOff,
   IconUpload,
+  IconTemplate,
 } from "@tabler/icons-react";
 import {
   currentExcelFileIdAtom,
@@ -69,6 +70,7 @@ import { importFromExcel } from "@/features/univer/excel-exchange";
 import { formatTimeAgo, formatDateWithTime } from "@/utils/time-format";
 import { FontWarningDialog } from "@/components/font-warning-dialog";
 import { ExcelIcon, DocIcon, PdfIcon } from "@/features/agent/icons";
+import { TemplateGalleryDialog } from "./template-gallery-dialog";
 
 // ============================================================================
 // FadeScrollArea
@@ -402,6 +404,7 @@ export function FilesSidebar({ type, onToggle }: FilesSidebarProps) {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [fileToDelete, setFileToDelete] = useState<string | null>(null);
   const [saveAsDialogOpen, setSaveAsDialogOpen] = useState(false);
+  const [templateGalleryOpen, setTemplateGalleryOpen] = useState(false);
   const [newFileName, setNewFileName] = useState(
     type === "excel" ? "Nuevo archivo" : "Nuevo documento",
   );
@@ -551,6 +554,16 @@ export function FilesSidebar({ type, onToggle }: FilesSidebarProps) {
     });
   }, [createFileMutation, type]);
 
+  const handleCreatedFromTemplate = useCallback(
+    (file: UserFile) => {
+      setCurrentFileId(file.id);
+      setCurrentFile(file);
+      utils.userFiles.list.invalidate();
+      toast.success(type === "excel" ? "Archivo creado" : "Documento creado");
+    },
+    [setCurrentFileId, setCurrentFile, utils, type],
+  );
+
   const handleSaveScratchAsNew = useCallback(() => {
     setSaveAsDialogOpen(true);
   }, []);
@@ -714,20 +727,37 @@ export function FilesSidebar({ type, onToggle }: FilesSidebarProps) {
                 <TooltipContent>Importar Excel (.xlsx)</TooltipContent>
               </Tooltip>
             )}
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-7 w-7"
-                  onClick={handleCreateFile}
-                  disabled={createFileMutation.isPending}
-                >
-                  <IconPlus size={16} />
-                </Button>
-              </TooltipTrigger>
-              <TooltipContent>Nuevo</TooltipContent>
-            </Tooltip>
+            <DropdownMenu>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={createFileMutation.isPending}
+                    >
+                      <IconPlus size={16} />
+                    </Button>
+                  </DropdownMenuTrigger>
+                </TooltipTrigger>
+                <TooltipContent>Nuevo</TooltipContent>
+              </Tooltip>
+              <DropdownMenuContent align="end" className="w-48">
+                <DropdownMenuItem onClick={handleCreateFile}>
+                  {type === "excel" ? (
+                    <IconTable size={16} className="mr-2" />
+                  ) : (
+                    <IconFileText size={16} className="mr-2" />
+                  )}
+                  En blanco
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setTemplateGalleryOpen(true)}>
+                  <IconTemplate size={16} className="mr-2" />
+                  Desde plantilla...
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button
@@ -849,6 +879,13 @@ export function FilesSidebar({ type, onToggle }: FilesSidebarProps) {
                 >
                   Crear nuevo
                 </button>
+                <button
+                  type="button"
+                  onClick={() => setTemplateGalleryOpen(true)}
+                  className="block mx-auto text-xs text-muted-foreground hover:text-foreground hover:underline mt-1"
+                >
+                  Usar una plantilla
+                </button>
               </div>
             )}
 
@@ -915,6 +952,15 @@ export function FilesSidebar({ type, onToggle }: FilesSidebarProps) {
         </DialogContent>
       </Dialog>
 
+      {type !== "note" && (
+        <TemplateGalleryDialog
+          type={type}
+          open={templateGalleryOpen}
+          onOpenChange={setTemplateGalleryOpen}
+          onCreated={handleCreatedFromTemplate}
+        />
+      )}
+
       <FontWarningDialog
         open={showFontDialog}
         onOpenChange={setShowFontDialog}
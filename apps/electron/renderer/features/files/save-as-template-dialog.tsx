@@ -0,0 +1,134 @@
+/**
+ * SaveAsTemplateDialog - Save the current spreadsheet or document as a reusable template
+ * Text like {{departamento}} becomes a field that is filled when the template is used
+ */
+import { useEffect, useState } from "react";
+import { useAtomValue } from "jotai";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { fileSnapshotCacheAtom, type UserFile } from "@/lib/atoms/user-files";
+
+interface SaveAsTemplateDialogProps {
+  file: UserFile | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SaveAsTemplateDialog({
+  file,
+  open,
+  onOpenChange,
+}: SaveAsTemplateDialogProps) {
+  const snapshotCache = useAtomValue(fileSnapshotCacheAtom);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [tags, setTags] = useState("");
+
+  const utils = trpc.useUtils();
+
+  useEffect(() => {
+    if (open && file) {
+      setName(file.name);
+      setDescription(file.description ?? "");
+      setTags("");
+    }
+  }, [open, file]);
+
+  const saveMutation = trpc.templates.saveFromFile.useMutation({
+    onSuccess: (template) => {
+      utils.templates.list.invalidate();
+      const fields = template.placeholders?.length ?? 0;
+      toast.success(
+        fields > 0
+          ? `Plantilla guardada con ${fields} campo(s)`
+          : "Plantilla guardada",
+      );
+      onOpenChange(false);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handleSave = () => {
+    if (!file || !name.trim()) return;
+    saveMutation.mutate({
+      fileId: file.id,
+      name: name.trim(),
+      description: description.trim() || undefined,
+      tags: tags
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+      // Include edits that have not been persisted yet
+      univerData: snapshotCache[file.id]?.univerData,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Guardar como plantilla</DialogTitle>
+          <DialogDescription>
+            Escribe {"{{nombre}}"} en celdas o texto para crear campos que se
+            rellenan al usar la plantilla. {"{{month_name}}"} y {"{{year}}"} se
+            completan solos.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 py-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="template-name">Nombre</Label>
+            <Input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Presupuesto mensual"
+              autoFocus
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="template-description">Descripción</Label>
+            <Textarea
+              id="template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Para qué sirve esta plantilla"
+              rows={2}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="template-tags">Etiquetas</Label>
+            <Input
+              id="template-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="finanzas, mensual"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!name.trim() || saveMutation.isPending}
+          >
+            Guardar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
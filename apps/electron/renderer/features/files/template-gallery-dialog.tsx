@@ -0,0 +1,242 @@
+/**
+ * TemplateGalleryDialog - Create a spreadsheet or document from a saved template
+ * Lists the templates for the current file type and asks for their {{placeholders}}
+ */
+import { useEffect, useMemo, useState } from "react";
+import { IconTemplate, IconTrash } from "@tabler/icons-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import type { UserFile, UserFileType } from "@/lib/atoms/user-files";
+import { formatTimeAgo } from "@/utils/time-format";
+
+// Filled automatically when the template is instantiated (see template-placeholders.ts)
+const BUILTIN_PLACEHOLDERS = new Set(["date", "year", "month", "month_name"]);
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+interface TemplateGalleryDialogProps {
+  type: UserFileType;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (file: UserFile) => void;
+}
+
+export function TemplateGalleryDialog({
+  type,
+  open,
+  onOpenChange,
+  onCreated,
+}: TemplateGalleryDialogProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const utils = trpc.useUtils();
+  const { data: allTemplates = [], isLoading } = trpc.templates.list.useQuery(
+    { type: type === "excel" ? "spreadsheet" : "document" },
+    { enabled: open },
+  );
+
+  // Imported .xlsx templates cannot be opened as files
+  const templates = useMemo(
+    () => allTemplates.filter((template) => template.ext === "json"),
+    [allTemplates],
+  );
+  const selected = templates.find((template) => template.id === selectedId);
+  const fields = (selected?.placeholders ?? []).filter(
+    (key) => !BUILTIN_PLACEHOLDERS.has(key),
+  );
+
+  useEffect(() => {
+    if (!open) {
+      setSelectedId(null);
+      setValues({});
+    }
+  }, [open]);
+
+  useEffect(() => {
+    setName(selected?.name ?? "");
+    setValues({});
+  }, [selected?.id, selected?.name]);
+
+  const instantiateMutation = trpc.templates.instantiate.useMutation({
+    onSuccess: ({ file, missing }) => {
+      onCreated(file as UserFile);
+      if (missing.length > 0) {
+        toast.info(`Campos sin rellenar: ${missing.join(", ")}`);
+      }
+      onOpenChange(false);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteMutation = trpc.templates.delete.useMutation({
+    onSuccess: () => {
+      utils.templates.list.invalidate();
+      toast.success("Plantilla eliminada");
+    },
+  });
+
+  const handleCreate = () => {
+    if (!selected) return;
+    const filled: Record<string, string | number> = {};
+    for (const [key, value] of Object.entries(values)) {
+      const trimmed = value.trim();
+      if (!trimmed) continue;
+      filled[key] = NUMBER_PATTERN.test(trimmed) ? Number(trimmed) : trimmed;
+    }
+    instantiateMutation.mutate({
+      id: selected.id,
+      name: name.trim() || undefined,
+      values: filled,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Nuevo desde plantilla</DialogTitle>
+          <DialogDescription>
+            Elige una plantilla y completa sus campos.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 py-2 min-h-[240px]">
+          <div className="space-y-1 max-h-[320px] overflow-y-auto pr-1">
+            {isLoading && (
+              <div className="px-2 py-4 text-center text-sm text-muted-foreground">
+                Cargando...
+              </div>
+            )}
+            {!isLoading && templates.length === 0 && (
+              <div className="px-2 py-6 text-center text-sm text-muted-foreground">
+                <IconTemplate size={24} className="mx-auto mb-2 opacity-50" />
+                <p>No hay plantillas</p>
+                <p className="text-xs mt-1">
+                  Usa "Guardar como plantilla" en el menú de un archivo.
+                </p>
+              </div>
+            )}
+            {templates.map((template) => (
+              <div
+                key={template.id}
+                role="button"
+                tabIndex={0}
+                onClick={() => setSelectedId(template.id)}
+                onKeyDown={(e) => e.key === "Enter" && setSelectedId(template.id)}
+                className={cn(
+                  "group w-full text-left rounded-md px-2.5 py-2 cursor-pointer transition-colors",
+                  selectedId === template.id
+                    ? "bg-accent"
+                    : "hover:bg-accent/50",
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium truncate">
+                    {template.name}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      if (selectedId === template.id) setSelectedId(null);
+                      deleteMutation.mutate({ id: template.id });
+                    }}
+                    className="opacity-0 group-hover:opacity-60 hover:!opacity-100 text-destructive"
+                  >
+                    <IconTrash size={14} />
+                  </button>
+                </div>
+                {template.description && (
+                  <p className="text-xs text-muted-foreground line-clamp-2">
+                    {template.description}
+                  </p>
+                )}
+                <div className="flex flex-wrap items-center gap-1 mt-1">
+                  {template.tags.map((tag) => (
+                    <Badge
+                      key={tag}
+                      variant="secondary"
+                      className="text-[10px] px-1.5 py-0"
+                    >
+                      {tag}
+                    </Badge>
+                  ))}
+                  <span className="text-[10px] text-muted-foreground/60">
+                    {formatTimeAgo(template.updatedAt)}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="border-l border-border/50 pl-4 space-y-3">
+            {selected ? (
+              <>
+                <div className="space-y-1.5">
+                  <Label htmlFor="template-file-name">Nombre del archivo</Label>
+                  <Input
+                    id="template-file-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+                {fields.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    Esta plantilla no tiene campos para rellenar.
+                  </p>
+                ) : (
+                  fields.map((key) => (
+                    <div key={key} className="space-y-1.5">
+                      <Label htmlFor={`template-field-${key}`}>{key}</Label>
+                      <Input
+                        id={`template-field-${key}`}
+                        value={values[key] ?? ""}
+                        onChange={(e) =>
+                          setValues((prev) => ({
+                            ...prev,
+                            [key]: e.target.value,
+                          }))
+                        }
+                      />
+                    </div>
+                  ))
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground pt-2">
+                Selecciona una plantilla
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={!selected || instantiateMutation.isPending}
+          >
+            Crear
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
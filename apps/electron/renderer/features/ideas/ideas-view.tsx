@@ -57,6 +57,7 @@ import {
 import { useAtom, useAtomValue, useSetAtom } from "jotai";
 import { trpc } from "@/lib/trpc";
 import { getCustomAIMenuItems } from "./custom-ai-menu";
+import { NotesProofreading } from "./notes-proofreading";
 import { getPageById, savePage } from "@/lib/notes-storage";
 import { updateTabPage } from "@/lib/notes-tabs";
 import { Button } from "@/components/ui/button";
@@ -269,6 +270,7 @@ const IdeasEditor = ({
         <FormattingToolbarWithAI />
         <SuggestionMenuWithAI editor={editor} />
       </BlockNoteView>
+      <NotesProofreading editor={editor} />
     </div>
   );
 };
@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useState } from "react";
+import { BlockNoteEditor } from "@blocknote/core";
+import { useAtomValue } from "jotai";
+import { toast } from "sonner";
+import type { ProofreadingSuggestion } from "@s-agi/core/utils/proofreading";
+import { useProofreading } from "@/hooks/use-proofreading";
+import { proofreadingEnabledAtom } from "@/lib/atoms";
+import {
+  ProofreadingLayer,
+  type ProofreadingRect,
+} from "@/features/proofreading/proofreading-layer";
+
+interface TextSegment {
+  /** Offset of the text node in the plain text */
+  offset: number;
+  /** ProseMirror position of its first character */
+  pos: number;
+  length: number;
+}
+
+interface EditorText {
+  text: string;
+  segments: TextSegment[];
+}
+
+/**
+ * Plain text of the note, one line per text block, with the ProseMirror
+ * position of every text node so suggestion offsets can be mapped back.
+ */
+function readEditorText(editor: BlockNoteEditor<any, any, any>): EditorText {
+  let text = "";
+  const segments: TextSegment[] = [];
+  editor.prosemirrorState.doc.descendants((node, pos) => {
+    if (node.isTextblock) {
+      if (text) text += "\n";
+      return true;
+    }
+    if (node.isText) {
+      const value = node.text ?? "";
+      segments.push({ offset: text.length, pos, length: value.length });
+      text += value;
+      return false;
+    }
+    // Hard breaks and other inline nodes separate words
+    if (node.isInline) text += " ";
+    return true;
+  });
+  return { text, segments };
+}
+
+function toPosition(segments: TextSegment[], offset: number): number | null {
+  const segment = segments.find(
+    (s) => offset >= s.offset && offset <= s.offset + s.length,
+  );
+  return segment ? segment.pos + (offset - segment.offset) : null;
+}
+
+/** Proofreading for the notes editor, drawn over BlockNote's own DOM */
+export function NotesProofreading({
+  editor,
+}: {
+  editor: BlockNoteEditor<any, any, any>;
+}) {
+  const enabled = useAtomValue(proofreadingEnabledAtom);
+  const [editorText, setEditorText] = useState<EditorText>(() =>
+    readEditorText(editor),
+  );
+  const [layoutVersion, setLayoutVersion] = useState(0);
+  const [container, setContainer] = useState<HTMLElement | null>(null);
+  const proofreading = useProofreading(editorText.text, { enabled });
+
+  useEffect(() => {
+    let active = true;
+    setContainer(editor.domElement ?? null);
+    // The view may mount after this effect runs
+    editor.onMount(() => {
+      if (active) setContainer(editor.domElement ?? null);
+    });
+
+    setEditorText(readEditorText(editor));
+    const unsubscribe = editor.onChange(() => {
+      setEditorText(readEditorText(editor));
+      setLayoutVersion((v) => v + 1);
+    });
+    // Capture phase sees the scroll area around the editor as well
+    const relayout = () => setLayoutVersion((v) => v + 1);
+    window.addEventListener("scroll", relayout, true);
+    window.addEventListener("resize", relayout);
+    return () => {
+      active = false;
+      unsubscribe();
+      window.removeEventListener("scroll", relayout, true);
+      window.removeEventListener("resize", relayout);
+    };
+  }, [editor]);
+
+  const getRects = useCallback(
+    (suggestion: ProofreadingSuggestion): ProofreadingRect[] => {
+      const from = toPosition(editorText.segments, suggestion.start);
+      const to = toPosition(editorText.segments, suggestion.end);
+      if (from === null || to === null) return [];
+
+      const view = editor.prosemirrorView;
+      const start = view.domAtPos(from);
+      const end = view.domAtPos(to);
+      const range = document.createRange();
+      range.setStart(start.node, start.offset);
+      range.setEnd(end.node, end.offset);
+
+      // Lines scrolled out of the notes area stay hidden
+      const viewport = view.dom
+        .closest("[data-radix-scroll-area-viewport]")
+        ?.getBoundingClientRect();
+      return Array.from(range.getClientRects()).filter(
+        (rect) =>
+          rect.width > 0 &&
+          (!viewport ||
+            (rect.bottom > viewport.top && rect.top < viewport.bottom)),
+      );
+    },
+    [editor, editorText],
+  );
+
+  const handleAccept = useCallback(
+    (suggestion: ProofreadingSuggestion, replacement: string) => {
+      const current = readEditorText(editor);
+      const from = toPosition(current.segments, suggestion.start);
+      const to = toPosition(current.segments, suggestion.end);
+      if (
+        from === null ||
+        to === null ||
+        current.text.slice(suggestion.start, suggestion.end) !==
+          suggestion.original
+      ) {
+        toast.error("El texto cambió; vuelve a intentarlo");
+        return;
+      }
+      editor.transact((tr) => tr.insertText(replacement, from, to));
+    },
+    [editor],
+  );
+
+  return (
+    <ProofreadingLayer
+      container={container}
+      suggestions={proofreading.suggestions}
+      getRects={getRects}
+      layoutVersion={layoutVersion}
+      onAccept={handleAccept}
+      onReject={proofreading.reject}
+      onIgnoreRule={proofreading.ignoreRule}
+      onAddToDictionary={proofreading.addToDictionary}
+      isCheckingWithAI={proofreading.isCheckingWithAI}
+      onCheckWithAI={proofreading.checkWithAI}
+    />
+  );
+}
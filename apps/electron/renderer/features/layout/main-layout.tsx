@@ -47,6 +47,7 @@ import {
   versionHistoryPreviewVersionAtom,
   versionPreviewDataAtom,
   versionPreviewLoadingAtom,
+  type UserFile,
 } from "@/lib/atoms/user-files";
 import { excelSidebarOpenAtom, docSidebarOpenAtom } from "@/lib/atoms";
 import { Sidebar } from "@/features/sidebar/sidebar";
@@ -115,6 +116,26 @@ const FileHeader = lazy(() =>
     default: m.FileHeader,
   })),
 );
+const SaveAsTemplateDialog = lazy(() =>
+  import("@/features/files/save-as-template-dialog").then((m) => ({
+    default: m.SaveAsTemplateDialog,
+  })),
+);
+const CompareWorkbooksDialog = lazy(() =>
+  import("@/features/files/compare-workbooks-dialog").then((m) => ({
+    default: m.CompareWorkbooksDialog,
+  })),
+);
+const ApplyPromptToRowsDialog = lazy(() =>
+  import("@/features/files/apply-prompt-rows-dialog").then((m) => ({
+    default: m.ApplyPromptToRowsDialog,
+  })),
+);
+const ExportDocumentDialog = lazy(() =>
+  import("@/features/files/export-document-dialog").then((m) => ({
+    default: m.ExportDocumentDialog,
+  })),
+);
 const settingsTabs: SettingsTab[] = [
   "account",
   "appearance",
@@ -123,6 +144,7 @@ const settingsTabs: SettingsTab[] = [
   "shortcuts",
   "debug",
   "usage",
+  "backups",
 ];
 
 // Loading fallback for lazy components
@@ -169,6 +191,14 @@ export function MainLayout() {
   const [versionHistoryFileType, setVersionHistoryFileType] = useState<
     "excel" | "doc" | "note"
   >("excel");
+  // Save as template dialog state
+  const [templateSourceFile, setTemplateSourceFile] =
+    useState<UserFile | null>(null);
+  // Compare workbooks dialog state
+  const [compareFile, setCompareFile] = useState<UserFile | null>(null);
+  const [exportDocFile, setExportDocFile] = useState<UserFile | null>(null);
+  // Apply prompt to each row dialog state
+  const [rowPromptFile, setRowPromptFile] = useState<UserFile | null>(null);
   // Version preview from atoms (managed by useFileVersions hook)
   const [previewVersionNumber, setPreviewVersionNumber] = useAtom(versionHistoryPreviewVersionAtom);
   const [previewVersionData, setPreviewVersionData] = useAtom(versionPreviewDataAtom);
@@ -677,6 +707,72 @@ export function MainLayout() {
     };
   }, [setActiveTab, setSelectedArtifact, utils.artifacts.get]);
 
+  // Document export requested by the docs agent (export_document tool)
+  useEffect(() => {
+    const api = window.desktopApi;
+    if (!api?.onArtifactExport) return;
+
+    return api.onArtifactExport(async ({ artifactId, format }) => {
+      try {
+        // Prefer the live editor content when the document is open
+        const openDocId =
+          currentDocFileId ||
+          (selectedArtifact?.type === "document"
+            ? selectedArtifact.id
+            : undefined);
+        let snapshot =
+          artifactId === openDocId
+            ? univerDocumentRef.current?.getContent?.()
+            : null;
+        let title =
+          artifactId === currentDocFileId
+            ? currentDocFile?.name
+            : selectedArtifact?.id === artifactId
+              ? selectedArtifact?.name
+              : undefined;
+
+        if (!snapshot) {
+          const artifact = await utils.artifacts.get
+            .fetch({ id: artifactId })
+            .catch(() => null);
+          const file = artifact
+            ? null
+            : await utils.userFiles.get
+                .fetch({ id: artifactId })
+                .catch(() => null);
+          snapshot = artifact?.univer_data ?? file?.univer_data;
+          title = title ?? artifact?.name ?? file?.name;
+        }
+
+        if (!snapshot) {
+          toast.error("No se encontró el documento a exportar");
+          return;
+        }
+
+        const { DocumentExportService } = await import(
+          "@/features/univer/services/document-export-service"
+        );
+        const result = await DocumentExportService.save(snapshot, format, {
+          title,
+        });
+        if (result.success) {
+          toast.success("Documento exportado");
+        } else if (!result.canceled) {
+          toast.error(result.error || "No se pudo exportar el documento");
+        }
+      } catch (error) {
+        console.error("[MainLayout] Document export failed:", error);
+        toast.error("No se pudo exportar el documento");
+      }
+    });
+  }, [
+    currentDocFileId,
+    currentDocFile,
+    selectedArtifact,
+    utils.artifacts.get,
+    utils.userFiles.get,
+  ]);
+
   // Global Shortcuts - disabled when Univer tabs are active to avoid input conflicts
   const isUniverTabActive = activeTab === "excel" || activeTab === "doc";
 
@@ -1000,6 +1096,9 @@ export function MainLayout() {
                     file={currentExcelFile}
                     onRename={handleRenameExcel}
                     onExport={handleExportExcel}
+                    onSaveAsTemplate={() => setTemplateSourceFile(currentExcelFile)}
+                    onCompare={() => setCompareFile(currentExcelFile)}
+                    onApplyPromptToRows={() => setRowPromptFile(currentExcelFile)}
                     onSave={async () => {
                       if (univerSpreadsheetRef.current?.save) {
                         await univerSpreadsheetRef.current.save();
@@ -1125,6 +1224,8 @@ export function MainLayout() {
                   <FileHeader
                     file={currentDocFile}
                     onRename={handleRenameDoc}
+                    onSaveAsTemplate={() => setTemplateSourceFile(currentDocFile)}
+                    onExport={() => setExportDocFile(currentDocFile)}
                     onSave={async () => {
                       if (univerDocumentRef.current?.save) {
                         await univerDocumentRef.current.save();
@@ -1292,6 +1393,55 @@ export function MainLayout() {
           }}
           onPreviewVersion={handlePreviewVersion}
         />
+
+        {templateSourceFile && (
+          <Suspense fallback={null}>
+            <SaveAsTemplateDialog
+              file={templateSourceFile}
+              open={!!templateSourceFile}
+              onOpenChange={(open) => {
+                if (!open) setTemplateSourceFile(null);
+              }}
+            />
+          </Suspense>
+        )}
+
+        {compareFile && (
+          <Suspense fallback={null}>
+            <CompareWorkbooksDialog
+              file={compareFile}
+              open={!!compareFile}
+              onOpenChange={(open) => {
+                if (!open) setCompareFile(null);
+              }}
+            />
+          </Suspense>
+        )}
+
+        {exportDocFile && (
+          <Suspense fallback={null}>
+            <ExportDocumentDialog
+              file={exportDocFile}
+              getContent={() => univerDocumentRef.current?.getContent?.()}
+              open={!!exportDocFile}
+              onOpenChange={(open) => {
+                if (!open) setExportDocFile(null);
+              }}
+            />
+          </Suspense>
+        )}
+
+        {rowPromptFile && (
+          <Suspense fallback={null}>
+            <ApplyPromptToRowsDialog
+              file={rowPromptFile}
+              open={!!rowPromptFile}
+              onOpenChange={(open) => {
+                if (!open) setRowPromptFile(null);
+              }}
+            />
+          </Suspense>
+        )}
       </div>
     </div>
   );
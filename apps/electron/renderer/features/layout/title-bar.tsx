@@ -51,6 +51,7 @@ import {
   OpenAIIcon,
   ModelIcon,
   ClaudeIcon,
+  CustomEndpointIcon,
 } from "@/components/icons/model-icons";
 import type { AIProvider } from "@s-agi/core/types/ai";
 import {
@@ -173,7 +174,9 @@ export function TitleBar({ className, noTrafficLightSpace }: TitleBarProps) {
           ? keyStatus?.hasZai
           : provider === "claude"
             ? keyStatus?.hasClaudeCode
-            : false;
+            : provider === "custom"
+              ? keyStatus?.hasCustomProvider
+              : false;
 
   const providerIcon = (() => {
     if (!isConnected)
@@ -187,6 +190,8 @@ export function TitleBar({ className, noTrafficLightSpace }: TitleBarProps) {
         return { icon: ZaiIcon, className: "text-amber-500" };
       case "claude":
         return { icon: ClaudeIcon, className: "text-orange-500" };
+      case "custom":
+        return { icon: CustomEndpointIcon, className: "text-sky-500" };
       default:
         return { icon: OpenAIIcon, className: "text-muted-foreground" };
     }
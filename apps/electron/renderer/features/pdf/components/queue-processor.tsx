@@ -4,8 +4,8 @@ import { useEffect, useRef } from "react"
 import { toast } from "sonner"
 import { useMessageQueueStore } from "../stores/message-queue-store"
 import { useStreamingStatusStore } from "../stores/streaming-status-store"
-import type { PdfChatMessage } from "@/lib/atoms"
-import { trpc } from "@/lib/trpc"
+import { fromPersistedItem } from "../lib/queue-utils"
+import { trpc, trpcClient } from "@/lib/trpc"
 
 // Delay between processing queue items (ms)
 const QUEUE_PROCESS_DELAY = 1000
@@ -17,97 +17,110 @@ const QUEUE_PROCESS_DELAY = 1000
  * questions to be queued while AI is still responding to previous ones.
  *
  * Features:
- * - Processes queue items sequentially
- * - Handles errors gracefully with requeue
+ * - Mirrors the queues persisted in main, so questions survive restarts
+ * - Processes queue items sequentially (claimed in main, marked done/failed)
+ * - Saves queued answers to the PDF chat history
  * - Updates streaming status to prevent duplicate processing
  */
 export function PdfQueueProcessor() {
     const processingRef = useRef<Set<string>>(new Set())
     const timersRef = useRef<Map<string, NodeJS.Timeout>>(new Map())
     const queryPdfMutation = trpc.pdf.queryPdf.useMutation()
+    const addMessageMutation = trpc.panelMessages.add.useMutation()
+    const utils = trpc.useUtils()
+
+    // Mirror the persisted queues
+    useEffect(() => {
+        const refresh = async () => {
+            try {
+                const persisted = await trpcClient.messageQueue.listAll.query()
+                useMessageQueueStore.getState().hydrate(persisted)
+            } catch (error) {
+                console.error("[PdfQueueProcessor] Failed to load queue:", error)
+            }
+        }
+
+        refresh()
+
+        const unsubscribe = window.desktopApi?.onMessageQueueChanged?.(
+            (data: { kind: "chat" | "pdf"; targetId: string }) => {
+                if (data.kind === "pdf") refresh()
+            }
+        )
+        return () => unsubscribe?.()
+    }, [])
 
     useEffect(() => {
         // Function to process queue for a specific PDF
         const processQueue = async (pdfId: string) => {
-            // Check if already processing this PDF
             if (processingRef.current.has(pdfId)) {
                 return
             }
 
-            // Check streaming status
             const status = useStreamingStatusStore.getState().getStatus(pdfId)
             if (status !== "ready") {
                 return
             }
 
-            // Get queue for this PDF
-            const queue = useMessageQueueStore.getState().queues[pdfId] || []
-            if (queue.length === 0) {
+            if (!useMessageQueueStore.getState().getNextItem(pdfId)) {
                 return
             }
 
-            // Mark as processing
             processingRef.current.add(pdfId)
 
-            // Pop the first item from queue (atomic operation)
-            const item = useMessageQueueStore.getState().popItem(pdfId, queue[0].id)
-            if (!item) {
-                processingRef.current.delete(pdfId)
-                return
-            }
-
             try {
-                // Set streaming status to processing
+                // Claim the next item in main (marks it running)
+                const claimed = await trpcClient.messageQueue.claim.mutate({ kind: "pdf", targetId: pdfId })
+                if (!claimed) return
+                const item = fromPersistedItem(claimed)
+
                 useStreamingStatusStore.getState().setStatus(pdfId, 'processing')
 
-                // Call AI API for PDF query
-                const result = await queryPdfMutation.mutateAsync({
-                    pdfId: item.pdfId,
-                    sourceType: 'chat_file', // Default to chat_file, can be adjusted
-                    query: item.query,
-                    context: {
-                        currentPage: item.currentPage,
-                        selectedText: item.selectedText?.text,
-                        pageCount: undefined // Would need to fetch this from the PDF source
-                    }
-                })
-
-                // Transform backend citations to CitationData format
-                const citations = result.citations?.map((c: { pageNumber: number; text: string }, idx: number) => ({
-                    id: idx + 1,
-                    filename: 'Unknown', // Would need to fetch from PDF source
-                    pageNumber: c.pageNumber,
-                    text: c.text
-                })) || undefined
-
-                // Add AI response to chat messages
-                // Note: This is a simplified version - in practice you'd need to access
-                // the correct atom for the specific PDF's chat messages
-                const aiMessage: PdfChatMessage = {
-                    id: `msg-${Date.now()}`,
-                    role: 'assistant',
-                    content: result.answer,
-                    createdAt: new Date(),
-                    citations
+                let error: string | undefined
+                try {
+                    const result = await queryPdfMutation.mutateAsync({
+                        pdfId: item.pdfId,
+                        sourceType: 'chat_file', // Default to chat_file, can be adjusted
+                        query: item.query,
+                        context: {
+                            currentPage: item.currentPage,
+                            selectedText: item.selectedText?.text,
+                            pageCount: undefined // Would need to fetch this from the PDF source
+                        }
+                    })
+
+                    const citations = result.citations?.map((c: { pageNumber: number; text: string }, idx: number) => ({
+                        id: idx + 1,
+                        filename: 'Unknown', // Would need to fetch from PDF source
+                        pageNumber: c.pageNumber,
+                        text: c.text
+                    })) || undefined
+
+                    // Save the question and answer so they show up in the panel
+                    await addMessageMutation.mutateAsync({
+                        panelType: 'pdf_chat',
+                        sourceId: pdfId,
+                        role: 'user',
+                        content: item.query
+                    })
+                    await addMessageMutation.mutateAsync({
+                        panelType: 'pdf_chat',
+                        sourceId: pdfId,
+                        role: 'assistant',
+                        content: result.answer,
+                        metadata: citations ? { citations } : undefined
+                    })
+                    await utils.panelMessages.list.invalidate({ panelType: 'pdf_chat', sourceId: pdfId })
+                } catch (queryError) {
+                    console.error(`[PdfQueueProcessor] Error processing queue:`, queryError)
+                    error = queryError instanceof Error ? queryError.message : 'Failed to process queued message'
+                    toast.error('Failed to process queued message. You can retry it from the queue.')
                 }
 
-                // For now, we'll just log since we don't have access to the atom setter here
-                // In a real implementation, you'd pass the atom setter or use a callback
-                console.log('[PdfQueueProcessor] AI response:', aiMessage)
-
+                await trpcClient.messageQueue.finish.mutate({ itemId: item.id, error })
             } catch (error) {
                 console.error(`[PdfQueueProcessor] Error processing queue:`, error)
-
-                // Requeue the item at the front so it can be retried
-                useMessageQueueStore.getState().prependItem(pdfId, item)
-
-                // Set error status (will be cleared on next successful send or manual retry)
-                useStreamingStatusStore.getState().setStatus(pdfId, 'error')
-
-                // Notify user
-                toast.error('Failed to process queued message. It will be retried.')
             } finally {
-                // Reset streaming status
                 useStreamingStatusStore.getState().setStatus(pdfId, 'ready')
                 processingRef.current.delete(pdfId)
             }
@@ -135,14 +148,13 @@ export function PdfQueueProcessor() {
             const queues = useMessageQueueStore.getState().queues
 
             for (const pdfId of Object.keys(queues)) {
-                const queue = queues[pdfId]
-                if (!queue || queue.length === 0) continue
+                if (!useMessageQueueStore.getState().getNextItem(pdfId)) continue
 
                 const status = useStreamingStatusStore.getState().getStatus(pdfId)
 
-                // Process when ready, or retry on error status
+                // Process when ready, or after an error once the failed item was reported
                 if ((status === 'ready' || status === 'error') && !processingRef.current.has(pdfId)) {
-                    // If error status, clear it before retrying
+                    // If error status, clear it before sending the next item
                     if (status === 'error') {
                         useStreamingStatusStore.getState().setStatus(pdfId, 'ready')
                     }
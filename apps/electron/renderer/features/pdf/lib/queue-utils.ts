@@ -1,6 +1,8 @@
 /**
  * Queue utilities for managing PDF chat message queue
  * Adapted from 1code's agent queue implementation
+ *
+ * Queues are persisted in the main process (messageQueue router, kind 'pdf').
  */
 
 // Text context selected from PDF viewer
@@ -17,7 +19,22 @@ export type PdfQueueItem = {
     selectedText?: PdfSelectedText
     currentPage?: number
     timestamp: Date
-    status: 'pending' | 'processing'
+    status: QueueItemStatus
+    error?: string
+}
+
+export type QueueItemStatus = 'pending' | 'running' | 'failed' | 'done'
+
+// Shape of an item as stored by the main process
+export interface PersistedQueueItem {
+    id: string
+    kind: 'chat' | 'pdf'
+    targetId: string
+    message: string
+    payload: Record<string, unknown>
+    status: QueueItemStatus
+    error?: string
+    createdAt: string
 }
 
 export function generateQueueId(): string {
@@ -42,6 +59,27 @@ export function createQueueItem(
     }
 }
 
+export function toQueuePayload(item: PdfQueueItem): Record<string, unknown> {
+    return {
+        selectedText: item.selectedText,
+        currentPage: item.currentPage,
+    }
+}
+
+export function fromPersistedItem(item: PersistedQueueItem): PdfQueueItem {
+    const payload = item.payload as Partial<PdfQueueItem>
+    return {
+        id: item.id,
+        pdfId: item.targetId,
+        query: item.message,
+        selectedText: payload.selectedText,
+        currentPage: payload.currentPage,
+        timestamp: new Date(item.createdAt),
+        status: item.status,
+        error: item.error,
+    }
+}
+
 export function getNextQueueItem(
     queue: PdfQueueItem[]
 ): PdfQueueItem | null {
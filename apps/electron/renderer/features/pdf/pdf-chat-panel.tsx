@@ -17,6 +17,7 @@ import {
     IconRefresh
 } from '@tabler/icons-react'
 import { trpc } from '@/lib/trpc'
+import { toast } from 'sonner'
 import {
     pdfChatMessagesAtom,
     pdfChatStreamingAtom,
@@ -72,6 +73,9 @@ export const PdfChatPanel = memo(function PdfChatPanel({
     const queue = useMessageQueueStore(state => state.getQueue(source.id))
     const addToQueue = useMessageQueueStore(state => state.addToQueue)
     const removeFromQueue = useMessageQueueStore(state => state.removeFromQueue)
+    const retryQueueItem = useMessageQueueStore(state => state.retryItem)
+    const editQueueItem = useMessageQueueStore(state => state.editItem)
+    const moveQueueItem = useMessageQueueStore(state => state.moveItem)
     const streamingStatus = useStreamingStatusStore(state => state.getStatus(source.id))
 
     const [input, setInput] = useState('')
@@ -249,8 +253,13 @@ export const PdfChatPanel = memo(function PdfChatPanel({
                 selectedText || undefined,
                 currentPage
             )
-            addToQueue(source.id, queueItem)
-            setInput('')
+            try {
+                await addToQueue(source.id, queueItem)
+                setInput('')
+            } catch (err) {
+                console.error('Failed to queue message:', err)
+                toast.error('Could not add the question to the queue')
+            }
         }
     }, [input, isStreaming, streamingStatus, source, currentPage, selectedText, setMessages, setIsStreaming, queryPdf, addToQueue, addMessage, utils])
 
@@ -288,9 +297,29 @@ export const PdfChatPanel = memo(function PdfChatPanel({
         }
     }, [setMessages, source, clearMessages, utils])
 
+    const runQueueAction = useCallback(async (action: () => Promise<void>) => {
+        try {
+            await action()
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Could not update the queue')
+        }
+    }, [])
+
     const handleRemoveQueuedItem = useCallback((itemId: string) => {
-        removeFromQueue(source.id, itemId)
-    }, [source.id, removeFromQueue])
+        runQueueAction(() => removeFromQueue(source.id, itemId))
+    }, [source.id, removeFromQueue, runQueueAction])
+
+    const handleRetryQueuedItem = useCallback((itemId: string) => {
+        runQueueAction(() => retryQueueItem(itemId))
+    }, [retryQueueItem, runQueueAction])
+
+    const handleEditQueuedItem = useCallback((itemId: string, query: string) => {
+        runQueueAction(() => editQueueItem(itemId, query))
+    }, [editQueueItem, runQueueAction])
+
+    const handleMoveQueuedItem = useCallback((itemId: string, offset: -1 | 1) => {
+        runQueueAction(() => moveQueueItem(source.id, itemId, offset))
+    }, [source.id, moveQueueItem, runQueueAction])
 
     const hasExtractedContent = source.type === 'chat_file' && source.pages && source.pages.length > 0
     const isLocalPdf = source.type === 'local'
@@ -387,6 +416,9 @@ export const PdfChatPanel = memo(function PdfChatPanel({
             <PdfQueueIndicator
                 queue={queue}
                 onRemoveItem={handleRemoveQueuedItem}
+                onRetryItem={handleRetryQueuedItem}
+                onEditItem={handleEditQueuedItem}
+                onMoveItem={handleMoveQueuedItem}
             />
 
             {/* Messages Area */}
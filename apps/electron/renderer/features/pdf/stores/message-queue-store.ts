@@ -1,12 +1,16 @@
 /**
  * Message queue store for PDF chat
  * Adapted from 1code's message queue store
+ *
+ * Mirror of the 'pdf' queues persisted in the main process; actions go
+ * through the messageQueue router and the store is refreshed from main.
  */
 
 import { create } from 'zustand'
 import { subscribeWithSelector } from 'zustand/middleware'
-import type { PdfQueueItem } from '../lib/queue-utils'
-import { removeQueueItem } from '../lib/queue-utils'
+import { trpcClient } from '@/lib/trpc'
+import type { PdfQueueItem, PersistedQueueItem } from '../lib/queue-utils'
+import { fromPersistedItem, toQueuePayload } from '../lib/queue-utils'
 
 // Empty array constant to avoid creating new arrays on each call
 // Exported for use in selectors to maintain stable reference
@@ -16,86 +20,87 @@ interface MessageQueueState {
   // Map: pdfId -> queue items
   queues: Record<string, PdfQueueItem[]>
 
+  // Replace the mirror with the persisted queues (keyed by kind:targetId)
+  hydrate: (persisted: Record<string, PersistedQueueItem[]>) => void
+
   // Actions
-  addToQueue: (pdfId: string, item: PdfQueueItem) => void
-  removeFromQueue: (pdfId: string, itemId: string) => void
+  addToQueue: (pdfId: string, item: PdfQueueItem) => Promise<void>
+  removeFromQueue: (pdfId: string, itemId: string) => Promise<void>
+  editItem: (itemId: string, query: string) => Promise<void>
+  // Move a waiting item one position up (-1) or down (1)
+  moveItem: (pdfId: string, itemId: string, offset: -1 | 1) => Promise<void>
+  retryItem: (itemId: string) => Promise<void>
   getQueue: (pdfId: string) => PdfQueueItem[]
   getNextItem: (pdfId: string) => PdfQueueItem | null
-  clearQueue: (pdfId: string) => void
-  // Returns and removes the item from queue (atomic operation)
-  popItem: (pdfId: string, itemId: string) => PdfQueueItem | null
-  // Add item to front of queue (for error recovery)
-  prependItem: (pdfId: string, item: PdfQueueItem) => void
 }
 
 export const useMessageQueueStore = create<MessageQueueState>()(
   subscribeWithSelector((set, get) => ({
     queues: {},
 
-    addToQueue: (pdfId, item) => {
+    hydrate: (persisted) => {
+      const queues: Record<string, PdfQueueItem[]> = {}
+      for (const items of Object.values(persisted)) {
+        for (const item of items) {
+          if (item.kind !== 'pdf') continue
+          const queue = queues[item.targetId] ?? (queues[item.targetId] = [])
+          queue.push(fromPersistedItem(item))
+        }
+      }
+      set({ queues })
+    },
+
+    addToQueue: async (pdfId, item) => {
+      const persisted = await trpcClient.messageQueue.add.mutate({
+        kind: 'pdf',
+        targetId: pdfId,
+        message: item.query,
+        payload: toQueuePayload(item),
+      })
       set((state) => ({
         queues: {
           ...state.queues,
-          [pdfId]: [...(state.queues[pdfId] || []), item],
+          [pdfId]: [...(state.queues[pdfId] || []), fromPersistedItem(persisted)],
         },
       }))
     },
 
-    removeFromQueue: (pdfId, itemId) => {
-      set((state) => {
-        const currentQueue = state.queues[pdfId] || []
-        return {
-          queues: {
-            ...state.queues,
-            [pdfId]: removeQueueItem(currentQueue, itemId),
-          },
-        }
-      })
+    removeFromQueue: async (_pdfId, itemId) => {
+      await trpcClient.messageQueue.remove.mutate({ itemId })
     },
 
-    getQueue: (pdfId) => {
-      return get().queues[pdfId] ?? EMPTY_QUEUE
+    editItem: async (itemId, query) => {
+      await trpcClient.messageQueue.edit.mutate({ itemId, message: query })
     },
 
-    getNextItem: (pdfId) => {
-      const queue = get().queues[pdfId] || []
-      return queue.find((item) => item.status === 'pending') || null
+    moveItem: async (pdfId, itemId, offset) => {
+      const waiting = get()
+        .getQueue(pdfId)
+        .filter((item) => item.status === 'pending' || item.status === 'failed')
+      const index = waiting.findIndex((item) => item.id === itemId)
+      const target = index + offset
+      if (index < 0 || target < 0 || target >= waiting.length) return
+
+      const ordered = waiting.map((item) => item.id)
+      ordered.splice(target, 0, ...ordered.splice(index, 1))
+      await trpcClient.messageQueue.reorder.mutate({
+        kind: 'pdf',
+        targetId: pdfId,
+        orderedIds: ordered,
+      })
     },
 
-    clearQueue: (pdfId) => {
-      set((state) => ({
-        queues: {
-          ...state.queues,
-          [pdfId]: [],
-        },
-      }))
+    retryItem: async (itemId) => {
+      await trpcClient.messageQueue.retry.mutate({ itemId })
     },
 
-    // Atomic pop: find and remove in single set() call to prevent race conditions
-    popItem: (pdfId, itemId) => {
-      let foundItem: PdfQueueItem | null = null
-      set((state) => {
-        const currentQueue = state.queues[pdfId] || []
-        foundItem = currentQueue.find((i) => i.id === itemId) || null
-        if (!foundItem) return state
-        return {
-          queues: {
-            ...state.queues,
-            [pdfId]: currentQueue.filter((i) => i.id !== itemId),
-          },
-        }
-      })
-      return foundItem
+    getQueue: (pdfId) => {
+      return get().queues[pdfId] ?? EMPTY_QUEUE
     },
 
-    // Add item to front of queue (used for error recovery - requeue failed items)
-    prependItem: (pdfId, item) => {
-      set((state) => ({
-        queues: {
-          ...state.queues,
-          [pdfId]: [item, ...(state.queues[pdfId] || [])],
-        },
-      }))
+    getNextItem: (pdfId) => {
+      const queue = get().queues[pdfId] || []
+      return queue.find((item) => item.status === 'pending') || null
     },
   }))
 )
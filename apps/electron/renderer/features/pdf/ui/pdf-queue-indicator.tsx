@@ -1,7 +1,15 @@
 "use client"
 
 import { memo, useState, useCallback, useEffect } from "react"
-import { IconChevronDown, IconX } from "@tabler/icons-react"
+import {
+    IconArrowDown,
+    IconArrowUp,
+    IconChevronDown,
+    IconLoader2,
+    IconPencil,
+    IconRefresh,
+    IconX,
+} from "@tabler/icons-react"
 import { motion, AnimatePresence } from "motion/react"
 import {
     Tooltip,
@@ -14,51 +22,150 @@ import type { PdfQueueItem } from "../lib/queue-utils"
 
 const QUEUE_EXPANDED_KEY = "pdf-queue-expanded"
 
+// Small icon button with tooltip for row actions
+function RowAction({
+    label,
+    onClick,
+    disabled,
+    children,
+}: {
+    label: string
+    onClick: () => void
+    disabled?: boolean
+    children: React.ReactNode
+}) {
+    return (
+        <Tooltip>
+            <TooltipTrigger asChild>
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation()
+                        onClick()
+                    }}
+                    disabled={disabled}
+                    className="flex-shrink-0 p-1 hover:bg-foreground/10 rounded text-muted-foreground hover:text-foreground transition-all disabled:opacity-30 disabled:pointer-events-none"
+                >
+                    {children}
+                </button>
+            </TooltipTrigger>
+            <TooltipContent side="top">{label}</TooltipContent>
+        </Tooltip>
+    )
+}
+
 // Queue item row component
 const QueueItemRow = memo(function QueueItemRow({
     item,
+    isFirst,
+    isLast,
     onRemove,
+    onRetry,
+    onEdit,
+    onMove,
 }: {
     item: PdfQueueItem
+    isFirst: boolean
+    isLast: boolean
     onRemove?: (itemId: string) => void
+    onRetry?: (itemId: string) => void
+    onEdit?: (itemId: string, query: string) => void
+    onMove?: (itemId: string, offset: -1 | 1) => void
 }) {
-    const handleRemove = useCallback(
-        (e: React.MouseEvent) => {
-            e.stopPropagation()
-            onRemove?.(item.id)
-        },
-        [item.id, onRemove]
-    )
+    const [isEditing, setIsEditing] = useState(false)
+    const [draft, setDraft] = useState(item.query)
+
+    const saveEdit = useCallback(() => {
+        const query = draft.trim()
+        setIsEditing(false)
+        if (query && query !== item.query) onEdit?.(item.id, query)
+    }, [draft, item.id, item.query, onEdit])
 
     // Get display text - truncate message and show attachment count
     const hasAttachments = item.selectedText !== undefined
     const attachmentCount = hasAttachments ? 1 : 0
+    const isRunning = item.status === "running"
+    const isFailed = item.status === "failed"
 
     return (
-        <div className="flex items-center gap-2 px-3 py-1.5 text-xs hover:bg-muted/50 transition-colors cursor-default">
-            <span className="truncate flex-1 text-foreground">
-                {createTextPreview(item.query, 60)}
-            </span>
+        <div
+            className={cn(
+                "flex items-center gap-2 px-3 py-1.5 text-xs hover:bg-muted/50 transition-colors cursor-default",
+                isFailed && "bg-red-500/5"
+            )}
+        >
+            {isRunning && (
+                <IconLoader2 className="w-3.5 h-3.5 flex-shrink-0 animate-spin text-muted-foreground" />
+            )}
+            {isEditing ? (
+                <input
+                    autoFocus
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onBlur={saveEdit}
+                    onKeyDown={(e) => {
+                        if (e.key === "Enter") saveEdit()
+                        if (e.key === "Escape") {
+                            setDraft(item.query)
+                            setIsEditing(false)
+                        }
+                    }}
+                    className="flex-1 min-w-0 bg-transparent border-b border-border outline-none text-foreground"
+                />
+            ) : (
+                <span className="truncate flex-1 text-foreground">
+                    {createTextPreview(item.query, 60)}
+                </span>
+            )}
             {hasAttachments && (
                 <span className="flex-shrink-0 text-muted-foreground text-[10px]">
                     +{attachmentCount} context
                 </span>
             )}
-            <div className="flex items-center gap-1">
-                {onRemove && (
-                    <Tooltip>
-                        <TooltipTrigger asChild>
-                            <button
-                                onClick={handleRemove}
-                                className="flex-shrink-0 p-1 hover:bg-foreground/10 rounded text-muted-foreground hover:text-foreground transition-all"
-                            >
-                                <IconX className="w-3.5 h-3.5" />
-                            </button>
-                        </TooltipTrigger>
-                        <TooltipContent side="top">Remove</TooltipContent>
-                    </Tooltip>
-                )}
-            </div>
+            {isFailed && (
+                <Tooltip>
+                    <TooltipTrigger asChild>
+                        <span className="flex-shrink-0 text-[10px] text-red-600 dark:text-red-400">
+                            Failed
+                        </span>
+                    </TooltipTrigger>
+                    <TooltipContent side="top">{item.error || "Could not be sent"}</TooltipContent>
+                </Tooltip>
+            )}
+            {!isRunning && (
+                <div className="flex items-center gap-0.5">
+                    {isFailed && onRetry && (
+                        <RowAction label="Retry" onClick={() => onRetry(item.id)}>
+                            <IconRefresh className="w-3.5 h-3.5" />
+                        </RowAction>
+                    )}
+                    {onEdit && !isEditing && (
+                        <RowAction
+                            label="Edit"
+                            onClick={() => {
+                                setDraft(item.query)
+                                setIsEditing(true)
+                            }}
+                        >
+                            <IconPencil className="w-3.5 h-3.5" />
+                        </RowAction>
+                    )}
+                    {onMove && (
+                        <>
+                            <RowAction label="Move up" disabled={isFirst} onClick={() => onMove(item.id, -1)}>
+                                <IconArrowUp className="w-3.5 h-3.5" />
+                            </RowAction>
+                            <RowAction label="Move down" disabled={isLast} onClick={() => onMove(item.id, 1)}>
+                                <IconArrowDown className="w-3.5 h-3.5" />
+                            </RowAction>
+                        </>
+                    )}
+                    {onRemove && (
+                        <RowAction label="Remove" onClick={() => onRemove(item.id)}>
+                            <IconX className="w-3.5 h-3.5" />
+                        </RowAction>
+                    )}
+                </div>
+            )}
         </div>
     )
 })
@@ -66,11 +173,17 @@ const QueueItemRow = memo(function QueueItemRow({
 interface PdfQueueIndicatorProps {
     queue: PdfQueueItem[]
     onRemoveItem?: (itemId: string) => void
+    onRetryItem?: (itemId: string) => void
+    onEditItem?: (itemId: string, query: string) => void
+    onMoveItem?: (itemId: string, offset: -1 | 1) => void
 }
 
 export const PdfQueueIndicator = memo(function PdfQueueIndicator({
-    queue,
+    queue: allItems,
     onRemoveItem,
+    onRetryItem,
+    onEditItem,
+    onMoveItem,
 }: PdfQueueIndicatorProps) {
     // Load expanded state from localStorage
     const [isExpanded, setIsExpanded] = useState(() => {
@@ -84,6 +197,10 @@ export const PdfQueueIndicator = memo(function PdfQueueIndicator({
         localStorage.setItem(QUEUE_EXPANDED_KEY, String(isExpanded))
     }, [isExpanded])
 
+    // Finished questions are already in the chat
+    const queue = allItems.filter((item) => item.status !== "done")
+    const waiting = queue.filter((item) => item.status !== "running")
+
     if (queue.length === 0) {
         return null
     }
@@ -135,7 +252,12 @@ export const PdfQueueIndicator = memo(function PdfQueueIndicator({
                                 <QueueItemRow
                                     key={item.id}
                                     item={item}
+                                    isFirst={waiting[0]?.id === item.id}
+                                    isLast={waiting[waiting.length - 1]?.id === item.id}
                                     onRemove={onRemoveItem}
+                                    onRetry={onRetryItem}
+                                    onEdit={onEditItem}
+                                    onMove={onMoveItem}
                                 />
                             ))}
                         </div>
@@ -0,0 +1,279 @@
+import * as React from "react";
+import { createPortal } from "react-dom";
+import { useAtom } from "jotai";
+import {
+  IconBan,
+  IconBook,
+  IconEye,
+  IconEyeOff,
+  IconLoader2,
+  IconSparkles,
+  IconTextSpellcheck,
+  IconX,
+} from "@tabler/icons-react";
+import {
+  ruleLabel,
+  type ProofreadingSuggestion,
+  type SuggestionCategory,
+} from "@s-agi/core/utils/proofreading";
+import { Button } from "@/components/ui/button";
+import { proofreadingEnabledAtom } from "@/lib/atoms";
+import { cn } from "@/lib/utils";
+
+/** Viewport rectangle, as returned by getBoundingClientRect */
+export interface ProofreadingRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+interface ProofreadingLayerProps {
+  /** Editor element; clicks on underlined text inside it open the card */
+  container: HTMLElement | null;
+  suggestions: ProofreadingSuggestion[];
+  /** Viewport rectangles covering a suggestion's text, one per line */
+  getRects: (suggestion: ProofreadingSuggestion) => ProofreadingRect[];
+  /** Changes whenever the editor scrolls, zooms or re-lays out its text */
+  layoutVersion: number;
+  onAccept: (suggestion: ProofreadingSuggestion, replacement: string) => void;
+  onReject: (suggestion: ProofreadingSuggestion) => void;
+  onIgnoreRule: (ruleId: string) => void;
+  /** Offered on spelling suggestions */
+  onAddToDictionary?: (word: string) => void;
+  isCheckingWithAI: boolean;
+  onCheckWithAI: () => void;
+}
+
+const UNDERLINE_COLORS: Record<SuggestionCategory, string> = {
+  spelling: "border-red-500",
+  grammar: "border-amber-500",
+  style: "border-sky-500 border-dotted",
+};
+
+const contains = (rect: ProofreadingRect, x: number, y: number) =>
+  x >= rect.left && x <= rect.right && y >= rect.top - 2 && y <= rect.bottom + 2;
+
+/**
+ * Underlines proofreading suggestions over an editor without touching its
+ * content, plus the card with accept, reject and "ignore rule" actions and a
+ * status pill. The parent must be positioned (relative) for the pill.
+ */
+export function ProofreadingLayer({
+  container,
+  suggestions,
+  getRects,
+  layoutVersion,
+  onAccept,
+  onReject,
+  onIgnoreRule,
+  onAddToDictionary,
+  isCheckingWithAI,
+  onCheckWithAI,
+}: ProofreadingLayerProps) {
+  const [enabled, setEnabled] = useAtom(proofreadingEnabledAtom);
+  const [activeId, setActiveId] = React.useState<string | null>(null);
+
+  // Rectangles are measured per render; layoutVersion forces a re-measure
+  const placed = React.useMemo(() => {
+    if (!enabled || !container) return [];
+    const bounds = container.getBoundingClientRect();
+    return suggestions.map((suggestion) => ({
+      suggestion,
+      rects: getRects(suggestion).filter(
+        (rect) =>
+          rect.bottom > bounds.top &&
+          rect.top < bounds.bottom &&
+          rect.right > bounds.left &&
+          rect.left < bounds.right,
+      ),
+    }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, container, suggestions, getRects, layoutVersion]);
+
+  const placedRef = React.useRef(placed);
+  placedRef.current = placed;
+
+  React.useEffect(() => {
+    if (!container) return;
+    const findHit = (event: MouseEvent) =>
+      placedRef.current.find(({ rects }) =>
+        rects.some((rect) => contains(rect, event.clientX, event.clientY)),
+      );
+    const handlePointerUp = (event: PointerEvent) => {
+      setActiveId(findHit(event)?.suggestion.id ?? null);
+    };
+    // Right-click on an underline opens the card instead of the editor's menu
+    const handleSecondary = (event: MouseEvent) => {
+      if (event.button !== 2) return;
+      const hit = findHit(event);
+      if (!hit) return;
+      event.preventDefault();
+      event.stopPropagation();
+      setActiveId(hit.suggestion.id);
+    };
+    container.addEventListener("pointerup", handlePointerUp);
+    container.addEventListener("pointerdown", handleSecondary, true);
+    container.addEventListener("contextmenu", handleSecondary, true);
+    return () => {
+      container.removeEventListener("pointerup", handlePointerUp);
+      container.removeEventListener("pointerdown", handleSecondary, true);
+      container.removeEventListener("contextmenu", handleSecondary, true);
+    };
+  }, [container]);
+
+  React.useEffect(() => {
+    if (!activeId) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setActiveId(null);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [activeId]);
+
+  const active = placed.find(({ suggestion }) => suggestion.id === activeId);
+  const anchor = active?.rects[active.rects.length - 1];
+
+  const close = (action: () => void) => {
+    action();
+    setActiveId(null);
+  };
+
+  return (
+    <>
+      {createPortal(
+        <>
+          {placed.flatMap(({ suggestion, rects }) =>
+            rects.map((rect, index) => (
+              <div
+                key={`${suggestion.id}-${index}`}
+                className={cn(
+                  "fixed z-40 pointer-events-none border-b-2",
+                  UNDERLINE_COLORS[suggestion.category],
+                )}
+                style={{
+                  left: rect.left,
+                  top: rect.bottom - 3,
+                  width: rect.right - rect.left,
+                }}
+              />
+            )),
+          )}
+          {active && anchor && (
+            <div
+              className="fixed z-50 w-72 rounded-md border bg-popover p-3 text-popover-foreground shadow-md"
+              style={{ left: anchor.left, top: anchor.bottom + 6 }}
+              onPointerUp={(event) => event.stopPropagation()}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <span className="text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+                  {ruleLabel(active.suggestion.ruleId)}
+                </span>
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-foreground"
+                  onClick={() => setActiveId(null)}
+                  aria-label="Cerrar"
+                >
+                  <IconX size={14} />
+                </button>
+              </div>
+              <p className="mt-1 text-sm">{active.suggestion.message}</p>
+              {active.suggestion.replacements.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1.5">
+                  {active.suggestion.replacements.map((replacement) => (
+                    <Button
+                      key={replacement}
+                      size="sm"
+                      className="h-7"
+                      onClick={() =>
+                        close(() => onAccept(active.suggestion, replacement))
+                      }
+                    >
+                      {replacement || "(eliminar)"}
+                    </Button>
+                  ))}
+                </div>
+              )}
+              <div className="mt-2 flex gap-1 border-t pt-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => close(() => onReject(active.suggestion))}
+                >
+                  <IconX size={14} className="mr-1" />
+                  Descartar
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() =>
+                    close(() => onIgnoreRule(active.suggestion.ruleId))
+                  }
+                >
+                  <IconBan size={14} className="mr-1" />
+                  Ignorar regla
+                </Button>
+                {active.suggestion.category === "spelling" &&
+                  onAddToDictionary && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() =>
+                        close(() => onAddToDictionary(active.suggestion.original))
+                      }
+                    >
+                      <IconBook size={14} className="mr-1" />
+                      Añadir al diccionario
+                    </Button>
+                  )}
+              </div>
+            </div>
+          )}
+        </>,
+        document.body,
+      )}
+
+      <div className="absolute bottom-3 right-3 z-20 flex items-center gap-1 rounded-full border bg-background/90 px-2 py-1 text-xs shadow-sm backdrop-blur">
+        <IconTextSpellcheck size={14} className="text-muted-foreground" />
+        {enabled && (
+          <>
+            <span className="px-1 text-muted-foreground">
+              {suggestions.length === 0
+                ? "Sin sugerencias"
+                : suggestions.length === 1
+                  ? "1 sugerencia"
+                  : `${suggestions.length} sugerencias`}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={onCheckWithAI}
+              disabled={isCheckingWithAI}
+            >
+              {isCheckingWithAI ? (
+                <IconLoader2 size={14} className="mr-1 animate-spin" />
+              ) : (
+                <IconSparkles size={14} className="mr-1" />
+              )}
+              Revisar con IA
+            </Button>
+          </>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          onClick={() => setEnabled(!enabled)}
+          title={enabled ? "Ocultar revisión" : "Mostrar revisión"}
+        >
+          {enabled ? <IconEyeOff size={14} /> : <IconEye size={14} />}
+        </Button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,255 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import {
+  IconLoader2,
+  IconEye,
+  IconEyeOff,
+  IconRefresh,
+  IconTrash,
+} from "@tabler/icons-react";
+import { CustomEndpointIcon } from "@/components/icons/model-icons";
+
+type Capability = "supportsTools" | "supportsImages" | "supportsReasoning";
+
+const CAPABILITIES: Array<{ key: Capability; label: string }> = [
+  { key: "supportsTools", label: "Tools" },
+  { key: "supportsImages", label: "Vision" },
+  { key: "supportsReasoning", label: "Reasoning" },
+];
+
+/**
+ * OpenAI-compatible endpoint (Ollama, LM Studio, vLLM...)
+ * Models are discovered from the endpoint; capabilities can be adjusted per model.
+ */
+export function CustomEndpointCard({
+  onModelsChanged,
+}: {
+  onModelsChanged?: () => void;
+}) {
+  const utils = trpc.useUtils();
+  const { data: config } = trpc.settings.getCustomProvider.useQuery();
+
+  const [baseURL, setBaseURL] = useState("");
+  const [name, setName] = useState("");
+  const [apiKey, setApiKey] = useState("");
+  const [showApiKey, setShowApiKey] = useState(false);
+
+  useEffect(() => {
+    if (config) {
+      setBaseURL(config.baseURL);
+      setName(config.name ?? "");
+    }
+  }, [config]);
+
+  const refreshState = () => {
+    utils.settings.getCustomProvider.invalidate();
+    utils.settings.getApiKeyStatus.invalidate();
+    onModelsChanged?.();
+  };
+
+  const saveMutation = trpc.settings.setCustomProvider.useMutation({
+    onSuccess: ({ models }) => {
+      toast.success(`Custom endpoint saved: ${models.length} model(s) found`);
+      setApiKey("");
+      refreshState();
+    },
+    onError: (e) => {
+      toast.error(e.message);
+      refreshState();
+    },
+  });
+
+  const refreshMutation = trpc.settings.refreshCustomModels.useMutation({
+    onSuccess: ({ models }) => {
+      toast.success(`${models.length} model(s) found`);
+      refreshState();
+    },
+    onError: (e) => toast.error(e.message),
+  });
+
+  const capabilitiesMutation =
+    trpc.settings.setCustomModelCapabilities.useMutation({
+      onSuccess: refreshState,
+      onError: (e) => toast.error(e.message),
+    });
+
+  const clearMutation = trpc.settings.clearCustomProvider.useMutation({
+    onSuccess: () => {
+      toast.success("Custom endpoint removed");
+      setBaseURL("");
+      setName("");
+      setApiKey("");
+      refreshState();
+    },
+    onError: (e) => toast.error(e.message),
+  });
+
+  const handleSave = () => {
+    if (!baseURL.trim()) {
+      toast.error("Please enter the endpoint base URL");
+      return;
+    }
+    saveMutation.mutate({
+      baseURL: baseURL.trim(),
+      name: name.trim() || null,
+      // Keep the stored key unless a new one was typed
+      apiKey: apiKey.trim() || undefined,
+    });
+  };
+
+  const models = config?.models ?? [];
+
+  return (
+    <div className="border border-border rounded-lg p-6 space-y-4 bg-card/50">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <CustomEndpointIcon size={18} />
+          <div>
+            <h4 className="font-medium">Custom Endpoint</h4>
+            <p className="text-[11px] text-muted-foreground">
+              Any OpenAI-compatible server (Ollama, LM Studio, vLLM). Chats and
+              documents stay on your infrastructure.
+            </p>
+          </div>
+        </div>
+        {models.length > 0 && <Badge variant="secondary">Active</Badge>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="custom-endpoint-url">Base URL</Label>
+          <Input
+            id="custom-endpoint-url"
+            placeholder="http://localhost:11434/v1"
+            value={baseURL}
+            onChange={(e) => setBaseURL(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="custom-endpoint-name">Name (optional)</Label>
+          <Input
+            id="custom-endpoint-name"
+            placeholder="Ollama"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Input
+            type={showApiKey ? "text" : "password"}
+            placeholder={
+              config?.hasApiKey
+                ? "API key saved (type to replace)"
+                : "API key (optional)"
+            }
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            className="pr-10"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="absolute right-0 top-0 h-full hover:bg-transparent"
+            onClick={() => setShowApiKey(!showApiKey)}
+          >
+            {showApiKey ? <IconEyeOff size={16} /> : <IconEye size={16} />}
+          </Button>
+        </div>
+        <Button
+          variant="default"
+          className="px-6 font-semibold"
+          onClick={handleSave}
+          disabled={saveMutation.isPending}
+        >
+          {saveMutation.isPending ? (
+            <IconLoader2 className="animate-spin" size={16} />
+          ) : (
+            "Save"
+          )}
+        </Button>
+      </div>
+
+      {config && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Models</Label>
+            <div className="flex gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => refreshMutation.mutate()}
+                disabled={refreshMutation.isPending}
+              >
+                {refreshMutation.isPending ? (
+                  <IconLoader2 className="animate-spin mr-1.5" size={14} />
+                ) : (
+                  <IconRefresh size={14} className="mr-1.5" />
+                )}
+                Refresh
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-500 hover:text-red-600"
+                onClick={() => clearMutation.mutate()}
+                disabled={clearMutation.isPending}
+              >
+                <IconTrash size={14} className="mr-1.5" />
+                Remove
+              </Button>
+            </div>
+          </div>
+
+          {models.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              No chat models found. Check that the server is running and press
+              Refresh.
+            </p>
+          ) : (
+            <div className="rounded-md border border-border divide-y divide-border">
+              {models.map((model) => (
+                <div
+                  key={model.id}
+                  className="flex items-center justify-between gap-4 px-3 py-2"
+                >
+                  <span className="text-xs font-medium truncate">
+                    {model.name || model.id}
+                  </span>
+                  <div className="flex items-center gap-3 shrink-0">
+                    {CAPABILITIES.map(({ key, label }) => (
+                      <label
+                        key={key}
+                        className="flex items-center gap-1.5 text-[11px] text-muted-foreground"
+                      >
+                        <Switch
+                          checked={model[key]}
+                          disabled={capabilitiesMutation.isPending}
+                          onCheckedChange={(checked) =>
+                            capabilitiesMutation.mutate({
+                              modelId: model.id,
+                              [key]: checked,
+                            })
+                          }
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
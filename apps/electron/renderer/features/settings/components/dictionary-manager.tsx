@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import {
+  IconDownload,
+  IconLanguage,
+  IconLoader2,
+  IconPlus,
+  IconTrash,
+  IconUserCircle,
+  IconX,
+} from "@tabler/icons-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { reloadSpellDictionaries } from "@/lib/spell-dictionaries";
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: "English",
+  es: "Spanish",
+  pt: "Portuguese",
+  fr: "French",
+};
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+/**
+ * Hunspell packs on this machine and the personal word list, which syncs
+ * with the account
+ */
+export function DictionaryManager() {
+  const utils = trpc.useUtils();
+  const { data: packs = [], isLoading } = trpc.dictionaries.list.useQuery();
+  const { data: words = [], isError: wordsUnavailable } =
+    trpc.dictionaries.listWords.useQuery();
+  const [newWord, setNewWord] = useState("");
+
+  // Editors reload their dictionaries after any pack change
+  const afterPacksChange = (updated: typeof packs) => {
+    utils.dictionaries.list.setData(undefined, updated);
+    reloadSpellDictionaries();
+  };
+
+  const installMutation = trpc.dictionaries.install.useMutation({
+    onSuccess: (result) => {
+      if (result.canceled) return;
+      afterPacksChange(result.packs);
+      toast.success("Dictionaries installed");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const removeMutation = trpc.dictionaries.remove.useMutation({
+    onSuccess: afterPacksChange,
+    onError: (error) => toast.error(error.message),
+  });
+
+  const setEnabledMutation = trpc.dictionaries.setEnabled.useMutation({
+    onSuccess: afterPacksChange,
+    onError: (error) => toast.error(error.message),
+  });
+
+  const addWordMutation = trpc.dictionaries.addWord.useMutation({
+    onSuccess: (updated) => {
+      utils.dictionaries.listWords.setData(undefined, updated);
+      setNewWord("");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const removeWordMutation = trpc.dictionaries.removeWord.useMutation({
+    onSuccess: (updated) =>
+      utils.dictionaries.listWords.setData(undefined, updated),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handleAddWord = () => {
+    const word = newWord.trim();
+    if (word) addWordMutation.mutate({ word });
+  };
+
+  return (
+    <>
+      {/* Dictionaries Section */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground pl-1">
+            Dictionaries
+          </h4>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs"
+            onClick={() => installMutation.mutate()}
+            disabled={installMutation.isPending}
+          >
+            {installMutation.isPending ? (
+              <IconLoader2 size={14} className="mr-2 animate-spin" />
+            ) : (
+              <IconDownload size={14} className="mr-2" />
+            )}
+            Install from disk
+          </Button>
+        </div>
+        <div className="bg-background rounded-lg border border-border overflow-hidden divide-y divide-border/50">
+          <div className="flex items-center gap-2 px-4 py-3">
+            <IconLanguage size={16} className="text-muted-foreground" />
+            <p className="text-xs text-muted-foreground">
+              Hunspell .aff and .dic pairs in Spanish, English, Portuguese or
+              French, e.g. pt_BR or fr_FR. Each paragraph is checked with the
+              dictionaries of its language
+            </p>
+          </div>
+          {isLoading ? (
+            <p className="p-4 text-xs text-muted-foreground">Loading...</p>
+          ) : (
+            packs.map((pack) => (
+              <div
+                key={pack.id}
+                className="flex items-center justify-between gap-4 px-4 py-2.5"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground">
+                    {LANGUAGE_NAMES[pack.language] ?? pack.language}
+                    <span className="ml-2 text-xs font-normal text-muted-foreground">
+                      {pack.id}
+                      {pack.sizeBytes ? ` · ${formatSize(pack.sizeBytes)}` : ""}
+                    </span>
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {pack.source === "bundled" ? (
+                    <Badge variant="secondary" className="text-[10px]">
+                      Built-in
+                    </Badge>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                      onClick={() => removeMutation.mutate({ id: pack.id })}
+                      disabled={removeMutation.isPending}
+                    >
+                      <IconTrash size={14} />
+                    </Button>
+                  )}
+                  <Switch
+                    checked={pack.enabled}
+                    onCheckedChange={(enabled) =>
+                      setEnabledMutation.mutate({ id: pack.id, enabled })
+                    }
+                    className="data-[state=checked]:bg-primary"
+                  />
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Personal Dictionary Section */}
+      <div className="space-y-4">
+        <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground pl-1">
+          Personal Dictionary
+        </h4>
+        <div className="bg-background rounded-lg border border-border overflow-hidden">
+          <div className="p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <IconUserCircle size={16} className="text-muted-foreground" />
+              <p className="text-xs text-muted-foreground">
+                {wordsUnavailable
+                  ? "Sign in to keep a personal word list"
+                  : "Jargon and names accepted in every language, synced with your account"}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                value={newWord}
+                onChange={(e) => setNewWord(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAddWord()}
+                placeholder="Add a word"
+                className="h-8 text-xs"
+                disabled={wordsUnavailable}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 text-xs shrink-0"
+                onClick={handleAddWord}
+                disabled={
+                  !newWord.trim() ||
+                  wordsUnavailable ||
+                  addWordMutation.isPending
+                }
+              >
+                <IconPlus size={14} className="mr-1.5" />
+                Add
+              </Button>
+            </div>
+            {words.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {words.map((word) => (
+                  <Badge
+                    key={word}
+                    variant="secondary"
+                    className="gap-1 pr-1 font-normal"
+                  >
+                    {word}
+                    <button
+                      type="button"
+                      className="rounded-sm text-muted-foreground hover:text-foreground"
+                      onClick={() => removeWordMutation.mutate({ word })}
+                      aria-label={`Remove ${word}`}
+                    >
+                      <IconX size={12} />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,386 @@
+import { useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import {
+  IconPencil,
+  IconPlus,
+  IconTrash,
+  IconWallet,
+} from "@tabler/icons-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type Scope = "monthly" | "chat" | "account";
+
+interface BudgetForm {
+  id?: string;
+  name: string;
+  scope: Scope;
+  targetId: string;
+  limitUsd: string;
+  warnPercent: string;
+  hardStop: boolean;
+}
+
+const EMPTY_FORM: BudgetForm = {
+  name: "",
+  scope: "monthly",
+  targetId: "",
+  limitUsd: "",
+  warnPercent: "80",
+  hardStop: true,
+};
+
+const SCOPE_LABELS: Record<Scope, string> = {
+  monthly: "Monthly",
+  chat: "Chat",
+  account: "Provider account",
+};
+
+const formatUsd = (value: number) =>
+  value > 0 && value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+
+export function SpendingBudgets() {
+  const utils = trpc.useUtils();
+  const [form, setForm] = useState<BudgetForm | null>(null);
+
+  const { data: budgets = [], isLoading } = trpc.budgets.overview.useQuery();
+  const { data: chats = [] } = trpc.chats.list.useQuery(undefined, {
+    enabled: form?.scope === "chat",
+  });
+  const { data: accounts = [] } = trpc.aiProviders.listAccounts.useQuery(
+    {},
+    { enabled: form?.scope === "account" },
+  );
+
+  const onSaved = () => {
+    utils.budgets.overview.invalidate();
+    setForm(null);
+  };
+
+  const createMutation = trpc.budgets.create.useMutation({
+    onSuccess: () => {
+      toast.success("Budget created");
+      onSaved();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const updateMutation = trpc.budgets.update.useMutation({
+    onSuccess: () => {
+      toast.success("Budget updated");
+      onSaved();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteMutation = trpc.budgets.delete.useMutation({
+    onSuccess: () => utils.budgets.overview.invalidate(),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const limitUsd = Number.parseFloat(form?.limitUsd ?? "");
+  const warnPercent = Number.parseFloat(form?.warnPercent ?? "");
+  const isValid =
+    !!form &&
+    form.name.trim().length > 0 &&
+    limitUsd > 0 &&
+    warnPercent > 0 &&
+    warnPercent <= 100 &&
+    (form.scope === "monthly" || !!form.targetId);
+
+  const handleSave = () => {
+    if (!form || !isValid) return;
+    const values = {
+      name: form.name.trim(),
+      scope: form.scope,
+      targetId: form.scope === "monthly" ? null : form.targetId,
+      limitUsd,
+      warnRatio: warnPercent / 100,
+      hardStop: form.hardStop,
+    };
+    if (form.id) {
+      updateMutation.mutate({ id: form.id, ...values });
+    } else {
+      createMutation.mutate(values);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <IconWallet size={20} className="text-primary" />
+            <h3 className="text-base font-semibold">Spending Budgets</h3>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Estimated from token usage and model pricing. Hard stops block
+            requests that would go over the limit.
+          </p>
+        </div>
+        {!form && (
+          <Button size="sm" variant="outline" onClick={() => setForm(EMPTY_FORM)}>
+            <IconPlus size={14} className="mr-1" />
+            Add budget
+          </Button>
+        )}
+      </div>
+
+      {form && (
+        <div className="rounded-xl border border-border bg-card/50 p-4 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="budget-name">Name</Label>
+              <Input
+                id="budget-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Team monthly"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Scope</Label>
+              <Select
+                value={form.scope}
+                onValueChange={(v) =>
+                  setForm({ ...form, scope: v as Scope, targetId: "" })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SCOPE_LABELS) as Scope[]).map((scope) => (
+                    <SelectItem key={scope} value={scope}>
+                      {SCOPE_LABELS[scope]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {form.scope !== "monthly" && (
+            <div className="space-y-1.5">
+              <Label>{form.scope === "chat" ? "Chat" : "Account"}</Label>
+              <Select
+                value={form.targetId}
+                onValueChange={(v) => setForm({ ...form, targetId: v })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {form.scope === "chat"
+                    ? chats.map((chat: { id: string; title: string }) => (
+                        <SelectItem key={chat.id} value={chat.id}>
+                          {chat.title}
+                        </SelectItem>
+                      ))
+                    : accounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name} ({account.provider})
+                        </SelectItem>
+                      ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-3 items-end">
+            <div className="space-y-1.5">
+              <Label htmlFor="budget-limit">Limit (USD)</Label>
+              <Input
+                id="budget-limit"
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.limitUsd}
+                onChange={(e) => setForm({ ...form, limitUsd: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="budget-warn">Warn at (%)</Label>
+              <Input
+                id="budget-warn"
+                type="number"
+                min={1}
+                max={100}
+                value={form.warnPercent}
+                onChange={(e) =>
+                  setForm({ ...form, warnPercent: e.target.value })
+                }
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm pb-2">
+              <Switch
+                checked={form.hardStop}
+                onCheckedChange={(checked) =>
+                  setForm({ ...form, hardStop: checked })
+                }
+              />
+              Hard stop
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setForm(null)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleSave}
+              disabled={
+                !isValid || createMutation.isPending || updateMutation.isPending
+              }
+            >
+              {form.id ? "Save" : "Create"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <Skeleton className="h-32 w-full rounded-xl" />
+      ) : budgets.length === 0 ? (
+        !form && (
+          <p className="text-sm text-muted-foreground">
+            No budgets yet. Requests are not limited.
+          </p>
+        )
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {budgets.map((item) => {
+            const percent = Math.min(100, Math.round(item.ratio * 100));
+            return (
+              <div
+                key={item.budget.id}
+                className="rounded-xl border border-border bg-card/50 p-4 space-y-3"
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{item.budget.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {SCOPE_LABELS[item.budget.scope]}
+                      {item.targetName ? ` · ${item.targetName}` : ""}
+                      {item.budget.hardStop ? " · Hard stop" : ""}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {item.state !== "ok" && (
+                      <Badge
+                        variant={item.state === "exceeded" ? "destructive" : "outline"}
+                        className="text-[10px]"
+                      >
+                        {item.state === "exceeded" ? "Exceeded" : "Warning"}
+                      </Badge>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() =>
+                        setForm({
+                          id: item.budget.id,
+                          name: item.budget.name,
+                          scope: item.budget.scope,
+                          targetId: item.budget.targetId ?? "",
+                          limitUsd: String(item.budget.limitUsd),
+                          warnPercent: String(Math.round(item.budget.warnRatio * 100)),
+                          hardStop: item.budget.hardStop,
+                        })
+                      }
+                    >
+                      <IconPencil size={14} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => deleteMutation.mutate({ id: item.budget.id })}
+                    >
+                      <IconTrash size={14} />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  <div className="flex justify-between text-xs">
+                    <span className="font-mono">
+                      {formatUsd(item.spent)} / {formatUsd(item.budget.limitUsd)}
+                    </span>
+                    <span className="text-muted-foreground">{percent}%</span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-secondary overflow-hidden">
+                    <div
+                      className={cn(
+                        "h-full rounded-full",
+                        item.state === "exceeded"
+                          ? "bg-destructive"
+                          : item.state === "warning"
+                            ? "bg-amber-500"
+                            : "bg-primary",
+                      )}
+                      style={{ width: `${percent}%` }}
+                    />
+                  </div>
+                </div>
+
+                {item.burnDown.length > 1 && (
+                  <div className="h-[100px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={item.burnDown}>
+                        <XAxis dataKey="date" hide />
+                        <Tooltip
+                          formatter={(value, key) => [
+                            formatUsd(Number(value)),
+                            key === "spent" ? "Spent" : "Even pace",
+                          ]}
+                          contentStyle={{ fontSize: 11 }}
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey="ideal"
+                          stroke="hsl(var(--muted-foreground))"
+                          strokeDasharray="4 4"
+                          dot={false}
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey="spent"
+                          stroke="hsl(var(--primary))"
+                          strokeWidth={2}
+                          dot={false}
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,6 +11,8 @@ import {
   IconAdjustmentsHorizontal,
   IconKeyboard,
   IconChartBar,
+  IconDatabase,
+  IconTextSpellcheck,
 } from "@tabler/icons-react";
 import { cn } from "@/lib/utils";
 import {
@@ -24,6 +26,8 @@ import {
   ApiKeysTab,
   DebugTab,
   AdvancedTab,
+  BackupsTab,
+  WritingTab,
 } from "./tabs";
 import { ShortcutsTab } from "./tabs/shortcuts-tab";
 import { UsageTab } from "./tabs/usage-tab";
@@ -69,6 +73,18 @@ const ALL_TABS: TabConfig[] = [
     icon: IconAdjustmentsHorizontal,
     description: "Advanced AI behavior and system settings",
   },
+  {
+    id: "writing",
+    label: "Writing",
+    icon: IconTextSpellcheck,
+    description: "Proofreading, dictionaries and style guide",
+  },
+  {
+    id: "backups",
+    label: "Backups",
+    icon: IconDatabase,
+    description: "Back up, restore and move your workspace",
+  },
   {
     id: "shortcuts",
     label: "Shortcuts",
@@ -159,6 +175,10 @@ export function SettingsDialog() {
         return <AdvancedTab />;
       case "shortcuts":
         return <ShortcutsTab />;
+      case "writing":
+        return <WritingTab />;
+      case "backups":
+        return <BackupsTab />;
       case "debug":
         return isDevelopment ? <DebugTab /> : null;
       default:
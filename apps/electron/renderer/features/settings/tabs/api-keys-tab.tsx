@@ -29,13 +29,16 @@ import {
   IconEyeOff,
   IconTrash,
   IconBolt,
+  IconServer,
 } from "@tabler/icons-react";
 import {
   ZaiIcon,
   ClaudeIcon,
   OpenAIIcon,
   ChatGPTPlusIcon,
+  CustomEndpointIcon,
 } from "@/components/icons/model-icons";
+import { CustomEndpointCard } from "../components/custom-endpoint-card";
 import { useAtom, useAtomValue, useSetAtom } from "jotai";
 import {
   availableModelsAtom,
@@ -203,7 +206,9 @@ export function ApiKeysTab() {
     setCurrentProvider(p);
     const models = allModelsGrouped[p] || [];
     if (models.length > 0) {
-      const resolved = resolveModelForProvider(p, DEFAULT_MODELS[p]);
+      // Custom endpoint models are discovered, there is no fixed default
+      const resolved =
+        p === "custom" ? models[0] : resolveModelForProvider(p, DEFAULT_MODELS[p]);
       setSelectedModel(resolved.id || models[0].id);
     }
   };
@@ -281,6 +286,19 @@ export function ApiKeysTab() {
                     </div>
                   </SelectItem>
                 </SelectGroup>
+
+                <SelectGroup>
+                  <SelectLabel>Self-hosted</SelectLabel>
+                  <SelectItem
+                    value="custom"
+                    disabled={!keyStatus?.hasCustomProvider}
+                  >
+                    <div className="flex items-center gap-2">
+                      <CustomEndpointIcon size={14} />
+                      <span>Custom Endpoint</span>
+                    </div>
+                  </SelectItem>
+                </SelectGroup>
               </SelectContent>
             </Select>
           </div>
@@ -546,6 +564,27 @@ export function ApiKeysTab() {
             </div>
           </div>
         </div>
+
+        {/* Self-hosted (OpenAI-compatible) Section */}
+        <div className="space-y-4">
+          <div className="flex items-center gap-2 px-1">
+            <IconServer size={18} className="text-muted-foreground" />
+            <h4 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+              Self-hosted
+            </h4>
+          </div>
+
+          <CustomEndpointCard
+            onModelsChanged={() => {
+              // Fall back when the selected custom model disappears
+              if (currentProvider === "custom") {
+                utils.settings.getCustomProvider.fetch().then((config) => {
+                  if (!config?.models.length) setCurrentProvider("openai");
+                });
+              }
+            }}
+          />
+        </div>
       </div>
 
       <div className="pt-4 border-t border-border">
@@ -0,0 +1,382 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import {
+  IconDatabase,
+  IconClock,
+  IconArchive,
+  IconDownload,
+  IconUpload,
+  IconHistory,
+  IconTrash,
+  IconLoader2,
+} from "@tabler/icons-react";
+import { formatDateWithTime } from "@/utils/time-format";
+
+const INTERVAL_OPTIONS = [
+  { hours: 6, label: "Every 6 hours" },
+  { hours: 12, label: "Every 12 hours" },
+  { hours: 24, label: "Daily" },
+  { hours: 72, label: "Every 3 days" },
+  { hours: 168, label: "Weekly" },
+];
+
+const RETENTION_OPTIONS = [3, 5, 10, 20, 50];
+
+type Counts = Record<string, number>;
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+function formatCounts(counts?: Counts): string {
+  if (!counts) return "";
+  const parts = [
+    [counts.chats, "chats"],
+    [counts.chat_messages, "messages"],
+    [counts.artifacts, "artifacts"],
+    [counts.user_files, "files"],
+    [counts.notes_pages, "notes"],
+  ] as const;
+  return parts
+    .filter(([count]) => typeof count === "number")
+    .map(([count, label]) => `${count} ${label}`)
+    .join(" · ");
+}
+
+export function BackupsTab() {
+  const utils = trpc.useUtils();
+  const { data: settings } = trpc.backups.getSettings.useQuery();
+  const { data: backups = [], isLoading } = trpc.backups.list.useQuery();
+  // Backup (id) or import ("import") awaiting confirmation
+  const [pendingRestore, setPendingRestore] = useState<string | null>(null);
+
+  // Restored rows can touch any list in the app
+  const afterRestore = (counts: Counts, message: string) => {
+    utils.invalidate();
+    toast.success(message, { description: formatCounts(counts) });
+  };
+
+  const updateSettingsMutation = trpc.backups.updateSettings.useMutation({
+    onSuccess: () => {
+      utils.backups.getSettings.invalidate();
+      utils.backups.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const createMutation = trpc.backups.create.useMutation({
+    onSuccess: () => {
+      utils.backups.list.invalidate();
+      toast.success("Backup created");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const restoreMutation = trpc.backups.restore.useMutation({
+    onSuccess: (counts) => afterRestore(counts, "Backup restored"),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteMutation = trpc.backups.delete.useMutation({
+    onSuccess: () => utils.backups.list.invalidate(),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const exportMutation = trpc.backups.exportArchive.useMutation({
+    onSuccess: (result) => {
+      if (result.canceled) return;
+      toast.success("Workspace exported", { description: result.path });
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const importMutation = trpc.backups.importArchive.useMutation({
+    onSuccess: (result) => {
+      if (result.canceled) return;
+      afterRestore(result.counts, "Workspace imported");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handleConfirmRestore = () => {
+    if (pendingRestore === "import") {
+      importMutation.mutate();
+    } else if (pendingRestore) {
+      restoreMutation.mutate({ id: pendingRestore });
+    }
+    setPendingRestore(null);
+  };
+
+  const isRestoring = restoreMutation.isPending || importMutation.isPending;
+
+  return (
+    <div className="p-6 space-y-6 overflow-y-auto max-h-[70vh]">
+      <div className="flex flex-col space-y-1.5 text-center sm:text-left">
+        <div className="flex items-center gap-2">
+          <IconDatabase size={18} className="text-primary" />
+          <h3 className="text-sm font-semibold text-foreground">Backups</h3>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Local copies of your chats, artifacts, files and notes
+        </p>
+      </div>
+
+      {/* Schedule Section */}
+      <div className="space-y-4">
+        <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground pl-1">
+          Schedule
+        </h4>
+
+        <div className="bg-background rounded-lg border border-border overflow-hidden">
+          <div className="p-4 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex-1">
+                <div className="flex items-center gap-2">
+                  <IconClock size={16} className="text-muted-foreground" />
+                  <p className="text-sm font-medium text-foreground">
+                    Automatic backups
+                  </p>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Snapshot the workspace in the background while signed in
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <div className="w-36">
+                  <Select
+                    value={String(settings?.intervalHours ?? 24)}
+                    onValueChange={(value) =>
+                      updateSettingsMutation.mutate({
+                        intervalHours: Number(value),
+                      })
+                    }
+                    disabled={!settings?.enabled}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INTERVAL_OPTIONS.map((option) => (
+                        <SelectItem
+                          key={option.hours}
+                          value={String(option.hours)}
+                        >
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Switch
+                  checked={settings?.enabled ?? true}
+                  onCheckedChange={(checked) =>
+                    updateSettingsMutation.mutate({ enabled: checked })
+                  }
+                  className="data-[state=checked]:bg-primary"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-4 pt-4 border-t border-border/50">
+              <div className="flex-1">
+                <div className="flex items-center gap-2">
+                  <IconArchive size={16} className="text-muted-foreground" />
+                  <p className="text-sm font-medium text-foreground">
+                    Retention
+                  </p>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Older backups are deleted when this limit is reached
+                </p>
+              </div>
+              <div className="w-36">
+                <Select
+                  value={String(settings?.retention ?? 10)}
+                  onValueChange={(value) =>
+                    updateSettingsMutation.mutate({ retention: Number(value) })
+                  }
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RETENTION_OPTIONS.map((count) => (
+                      <SelectItem key={count} value={String(count)}>
+                        Keep {count}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Backups List Section */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground pl-1">
+            Local Backups
+          </h4>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs"
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending}
+          >
+            {createMutation.isPending ? (
+              <IconLoader2 size={14} className="mr-2 animate-spin" />
+            ) : (
+              <IconDatabase size={14} className="mr-2" />
+            )}
+            Back up now
+          </Button>
+        </div>
+
+        <div className="bg-background rounded-lg border border-border overflow-hidden divide-y divide-border/50">
+          {isLoading ? (
+            <p className="p-4 text-xs text-muted-foreground">Loading...</p>
+          ) : backups.length === 0 ? (
+            <p className="p-4 text-xs text-muted-foreground">
+              No backups yet
+            </p>
+          ) : (
+            backups.map((backup) => (
+              <div
+                key={backup.id}
+                className="flex items-center justify-between gap-4 px-4 py-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground">
+                    {formatDateWithTime(backup.createdAt)}
+                    <span className="ml-2 text-xs font-normal text-muted-foreground">
+                      {backup.label} · {formatSize(backup.sizeBytes)}
+                    </span>
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {formatCounts(backup.meta?.counts as Counts | undefined)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => setPendingRestore(backup.id)}
+                    disabled={isRestoring}
+                  >
+                    <IconHistory size={14} className="mr-1.5" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                    onClick={() => deleteMutation.mutate({ id: backup.id })}
+                  >
+                    <IconTrash size={14} />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Export / Import Section */}
+      <div className="space-y-4">
+        <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground pl-1">
+          Move Workspace
+        </h4>
+
+        <div className="bg-background rounded-lg border border-border overflow-hidden">
+          <div className="p-4 flex items-center justify-between gap-4">
+            <p className="flex-1 text-xs text-muted-foreground">
+              Export everything to a single .zip file to move it to another
+              machine, or import one into this account.
+            </p>
+            <div className="flex items-center gap-2 shrink-0">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 text-xs"
+                onClick={() => exportMutation.mutate()}
+                disabled={exportMutation.isPending}
+              >
+                {exportMutation.isPending ? (
+                  <IconLoader2 size={14} className="mr-2 animate-spin" />
+                ) : (
+                  <IconDownload size={14} className="mr-2" />
+                )}
+                Export
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 text-xs"
+                onClick={() => setPendingRestore("import")}
+                disabled={isRestoring}
+              >
+                {importMutation.isPending ? (
+                  <IconLoader2 size={14} className="mr-2 animate-spin" />
+                ) : (
+                  <IconUpload size={14} className="mr-2" />
+                )}
+                Import
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <AlertDialog
+        open={pendingRestore !== null}
+        onOpenChange={(open) => !open && setPendingRestore(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingRestore === "import"
+                ? "Import workspace?"
+                : "Restore backup?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Items in the backup replace their current versions. Items created
+              afterwards are kept. A backup of the current state is taken first,
+              so you can undo this from the list.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmRestore}>
+              {pendingRestore === "import" ? "Choose file" : "Restore"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -4,3 +4,5 @@ export { ApiKeysTab } from './api-keys-tab'
 export { AdvancedTab } from './advanced-tab'
 export { ShortcutsTab } from './shortcuts-tab'
 export { DebugTab } from './debug-tab'
+export { BackupsTab } from './backups-tab'
+export { WritingTab } from './writing-tab'
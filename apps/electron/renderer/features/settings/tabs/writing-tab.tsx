@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useAtom } from "jotai";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import {
+  IconTextSpellcheck,
+  IconBook,
+  IconBan,
+  IconPlus,
+  IconTrash,
+  IconRestore,
+} from "@tabler/icons-react";
+import { ruleLabel } from "@s-agi/core/utils/proofreading";
+import { proofreadingEnabledAtom } from "@/lib/atoms";
+import { DictionaryManager } from "../components/dictionary-manager";
+
+export function WritingTab() {
+  const utils = trpc.useUtils();
+  const [enabled, setEnabled] = useAtom(proofreadingEnabledAtom);
+  const { data: settings, isLoading } =
+    trpc.proofreading.getSettings.useQuery();
+  const [term, setTerm] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const [note, setNote] = useState("");
+
+  const styleGuide = settings?.styleGuide ?? [];
+  const ignoredRules = settings?.ignoredRules ?? [];
+
+  const updateSettingsMutation = trpc.proofreading.updateSettings.useMutation({
+    onSuccess: (updated) =>
+      utils.proofreading.getSettings.setData(undefined, updated),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const restoreRuleMutation = trpc.proofreading.restoreRule.useMutation({
+    onSuccess: (updated) =>
+      utils.proofreading.getSettings.setData(undefined, updated),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handleAddTerm = () => {
+    const value = term.trim();
+    if (!value) return;
+    if (styleGuide.some((t) => t.term.toLowerCase() === value.toLowerCase())) {
+      toast.error(`"${value}" is already in the style guide`);
+      return;
+    }
+    updateSettingsMutation.mutate({
+      styleGuide: [
+        ...styleGuide,
+        {
+          term: value,
+          replacement: replacement.trim() || undefined,
+          note: note.trim() || undefined,
+        },
+      ],
+    });
+    setTerm("");
+    setReplacement("");
+    setNote("");
+  };
+
+  const handleRemoveTerm = (removed: string) => {
+    updateSettingsMutation.mutate({
+      styleGuide: styleGuide.filter((t) => t.term !== removed),
+    });
+  };
+
+  return (
+    <div className="p-6 space-y-6 overflow-y-auto max-h-[70vh]">
+      <div className="flex flex-col space-y-1.5 text-center sm:text-left">
+        <div className="flex items-center gap-2">
+          <IconTextSpellcheck size={18} className="text-primary" />
+          <h3 className="text-sm font-semibold text-foreground">Writing</h3>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Spelling, grammar and style suggestions in documents and notes
+        </p>
+      </div>
+
+      <div className="bg-background rounded-lg border border-border overflow-hidden">
+        <div className="p-4 flex items-center justify-between gap-4">
+          <div className="flex-1">
+            <p className="text-sm font-medium text-foreground">
+              Show suggestions
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">
+              Underline issues while you write. Rules run offline; the AI
+              review only runs when you ask for it
+            </p>
+          </div>
+          <Switch
+            checked={enabled}
+            onCheckedChange={setEnabled}
+            className="data-[state=checked]:bg-primary"
+          />
+        </div>
+      </div>
+
+      <DictionaryManager />
+
+      {/* Style Guide Section */}
+      <div className="space-y-4">
+        <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground pl-1">
+          Style Guide
+        </h4>
+        <div className="bg-background rounded-lg border border-border overflow-hidden divide-y divide-border/50">
+          <div className="p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <IconBook size={16} className="text-muted-foreground" />
+              <p className="text-xs text-muted-foreground">
+                Terms the team avoids, with the preferred wording
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                value={term}
+                onChange={(e) => setTerm(e.target.value)}
+                placeholder="Avoid"
+                className="h-8 text-xs"
+              />
+              <Input
+                value={replacement}
+                onChange={(e) => setReplacement(e.target.value)}
+                placeholder="Use instead (optional)"
+                className="h-8 text-xs"
+              />
+              <Input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAddTerm()}
+                placeholder="Why (optional)"
+                className="h-8 text-xs"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 text-xs shrink-0"
+                onClick={handleAddTerm}
+                disabled={!term.trim() || updateSettingsMutation.isPending}
+              >
+                <IconPlus size={14} className="mr-1.5" />
+                Add
+              </Button>
+            </div>
+          </div>
+          {isLoading ? (
+            <p className="p-4 text-xs text-muted-foreground">Loading...</p>
+          ) : styleGuide.length === 0 ? (
+            <p className="p-4 text-xs text-muted-foreground">
+              No style guide terms yet
+            </p>
+          ) : (
+            styleGuide.map((t) => (
+              <div
+                key={t.term}
+                className="flex items-center justify-between gap-4 px-4 py-2.5"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-foreground">
+                    <span className="line-through decoration-muted-foreground/60">
+                      {t.term}
+                    </span>
+                    {t.replacement && (
+                      <span className="ml-2 font-medium">→ {t.replacement}</span>
+                    )}
+                  </p>
+                  {t.note && (
+                    <p className="text-xs text-muted-foreground truncate">
+                      {t.note}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                  onClick={() => handleRemoveTerm(t.term)}
+                >
+                  <IconTrash size={14} />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Ignored Rules Section */}
+      <div className="space-y-4">
+        <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground pl-1">
+          Ignored Rules
+        </h4>
+        <div className="bg-background rounded-lg border border-border overflow-hidden divide-y divide-border/50">
+          {ignoredRules.length === 0 ? (
+            <div className="flex items-center gap-2 p-4">
+              <IconBan size={16} className="text-muted-foreground" />
+              <p className="text-xs text-muted-foreground">
+                Rules you ignore from a suggestion appear here
+              </p>
+            </div>
+          ) : (
+            ignoredRules.map((ruleId) => (
+              <div
+                key={ruleId}
+                className="flex items-center justify-between gap-4 px-4 py-2.5"
+              >
+                <p className="text-sm text-foreground">{ruleLabel(ruleId)}</p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => restoreRuleMutation.mutate({ ruleId })}
+                  disabled={restoreRuleMutation.isPending}
+                >
+                  <IconRestore size={14} className="mr-1.5" />
+                  Restore
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useMemo, useRef, useEffect, useCallback } from "react";
 import { useAtom, useAtomValue, useSetAtom } from "jotai";
-import { ZaiIcon } from "@/components/icons/model-icons";
+import { ZaiIcon, CustomEndpointIcon } from "@/components/icons/model-icons";
 // NOTE: Gemini disabled - import { ZaiIcon, GeminiIcon } from '@/components/icons/model-icons'
 import {
   IconPlus,
@@ -605,7 +605,9 @@ export function Sidebar() {
           ? keyStatus?.hasZai
           : provider === "claude"
             ? keyStatus?.hasClaudeCode
-            : keyStatus?.hasAnthropic;
+            : provider === "custom"
+              ? keyStatus?.hasCustomProvider
+              : keyStatus?.hasAnthropic;
 
   // Fetch session
   const { data: session } = trpc.auth.getSession.useQuery();
@@ -1088,6 +1090,8 @@ export function Sidebar() {
             <IconBrandOpenai size={18} className="shrink-0" />
           ) : provider === "zai" ? (
             <ZaiIcon className="shrink-0 text-amber-500" size={18} />
+          ) : provider === "custom" ? (
+            <CustomEndpointIcon className="shrink-0 text-sky-500" size={18} />
           ) : (
             // NOTE: gemini-advanced disabled
             <IconBrain size={18} className="shrink-0" />
@@ -1101,8 +1105,10 @@ export function Sidebar() {
                     ? "OpenAI"
                     : provider === "zai"
                       ? "Z.AI"
-                      : // NOTE: gemini-advanced disabled
-                        "Anthropic"}
+                      : provider === "custom"
+                        ? "Custom Endpoint"
+                        : // NOTE: gemini-advanced disabled
+                          "Anthropic"}
               </p>
             </div>
             <p className="text-[10px] text-muted-foreground leading-none">
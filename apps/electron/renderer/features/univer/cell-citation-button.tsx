@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react'
+import { IconFileText } from '@tabler/icons-react'
+import { cn } from '@/lib/utils'
+import { useCitationNavigation } from '@/hooks'
+import type { CitationData } from '@/components/inline-citation'
+import { getSheetsInstance } from './univer-sheets-core'
+
+interface CellCitationButtonProps {
+  className?: string
+}
+
+/**
+ * Shows the source of the selected cell when it carries a PDF citation
+ * (`custom.citation`, written by the PDF agent's extract_tables) and opens
+ * the PDF at that page
+ */
+export function CellCitationButton({ className }: CellCitationButtonProps) {
+  const [citation, setCitation] = useState<CitationData | null>(null)
+  const { navigateToCitation, canNavigate } = useCitationNavigation()
+
+  useEffect(() => {
+    const instance = getSheetsInstance()
+    if (!instance?.api) return
+
+    const api = instance.api
+    let disposable: { dispose: () => void } | null = null
+
+    try {
+      disposable = api.addEvent(api.Event.SelectionChanged, (params: any) => {
+        const range = params.selections?.[0]?.range
+        if (!range || range.startRow !== range.endRow || range.startColumn !== range.endColumn) {
+          setCitation(null)
+          return
+        }
+
+        const cell = api.getActiveWorkbook()?.getActiveSheet()?.getRange(range.startRow, range.startColumn)?.getCellData()
+        const source = cell?.custom?.citation as CitationData | undefined
+        setCitation(source?.filename ? source : null)
+      })
+    } catch (error) {
+      console.error('[CellCitationButton] Failed to subscribe:', error)
+    }
+
+    return () => {
+      disposable?.dispose()
+    }
+  }, [])
+
+  if (!citation || !canNavigate(citation)) return null
+
+  return (
+    <button
+      type="button"
+      onClick={() => navigateToCitation(citation)}
+      className={cn(
+        'absolute z-40 flex items-center gap-1.5 px-3 py-1.5 max-w-[60%]',
+        'bg-card border shadow-lg rounded-lg text-xs font-medium',
+        'hover:bg-muted transition-colors',
+        'animate-in fade-in-0 zoom-in-95 duration-150',
+        className
+      )}
+      style={{ bottom: 8, left: 8 }}
+      title={citation.text}
+    >
+      <IconFileText size={14} className="shrink-0" />
+      <span className="truncate">
+        {citation.filename}
+        {citation.pageNumber ? ` · p. ${citation.pageNumber}` : ''}
+      </span>
+      <span className="shrink-0 text-muted-foreground">Ver en el PDF</span>
+    </button>
+  )
+}
@@ -0,0 +1,379 @@
+/**
+ * Native Excel charts for workbook charts (SHEET_CHART_PLUGIN)
+ *
+ * ExcelJS cannot write charts, so they are added to the .xlsx package after
+ * ExcelJS has written it: one DrawingML chart part per chart, anchored in the
+ * sheet's drawing. Series reference the bound ranges, so the charts stay live
+ * in Excel; the cached values are the ones in the snapshot at export time.
+ */
+
+import JSZip from "jszip";
+import {
+  formatRangeRef,
+  parseRangeRef,
+  readSheetCharts,
+  snapshotRangeReader,
+  type RangeReader,
+  type SheetChart,
+} from "@s-agi/core/utils/sheet-charts";
+import type { UniverWorkbookData } from "./exceljs-exchange";
+
+const NS_REL =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const REL_DRAWING = `${NS_REL}/drawing`;
+const REL_CHART = `${NS_REL}/chart`;
+const CT_DRAWING = "application/vnd.openxmlformats-officedocument.drawing+xml";
+const CT_CHART =
+  "application/vnd.openxmlformats-officedocument.drawingml.chart+xml";
+
+const EMU_PER_PIXEL = 9525;
+
+// Worksheet children that must come after <drawing> (CT_Worksheet order)
+const AFTER_DRAWING = [
+  "legacyDrawing",
+  "legacyDrawingHF",
+  "drawingHF",
+  "picture",
+  "oleObjects",
+  "controls",
+  "webPublishItems",
+  "tableParts",
+  "extLst",
+];
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const unescapeXml = (value: string): string =>
+  value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+const relsPathOf = (partPath: string): string => {
+  const slash = partPath.lastIndexOf("/");
+  return `${partPath.slice(0, slash)}/_rels/${partPath.slice(slash + 1)}.rels`;
+};
+
+/** Resolve a relationship target against the folder of its source part */
+const resolveTarget = (partPath: string, target: string): string => {
+  if (target.startsWith("/")) return target.slice(1);
+  const parts = partPath.split("/").slice(0, -1);
+  for (const segment of target.split("/")) {
+    if (segment === "..") parts.pop();
+    else if (segment !== ".") parts.push(segment);
+  }
+  return parts.join("/");
+};
+
+const nextPartNumber = (zip: JSZip, prefix: string): number => {
+  let n = 1;
+  while (zip.file(`${prefix}${n}.xml`)) n++;
+  return n;
+};
+
+const readRels = async (
+  zip: JSZip,
+  relsPath: string,
+): Promise<Array<{ id: string; type: string; target: string }>> => {
+  const xml = await zip.file(relsPath)?.async("string");
+  if (!xml) return [];
+  return [...xml.matchAll(/<Relationship\b[^>]*\/?>/g)].map((match) => ({
+    id: /\bId="([^"]+)"/.exec(match[0])?.[1] ?? "",
+    type: /\bType="([^"]+)"/.exec(match[0])?.[1] ?? "",
+    target: unescapeXml(/\bTarget="([^"]+)"/.exec(match[0])?.[1] ?? ""),
+  }));
+};
+
+/** Add a relationship to a part and return its id */
+const addRel = async (
+  zip: JSZip,
+  relsPath: string,
+  type: string,
+  target: string,
+): Promise<string> => {
+  const existing = await readRels(zip, relsPath);
+  const used = new Set(existing.map((rel) => rel.id));
+  let n = existing.length + 1;
+  while (used.has(`rId${n}`)) n++;
+  const id = `rId${n}`;
+  const rel = `<Relationship Id="${id}" Type="${type}" Target="${escapeXml(target)}"/>`;
+
+  const xml = await zip.file(relsPath)?.async("string");
+  zip.file(
+    relsPath,
+    xml
+      ? xml.replace("</Relationships>", `${rel}</Relationships>`)
+      : `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${rel}</Relationships>`,
+  );
+  return id;
+};
+
+const addContentType = async (
+  zip: JSZip,
+  partName: string,
+  contentType: string,
+): Promise<void> => {
+  const xml = await zip.file("[Content_Types].xml")?.async("string");
+  if (!xml || xml.includes(`PartName="${partName}"`)) return;
+  zip.file(
+    "[Content_Types].xml",
+    xml.replace(
+      "</Types>",
+      `<Override PartName="${partName}" ContentType="${contentType}"/></Types>`,
+    ),
+  );
+};
+
+/** Sheet name -> worksheet part path, from the workbook part */
+const readSheetParts = async (zip: JSZip): Promise<Map<string, string>> => {
+  const workbookXml = (await zip.file("xl/workbook.xml")?.async("string")) ?? "";
+  const rels = await readRels(zip, "xl/_rels/workbook.xml.rels");
+  const parts = new Map<string, string>();
+  for (const match of workbookXml.matchAll(/<sheet\b[^>]*\/>/g)) {
+    const name = /\bname="([^"]*)"/.exec(match[0])?.[1];
+    const relId = /\br:id="([^"]+)"/.exec(match[0])?.[1];
+    const rel = rels.find((r) => r.id === relId);
+    if (name !== undefined && rel) {
+      parts.set(unescapeXml(name), resolveTarget("xl/workbook.xml", rel.target));
+    }
+  }
+  return parts;
+};
+
+/** Drawing part of a worksheet, created and linked when missing */
+const ensureDrawing = async (zip: JSZip, sheetPath: string): Promise<string> => {
+  const sheetRels = relsPathOf(sheetPath);
+  const sheetXml = (await zip.file(sheetPath)?.async("string")) ?? "";
+  const drawingRelId = /<drawing\b[^>]*r:id="([^"]+)"/.exec(sheetXml)?.[1];
+  if (drawingRelId) {
+    const rel = (await readRels(zip, sheetRels)).find(
+      (r) => r.id === drawingRelId,
+    );
+    if (rel) return resolveTarget(sheetPath, rel.target);
+  }
+
+  const n = nextPartNumber(zip, "xl/drawings/drawing");
+  const drawingPath = `xl/drawings/drawing${n}.xml`;
+  zip.file(
+    drawingPath,
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<xdr:wsDr xmlns:xdr="http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"></xdr:wsDr>`,
+  );
+  await addContentType(zip, `/${drawingPath}`, CT_DRAWING);
+
+  const relId = await addRel(zip, sheetRels, REL_DRAWING, `../drawings/drawing${n}.xml`);
+  const element = `<drawing xmlns:r="${NS_REL}" r:id="${relId}"/>`;
+  const before = AFTER_DRAWING.map((tag) => sheetXml.indexOf(`<${tag}`)).filter(
+    (index) => index >= 0,
+  );
+  const at = before.length > 0 ? Math.min(...before) : sheetXml.lastIndexOf("</worksheet>");
+  zip.file(sheetPath, `${sheetXml.slice(0, at)}${element}${sheetXml.slice(at)}`);
+  return drawingPath;
+};
+
+// ============================================
+// CHART XML
+// ============================================
+
+const richText = (text: string): string =>
+  `<c:tx><c:rich><a:bodyPr/><a:lstStyle/><a:p><a:r><a:t>${escapeXml(text)}</a:t></a:r></a:p></c:rich></c:tx><c:overlay val="0"/>`;
+
+const strRef = (formula: string, values: string[]): string =>
+  `<c:strRef><c:f>${escapeXml(formula)}</c:f><c:strCache><c:ptCount val="${values.length}"/>${values
+    .map((v, i) => `<c:pt idx="${i}"><c:v>${escapeXml(v)}</c:v></c:pt>`)
+    .join("")}</c:strCache></c:strRef>`;
+
+const numRef = (formula: string, values: Array<number | null>): string =>
+  `<c:numRef><c:f>${escapeXml(formula)}</c:f><c:numCache><c:formatCode>General</c:formatCode><c:ptCount val="${values.length}"/>${values
+    .map((v, i) => (v === null ? "" : `<c:pt idx="${i}"><c:v>${v}</c:v></c:pt>`))
+    .join("")}</c:numCache></c:numRef>`;
+
+const solidFill = (color?: string): string =>
+  color && /^#?[0-9a-f]{6}$/i.test(color)
+    ? `<a:solidFill><a:srgbClr val="${color.replace("#", "").toUpperCase()}"/></a:solidFill>`
+    : "";
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim() !== "") {
+    const n = Number(value.replace(/[,\s]/g, ""));
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+};
+
+/**
+ * DrawingML chart part for one chart. Range formulas are sheet-qualified
+ * and absolute, as Excel writes them.
+ */
+export function buildChartXml(
+  chart: SheetChart,
+  sheetName: string,
+  read: RangeReader,
+): string {
+  const formula = (ref: string) => formatRangeRef(parseRangeRef(ref), sheetName);
+  const cells = (ref: string) => read(parseRangeRef(ref), chart.sheetId).flat();
+
+  const categories = chart.categories
+    ? {
+        formula: formula(chart.categories),
+        values: cells(chart.categories).map((v) =>
+          v === null || v === undefined ? "" : String(v),
+        ),
+      }
+    : null;
+
+  const isPie = chart.type === "pie" || chart.type === "doughnut";
+  const isScatter = chart.type === "scatter";
+  const series = (isPie ? chart.series.slice(0, 1) : chart.series).map((s, index) => {
+    const name = s.nameRef
+      ? `<c:tx>${strRef(formula(s.nameRef), [String(cells(s.nameRef)[0] ?? "")])}</c:tx>`
+      : s.name
+        ? `<c:tx><c:v>${escapeXml(s.name)}</c:v></c:tx>`
+        : "";
+    const fill = solidFill(s.color);
+    const spPr = isScatter
+      ? `<c:spPr><a:ln w="19050"><a:noFill/></a:ln></c:spPr>`
+      : fill
+        ? chart.type === "line"
+          ? `<c:spPr><a:ln w="28575">${fill}</a:ln></c:spPr>`
+          : `<c:spPr>${fill}</c:spPr>`
+        : "";
+    const values = numRef(formula(s.values), cells(s.values).map(toNumber));
+    const cat = categories
+      ? isScatter
+        ? `<c:xVal>${numRef(categories.formula, categories.values.map(toNumber))}</c:xVal>`
+        : `<c:cat>${strRef(categories.formula, categories.values)}</c:cat>`
+      : "";
+
+    let body = `<c:idx val="${index}"/><c:order val="${index}"/>${name}${spPr}`;
+    if (chart.type === "bar") body += `<c:invertIfNegative val="0"/>`;
+    if (chart.type === "line") body += `<c:marker><c:symbol val="none"/></c:marker>`;
+    if (isScatter) {
+      body += `<c:marker><c:symbol val="circle"/><c:size val="6"/>${fill ? `<c:spPr>${fill}</c:spPr>` : ""}</c:marker>`;
+      body += `${cat}<c:yVal>${values}</c:yVal><c:smooth val="0"/>`;
+    } else {
+      body += `${cat}<c:val>${values}</c:val>`;
+      if (chart.type === "line") body += `<c:smooth val="0"/>`;
+    }
+    return `<c:ser>${body}</c:ser>`;
+  });
+
+  const grouping = chart.stacked ? "stacked" : chart.type === "bar" ? "clustered" : "standard";
+  const axIds = `<c:axId val="100000001"/><c:axId val="100000002"/>`;
+  let plot: string;
+  switch (chart.type) {
+    case "pie":
+      plot = `<c:pieChart><c:varyColors val="1"/>${series.join("")}<c:firstSliceAng val="0"/></c:pieChart>`;
+      break;
+    case "doughnut":
+      plot = `<c:doughnutChart><c:varyColors val="1"/>${series.join("")}<c:firstSliceAng val="0"/><c:holeSize val="50"/></c:doughnutChart>`;
+      break;
+    case "line":
+      plot = `<c:lineChart><c:grouping val="${grouping}"/><c:varyColors val="0"/>${series.join("")}<c:marker val="1"/>${axIds}</c:lineChart>`;
+      break;
+    case "area":
+      plot = `<c:areaChart><c:grouping val="${grouping}"/><c:varyColors val="0"/>${series.join("")}${axIds}</c:areaChart>`;
+      break;
+    case "scatter":
+      plot = `<c:scatterChart><c:scatterStyle val="lineMarker"/><c:varyColors val="0"/>${series.join("")}${axIds}</c:scatterChart>`;
+      break;
+    default:
+      plot = `<c:barChart><c:barDir val="col"/><c:grouping val="${grouping}"/><c:varyColors val="0"/>${series.join("")}<c:gapWidth val="150"/>${chart.stacked ? `<c:overlap val="100"/>` : ""}${axIds}</c:barChart>`;
+  }
+
+  const axisTitle = (title?: string) => (title ? `<c:title>${richText(title)}</c:title>` : "");
+  const xAxis = isScatter
+    ? `<c:valAx><c:axId val="100000001"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/><c:axPos val="b"/>${axisTitle(chart.xAxisTitle)}<c:numFmt formatCode="General" sourceLinked="1"/><c:majorTickMark val="out"/><c:minorTickMark val="none"/><c:tickLblPos val="nextTo"/><c:crossAx val="100000002"/><c:crosses val="autoZero"/><c:crossBetween val="midCat"/></c:valAx>`
+    : `<c:catAx><c:axId val="100000001"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/><c:axPos val="b"/>${axisTitle(chart.xAxisTitle)}<c:numFmt formatCode="General" sourceLinked="1"/><c:majorTickMark val="out"/><c:minorTickMark val="none"/><c:tickLblPos val="nextTo"/><c:crossAx val="100000002"/><c:crosses val="autoZero"/><c:auto val="1"/><c:lblAlgn val="ctr"/><c:lblOffset val="100"/><c:noMultiLvlLbl val="0"/></c:catAx>`;
+  const yAxis = `<c:valAx><c:axId val="100000002"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/><c:axPos val="l"/><c:majorGridlines/>${axisTitle(chart.yAxisTitle)}<c:numFmt formatCode="General" sourceLinked="1"/><c:majorTickMark val="out"/><c:minorTickMark val="none"/><c:tickLblPos val="nextTo"/><c:crossAx val="100000001"/><c:crosses val="autoZero"/><c:crossBetween val="${chart.type === "area" ? "midCat" : "between"}"/></c:valAx>`;
+
+  const showLegend = chart.showLegend ?? (isPie || chart.series.length > 1);
+  const title = chart.title
+    ? `<c:title>${richText(chart.title)}</c:title><c:autoTitleDeleted val="0"/>`
+    : `<c:autoTitleDeleted val="1"/>`;
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<c:chartSpace xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="${NS_REL}">` +
+    `<c:roundedCorners val="0"/><c:chart>${title}<c:plotArea><c:layout/>${plot}${isPie ? "" : xAxis + yAxis}</c:plotArea>` +
+    `${showLegend ? `<c:legend><c:legendPos val="b"/><c:overlay val="0"/></c:legend>` : ""}` +
+    `<c:plotVisOnly val="1"/><c:dispBlanksAs val="gap"/></c:chart></c:chartSpace>`
+  );
+}
+
+const chartAnchorXml = (chart: SheetChart, relId: string, index: number): string => {
+  const { anchor } = chart;
+  const cx = Math.round(anchor.width * EMU_PER_PIXEL);
+  const cy = Math.round(anchor.height * EMU_PER_PIXEL);
+  return (
+    `<xdr:oneCellAnchor>` +
+    `<xdr:from><xdr:col>${anchor.column}</xdr:col><xdr:colOff>${Math.round((anchor.columnOffset ?? 0) * EMU_PER_PIXEL)}</xdr:colOff>` +
+    `<xdr:row>${anchor.row}</xdr:row><xdr:rowOff>${Math.round((anchor.rowOffset ?? 0) * EMU_PER_PIXEL)}</xdr:rowOff></xdr:from>` +
+    `<xdr:ext cx="${cx}" cy="${cy}"/>` +
+    `<xdr:graphicFrame macro=""><xdr:nvGraphicFramePr><xdr:cNvPr id="${index}" name="${escapeXml(chart.title || `Chart ${index}`)}"/><xdr:cNvGraphicFramePr/></xdr:nvGraphicFramePr>` +
+    `<xdr:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/></xdr:xfrm>` +
+    `<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/chart">` +
+    `<c:chart xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" xmlns:r="${NS_REL}" r:id="${relId}"/>` +
+    `</a:graphicData></a:graphic></xdr:graphicFrame><xdr:clientData/></xdr:oneCellAnchor>`
+  );
+};
+
+/**
+ * Add the workbook's charts to an .xlsx written by ExcelJS. Returns the
+ * buffer unchanged when there are no charts.
+ */
+export async function addNativeCharts(
+  buffer: ArrayBuffer,
+  univerData: UniverWorkbookData,
+): Promise<ArrayBuffer> {
+  const charts = readSheetCharts(univerData);
+  if (charts.length === 0) return buffer;
+
+  const zip = await JSZip.loadAsync(buffer);
+  const sheetParts = await readSheetParts(zip);
+  const read = snapshotRangeReader(univerData);
+  let shapeId = 1000;
+
+  for (const chart of charts) {
+    const sheetName = univerData.sheets[chart.sheetId]?.name;
+    const sheetPath = sheetName ? sheetParts.get(sheetName) : undefined;
+    if (!sheetName || !sheetPath) continue;
+
+    let chartXml: string;
+    try {
+      chartXml = buildChartXml(chart, sheetName, read);
+    } catch (error) {
+      console.warn(`[ExcelJSCharts] Skipping chart ${chart.id}:`, error);
+      continue;
+    }
+
+    const n = nextPartNumber(zip, "xl/charts/chart");
+    zip.file(`xl/charts/chart${n}.xml`, chartXml);
+    await addContentType(zip, `/xl/charts/chart${n}.xml`, CT_CHART);
+
+    const drawingPath = await ensureDrawing(zip, sheetPath);
+    const relId = await addRel(
+      zip,
+      relsPathOf(drawingPath),
+      REL_CHART,
+      `../charts/chart${n}.xml`,
+    );
+    const drawingXml = (await zip.file(drawingPath)?.async("string")) ?? "";
+    zip.file(
+      drawingPath,
+      drawingXml.replace(
+        "</xdr:wsDr>",
+        `${chartAnchorXml(chart, relId, ++shapeId)}</xdr:wsDr>`,
+      ),
+    );
+  }
+
+  return zip.generateAsync({ type: "arraybuffer", compression: "DEFLATE" });
+}
@@ -4,20 +4,35 @@
  * ExcelJS provides complete Excel compatibility including:
  * - Full cell styles (font, fill, borders, alignment) with 100% fidelity
  * - Images and drawings (PNG, JPEG, GIF)
- * - Charts (basic support)
+ * - Charts bound to sheet ranges (native charts, see ./exceljs-charts)
  * - Conditional formatting
  * - Data validation
  * - Formulas (preserved as-is)
  * - Merged cells
  * - Column widths and row heights
+ * - Frozen panes and auto-filters
+ * - Defined names
  * - Hyperlinks
- * - Comments
+ * - Comments (cell notes)
+ *
+ * Sheet-level features are mapped in ./exceljs-sheet-features.
  *
  * 100% FREE - MIT License
  */
 
 import ExcelJS from "exceljs";
 import { saveAs } from "file-saver";
+import {
+  applyDefinedNames,
+  applySheetFeatures,
+  collectDefinedNames,
+  collectSheetFeatures,
+  readDefinedNames,
+  readSheetFeatures,
+  storeDefinedNames,
+  storeSheetFeatures,
+} from "./exceljs-sheet-features";
+import { addNativeCharts } from "./exceljs-charts";
 
 // ============================================
 // UNIVER DATA TYPES
@@ -510,6 +525,12 @@ async function convertUniverToExcelJS(
   const sheetOrder =
     univerData.sheetOrder || Object.keys(univerData.sheets || {});
 
+  const sheetNamesById: Record<string, string> = {};
+  for (const sheetId of sheetOrder) {
+    const sheet = univerData.sheets?.[sheetId];
+    if (sheet) sheetNamesById[sheetId] = sheet.name || sheetId;
+  }
+
   for (const sheetId of sheetOrder) {
     const univerSheet = univerData.sheets?.[sheetId];
     if (!univerSheet) continue;
@@ -610,6 +631,13 @@ async function convertUniverToExcelJS(
       }
     }
 
+    // Frozen panes, validation, conditional formats, filters, links, notes
+    applySheetFeatures(
+      worksheet,
+      collectSheetFeatures(univerData, sheetId),
+      sheetNamesById,
+    );
+
     // Handle images/drawings from resources
     if (univerData.resources) {
       console.log(
@@ -737,6 +765,8 @@ async function convertUniverToExcelJS(
     }
   }
 
+  applyDefinedNames(workbook, collectDefinedNames(univerData));
+
   return workbook;
 }
 
@@ -907,6 +937,10 @@ function convertExcelJSToUniver(
 
   let styleIndex = 0;
   const styleMap = new Map<string, string>();
+  const importedSheets: Array<{
+    worksheet: ExcelJS.Worksheet;
+    sheetId: string;
+  }> = [];
 
   workbook.eachSheet((worksheet) => {
     const sheetIndex = workbook.worksheets.indexOf(worksheet);
@@ -964,6 +998,9 @@ function convertExcelJSToUniver(
             typeof result === "boolean"
               ? result
               : String(result ?? "");
+        } else if (cell.type === ExcelJS.ValueType.Hyperlink) {
+          // Link targets are stored separately by readSheetFeatures
+          univerCell.v = cell.text;
         } else {
           const cellValue = cell.value;
           univerCell.v =
@@ -1117,8 +1154,23 @@ function convertExcelJSToUniver(
     }
 
     univerData.sheets[sheetId] = sheetData;
+    importedSheets.push({ worksheet, sheetId });
   });
 
+  // Sheet features need every sheet id up front to resolve internal links
+  const sheetIdsByName: Record<string, string> = {};
+  for (const { worksheet, sheetId } of importedSheets) {
+    sheetIdsByName[worksheet.name] = sheetId;
+  }
+  for (const { worksheet, sheetId } of importedSheets) {
+    storeSheetFeatures(
+      univerData,
+      sheetId,
+      readSheetFeatures(worksheet, sheetIdsByName),
+    );
+  }
+  storeDefinedNames(univerData, readDefinedNames(workbook));
+
   return univerData;
 }
 
@@ -1297,7 +1349,8 @@ export async function exportToExcelBuffer(
 ): Promise<ArrayBuffer> {
   const workbook = await convertUniverToExcelJS(univerData);
   const buffer = await workbook.xlsx.writeBuffer();
-  return buffer;
+  // ExcelJS has no chart writer; charts are added to the package afterwards
+  return addNativeCharts(buffer as ArrayBuffer, univerData);
 }
 
 /**
@@ -0,0 +1,1657 @@
+/**
+ * Sheet-level feature mapping between Univer snapshots and ExcelJS workbooks
+ *
+ * Covers everything that lives outside of cellData:
+ * - Frozen panes (worksheet views)
+ * - Data validation
+ * - Conditional formatting
+ * - Auto-filter range
+ * - Defined names
+ * - Hyperlinks
+ * - Cell notes
+ *
+ * Univer stores most of these in plugin resources (SHEET_*_PLUGIN), while the
+ * agent tools write simplified fields straight onto the sheet or workbook
+ * (`dataValidations`, `conditionalFormattingRules`, `filter`, `comments`,
+ * `namedRanges`). Export understands both shapes; import always produces the
+ * native plugin resources so the features show up in the Univer UI.
+ */
+
+import type ExcelJS from "exceljs";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface UniverRange {
+  startRow: number;
+  endRow: number;
+  startColumn: number;
+  endColumn: number;
+}
+
+export interface UniverFreeze {
+  xSplit: number;
+  ySplit: number;
+  startRow: number;
+  startColumn: number;
+}
+
+export interface UniverDataValidationRule {
+  uid: string;
+  type: string;
+  ranges: UniverRange[];
+  operator?: string;
+  formula1?: string;
+  formula2?: string;
+  allowBlank?: boolean;
+  showDropDown?: boolean;
+  /** DataValidationErrorStyle: 0 = info, 1 = stop, 2 = warning */
+  errorStyle?: number;
+  error?: string;
+  errorTitle?: string;
+  showErrorMessage?: boolean;
+  prompt?: string;
+  promptTitle?: string;
+  showInputMessage?: boolean;
+}
+
+export interface UniverConditionalFormatRule {
+  cfId: string;
+  ranges: UniverRange[];
+  stopIfTrue: boolean;
+  rule: { type: string; [key: string]: unknown };
+}
+
+/** Only the filter range survives the trip; XLSX has no place for criteria */
+export interface UniverAutoFilter {
+  ref: UniverRange;
+}
+
+export interface UniverHyperLink {
+  id: string;
+  row: number;
+  column: number;
+  payload: string;
+}
+
+export interface UniverSheetNote {
+  note: string;
+  width: number;
+  height: number;
+  show?: boolean;
+}
+
+export interface UniverDefinedName {
+  id: string;
+  name: string;
+  formulaOrRefString: string;
+  comment?: string;
+  localSheetId?: string;
+  hidden?: boolean;
+}
+
+export interface UniverSheetFeatures {
+  freeze?: UniverFreeze;
+  dataValidations: UniverDataValidationRule[];
+  conditionalFormats: UniverConditionalFormatRule[];
+  autoFilter?: UniverAutoFilter;
+  hyperlinks: UniverHyperLink[];
+  /** Notes keyed by row, then column (same layout as SHEET_NOTE_PLUGIN) */
+  notes: Record<string, Record<string, UniverSheetNote>>;
+}
+
+/** Minimal view of the snapshot this module reads and writes */
+interface FeatureSnapshot {
+  sheets: Record<string, Record<string, unknown>>;
+  resources?: Array<{ name: string; data: string }>;
+  [key: string]: unknown;
+}
+
+/** ExcelJS exposes these at runtime but leaves them out of its typings */
+type FeatureWorksheet = ExcelJS.Worksheet & {
+  dataValidations: {
+    model: Record<string, ExcelJS.DataValidation | undefined>;
+    add(address: string, validation: ExcelJS.DataValidation): void;
+  };
+  conditionalFormattings?: ExcelJS.ConditionalFormattingOptions[];
+};
+
+/** Rule model as ExcelJS parses it; text rules keep Excel's own type names */
+interface ExcelConditionalRuleModel {
+  type: string;
+  priority?: number;
+  operator?: string;
+  formulae?: unknown[];
+  style?: Partial<ExcelJS.Style>;
+  cfvo?: ExcelJS.Cvfo[];
+  color?: unknown;
+  iconSet?: string;
+  showValue?: boolean;
+  gradient?: boolean;
+  rank?: number;
+  percent?: boolean;
+  bottom?: boolean;
+  aboveAverage?: boolean;
+  timePeriod?: string;
+  text?: string;
+}
+
+type FeatureWorkbook = ExcelJS.Workbook & {
+  definedNames: ExcelJS.DefinedNames & { model: ExcelJS.DefinedNamesModel };
+};
+
+const RESOURCE_DATA_VALIDATION = "SHEET_DATA_VALIDATION_PLUGIN";
+const RESOURCE_CONDITIONAL_FORMATTING = "SHEET_CONDITIONAL_FORMATTING_PLUGIN";
+const RESOURCE_FILTER = "SHEET_FILTER_PLUGIN";
+const RESOURCE_HYPER_LINK = "SHEET_HYPER_LINK_PLUGIN";
+const RESOURCE_NOTE = "SHEET_NOTE_PLUGIN";
+const RESOURCE_DEFINED_NAME = "SHEET_DEFINED_NAME_PLUGIN";
+
+// Univer's default note popup size
+const DEFAULT_NOTE_WIDTH = 160;
+const DEFAULT_NOTE_HEIGHT = 72;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function createId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID().slice(0, 8)}`;
+}
+
+function columnToLetter(col: number): string {
+  let letter = "";
+  let n = col + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    letter = String.fromCharCode(65 + rem) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+}
+
+function letterToColumn(letters: string): number {
+  let col = 0;
+  for (const ch of letters.toUpperCase()) {
+    col = col * 26 + (ch.charCodeAt(0) - 64);
+  }
+  return col - 1;
+}
+
+function cellAddress(row: number, col: number): string {
+  return `${columnToLetter(col)}${row + 1}`;
+}
+
+/**
+ * Convert a Univer range (0-based) to an A1 address ("B2" or "B2:D10")
+ */
+export function rangeToAddress(range: UniverRange): string {
+  const start = cellAddress(range.startRow, range.startColumn);
+  if (
+    range.startRow === range.endRow &&
+    range.startColumn === range.endColumn
+  ) {
+    return start;
+  }
+  return `${start}:${cellAddress(range.endRow, range.endColumn)}`;
+}
+
+/**
+ * Parse an A1 address ("B2", "$B$2:$D$10") into a Univer range
+ */
+export function addressToRange(address: string): UniverRange | undefined {
+  const match = address
+    .replace(/\$/g, "")
+    .trim()
+    .match(/^([A-Z]+)(\d+)(?::([A-Z]+)(\d+))?$/i);
+  if (!match) return undefined;
+
+  const startColumn = letterToColumn(match[1]);
+  const startRow = parseInt(match[2], 10) - 1;
+  const endColumn = match[3] ? letterToColumn(match[3]) : startColumn;
+  const endRow = match[4] ? parseInt(match[4], 10) - 1 : startRow;
+
+  return {
+    startRow: Math.min(startRow, endRow),
+    endRow: Math.max(startRow, endRow),
+    startColumn: Math.min(startColumn, endColumn),
+    endColumn: Math.max(startColumn, endColumn),
+  };
+}
+
+function parseAddressList(sqref: string): UniverRange[] {
+  return sqref
+    .split(/\s+/)
+    .map((part) => addressToRange(part))
+    .filter((range): range is UniverRange => !!range);
+}
+
+/**
+ * Squeeze a set of cell addresses into rectangular ranges (row-major greedy)
+ */
+function compressAddresses(addresses: string[]): UniverRange[] {
+  const cells = new Set<string>();
+  for (const address of addresses) {
+    const range = addressToRange(address);
+    if (!range) continue;
+    for (let r = range.startRow; r <= range.endRow; r++) {
+      for (let c = range.startColumn; c <= range.endColumn; c++) {
+        cells.add(`${r}:${c}`);
+      }
+    }
+  }
+
+  const ordered = Array.from(cells)
+    .map((key) => key.split(":").map(Number) as [number, number])
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  const visited = new Set<string>();
+  const ranges: UniverRange[] = [];
+
+  for (const [row, col] of ordered) {
+    if (visited.has(`${row}:${col}`)) continue;
+
+    let endColumn = col;
+    while (
+      cells.has(`${row}:${endColumn + 1}`) &&
+      !visited.has(`${row}:${endColumn + 1}`)
+    ) {
+      endColumn++;
+    }
+
+    let endRow = row;
+    const rowIsFull = (r: number) => {
+      for (let c = col; c <= endColumn; c++) {
+        if (!cells.has(`${r}:${c}`) || visited.has(`${r}:${c}`)) return false;
+      }
+      return true;
+    };
+    while (rowIsFull(endRow + 1)) {
+      endRow++;
+    }
+
+    for (let r = row; r <= endRow; r++) {
+      for (let c = col; c <= endColumn; c++) {
+        visited.add(`${r}:${c}`);
+      }
+    }
+    ranges.push({ startRow: row, endRow, startColumn: col, endColumn });
+  }
+
+  return ranges;
+}
+
+function quoteSheetName(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_.]*$/.test(name)
+    ? name
+    : `'${name.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Convert "#abc", "#aabbcc" or "rgb(r, g, b)" to ExcelJS ARGB
+ */
+function colorToARGB(color: unknown): string | undefined {
+  if (typeof color !== "string") return undefined;
+  const value = color.trim();
+
+  const rgbMatch = value.match(/^rgba?\((\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i);
+  if (rgbMatch) {
+    const hex = rgbMatch
+      .slice(1, 4)
+      .map((n) => Math.min(255, parseInt(n, 10)).toString(16).padStart(2, "0"))
+      .join("");
+    return `FF${hex.toUpperCase()}`;
+  }
+
+  let hex = value.replace("#", "");
+  if (hex.length === 3) {
+    hex = hex
+      .split("")
+      .map((ch) => ch + ch)
+      .join("");
+  }
+  if (hex.length === 6) return `FF${hex.toUpperCase()}`;
+  if (hex.length === 8) return hex.toUpperCase();
+  return undefined;
+}
+
+function argbToHexColor(argb: string | undefined): string | undefined {
+  if (!argb) return undefined;
+  const hex = argb.length === 8 ? argb.substring(2) : argb;
+  return `#${hex.toLowerCase()}`;
+}
+
+function readResource<T>(
+  univerData: FeatureSnapshot,
+  name: string,
+): T | undefined {
+  const resource = univerData.resources?.find((r) => r.name === name);
+  if (!resource?.data) return undefined;
+  try {
+    return JSON.parse(resource.data) as T;
+  } catch (error) {
+    console.warn(`[ExcelJSExchange] Invalid ${name} resource:`, error);
+    return undefined;
+  }
+}
+
+function writeResource(
+  univerData: FeatureSnapshot,
+  name: string,
+  data: unknown,
+): void {
+  if (!univerData.resources) {
+    univerData.resources = [];
+  }
+  const json = JSON.stringify(data);
+  const existing = univerData.resources.find((r) => r.name === name);
+  if (existing) {
+    existing.data = json;
+  } else {
+    univerData.resources.push({ name, data: json });
+  }
+}
+
+function isRange(value: unknown): value is UniverRange {
+  if (!value || typeof value !== "object") return false;
+  const range = value as Record<string, unknown>;
+  return (
+    typeof range.startRow === "number" &&
+    typeof range.endRow === "number" &&
+    typeof range.startColumn === "number" &&
+    typeof range.endColumn === "number"
+  );
+}
+
+// ============================================
+// SNAPSHOT -> FEATURES (native + agent-tool fields)
+// ============================================
+
+const DV_TYPE_ALIASES: Record<string, string> = {
+  number: "decimal",
+  integer: "whole",
+};
+
+const OPERATOR_ALIASES: Record<string, string> = {
+  greaterOrEqual: "greaterThanOrEqual",
+  lessOrEqual: "lessThanOrEqual",
+};
+
+const ERROR_STYLE_BY_NAME: Record<string, number> = {
+  information: 0,
+  info: 0,
+  stop: 1,
+  warning: 2,
+};
+
+function normalizeDataValidation(
+  raw: Record<string, unknown>,
+): UniverDataValidationRule | undefined {
+  const ranges = Array.isArray(raw.ranges) ? raw.ranges.filter(isRange) : [];
+  if (ranges.length === 0 || typeof raw.type !== "string") return undefined;
+
+  const type = DV_TYPE_ALIASES[raw.type] ?? raw.type;
+  const rule: UniverDataValidationRule = {
+    uid: typeof raw.uid === "string" ? raw.uid : createId("dv"),
+    type,
+    ranges,
+  };
+
+  if (typeof raw.operator === "string") {
+    rule.operator = OPERATOR_ALIASES[raw.operator] ?? raw.operator;
+  }
+  if (raw.formula1 !== undefined && raw.formula1 !== null) {
+    rule.formula1 = String(raw.formula1);
+  }
+  if (raw.formula2 !== undefined && raw.formula2 !== null) {
+    rule.formula2 = String(raw.formula2);
+  }
+  if (type === "custom" && rule.formula1 && !rule.formula1.startsWith("=")) {
+    rule.formula1 = `=${rule.formula1}`;
+  }
+
+  if (typeof raw.errorStyle === "number") {
+    rule.errorStyle = raw.errorStyle;
+  } else if (typeof raw.errorStyle === "string") {
+    rule.errorStyle = ERROR_STYLE_BY_NAME[raw.errorStyle];
+  }
+
+  for (const key of ["error", "errorTitle", "prompt", "promptTitle"] as const) {
+    if (typeof raw[key] === "string" && raw[key]) {
+      rule[key] = raw[key] as string;
+    }
+  }
+  for (const key of [
+    "allowBlank",
+    "showDropDown",
+    "showErrorMessage",
+    "showInputMessage",
+  ] as const) {
+    if (typeof raw[key] === "boolean") {
+      rule[key] = raw[key] as boolean;
+    }
+  }
+  // Agent-written rules carry an error message without the display flag
+  if (rule.showErrorMessage === undefined && rule.error) {
+    rule.showErrorMessage = true;
+  }
+
+  return rule;
+}
+
+const LEGACY_ICON_SETS: Record<string, string> = {
+  threeArrows: "3Arrows",
+  threeTrafficLights: "3TrafficLights1",
+  threeSymbols: "3Symbols",
+  fourArrows: "4Arrows",
+  fourTrafficLights: "4TrafficLights",
+  fiveArrows: "5Arrows",
+  fiveRating: "5Rating",
+};
+
+function iconCount(iconType: string): number {
+  const count = parseInt(iconType.charAt(0), 10);
+  return Number.isNaN(count) ? 3 : count;
+}
+
+/**
+ * Build an evenly spaced icon set config (best icon first, like Univer)
+ */
+function buildIconSetConfig(iconType: string): Array<Record<string, unknown>> {
+  const count = iconCount(iconType);
+  const step = Math.round(100 / count);
+  const config: Array<Record<string, unknown>> = [];
+  for (let i = 0; i < count; i++) {
+    const threshold = step * (count - 1 - i);
+    const isLast = i === count - 1;
+    config.push({
+      operator: isLast ? "lessThan" : "greaterThanOrEqual",
+      value: { type: "percent", value: isLast ? step : threshold },
+      iconType,
+      iconId: String(i),
+    });
+  }
+  return config;
+}
+
+/**
+ * Translate the rule shapes written by the `conditional_format` agent tool
+ * into Univer's native rule config. Native rules pass through untouched.
+ */
+function normalizeConditionalFormatRule(
+  rule: Record<string, unknown>,
+): UniverConditionalFormatRule["rule"] | undefined {
+  const type = rule.type;
+  if (typeof type !== "string") return undefined;
+  const config = rule.config as Record<string, unknown> | undefined;
+
+  if (type === "colorScale" && config && !Array.isArray(config)) {
+    const stops: Array<Record<string, unknown>> = [
+      { color: config.minColor, value: { type: "min" } },
+    ];
+    if (config.midColor) {
+      stops.push({
+        color: config.midColor,
+        value: { type: "percentile", value: 50 },
+      });
+    }
+    stops.push({ color: config.maxColor, value: { type: "max" } });
+    return {
+      type,
+      config: stops.map((stop, index) => ({ index, ...stop })),
+    };
+  }
+
+  if (type === "dataBar" && config && "color" in config) {
+    return {
+      type,
+      isShowValue: config.showValue !== false,
+      config: {
+        min: { type: "min" },
+        max: { type: "max" },
+        isGradient: true,
+        positiveColor: config.color,
+        nativeColor: "#ff0000",
+      },
+    };
+  }
+
+  if (type === "iconSet" && config && !Array.isArray(config)) {
+    const legacyType = String(config.iconType ?? "threeArrows");
+    const iconType = LEGACY_ICON_SETS[legacyType] ?? legacyType;
+    return { type, isShowValue: true, config: buildIconSetConfig(iconType) };
+  }
+
+  if (type === "highlightCell" && !rule.subType && config) {
+    const operator = String(config.operator ?? "equal");
+    const style = (config.style as Record<string, unknown>) ?? {};
+    const textOperators: Record<string, string> = {
+      contains: "containsText",
+      beginsWith: "beginsWith",
+      endsWith: "endsWith",
+    };
+    if (textOperators[operator]) {
+      return {
+        type,
+        subType: "text",
+        operator: textOperators[operator],
+        value: String(config.value ?? ""),
+        style,
+      };
+    }
+    const value =
+      operator === "between" || operator === "notBetween"
+        ? [Number(config.value), Number(config.value2)]
+        : Number(config.value);
+    return { type, subType: "number", operator, value, style };
+  }
+
+  return rule as UniverConditionalFormatRule["rule"];
+}
+
+function normalizeConditionalFormat(
+  raw: Record<string, unknown>,
+): UniverConditionalFormatRule | undefined {
+  const ranges = Array.isArray(raw.ranges) ? raw.ranges.filter(isRange) : [];
+  if (ranges.length === 0 || !raw.rule || typeof raw.rule !== "object") {
+    return undefined;
+  }
+  const rule = normalizeConditionalFormatRule(
+    raw.rule as Record<string, unknown>,
+  );
+  if (!rule) return undefined;
+
+  return {
+    cfId: typeof raw.cfId === "string" ? raw.cfId : createId("cf"),
+    ranges,
+    stopIfTrue: raw.stopIfTrue === true,
+    rule,
+  };
+}
+
+function readFreeze(sheet: Record<string, unknown>): UniverFreeze | undefined {
+  const freeze = sheet.freeze as Record<string, unknown> | undefined;
+  if (!freeze || typeof freeze !== "object") return undefined;
+
+  const pick = (primary: unknown, fallback: unknown) =>
+    typeof primary === "number"
+      ? primary
+      : typeof fallback === "number"
+        ? fallback
+        : 0;
+  const xSplit = pick(freeze.xSplit, freeze.startColumn);
+  const ySplit = pick(freeze.ySplit, freeze.startRow);
+  if (xSplit <= 0 && ySplit <= 0) return undefined;
+
+  return {
+    xSplit: Math.max(0, xSplit),
+    ySplit: Math.max(0, ySplit),
+    startRow: Math.max(0, ySplit),
+    startColumn: Math.max(0, xSplit),
+  };
+}
+
+/**
+ * Agent tools store comments either as { row, column, content } or
+ * { row, col, text } keyed by an arbitrary id
+ */
+function readLegacyComments(
+  sheet: Record<string, unknown>,
+): Array<{ row: number; column: number; text: string }> {
+  const comments = sheet.comments;
+  if (!comments || typeof comments !== "object") return [];
+
+  const result: Array<{ row: number; column: number; text: string }> = [];
+  for (const entry of Object.values(comments as Record<string, unknown>)) {
+    if (!entry || typeof entry !== "object") continue;
+    const comment = entry as Record<string, unknown>;
+    const row = comment.row;
+    const column = comment.column ?? comment.col;
+    const text = comment.content ?? comment.text;
+    if (
+      typeof row === "number" &&
+      typeof column === "number" &&
+      typeof text === "string"
+    ) {
+      result.push({ row, column, text });
+    }
+  }
+  return result;
+}
+
+/**
+ * Collect all sheet-level features of one sheet from a Univer snapshot
+ */
+export function collectSheetFeatures(
+  univerData: FeatureSnapshot,
+  sheetId: string,
+): UniverSheetFeatures {
+  const sheet = univerData.sheets?.[sheetId] ?? {};
+  const features: UniverSheetFeatures = {
+    freeze: readFreeze(sheet),
+    dataValidations: [],
+    conditionalFormats: [],
+    hyperlinks: [],
+    notes: {},
+  };
+
+  // Data validation
+  const nativeValidations =
+    readResource<Record<string, unknown[]>>(
+      univerData,
+      RESOURCE_DATA_VALIDATION,
+    )?.[sheetId] ?? [];
+  const legacyValidations = Array.isArray(sheet.dataValidations)
+    ? sheet.dataValidations
+    : [];
+  for (const raw of [...nativeValidations, ...legacyValidations]) {
+    if (!raw || typeof raw !== "object") continue;
+    const rule = normalizeDataValidation(raw as Record<string, unknown>);
+    if (rule) features.dataValidations.push(rule);
+  }
+
+  // Conditional formatting
+  const nativeFormats =
+    readResource<Record<string, unknown[]>>(
+      univerData,
+      RESOURCE_CONDITIONAL_FORMATTING,
+    )?.[sheetId] ?? [];
+  const legacyFormats = Array.isArray(sheet.conditionalFormattingRules)
+    ? sheet.conditionalFormattingRules
+    : [];
+  for (const raw of [...nativeFormats, ...legacyFormats]) {
+    if (!raw || typeof raw !== "object") continue;
+    const rule = normalizeConditionalFormat(raw as Record<string, unknown>);
+    if (rule) features.conditionalFormats.push(rule);
+  }
+
+  // Auto-filter
+  const nativeFilter = readResource<Record<string, UniverAutoFilter>>(
+    univerData,
+    RESOURCE_FILTER,
+  )?.[sheetId];
+  const legacyFilter = sheet.filter as UniverAutoFilter | undefined;
+  const filter = nativeFilter ?? legacyFilter;
+  if (filter && isRange(filter.ref)) {
+    features.autoFilter = { ref: filter.ref };
+  }
+
+  // Hyperlinks
+  const links =
+    readResource<Record<string, UniverHyperLink[]>>(
+      univerData,
+      RESOURCE_HYPER_LINK,
+    )?.[sheetId] ?? [];
+  features.hyperlinks = links.filter(
+    (link) =>
+      typeof link?.row === "number" &&
+      typeof link?.column === "number" &&
+      typeof link?.payload === "string",
+  );
+
+  // Notes
+  const nativeNotes =
+    readResource<
+      Record<string, Record<string, Record<string, UniverSheetNote>>>
+    >(univerData, RESOURCE_NOTE)?.[sheetId] ?? {};
+  for (const [rowKey, row] of Object.entries(nativeNotes)) {
+    for (const [colKey, note] of Object.entries(row ?? {})) {
+      if (typeof note?.note !== "string") continue;
+      features.notes[rowKey] ??= {};
+      features.notes[rowKey][colKey] = note;
+    }
+  }
+  for (const comment of readLegacyComments(sheet)) {
+    const rowKey = String(comment.row);
+    const colKey = String(comment.column);
+    if (features.notes[rowKey]?.[colKey]) continue;
+    features.notes[rowKey] ??= {};
+    features.notes[rowKey][colKey] = {
+      note: comment.text,
+      width: DEFAULT_NOTE_WIDTH,
+      height: DEFAULT_NOTE_HEIGHT,
+    };
+  }
+
+  return features;
+}
+
+/**
+ * Collect defined names from a Univer snapshot (native resource plus the
+ * `namedRanges` map written by the `create_named_range` tool)
+ */
+export function collectDefinedNames(
+  univerData: FeatureSnapshot,
+): UniverDefinedName[] {
+  const names: UniverDefinedName[] = [];
+  const seen = new Set<string>();
+
+  const native =
+    readResource<Record<string, UniverDefinedName>>(
+      univerData,
+      RESOURCE_DEFINED_NAME,
+    ) ?? {};
+  for (const definedName of Object.values(native)) {
+    if (!definedName?.name || !definedName.formulaOrRefString) continue;
+    names.push(definedName);
+    seen.add(definedName.name.toLowerCase());
+  }
+
+  const legacy = univerData.namedRanges as
+    | Record<string, { name?: string; range?: Record<string, unknown> }>
+    | undefined;
+  for (const [key, entry] of Object.entries(legacy ?? {})) {
+    const name = entry?.name ?? key;
+    const range = entry?.range;
+    if (seen.has(name.toLowerCase()) || !isRange(range)) continue;
+
+    const sheetId = range.sheetId as string | undefined;
+    const sheetName = sheetId
+      ? (univerData.sheets?.[sheetId]?.name as string | undefined)
+      : undefined;
+    if (!sheetName) continue;
+
+    const absolute = rangeToAddress(range).replace(
+      /([A-Z]+)(\d+)/g,
+      "$$$1$$$2",
+    );
+    names.push({
+      id: createId("dn"),
+      name,
+      formulaOrRefString: `${quoteSheetName(sheetName)}!${absolute}`,
+    });
+    seen.add(name.toLowerCase());
+  }
+
+  return names;
+}
+
+// ============================================
+// FEATURES -> EXCELJS
+// ============================================
+
+const ERROR_STYLE_NAMES: Record<number, string> = {
+  0: "information",
+  1: "stop",
+  2: "warning",
+};
+
+const EXCEL_DV_TYPES = new Set([
+  "list",
+  "whole",
+  "decimal",
+  "date",
+  "textLength",
+  "custom",
+]);
+
+function toExcelDataValidation(
+  rule: UniverDataValidationRule,
+): ExcelJS.DataValidation | undefined {
+  const type = rule.type === "listMultiple" ? "list" : rule.type;
+  if (type === "any") {
+    // ExcelJS writes "any" rules as input-message-only validations
+    return {
+      type: "any",
+      formulae: [],
+    } as unknown as ExcelJS.DataValidation;
+  }
+  if (!EXCEL_DV_TYPES.has(type)) return undefined;
+
+  const formulae: unknown[] = [];
+  if (type === "list") {
+    const source = rule.formula1 ?? "";
+    formulae.push(
+      source.startsWith("=")
+        ? source.substring(1)
+        : `"${source.replace(/"/g, '""')}"`,
+    );
+  } else if (type === "custom") {
+    formulae.push((rule.formula1 ?? "").replace(/^=/, ""));
+  } else {
+    if (rule.formula1 !== undefined) formulae.push(rule.formula1);
+    if (rule.formula2 !== undefined) formulae.push(rule.formula2);
+  }
+
+  const validation: ExcelJS.DataValidation = {
+    type: type as ExcelJS.DataValidation["type"],
+    formulae,
+  };
+  if (rule.operator && type !== "list" && type !== "custom") {
+    validation.operator = rule.operator as ExcelJS.DataValidationOperator;
+  }
+  if (rule.allowBlank) validation.allowBlank = true;
+  if (rule.showErrorMessage) validation.showErrorMessage = true;
+  if (rule.showInputMessage) validation.showInputMessage = true;
+  if (rule.errorStyle !== undefined && ERROR_STYLE_NAMES[rule.errorStyle]) {
+    validation.errorStyle = ERROR_STYLE_NAMES[rule.errorStyle];
+  }
+  if (rule.error) validation.error = rule.error;
+  if (rule.errorTitle) validation.errorTitle = rule.errorTitle;
+  if (rule.prompt) validation.prompt = rule.prompt;
+  if (rule.promptTitle) validation.promptTitle = rule.promptTitle;
+
+  return validation;
+}
+
+function toExcelDxfStyle(
+  style: Record<string, unknown> | undefined,
+): Partial<ExcelJS.Style> | undefined {
+  if (!style) return undefined;
+  const result: Partial<ExcelJS.Style> = {};
+  const font: Partial<ExcelJS.Font> = {};
+
+  if (style.bl === 1) font.bold = true;
+  if (style.it === 1) font.italic = true;
+  const underline = style.ul as { s?: number } | undefined;
+  if (underline?.s) font.underline = true;
+  const strike = style.st as { s?: number } | undefined;
+  if (strike?.s) font.strike = true;
+  const fontColor = colorToARGB((style.cl as { rgb?: string })?.rgb);
+  if (fontColor) font.color = { argb: fontColor };
+  if (Object.keys(font).length > 0) result.font = font;
+
+  const background = colorToARGB((style.bg as { rgb?: string })?.rgb);
+  if (background) {
+    result.fill = {
+      type: "pattern",
+      pattern: "solid",
+      bgColor: { argb: background },
+    };
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function toCfvo(value: unknown): ExcelJS.Cvfo {
+  const config = (value ?? {}) as { type?: string; value?: unknown };
+  const cfvo: ExcelJS.Cvfo = {
+    type: (config.type ?? "min") as ExcelJS.CfvoTypes,
+  };
+  if (config.value !== undefined && config.value !== "") {
+    cfvo.value = Number(config.value);
+  }
+  return cfvo;
+}
+
+function quoteFormulaText(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function buildTextFormula(
+  operator: string,
+  text: string,
+  topLeft: string,
+): string | undefined {
+  const quoted = quoteFormulaText(text);
+  switch (operator) {
+    case "containsText":
+      return `NOT(ISERROR(SEARCH(${quoted},${topLeft})))`;
+    case "notContainsText":
+      return `ISERROR(SEARCH(${quoted},${topLeft}))`;
+    case "beginsWith":
+      return `LEFT(${topLeft},LEN(${quoted}))=${quoted}`;
+    case "endsWith":
+      return `RIGHT(${topLeft},LEN(${quoted}))=${quoted}`;
+    case "containsBlanks":
+      return `LEN(TRIM(${topLeft}))=0`;
+    case "notContainsBlanks":
+      return `LEN(TRIM(${topLeft}))>0`;
+    case "containsErrors":
+      return `ISERROR(${topLeft})`;
+    case "notContainsErrors":
+      return `NOT(ISERROR(${topLeft}))`;
+    default:
+      return undefined;
+  }
+}
+
+function toExcelConditionalRule(
+  cf: UniverConditionalFormatRule,
+  priority: number,
+): ExcelJS.ConditionalFormattingRule | undefined {
+  const rule = cf.rule;
+  const topLeft = cellAddress(cf.ranges[0].startRow, cf.ranges[0].startColumn);
+
+  switch (rule.type) {
+    case "colorScale": {
+      const stops = Array.isArray(rule.config)
+        ? [...(rule.config as Array<Record<string, unknown>>)].sort(
+            (a, b) => Number(a.index ?? 0) - Number(b.index ?? 0),
+          )
+        : [];
+      if (stops.length < 2) return undefined;
+      return {
+        type: "colorScale",
+        priority,
+        cfvo: stops.map((stop) => toCfvo(stop.value)),
+        color: stops.map((stop) => ({
+          argb: colorToARGB(stop.color) ?? "FF000000",
+        })),
+      };
+    }
+
+    case "dataBar": {
+      const config = (rule.config ?? {}) as Record<string, unknown>;
+      return {
+        type: "dataBar",
+        priority,
+        cfvo: [toCfvo(config.min), toCfvo(config.max)],
+        color: { argb: colorToARGB(config.positiveColor) ?? "FF638EC6" },
+      } as ExcelJS.DataBarRuleType;
+    }
+
+    case "iconSet": {
+      const config = Array.isArray(rule.config)
+        ? (rule.config as Array<Record<string, unknown>>)
+        : [];
+      if (config.length === 0) return undefined;
+      const iconSet = String(config[0].iconType ?? "3TrafficLights1");
+      // Excel lists thresholds ascending starting at 0%, Univer lists them
+      // best icon first, so walk the config backwards
+      const cfvo: ExcelJS.Cvfo[] = [{ type: "percent", value: 0 }];
+      for (let i = config.length - 2; i >= 0; i--) {
+        cfvo.push(toCfvo(config[i].value));
+      }
+      return {
+        type: "iconSet",
+        priority,
+        iconSet: iconSet as ExcelJS.IconSetTypes,
+        showValue: rule.isShowValue !== false,
+        cfvo,
+      };
+    }
+
+    case "highlightCell": {
+      const style = toExcelDxfStyle(rule.style as Record<string, unknown>);
+      const operator = rule.operator as string | undefined;
+
+      switch (rule.subType) {
+        case "number": {
+          const values = Array.isArray(rule.value) ? rule.value : [rule.value];
+          return {
+            type: "cellIs",
+            priority,
+            operator: operator as ExcelJS.CellIsOperators,
+            formulae: values
+              .filter((v) => v !== undefined && v !== null)
+              .map((v) => String(v)),
+            style,
+          };
+        }
+        case "text": {
+          if (operator === "equal" || operator === "notEqual") {
+            return {
+              type: "cellIs",
+              priority,
+              operator: operator as ExcelJS.CellIsOperators,
+              formulae: [quoteFormulaText(String(rule.value ?? ""))],
+              style,
+            };
+          }
+          const formula = buildTextFormula(
+            operator ?? "containsText",
+            String(rule.value ?? ""),
+            topLeft,
+          );
+          if (!formula) return undefined;
+          return {
+            type: "containsText",
+            priority,
+            operator: operator as ExcelJS.ContainsTextOperators,
+            text: String(rule.value ?? ""),
+            formulae: [formula],
+            style,
+          } as ExcelJS.ContainsTextRuleType;
+        }
+        case "formula":
+          return {
+            type: "expression",
+            priority,
+            formulae: [String(rule.value ?? "").replace(/^=/, "")],
+            style,
+          };
+        case "rank":
+          return {
+            type: "top10",
+            priority,
+            rank: Number(rule.value ?? 10),
+            percent: rule.isPercent === true,
+            bottom: rule.isBottom === true,
+            style,
+          };
+        case "average":
+          if (operator === "equal" || operator === "notEqual") return undefined;
+          return {
+            type: "aboveAverage",
+            priority,
+            aboveAverage: operator?.startsWith("greater") ?? true,
+            style,
+          };
+        case "timePeriod":
+          return {
+            type: "timePeriod",
+            priority,
+            timePeriod: operator as ExcelJS.TimePeriodTypes,
+            style,
+          };
+        case "duplicateValues":
+        case "uniqueValues": {
+          // ExcelJS cannot write these natively; an equivalent expression
+          // keeps the highlighting working in Excel
+          const absolute = cf.ranges
+            .map((range) =>
+              rangeToAddress(range).replace(/([A-Z]+)(\d+)/g, "$$$1$$$2"),
+            )
+            .join(",");
+          const comparison = rule.subType === "duplicateValues" ? ">1" : "=1";
+          return {
+            type: "expression",
+            priority,
+            formulae: [`COUNTIF(${absolute},${topLeft})${comparison}`],
+            style,
+          };
+        }
+        default:
+          return undefined;
+      }
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+function toExcelHyperlink(
+  payload: string,
+  sheetNamesById: Record<string, string>,
+): string {
+  // Univer internal links look like "#gid=<sheetId>&range=A1"
+  const internal = payload.match(/^#gid=([^&]+)(?:&range=([^&]+))?/);
+  if (internal) {
+    const sheetName = sheetNamesById[internal[1]];
+    if (sheetName) {
+      return `#${quoteSheetName(sheetName)}!${internal[2] ?? "A1"}`;
+    }
+  }
+  return payload;
+}
+
+/**
+ * Write sheet-level features onto an ExcelJS worksheet.
+ * Must run after cell values are set (hyperlinks rewrite cell values).
+ */
+export function applySheetFeatures(
+  worksheet: ExcelJS.Worksheet,
+  features: UniverSheetFeatures,
+  sheetNamesById: Record<string, string>,
+): void {
+  const sheet = worksheet as FeatureWorksheet;
+
+  if (features.freeze) {
+    const { xSplit, ySplit } = features.freeze;
+    sheet.views = [
+      {
+        state: "frozen",
+        xSplit,
+        ySplit,
+        topLeftCell: cellAddress(ySplit, xSplit),
+      },
+    ];
+  }
+
+  for (const rule of features.dataValidations) {
+    const validation = toExcelDataValidation(rule);
+    if (!validation) {
+      console.warn(
+        `[ExcelJSExchange] Skipping unsupported data validation type: ${rule.type}`,
+      );
+      continue;
+    }
+    for (const range of rule.ranges) {
+      sheet.dataValidations.add(rangeToAddress(range), validation);
+    }
+  }
+
+  features.conditionalFormats.forEach((cf, index) => {
+    const rule = toExcelConditionalRule(cf, index + 1);
+    if (!rule) {
+      console.warn(
+        `[ExcelJSExchange] Skipping unsupported conditional format: ${cf.rule.type}`,
+      );
+      return;
+    }
+    sheet.addConditionalFormatting({
+      ref: cf.ranges.map(rangeToAddress).join(" "),
+      rules: [rule],
+    });
+  });
+
+  if (features.autoFilter) {
+    sheet.autoFilter = rangeToAddress(features.autoFilter.ref);
+  }
+
+  for (const link of features.hyperlinks) {
+    const cell = sheet.getCell(link.row + 1, link.column + 1);
+    if (cell.formula) continue;
+    const text =
+      cell.value === null || cell.value === undefined || cell.value === ""
+        ? link.payload
+        : String(cell.value);
+    cell.value = {
+      text,
+      hyperlink: toExcelHyperlink(link.payload, sheetNamesById),
+    };
+  }
+
+  for (const [rowKey, row] of Object.entries(features.notes)) {
+    for (const [colKey, note] of Object.entries(row)) {
+      const rowNum = parseInt(rowKey, 10);
+      const colNum = parseInt(colKey, 10);
+      if (Number.isNaN(rowNum) || Number.isNaN(colNum)) continue;
+      sheet.getCell(rowNum + 1, colNum + 1).note = note.note;
+    }
+  }
+}
+
+/**
+ * Register defined names on an ExcelJS workbook. Only plain cell/range
+ * references are representable; formula-based names are skipped.
+ */
+export function applyDefinedNames(
+  workbook: ExcelJS.Workbook,
+  names: UniverDefinedName[],
+): void {
+  for (const definedName of names) {
+    const refs = definedName.formulaOrRefString
+      .replace(/^=/, "")
+      .split(",")
+      .map((ref) => ref.trim());
+    const allRanges = refs.every((ref) =>
+      /^('[^']+'|[^!'"()]+)!\$?[A-Z]+\$?\d+(:\$?[A-Z]+\$?\d+)?$/i.test(ref),
+    );
+    if (!allRanges) {
+      console.warn(
+        `[ExcelJSExchange] Skipping defined name "${definedName.name}": not a range reference`,
+      );
+      continue;
+    }
+    for (const ref of refs) {
+      workbook.definedNames.add(ref, definedName.name);
+    }
+  }
+}
+
+// ============================================
+// EXCELJS -> FEATURES
+// ============================================
+
+function fromExcelFormula(value: unknown, type: string): string {
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  const text = String(value);
+  return type === "custom" ? `=${text}` : text;
+}
+
+function fromExcelDataValidation(
+  validation: ExcelJS.DataValidation,
+  ranges: UniverRange[],
+): UniverDataValidationRule {
+  const type = validation.type as string;
+  const rule: UniverDataValidationRule = { uid: createId("dv"), type, ranges };
+  const [first, second] = validation.formulae ?? [];
+
+  if (type === "list") {
+    const source = String(first ?? "");
+    rule.formula1 = /^".*"$/.test(source)
+      ? source.slice(1, -1).replace(/""/g, '"')
+      : `=${source}`;
+    rule.showDropDown = true;
+  } else {
+    if (first !== undefined) rule.formula1 = fromExcelFormula(first, type);
+    if (second !== undefined) rule.formula2 = fromExcelFormula(second, type);
+  }
+
+  if (validation.operator) rule.operator = validation.operator;
+  if (validation.allowBlank) rule.allowBlank = true;
+  if (validation.showErrorMessage) rule.showErrorMessage = true;
+  if (validation.showInputMessage) rule.showInputMessage = true;
+  if (validation.errorStyle) {
+    rule.errorStyle = ERROR_STYLE_BY_NAME[validation.errorStyle];
+  }
+  if (validation.error) rule.error = validation.error;
+  if (validation.errorTitle) rule.errorTitle = validation.errorTitle;
+  if (validation.prompt) rule.prompt = validation.prompt;
+  if (validation.promptTitle) rule.promptTitle = validation.promptTitle;
+
+  return rule;
+}
+
+function fromExcelDxfStyle(
+  style: Partial<ExcelJS.Style> | undefined,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  if (!style) return result;
+
+  const font = style.font;
+  if (font?.bold) result.bl = 1;
+  if (font?.italic) result.it = 1;
+  if (font?.underline) result.ul = { s: 1 };
+  if (font?.strike) result.st = { s: 1 };
+  const fontColor = argbToHexColor(
+    (font?.color as { argb?: string } | undefined)?.argb,
+  );
+  if (fontColor) result.cl = { rgb: fontColor };
+
+  const fill = style.fill as ExcelJS.FillPattern | undefined;
+  if (fill?.type === "pattern") {
+    const background = argbToHexColor(
+      (fill.bgColor as { argb?: string } | undefined)?.argb ??
+        (fill.fgColor as { argb?: string } | undefined)?.argb,
+    );
+    if (background) result.bg = { rgb: background };
+  }
+
+  return result;
+}
+
+function fromCfvo(cfvo: ExcelJS.Cvfo | undefined): Record<string, unknown> {
+  const type =
+    cfvo?.type === "autoMin"
+      ? "min"
+      : cfvo?.type === "autoMax"
+        ? "max"
+        : cfvo?.type;
+  const value: Record<string, unknown> = { type: type ?? "min" };
+  if (cfvo?.value !== undefined) value.value = cfvo.value;
+  return value;
+}
+
+function extractQuotedText(formula: string): string {
+  const match = formula.match(/"((?:[^"]|"")*)"/);
+  return match ? match[1].replace(/""/g, '"') : "";
+}
+
+function fromExcelConditionalRule(
+  raw: ExcelConditionalRuleModel,
+): UniverConditionalFormatRule["rule"] | undefined {
+  const style = fromExcelDxfStyle(raw.style);
+  const formulae = (raw.formulae ?? []).map((f) => String(f));
+
+  switch (raw.type) {
+    case "colorScale": {
+      const colors = (raw.color ?? []) as Array<{ argb?: string }>;
+      return {
+        type: "colorScale",
+        config: (raw.cfvo ?? []).map((cfvo, index) => ({
+          index,
+          color: argbToHexColor(colors[index]?.argb) ?? "#000000",
+          value: fromCfvo(cfvo),
+        })),
+      };
+    }
+
+    case "dataBar": {
+      const color = raw.color as { argb?: string } | undefined;
+      return {
+        type: "dataBar",
+        isShowValue: raw.showValue !== false,
+        config: {
+          min: fromCfvo(raw.cfvo?.[0]),
+          max: fromCfvo(raw.cfvo?.[1]),
+          isGradient: raw.gradient !== false,
+          positiveColor: argbToHexColor(color?.argb) ?? "#638ec6",
+          nativeColor: "#ff0000",
+        },
+      };
+    }
+
+    case "iconSet": {
+      const iconType = raw.iconSet ?? "3TrafficLights1";
+      const thresholds = raw.cfvo ?? [];
+      const count = Math.max(thresholds.length, iconCount(iconType));
+      const config: Array<Record<string, unknown>> = [];
+      for (let i = 0; i < count; i++) {
+        const isLast = i === count - 1;
+        // Best icon first; the last icon covers everything below the
+        // lowest explicit threshold
+        const threshold = isLast ? thresholds[1] : thresholds[count - 1 - i];
+        config.push({
+          operator: isLast ? "lessThan" : "greaterThanOrEqual",
+          value: fromCfvo(threshold),
+          iconType,
+          iconId: String(i),
+        });
+      }
+      return {
+        type: "iconSet",
+        isShowValue: raw.showValue !== false,
+        config,
+      };
+    }
+
+    case "cellIs": {
+      const isText = formulae.length > 0 && /^".*"$/.test(formulae[0]);
+      if (isText) {
+        return {
+          type: "highlightCell",
+          subType: "text",
+          operator: raw.operator ?? "equal",
+          value: extractQuotedText(formulae[0]),
+          style,
+        };
+      }
+      const numbers = formulae.map((f) => Number(f));
+      const isRangeOperator =
+        raw.operator === "between" || raw.operator === "notBetween";
+      return {
+        type: "highlightCell",
+        subType: "number",
+        operator: raw.operator ?? "equal",
+        value: isRangeOperator ? numbers.slice(0, 2) : numbers[0],
+        style,
+      };
+    }
+
+    case "containsText":
+    case "notContainsText":
+    case "beginsWith":
+    case "endsWith":
+    case "containsBlanks":
+    case "notContainsBlanks":
+    case "containsErrors":
+    case "notContainsErrors": {
+      const operator = raw.operator ?? raw.type;
+      const text = raw.text ?? extractQuotedText(formulae[0] ?? "");
+      const result: UniverConditionalFormatRule["rule"] = {
+        type: "highlightCell",
+        subType: "text",
+        operator,
+        style,
+      };
+      if (
+        ["containsText", "notContainsText", "beginsWith", "endsWith"].includes(
+          operator,
+        )
+      ) {
+        result.value = text;
+      }
+      return result;
+    }
+
+    case "expression":
+      return {
+        type: "highlightCell",
+        subType: "formula",
+        value: `=${formulae[0] ?? ""}`,
+        style,
+      };
+
+    case "top10":
+      return {
+        type: "highlightCell",
+        subType: "rank",
+        value: raw.rank ?? 10,
+        isPercent: raw.percent === true,
+        isBottom: raw.bottom === true,
+        style,
+      };
+
+    case "aboveAverage":
+      return {
+        type: "highlightCell",
+        subType: "average",
+        operator: raw.aboveAverage === false ? "lessThan" : "greaterThan",
+        style,
+      };
+
+    case "timePeriod":
+      return {
+        type: "highlightCell",
+        subType: "timePeriod",
+        operator: raw.timePeriod ?? "today",
+        style,
+      };
+
+    default:
+      return undefined;
+  }
+}
+
+function fromExcelHyperlink(
+  hyperlink: string,
+  sheetIdsByName: Record<string, string>,
+): string {
+  const internal = hyperlink.match(/^#'?((?:[^'!]|'')+)'?!(.+)$/);
+  if (internal) {
+    const sheetId = sheetIdsByName[internal[1].replace(/''/g, "'")];
+    if (sheetId) {
+      return `#gid=${sheetId}&range=${internal[2].replace(/\$/g, "")}`;
+    }
+  }
+  return hyperlink;
+}
+
+function readNoteText(note: unknown): string | undefined {
+  if (typeof note === "string") return note;
+  if (note && typeof note === "object") {
+    const texts = (note as { texts?: Array<{ text?: string }> }).texts;
+    if (Array.isArray(texts)) {
+      return texts.map((t) => t.text ?? "").join("");
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read sheet-level features from an ExcelJS worksheet
+ */
+export function readSheetFeatures(
+  worksheet: ExcelJS.Worksheet,
+  sheetIdsByName: Record<string, string>,
+): UniverSheetFeatures {
+  const sheet = worksheet as FeatureWorksheet;
+  const features: UniverSheetFeatures = {
+    dataValidations: [],
+    conditionalFormats: [],
+    hyperlinks: [],
+    notes: {},
+  };
+
+  // Frozen panes
+  const frozen = sheet.views?.find((view) => view.state === "frozen") as
+    | Partial<ExcelJS.WorksheetViewFrozen>
+    | undefined;
+  if (frozen && ((frozen.xSplit ?? 0) > 0 || (frozen.ySplit ?? 0) > 0)) {
+    const xSplit = frozen.xSplit ?? 0;
+    const ySplit = frozen.ySplit ?? 0;
+    features.freeze = { xSplit, ySplit, startRow: ySplit, startColumn: xSplit };
+  }
+
+  // Data validation: ExcelJS expands every sqref into per-cell entries, so
+  // group identical validations back together and rebuild their ranges
+  const validationGroups = new Map<
+    string,
+    { validation: ExcelJS.DataValidation; addresses: string[] }
+  >();
+  for (const [address, validation] of Object.entries(
+    sheet.dataValidations?.model ?? {},
+  )) {
+    if (!validation) continue;
+    const key = JSON.stringify(validation);
+    const group = validationGroups.get(key);
+    if (group) {
+      group.addresses.push(address);
+    } else {
+      validationGroups.set(key, { validation, addresses: [address] });
+    }
+  }
+  for (const { validation, addresses } of validationGroups.values()) {
+    const ranges = compressAddresses(addresses);
+    if (ranges.length > 0) {
+      features.dataValidations.push(
+        fromExcelDataValidation(validation, ranges),
+      );
+    }
+  }
+
+  // Conditional formatting (Excel priority 1 is evaluated first)
+  const formats: Array<{ priority: number; rule: UniverConditionalFormatRule }> =
+    [];
+  for (const block of sheet.conditionalFormattings ?? []) {
+    const ranges = parseAddressList(block.ref ?? "");
+    if (ranges.length === 0) continue;
+    for (const excelRule of (block.rules ??
+      []) as ExcelConditionalRuleModel[]) {
+      const rule = fromExcelConditionalRule(excelRule);
+      if (!rule) continue;
+      formats.push({
+        priority: excelRule.priority ?? Number.MAX_SAFE_INTEGER,
+        rule: { cfId: createId("cf"), ranges, stopIfTrue: false, rule },
+      });
+    }
+  }
+  features.conditionalFormats = formats
+    .sort((a, b) => a.priority - b.priority)
+    .map((entry) => entry.rule);
+
+  // Auto-filter
+  const autoFilter = sheet.autoFilter;
+  if (autoFilter) {
+    let ref: UniverRange | undefined;
+    if (typeof autoFilter === "string") {
+      ref = addressToRange(autoFilter);
+    } else {
+      const toAddress = (loc: string | { row: number; column: number }) =>
+        typeof loc === "string"
+          ? loc
+          : cellAddress(loc.row - 1, loc.column - 1);
+      ref = addressToRange(
+        `${toAddress(autoFilter.from)}:${toAddress(autoFilter.to)}`,
+      );
+    }
+    if (ref) features.autoFilter = { ref };
+  }
+
+  // Hyperlinks and notes live on cells
+  sheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+    row.eachCell({ includeEmpty: false }, (cell, colNumber) => {
+      const rowIndex = rowNumber - 1;
+      const colIndex = colNumber - 1;
+
+      const hyperlink = (cell.value as ExcelJS.CellHyperlinkValue | null)
+        ?.hyperlink;
+      if (typeof hyperlink === "string" && hyperlink) {
+        features.hyperlinks.push({
+          id: createId("link"),
+          row: rowIndex,
+          column: colIndex,
+          payload: fromExcelHyperlink(hyperlink, sheetIdsByName),
+        });
+      }
+
+      const noteText = readNoteText(cell.note);
+      if (noteText !== undefined) {
+        const rowKey = String(rowIndex);
+        features.notes[rowKey] ??= {};
+        features.notes[rowKey][String(colIndex)] = {
+          note: noteText,
+          width: DEFAULT_NOTE_WIDTH,
+          height: DEFAULT_NOTE_HEIGHT,
+        };
+      }
+    });
+  });
+
+  return features;
+}
+
+/**
+ * Read workbook-scoped defined names from an ExcelJS workbook
+ */
+export function readDefinedNames(
+  workbook: ExcelJS.Workbook,
+): UniverDefinedName[] {
+  const model = (workbook as FeatureWorkbook).definedNames.model ?? [];
+  return model
+    .filter(
+      (entry) =>
+        entry.name &&
+        !entry.name.startsWith("_xlnm.") &&
+        entry.ranges.length > 0,
+    )
+    .map((entry) => ({
+      id: createId("dn"),
+      name: entry.name,
+      formulaOrRefString: entry.ranges.join(","),
+    }));
+}
+
+// ============================================
+// FEATURES -> SNAPSHOT (native resources)
+// ============================================
+
+/**
+ * Store sheet-level features in a Univer snapshot using the native plugin
+ * resources. Existing entries for other sheets are preserved.
+ */
+export function storeSheetFeatures(
+  univerData: FeatureSnapshot,
+  sheetId: string,
+  features: UniverSheetFeatures,
+): void {
+  const sheet = univerData.sheets[sheetId];
+  if (sheet && features.freeze) {
+    sheet.freeze = { ...features.freeze };
+  }
+
+  const updateSheetEntry = <T>(name: string, value: T | undefined) => {
+    const existing = readResource<Record<string, T>>(univerData, name) ?? {};
+    if (value === undefined) {
+      delete existing[sheetId];
+    } else {
+      existing[sheetId] = value;
+    }
+    const hasResource = univerData.resources?.some((r) => r.name === name);
+    if (Object.keys(existing).length > 0 || hasResource) {
+      writeResource(univerData, name, existing);
+    }
+  };
+
+  updateSheetEntry(
+    RESOURCE_DATA_VALIDATION,
+    features.dataValidations.length > 0 ? features.dataValidations : undefined,
+  );
+  updateSheetEntry(
+    RESOURCE_CONDITIONAL_FORMATTING,
+    features.conditionalFormats.length > 0
+      ? features.conditionalFormats
+      : undefined,
+  );
+  updateSheetEntry(RESOURCE_FILTER, features.autoFilter);
+  updateSheetEntry(
+    RESOURCE_HYPER_LINK,
+    features.hyperlinks.length > 0 ? features.hyperlinks : undefined,
+  );
+  updateSheetEntry(
+    RESOURCE_NOTE,
+    Object.keys(features.notes).length > 0 ? features.notes : undefined,
+  );
+}
+
+/**
+ * Store defined names in the native SHEET_DEFINED_NAME_PLUGIN resource
+ */
+export function storeDefinedNames(
+  univerData: FeatureSnapshot,
+  names: UniverDefinedName[],
+): void {
+  if (names.length === 0) return;
+  const map: Record<string, UniverDefinedName> = {};
+  for (const definedName of names) {
+    map[definedName.id] = definedName;
+  }
+  writeResource(univerData, RESOURCE_DEFINED_NAME, map);
+}
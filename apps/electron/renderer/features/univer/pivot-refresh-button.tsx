@@ -0,0 +1,66 @@
+import { useEffect } from 'react'
+import { IconRefresh } from '@tabler/icons-react'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import { trpc } from '@/lib/trpc'
+
+interface PivotRefreshButtonProps {
+  artifactId: string
+  className?: string
+  /** Saves pending edits so the pivots are computed from the current source data */
+  onBeforeRefresh: () => Promise<void>
+}
+
+/**
+ * Refreshes the pivot tables of a spreadsheet artifact from their source ranges.
+ * The updated cells arrive through the same live update as the agent's tools.
+ */
+export function PivotRefreshButton({ artifactId, className, onBeforeRefresh }: PivotRefreshButtonProps) {
+  const utils = trpc.useUtils()
+  const { data: pivots } = trpc.tools.listPivotTables.useQuery({ artifactId })
+  const refresh = trpc.tools.refreshPivotTables.useMutation({
+    onSuccess: (result) => {
+      toast.success(`${result.refreshed.length} tabla(s) dinámica(s) actualizada(s)`)
+      utils.tools.listPivotTables.invalidate({ artifactId })
+    },
+    onError: (error) => {
+      toast.error(`No se pudieron actualizar las tablas dinámicas: ${error.message}`)
+    }
+  })
+
+  // Pivots created or refreshed by the agent arrive as artifact updates
+  useEffect(() => {
+    const unsubscribe = window.desktopApi?.onArtifactUpdate?.((update) => {
+      if (update.artifactId === artifactId) utils.tools.listPivotTables.invalidate({ artifactId })
+    })
+    return () => {
+      unsubscribe?.()
+    }
+  }, [artifactId, utils])
+
+  if (!pivots || pivots.length === 0) return null
+
+  const handleClick = async () => {
+    await onBeforeRefresh()
+    refresh.mutate({ artifactId })
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={refresh.isPending}
+      className={cn(
+        'absolute z-40 flex items-center gap-1.5 px-3 py-1.5',
+        'bg-card border shadow-lg rounded-lg text-xs font-medium',
+        'hover:bg-muted transition-colors disabled:opacity-60',
+        className
+      )}
+      style={{ bottom: 8, right: 8 }}
+      title={pivots.map(pivot => `${pivot.name} (${pivot.outputRange ?? '—'})`).join('\n')}
+    >
+      <IconRefresh size={14} className={cn(refresh.isPending && 'animate-spin')} />
+      <span>Actualizar tablas dinámicas</span>
+    </button>
+  )
+}
@@ -0,0 +1,248 @@
+/**
+ * DOCX writer - genera WordprocessingML a partir de bloques de documento
+ * Escribe el paquete con JSZip: estilos, numeración de listas e hipervínculos
+ */
+
+import JSZip from 'jszip'
+import type { DocBlock, DocInline, DocumentPage } from '@s-agi/core/utils/document-blocks'
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main'
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+
+// Points to twentieths of a point
+const twips = (pt: number) => Math.round(pt * 20)
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+interface DocxContext {
+  links: string[]
+  orderedLists: number
+}
+
+function linkId(context: DocxContext, url: string): string {
+  let index = context.links.indexOf(url)
+  if (index === -1) index = context.links.push(url) - 1
+  // rId1 and rId2 are styles and numbering
+  return `rId${index + 3}`
+}
+
+function runXml(inline: DocInline, extra = ''): string {
+  const props = [
+    inline.link ? '<w:rStyle w:val="Hyperlink"/>' : '',
+    inline.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>' : '',
+    inline.bold ? '<w:b/>' : '',
+    inline.italic ? '<w:i/>' : '',
+    inline.strike ? '<w:strike/>' : '',
+    inline.underline ? '<w:u w:val="single"/>' : '',
+    extra,
+  ].join('')
+  const text = inline.text
+    .split('\n')
+    .map((line) => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join('<w:br/>')
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${text}</w:r>`
+}
+
+function runsXml(context: DocxContext, content: DocInline[]): string {
+  let xml = ''
+  for (let i = 0; i < content.length; i++) {
+    const link = content[i].link
+    if (!link) {
+      xml += runXml(content[i])
+      continue
+    }
+    // Consecutive runs of the same link share one hyperlink element
+    let runs = ''
+    while (i < content.length && content[i].link === link) runs += runXml(content[i++])
+    i--
+    xml += `<w:hyperlink r:id="${linkId(context, link)}">${runs}</w:hyperlink>`
+  }
+  return xml
+}
+
+function paragraphXml(props: string, runs: string): string {
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`
+}
+
+function tableXml(header: string[], rows: string[][], contentWidth: number): string {
+  const columns = Math.max(1, header.length, ...rows.map((row) => row.length))
+  const width = Math.floor(twips(contentWidth) / columns)
+  const cell = (text: string, bold: boolean) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/></w:tcPr>` +
+    paragraphXml('<w:spacing w:after="0"/>', text ? runXml({ text, bold }) : '') +
+    '</w:tc>'
+  const row = (cells: string[], isHeader: boolean) =>
+    `<w:tr>${isHeader ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}` +
+    Array.from({ length: columns }, (_, i) => cell(cells[i] ?? '', isHeader)).join('') +
+    '</w:tr>'
+
+  return (
+    '<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr>' +
+    `<w:tblGrid>${`<w:gridCol w:w="${width}"/>`.repeat(columns)}</w:tblGrid>` +
+    (header.length > 0 ? row(header, true) : '') +
+    rows.map((cells) => row(cells, false)).join('') +
+    '</w:tbl>'
+  )
+}
+
+function blockXml(context: DocxContext, block: DocBlock, page: DocumentPage): string {
+  switch (block.type) {
+    case 'heading':
+      return paragraphXml(`<w:pStyle w:val="Heading${block.level}"/>`, runsXml(context, block.content))
+    case 'paragraph':
+      return paragraphXml('', runsXml(context, block.content))
+    case 'list': {
+      // Bullets share numbering 1, every ordered list restarts with its own
+      const numId = block.ordered ? 2 + context.orderedLists++ : 1
+      return block.items
+        .map((item) =>
+          paragraphXml(
+            `<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="${Math.min(item.level, 8)}"/><w:numId w:val="${numId}"/></w:numPr>`,
+            runsXml(context, item.content),
+          ),
+        )
+        .join('')
+    }
+    case 'table':
+      return tableXml(block.header, block.rows, page.width - page.marginLeft - page.marginRight)
+    case 'code':
+      return block.text
+        .split('\n')
+        .map((line) => paragraphXml('<w:pStyle w:val="Code"/>', line ? runXml({ text: line }) : ''))
+        .join('')
+    case 'quote': {
+      const quote = paragraphXml('<w:pStyle w:val="Quote"/>', runsXml(context, block.content))
+      if (!block.author) return quote
+      return quote + paragraphXml('<w:pStyle w:val="Quote"/><w:jc w:val="right"/>', runXml({ text: `— ${block.author}` }))
+    }
+    case 'rule':
+      return paragraphXml('<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr>', '')
+  }
+}
+
+/**
+ * Body of word/document.xml. Exposed separately so tests can compare it
+ * without the zip container.
+ */
+export function buildDocxDocumentXml(
+  blocks: DocBlock[],
+  page: DocumentPage,
+  context: DocxContext = { links: [], orderedLists: 0 },
+): string {
+  const body = blocks.map((block, index) => {
+    const xml = blockXml(context, block, page)
+    // Word needs a paragraph between adjacent tables and before the section end
+    const next = blocks[index + 1]
+    return block.type === 'table' && (!next || next.type === 'table') ? `${xml}<w:p/>` : xml
+  })
+
+  const section =
+    `<w:sectPr><w:pgSz w:w="${twips(page.width)}" w:h="${twips(page.height)}"${page.width > page.height ? ' w:orient="landscape"' : ''}/>` +
+    `<w:pgMar w:top="${twips(page.marginTop)}" w:right="${twips(page.marginRight)}" w:bottom="${twips(page.marginBottom)}" w:left="${twips(page.marginLeft)}" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>`
+
+  return `${XML_HEADER}\n<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}"><w:body>${body.join('')}${section}</w:body></w:document>`
+}
+
+const HEADING_SIZES = [32, 26, 24, 22, 22, 22]
+
+function stylesXml(): string {
+  const headings = HEADING_SIZES.map(
+    (size, i) =>
+      `<w:style w:type="paragraph" w:styleId="Heading${i + 1}"><w:name w:val="heading ${i + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+      `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${i}"/></w:pPr>` +
+      `<w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`,
+  ).join('')
+
+  return (
+    `${XML_HEADER}\n<w:styles xmlns:w="${W_NS}">` +
+    '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:lang w:val="es-ES"/></w:rPr></w:rPrDefault>' +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    headings +
+    '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="D0D7DE"/></w:pBdr><w:ind w:left="360"/></w:pPr><w:rPr><w:i/><w:color w:val="57606A"/></w:rPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F6F8FA"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="19"/></w:rPr></w:style>' +
+    '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>' +
+    '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>' +
+    ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map((side) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="D0D7DE"/>`).join('') +
+    '</w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>' +
+    '</w:styles>'
+  )
+}
+
+const BULLET_CHARS = ['•', '◦', '▪']
+
+function numberingXml(orderedLists: number): string {
+  const level = (ilvl: number, format: string, text: string) =>
+    `<w:lvl w:ilvl="${ilvl}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+    `<w:pPr><w:ind w:left="${720 * (ilvl + 1)}" w:hanging="360"/></w:pPr></w:lvl>`
+  const levels = (build: (ilvl: number) => string) => Array.from({ length: 9 }, (_, i) => build(i)).join('')
+
+  const bullets = `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels((i) => level(i, 'bullet', BULLET_CHARS[i % BULLET_CHARS.length]))}</w:abstractNum>`
+  const decimal = `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels((i) => level(i, 'decimal', `%${i + 1}.`))}</w:abstractNum>`
+  const nums = ['<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>']
+  for (let i = 0; i < orderedLists; i++) {
+    nums.push(
+      `<w:num w:numId="${i + 2}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`,
+    )
+  }
+  return `${XML_HEADER}\n<w:numbering xmlns:w="${W_NS}">${bullets}${decimal}${nums.join('')}</w:numbering>`
+}
+
+/**
+ * Build a .docx package from document blocks
+ */
+export async function buildDocx(
+  blocks: DocBlock[],
+  options: { page: DocumentPage; title?: string },
+): Promise<Uint8Array> {
+  const context: DocxContext = { links: [], orderedLists: 0 }
+  const documentXml = buildDocxDocumentXml(blocks, options.page, context)
+  const zip = new JSZip()
+
+  zip.file(
+    '[Content_Types].xml',
+    `${XML_HEADER}\n<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+      '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+      '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>' +
+      '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+      '</Types>',
+  )
+  zip.file(
+    '_rels/.rels',
+    `${XML_HEADER}\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+      '</Relationships>',
+  )
+  zip.file(
+    'docProps/core.xml',
+    `${XML_HEADER}\n<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">` +
+      `<dc:title>${escapeXml(options.title ?? '')}</dc:title><dc:creator>S-AGI</dc:creator></cp:coreProperties>`,
+  )
+  zip.file('word/document.xml', documentXml)
+  zip.file('word/styles.xml', stylesXml())
+  zip.file('word/numbering.xml', numberingXml(context.orderedLists))
+  zip.file(
+    'word/_rels/document.xml.rels',
+    `${XML_HEADER}\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      `<Relationship Id="rId1" Type="${R_NS}/styles" Target="styles.xml"/>` +
+      `<Relationship Id="rId2" Type="${R_NS}/numbering" Target="numbering.xml"/>` +
+      context.links
+        .map((url, i) => `<Relationship Id="rId${i + 3}" Type="${R_NS}/hyperlink" Target="${escapeXml(url)}" TargetMode="External"/>`)
+        .join('') +
+      '</Relationships>',
+  )
+
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' })
+}
@@ -0,0 +1,124 @@
+/**
+ * Document Export Service - exporta documentos Univer a DOCX, PDF, Markdown y HTML
+ * Convierte el snapshot a bloques (títulos, listas, tablas, código, citas) y
+ * los escribe en el formato pedido
+ */
+
+import { saveAs } from 'file-saver'
+import {
+  documentPageOf,
+  univerDocToBlocks,
+  type DocumentSource,
+} from '@s-agi/core/utils/document-blocks'
+import { blocksToHtml, blocksToMarkdown } from '@s-agi/core/utils/document-markup'
+import { buildDocx } from './document-docx'
+import { buildDocumentPdf } from './document-pdf'
+
+export type DocumentExportFormat = 'docx' | 'pdf' | 'markdown' | 'html'
+
+export const DOCUMENT_EXPORT_FORMATS: Record<
+  DocumentExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  docx: {
+    label: 'Word (.docx)',
+    extension: 'docx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  },
+  pdf: { label: 'PDF (.pdf)', extension: 'pdf', mimeType: 'application/pdf' },
+  markdown: { label: 'Markdown (.md)', extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  html: { label: 'HTML (.html)', extension: 'html', mimeType: 'text/html;charset=utf-8' },
+}
+
+export interface DocumentExportOptions {
+  /** Document title, used for the file name and document metadata */
+  title?: string
+}
+
+export interface DocumentExportFile {
+  bytes: Uint8Array
+  filename: string
+  mimeType: string
+}
+
+export interface DocumentSaveResult {
+  success: boolean
+  canceled?: boolean
+  path?: string
+  error?: string
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  const chunkSize = 0x8000
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize))
+  }
+  return btoa(binary)
+}
+
+export class DocumentExportService {
+  /**
+   * Build the exported file in memory
+   */
+  static async build(
+    univerData: DocumentSource,
+    format: DocumentExportFormat,
+    options: DocumentExportOptions = {},
+  ): Promise<DocumentExportFile> {
+    const blocks = univerDocToBlocks(univerData)
+    const title = options.title || 'Documento'
+    const page = documentPageOf(univerData)
+    const { extension, mimeType } = DOCUMENT_EXPORT_FORMATS[format]
+
+    let bytes: Uint8Array
+    switch (format) {
+      case 'docx':
+        bytes = await buildDocx(blocks, { page, title })
+        break
+      case 'pdf':
+        bytes = new Uint8Array(buildDocumentPdf(blocks, { page, title }))
+        break
+      case 'markdown':
+        bytes = new TextEncoder().encode(blocksToMarkdown(blocks))
+        break
+      case 'html':
+        bytes = new TextEncoder().encode(blocksToHtml(blocks, { title, lang: 'es' }))
+        break
+    }
+
+    const safeName = title.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'Documento'
+    return { bytes, filename: `${safeName}.${extension}`, mimeType }
+  }
+
+  /**
+   * Export and save through the native save dialog, or as a browser
+   * download when it is not available
+   */
+  static async save(
+    univerData: DocumentSource,
+    format: DocumentExportFormat,
+    options: DocumentExportOptions = {},
+  ): Promise<DocumentSaveResult> {
+    try {
+      const file = await this.build(univerData, format, options)
+
+      if (window.desktopApi?.document?.saveLocal) {
+        return await window.desktopApi.document.saveLocal({
+          base64: toBase64(file.bytes),
+          suggestedName: file.filename,
+          format,
+        })
+      }
+
+      saveAs(new Blob([file.bytes as BlobPart], { type: file.mimeType }), file.filename)
+      return { success: true }
+    } catch (error) {
+      console.error('[DocumentExportService] Error exporting:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'No se pudo exportar el documento',
+      }
+    }
+  }
+}
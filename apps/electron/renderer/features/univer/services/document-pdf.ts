@@ -0,0 +1,310 @@
+/**
+ * PDF writer - pagina bloques de documento con jsPDF
+ * Texto con estilos por palabra, enlaces clicables, tablas y numeración de páginas
+ */
+
+import { jsPDF } from 'jspdf'
+import type { DocBlock, DocInline, DocumentPage } from '@s-agi/core/utils/document-blocks'
+
+type Rgb = [number, number, number]
+
+const TEXT_COLOR: Rgb = [31, 35, 40]
+const MUTED_COLOR: Rgb = [87, 96, 106]
+const LINK_COLOR: Rgb = [5, 99, 193]
+const BORDER_COLOR: Rgb = [208, 215, 222]
+const SHADE_COLOR: Rgb = [246, 248, 250]
+
+const BODY_SIZE = 11
+const HEADING_SIZES = [22, 18, 15, 13, 12, 11]
+const CODE_SIZE = 9.5
+const TABLE_SIZE = 10
+const LINE_HEIGHT = 1.4
+const LIST_INDENT = 18
+const CELL_PADDING = 4
+
+interface Segment {
+  text: string
+  inline: DocInline
+  width: number
+}
+
+interface TextStyle {
+  size: number
+  color: Rgb
+  bold?: boolean
+  italic?: boolean
+}
+
+class PdfLayout {
+  readonly pdf: jsPDF
+  y: number
+
+  constructor(readonly page: DocumentPage) {
+    this.pdf = new jsPDF({
+      orientation: page.width > page.height ? 'landscape' : 'portrait',
+      unit: 'pt',
+      format: [page.width, page.height],
+    })
+    this.y = page.marginTop
+  }
+
+  get left() {
+    return this.page.marginLeft
+  }
+
+  get contentWidth() {
+    return this.page.width - this.page.marginLeft - this.page.marginRight
+  }
+
+  /** Start a new page unless `height` still fits on the current one */
+  ensure(height: number): boolean {
+    if (this.y + height <= this.page.height - this.page.marginBottom || this.y === this.page.marginTop) {
+      return false
+    }
+    this.pdf.addPage()
+    this.y = this.page.marginTop
+    return true
+  }
+
+  useFont(inline: DocInline, style: TextStyle) {
+    const bold = inline.bold || style.bold
+    const italic = inline.italic || style.italic
+    const variant = bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal'
+    this.pdf.setFont(inline.code ? 'courier' : 'helvetica', variant)
+    this.pdf.setFontSize(style.size)
+  }
+
+  /**
+   * Lay out styled text word by word. `onLine` runs before each line is
+   * drawn, e.g. to paint a quote bar next to it.
+   */
+  writeInlines(
+    content: DocInline[],
+    style: TextStyle,
+    x: number,
+    width: number,
+    onLine?: (top: number, height: number, index: number) => void,
+  ) {
+    const lineHeight = style.size * LINE_HEIGHT
+    let line: Segment[] = []
+    let lineWidth = 0
+    let lineIndex = 0
+
+    const flush = () => {
+      // Spaces at the start and end of a line take no room
+      while (line.length > 0 && !line[0].text.trim()) lineWidth -= line.shift()!.width
+      while (line.length > 0 && !line[line.length - 1].text.trim()) lineWidth -= line.pop()!.width
+      this.ensure(lineHeight)
+      onLine?.(this.y, lineHeight, lineIndex++)
+      const baseline = this.y + style.size * 1.05
+      let cursor = x
+      for (const segment of line) {
+        this.drawSegment(segment, style, cursor, baseline)
+        cursor += segment.width
+      }
+      this.y += lineHeight
+      line = []
+      lineWidth = 0
+    }
+
+    for (const inline of content) {
+      const parts = inline.text.split('\n')
+      parts.forEach((part, index) => {
+        if (index > 0) flush()
+        for (const word of part.split(/(\s+)/)) {
+          if (!word) continue
+          this.useFont(inline, style)
+          const wordWidth = this.pdf.getTextWidth(word)
+          if (lineWidth + wordWidth > width && word.trim() && line.some((s) => s.text.trim())) flush()
+          line.push({ text: word, inline, width: wordWidth })
+          lineWidth += wordWidth
+        }
+      })
+    }
+    if (line.length > 0 || content.length === 0) flush()
+  }
+
+  private drawSegment(segment: Segment, style: TextStyle, x: number, baseline: number) {
+    const { inline, text, width } = segment
+    if (!text.trim()) return
+    const color = inline.link ? LINK_COLOR : style.color
+    this.useFont(inline, style)
+    this.pdf.setTextColor(...color)
+    this.pdf.text(text, x, baseline)
+
+    this.pdf.setDrawColor(...color)
+    this.pdf.setLineWidth(0.5)
+    if (inline.underline || inline.link) this.pdf.line(x, baseline + 1.5, x + width, baseline + 1.5)
+    if (inline.strike) this.pdf.line(x, baseline - style.size * 0.3, x + width, baseline - style.size * 0.3)
+    if (inline.link) this.pdf.link(x, baseline - style.size, width, style.size * 1.25, { url: inline.link })
+  }
+
+  writeList(ordered: boolean, items: Array<{ content: DocInline[]; level: number }>) {
+    const counters: number[] = []
+    const style: TextStyle = { size: BODY_SIZE, color: TEXT_COLOR }
+    for (const item of items) {
+      counters.length = item.level + 1
+      counters[item.level] = (counters[item.level] ?? 0) + 1
+      const x = this.left + LIST_INDENT * (item.level + 1)
+      this.writeInlines(item.content, style, x, this.left + this.contentWidth - x, (top, height, index) => {
+        // Marker only on the first line of the item
+        if (index > 0) return
+        this.pdf.setTextColor(...TEXT_COLOR)
+        this.pdf.setFillColor(...TEXT_COLOR)
+        if (ordered) {
+          this.pdf.setFont('helvetica', 'normal')
+          this.pdf.setFontSize(BODY_SIZE)
+          this.pdf.text(`${counters[item.level]}.`, x - 4, top + BODY_SIZE * 1.05, { align: 'right' })
+        } else if (item.level % 2 === 0) {
+          this.pdf.circle(x - 8, top + height / 2, 1.8, 'F')
+        } else {
+          this.pdf.setDrawColor(...TEXT_COLOR)
+          this.pdf.circle(x - 8, top + height / 2, 1.8, 'S')
+        }
+      })
+      this.y += 3
+    }
+  }
+
+  writeCode(text: string) {
+    this.pdf.setFont('courier', 'normal')
+    this.pdf.setFontSize(CODE_SIZE)
+    const lineHeight = CODE_SIZE * LINE_HEIGHT
+    const lines = text
+      .split('\n')
+      .flatMap((line) => (line ? (this.pdf.splitTextToSize(line, this.contentWidth - CELL_PADDING * 3) as string[]) : ['']))
+
+    this.y += CELL_PADDING
+    for (const line of lines) {
+      this.ensure(lineHeight)
+      this.pdf.setFillColor(...SHADE_COLOR)
+      this.pdf.rect(this.left, this.y - CELL_PADDING / 2, this.contentWidth, lineHeight + CELL_PADDING, 'F')
+      this.pdf.setFont('courier', 'normal')
+      this.pdf.setFontSize(CODE_SIZE)
+      this.pdf.setTextColor(...TEXT_COLOR)
+      this.pdf.text(line, this.left + CELL_PADDING * 1.5, this.y + CODE_SIZE * 1.05)
+      this.y += lineHeight
+    }
+    this.y += CELL_PADDING
+  }
+
+  writeTable(header: string[], rows: string[][]) {
+    const columns = Math.max(1, header.length, ...rows.map((row) => row.length))
+    const columnWidth = this.contentWidth / columns
+    const lineHeight = TABLE_SIZE * LINE_HEIGHT
+
+    const drawRow = (cells: string[], isHeader: boolean) => {
+      this.pdf.setFont('helvetica', isHeader ? 'bold' : 'normal')
+      this.pdf.setFontSize(TABLE_SIZE)
+      const wrapped = Array.from({ length: columns }, (_, i) =>
+        this.pdf.splitTextToSize(cells[i] ?? '', columnWidth - CELL_PADDING * 2) as string[],
+      )
+      const height = Math.max(1, ...wrapped.map((lines) => lines.length)) * lineHeight + CELL_PADDING * 2
+      const newPage = this.ensure(height)
+      // Repeat the header row at the top of every page
+      if (newPage && !isHeader && header.length > 0) {
+        drawRow(header, true)
+        this.pdf.setFont('helvetica', 'normal')
+        this.pdf.setFontSize(TABLE_SIZE)
+      }
+
+      this.pdf.setDrawColor(...BORDER_COLOR)
+      this.pdf.setLineWidth(0.5)
+      wrapped.forEach((lines, i) => {
+        const x = this.left + columnWidth * i
+        if (isHeader) {
+          this.pdf.setFillColor(...SHADE_COLOR)
+          this.pdf.rect(x, this.y, columnWidth, height, 'FD')
+        } else {
+          this.pdf.rect(x, this.y, columnWidth, height, 'S')
+        }
+        this.pdf.setTextColor(...TEXT_COLOR)
+        lines.forEach((text, line) => {
+          this.pdf.text(text, x + CELL_PADDING, this.y + CELL_PADDING + line * lineHeight + TABLE_SIZE * 1.05)
+        })
+      })
+      this.y += height
+    }
+
+    if (header.length > 0) drawRow(header, true)
+    for (const row of rows) drawRow(row, false)
+  }
+
+  writeRule() {
+    this.ensure(16)
+    this.pdf.setDrawColor(...BORDER_COLOR)
+    this.pdf.setLineWidth(1)
+    this.pdf.line(this.left, this.y + 8, this.left + this.contentWidth, this.y + 8)
+    this.y += 16
+  }
+
+  writeBlock(block: DocBlock) {
+    switch (block.type) {
+      case 'heading': {
+        const size = HEADING_SIZES[block.level - 1] ?? BODY_SIZE
+        this.y += size * 0.6
+        // Keep a heading together with the first line after it
+        this.ensure(size * LINE_HEIGHT + BODY_SIZE * LINE_HEIGHT)
+        this.writeInlines(block.content, { size, color: TEXT_COLOR, bold: true }, this.left, this.contentWidth)
+        this.y += 4
+        break
+      }
+      case 'paragraph':
+        this.writeInlines(block.content, { size: BODY_SIZE, color: TEXT_COLOR }, this.left, this.contentWidth)
+        this.y += 8
+        break
+      case 'list':
+        this.writeList(block.ordered, block.items)
+        this.y += 5
+        break
+      case 'code':
+        this.writeCode(block.text)
+        this.y += 8
+        break
+      case 'table':
+        this.writeTable(block.header, block.rows)
+        this.y += 10
+        break
+      case 'quote': {
+        const bar = (top: number, height: number) => {
+          this.pdf.setFillColor(...BORDER_COLOR)
+          this.pdf.rect(this.left, top, 3, height, 'F')
+        }
+        const style: TextStyle = { size: BODY_SIZE, color: MUTED_COLOR, italic: true }
+        this.writeInlines(block.content, style, this.left + 14, this.contentWidth - 14, bar)
+        if (block.author) {
+          this.writeInlines([{ text: `— ${block.author}` }], { size: BODY_SIZE - 1, color: MUTED_COLOR }, this.left + 14, this.contentWidth - 14, bar)
+        }
+        this.y += 8
+        break
+      }
+      case 'rule':
+        this.writeRule()
+        break
+    }
+  }
+
+  addPageNumbers() {
+    const total = this.pdf.getNumberOfPages()
+    for (let i = 1; i <= total; i++) {
+      this.pdf.setPage(i)
+      this.pdf.setFont('helvetica', 'normal')
+      this.pdf.setFontSize(9)
+      this.pdf.setTextColor(...MUTED_COLOR)
+      this.pdf.text(`${i} / ${total}`, this.page.width / 2, this.page.height - this.page.marginBottom / 2, {
+        align: 'center',
+      })
+    }
+  }
+}
+
+/**
+ * Paginated PDF of document blocks
+ */
+export function buildDocumentPdf(blocks: DocBlock[], options: { page: DocumentPage; title?: string }): ArrayBuffer {
+  const layout = new PdfLayout(options.page)
+  if (options.title) layout.pdf.setProperties({ title: options.title, creator: 'S-AGI' })
+  for (const block of blocks) layout.writeBlock(block)
+  layout.addPageNumbers()
+  return layout.pdf.output('arraybuffer')
+}
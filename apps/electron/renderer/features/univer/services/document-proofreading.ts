@@ -0,0 +1,94 @@
+/**
+ * Document proofreading - puente entre las sugerencias de revisión y Univer
+ * Lee el texto del documento, mide dónde se pinta cada sugerencia y aplica
+ * los reemplazos como comandos normales (con deshacer)
+ */
+
+import type { DocumentDataModel, Univer } from '@univerjs/core'
+import { ICommandService, IUniverInstanceService, UniverInstanceType } from '@univerjs/core'
+import { calcDocRangePositions, ReplaceSelectionCommand } from '@univerjs/docs-ui'
+import { IRenderManagerService } from '@univerjs/engine-render'
+import type { ProofreadingSuggestion } from '@s-agi/core/utils/proofreading'
+
+// VIEWPORT_KEY.VIEW_MAIN in docs-ui, which does not export the enum
+const VIEW_MAIN = 'viewMain'
+
+export interface DocumentRect {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+function getCurrentDocument(univer: Univer): DocumentDataModel | null {
+  const instanceService = univer.__getInjector().get(IUniverInstanceService)
+  return instanceService.getCurrentUnitOfType<DocumentDataModel>(UniverInstanceType.UNIVER_DOC) ?? null
+}
+
+function getRender(univer: Univer) {
+  const doc = getCurrentDocument(univer)
+  if (!doc) return null
+  return univer.__getInjector().get(IRenderManagerService).getRenderById(doc.getUnitId()) ?? null
+}
+
+/**
+ * Body text of the open document. Offsets match Univer's: paragraphs end in
+ * '\r' and the section break is the final '\n'.
+ */
+export function getDocumentText(univer: Univer): string {
+  return getCurrentDocument(univer)?.getBody()?.dataStream ?? ''
+}
+
+/** Viewport rectangles of a suggestion's text, one per rendered line */
+export function getSuggestionRects(univer: Univer, suggestion: ProofreadingSuggestion): DocumentRect[] {
+  const render = getRender(univer)
+  if (!render) return []
+  try {
+    return (
+      calcDocRangePositions(
+        { startOffset: suggestion.start, endOffset: suggestion.end, collapsed: false, segmentId: '' },
+        render,
+      ) ?? []
+    )
+  } catch {
+    // The skeleton lags one frame behind a mutation; the next layout change re-measures
+    return []
+  }
+}
+
+/**
+ * Replace a suggestion's text, unless the document changed under it.
+ * Returns false when the text at the range no longer matches.
+ */
+export function replaceSuggestion(
+  univer: Univer,
+  suggestion: ProofreadingSuggestion,
+  replacement: string,
+): Promise<boolean> | false {
+  const doc = getCurrentDocument(univer)
+  const text = doc?.getBody()?.dataStream ?? ''
+  if (!doc || text.slice(suggestion.start, suggestion.end) !== suggestion.original) return false
+
+  return univer.__getInjector().get(ICommandService).executeCommand(ReplaceSelectionCommand.id, {
+    unitId: doc.getUnitId(),
+    selection: { startOffset: suggestion.start, endOffset: suggestion.end, collapsed: false },
+    body: { dataStream: replacement },
+  })
+}
+
+/**
+ * Call back whenever the rendered text moves: scrolling, zoom and window
+ * resizes. Returns a cleanup function.
+ */
+export function onDocumentLayoutChange(univer: Univer, callback: () => void): () => void {
+  const render = getRender(univer)
+  const scroll = render?.scene.getViewport(VIEW_MAIN)?.onScrollAfter$.subscribeEvent(callback)
+  const transform = render?.scene.onTransformChange$.subscribeEvent(callback)
+  window.addEventListener('resize', callback)
+
+  return () => {
+    scroll?.unsubscribe()
+    transform?.unsubscribe()
+    window.removeEventListener('resize', callback)
+  }
+}
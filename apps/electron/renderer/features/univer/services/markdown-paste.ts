@@ -0,0 +1,40 @@
+/**
+ * Markdown paste - pega Markdown como formato nativo del documento
+ * Usa el mismo conversor que las herramientas de documentos (títulos, listas,
+ * tablas, código, citas, énfasis y enlaces)
+ */
+
+import type { IDocumentBody, Univer } from '@univerjs/core'
+import { IDocClipboardService } from '@univerjs/docs-ui'
+import { looksLikeMarkdown, markdownToUniverBody } from '@s-agi/core/utils/document-markup'
+
+/**
+ * Convert Markdown pasted as plain text, or from a code editor (whose HTML
+ * only adds monospace styling), before Univer inserts it. Rich HTML from web
+ * pages and documents keeps Univer's own conversion. Returns a cleanup function.
+ */
+export function registerMarkdownPaste(univer: Univer, container: HTMLElement): () => void {
+  let pending: string | null = null
+
+  // Capture phase: runs before Univer's listener on its editor input
+  const capture = (event: ClipboardEvent) => {
+    const text = event.clipboardData?.getData('text/plain') ?? ''
+    const html = event.clipboardData?.getData('text/html') ?? ''
+    const fromEditor = !html || /white-space:\s*pre/i.test(html)
+    pending = fromEditor && looksLikeMarkdown(text) ? text : null
+  }
+  container.addEventListener('paste', capture, true)
+
+  const hook = univer.__getInjector().get(IDocClipboardService).addClipboardHook({
+    onBeforePaste: (body) => {
+      const markdown = pending
+      pending = null
+      return markdown ? (markdownToUniverBody(markdown, { sectionBreak: false }) as IDocumentBody) : body
+    },
+  })
+
+  return () => {
+    container.removeEventListener('paste', capture, true)
+    hook.dispose()
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * Sheet charts - charts embedded in the workbook and bound to cell ranges
+ *
+ * Definitions come from the SHEET_CHART_PLUGIN snapshot resource (written by
+ * the insert_chart/update_chart tools). Each chart is shown as a float DOM
+ * over the grid and re-reads its ranges whenever cell values change.
+ */
+
+import { useSyncExternalStore } from 'react'
+import type { Univer } from '@univerjs/core'
+import { IResourceManagerService, UniverInstanceType } from '@univerjs/core'
+import type { FUniver } from '@univerjs/core/facade'
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import {
+  SHEET_CHART_RESOURCE,
+  resolveChartData,
+  type RangeReader,
+  type SheetChart,
+} from '@s-agi/core/utils/sheet-charts'
+import { COLOR_PALETTES } from '@/features/charts/chart-viewer'
+
+const COMPONENT_KEY = 'SheetChart'
+
+interface SheetChartDomData {
+  unitId: string
+  chartId: string
+}
+
+// Charts per workbook unit, and a revision bumped on every change that
+// should re-render them (definitions or cell values)
+const chartsByUnit = new Map<string, Record<string, SheetChart>>()
+const listeners = new Set<() => void>()
+let revision = 0
+let activeApi: FUniver | null = null
+// Set while float DOMs are re-created, so their removal does not delete charts
+let remounting = false
+
+function notify() {
+  revision++
+  listeners.forEach((listener) => listener())
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function liveRangeReader(api: FUniver, unitId: string): RangeReader {
+  return (ref, sheetId) => {
+    const workbook = api.getWorkbook(unitId)
+    const sheet = ref.sheetName
+      ? workbook?.getSheetByName(ref.sheetName)
+      : workbook?.getSheetBySheetId(sheetId)
+    if (!sheet) throw new Error(`Sheet not found: ${ref.sheetName ?? sheetId}`)
+    return sheet
+      .getRange(ref.startRow, ref.startColumn, ref.endRow - ref.startRow + 1, ref.endColumn - ref.startColumn + 1)
+      .getValues()
+  }
+}
+
+function SheetChartView({ data }: { data?: SheetChartDomData }) {
+  useSyncExternalStore(subscribe, () => revision)
+
+  const chart = data ? chartsByUnit.get(data.unitId)?.[data.chartId] : undefined
+  if (!chart || !activeApi || !data) return null
+
+  let resolved
+  try {
+    resolved = resolveChartData(chart, liveRangeReader(activeApi, data.unitId))
+  } catch (error) {
+    return (
+      <div className="flex h-full w-full items-center justify-center rounded-md border border-border bg-background p-3 text-xs text-muted-foreground">
+        {error instanceof Error ? error.message : 'Chart data unavailable'}
+      </div>
+    )
+  }
+
+  const palette = COLOR_PALETTES.vibrant
+  const colorOf = (index: number) => resolved.series[index]?.color ?? palette[index % palette.length]
+  const rows = resolved.categories.map((name, index) => {
+    const row: Record<string, string | number | null> = { name }
+    resolved.series.forEach((s, i) => {
+      row[`s${i}`] = s.values[index] ?? null
+    })
+    return row
+  })
+  const showLegend = chart.showLegend ?? resolved.series.length > 1
+  const stackId = chart.stacked ? 'stack' : undefined
+  const xAxis = (
+    <XAxis
+      dataKey="name"
+      tick={{ fontSize: 11 }}
+      label={chart.xAxisTitle ? { value: chart.xAxisTitle, position: 'insideBottom', offset: -4, fontSize: 11 } : undefined}
+    />
+  )
+  const yAxis = (
+    <YAxis
+      tick={{ fontSize: 11 }}
+      label={chart.yAxisTitle ? { value: chart.yAxisTitle, angle: -90, position: 'insideLeft', fontSize: 11 } : undefined}
+    />
+  )
+
+  let body: React.ReactElement
+  switch (chart.type) {
+    case 'pie':
+    case 'doughnut': {
+      const slices = resolved.categories.map((name, index) => ({
+        name,
+        value: resolved.series[0]?.values[index] ?? 0,
+      }))
+      body = (
+        <PieChart>
+          <Pie
+            data={slices}
+            dataKey="value"
+            nameKey="name"
+            innerRadius={chart.type === 'doughnut' ? '50%' : 0}
+            outerRadius="80%"
+            isAnimationActive={false}
+          >
+            {slices.map((_, index) => (
+              <Cell key={index} fill={palette[index % palette.length]} />
+            ))}
+          </Pie>
+          <Tooltip />
+          {showLegend && <Legend wrapperStyle={{ fontSize: 11 }} />}
+        </PieChart>
+      )
+      break
+    }
+    case 'scatter':
+      body = (
+        <ScatterChart>
+          <CartesianGrid strokeDasharray="3 3" />
+          {xAxis}
+          {yAxis}
+          <Tooltip />
+          {showLegend && <Legend wrapperStyle={{ fontSize: 11 }} />}
+          {resolved.series.map((s, i) => (
+            <Scatter
+              key={i}
+              name={s.name}
+              data={rows.map((row) => ({ name: row.name, value: row[`s${i}`] }))}
+              dataKey="value"
+              fill={colorOf(i)}
+              isAnimationActive={false}
+            />
+          ))}
+        </ScatterChart>
+      )
+      break
+    case 'line':
+      body = (
+        <LineChart data={rows}>
+          <CartesianGrid strokeDasharray="3 3" />
+          {xAxis}
+          {yAxis}
+          <Tooltip />
+          {showLegend && <Legend wrapperStyle={{ fontSize: 11 }} />}
+          {resolved.series.map((s, i) => (
+            <Line key={i} name={s.name} dataKey={`s${i}`} stroke={colorOf(i)} strokeWidth={2} dot={false} isAnimationActive={false} />
+          ))}
+        </LineChart>
+      )
+      break
+    case 'area':
+      body = (
+        <AreaChart data={rows}>
+          <CartesianGrid strokeDasharray="3 3" />
+          {xAxis}
+          {yAxis}
+          <Tooltip />
+          {showLegend && <Legend wrapperStyle={{ fontSize: 11 }} />}
+          {resolved.series.map((s, i) => (
+            <Area key={i} name={s.name} dataKey={`s${i}`} stackId={stackId} stroke={colorOf(i)} fill={colorOf(i)} fillOpacity={0.3} isAnimationActive={false} />
+          ))}
+        </AreaChart>
+      )
+      break
+    default:
+      body = (
+        <BarChart data={rows}>
+          <CartesianGrid strokeDasharray="3 3" />
+          {xAxis}
+          {yAxis}
+          <Tooltip />
+          {showLegend && <Legend wrapperStyle={{ fontSize: 11 }} />}
+          {resolved.series.map((s, i) => (
+            <Bar key={i} name={s.name} dataKey={`s${i}`} stackId={stackId} fill={colorOf(i)} isAnimationActive={false} />
+          ))}
+        </BarChart>
+      )
+  }
+
+  return (
+    <div className="flex h-full w-full flex-col rounded-md border border-border bg-background p-2">
+      {chart.title && <div className="truncate pb-1 text-center text-xs font-medium">{chart.title}</div>}
+      <div className="min-h-0 flex-1">
+        <ResponsiveContainer width="100%" height="100%">
+          {body}
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Register the chart resource and float DOM component on a new instance.
+ * Must run before the workbook is created so the resource is loaded.
+ */
+export function registerSheetCharts(univer: Univer, api: FUniver): void {
+  activeApi = api
+
+  try {
+    const resourceManager = univer.__getInjector().get(IResourceManagerService)
+    const hook = resourceManager.registerPluginResource<Record<string, SheetChart>>({
+      pluginName: SHEET_CHART_RESOURCE as `SHEET_${string}_PLUGIN`,
+      businesses: [UniverInstanceType.UNIVER_SHEET],
+      onLoad: (unitId, value) => {
+        chartsByUnit.set(unitId, value ?? {})
+        notify()
+      },
+      onUnLoad: (unitId) => {
+        chartsByUnit.delete(unitId)
+      },
+      toJson: (unitId) => JSON.stringify(chartsByUnit.get(unitId) ?? {}),
+      parseJson: (json) => {
+        try {
+          return JSON.parse(json) ?? {}
+        } catch {
+          return {}
+        }
+      },
+    })
+    univer.onDispose(() => hook.dispose())
+  } catch (e) {
+    console.warn('[SheetCharts] Failed to register chart resource:', e)
+  }
+
+  api.registerComponent(COMPONENT_KEY, SheetChartView)
+
+  // Re-read the bound ranges after edits (formulas included)
+  api.addEvent(api.Event.SheetValueChanged, () => notify())
+
+  // Keep anchors in sync when charts are moved or resized in the grid
+  api.addEvent(api.Event.FloatDomUpdated, (params) => {
+    for (const drawing of params.drawings) {
+      const chart = chartsByUnit.get(drawing.unitId)?.[drawing.drawingId]
+      const from = drawing.sheetTransform?.from
+      if (!chart || !from) continue
+      chart.anchor = {
+        row: from.row,
+        column: from.column,
+        rowOffset: from.rowOffset,
+        columnOffset: from.columnOffset,
+        width: drawing.transform?.width ?? chart.anchor.width,
+        height: drawing.transform?.height ?? chart.anchor.height,
+      }
+    }
+  })
+
+  api.addEvent(api.Event.FloatDomDeleted, (params) => {
+    if (remounting) return
+    const unitId = params.workbook.getId()
+    const charts = chartsByUnit.get(unitId)
+    if (!charts) return
+    for (const id of params.drawings) delete charts[id]
+    notify()
+  })
+}
+
+function anchorPosition(sheet: any, chart: SheetChart) {
+  let startX = chart.anchor.columnOffset ?? 0
+  for (let column = 0; column < chart.anchor.column; column++) startX += sheet.getColumnWidth(column)
+  let startY = chart.anchor.rowOffset ?? 0
+  for (let row = 0; row < chart.anchor.row; row++) startY += sheet.getRowHeight(row)
+  return { startX, endX: startX + chart.anchor.width, startY, endY: startY + chart.anchor.height }
+}
+
+/**
+ * Show the charts of a freshly created workbook. Float DOMs restored from the
+ * drawing resource are kept when they still match the chart anchor.
+ */
+export function mountSheetCharts(api: FUniver, unitId: string): void {
+  const workbook = api.getWorkbook(unitId)
+  const charts = chartsByUnit.get(unitId) ?? {}
+  if (!workbook) return
+
+  remounting = true
+  try {
+    for (const sheet of workbook.getSheets() as any[]) {
+      const sheetId = sheet.getSheetId()
+      for (const dom of sheet.getAllFloatDoms?.() ?? []) {
+        const chart = charts[dom.id]
+        if (dom.componentKey === COMPONENT_KEY && (!chart || chart.sheetId !== sheetId)) {
+          sheet.removeFloatDom(dom.id)
+        }
+      }
+
+      for (const chart of Object.values(charts)) {
+        if (chart.sheetId !== sheetId) continue
+        const position = anchorPosition(sheet, chart)
+        const existing = sheet.getFloatDomById(chart.id)
+        if (existing) {
+          const moved =
+            Math.abs(existing.position.left - position.startX) > 1 ||
+            Math.abs(existing.position.top - position.startY) > 1 ||
+            Math.abs(existing.position.width - chart.anchor.width) > 1 ||
+            Math.abs(existing.position.height - chart.anchor.height) > 1
+          if (!moved) continue
+          sheet.removeFloatDom(chart.id)
+        }
+        const data: SheetChartDomData = { unitId, chartId: chart.id }
+        sheet.addFloatDomToPosition({ componentKey: COMPONENT_KEY, initPosition: position, data }, chart.id)
+      }
+    }
+  } catch (e) {
+    console.warn('[SheetCharts] Failed to mount charts:', e)
+  } finally {
+    remounting = false
+  }
+  notify()
+}
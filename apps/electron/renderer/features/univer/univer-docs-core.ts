@@ -14,7 +14,7 @@ import {
   ThemeService,
 } from "@univerjs/core";
 import { FUniver } from "@univerjs/core/facade";
-import { UniverDocsPlugin } from "@univerjs/docs";
+import { DocSelectionManagerService, UniverDocsPlugin } from "@univerjs/docs";
 import {
   createCustomTheme,
   createDarkTheme,
@@ -411,6 +411,25 @@ export function getDocsInstance(): UniverDocsInstance | null {
   return docsInstance;
 }
 
+/**
+ * Text selected in the open document, if the selection is not collapsed
+ */
+export function getSelectedDocumentText(): string | undefined {
+  if (!docsInstance) return undefined;
+
+  try {
+    const injector = docsInstance.univer.__getInjector();
+    const range = injector.get(DocSelectionManagerService).getActiveTextRange();
+    if (!range || range.collapsed) return undefined;
+    const dataStream =
+      docsInstance.api.getActiveDocument()?.getSnapshot().body?.dataStream ?? "";
+    return dataStream.slice(range.startOffset, range.endOffset) || undefined;
+  } catch {
+    // Selection not available
+    return undefined;
+  }
+}
+
 /**
  * Update theme for the Docs instance with full VSCode theme colors
  */
@@ -17,6 +17,8 @@ import {
 } from "@/lib/atoms/user-files";
 import { CommandType, UniverInstanceType } from "@univerjs/core";
 import { hasRealChanges } from "@/utils/univer-diff-stats";
+import { registerMarkdownPaste } from "./services/markdown-paste";
+import { UniverProofreading } from "./univer-proofreading";
 
 interface UniverDocumentProps {
   // Legacy: artifact-based props (for backward compatibility)
@@ -63,6 +65,7 @@ export const UniverDocument = React.forwardRef<
   const commandListenerRef = React.useRef<{ dispose?: () => void } | null>(
     null,
   );
+  const markdownPasteCleanupRef = React.useRef<(() => void) | null>(null);
   const triggerAutoSaveRef = React.useRef<() => void>(() => {});
   const setSnapshotInCacheRef = React.useRef<
     (id: string, snapshot: any, isDirty: boolean) => void
@@ -569,6 +572,13 @@ export const UniverDocument = React.forwardRef<
         console.log("[UniverDocument] Document created:", effectiveDataId);
         setIsLoading(false);
 
+        // Pasted Markdown becomes native headings, lists, tables and links
+        markdownPasteCleanupRef.current?.();
+        markdownPasteCleanupRef.current = registerMarkdownPaste(
+          instance.univer,
+          containerRef.current,
+        );
+
         // Listen to Univer command execution to detect real data mutations
         commandListenerRef.current?.dispose?.();
         commandListenerRef.current = instance.api.addEvent(
@@ -689,6 +699,8 @@ export const UniverDocument = React.forwardRef<
       }
       commandListenerRef.current?.dispose?.();
       commandListenerRef.current = null;
+      markdownPasteCleanupRef.current?.();
+      markdownPasteCleanupRef.current = null;
 
       // Capture version at cleanup time
       const version = versionRef.current;
@@ -1119,6 +1131,13 @@ export const UniverDocument = React.forwardRef<
         </div>
       )}
       <div ref={containerRef} className="w-full h-full" />
+      {!isLoading && !isPreviewMode && (
+        <UniverProofreading
+          key={effectiveId}
+          documentId={effectiveId}
+          container={containerRef.current}
+        />
+      )}
     </div>
   );
 });
@@ -0,0 +1,114 @@
+import * as React from "react";
+import { useAtomValue, useSetAtom } from "jotai";
+import { CommandType } from "@univerjs/core";
+import type { ProofreadingSuggestion } from "@s-agi/core/utils/proofreading";
+import { toast } from "sonner";
+import { useProofreading } from "@/hooks/use-proofreading";
+import { proofreadingEnabledAtom } from "@/lib/atoms";
+import { ProofreadingLayer } from "@/features/proofreading/proofreading-layer";
+import { getDocsInstance } from "./univer-docs-core";
+import {
+  getDocumentText,
+  getSuggestionRects,
+  onDocumentLayoutChange,
+  replaceSuggestion,
+} from "./services/document-proofreading";
+
+interface UniverProofreadingProps {
+  /** File or artifact shown in the editor, so the agent's check_grammar can target it */
+  documentId?: string;
+  container: HTMLElement | null;
+}
+
+/**
+ * Proofreading for the open Univer document. Mount only once the document
+ * has been created; the text is re-read after every mutation.
+ */
+export function UniverProofreading({
+  documentId,
+  container,
+}: UniverProofreadingProps) {
+  const enabled = useAtomValue(proofreadingEnabledAtom);
+  const setEnabled = useSetAtom(proofreadingEnabledAtom);
+  const [text, setText] = React.useState("");
+  const [layoutVersion, setLayoutVersion] = React.useState(0);
+  const proofreading = useProofreading(text, { enabled });
+
+  React.useEffect(() => {
+    let cleanup: (() => void) | undefined;
+
+    // Wait a frame: on an ID switch the parent swaps the document in its own
+    // effect, which runs after this one
+    const frame = requestAnimationFrame(() => {
+      const instance = getDocsInstance();
+      if (!instance) return;
+
+      setText(getDocumentText(instance.univer));
+      const listener = instance.api.addEvent(
+        instance.api.Event.CommandExecuted,
+        (event) => {
+          if (event.type !== CommandType.MUTATION) return;
+          setText(getDocumentText(instance.univer));
+          setLayoutVersion((v) => v + 1);
+        },
+      );
+      const stopLayout = onDocumentLayoutChange(instance.univer, () =>
+        setLayoutVersion((v) => v + 1),
+      );
+      cleanup = () => {
+        listener.dispose();
+        stopLayout();
+      };
+    });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      cleanup?.();
+    };
+  }, []);
+
+  // The agent asks for an AI review of the document open here
+  const checkWithAIRef = React.useRef(proofreading.checkWithAI);
+  checkWithAIRef.current = proofreading.checkWithAI;
+  React.useEffect(() => {
+    if (!documentId) return;
+    return window.desktopApi?.onArtifactProofread?.((data) => {
+      if (data.artifactId !== documentId) return;
+      setEnabled(true);
+      checkWithAIRef.current();
+    });
+  }, [documentId, setEnabled]);
+
+  const getRects = React.useCallback(
+    (suggestion: ProofreadingSuggestion) => {
+      const instance = getDocsInstance();
+      return instance ? getSuggestionRects(instance.univer, suggestion) : [];
+    },
+    [],
+  );
+
+  const handleAccept = React.useCallback(
+    (suggestion: ProofreadingSuggestion, replacement: string) => {
+      const instance = getDocsInstance();
+      if (!instance || !replaceSuggestion(instance.univer, suggestion, replacement)) {
+        toast.error("El texto cambió; vuelve a intentarlo");
+      }
+    },
+    [],
+  );
+
+  return (
+    <ProofreadingLayer
+      container={container}
+      suggestions={proofreading.suggestions}
+      getRects={getRects}
+      layoutVersion={layoutVersion}
+      onAccept={handleAccept}
+      onReject={proofreading.reject}
+      onIgnoreRule={proofreading.ignoreRule}
+      onAddToDictionary={proofreading.addToDictionary}
+      isCheckingWithAI={proofreading.isCheckingWithAI}
+      onCheckWithAI={proofreading.checkWithAI}
+    />
+  );
+}
@@ -65,6 +65,9 @@ import { UniverSheetsDataValidationUIPlugin } from '@univerjs/sheets-data-valida
 import { UniverSheetsNotePlugin } from '@univerjs/sheets-note'
 import { UniverSheetsNoteUIPlugin } from '@univerjs/sheets-note-ui'
 
+// Range-bound charts (SHEET_CHART_PLUGIN resource, shown as float DOMs)
+import { mountSheetCharts, registerSheetCharts } from './sheet-charts'
+
 // Thread Comment plugins - DISABLED
 // These plugins require Univer Server infrastructure (IThreadCommentDataSourceService)
 // Without the server, DI fails with: "Cannot find 'w15'/'z' registered by any injector"
@@ -406,6 +409,9 @@ export async function initSheetsUniver(container: HTMLElement): Promise<UniverSh
         restoreConsoleError()
     }, 1000) // Restore after 1 second to allow async plugin initialization
 
+    // Chart resource must be registered before any workbook is loaded
+    registerSheetCharts(univer, api)
+
     // Ensure header/toolbar UI parts are visible (required for drawing/image buttons)
     try {
         api.setUIVisible(BuiltInUIPart.HEADER, true)
@@ -579,6 +585,9 @@ export function createWorkbook(univer: Univer, api: FUniver, data?: any, id?: st
     // Track workbook ID to prevent duplicates
     currentWorkbookId = workbookId
 
+    // Float DOMs need the sheet render to be ready
+    setTimeout(() => mountSheetCharts(api, workbookId), 0)
+
     return workbook
 }
 
@@ -787,6 +796,24 @@ export function getSpreadsheetContext(
     }
 }
 
+/**
+ * Active selection of the open workbook in A1 notation, prefixed with the
+ * sheet name (e.g. "Hoja1!A1:C4"). Undefined when nothing is selected.
+ */
+export function getSelectedRangeA1(): string | undefined {
+    if (!sheetsInstance?.api) return undefined
+
+    try {
+        const activeSheet = sheetsInstance.api.getActiveWorkbook()?.getActiveSheet()
+        const activeRange = activeSheet?.getSelection()?.getActiveRange()
+        if (!activeSheet || !activeRange) return undefined
+        return `${activeSheet.getSheetName()}!${activeRange.getA1Notation()}`
+    } catch {
+        // Selection not available
+        return undefined
+    }
+}
+
 /**
  * Get the data from a specific range as a formatted string for AI context.
  * Useful for getting data from user-selected ranges.
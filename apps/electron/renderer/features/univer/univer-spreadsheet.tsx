@@ -20,6 +20,8 @@ import { hasRealChanges } from "@/utils/univer-diff-stats";
 import { AddContextButton } from "./add-context-button";
 import { UniverToolsPanel } from "./univer-tools-panel";
 import { FloatingToolbarButtons } from "./floating-toolbar-buttons";
+import { PivotRefreshButton } from "./pivot-refresh-button";
+import { CellCitationButton } from "./cell-citation-button";
 import "./print.css";
 
 interface UniverSpreadsheetProps {
@@ -1418,6 +1420,14 @@ export const UniverSpreadsheet = React.forwardRef<
           onPrintClick={() => setPrintDialogOpen(true)}
         />
       )}
+
+      {/* Source of cells extracted from a PDF */}
+      {!isLoading && <CellCitationButton />}
+
+      {/* Refresh action for pivot tables created by the agent */}
+      {!hasFileId && hasArtifactId && artifactId && !isPreviewMode && (
+        <PivotRefreshButton artifactId={artifactId} onBeforeRefresh={handleSave} />
+      )}
       
       {/* Add Context button - appears when cells are selected */}
       <AddContextButton
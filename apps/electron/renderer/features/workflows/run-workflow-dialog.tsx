@@ -0,0 +1,277 @@
+/**
+ * RunWorkflowDialog - Replay a recorded workflow on a spreadsheet, with a
+ * dry-run preview of the resulting changes
+ */
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FileVersionDiff } from "@/components/file-version-diff";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { IconEye, IconLoader2, IconTrash } from "@tabler/icons-react";
+
+interface RunWorkflowDialogProps {
+  /** Spreadsheet the workflow runs on by default */
+  artifactId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RunWorkflowDialog({
+  artifactId,
+  open,
+  onOpenChange,
+}: RunWorkflowDialogProps) {
+  const [workflowId, setWorkflowId] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const utils = trpc.useUtils();
+  const { data: workflows = [] } = trpc.workflows.list.useQuery(undefined, {
+    enabled: open,
+  });
+  const { data: workflow } = trpc.workflows.get.useQuery(
+    { id: workflowId ?? "" },
+    { enabled: open && !!workflowId },
+  );
+  const { data: spreadsheets = [] } = trpc.artifacts.listAll.useQuery(
+    { type: "spreadsheet", limit: 100 },
+    { enabled: open },
+  );
+
+  const previewMutation = trpc.workflows.run.useMutation({
+    onError: (error) => toast.error(error.message),
+  });
+
+  const applyMutation = trpc.workflows.run.useMutation({
+    onSuccess: (result) => {
+      utils.artifacts.invalidate();
+      toast.success(`Workflow applied (${result.steps.length} step(s))`);
+      onOpenChange(false);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteMutation = trpc.workflows.delete.useMutation({
+    onSuccess: () => {
+      utils.workflows.list.invalidate();
+      setWorkflowId(null);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  useEffect(() => {
+    if (open) {
+      setWorkflowId(null);
+      previewMutation.reset();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  // Recorded values are the defaults; the first target file is the open spreadsheet
+  useEffect(() => {
+    if (!workflow) return;
+    const initial: Record<string, string> = {};
+    for (const param of workflow.definition.parameters) {
+      initial[param.name] =
+        param.kind === "file"
+          ? param.name === "file"
+            ? (artifactId ?? "")
+            : ""
+          : (param.defaultValue ?? "");
+    }
+    setValues(initial);
+    previewMutation.reset();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [workflow, artifactId]);
+
+  const setValue = (name: string, value: string) => {
+    setValues((prev) => ({ ...prev, [name]: value }));
+    // A preview only matches the values it was run with
+    previewMutation.reset();
+  };
+
+  const parameters = workflow?.definition.parameters ?? [];
+  const fileParams = parameters.filter((param) => param.kind === "file");
+  const otherParams = parameters.filter((param) => param.kind !== "file");
+  const isComplete = useMemo(
+    () => parameters.every((param) => values[param.name]?.trim()),
+    [parameters, values],
+  );
+
+  const run = (dryRun: boolean) => {
+    if (!workflowId) return;
+    const mutation = dryRun ? previewMutation : applyMutation;
+    mutation.mutate({ id: workflowId, values, dryRun });
+  };
+
+  const isBusy = previewMutation.isPending || applyMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Run workflow</DialogTitle>
+          <DialogDescription>
+            Replay recorded steps on a spreadsheet without calling the model.
+            Preview the changes before applying them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2 max-h-[60vh] overflow-y-auto">
+          <div className="space-y-1.5">
+            <Label>Workflow</Label>
+            <div className="flex items-center gap-2">
+              <Select
+                value={workflowId ?? undefined}
+                onValueChange={setWorkflowId}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue
+                    placeholder={
+                      workflows.length === 0
+                        ? "No workflows yet"
+                        : "Choose a workflow"
+                    }
+                  />
+                </SelectTrigger>
+                <SelectContent>
+                  {workflows.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {workflowId && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-9 text-muted-foreground hover:text-destructive"
+                  onClick={() => deleteMutation.mutate({ id: workflowId })}
+                >
+                  <IconTrash size={16} />
+                </Button>
+              )}
+            </div>
+            {workflow?.description && (
+              <p className="text-xs text-muted-foreground">
+                {workflow.description}
+              </p>
+            )}
+            {workflows.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Use "Save as workflow" on an assistant response that edited a
+                spreadsheet to record one.
+              </p>
+            )}
+          </div>
+
+          {workflow && (
+            <>
+              {fileParams.map((param) => (
+                <div key={param.name} className="space-y-1.5">
+                  <Label>{param.label}</Label>
+                  <Select
+                    value={values[param.name] || undefined}
+                    onValueChange={(value) => setValue(param.name, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a spreadsheet" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {spreadsheets.map((sheet) => (
+                        <SelectItem key={sheet.id} value={sheet.id}>
+                          {sheet.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+
+              {otherParams.length > 0 && (
+                <div className="grid grid-cols-3 gap-3">
+                  {otherParams.map((param) => (
+                    <div key={param.name} className="space-y-1.5">
+                      <Label
+                        htmlFor={`workflow-param-${param.name}`}
+                        className="text-xs"
+                      >
+                        {param.label}
+                      </Label>
+                      <Input
+                        id={`workflow-param-${param.name}`}
+                        value={values[param.name] ?? ""}
+                        onChange={(e) => setValue(param.name, e.target.value)}
+                        className="h-8 text-xs"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <p className="text-xs text-muted-foreground">
+                {workflow.definition.steps.length} step(s):{" "}
+                {workflow.definition.steps.map((step) => step.tool).join(", ")}
+              </p>
+            </>
+          )}
+
+          {previewMutation.data?.files.map((file) => (
+            <div key={file.parameter} className="space-y-2">
+              <p className="text-sm font-medium">{file.name}</p>
+              <FileVersionDiff
+                versionA={{ univer_data: file.before }}
+                versionB={{ univer_data: file.after }}
+                fileType="excel"
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => run(true)}
+            disabled={!workflow || !isComplete || isBusy}
+          >
+            {previewMutation.isPending ? (
+              <IconLoader2 size={16} className="mr-2 animate-spin" />
+            ) : (
+              <IconEye size={16} className="mr-2" />
+            )}
+            Preview
+          </Button>
+          <Button
+            onClick={() => run(false)}
+            disabled={!workflow || !isComplete || isBusy}
+          >
+            {applyMutation.isPending && (
+              <IconLoader2 size={16} className="mr-2 animate-spin" />
+            )}
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,114 @@
+/**
+ * SaveWorkflowDialog - Record the spreadsheet tool calls of an assistant message
+ * as a workflow that can be replayed on other workbooks without the model
+ */
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+
+interface SaveWorkflowDialogProps {
+  messageId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SaveWorkflowDialog({
+  messageId,
+  open,
+  onOpenChange,
+}: SaveWorkflowDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+
+  const utils = trpc.useUtils();
+
+  useEffect(() => {
+    if (open) {
+      setName("");
+      setDescription("");
+    }
+  }, [open]);
+
+  const recordMutation = trpc.workflows.recordFromMessage.useMutation({
+    onSuccess: (result) => {
+      utils.workflows.list.invalidate();
+      toast.success(`Workflow saved with ${result.stepCount} step(s)`, {
+        description:
+          result.skipped.length > 0
+            ? `Skipped: ${[...new Set(result.skipped)].join(", ")}`
+            : undefined,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handleSave = () => {
+    if (!messageId || !name.trim()) return;
+    recordMutation.mutate({
+      messageId,
+      name: name.trim(),
+      description: description.trim() || undefined,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save as workflow</DialogTitle>
+          <DialogDescription>
+            The spreadsheet steps of this response are saved so you can run
+            them on another file. The target file and the columns used become
+            inputs you can change.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 py-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="workflow-name">Name</Label>
+            <Input
+              id="workflow-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Clean up monthly export"
+              autoFocus
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="workflow-description">Description</Label>
+            <Textarea
+              id="workflow-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What this workflow does"
+              rows={2}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!name.trim() || recordMutation.isPending}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
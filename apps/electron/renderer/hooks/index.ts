@@ -43,6 +43,8 @@ export {
   type AutocompleteSuggestion,
   type SpellCheckResult,
 } from "./use-spell-check";
+export { useSpellChecker, type SpellCheckerState } from "./use-spell-checker";
+export { useProofreading, type ProofreadingResult } from "./use-proofreading";
 
 // Data persistence hooks
 export {
@@ -26,10 +26,12 @@ export interface VersionStats {
 
 interface UseFileVersionsOptions {
   includeObsolete?: boolean;
+  // Only list versions of the branch the working copy is on
+  currentBranchOnly?: boolean;
 }
 
 export function useFileVersions(fileId: string | null, options: UseFileVersionsOptions = {}) {
-  const { includeObsolete = false } = options;
+  const { includeObsolete = false, currentBranchOnly = false } = options;
 
   const [isOpen, setIsOpen] = useAtom(versionHistoryOpenAtom);
   const [historyFileId, setHistoryFileId] = useAtom(versionHistoryFileIdAtom);
@@ -52,14 +54,25 @@ export function useFileVersions(fileId: string | null, options: UseFileVersionsO
 
   // ==================== QUERIES ====================
 
+  // Branches of the file and the one the working copy is on
+  const { data: branchesData } = trpc.userFiles.listBranches.useQuery(
+    { fileId: fileId! },
+    { enabled: !!fileId },
+  );
+  const currentBranch = branchesData?.currentBranch ?? null;
+
   // List versions for the file - enabled when fileId exists (not dependent on isOpen atom)
   const {
     data: versions,
     isLoading: isLoadingVersions,
     refetch: refetchVersions,
   } = trpc.userFiles.listVersions.useQuery(
-    { fileId: fileId!, includeObsolete },
-    { enabled: !!fileId },
+    {
+      fileId: fileId!,
+      includeObsolete,
+      branch: currentBranchOnly ? (currentBranch ?? undefined) : undefined,
+    },
+    { enabled: !!fileId && (!currentBranchOnly || !!currentBranch) },
   );
 
   // Get specific version for preview
@@ -187,42 +200,58 @@ export function useFileVersions(fileId: string | null, options: UseFileVersionsO
 
   // ==================== MUTATIONS ====================
 
-  const restoreMutation = trpc.userFiles.restoreVersion.useMutation({
-    onSuccess: (updatedFile) => {
-      if (fileId && updatedFile) {
-        // CRITICAL FIX: Clear the snapshot cache for this file FIRST
-        // This prevents the old cached data from overriding the restored data
-        console.log("[useFileVersions] Restore success - clearing cache for:", fileId);
-        setSnapshotCache((prev) => {
-          const { [fileId]: _removed, ...rest } = prev;
-          return rest;
-        });
+  // Restore, branch switch and merge all replace the working copy
+  const handleWorkingCopyReplaced = (updatedFile: unknown) => {
+    if (fileId && updatedFile) {
+      // CRITICAL FIX: Clear the snapshot cache for this file FIRST
+      // This prevents the old cached data from overriding the restored data
+      console.log("[useFileVersions] Working copy replaced - clearing cache for:", fileId);
+      setSnapshotCache((prev) => {
+        const { [fileId]: _removed, ...rest } = prev;
+        return rest;
+      });
 
-        // CRITICAL FIX: Immediately update the file atom with restored data
-        // This ensures the spreadsheet shows the correct data without waiting for refetch
-        const restoredFile = updatedFile as UserFile;
-        if (restoredFile.type === "excel") {
-          console.log("[useFileVersions] Updating Excel file atom with restored data");
-          setCurrentExcelFile(restoredFile);
-        } else if (restoredFile.type === "doc") {
-          console.log("[useFileVersions] Updating Doc file atom with restored data");
-          setCurrentDocFile(restoredFile);
-        }
+      // CRITICAL FIX: Immediately update the file atom with restored data
+      // This ensures the spreadsheet shows the correct data without waiting for refetch
+      const restoredFile = updatedFile as UserFile;
+      if (restoredFile.type === "excel") {
+        console.log("[useFileVersions] Updating Excel file atom with restored data");
+        setCurrentExcelFile(restoredFile);
+      } else if (restoredFile.type === "doc") {
+        console.log("[useFileVersions] Updating Doc file atom with restored data");
+        setCurrentDocFile(restoredFile);
+      }
 
-        // Invalidate queries to ensure consistency (refetch will confirm our optimistic update)
-        utils.userFiles.get.invalidate({ id: fileId });
-        utils.userFiles.listVersions.invalidate({ fileId });
-        utils.userFiles.getVersionStats.invalidate({ fileId });
+      // Invalidate queries to ensure consistency (refetch will confirm our optimistic update)
+      utils.userFiles.get.invalidate({ id: fileId });
+      utils.userFiles.listVersions.invalidate({ fileId });
+      utils.userFiles.getVersionStats.invalidate({ fileId });
+      utils.userFiles.listBranches.invalidate({ fileId });
 
-        // Also invalidate list queries for the file type to update version counts in sidebar
-        if (restoredFile.type) {
-          utils.userFiles.list.invalidate({ type: restoredFile.type });
-        }
+      // Also invalidate list queries for the file type to update version counts in sidebar
+      if (restoredFile.type) {
+        utils.userFiles.list.invalidate({ type: restoredFile.type });
       }
-      // Clear preview and preview data
-      setPreviewVersion(null);
-      setVersionPreviewData(null);
-    },
+    }
+    // Clear preview and preview data
+    setPreviewVersion(null);
+    setVersionPreviewData(null);
+  };
+
+  const restoreMutation = trpc.userFiles.restoreVersion.useMutation({
+    onSuccess: handleWorkingCopyReplaced,
+  });
+
+  const createBranchMutation = trpc.userFiles.createBranch.useMutation({
+    onSuccess: handleWorkingCopyReplaced,
+  });
+
+  const switchBranchMutation = trpc.userFiles.switchBranch.useMutation({
+    onSuccess: handleWorkingCopyReplaced,
+  });
+
+  const mergeBranchMutation = trpc.userFiles.mergeBranch.useMutation({
+    onSuccess: handleWorkingCopyReplaced,
   });
 
   // ==================== ACTIONS ====================
@@ -289,6 +318,45 @@ export function useFileVersions(fileId: string | null, options: UseFileVersionsO
     [fileId, restoreMutation],
   );
 
+  // Fork a branch from a version and switch to it
+  const createBranch = useCallback(
+    async (name: string, fromVersion: number) => {
+      if (!fileId) return null;
+      return createBranchMutation.mutateAsync({ fileId, name, fromVersion });
+    },
+    [fileId, createBranchMutation],
+  );
+
+  // Switch the working copy to another branch
+  const switchBranch = useCallback(
+    async (name: string) => {
+      if (!fileId) return null;
+      return switchBranchMutation.mutateAsync({ fileId, name });
+    },
+    [fileId, switchBranchMutation],
+  );
+
+  // Preview merging a branch into the current one (conflicts per cell)
+  const previewMerge = useCallback(
+    async (source: string) => {
+      if (!fileId) return null;
+      return utils.userFiles.previewMerge.fetch({ fileId, source });
+    },
+    [fileId, utils],
+  );
+
+  // Merge a branch into the current one with per-cell conflict resolutions
+  const mergeBranch = useCallback(
+    async (
+      source: string,
+      resolutions: Record<string, "ours" | "theirs" | "base">,
+    ) => {
+      if (!fileId) return null;
+      return mergeBranchMutation.mutateAsync({ fileId, source, resolutions });
+    },
+    [fileId, mergeBranchMutation],
+  );
+
   // Get a specific version's data (for manual fetching)
   const fetchVersion = useCallback(
     async (versionNumber: number) => {
@@ -314,6 +382,9 @@ export function useFileVersions(fileId: string | null, options: UseFileVersionsO
       ai_create: "Creado por IA",
       restore: "Restaurado",
       import: "Importado",
+      checkpoint: "Checkpoint",
+      branch: "Rama creada",
+      merge: "Fusión",
     };
     return labels[changeType] || changeType;
   }, []);
@@ -328,6 +399,9 @@ export function useFileVersions(fileId: string | null, options: UseFileVersionsO
       ai_create: "🤖",
       restore: "⏪",
       import: "📥",
+      checkpoint: "📍",
+      branch: "🌿",
+      merge: "🔀",
     };
     return icons[changeType] || "📄";
   }, []);
@@ -384,6 +458,13 @@ export function useFileVersions(fileId: string | null, options: UseFileVersionsO
     isLoadingPreview,
     isLoadingComparison,
     isRestoring: restoreMutation.isPending,
+    isSwitchingBranch:
+      createBranchMutation.isPending || switchBranchMutation.isPending,
+    isMerging: mergeBranchMutation.isPending,
+
+    // Branches
+    branches: branchesData?.branches ?? [],
+    currentBranch,
 
     // Actions
     openHistory,
@@ -392,6 +473,10 @@ export function useFileVersions(fileId: string | null, options: UseFileVersionsO
     selectVersionsForComparison,
     clearComparison,
     restoreVersion,
+    createBranch,
+    switchBranch,
+    previewMerge,
+    mergeBranch,
     fetchVersion,
     refetchVersions,
 
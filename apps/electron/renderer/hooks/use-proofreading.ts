@@ -0,0 +1,138 @@
+import { useCallback, useMemo, useState } from "react";
+import { useAtomValue } from "jotai";
+import { toast } from "sonner";
+import {
+  checkText,
+  locateSuggestions,
+  mergeSuggestions,
+  type ProofreadingFinding,
+  type ProofreadingSuggestion,
+} from "@s-agi/core/utils/proofreading";
+import { trpc } from "@/lib/trpc";
+import { currentProviderAtom, selectedModelAtom } from "@/lib/atoms";
+import { toSpellingDictionary } from "@/lib/spell-dictionaries";
+import { useDebounce } from "./use-debounce";
+import { useSpellChecker } from "./use-spell-checker";
+
+export interface ProofreadingResult {
+  /** Offsets into the current text; empty while the user is typing */
+  suggestions: ProofreadingSuggestion[];
+  isCheckingWithAI: boolean;
+  /** Add the model's suggestions on top of the offline rules */
+  checkWithAI: () => void;
+  /** Hide one suggestion for this session */
+  reject: (suggestion: ProofreadingSuggestion) => void;
+  /** Stop reporting a rule everywhere */
+  ignoreRule: (ruleId: string) => void;
+  /** Accept a flagged word from now on, on every device */
+  addToDictionary: (word: string) => void;
+}
+
+/**
+ * Proofreading suggestions for an editor's plain text. The offline rules run
+ * here after each pause in typing, with the team's style guide and the spell
+ * check dictionaries; the LLM pass runs in main on request and its findings
+ * follow the text as it changes.
+ */
+export function useProofreading(
+  text: string,
+  { enabled = true }: { enabled?: boolean } = {},
+): ProofreadingResult {
+  const utils = trpc.useUtils();
+  const provider = useAtomValue(currentProviderAtom);
+  const selectedModel = useAtomValue(selectedModelAtom);
+  const [llmFindings, setLlmFindings] = useState<ProofreadingFinding[]>([]);
+  const [rejected, setRejected] = useState<Set<string>>(() => new Set());
+
+  const { data: settings } = trpc.proofreading.getSettings.useQuery(undefined, {
+    enabled,
+  });
+
+  // Grammar and style rules still work while no dictionary is loaded
+  const { checker, addWord } = useSpellChecker({ enabled });
+  const dictionary = useMemo(
+    () => (checker ? toSpellingDictionary(checker) : null),
+    [checker],
+  );
+
+  const debouncedText = useDebounce(text, 500);
+  const isSettled = debouncedText === text;
+
+  const checked = useMemo(() => {
+    if (!enabled || !debouncedText.trim()) return [];
+    const ignoredRules = settings?.ignoredRules ?? [];
+    const rules = checkText(debouncedText, {
+      styleGuide: settings?.styleGuide,
+      ignoredRules,
+      spelling: dictionary ?? undefined,
+      languages: checker?.languages,
+    });
+    const llm = locateSuggestions(debouncedText, llmFindings, ignoredRules);
+    return mergeSuggestions(rules, llm);
+  }, [enabled, debouncedText, settings, dictionary, checker, llmFindings]);
+
+  const suggestions = useMemo(
+    () => (isSettled ? checked.filter((s) => !rejected.has(s.id)) : []),
+    [checked, rejected, isSettled],
+  );
+
+  const checkMutation = trpc.proofreading.check.useMutation({
+    onSuccess: (result) => {
+      if (result.llmError) {
+        toast.error("No se pudo revisar con IA", {
+          description: result.llmError,
+        });
+        return;
+      }
+      const findings = result.suggestions
+        .filter((s) => s.source === "llm")
+        .map((s) => ({
+          original: s.original,
+          replacement: s.replacements[0],
+          message: s.message,
+          category: s.category,
+        }));
+      setLlmFindings(findings);
+      toast.success(
+        findings.length > 0
+          ? `La IA encontró ${findings.length} sugerencias`
+          : "La IA no encontró más problemas",
+      );
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const checkWithAI = useCallback(() => {
+    checkMutation.mutate({
+      text,
+      // Custom endpoints only serve their own models; others use a fast default
+      llm: {
+        provider,
+        modelId: provider === "custom" ? selectedModel : undefined,
+      },
+    });
+  }, [checkMutation, text, provider, selectedModel]);
+
+  const reject = useCallback((suggestion: ProofreadingSuggestion) => {
+    setRejected((prev) => new Set(prev).add(suggestion.id));
+  }, []);
+
+  const ignoreRuleMutation = trpc.proofreading.ignoreRule.useMutation({
+    onSuccess: (updated) => utils.proofreading.getSettings.setData(undefined, updated),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const ignoreRule = useCallback(
+    (ruleId: string) => ignoreRuleMutation.mutate({ ruleId }),
+    [ignoreRuleMutation],
+  );
+
+  return {
+    suggestions,
+    isCheckingWithAI: checkMutation.isPending,
+    checkWithAI,
+    reject,
+    ignoreRule,
+    addToDictionary: addWord,
+  };
+}
@@ -1,5 +1,6 @@
-import { useState, useEffect, useCallback, useRef, useMemo } from "react";
-import Typo from "typo-js";
+import { useCallback, useRef, useMemo } from "react";
+import type { SpellChecker } from "@/lib/spell-dictionaries";
+import { useSpellChecker } from "./use-spell-checker";
 
 /** A misspelled word with its position and suggested correction */
 export interface MisspelledWord {
@@ -38,17 +39,6 @@ export interface SpellCheckResult {
   ) => { text: string; cursorPosition: number; corrected: boolean } | null;
 }
 
-function getBaseUrl(): string {
-  const origin = window.location.origin;
-  if (!origin || origin === "null" || origin.startsWith("file://")) {
-    if (import.meta.env.DEV) {
-      return "http://localhost:5173";
-    }
-    return "";
-  }
-  return origin;
-}
-
 const IGNORE_WORDS = new Set([
   "api",
   "url",
@@ -432,75 +422,85 @@ const NEXT_WORD_PREDICTIONS: Record<string, string[]> = {
   "want": ["to", "a", "some", "you", "this"],
 };
 
-export function useSpellCheck(
-  text: string,
-  cursorPosition?: number | null,
-): SpellCheckResult {
-  const [state, setState] = useState<{
-    isLoaded: boolean;
-    error: string | null;
-  }>({
-    isLoaded: false,
-    error: null,
-  });
+const WORD_PATTERN = /\p{L}+/gu;
+const TRAILING_WORD_PATTERN = /\p{L}+$/u;
 
-  const spellcheckersRef = useRef<{ en?: Typo; es?: Typo }>({});
-  const loadAttemptedRef = useRef(false);
-
-  // Load dictionaries on mount
-  useEffect(() => {
-    if (loadAttemptedRef.current) return;
-    loadAttemptedRef.current = true;
-
-    const loadDictionaries = async () => {
-      try {
-        const baseUrl = getBaseUrl();
-        console.log(
-          "[SpellCheck] Loading dictionaries from:",
-          baseUrl || "(relative)",
-        );
-
-        const buildUrl = (file: string) =>
-          baseUrl ? `${baseUrl}/dictionaries/${file}` : `/dictionaries/${file}`;
-
-        const fetchFile = async (url: string): Promise<string> => {
-          const response = await fetch(url);
-          if (!response.ok) {
-            throw new Error(`Failed to load ${url}: ${response.status}`);
-          }
-          return response.text();
-        };
+/** Language of the paragraph around each offset, detected on first use */
+function paragraphLanguages(
+  checker: SpellChecker,
+  text: string,
+): (index: number) => string {
+  const languages = new Map<number, string>();
+  return (index) => {
+    const start = index > 0 ? text.lastIndexOf("\n", index - 1) + 1 : 0;
+    let language = languages.get(start);
+    if (!language) {
+      const end = text.indexOf("\n", start);
+      language = checker.languageOf(
+        text.slice(start, end === -1 ? undefined : end),
+      );
+      languages.set(start, language);
+    }
+    return language;
+  };
+}
 
-        const [enAff, enDic, esAff, esDic] = await Promise.all([
-          fetchFile(buildUrl("en_US.aff")),
-          fetchFile(buildUrl("en_US.dic")),
-          fetchFile(buildUrl("es_ES.aff")),
-          fetchFile(buildUrl("es_ES.dic")),
-        ]);
+function isKnownWord(
+  checker: SpellChecker,
+  word: string,
+  language: string,
+): boolean {
+  return (
+    checker.check(word, language) ||
+    checker.check(word.toLowerCase(), language)
+  );
+}
 
-        console.log("[SpellCheck] Initializing Typo.js...");
+/** Corrections for a misspelled word, plus the best one in its capitalization */
+function rankSuggestions(
+  checker: SpellChecker,
+  word: string,
+  language: string,
+): { suggestions: string[]; bestSuggestion: string | null } {
+  const lowerWord = word.toLowerCase();
+  const suggestions = checker.suggest(word, 5, language);
+  if (suggestions.length === 0) {
+    return { suggestions, bestSuggestion: null };
+  }
 
-        spellcheckersRef.current = {
-          en: new Typo("en_US", enAff, enDic),
-          es: new Typo("es_ES", esAff, esDic),
-        };
+  const scored = suggestions.map((s) => {
+    let score = 0;
+    // Prefer suggestions that start with same letter
+    if (s.toLowerCase()[0] === lowerWord[0]) score += 10;
+    // Prefer similar length
+    score -= Math.abs(s.length - word.length) * 2;
+    return { suggestion: s, score };
+  });
+  scored.sort((a, b) => b.score - a.score);
 
-        setState({ isLoaded: true, error: null });
-        console.log("[SpellCheck] Dictionaries loaded successfully");
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        console.error("[SpellCheck] Failed to load dictionaries:", errorMsg);
-        setState({ isLoaded: false, error: errorMsg });
-      }
-    };
+  let bestSuggestion = scored[0].suggestion;
+  // Preserve capitalization
+  if (word[0] === word[0].toUpperCase()) {
+    bestSuggestion =
+      bestSuggestion.charAt(0).toUpperCase() + bestSuggestion.slice(1);
+  }
+  return { suggestions, bestSuggestion };
+}
 
-    loadDictionaries();
-  }, []);
+export function useSpellCheck(
+  text: string,
+  cursorPosition?: number | null,
+): SpellCheckResult {
+  // Words go to the dictionary of their paragraph's language
+  const { checker, error } = useSpellChecker();
+  const isLoaded = checker !== null;
+  const checkerRef = useRef<SpellChecker | null>(null);
+  checkerRef.current = checker;
 
   const analyzeText = useCallback(
     (inputText: string, cursorPosition: number) => {
-      const { en, es } = spellcheckersRef.current;
-      if (!en || !es) {
+      const checker = checkerRef.current;
+      if (!checker) {
         return {
           misspelledWords: [],
           autocomplete: null,
@@ -520,7 +520,8 @@ export function useSpellCheck(
         bestSuggestion: string;
       } | null = null;
 
-      const wordRegex = /[a-záéíóúüñA-ZÁÉÍÓÚÜÑ]+/g;
+      const wordRegex = new RegExp(WORD_PATTERN);
+      const languageAt = paragraphLanguages(checker, inputText);
       let match: RegExpExecArray | null;
 
       const clampedCursor = Math.max(
@@ -528,7 +529,7 @@ export function useSpellCheck(
         Math.min(cursorPosition, inputText.length),
       );
       const beforeCursor = inputText.slice(0, clampedCursor);
-      const currentWordMatch = beforeCursor.match(/[a-záéíóúüñA-ZÁÉÍÓÚÜÑ]+$/i);
+      const currentWordMatch = beforeCursor.match(TRAILING_WORD_PATTERN);
       const currentWordStart = currentWordMatch
         ? clampedCursor - currentWordMatch[0].length
         : -1;
@@ -548,12 +549,8 @@ export function useSpellCheck(
         const isCurrentWord =
           startIndex === currentWordStart && endIndex === clampedCursor;
 
-        const isCorrectEn = en.check(word);
-        const isCorrectEs = es.check(word);
-        const isCorrectEnLower = en.check(lowerWord);
-        const isCorrectEsLower = es.check(lowerWord);
-        const isCorrect =
-          isCorrectEn || isCorrectEs || isCorrectEnLower || isCorrectEsLower;
+        const language = languageAt(startIndex);
+        const isCorrect = isKnownWord(checker, word, language);
 
         if (isCurrentWord && word.length >= 1) {
           for (const [prefix, completions] of Object.entries(
@@ -588,9 +585,7 @@ export function useSpellCheck(
           }
 
           if (!autocomplete && !isCorrect && word.length >= 3) {
-            const suggestionsEs = es.suggest(word, 5) || [];
-            const suggestionsEn = en.suggest(word, 5) || [];
-            const allSuggestions = [...suggestionsEs, ...suggestionsEn];
+            const allSuggestions = checker.suggest(word, 10, language);
 
             const completionSuggestion = allSuggestions.find(
               (s) =>
@@ -616,69 +611,15 @@ export function useSpellCheck(
         }
 
         if (!isCorrect && isCurrentWord) {
-          const suggestionsEs = es.suggest(word, 3) || [];
-          const suggestionsEn = en.suggest(word, 3) || [];
-          const allSuggestions = [
-            ...new Set([...suggestionsEs, ...suggestionsEn]),
-          ].slice(0, 5);
-
-          let bestSuggestion: string | null = null;
-          if (allSuggestions.length > 0) {
-            const scored = allSuggestions.map((s) => {
-              let score = 0;
-              const sLower = s.toLowerCase();
-
-              if (sLower[0] === lowerWord[0]) score += 10;
-              score -= Math.abs(s.length - word.length) * 2;
-              if (suggestionsEs.includes(s)) score += 2;
-
-              return { suggestion: s, score };
-            });
-
-            scored.sort((a, b) => b.score - a.score);
-            bestSuggestion = scored[0]?.suggestion || null;
-
-            if (bestSuggestion && word[0] === word[0].toUpperCase()) {
-              bestSuggestion =
-                bestSuggestion.charAt(0).toUpperCase() +
-                bestSuggestion.slice(1);
-            }
-          }
-
+          const { bestSuggestion } = rankSuggestions(checker, word, language);
           if (bestSuggestion) {
             currentWordCorrection = { startIndex, endIndex, bestSuggestion };
           }
         }
 
         if (!isCorrect && !isCurrentWord) {
-          const suggestionsEs = es.suggest(word, 3) || [];
-          const suggestionsEn = en.suggest(word, 3) || [];
-          const allSuggestions = [
-            ...new Set([...suggestionsEs, ...suggestionsEn]),
-          ].slice(0, 5);
-
-          let bestSuggestion: string | null = null;
-          if (allSuggestions.length > 0) {
-            const scored = allSuggestions.map((s) => {
-              let score = 0;
-              const sLower = s.toLowerCase();
-
-              if (sLower[0] === lowerWord[0]) score += 10;
-              score -= Math.abs(s.length - word.length) * 2;
-              if (suggestionsEs.includes(s)) score += 2;
-
-              return { suggestion: s, score };
-            });
-
-            scored.sort((a, b) => b.score - a.score);
-            bestSuggestion = scored[0]?.suggestion || null;
-
-            if (bestSuggestion && word[0] === word[0].toUpperCase()) {
-              bestSuggestion =
-                bestSuggestion.charAt(0).toUpperCase() +
-                bestSuggestion.slice(1);
-            }
-          }
+          const { suggestions: allSuggestions, bestSuggestion } =
+            rankSuggestions(checker, word, language);
 
           misspelledWords.push({
             word,
@@ -772,13 +713,14 @@ export function useSpellCheck(
   );
 
   // Analyze the text and find all misspelled words
+  // checker is a dependency: personal words change the result
   const analysisResult = useMemo(() => {
-    if (!state.isLoaded || !text.trim()) {
+    if (!checker || !text.trim()) {
       return { misspelledWords: [], autocomplete: null };
     }
 
     return analyzeText(text, cursorPosition ?? text.length);
-  }, [text, state.isLoaded, analyzeText, cursorPosition]);
+  }, [text, checker, analyzeText, cursorPosition]);
 
   // Function to get the corrected text
   const getCorrectedText = useCallback((): string => {
@@ -825,12 +767,7 @@ export function useSpellCheck(
         0,
         Math.min(cursorPosition ?? text.length, text.length),
       );
-      if (!state.isLoaded || !text.trim()) {
-        return { text, cursorPosition: clampedCursor };
-      }
-
-      const { en, es } = spellcheckersRef.current;
-      if (!en || !es) {
+      if (!checkerRef.current || !text.trim()) {
         return { text, cursorPosition: clampedCursor };
       }
 
@@ -897,7 +834,7 @@ export function useSpellCheck(
         correctedText.slice(endIndex);
       return { text: finalText, cursorPosition: newCursor };
     },
-    [analyzeText, state.isLoaded, text],
+    [analyzeText, text],
   );
 
   // Auto-correct the word that just ended when space is pressed
@@ -906,14 +843,12 @@ export function useSpellCheck(
       inputText: string,
       cursorPos: number,
     ): { text: string; cursorPosition: number; corrected: boolean } | null => {
-      if (!state.isLoaded) return null;
-
-      const { en, es } = spellcheckersRef.current;
-      if (!en || !es) return null;
+      const checker = checkerRef.current;
+      if (!checker) return null;
 
       // Find the word that just ended (before the space that will be inserted)
       const beforeCursor = inputText.slice(0, cursorPos);
-      const wordMatch = beforeCursor.match(/[a-záéíóúüñA-ZÁÉÍÓÚÜÑ]+$/i);
+      const wordMatch = beforeCursor.match(TRAILING_WORD_PATTERN);
 
       if (!wordMatch) return null;
 
@@ -926,50 +861,14 @@ export function useSpellCheck(
       if (IGNORE_WORDS.has(lowerWord)) return null;
       if (word === word.toUpperCase() && word.length > 1) return null;
 
-      // Check if word is correctly spelled
-      const isCorrect =
-        en.check(word) ||
-        es.check(word) ||
-        en.check(lowerWord) ||
-        es.check(lowerWord);
-
-      if (isCorrect) return null;
-
-      // Get suggestions and find best one
-      const suggestionsEs = es.suggest(word, 3) || [];
-      const suggestionsEn = en.suggest(word, 3) || [];
-      const allSuggestions = [
-        ...new Set([...suggestionsEs, ...suggestionsEn]),
-      ].slice(0, 5);
-
-      if (allSuggestions.length === 0) return null;
-
-      // Score suggestions
-      const scored = allSuggestions.map((s) => {
-        let score = 0;
-        const sLower = s.toLowerCase();
-
-        // Prefer suggestions that start with same letter
-        if (sLower[0] === lowerWord[0]) score += 10;
-        // Prefer similar length
-        score -= Math.abs(s.length - word.length) * 2;
-        // Prefer Spanish suggestions slightly
-        if (suggestionsEs.includes(s)) score += 2;
-
-        return { suggestion: s, score };
-      });
-
-      scored.sort((a, b) => b.score - a.score);
-      let bestSuggestion = scored[0]?.suggestion || null;
+      // Check if word is correctly spelled in its paragraph's language
+      const lineStart = inputText.lastIndexOf("\n", wordStart - 1) + 1;
+      const language = checker.languageOf(inputText.slice(lineStart, cursorPos));
+      if (isKnownWord(checker, word, language)) return null;
 
+      const { bestSuggestion } = rankSuggestions(checker, word, language);
       if (!bestSuggestion) return null;
 
-      // Preserve capitalization
-      if (word[0] === word[0].toUpperCase()) {
-        bestSuggestion =
-          bestSuggestion.charAt(0).toUpperCase() + bestSuggestion.slice(1);
-      }
-
       // Apply correction
       const correctedText =
         inputText.slice(0, wordStart) +
@@ -984,14 +883,14 @@ export function useSpellCheck(
         corrected: true,
       };
     },
-    [state.isLoaded],
+    [],
   );
 
   return {
     misspelledWords: analysisResult.misspelledWords,
     autocomplete: analysisResult.autocomplete,
-    isLoaded: state.isLoaded,
-    error: state.error,
+    isLoaded,
+    error,
     applyAllCorrections,
     applyAutocomplete,
     applyTab,
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc";
+import {
+  createSpellChecker,
+  loadSpellDictionaries,
+  subscribeSpellDictionaries,
+  type LoadedDictionary,
+  type SpellChecker,
+} from "@/lib/spell-dictionaries";
+
+export interface SpellCheckerState {
+  /** Null until the dictionaries have loaded */
+  checker: SpellChecker | null;
+  error: string | null;
+  /** Add a word to the user's personal dictionary */
+  addWord: (word: string) => void;
+}
+
+/**
+ * The enabled dictionaries plus the user's personal words. Reloads when packs
+ * change in the writing settings and when a word is added.
+ */
+export function useSpellChecker({
+  enabled = true,
+}: { enabled?: boolean } = {}): SpellCheckerState {
+  const utils = trpc.useUtils();
+  const [dictionaries, setDictionaries] = useState<LoadedDictionary[] | null>(
+    null,
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(
+    () => subscribeSpellDictionaries(() => setVersion((v) => v + 1)),
+    [],
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    loadSpellDictionaries()
+      .then((loaded) => {
+        if (cancelled) return;
+        setDictionaries(loaded);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        const message = err instanceof Error ? err.message : String(err);
+        console.error("[SpellCheck] Failed to load dictionaries:", message);
+        setError(message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, version]);
+
+  // Signed-out users have no personal words
+  const { data: personalWords } = trpc.dictionaries.listWords.useQuery(
+    undefined,
+    { enabled },
+  );
+
+  const checker = useMemo(
+    () =>
+      dictionaries ? createSpellChecker(dictionaries, personalWords) : null,
+    [dictionaries, personalWords],
+  );
+
+  const addWordMutation = trpc.dictionaries.addWord.useMutation({
+    onSuccess: (words) => utils.dictionaries.listWords.setData(undefined, words),
+    onError: (err) => toast.error(err.message),
+  });
+
+  const addWord = useCallback(
+    (word: string) => addWordMutation.mutate({ word }),
+    [addWordMutation],
+  );
+
+  return { checker, error, addWord };
+}
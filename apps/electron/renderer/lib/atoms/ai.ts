@@ -50,23 +50,29 @@ export const tavilyApiKeyAtom = atomWithStorage<string | null>(
 /** Available models for current provider */
 export const availableModelsAtom = atom((get) => {
   const provider = get(currentProviderAtom)
-  return getModelsByProvider(provider)
+  return get(allModelsGroupedAtom)[provider]
 })
 
+/** Models discovered on the custom OpenAI-compatible endpoint (synced from main) */
+export const customModelsAtom = atom<ModelDefinition[]>([])
+
 /** All models grouped by provider */
-export const allModelsGroupedAtom = atom(() => {
+export const allModelsGroupedAtom = atom((get): Record<AIProvider, ModelDefinition[]> => {
   return {
     openai: getModelsByProvider('openai'),
     'chatgpt-plus': getModelsByProvider('chatgpt-plus'),
     zai: getModelsByProvider('zai'),
     claude: getModelsByProvider('claude'),
+    custom: get(customModelsAtom),
   }
 })
 
 /** Current model definition */
 export const currentModelAtom = atom((get): ModelDefinition | undefined => {
   const modelId = get(selectedModelAtom)
-  return getModelById(modelId)
+  return (
+    getModelById(modelId) ?? get(customModelsAtom).find((m) => m.id === modelId)
+  )
 })
 
 /** Whether current model supports reasoning */
@@ -208,6 +214,19 @@ export interface DocumentCitation {
 }
 
 export const streamingDocumentCitationsAtom = atom<DocumentCitation[]>([])
+
+// === AGENT ROUTING STATE ===
+
+/** Why the current message was handed to a specialist agent */
+export interface AgentRouteInfo {
+  agent: string
+  route: 'excel' | 'docs' | 'pdf' | 'direct'
+  confidence: number
+  reason: string
+  source: 'classifier' | 'scoring' | 'heuristic'
+}
+
+export const streamingAgentRouteAtom = atom<AgentRouteInfo | null>(null)
 export const streamingSuggestionsAtom = atom<string[]>([])
 
 // === AUTH REFRESH STATE ===
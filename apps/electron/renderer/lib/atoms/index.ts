@@ -44,6 +44,7 @@ export {
   tavilyApiKeyAtom,
   availableModelsAtom,
   allModelsGroupedAtom,
+  customModelsAtom,
   currentModelAtom,
   supportsReasoningAtom,
   // API Key Status
@@ -86,6 +87,9 @@ export {
   type DocumentCitation,
   streamingDocumentCitationsAtom,
   streamingSuggestionsAtom,
+  // Agent Routing
+  type AgentRouteInfo,
+  streamingAgentRouteAtom,
   // Auth Refresh
   authRefreshingAtom,
   type AuthError,
@@ -137,6 +141,8 @@ export {
   // File Sidebars
   excelSidebarOpenAtom,
   docSidebarOpenAtom,
+  // Proofreading
+  proofreadingEnabledAtom,
 } from './ui'
 
 // === ARTIFACT STATE ===
@@ -72,6 +72,8 @@ export type SettingsTab =
   | 'shortcuts'
   | 'debug'
   | 'usage'
+  | 'backups'
+  | 'writing'
 export const settingsActiveTabAtom = atom<SettingsTab>('account')
 
 // === HELP & SHORTCUTS ===
@@ -139,3 +141,8 @@ export const imageEditDialogAtom = atom<ImageEditDialogState>({
 
 export const excelSidebarOpenAtom = atomWithStorage('excel-sidebar-open', true)
 export const docSidebarOpenAtom = atomWithStorage('doc-sidebar-open', true)
+
+// === PROOFREADING ===
+
+/** Underline proofreading suggestions in documents and notes */
+export const proofreadingEnabledAtom = atomWithStorage('proofreading-enabled', true)
@@ -22,6 +22,7 @@ export interface UserFile {
   color?: string
   version_count: number
   total_edits: number
+  current_branch?: string
   created_at: string
   updated_at: string
   last_opened_at?: string | null
@@ -37,7 +38,7 @@ export interface FileVersion {
   version_number: number
   univer_data?: unknown
   content?: string
-  change_type: 'created' | 'auto_save' | 'manual_save' | 'ai_edit' | 'ai_create' | 'restore' | 'import'
+  change_type: 'created' | 'auto_save' | 'manual_save' | 'ai_edit' | 'ai_create' | 'restore' | 'import' | 'checkpoint' | 'branch' | 'merge'
   change_description?: string
   change_summary?: unknown
   created_by?: string
@@ -50,6 +51,10 @@ export interface FileVersion {
   is_obsolete?: boolean
   obsoleted_at?: string
   obsoleted_by_version?: number
+  // Branching
+  branch_name?: string
+  commit_parent_id?: string | null
+  merge_parent_id?: string | null
 }
 
 // =====================================================
@@ -0,0 +1,131 @@
+/**
+ * Merge rules for synced notes
+ *
+ * Pages carry a per-block clock (last edit time of each top-level block) and
+ * block tombstones (deletion times), so two devices editing different blocks
+ * of the same page both keep their changes. Page fields (title, icon, parent,
+ * space...) and spaces are last-write-wins on updatedAt.
+ */
+
+import type { PartialBlock } from "@blocknote/core";
+import type { NotePage, NoteSpace } from "./notes-storage";
+
+// ============================================================================
+// Block clocks
+// ============================================================================
+
+/** Stable key for a top-level block (BlockNote ids, index for id-less blocks) */
+export function blockKey(block: PartialBlock, index: number): string {
+  return typeof block.id === "string" && block.id ? block.id : `#${index}`;
+}
+
+/**
+ * Stamp changed, added and removed blocks of a page being saved.
+ * Unchanged blocks keep their previous clock.
+ */
+export function stampBlockClock(
+  previous: NotePage | null,
+  next: NotePage,
+  now: number = Date.now(),
+): NotePage {
+  const before = new Map<string, string>();
+  previous?.content.forEach((block, i) => {
+    before.set(blockKey(block, i), JSON.stringify(block));
+  });
+
+  const blockClock: Record<string, number> = {};
+  const blockTombstones: Record<string, number> = {
+    ...(previous?.blockTombstones ?? next.blockTombstones ?? {}),
+  };
+
+  next.content.forEach((block, i) => {
+    const key = blockKey(block, i);
+    const unchanged = before.get(key) === JSON.stringify(block);
+    blockClock[key] = unchanged
+      ? (previous?.blockClock?.[key] ?? previous?.updatedAt ?? now)
+      : now;
+    delete blockTombstones[key];
+  });
+
+  for (const key of before.keys()) {
+    if (!(key in blockClock)) blockTombstones[key] = now;
+  }
+
+  return { ...next, blockClock, blockTombstones };
+}
+
+// ============================================================================
+// Merging
+// ============================================================================
+
+function clockOf(page: NotePage, key: string): number {
+  return page.blockClock?.[key] ?? page.updatedAt;
+}
+
+/**
+ * Merge two versions of the same page.
+ * Each block resolves to its most recent edit unless a later deletion removed
+ * it; block order follows the most recently updated version, with blocks only
+ * present in the other version kept after their previous neighbour.
+ */
+export function mergePages(local: NotePage, remote: NotePage): NotePage {
+  const [primary, secondary] =
+    local.updatedAt >= remote.updatedAt ? [local, remote] : [remote, local];
+
+  const primaryBlocks = new Map(
+    primary.content.map((b, i) => [blockKey(b, i), b] as const),
+  );
+  const secondaryBlocks = new Map(
+    secondary.content.map((b, i) => [blockKey(b, i), b] as const),
+  );
+
+  const blockClock: Record<string, number> = {};
+  const blockTombstones: Record<string, number> = {};
+  for (const tombstones of [primary.blockTombstones, secondary.blockTombstones]) {
+    for (const [key, time] of Object.entries(tombstones ?? {})) {
+      blockTombstones[key] = Math.max(blockTombstones[key] ?? 0, time);
+    }
+  }
+
+  // Resolve every block to its winning version (or drop it)
+  const resolved = new Map<string, PartialBlock>();
+  for (const key of new Set([...primaryBlocks.keys(), ...secondaryBlocks.keys()])) {
+    const a = primaryBlocks.get(key);
+    const b = secondaryBlocks.get(key);
+    const clockA = a ? clockOf(primary, key) : -1;
+    const clockB = b ? clockOf(secondary, key) : -1;
+    const clock = Math.max(clockA, clockB);
+
+    if (clock <= (blockTombstones[key] ?? -1)) continue;
+
+    resolved.set(key, clockA >= clockB ? a! : b!);
+    blockClock[key] = clock;
+    delete blockTombstones[key];
+  }
+
+  // Order: primary's sequence, then weave in secondary-only blocks
+  const order = [...primaryBlocks.keys()].filter((key) => resolved.has(key));
+  let anchor: string | null = null;
+  for (const key of secondaryBlocks.keys()) {
+    if (!resolved.has(key)) continue;
+    if (!primaryBlocks.has(key)) {
+      const at = anchor === null ? 0 : order.indexOf(anchor) + 1;
+      order.splice(at, 0, key);
+    }
+    anchor = key;
+  }
+
+  return {
+    ...primary,
+    content: order.map((key) => resolved.get(key)!),
+    createdAt: Math.min(local.createdAt, remote.createdAt),
+    updatedAt: Math.max(local.updatedAt, remote.updatedAt),
+    blockClock,
+    blockTombstones,
+  };
+}
+
+/** Spaces have no content to merge: latest write wins */
+export function mergeSpaces(local: NoteSpace, remote: NoteSpace): NoteSpace {
+  return local.updatedAt >= remote.updatedAt ? local : remote;
+}
@@ -1,9 +1,11 @@
 /**
  * Local storage system for notes (pages and spaces)
- * Uses localStorage for persistence
+ * Uses localStorage for persistence; local writes are recorded as pending
+ * changes and pushed to Supabase by the sync engine (notes-sync.ts)
  */
 
 import type { PartialBlock } from "@blocknote/core";
+import { stampBlockClock } from "./notes-merge";
 
 export interface NotePage {
   id: string;
@@ -18,6 +20,8 @@ export interface NotePage {
   updatedAt: number;
   pinned?: boolean;
   archived?: boolean;
+  blockClock?: Record<string, number>; // top-level block key -> last edit time
+  blockTombstones?: Record<string, number>; // removed block key -> deletion time
 }
 
 export interface NoteSpace {
@@ -33,6 +37,10 @@ export interface NoteSpace {
 const STORAGE_PREFIX = "notes-";
 const PAGES_KEY = `${STORAGE_PREFIX}pages`;
 const SPACES_KEY = `${STORAGE_PREFIX}spaces`;
+const PENDING_KEY = `${STORAGE_PREFIX}sync-pending`;
+
+/** Event fired on window after every local write (used to schedule a sync) */
+export const NOTES_CHANGED_EVENT = "notes:changed";
 
 // ============================================================================
 // Pages Management
@@ -66,20 +74,23 @@ export function getPagesByParent(parentId: string | null): NotePage[] {
 export function savePage(page: NotePage): void {
   const pages = getAllPages();
   const index = pages.findIndex((p) => p.id === page.id);
+  const stamped = stampBlockClock(index >= 0 ? pages[index] : null, page);
   
   if (index >= 0) {
-    pages[index] = page;
+    pages[index] = stamped;
   } else {
-    pages.push(page);
+    pages.push(stamped);
   }
   
   localStorage.setItem(PAGES_KEY, JSON.stringify(pages));
+  markPending("pages", page.id);
 }
 
 export function deletePage(id: string): void {
   const pages = getAllPages();
   const filtered = pages.filter((p) => p.id !== id);
   localStorage.setItem(PAGES_KEY, JSON.stringify(filtered));
+  markDeleted("pages", [id]);
 }
 
 export function createPage(
@@ -142,6 +153,7 @@ export function saveSpace(space: NoteSpace): void {
   }
   
   localStorage.setItem(SPACES_KEY, JSON.stringify(spaces));
+  markPending("spaces", space.id);
 }
 
 export function deleteSpace(id: string): void {
@@ -153,6 +165,11 @@ export function deleteSpace(id: string): void {
   const pages = getAllPages();
   const remainingPages = pages.filter((p) => p.spaceId !== id);
   localStorage.setItem(PAGES_KEY, JSON.stringify(remainingPages));
+  markDeleted("spaces", [id]);
+  markDeleted(
+    "pages",
+    pages.filter((p) => p.spaceId === id).map((p) => p.id),
+  );
 }
 
 export function createSpace(
@@ -191,3 +208,128 @@ export function getRecentPages(limit: number = 10): NotePage[] {
     .sort((a, b) => b.updatedAt - a.updatedAt)
     .slice(0, limit);
 }
+
+// ============================================================================
+// Sync Bookkeeping
+// ============================================================================
+
+type NoteKind = "pages" | "spaces";
+
+/** Local changes not yet pushed to the server */
+export interface PendingNoteChanges {
+  pages: string[];
+  spaces: string[];
+  /** Deleted id -> deletion time */
+  deletedPages: Record<string, number>;
+  deletedSpaces: Record<string, number>;
+}
+
+// Account whose pending list local writes go to (set by the sync engine)
+let pendingUserId: string | null = null;
+
+/**
+ * Record local changes for this account from now on. Pending lists are kept
+ * per account so switching accounts never pushes the other account's edits.
+ */
+export function setNotesSyncUser(userId: string | null): void {
+  pendingUserId = userId;
+}
+
+function pendingKey(): string {
+  return pendingUserId ? `${PENDING_KEY}:${pendingUserId}` : PENDING_KEY;
+}
+
+export function getPendingChanges(): PendingNoteChanges {
+  const empty: PendingNoteChanges = {
+    pages: [],
+    spaces: [],
+    deletedPages: {},
+    deletedSpaces: {},
+  };
+  try {
+    const stored = localStorage.getItem(pendingKey());
+    return stored ? { ...empty, ...JSON.parse(stored) } : empty;
+  } catch {
+    return empty;
+  }
+}
+
+function savePendingChanges(pending: PendingNoteChanges): void {
+  localStorage.setItem(pendingKey(), JSON.stringify(pending));
+}
+
+function notifyChanged(): void {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event(NOTES_CHANGED_EVENT));
+  }
+}
+
+function markPending(kind: NoteKind, id: string): void {
+  const pending = getPendingChanges();
+  if (!pending[kind].includes(id)) pending[kind].push(id);
+  const deleted = kind === "pages" ? pending.deletedPages : pending.deletedSpaces;
+  delete deleted[id];
+  savePendingChanges(pending);
+  notifyChanged();
+}
+
+function markDeleted(kind: NoteKind, ids: string[]): void {
+  if (ids.length === 0) return;
+  const pending = getPendingChanges();
+  const deleted = kind === "pages" ? pending.deletedPages : pending.deletedSpaces;
+  const now = Date.now();
+  for (const id of ids) deleted[id] = now;
+  pending[kind] = pending[kind].filter((id) => !ids.includes(id));
+  savePendingChanges(pending);
+  notifyChanged();
+}
+
+/** Mark every local page and space as pending (first sync of local notes) */
+export function markAllPending(): void {
+  const pending = getPendingChanges();
+  pending.pages = [...new Set([...pending.pages, ...getAllPages().map((p) => p.id)])];
+  pending.spaces = [...new Set([...pending.spaces, ...getAllSpaces().map((s) => s.id)])];
+  savePendingChanges(pending);
+}
+
+/** Forget pending changes that the server accepted */
+export function clearPendingChanges(pushed: {
+  pages?: string[];
+  spaces?: string[];
+  deletedPages?: string[];
+  deletedSpaces?: string[];
+}): void {
+  const pending = getPendingChanges();
+  pending.pages = pending.pages.filter((id) => !pushed.pages?.includes(id));
+  pending.spaces = pending.spaces.filter((id) => !pushed.spaces?.includes(id));
+  for (const id of pushed.deletedPages ?? []) delete pending.deletedPages[id];
+  for (const id of pushed.deletedSpaces ?? []) delete pending.deletedSpaces[id];
+  savePendingChanges(pending);
+}
+
+/**
+ * Write changes that came from the server. Unlike savePage/deletePage this
+ * does not record pending changes (they are already synced).
+ */
+export function applyRemoteChanges(changes: {
+  pages?: NotePage[];
+  spaces?: NoteSpace[];
+  deletedPageIds?: string[];
+  deletedSpaceIds?: string[];
+}): void {
+  const upsert = <T extends { id: string }>(items: T[], updates: T[] = []) => {
+    const byId = new Map(items.map((item) => [item.id, item]));
+    for (const item of updates) byId.set(item.id, item);
+    return [...byId.values()];
+  };
+
+  const pages = upsert(getAllPages(), changes.pages).filter(
+    (p) => !changes.deletedPageIds?.includes(p.id),
+  );
+  const spaces = upsert(getAllSpaces(), changes.spaces).filter(
+    (s) => !changes.deletedSpaceIds?.includes(s.id),
+  );
+
+  localStorage.setItem(PAGES_KEY, JSON.stringify(pages));
+  localStorage.setItem(SPACES_KEY, JSON.stringify(spaces));
+}
@@ -0,0 +1,381 @@
+/**
+ * Notes sync engine
+ *
+ * Offline-first: pages and spaces are always read and written locally
+ * (notes-storage.ts); this engine pulls server changes since the last cursor,
+ * merges them with pending local edits (notes-merge.ts) and pushes the result.
+ * The server rejects writes based on a stale revision, in which case the next
+ * round pulls the newer row and merges again.
+ */
+
+import type { trpcClient } from "./trpc";
+import {
+  applyRemoteChanges,
+  clearPendingChanges,
+  getAllPages,
+  getAllSpaces,
+  getPendingChanges,
+  markAllPending,
+  NOTES_CHANGED_EVENT,
+  setNotesSyncUser,
+  type NotePage,
+  type NoteSpace,
+} from "./notes-storage";
+import { mergePages, mergeSpaces } from "./notes-merge";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type NotesSyncClient = { notes: (typeof trpcClient)["notes"] };
+
+interface NotesSyncState {
+  /** Server revision of the newest row pulled */
+  cursor: string | null;
+  /** Existing local notes were uploaded once */
+  migrated: boolean;
+  /** Last known server revision per record (base for conflict checks) */
+  revisions: { pages: Record<string, string>; spaces: Record<string, string> };
+}
+
+export interface NotesSyncResult {
+  pulled: number;
+  pushed: number;
+  conflicts: number;
+  /** Local notes changed because of remote data */
+  changed: boolean;
+}
+
+const STATE_KEY = "notes-sync-state";
+/** Account that uploaded the notes stored on this machine before sync */
+const LEGACY_OWNER_KEY = "notes-sync-legacy-owner";
+const MAX_ROUNDS = 3;
+const SYNC_INTERVAL_MS = 60_000;
+const CHANGE_DEBOUNCE_MS = 2_000;
+
+// ============================================================================
+// State
+// ============================================================================
+
+// Cursor and revisions belong to one account; a switch starts from scratch
+function stateKey(userId: string): string {
+  return `${STATE_KEY}:${userId}`;
+}
+
+function loadState(userId: string): NotesSyncState {
+  const initial: NotesSyncState = {
+    cursor: null,
+    migrated: false,
+    revisions: { pages: {}, spaces: {} },
+  };
+  try {
+    const stored = localStorage.getItem(stateKey(userId));
+    return stored ? { ...initial, ...JSON.parse(stored) } : initial;
+  } catch {
+    return initial;
+  }
+}
+
+function saveState(userId: string, state: NotesSyncState): void {
+  localStorage.setItem(stateKey(userId), JSON.stringify(state));
+}
+
+/**
+ * Notes created before sync go to the first account that syncs on this
+ * machine; any later account only gets what it pulls or edits itself.
+ */
+function claimLegacyNotes(userId: string): boolean {
+  const owner = localStorage.getItem(LEGACY_OWNER_KEY);
+  if (owner) return owner === userId;
+  localStorage.setItem(LEGACY_OWNER_KEY, userId);
+  return true;
+}
+
+function stripRemote<T extends { deleted: boolean; revision: string }>(
+  record: T,
+): Omit<T, "deleted" | "revision"> {
+  const { deleted: _deleted, revision: _revision, ...rest } = record;
+  return rest;
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+/**
+ * Drop pulled rows at a revision this device already has. Pulls overlap the
+ * previous cursor a little, so the same row can come back more than once.
+ */
+function dropKnown(
+  pulled: Awaited<ReturnType<NotesSyncClient["notes"]["pull"]["query"]>>,
+  state: NotesSyncState,
+): typeof pulled {
+  return {
+    ...pulled,
+    spaces: pulled.spaces.filter((row) => state.revisions.spaces[row.id] !== row.revision),
+    pages: pulled.pages.filter((row) => state.revisions.pages[row.id] !== row.revision),
+  };
+}
+
+/**
+ * Apply pulled rows to local storage, merging with pending local edits
+ */
+function applyPulled(
+  pulled: Awaited<ReturnType<NotesSyncClient["notes"]["pull"]["query"]>>,
+  state: NotesSyncState,
+): boolean {
+  const pending = getPendingChanges();
+  const localPages = new Map(getAllPages().map((p) => [p.id, p]));
+  const localSpaces = new Map(getAllSpaces().map((s) => [s.id, s]));
+
+  const pages: NotePage[] = [];
+  const spaces: NoteSpace[] = [];
+  const deletedPageIds: string[] = [];
+  const deletedSpaceIds: string[] = [];
+  const resolvedDeletions: { pages: string[]; spaces: string[] } = {
+    pages: [],
+    spaces: [],
+  };
+
+  for (const row of pulled.spaces) {
+    state.revisions.spaces[row.id] = row.revision;
+    const local = localSpaces.get(row.id);
+    const isPending = pending.spaces.includes(row.id);
+    const deletedAt = pending.deletedSpaces[row.id];
+
+    if (row.deleted) {
+      // A local edit made after the remote deletion resurrects the space
+      if (local && isPending && local.updatedAt > row.updatedAt) continue;
+      if (local) deletedSpaceIds.push(row.id);
+      if (deletedAt !== undefined) resolvedDeletions.spaces.push(row.id);
+      continue;
+    }
+    if (deletedAt !== undefined && deletedAt >= row.updatedAt) continue;
+
+    const remote = stripRemote(row) as NoteSpace;
+    spaces.push(local && isPending ? mergeSpaces(local, remote) : remote);
+  }
+
+  for (const row of pulled.pages) {
+    state.revisions.pages[row.id] = row.revision;
+    const local = localPages.get(row.id);
+    const isPending = pending.pages.includes(row.id);
+    const deletedAt = pending.deletedPages[row.id];
+
+    if (row.deleted) {
+      if (local && isPending && local.updatedAt > row.updatedAt) continue;
+      if (local) deletedPageIds.push(row.id);
+      if (deletedAt !== undefined) resolvedDeletions.pages.push(row.id);
+      continue;
+    }
+    if (deletedAt !== undefined && deletedAt >= row.updatedAt) continue;
+
+    const remote = stripRemote(row) as NotePage;
+    pages.push(local && isPending ? mergePages(local, remote) : remote);
+  }
+
+  // A remote edit newer than the local deletion wins: drop the deletion
+  clearPendingChanges({
+    deletedPages: [
+      ...resolvedDeletions.pages,
+      ...pages.map((p) => p.id).filter((id) => id in pending.deletedPages),
+    ],
+    deletedSpaces: [
+      ...resolvedDeletions.spaces,
+      ...spaces.map((s) => s.id).filter((id) => id in pending.deletedSpaces),
+    ],
+  });
+
+  const changed =
+    pages.length + spaces.length + deletedPageIds.length + deletedSpaceIds.length > 0;
+  if (changed) {
+    applyRemoteChanges({ pages, spaces, deletedPageIds, deletedSpaceIds });
+  }
+  return changed;
+}
+
+/**
+ * Push pending local changes; returns how many were accepted and rejected
+ */
+async function pushPending(
+  client: NotesSyncClient,
+  state: NotesSyncState,
+): Promise<{ pushed: number; conflicts: number }> {
+  const pending = getPendingChanges();
+  const pagesById = new Map(getAllPages().map((p) => [p.id, p]));
+  const spacesById = new Map(getAllSpaces().map((s) => [s.id, s]));
+  const baseRevision = (kind: "pages" | "spaces", id: string) =>
+    state.revisions[kind][id] ?? null;
+
+  const input = {
+    spaces: pending.spaces
+      .filter((id) => spacesById.has(id))
+      .map((id) => ({ space: spacesById.get(id)!, baseRevision: baseRevision("spaces", id) })),
+    pages: pending.pages
+      .filter((id) => pagesById.has(id))
+      .map((id) => ({ page: pagesById.get(id)!, baseRevision: baseRevision("pages", id) })),
+    deletedSpaces: Object.entries(pending.deletedSpaces).map(([id, deletedAt]) => ({
+      id,
+      deletedAt,
+      baseRevision: baseRevision("spaces", id),
+    })),
+    deletedPages: Object.entries(pending.deletedPages).map(([id, deletedAt]) => ({
+      id,
+      deletedAt,
+      baseRevision: baseRevision("pages", id),
+    })),
+  };
+
+  const total =
+    input.spaces.length + input.pages.length + input.deletedSpaces.length + input.deletedPages.length;
+  if (total === 0) {
+    // Pending ids whose record no longer exists locally
+    clearPendingChanges({ pages: pending.pages, spaces: pending.spaces });
+    return { pushed: 0, conflicts: 0 };
+  }
+
+  // Edits made while the push is in flight must stay pending: only ids whose
+  // local record is unchanged since this snapshot are cleared afterwards
+  const snapshot = {
+    spaces: new Map(input.spaces.map(({ space }) => [space.id, space.updatedAt])),
+    pages: new Map(input.pages.map(({ page }) => [page.id, page.updatedAt])),
+  };
+
+  const result = await client.notes.push.mutate(input);
+
+  for (const { id, revision } of result.spaces) state.revisions.spaces[id] = revision;
+  for (const { id, revision } of result.pages) state.revisions.pages[id] = revision;
+
+  const accepted = {
+    spaces: new Set(result.spaces.map((s) => s.id)),
+    pages: new Set(result.pages.map((p) => p.id)),
+  };
+  const current = getPendingChanges();
+  const currentSpaces = new Map(getAllSpaces().map((s) => [s.id, s.updatedAt]));
+  const currentPages = new Map(getAllPages().map((p) => [p.id, p.updatedAt]));
+  const unchanged = (kind: "pages" | "spaces", id: string) => {
+    const updatedAt = (kind === "pages" ? currentPages : currentSpaces).get(id);
+    const pushedAt = snapshot[kind].get(id);
+    // Missing both times: the record was already gone before the push
+    return pushedAt === undefined ? updatedAt === undefined : updatedAt === pushedAt;
+  };
+  clearPendingChanges({
+    spaces: pending.spaces.filter(
+      (id) => (accepted.spaces.has(id) || !snapshot.spaces.has(id)) && unchanged("spaces", id),
+    ),
+    pages: pending.pages.filter(
+      (id) => (accepted.pages.has(id) || !snapshot.pages.has(id)) && unchanged("pages", id),
+    ),
+    deletedSpaces: input.deletedSpaces
+      .filter((d) => accepted.spaces.has(d.id) && current.deletedSpaces[d.id] === d.deletedAt)
+      .map((d) => d.id),
+    deletedPages: input.deletedPages
+      .filter((d) => accepted.pages.has(d.id) && current.deletedPages[d.id] === d.deletedAt)
+      .map((d) => d.id),
+  });
+
+  const conflicts = result.conflicts.spaces.length + result.conflicts.pages.length;
+  return { pushed: total - conflicts, conflicts };
+}
+
+/**
+ * Run one sync for the signed-in account: pull, merge, push (repeating while
+ * pushes conflict). The first sync on this machine also uploads notes created
+ * before sync existed. Local edits must be recorded for the same account
+ * (setNotesSyncUser).
+ */
+export async function syncNotes(
+  client: NotesSyncClient,
+  userId: string,
+): Promise<NotesSyncResult> {
+  const state = loadState(userId);
+  if (!state.migrated) {
+    if (claimLegacyNotes(userId)) {
+      markAllPending();
+    } else {
+      state.migrated = true;
+    }
+  }
+
+  const result: NotesSyncResult = { pulled: 0, pushed: 0, conflicts: 0, changed: false };
+
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    const pulled = await client.notes.pull.query({ since: state.cursor });
+    const fresh = dropKnown(pulled, state);
+    result.pulled += fresh.pages.length + fresh.spaces.length;
+    result.changed = applyPulled(fresh, state) || result.changed;
+    state.cursor = pulled.cursor;
+
+    const { pushed, conflicts } = await pushPending(client, state);
+    result.pushed += pushed;
+    result.conflicts = conflicts;
+    saveState(userId, state);
+
+    if (conflicts === 0) break;
+  }
+
+  if (!state.migrated && result.conflicts === 0) {
+    state.migrated = true;
+    saveState(userId, state);
+  }
+
+  return result;
+}
+
+/**
+ * Keep notes in sync for an account in the background: on start,
+ * periodically, when the network comes back and shortly after local edits.
+ * Returns a stop function.
+ */
+export function startNotesSync(
+  client: NotesSyncClient,
+  userId: string,
+  onRemoteChange: () => void,
+): () => void {
+  let running: Promise<void> | null = null;
+  let again = false;
+  let debounce: ReturnType<typeof setTimeout> | null = null;
+
+  const run = () => {
+    if (running) {
+      again = true;
+      return;
+    }
+    if (typeof navigator !== "undefined" && !navigator.onLine) return;
+
+    running = syncNotes(client, userId)
+      .then((result) => {
+        if (result.changed) onRemoteChange();
+      })
+      .catch((error) => {
+        // Offline or server error: pending changes stay queued for next run
+        console.warn("[NotesSync] Sync failed:", error);
+      })
+      .finally(() => {
+        running = null;
+        if (again) {
+          again = false;
+          run();
+        }
+      });
+  };
+
+  const schedule = () => {
+    if (debounce) clearTimeout(debounce);
+    debounce = setTimeout(run, CHANGE_DEBOUNCE_MS);
+  };
+
+  setNotesSyncUser(userId);
+  run();
+  const interval = setInterval(run, SYNC_INTERVAL_MS);
+  window.addEventListener("online", run);
+  window.addEventListener(NOTES_CHANGED_EVENT, schedule);
+
+  return () => {
+    clearInterval(interval);
+    if (debounce) clearTimeout(debounce);
+    window.removeEventListener("online", run);
+    window.removeEventListener(NOTES_CHANGED_EVENT, schedule);
+    setNotesSyncUser(null);
+  };
+}
@@ -0,0 +1,192 @@
+import Typo from "typo-js";
+import {
+  detectTextLanguage,
+  TEXT_LANGUAGES,
+  type TextLanguage,
+} from "@s-agi/core/utils/detect-language";
+import type { SpellingDictionary } from "@s-agi/core/utils/proofreading";
+import { trpcClient } from "@/lib/trpc";
+
+/** A Hunspell pack loaded into Typo.js */
+export interface LoadedDictionary {
+  /** Locale from the file name, e.g. "pt_BR" */
+  id: string;
+  /** Language code paragraphs are routed by, e.g. "pt" */
+  language: string;
+  typo: Typo;
+}
+
+interface PackInfo {
+  id: string;
+  language: string;
+  source: "bundled" | "installed";
+  enabled: boolean;
+}
+
+// Used when the pack list cannot be read from main
+const BUNDLED_PACKS: PackInfo[] = [
+  { id: "en_US", language: "en", source: "bundled", enabled: true },
+  { id: "es_ES", language: "es", source: "bundled", enabled: true },
+];
+
+function getBaseUrl(): string {
+  const origin = window.location.origin;
+  if (!origin || origin === "null" || origin.startsWith("file://")) {
+    if (import.meta.env.DEV) {
+      return "http://localhost:5173";
+    }
+    return "";
+  }
+  return origin;
+}
+
+async function fetchBundledPack(id: string): Promise<{ aff: string; dic: string }> {
+  const baseUrl = getBaseUrl();
+  const buildUrl = (file: string) =>
+    baseUrl ? `${baseUrl}/dictionaries/${file}` : `/dictionaries/${file}`;
+
+  const fetchFile = async (url: string): Promise<string> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load ${url}: ${response.status}`);
+    }
+    return response.text();
+  };
+
+  const [aff, dic] = await Promise.all([
+    fetchFile(buildUrl(`${id}.aff`)),
+    fetchFile(buildUrl(`${id}.dic`)),
+  ]);
+  return { aff, dic };
+}
+
+let loading: Promise<LoadedDictionary[]> | null = null;
+const listeners = new Set<() => void>();
+
+/**
+ * Load the enabled dictionaries once: the bundled en_US and es_ES packs plus
+ * any installed from the writing settings. The chat input's spell check and
+ * document proofreading share them; a failed load is retried next call.
+ */
+export function loadSpellDictionaries(): Promise<LoadedDictionary[]> {
+  if (loading) return loading;
+
+  loading = (async () => {
+    const packs = await trpcClient.dictionaries.list.query().catch((error) => {
+      console.warn("[SpellCheck] Using bundled dictionaries:", error);
+      return BUNDLED_PACKS;
+    });
+    const enabled = packs.filter((pack) => pack.enabled);
+    console.log(
+      "[SpellCheck] Loading dictionaries:",
+      enabled.map((pack) => pack.id).join(", ") || "(none)",
+    );
+
+    const loaded = await Promise.all(
+      enabled.map(async (pack): Promise<LoadedDictionary | null> => {
+        try {
+          const { aff, dic } =
+            pack.source === "bundled"
+              ? await fetchBundledPack(pack.id)
+              : await trpcClient.dictionaries.read.query({ id: pack.id });
+          return { id: pack.id, language: pack.language, typo: new Typo(pack.id, aff, dic) };
+        } catch (error) {
+          // One broken pack should not take spell checking down
+          console.error(`[SpellCheck] Failed to load ${pack.id}:`, error);
+          return null;
+        }
+      }),
+    );
+
+    const dictionaries = loaded.filter((d): d is LoadedDictionary => d !== null);
+    if (enabled.length > 0 && dictionaries.length === 0) {
+      throw new Error("No spell-check dictionary could be loaded");
+    }
+    return dictionaries;
+  })();
+
+  loading.catch(() => {
+    loading = null;
+  });
+  return loading;
+}
+
+/**
+ * Drop the loaded dictionaries after packs are installed, removed or toggled;
+ * subscribers load them again
+ */
+export function reloadSpellDictionaries(): void {
+  loading = null;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeSpellDictionaries(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Words checked against the dictionaries of their paragraph's language */
+export interface SpellChecker {
+  /** Languages with a dictionary that detection can tell apart */
+  languages: TextLanguage[];
+  languageOf: (text: string) => TextLanguage;
+  check: (word: string, language?: string) => boolean;
+  /** Corrections from the routed dictionaries, best first */
+  suggest: (word: string, count: number, language?: string) => string[];
+}
+
+/**
+ * Route each word to the dictionaries of the given language. Without one for
+ * it, every dictionary is consulted. Personal words are always correct.
+ */
+export function createSpellChecker(
+  dictionaries: LoadedDictionary[],
+  personalWords: readonly string[] = [],
+): SpellChecker {
+  const personal = new Set(personalWords.map((word) => word.toLowerCase()));
+  const languages = TEXT_LANGUAGES.filter((language) =>
+    dictionaries.some((d) => d.language === language),
+  );
+
+  const route = (language?: string) => {
+    const matching = dictionaries.filter((d) => d.language === language);
+    return matching.length > 0 ? matching : dictionaries;
+  };
+
+  return {
+    languages,
+    languageOf: (text) => detectTextLanguage(text, "es", languages),
+    check: (word, language) =>
+      personal.has(word.toLowerCase()) ||
+      route(language).some((d) => d.typo.check(word)),
+    suggest: (word, count, language) =>
+      [
+        ...new Set(
+          route(language).flatMap((d) => d.typo.suggest(word, count) || []),
+        ),
+      ].slice(0, count),
+  };
+}
+
+/**
+ * Dictionary for the proofreading spelling rule. Suggestions are cached
+ * because Typo's are slow to compute.
+ */
+export function toSpellingDictionary(checker: SpellChecker): SpellingDictionary {
+  const suggestions = new Map<string, string[]>();
+
+  return {
+    check: (word, language) => checker.check(word, language),
+    suggest: (word, language) => {
+      const key = `${language ?? ""}:${word}`;
+      let cached = suggestions.get(key);
+      if (!cached) {
+        cached = checker.suggest(word, 3, language);
+        suggestions.set(key, cached);
+      }
+      return cached;
+    },
+  };
+}
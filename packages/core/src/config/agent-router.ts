@@ -0,0 +1,404 @@
+/**
+ * Agent Router - Scores specialist agents for a message
+ *
+ * Replaces first-match keyword routing with a scored decision:
+ * - Message signals (agent patterns, keywords and routing vocabulary)
+ * - Workspace signals (open artifact type, current selection)
+ * - Conversation signals (recent handoff history)
+ * - Optional LLM classifier for ambiguous messages
+ * - Falls back to getAgentForMessage when nothing scores
+ */
+
+import { AGENT_METADATA, getAgentForMessage, type AgentType } from './agent-config'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Agents the router can pick ('orchestrator' means answer directly) */
+export type RoutableAgent = Exclude<AgentType, 'orchestrator'>
+
+export type RoutingArtifactKind = 'spreadsheet' | 'document' | 'pdf' | 'chart'
+
+export interface RoutingSelection {
+  /** Cells in a sheet, text in a document, or text/area in a PDF */
+  kind: 'cells' | 'text' | 'pdf'
+  /** A1 range for cell selections */
+  range?: string
+  /** Selected text, if any */
+  text?: string
+}
+
+export interface RoutingContext {
+  /** A PDF is loaded for this chat */
+  hasPDF?: boolean
+  /** Any artifact is open */
+  hasArtifact?: boolean
+  /** Type of the open artifact ('spreadsheet', 'document-canvas', ...) */
+  artifactType?: string
+  /** What the user has selected in the open artifact */
+  selection?: RoutingSelection
+  /** Agents that handled recent turns, oldest first */
+  recentAgents?: AgentType[]
+}
+
+export interface AgentRouteCandidate {
+  agent: RoutableAgent
+  score: number
+  /** Human-readable signals that contributed to the score */
+  signals: string[]
+}
+
+export type AgentRouteSource = 'classifier' | 'scoring' | 'heuristic'
+
+export interface AgentRouteDecision {
+  /** Chosen agent ('orchestrator' = no specialist, answer directly) */
+  agent: AgentType
+  /** 0-1 confidence in the decision */
+  confidence: number
+  /** Short explanation suitable for the UI */
+  reason: string
+  source: AgentRouteSource
+  /** Scored candidates, best first */
+  candidates: AgentRouteCandidate[]
+}
+
+export interface AgentRouteClassification {
+  agent: AgentType
+  confidence: number
+  reason?: string
+}
+
+/**
+ * Cheap-LLM classifier hook. Return null when it can't decide.
+ * Use buildRouterClassifierPrompt/parseRouterClassifierResponse to implement.
+ */
+export type AgentRouteClassifier = (input: {
+  message: string
+  context: RoutingContext
+  candidates: AgentRouteCandidate[]
+}) => Promise<AgentRouteClassification | null>
+
+export interface AgentRouterOptions {
+  classifier?: AgentRouteClassifier
+  /** Skip the classifier when scoring is at least this confident */
+  classifierThreshold?: number
+  /** Minimum classifier confidence to override scoring */
+  minClassifierConfidence?: number
+  /** Give up on the classifier after this long */
+  classifierTimeoutMs?: number
+}
+
+// ============================================================================
+// WEIGHTS
+// ============================================================================
+
+export const ROUTER_WEIGHTS = {
+  pattern: 3,
+  keyword: 1,
+  vocabulary: 1,
+  /** Cap for keyword + vocabulary hits per agent */
+  maxTermScore: 4,
+  artifact: 2.5,
+  selection: 2,
+  /** Most recent handoff; older ones decay by half */
+  history: 1,
+  pdfQuestion: 1,
+  /** Minimum best score to trust scoring over legacy heuristics */
+  minScore: 1.5,
+  /** Scoring confidence above which the classifier is skipped */
+  classifierThreshold: 0.7,
+  minClassifierConfidence: 0.6,
+  classifierTimeoutMs: 2500
+} as const
+
+const ROUTABLE_AGENTS: RoutableAgent[] = ['excel', 'pdf', 'docs', 'chart', 'research']
+
+/**
+ * Extra routing terms (matched as whole words) so English requests and
+ * everyday spreadsheet/document vocabulary route without exact Spanish phrases
+ */
+const ROUTING_VOCABULARY: Record<RoutableAgent, string[]> = {
+  excel: [
+    'sheet', 'cell', 'cells', 'column', 'columns', 'row', 'rows', 'formula',
+    'formulas', 'total', 'totals', 'sum', 'average', 'pivot', 'sort', 'filter',
+    'workbook', 'vlookup', 'xlookup', 'hoja', 'celdas', 'columnas', 'filas',
+    'totales', 'fórmulas'
+  ],
+  pdf: [
+    'pdf', 'page', 'pages', 'cite', 'citation', 'quote', 'annotate',
+    'highlight', 'páginas', 'cita', 'anota', 'resalta'
+  ],
+  docs: [
+    'document', 'report', 'essay', 'proposal', 'letter', 'paragraph',
+    'heading', 'draft', 'rewrite', 'párrafo', 'redacción', 'borrador'
+  ],
+  chart: [
+    'chart', 'graph', 'plot', 'visualize', 'visualization', 'bar', 'pie',
+    'gráfica', 'grafica'
+  ],
+  research: [
+    'search', 'web', 'internet', 'online', 'latest', 'news', 'google',
+    'noticias'
+  ]
+}
+
+const ARTIFACT_AGENT: Record<RoutingArtifactKind, RoutableAgent> = {
+  spreadsheet: 'excel',
+  document: 'docs',
+  pdf: 'pdf',
+  chart: 'chart'
+}
+
+const SELECTION_AGENT: Record<RoutingSelection['kind'], RoutableAgent> = {
+  cells: 'excel',
+  text: 'docs',
+  pdf: 'pdf'
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/**
+ * Normalize artifact type names ('spreadsheet-canvas', 'doc', ...) to a kind
+ */
+export function normalizeArtifactKind(type?: string): RoutingArtifactKind | null {
+  if (!type) return null
+  const lower = type.toLowerCase()
+  if (lower.startsWith('spreadsheet') || lower.startsWith('sheet') || lower === 'excel') return 'spreadsheet'
+  if (lower.startsWith('doc')) return 'document'
+  if (lower.startsWith('pdf')) return 'pdf'
+  if (lower.startsWith('chart')) return 'chart'
+  return null
+}
+
+function countWholeWords(lowerMessage: string, terms: string[]): string[] {
+  return terms.filter(term => {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'iu').test(lowerMessage)
+  })
+}
+
+/**
+ * Score every specialist agent for a message. Best candidate first.
+ */
+export function scoreAgentCandidates(
+  message: string,
+  context: RoutingContext = {}
+): AgentRouteCandidate[] {
+  const lowerMessage = message.toLowerCase()
+  const artifactKind = normalizeArtifactKind(context.artifactType)
+
+  const candidates = ROUTABLE_AGENTS.map(agent => {
+    const meta = AGENT_METADATA[agent]
+    const signals: string[] = []
+    let score = 0
+
+    const patternHit = meta.patterns.find(pattern => pattern.test(message))
+    if (patternHit) {
+      score += ROUTER_WEIGHTS.pattern
+      signals.push('request pattern')
+    }
+
+    const keywordHits = meta.keywords.filter(keyword => lowerMessage.includes(keyword))
+    const vocabularyHits = countWholeWords(lowerMessage, ROUTING_VOCABULARY[agent])
+      .filter(term => !keywordHits.includes(term))
+    const termScore = Math.min(
+      ROUTER_WEIGHTS.maxTermScore,
+      keywordHits.length * ROUTER_WEIGHTS.keyword + vocabularyHits.length * ROUTER_WEIGHTS.vocabulary
+    )
+    if (termScore > 0) {
+      score += termScore
+      signals.push(`mentions ${[...keywordHits, ...vocabularyHits].slice(0, 3).map(t => `"${t}"`).join(', ')}`)
+    }
+
+    if (artifactKind && ARTIFACT_AGENT[artifactKind] === agent) {
+      score += ROUTER_WEIGHTS.artifact
+      signals.push(`open ${artifactKind}`)
+    }
+    if (agent === 'pdf' && context.hasPDF && artifactKind !== 'pdf') {
+      score += ROUTER_WEIGHTS.artifact / 2
+      signals.push('PDF loaded')
+    }
+
+    if (context.selection && SELECTION_AGENT[context.selection.kind] === agent) {
+      score += ROUTER_WEIGHTS.selection
+      signals.push(context.selection.range ? `selection ${context.selection.range}` : 'active selection')
+    }
+
+    const history = context.recentAgents ?? []
+    for (let i = history.length - 1, weight: number = ROUTER_WEIGHTS.history; i >= 0; i--, weight /= 2) {
+      if (history[i] === agent) {
+        score += weight
+        if (i === history.length - 1) signals.push('handled the previous turn')
+      }
+    }
+
+    if (agent === 'pdf' && context.hasPDF && message.trim().endsWith('?')) {
+      score += ROUTER_WEIGHTS.pdfQuestion
+      signals.push('question about loaded PDF')
+    }
+
+    return { agent, score, signals }
+  })
+
+  return candidates.sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Confidence from the margin between the two best candidates
+ */
+function confidenceFromCandidates(candidates: AgentRouteCandidate[]): number {
+  const [best, second] = candidates
+  if (!best || best.score <= 0) return 0
+  const margin = best.score / (best.score + (second?.score ?? 0) + 1)
+  return Math.round(Math.min(0.99, margin + 0.25) * 100) / 100
+}
+
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+/**
+ * Route a message using scores, falling back to legacy keyword heuristics
+ */
+export function routeAgent(
+  message: string,
+  context: RoutingContext = {}
+): AgentRouteDecision {
+  const candidates = scoreAgentCandidates(message, context)
+  const [best] = candidates
+
+  if (best && best.score >= ROUTER_WEIGHTS.minScore) {
+    return {
+      agent: best.agent,
+      confidence: confidenceFromCandidates(candidates),
+      reason: `${AGENT_METADATA[best.agent].name}: ${best.signals.join('; ')}`,
+      source: 'scoring',
+      candidates
+    }
+  }
+
+  const agent = getAgentForMessage(message, {
+    hasPDF: context.hasPDF,
+    hasArtifact: context.hasArtifact
+  })
+  return {
+    agent,
+    confidence: agent === 'orchestrator' ? 0.5 : 0.4,
+    reason: agent === 'orchestrator'
+      ? 'No specialist signals - answering directly'
+      : `${AGENT_METADATA[agent].name}: keyword match`,
+    source: 'heuristic',
+    candidates
+  }
+}
+
+/**
+ * Route a message, consulting the classifier only when scoring is unsure
+ */
+export async function routeAgentWithClassifier(
+  message: string,
+  context: RoutingContext = {},
+  options: AgentRouterOptions = {}
+): Promise<AgentRouteDecision> {
+  const decision = routeAgent(message, context)
+  const {
+    classifier,
+    classifierThreshold = ROUTER_WEIGHTS.classifierThreshold,
+    minClassifierConfidence = ROUTER_WEIGHTS.minClassifierConfidence,
+    classifierTimeoutMs = ROUTER_WEIGHTS.classifierTimeoutMs
+  } = options
+
+  if (!classifier || (decision.source === 'scoring' && decision.confidence >= classifierThreshold)) {
+    return decision
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  try {
+    const result = await Promise.race([
+      classifier({ message, context, candidates: decision.candidates }),
+      new Promise<null>(resolve => {
+        timer = setTimeout(() => resolve(null), classifierTimeoutMs)
+      })
+    ])
+
+    if (result && result.confidence >= minClassifierConfidence && Object.hasOwn(AGENT_METADATA, result.agent)) {
+      return {
+        agent: result.agent,
+        confidence: Math.round(result.confidence * 100) / 100,
+        reason: result.reason
+          ? `${AGENT_METADATA[result.agent].name}: ${result.reason}`
+          : `${AGENT_METADATA[result.agent].name}: classifier`,
+        source: 'classifier',
+        candidates: decision.candidates
+      }
+    }
+  } catch {
+    // Classifier failures never block routing
+  } finally {
+    if (timer) clearTimeout(timer)
+  }
+
+  return decision
+}
+
+// ============================================================================
+// CLASSIFIER HELPERS
+// ============================================================================
+
+/**
+ * Prompt for a cheap model to classify a message into an agent
+ */
+export function buildRouterClassifierPrompt(
+  message: string,
+  context: RoutingContext,
+  candidates: AgentRouteCandidate[]
+): string {
+  const agents = ROUTABLE_AGENTS
+    .map(agent => `- ${agent}: ${AGENT_METADATA[agent].description}`)
+    .join('\n')
+  const workspace = [
+    `Open artifact: ${normalizeArtifactKind(context.artifactType) ?? 'none'}`,
+    `PDF loaded: ${context.hasPDF ? 'yes' : 'no'}`,
+    `Selection: ${context.selection ? `${context.selection.kind}${context.selection.range ? ` ${context.selection.range}` : ''}` : 'none'}`,
+    `Recent agents: ${context.recentAgents?.slice(-3).join(', ') || 'none'}`,
+    `Heuristic scores: ${candidates.map(c => `${c.agent}=${c.score.toFixed(1)}`).join(', ')}`
+  ].join('\n')
+
+  return `Classify which specialist should handle the user's message.
+
+Agents:
+${agents}
+- orchestrator: general conversation, no specialist needed
+
+Workspace:
+${workspace}
+
+Message:
+"""${message.slice(0, 2000)}"""
+
+Reply with JSON only: {"agent": "<agent>", "confidence": <0-1>, "reason": "<short reason>"}`
+}
+
+/**
+ * Parse the classifier's JSON reply (tolerates surrounding text/code fences)
+ */
+export function parseRouterClassifierResponse(text: string): AgentRouteClassification | null {
+  const match = text.match(/\{[\s\S]*\}/)
+  if (!match) return null
+  try {
+    const parsed = JSON.parse(match[0]) as { agent?: unknown; confidence?: unknown; reason?: unknown }
+    const agent = typeof parsed.agent === 'string' ? parsed.agent.toLowerCase() : ''
+    if (!Object.hasOwn(AGENT_METADATA, agent)) return null
+    const confidence = Number(parsed.confidence)
+    return {
+      agent: agent as AgentType,
+      confidence: Number.isFinite(confidence) ? Math.max(0, Math.min(1, confidence)) : 0,
+      reason: typeof parsed.reason === 'string' ? parsed.reason : undefined
+    }
+  } catch {
+    return null
+  }
+}
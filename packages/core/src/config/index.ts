@@ -20,6 +20,27 @@ export {
   formatContextForAgent
 } from './agent-config'
 
+// Agent Routing
+export {
+  type RoutableAgent,
+  type RoutingArtifactKind,
+  type RoutingSelection,
+  type RoutingContext,
+  type AgentRouteCandidate,
+  type AgentRouteSource,
+  type AgentRouteDecision,
+  type AgentRouteClassification,
+  type AgentRouteClassifier,
+  type AgentRouterOptions,
+  ROUTER_WEIGHTS,
+  normalizeArtifactKind,
+  scoreAgentCandidates,
+  routeAgent,
+  routeAgentWithClassifier,
+  buildRouterClassifierPrompt,
+  parseRouterClassifierResponse
+} from './agent-router'
+
 // Artifact Configuration
 export {
   type ArtifactType,
@@ -63,6 +63,24 @@ export {
     getAgentForMessage,
     getAgentStatusMessage,
     formatContextForAgent,
+    // Agent routing
+    type RoutableAgent,
+    type RoutingArtifactKind,
+    type RoutingSelection,
+    type RoutingContext,
+    type AgentRouteCandidate,
+    type AgentRouteSource,
+    type AgentRouteDecision,
+    type AgentRouteClassification,
+    type AgentRouteClassifier,
+    type AgentRouterOptions,
+    ROUTER_WEIGHTS,
+    normalizeArtifactKind,
+    scoreAgentCandidates,
+    routeAgent,
+    routeAgentWithClassifier,
+    buildRouterClassifierPrompt,
+    parseRouterClassifierResponse,
     // Artifact config (prefixed to avoid conflicts with schemas)
     type ArtifactType as ArtifactTypeConfig,
     type ArtifactStage,
@@ -10,8 +10,9 @@ import { z } from 'zod'
  * - 'chatgpt-plus': ChatGPT Plus/Pro via Codex OAuth (uses subscription)
  * - 'zai': Z.AI Coding Plan (GLM models via OpenAI-compatible endpoint)
  * - 'claude': Claude Pro/Max via OAuth (uses subscription)
+ * - 'custom': Any OpenAI-compatible endpoint (Ollama, LM Studio, vLLM...)
  */
-export type AIProvider = 'openai' | 'chatgpt-plus' | 'zai' | 'claude'
+export type AIProvider = 'openai' | 'chatgpt-plus' | 'zai' | 'claude' | 'custom'
 
 /**
  * - 'none': No reasoning (GPT-5.2, lowest latency)
@@ -263,13 +264,45 @@ export const DEFAULT_MODELS: Record<AIProvider, string> = {
     openai: 'gpt-5',
     'chatgpt-plus': 'gpt-5.1-codex-max',
     zai: 'GLM-4.7-Flash',
-    claude: 'claude-sonnet-4-5-20250929'
+    claude: 'claude-sonnet-4-5-20250929',
+    // Custom endpoints have no fixed catalog: the first discovered model is used
+    custom: ''
+}
+
+// ============================================================================
+// Custom Endpoint Models
+// ============================================================================
+
+/** Prefix for models served by the custom OpenAI-compatible endpoint */
+export const CUSTOM_MODEL_PREFIX = 'custom:'
+
+/**
+ * Models discovered on the custom endpoint. Registered at runtime (main process
+ * from the encrypted config, renderer from settings) since they differ per user.
+ */
+let customModels: Record<string, ModelDefinition> = {}
+
+/**
+ * Build the model ID used in S-AGI for a model served by the custom endpoint
+ */
+export function toCustomModelId(apiModelId: string): string {
+    return `${CUSTOM_MODEL_PREFIX}${apiModelId}`
+}
+
+/**
+ * Replace the registered custom endpoint models
+ */
+export function setCustomModels(models: ModelDefinition[]): void {
+    customModels = Object.fromEntries(
+        models.map((m) => [m.id, { ...m, provider: 'custom' as const }])
+    )
 }
 
 /**
  * Get models by provider
  */
 export function getModelsByProvider(provider: AIProvider): ModelDefinition[] {
+    if (provider === 'custom') return Object.values(customModels)
     return Object.values(AI_MODELS).filter((m) => m.provider === provider)
 }
 
@@ -277,7 +310,7 @@ export function getModelsByProvider(provider: AIProvider): ModelDefinition[] {
  * Get model definition by ID
  */
 export function getModelById(modelId: string): ModelDefinition | undefined {
-    const direct = AI_MODELS[modelId]
+    const direct = AI_MODELS[modelId] ?? customModels[modelId]
     if (direct) return direct
 
     // Normalize case-insensitive lookups for GLM models
@@ -305,7 +338,9 @@ export function resolveModelForProvider(
     }
 
     const fallbackId = DEFAULT_MODELS[provider]
-    const fallback = getModelById(fallbackId)
+    const fallback = provider === 'custom'
+        ? getModelsByProvider('custom')[0]
+        : getModelById(fallbackId)
     if (!fallback) {
         throw new Error(`Default model not found for provider: ${provider}`)
     }
@@ -406,8 +441,11 @@ export type AIStreamEvent =
         marker?: string
     }> }
 
+    // Specialist agent routing decision
+    | { type: 'agent-route'; agent: string; route: 'excel' | 'docs' | 'pdf' | 'direct'; confidence: number; reason: string; source: 'classifier' | 'scoring' | 'heuristic' }
+
     // Approval flow (for human-in-the-loop)
-    | { type: 'tool-approval-request'; toolCallId: string; toolName: string; args: unknown }
+    | { type: 'tool-approval-request'; toolCallId: string; toolName: string; args: unknown; chatId?: string; message?: string }
     | { type: 'tool-approval-response'; toolCallId: string; approved: boolean; message?: string }
     
     // Step and completion events
@@ -455,7 +493,11 @@ export const DEFAULT_TOOL_APPROVAL_CONFIG: ToolApprovalConfig = {
         create_document: 'auto',
         insert_text: 'auto',
         replace_document_content: 'auto',
-        get_document_content: 'auto'
+        get_document_content: 'auto',
+        // PDF tools - generate new files from other documents
+        merge_pdfs: 'ask',
+        insert_pages_from: 'ask',
+        run_form_merge: 'ask'
     }
 }
 
@@ -534,6 +576,7 @@ export interface CostOptimizationConfig {
     /** 
      * Maximum output tokens (controls response length and cost)
      * Lower values = less output = lower cost
+     * Also the output size assumed when checking spending budgets
      */
     maxOutputTokens?: number
     
@@ -580,14 +623,14 @@ export type ServiceTier = 'auto' | 'flex'
 // Zod Schemas for Validation
 // ============================================================================
 
-export const AIProviderSchema = z.enum(['openai', 'chatgpt-plus', 'zai', 'claude'])
+export const AIProviderSchema = z.enum(['openai', 'chatgpt-plus', 'zai', 'claude', 'custom'])
 
 export const ReasoningEffortSchema = z.enum(['low', 'medium', 'high'])
 
 export const ReasoningSummarySchema = z.enum(['auto', 'concise', 'detailed'])
 
 export const ModelIdSchema = z.string().refine(
-    (id) => id in AI_MODELS,
+    (id) => getModelById(id) !== undefined,
     { message: 'Invalid model ID' }
 )
 
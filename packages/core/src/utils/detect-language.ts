@@ -47,3 +47,77 @@ export function detectLanguage(filePath: string): string {
 	const ext = filePath.toLowerCase().match(/\.[^.]+$/)?.[0] || "";
 	return extensionMap[ext] || "plaintext";
 }
+
+/**
+ * Natural language of a piece of prose, judged by its most frequent function
+ * words. Proofreading uses it to pick language-specific rules and spelling
+ * dictionaries per paragraph.
+ */
+export type TextLanguage = "es" | "en" | "pt" | "fr";
+
+export const TEXT_LANGUAGES: readonly TextLanguage[] = ["es", "en", "pt", "fr"];
+
+// A word listed under several languages ("de", "que") counts for each of
+// them; the distinctive ones decide
+const FUNCTION_WORDS: Record<TextLanguage, Set<string>> = {
+	es: new Set([
+		"de", "la", "que", "el", "en", "y", "los", "del", "las", "por", "un",
+		"una", "para", "con", "es", "se", "su", "al", "lo", "como", "más",
+		"pero", "sus", "le", "ya", "o", "este", "esta", "también", "porque",
+		"muy", "sin", "sobre", "entre", "cuando", "hay", "son", "fue", "ha",
+	]),
+	en: new Set([
+		"the", "of", "and", "to", "in", "is", "that", "it", "for", "was", "on",
+		"are", "with", "as", "be", "this", "by", "at", "from", "have", "has",
+		"not", "but", "or", "which", "an", "they", "you", "we", "he", "she",
+		"were", "been", "will", "would", "can",
+	]),
+	pt: new Set([
+		"de", "que", "o", "os", "as", "do", "da", "dos", "das", "e", "em",
+		"um", "uma", "para", "com", "não", "é", "no", "na", "nos", "mais",
+		"mas", "como", "seu", "sua", "também", "porque", "muito", "sem",
+		"sobre", "entre", "quando", "há", "são", "foi", "ao", "pelo", "pela",
+		"isso", "este", "esta", "se",
+	]),
+	fr: new Set([
+		"de", "que", "le", "la", "les", "des", "du", "et", "est", "un", "une",
+		"pour", "avec", "dans", "ce", "cette", "qui", "pas", "ne", "plus",
+		"mais", "comme", "sur", "son", "sa", "ses", "aussi", "très", "sans",
+		"entre", "quand", "il", "elle", "nous", "vous", "sont", "été", "au",
+		"aux", "en", "se",
+	]),
+};
+
+/**
+ * Most likely language of the text among `candidates` (by default all of
+ * them); ties and text without function words return the fallback, or the
+ * first candidate when the fallback is not one
+ */
+export function detectTextLanguage(
+	text: string,
+	fallback: TextLanguage = "es",
+	candidates: readonly TextLanguage[] = TEXT_LANGUAGES,
+): TextLanguage {
+	const pool = candidates.length > 0 ? candidates : TEXT_LANGUAGES;
+	if (!pool.includes(fallback)) fallback = pool[0];
+	const scores = new Map<TextLanguage, number>(pool.map((language) => [language, 0]));
+	for (const word of text.toLowerCase().match(/\p{L}+/gu) ?? []) {
+		for (const [language, score] of scores) {
+			if (FUNCTION_WORDS[language].has(word)) scores.set(language, score + 1);
+		}
+	}
+
+	let best = fallback;
+	let bestScore = 0;
+	let tied = false;
+	for (const [language, score] of scores) {
+		if (score > bestScore) {
+			best = language;
+			bestScore = score;
+			tied = false;
+		} else if (score === bestScore && score > 0) {
+			tied = true;
+		}
+	}
+	return tied ? fallback : best;
+}
@@ -0,0 +1,498 @@
+/**
+ * Structured view of a Univer document
+ *
+ * Univer keeps a document as one dataStream plus paragraph, text run and
+ * custom range metadata. Exporters need blocks instead: headings, lists,
+ * tables, code, quotes and rules with styled inline text. Both the native
+ * Univer shapes (named heading styles, bullets, hyperlink custom ranges) and
+ * the shapes written by the document tools (bold sized headings, "• " list
+ * markers, pipe tables, monospace code runs, bordered quotes) are understood.
+ * blocksToUniverBody writes blocks back in the native shapes.
+ */
+
+export interface DocInline {
+    text: string
+    bold?: boolean
+    italic?: boolean
+    underline?: boolean
+    strike?: boolean
+    code?: boolean
+    link?: string
+}
+
+export interface DocListItem {
+    content: DocInline[]
+    /** Nesting level, 0 for top-level items */
+    level: number
+}
+
+export type DocBlock =
+    | { type: 'heading'; level: number; content: DocInline[] }
+    | { type: 'paragraph'; content: DocInline[] }
+    | { type: 'list'; ordered: boolean; items: DocListItem[] }
+    | { type: 'table'; header: string[]; rows: string[][] }
+    | { type: 'code'; language?: string; text: string }
+    | { type: 'quote'; content: DocInline[]; author?: string }
+    | { type: 'rule' }
+
+interface TextRun {
+    st: number
+    ed: number
+    ts?: Record<string, any>
+}
+
+interface ParagraphMeta {
+    startIndex: number
+    paragraphStyle?: Record<string, any>
+    bullet?: Record<string, any>
+}
+
+/** Document snapshot fields read by the parser */
+export interface DocumentSource {
+    body?: {
+        dataStream?: string
+        textRuns?: TextRun[]
+        paragraphs?: ParagraphMeta[]
+        customRanges?: Array<{ startIndex: number; endIndex: number; rangeType?: number; properties?: Record<string, any> }>
+    }
+    lists?: Record<string, { listType?: string }>
+    /** Links added by the add_link tool (no position, matched by text) */
+    customRanges?: Array<{ type?: string; url?: string; text?: string }>
+    documentStyle?: {
+        pageSize?: { width?: number; height?: number }
+        marginTop?: number
+        marginBottom?: number
+        marginLeft?: number
+        marginRight?: number
+    }
+}
+
+/** Page size and margins in points */
+export interface DocumentPage {
+    width: number
+    height: number
+    marginTop: number
+    marginBottom: number
+    marginLeft: number
+    marginRight: number
+}
+
+interface RawParagraph {
+    start: number
+    text: string
+    style: Record<string, any>
+    bullet?: Record<string, any>
+}
+
+// Univer NamedStyleType values for TITLE, SUBTITLE and HEADING_1..HEADING_5
+const NAMED_HEADING_LEVELS: Record<number, number> = { 2: 1, 3: 2, 4: 1, 5: 2, 6: 3, 7: 4, 8: 5 }
+const HYPERLINK_RANGE = 0
+const MONOSPACE = /mono|consolas|courier|menlo/i
+// Table, custom range and other structural markers of the dataStream
+const CONTROL_CHARS = /[\u0000\u000b\u000c\u000e\u000f\u001a-\u001f]/g
+
+function splitParagraphs(source: DocumentSource): RawParagraph[] {
+    const stream = source.body?.dataStream ?? ''
+    const metas = source.body?.paragraphs ?? []
+    const paragraphs: RawParagraph[] = []
+
+    let start = 0
+    for (let i = 0; i <= stream.length; i++) {
+        if (i < stream.length && stream[i] !== '\r') continue
+        const end = i
+        // Paragraph metadata points at the paragraph end (Univer) or start (document tools)
+        const matches = metas.filter(m => m.startIndex === end || m.startIndex === start)
+        const style: Record<string, any> = {}
+        let bullet: Record<string, any> | undefined
+        for (const meta of matches) {
+            Object.assign(style, meta.paragraphStyle)
+            if (meta.bullet) bullet = meta.bullet
+        }
+        const text = stream.slice(start, end).replace(/\n$/, '')
+        if (i < stream.length || text.length > 0) {
+            paragraphs.push({ start, text, style, bullet })
+        }
+        // Skip the "\n" of "\r\n" line endings
+        start = stream[i + 1] === '\n' ? i + 2 : i + 1
+    }
+    return paragraphs
+}
+
+function styleAt(runs: TextRun[], index: number): Record<string, any> {
+    const style: Record<string, any> = {}
+    for (const run of runs) {
+        if (run.st <= index && index < run.ed) Object.assign(style, run.ts)
+    }
+    return style
+}
+
+function isOn(value: unknown): boolean {
+    if (typeof value === 'number') return value === 1
+    if (value && typeof value === 'object') return (value as { s?: number }).s === 1
+    return false
+}
+
+/** Whether every non-space character of the paragraph matches */
+function everyChar(p: RawParagraph, runs: TextRun[], test: (style: Record<string, any>) => boolean): boolean {
+    let seen = false
+    for (let i = 0; i < p.text.length; i++) {
+        if (/\s/.test(p.text[i])) continue
+        seen = true
+        if (!test(styleAt(runs, p.start + i))) return false
+    }
+    return seen
+}
+
+interface LinkRange {
+    start: number
+    end: number
+    url: string
+}
+
+function collectLinks(source: DocumentSource, paragraphs: RawParagraph[]): LinkRange[] {
+    const links: LinkRange[] = []
+    for (const range of source.body?.customRanges ?? []) {
+        if (range.rangeType === HYPERLINK_RANGE && range.properties?.url) {
+            links.push({ start: range.startIndex, end: range.endIndex + 1, url: range.properties.url })
+        }
+    }
+    const claimed = new Set<RawParagraph>()
+    for (const link of source.customRanges ?? []) {
+        if (link.type !== 'hyperlink' || !link.url || !link.text) continue
+        const paragraph = paragraphs.find(p => !claimed.has(p) && p.text.trim() === link.text!.trim())
+        if (!paragraph) continue
+        claimed.add(paragraph)
+        const offset = paragraph.text.indexOf(link.text.trim())
+        links.push({ start: paragraph.start + offset, end: paragraph.start + offset + link.text.trim().length, url: link.url })
+    }
+    return links
+}
+
+/**
+ * Styled text of part of a paragraph. `drop` removes styles that the block
+ * itself implies (bold headings, italic quotes).
+ */
+function inlinesOf(
+    p: RawParagraph,
+    runs: TextRun[],
+    links: LinkRange[],
+    from = 0,
+    drop: Array<keyof DocInline> = []
+): DocInline[] {
+    const inlines: DocInline[] = []
+    for (let i = from; i < p.text.length; i++) {
+        const index = p.start + i
+        const char = p.text[i].replace(CONTROL_CHARS, '')
+        if (!char) continue
+        const style = styleAt(runs, index)
+        const link = links.find(l => l.start <= index && index < l.end)?.url
+        const inline: DocInline = { text: char }
+        if (isOn(style.bl)) inline.bold = true
+        if (isOn(style.it)) inline.italic = true
+        if (isOn(style.ul) && !link) inline.underline = true
+        if (isOn(style.st)) inline.strike = true
+        if (typeof style.ff === 'string' && MONOSPACE.test(style.ff)) inline.code = true
+        if (link) inline.link = link
+        for (const key of drop) delete inline[key]
+
+        const last = inlines[inlines.length - 1]
+        if (last && sameStyle(last, inline)) last.text += char
+        else inlines.push(inline)
+    }
+    return inlines
+}
+
+function sameStyle(a: DocInline, b: DocInline): boolean {
+    return a.bold === b.bold && a.italic === b.italic && a.underline === b.underline &&
+        a.strike === b.strike && a.code === b.code && a.link === b.link
+}
+
+function headingLevel(p: RawParagraph, runs: TextRun[]): number | null {
+    const named = NAMED_HEADING_LEVELS[p.style.namedStyleType]
+    if (named) return named
+    if (!everyChar(p, runs, s => isOn(s.bl))) return null
+    // Font sizes written by add_heading (28 / 22 / 18 / 14)
+    const sizes = [...p.text].map((_, i) => Number(styleAt(runs, p.start + i).fs ?? 0)).filter(n => n > 0)
+    if (sizes.length === 0) return null
+    const size = Math.min(...sizes)
+    if (size >= 24) return 1
+    if (size >= 20) return 2
+    if (size >= 16) return 3
+    if (size >= 14) return 4
+    return null
+}
+
+function isOrderedList(bullet: Record<string, any>, source: DocumentSource): boolean {
+    const listType = bullet.listType ?? source.lists?.[bullet.listId]?.listType
+    if (listType === 'ordered' || listType === 'ORDER_LIST') return true
+    return typeof bullet.listId === 'string' && /number|order/i.test(bullet.listId)
+}
+
+const TABLE_ROW = /^\s*\|.*\|\s*$/
+const TABLE_SEPARATOR = /^\s*\|(\s*:?-{3,}:?\s*\|)+\s*$/
+const RULE = /^\s*[─━]{3,}\s*$|^\s*-{3,}\s*$/
+
+function tableCells(line: string): string[] {
+    return line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '')
+        .split(/(?<!\\)\|/)
+        .map(cell => cell.trim().replace(/\\\|/g, '|'))
+}
+
+/**
+ * Convert a Univer document snapshot into export blocks
+ */
+export function univerDocToBlocks(source: DocumentSource): DocBlock[] {
+    const paragraphs = splitParagraphs(source)
+    const runs = source.body?.textRuns ?? []
+    const links = collectLinks(source, paragraphs)
+    const blocks: DocBlock[] = []
+    const isCode = (p: RawParagraph | undefined) =>
+        !!p && everyChar(p, runs, s => typeof s.ff === 'string' && MONOSPACE.test(s.ff))
+    // Code blocks are shaded; a monospace paragraph without shading is inline code
+    const isShaded = (p: RawParagraph | undefined) => !!p && !!(p.style.backgroundColor || p.style.shading)
+    // Blank shaded lines inside a code block
+    const isCodeGap = (j: number) => {
+        let k = j
+        while (k < paragraphs.length && !paragraphs[k].text.trim() && isShaded(paragraphs[k])) k++
+        return k > j && isCode(paragraphs[k])
+    }
+
+    for (let i = 0; i < paragraphs.length; i++) {
+        const p = paragraphs[i]
+        const text = p.text.replace(CONTROL_CHARS, '')
+        if (!text.trim()) continue
+
+        if (RULE.test(text) && (p.style.borderBottom || /[─━]/.test(text))) {
+            blocks.push({ type: 'rule' })
+            continue
+        }
+
+        // add_code_block writes an optional "[language]" line before the code
+        const label = /^\[([\w+#.\- ]+)\]$/.exec(text.trim())
+        if ((isCode(p) && isShaded(p)) || (label && isShaded(p) && isCode(paragraphs[i + 1]))) {
+            const lines: string[] = []
+            let j = label && !isCode(p) ? i + 1 : i
+            while (j < paragraphs.length && (isCode(paragraphs[j]) || isCodeGap(j))) lines.push(paragraphs[j++].text)
+            blocks.push({
+                type: 'code',
+                ...(label && !isCode(p) && { language: label[1].trim() }),
+                text: lines.join('\n')
+            })
+            i = j - 1
+            continue
+        }
+
+        const level = p.bullet ? null : headingLevel(p, runs)
+        if (level) {
+            // Bold is implied by tool-written headings, not by named heading styles
+            const implied: Array<keyof DocInline> = NAMED_HEADING_LEVELS[p.style.namedStyleType] ? [] : ['bold']
+            blocks.push({ type: 'heading', level, content: inlinesOf(p, runs, links, 0, implied) })
+            continue
+        }
+
+        if (p.bullet) {
+            const ordered = isOrderedList(p.bullet, source)
+            // The list tools also write the marker into the text
+            const marker = /^\s*(•|[-*]|\d+[.)])\s+/.exec(p.text)
+            const item: DocListItem = {
+                content: inlinesOf(p, runs, links, marker ? marker[0].length : 0),
+                level: Number(p.bullet.nestingLevel ?? 0)
+            }
+            const previous = blocks[blocks.length - 1]
+            const continues = previous?.type === 'list' && previous.ordered === ordered &&
+                paragraphs[i - 1]?.bullet && paragraphs[i - 1].text.trim() !== ''
+            if (continues) (previous as Extract<DocBlock, { type: 'list' }>).items.push(item)
+            else blocks.push({ type: 'list', ordered, items: [item] })
+            continue
+        }
+
+        if (TABLE_ROW.test(text)) {
+            const lines: string[] = []
+            let j = i
+            while (j < paragraphs.length && TABLE_ROW.test(paragraphs[j].text)) lines.push(paragraphs[j++].text)
+            const hasHeader = lines.length > 1 && TABLE_SEPARATOR.test(lines[1])
+            const rows = lines.filter(line => !TABLE_SEPARATOR.test(line)).map(tableCells)
+            blocks.push({ type: 'table', header: hasHeader ? rows[0] : [], rows: hasHeader ? rows.slice(1) : rows })
+            i = j - 1
+            continue
+        }
+
+        if (p.style.borderLeft || (p.style.indentStart && everyChar(p, runs, s => isOn(s.it)))) {
+            // add_quote writes the whole quote in italics, wrapped in quotes, and
+            // puts "— author" on the next line
+            const written = everyChar(p, runs, s => isOn(s.it))
+            const content = inlinesOf(p, runs, links, 0, written ? ['italic'] : [])
+            const first = content[0]
+            const last = content[content.length - 1]
+            if (written && first && last && /^["“]/.test(first.text) && /["”]$/.test(last.text)) {
+                first.text = first.text.slice(1)
+                last.text = last.text.slice(0, -1)
+            }
+            const next = paragraphs[i + 1]
+            const author = next && /^—\s*/.test(next.text) && !next.bullet ? next.text.replace(/^—\s*/, '').trim() : undefined
+            blocks.push({ type: 'quote', content: content.filter(c => c.text), ...(author && { author }) })
+            if (author) i++
+            continue
+        }
+
+        blocks.push({ type: 'paragraph', content: inlinesOf(p, runs, links) })
+    }
+    return blocks
+}
+
+/**
+ * Page setup of a document, with the A4 defaults used by the docs editor
+ */
+export function documentPageOf(source: DocumentSource): DocumentPage {
+    const style = source.documentStyle ?? {}
+    return {
+        width: style.pageSize?.width || 595,
+        height: style.pageSize?.height || 842,
+        marginTop: style.marginTop ?? 72,
+        marginBottom: style.marginBottom ?? 72,
+        marginLeft: style.marginLeft ?? 72,
+        marginRight: style.marginRight ?? 72
+    }
+}
+
+/** Plain text of inline content */
+export function inlineText(content: DocInline[]): string {
+    return content.map(inline => inline.text).join('')
+}
+
+// ============================================================================
+// WRITING
+// ============================================================================
+
+/** Univer document body in the editor's native shapes */
+export interface UniverDocumentBody {
+    dataStream: string
+    textRuns: TextRun[]
+    paragraphs: ParagraphMeta[]
+    customRanges: Array<{ rangeId: string; rangeType: number; startIndex: number; endIndex: number; properties: { url: string } }>
+    sectionBreaks?: Array<{ startIndex: number }>
+}
+
+// Univer NamedStyleType.HEADING_1; HEADING_5 is the deepest named heading
+const NAMED_HEADING_1 = 4
+const NAMED_HEADING_5 = 8
+const CODE_FONT = 'Consolas, Monaco, monospace'
+const CODE_SHADING = { backgroundColor: { rgb: '#f5f5f5' } }
+const QUOTE_STYLE = {
+    borderLeft: { color: { rgb: '#cccccc' }, width: 3, padding: 8, dashStyle: 0 },
+    indentStart: { v: 20 }
+}
+const RULE_TEXT = '─'.repeat(32)
+
+function randomId(): string {
+    return Math.random().toString(36).slice(2, 10)
+}
+
+function inlineStyle(inline: DocInline): Record<string, any> | null {
+    const ts: Record<string, any> = {}
+    if (inline.bold) ts.bl = 1
+    if (inline.italic) ts.it = 1
+    if (inline.underline) ts.ul = { s: 1 }
+    if (inline.strike) ts.st = { s: 1 }
+    if (inline.code) ts.ff = CODE_FONT
+    return Object.keys(ts).length > 0 ? ts : null
+}
+
+function tableLine(cells: string[], columns: number): string {
+    return `| ${Array.from({ length: columns }, (_, i) => (cells[i] ?? '').replace(/\|/g, '\\|')).join(' | ')} |`
+}
+
+/**
+ * Write blocks as a Univer document body: named heading styles, native
+ * bullets, hyperlink custom ranges, shaded monospace code, bordered quotes,
+ * and pipe tables like the table tool. Without `sectionBreak` the body ends
+ * after its last paragraph, ready to be pasted into another document.
+ */
+export function blocksToUniverBody(blocks: DocBlock[], options: { sectionBreak?: boolean } = {}): UniverDocumentBody {
+    const body: UniverDocumentBody = { dataStream: '', textRuns: [], paragraphs: [], customRanges: [] }
+
+    const write = (content: DocInline[], meta: Omit<ParagraphMeta, 'startIndex'> = {}, runStyle?: Record<string, any>) => {
+        for (const inline of content) {
+            const text = inline.text.replace(/[\r\n]+/g, ' ')
+            if (!text) continue
+            const st = body.dataStream.length
+            body.dataStream += text
+            const ts = { ...runStyle, ...inlineStyle(inline) }
+            if (Object.keys(ts).length > 0) {
+                const last = body.textRuns[body.textRuns.length - 1]
+                if (last && last.ed === st && JSON.stringify(last.ts) === JSON.stringify(ts)) last.ed = st + text.length
+                else body.textRuns.push({ st, ed: st + text.length, ts })
+            }
+            if (inline.link) {
+                const last = body.customRanges[body.customRanges.length - 1]
+                if (last && last.endIndex === st - 1 && last.properties.url === inline.link) last.endIndex += text.length
+                else body.customRanges.push({
+                    rangeId: randomId(),
+                    rangeType: HYPERLINK_RANGE,
+                    startIndex: st,
+                    endIndex: st + text.length - 1,
+                    properties: { url: inline.link }
+                })
+            }
+        }
+        body.paragraphs.push({ startIndex: body.dataStream.length, ...meta })
+        body.dataStream += '\r'
+    }
+    const plain = (text: string): DocInline[] => [{ text }]
+    // Adjacent lists share ids so numbering continues around nested bullets
+    let listIds: Record<string, string> = {}
+
+    for (const block of blocks) {
+        if (block.type !== 'list') listIds = {}
+        switch (block.type) {
+            case 'heading': {
+                const namedStyleType = Math.min(NAMED_HEADING_1 + block.level - 1, NAMED_HEADING_5)
+                write(block.content, { paragraphStyle: { namedStyleType } })
+                break
+            }
+            case 'paragraph':
+                write(block.content)
+                break
+            case 'list': {
+                const listType = block.ordered ? 'ORDER_LIST' : 'BULLET_LIST'
+                const listId = (listIds[listType] ??= `list_${randomId()}`)
+                for (const item of block.items) {
+                    write(item.content, { bullet: { listId, listType, nestingLevel: item.level } })
+                }
+                break
+            }
+            case 'table': {
+                const columns = Math.max(1, block.header.length, ...block.rows.map(row => row.length))
+                write(plain(tableLine(block.header, columns)))
+                write(plain(`|${' --- |'.repeat(columns)}`))
+                for (const row of block.rows) write(plain(tableLine(row, columns)))
+                break
+            }
+            case 'code': {
+                const paragraphStyle = { shading: CODE_SHADING }
+                if (block.language) write(plain(`[${block.language}]`), { paragraphStyle })
+                for (const line of block.text.split('\n')) {
+                    write(plain(line), { paragraphStyle }, { ff: CODE_FONT })
+                }
+                break
+            }
+            case 'quote':
+                write(block.content, { paragraphStyle: { ...QUOTE_STYLE } })
+                if (block.author) write(plain(`— ${block.author}`), { paragraphStyle: { ...QUOTE_STYLE } })
+                break
+            case 'rule':
+                write(plain(RULE_TEXT), { paragraphStyle: { borderBottom: { color: { rgb: '#cccccc' }, width: 1, padding: 4, dashStyle: 0 } } })
+                break
+        }
+    }
+
+    if (options.sectionBreak ?? true) {
+        if (body.paragraphs.length === 0) {
+            body.paragraphs.push({ startIndex: 0 })
+            body.dataStream = '\r'
+        }
+        body.sectionBreaks = [{ startIndex: body.dataStream.length }]
+        body.dataStream += '\n'
+    }
+    return body
+}
@@ -0,0 +1,624 @@
+/**
+ * Markdown and HTML for document blocks (see document-blocks)
+ *
+ * Markdown goes both ways, so Markdown → Univer → Markdown is stable: the
+ * parser reads what blocksToMarkdown writes, plus common GitHub-flavored input.
+ */
+
+import {
+    blocksToUniverBody,
+    univerDocToBlocks,
+    type DocBlock,
+    type DocInline,
+    type DocListItem,
+    type DocumentSource,
+    type UniverDocumentBody
+} from './document-blocks'
+
+// ============================================================================
+// MARKDOWN
+// ============================================================================
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/([\\`*_[\]<>~])/g, '\\$1')
+}
+
+function inlineMarkdown(content: DocInline[]): string {
+    return content.map(inline => {
+        if (inline.code) {
+            const fence = inline.text.includes('`') ? '``' : '`'
+            const code = `${fence}${inline.text}${fence}`
+            return inline.link ? `[${code}](${inline.link})` : code
+        }
+        // Keep surrounding spaces outside the emphasis markers
+        const [, lead, core, trail] = /^(\s*)([\s\S]*?)(\s*)$/.exec(inline.text)!
+        if (!core) return inline.text
+        // Bare URLs read best as autolinks
+        if (inline.link === core && !inline.bold && !inline.italic && !inline.strike) return `${lead}<${core}>${trail}`
+        let text = escapeMarkdown(core).replace(/\n/g, '  \n')
+        if (inline.strike) text = `~~${text}~~`
+        if (inline.italic) text = `*${text}*`
+        if (inline.bold) text = `**${text}**`
+        if (inline.link) text = `[${text}](${inline.link})`
+        return `${lead}${text}${trail}`
+    }).join('')
+}
+
+/** Escape text that would otherwise start a Markdown block */
+function guardLineStart(text: string): string {
+    return text
+        .replace(/^(#{1,6}\s|[-+]\s|-{3,}\s*$)/, '\\$1')
+        .replace(/^(\d+)([.)]\s)/, '$1\\$2')
+}
+
+type ListBlock = Extract<DocBlock, { type: 'list' }>
+
+/**
+ * One Markdown list for adjacent lists that nest into each other (bullets
+ * under a numbered item), so the numbering continues after them
+ */
+function listMarkdown(lists: ListBlock[]): string {
+    const counters: number[] = []
+    const kinds: boolean[] = []
+    return lists.flatMap(({ ordered, items }) => items.map(item => {
+        counters.length = item.level + 1
+        kinds.length = item.level + 1
+        if (kinds[item.level] !== ordered) counters[item.level] = 0
+        kinds[item.level] = ordered
+        counters[item.level] = (counters[item.level] ?? 0) + 1
+        const marker = ordered ? `${counters[item.level]}.` : '-'
+        const indent = '   '.repeat(item.level)
+        return `${indent}${marker} ${inlineMarkdown(item.content)}`
+    })).join('\n')
+}
+
+function tableMarkdown(header: string[], rows: string[][]): string {
+    const columns = Math.max(header.length, ...rows.map(row => row.length))
+    const line = (cells: string[]) =>
+        `| ${Array.from({ length: columns }, (_, i) => (cells[i] ?? '').replace(/\|/g, '\\|')).join(' | ')} |`
+    const head = header.length > 0 ? header : Array.from({ length: columns }, () => '')
+    return [line(head), `|${' --- |'.repeat(columns)}`, ...rows.map(line)].join('\n')
+}
+
+function blockMarkdown(block: Exclude<DocBlock, ListBlock>): string {
+    switch (block.type) {
+        case 'heading':
+            return `${'#'.repeat(block.level)} ${inlineMarkdown(block.content)}`
+        case 'paragraph':
+            return guardLineStart(inlineMarkdown(block.content))
+        case 'table':
+            return tableMarkdown(block.header, block.rows)
+        case 'code': {
+            const fence = block.text.includes('```') ? '~~~' : '```'
+            return `${fence}${block.language ?? ''}\n${block.text}\n${fence}`
+        }
+        case 'quote': {
+            const lines = inlineMarkdown(block.content).split('\n').map(line => `> ${line}`)
+            if (block.author) lines.push('>', `> — ${escapeMarkdown(block.author)}`)
+            return lines.join('\n')
+        }
+        case 'rule':
+            return '---'
+    }
+}
+
+/**
+ * GitHub-flavored Markdown. Underline has no Markdown syntax and is dropped.
+ */
+export function blocksToMarkdown(blocks: DocBlock[]): string {
+    const parts: string[] = []
+    for (let i = 0; i < blocks.length; i++) {
+        const block = blocks[i]
+        if (block.type !== 'list') {
+            parts.push(blockMarkdown(block))
+            continue
+        }
+        const group = [block]
+        let next = blocks[i + 1]
+        while (next?.type === 'list' && (next.items[0]?.level > 0 || group[group.length - 1].items[0]?.level > 0)) {
+            group.push(next)
+            next = blocks[++i + 1]
+        }
+        parts.push(listMarkdown(group))
+    }
+    return parts.join('\n\n') + '\n'
+}
+
+// ============================================================================
+// MARKDOWN PARSING
+// ============================================================================
+
+type InlineStyle = Omit<DocInline, 'text'>
+
+const ESCAPABLE = /[!-/:-@[-`{-~]/
+
+/** Position of the delimiter run closing one that opens at `from` */
+function findClosing(text: string, from: number, char: string, size: number): number {
+    for (let i = from; i < text.length; i++) {
+        if (text[i] === '\\') {
+            i++
+            continue
+        }
+        if (text[i] === '`') {
+            // Delimiters inside code spans do not count
+            const run = /^`+/.exec(text.slice(i))![0]
+            const close = text.indexOf(run, i + run.length)
+            if (close > 0) i = close + run.length - 1
+            continue
+        }
+        if (text[i] !== char) continue
+        let end = i
+        while (text[end] === char) end++
+        const length = end - i
+        const closes = !/\s/.test(text[i - 1] ?? ' ') && (size === 2 ? length >= 2 : length !== 2)
+        const flanked = char !== '_' || !/[\p{L}\p{N}]/u.test(text[end] ?? '')
+        if (closes && flanked && i > from) return end - size
+        i = end - 1
+    }
+    return -1
+}
+
+/** `[label](url "title")` starting at `start`, with nested brackets */
+function parseLinkAt(text: string, start: number): { label: string; url: string; end: number } | null {
+    let depth = 0
+    let i = start
+    for (; i < text.length; i++) {
+        if (text[i] === '\\') i++
+        else if (text[i] === '[') depth++
+        else if (text[i] === ']' && --depth === 0) break
+    }
+    if (i >= text.length || text[i + 1] !== '(') return null
+    const labelEnd = i
+    let parens = 0
+    let j = i + 2
+    for (; j < text.length; j++) {
+        if (text[j] === '\\') j++
+        else if (text[j] === '(') parens++
+        else if (text[j] === ')' && parens-- === 0) break
+    }
+    if (j >= text.length) return null
+    const target = text.slice(labelEnd + 2, j).trim()
+    const url = /^<([^>]*)>/.exec(target)?.[1] ?? target.replace(/\s+(["'(]).*$/, '')
+    return { label: text.slice(start + 1, labelEnd), url, end: j + 1 }
+}
+
+function parseInline(text: string, style: InlineStyle = {}): DocInline[] {
+    const inlines: DocInline[] = []
+    let buffer = ''
+    const push = (inline: DocInline) => {
+        if (!inline.text) return
+        const last = inlines[inlines.length - 1]
+        const same = last && (Object.keys({ ...last, ...inline }) as Array<keyof DocInline>)
+            .every(key => key === 'text' || last[key] === inline[key])
+        if (same) last.text += inline.text
+        else inlines.push(inline)
+    }
+    const flush = () => {
+        push({ ...style, text: buffer })
+        buffer = ''
+    }
+    const nest = (inner: string, extra: InlineStyle) => {
+        flush()
+        for (const inline of parseInline(inner, { ...style, ...extra })) push(inline)
+    }
+
+    let i = 0
+    while (i < text.length) {
+        const char = text[i]
+        const rest = text.slice(i)
+
+        if (char === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+            buffer += text[i + 1]
+            i += 2
+            continue
+        }
+
+        if (char === '`') {
+            const run = /^`+/.exec(rest)![0]
+            const close = text.indexOf(run, i + run.length)
+            if (close > 0 && text[close + run.length] !== '`') {
+                let code = text.slice(i + run.length, close)
+                if (/^ .*[^ ].* $/.test(code)) code = code.slice(1, -1)
+                flush()
+                push({ ...style, code: true, text: code })
+                i = close + run.length
+            } else {
+                buffer += run
+                i += run.length
+            }
+            continue
+        }
+
+        if (char === '[' || (char === '!' && text[i + 1] === '[')) {
+            const link = parseLinkAt(text, char === '!' ? i + 1 : i)
+            if (link) {
+                nest(link.label, { link: link.url })
+                i = link.end
+                continue
+            }
+        }
+
+        const autolink = /^<((?:https?:\/\/|mailto:)[^\s<>]+)>/.exec(rest)
+        if (autolink) {
+            flush()
+            push({ ...style, text: autolink[1], link: autolink[1] })
+            i += autolink[0].length
+            continue
+        }
+        const underline = /^<u>([\s\S]*?)<\/u>/.exec(rest)
+        if (underline) {
+            nest(underline[1], { underline: true })
+            i += underline[0].length
+            continue
+        }
+
+        if (char === '~' && text[i + 1] === '~' && !/\s/.test(text[i + 2] ?? ' ')) {
+            const close = text.indexOf('~~', i + 3)
+            if (close > 0 && !/\s/.test(text[close - 1])) {
+                nest(text.slice(i + 2, close), { strike: true })
+                i = close + 2
+                continue
+            }
+        }
+
+        if (char === '*' || char === '_') {
+            let end = i
+            while (text[end] === char) end++
+            const opens = !/\s/.test(text[end] ?? ' ') &&
+                (char === '*' || !/[\p{L}\p{N}]/u.test(text[i - 1] ?? ''))
+            const size = end - i >= 2 ? 2 : 1
+            const close = opens ? findClosing(text, i + size, char, size) : -1
+            if (close > 0) {
+                nest(text.slice(i + size, close), size === 2 ? { bold: true } : { italic: true })
+                i = close + size
+                continue
+            }
+            buffer += text.slice(i, end)
+            i = end
+            continue
+        }
+
+        buffer += char
+        i++
+    }
+    flush()
+    return inlines
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(?:\s+(.*))?$/
+const QUOTE_LINE = /^ {0,3}>\s?(.*)$/
+const PIPE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/
+
+function splitTableRow(line: string): string[] {
+    return line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '')
+        .split(/(?<!\\)\|/)
+        .map(cell => cell.trim().replace(/\\\|/g, '|'))
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+    return lines[i].includes('|') && PIPE_SEPARATOR.test(lines[i + 1] ?? '') && (lines[i + 1] ?? '').includes('-')
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+    const line = lines[i]
+    return FENCE.test(line) || ATX_HEADING.test(line) || THEMATIC_BREAK.test(line) ||
+        QUOTE_LINE.test(line) || LIST_ITEM.test(line) || isTableStart(lines, i)
+}
+
+/** Paragraph lines split at hard breaks (two trailing spaces or a backslash) */
+function paragraphBlocks(lines: string[]): DocBlock[] {
+    const blocks: DocBlock[] = []
+    let current: string[] = []
+    const flush = () => {
+        if (current.length > 0) blocks.push({ type: 'paragraph', content: parseInline(current.join(' ')) })
+        current = []
+    }
+    for (const line of lines) {
+        const hardBreak = / {2,}$|\\$/.test(line)
+        current.push(line.trim().replace(/\\$/, ''))
+        if (hardBreak) flush()
+    }
+    flush()
+    return blocks.filter(block => block.type !== 'paragraph' || block.content.length > 0)
+}
+
+/**
+ * Parse GitHub-flavored Markdown into document blocks: headings (ATX and
+ * setext), paragraphs, nested ordered and bullet lists, pipe tables, fenced
+ * code, block quotes, rules, and inline bold, italic, strikethrough, code,
+ * links and <u>underline</u>. Hard line breaks start a new paragraph since
+ * Univer paragraphs have no soft breaks.
+ */
+export function markdownToBlocks(markdown: string): DocBlock[] {
+    const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n')
+    const blocks: DocBlock[] = []
+
+    let i = 0
+    while (i < lines.length) {
+        const line = lines[i]
+        if (!line.trim()) {
+            i++
+            continue
+        }
+
+        const fence = FENCE.exec(line)
+        if (fence) {
+            const indent = line.length - line.trimStart().length
+            const code: string[] = []
+            i++
+            while (i < lines.length && !new RegExp(`^ {0,3}${fence[1][0]}{${fence[1].length},}\\s*$`).test(lines[i])) {
+                code.push(lines[i].replace(new RegExp(`^ {0,${indent}}`), ''))
+                i++
+            }
+            i++
+            blocks.push({ type: 'code', ...(fence[2] && { language: fence[2] }), text: code.join('\n') })
+            continue
+        }
+
+        const heading = ATX_HEADING.exec(line)
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2] ?? '') })
+            i++
+            continue
+        }
+
+        if (THEMATIC_BREAK.test(line)) {
+            blocks.push({ type: 'rule' })
+            i++
+            continue
+        }
+
+        if (isTableStart(lines, i)) {
+            const header = splitTableRow(line)
+            const rows: string[][] = []
+            i += 2
+            while (i < lines.length && lines[i].trim() && lines[i].includes('|')) rows.push(splitTableRow(lines[i++]))
+            blocks.push({ type: 'table', header, rows })
+            continue
+        }
+
+        if (QUOTE_LINE.test(line)) {
+            const inner: string[] = []
+            while (i < lines.length) {
+                const quoted = QUOTE_LINE.exec(lines[i])
+                // Lazy continuation: an unmarked line still belongs to the quote's paragraph
+                const lazy = !quoted && lines[i].trim() && inner[inner.length - 1]?.trim() && !startsBlock(lines, i)
+                if (!quoted && !lazy) break
+                inner.push(quoted ? quoted[1] : lines[i].trim())
+                i++
+            }
+            // Paragraphs of the quote; a last "— author" paragraph is the attribution
+            const paragraphs = inner.join('\n').split(/\n\s*\n/).map(p => p.split('\n')).filter(p => p.join('').trim())
+            const last = paragraphs[paragraphs.length - 1]
+            const author = paragraphs.length > 1 && last.length === 1 && /^\s*(—|--)\s*\S/.test(last[0])
+                ? parseInline(last[0].replace(/^\s*(—|--)\s*/, '')).map(inline => inline.text).join('').trim()
+                : undefined
+            const quotes: Array<Extract<DocBlock, { type: 'quote' }>> = []
+            for (const paragraph of author ? paragraphs.slice(0, -1) : paragraphs) {
+                for (const block of paragraphBlocks(paragraph)) {
+                    if (block.type === 'paragraph') quotes.push({ type: 'quote', content: block.content })
+                }
+            }
+            if (author && quotes.length > 0) quotes[quotes.length - 1].author = author
+            blocks.push(...quotes)
+            continue
+        }
+
+        if (LIST_ITEM.test(line)) {
+            const items: Array<{ text: string; level: number; ordered: boolean }> = []
+            const indents: number[] = []
+            while (i < lines.length) {
+                const item = LIST_ITEM.exec(lines[i])
+                if (item) {
+                    const indent = item[1].length
+                    while (indents.length > 0 && indent < indents[indents.length - 1]) indents.pop()
+                    if (indents.length === 0 || indent > indents[indents.length - 1]) indents.push(indent)
+                    const previousLevel = items[items.length - 1]?.level ?? -1
+                    items.push({
+                        text: (item[3] ?? '').trim(),
+                        level: Math.min(indents.length - 1, previousLevel + 1),
+                        ordered: /\d/.test(item[2])
+                    })
+                    i++
+                    continue
+                }
+                // Blank lines continue the list when another item follows
+                let next = i
+                while (next < lines.length && !lines[next].trim()) next++
+                if (next > i && next < lines.length && LIST_ITEM.test(lines[next])) {
+                    i = next
+                    continue
+                }
+                // Lines that start no other block continue the current item
+                if (next === i && !startsBlock(lines, i)) {
+                    items[items.length - 1].text += ` ${lines[i++].trim()}`
+                    continue
+                }
+                break
+            }
+
+            // A change between ordered and bullet items starts a new list
+            for (const item of items) {
+                const last = blocks[blocks.length - 1]
+                const listItem: DocListItem = { content: parseInline(item.text), level: item.level }
+                if (last?.type === 'list' && last.ordered === item.ordered && item !== items[0]) last.items.push(listItem)
+                else blocks.push({ type: 'list', ordered: item.ordered, items: [listItem] })
+            }
+            continue
+        }
+
+        // Paragraph, or a setext heading when underlined with = or -
+        const paragraph: string[] = []
+        let setext = 0
+        while (i < lines.length && lines[i].trim()) {
+            const underline = paragraph.length > 0 ? /^ {0,3}(=+|-+)\s*$/.exec(lines[i]) : null
+            if (underline) {
+                setext = underline[1][0] === '=' ? 1 : 2
+                i++
+                break
+            }
+            if (paragraph.length > 0 && startsBlock(lines, i)) break
+            paragraph.push(lines[i++])
+        }
+        if (setext) {
+            blocks.push({ type: 'heading', level: setext, content: parseInline(paragraph.map(l => l.trim()).join(' ')) })
+        } else {
+            blocks.push(...paragraphBlocks(paragraph))
+        }
+    }
+    return blocks
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
+
+function inlineHtml(content: DocInline[]): string {
+    return content.map(inline => {
+        let html = escapeHtml(inline.text).replace(/\n/g, '<br>')
+        if (inline.code) html = `<code>${html}</code>`
+        if (inline.strike) html = `<s>${html}</s>`
+        if (inline.underline) html = `<u>${html}</u>`
+        if (inline.italic) html = `<em>${html}</em>`
+        if (inline.bold) html = `<strong>${html}</strong>`
+        if (inline.link) html = `<a href="${escapeHtml(inline.link)}">${html}</a>`
+        return html
+    }).join('')
+}
+
+function listHtml(ordered: boolean, items: DocListItem[]): string {
+    const tag = ordered ? 'ol' : 'ul'
+    let html = `<${tag}>`
+    let depth = 0
+    items.forEach((item, index) => {
+        // Items stay open so nested lists can go inside them
+        if (index > 0 && item.level <= depth) html += '</li>'
+        for (; depth > item.level; depth--) html += `</${tag}></li>`
+        for (; depth < item.level && index > 0; depth++) html += `<${tag}>`
+        html += `<li>${inlineHtml(item.content)}`
+    })
+    html += '</li>'
+    for (; depth > 0; depth--) html += `</${tag}></li>`
+    return `${html}</${tag}>`
+}
+
+const HTML_STYLE = `body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; line-height: 1.6; color: #1f2328; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #d0d7de; padding: 0.4rem 0.75rem; text-align: left; }
+th { background: #f6f8fa; }
+pre { background: #f6f8fa; padding: 0.75rem 1rem; border-radius: 6px; overflow-x: auto; }
+code { font-family: Consolas, Menlo, monospace; font-size: 0.9em; }
+blockquote { margin: 1rem 0; padding: 0 1rem; color: #57606a; border-left: 4px solid #d0d7de; }
+blockquote footer { font-size: 0.9em; }
+hr { border: 0; border-top: 1px solid #d0d7de; margin: 1.5rem 0; }`
+
+/**
+ * Standalone HTML page with minimal print-friendly styling
+ */
+export function blocksToHtml(blocks: DocBlock[], options: { title?: string; lang?: string } = {}): string {
+    const body = blocks.map(block => {
+        switch (block.type) {
+            case 'heading':
+                return `<h${block.level}>${inlineHtml(block.content)}</h${block.level}>`
+            case 'paragraph':
+                return `<p>${inlineHtml(block.content)}</p>`
+            case 'list':
+                return listHtml(block.ordered, block.items)
+            case 'table': {
+                const head = block.header.length > 0
+                    ? `<thead><tr>${block.header.map(cell => `<th>${escapeHtml(cell)}</th>`).join('')}</tr></thead>`
+                    : ''
+                const rows = block.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+                return `<table>${head}<tbody>${rows.join('')}</tbody></table>`
+            }
+            case 'code': {
+                const className = block.language ? ` class="language-${escapeHtml(block.language)}"` : ''
+                return `<pre><code${className}>${escapeHtml(block.text)}</code></pre>`
+            }
+            case 'quote': {
+                const footer = block.author ? `<footer>— ${escapeHtml(block.author)}</footer>` : ''
+                return `<blockquote><p>${inlineHtml(block.content)}</p>${footer}</blockquote>`
+            }
+            case 'rule':
+                return '<hr>'
+        }
+    })
+
+    return [
+        '<!DOCTYPE html>',
+        `<html lang="${escapeHtml(options.lang ?? 'en')}">`,
+        '<head>',
+        '<meta charset="utf-8">',
+        `<title>${escapeHtml(options.title ?? 'Document')}</title>`,
+        `<style>\n${HTML_STYLE}\n</style>`,
+        '</head>',
+        '<body>',
+        ...body,
+        '</body>',
+        '</html>',
+        ''
+    ].join('\n')
+}
+
+// ============================================================================
+// UNIVER
+// ============================================================================
+
+// Lines that only Markdown would write: headings, fences, tables, quotes,
+// emphasis, inline code and links
+const MARKDOWN_HINTS = [
+    /^ {0,3}#{1,6}\s+\S/m,
+    /^ {0,3}(```|~~~)/m,
+    /^\s*\|.*\|\s*\n\s*\|?\s*:?-{3,}/m,
+    /^ {0,3}>\s/m,
+    /\*\*[^*\n]+\*\*|__[^_\n]+__|~~[^~\n]+~~/,
+    /`[^`\n]+`/,
+    /\[[^\]\n]+\]\([^)\s]+\)/
+]
+
+/**
+ * Whether pasted plain text reads as Markdown rather than prose. Lists alone
+ * do not count: plain text keeps its line breaks.
+ */
+export function looksLikeMarkdown(text: string): boolean {
+    return MARKDOWN_HINTS.some(pattern => pattern.test(text))
+}
+
+/** Univer document body for Markdown (see blocksToUniverBody) */
+export function markdownToUniverBody(markdown: string, options: { sectionBreak?: boolean } = {}): UniverDocumentBody {
+    return blocksToUniverBody(markdownToBlocks(markdown), options)
+}
+
+/**
+ * New Univer document snapshot from Markdown, on an A4 page
+ */
+export function markdownToUniverDoc(markdown: string, options: { id?: string; title?: string } = {}) {
+    return {
+        id: options.id ?? crypto.randomUUID(),
+        ...(options.title !== undefined && { title: options.title }),
+        body: markdownToUniverBody(markdown),
+        documentStyle: {
+            pageSize: { width: 595, height: 842 },
+            marginTop: 72,
+            marginBottom: 72,
+            marginLeft: 72,
+            marginRight: 72
+        }
+    }
+}
+
+/** Markdown for a Univer document snapshot */
+export function univerDocToMarkdown(source: DocumentSource): string {
+    return blocksToMarkdown(univerDocToBlocks(source))
+}
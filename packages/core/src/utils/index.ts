@@ -5,3 +5,7 @@
  */
 
 export * from './detect-language'
+export * from './document-blocks'
+export * from './document-markup'
+export * from './sheet-charts'
+export * from './proofreading'
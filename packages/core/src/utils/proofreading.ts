@@ -0,0 +1,530 @@
+/**
+ * Proofreading rules
+ *
+ * An offline rule engine for prose: repeated words, agreement, passive voice,
+ * the team's style-guide terms and, given a dictionary, spelling. Suggestions
+ * carry offsets into the checked string, so editors can underline a Univer
+ * dataStream or a note's text and replace the range in place. Findings from
+ * an LLM pass are placed in the same text with locateSuggestions and merged
+ * with the rule results, rules first.
+ */
+
+import { detectTextLanguage } from './detect-language'
+import type { TextLanguage } from './detect-language'
+
+export type ProofreadingLanguage = TextLanguage
+export type SuggestionCategory = 'spelling' | 'grammar' | 'style'
+export type SuggestionSource = 'rules' | 'llm'
+
+export interface ProofreadingSuggestion {
+    /** Same issue in the same surroundings keeps its id across edits elsewhere */
+    id: string
+    ruleId: string
+    category: SuggestionCategory
+    source: SuggestionSource
+    message: string
+    /** Offsets into the checked text, end exclusive */
+    start: number
+    end: number
+    original: string
+    /** Best first; empty when the issue needs rewording by hand */
+    replacements: string[]
+}
+
+export interface StyleGuideTerm {
+    /** Word or phrase to avoid, matched as whole words and ignoring case */
+    term: string
+    /** Preferred wording; leave empty to only flag the term */
+    replacement?: string
+    /** Why the team prefers it, shown instead of the default message */
+    note?: string
+}
+
+/** Spell checker; `language` is the paragraph's, for dictionaries routed per language */
+export interface SpellingDictionary {
+    check(word: string, language?: ProofreadingLanguage): boolean
+    /** Corrections, best first */
+    suggest(word: string, language?: ProofreadingLanguage): string[]
+}
+
+export interface ProofreadingOptions {
+    /** Fixed language; otherwise detected per paragraph */
+    language?: ProofreadingLanguage
+    /** Languages detection may pick, e.g. those with a dictionary installed */
+    languages?: readonly ProofreadingLanguage[]
+    styleGuide?: StyleGuideTerm[]
+    /** Rule ids to skip; "style-guide" skips every style-guide term */
+    ignoredRules?: string[]
+    spelling?: SpellingDictionary
+}
+
+/** An issue reported by an LLM, quoted rather than located */
+export interface ProofreadingFinding {
+    original: string
+    replacement?: string
+    message: string
+    category: SuggestionCategory
+}
+
+const RULE_LABELS: Record<string, string> = {
+    'repeated-word': 'Palabras repetidas',
+    'article-agreement': 'Concordancia del artículo',
+    'subject-verb-agreement': 'Concordancia sujeto-verbo',
+    'contraction': 'Contracciones (del, al)',
+    'passive-voice': 'Voz pasiva',
+    'spelling': 'Ortografía',
+    'style-guide': 'Guía de estilo',
+    'llm:spelling': 'Ortografía (IA)',
+    'llm:grammar': 'Gramática (IA)',
+    'llm:style': 'Estilo (IA)'
+}
+
+/**
+ * Name shown for a rule in the suggestion card and the ignored rules list
+ */
+export function ruleLabel(ruleId: string): string {
+    if (ruleId.startsWith('style-guide:')) {
+        return `${RULE_LABELS['style-guide']}: «${ruleId.slice('style-guide:'.length)}»`
+    }
+    return RULE_LABELS[ruleId] ?? ruleId
+}
+
+// ============================================================================
+// TEXT HELPERS
+// ============================================================================
+
+interface Token {
+    text: string
+    lower: string
+    start: number
+    end: number
+}
+
+const WORD_PATTERN = /[\p{L}\p{M}]+(?:['’][\p{L}\p{M}]+)*/gu
+
+function tokenize(text: string, offset: number): Token[] {
+    return Array.from(text.matchAll(WORD_PATTERN), match => ({
+        text: match[0],
+        lower: match[0].toLowerCase(),
+        start: offset + match.index!,
+        end: offset + match.index! + match[0].length
+    }))
+}
+
+/** Paragraphs with their offsets; Univer and notes both break on \r or \n */
+function paragraphs(text: string): Array<{ text: string; start: number }> {
+    const result: Array<{ text: string; start: number }> = []
+    let start = 0
+    for (const part of text.split(/[\r\n]/)) {
+        if (part.trim()) result.push({ text: part, start })
+        start += part.length + 1
+    }
+    return result
+}
+
+const matchCase = (source: string, word: string) =>
+    source[0] && source[0] === source[0].toUpperCase() && source[0] !== source[0].toLowerCase()
+        ? word.charAt(0).toUpperCase() + word.slice(1)
+        : word
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+export function suggestionId(text: string, ruleId: string, start: number, end: number): string {
+    return `${ruleId}|${text.slice(Math.max(0, start - 16), end + 16)}`
+}
+
+type Draft = Omit<ProofreadingSuggestion, 'id' | 'source' | 'original'>
+
+/** Checks one paragraph; `text` is the whole checked string */
+type Rule = (text: string, tokens: Token[], language: ProofreadingLanguage) => Draft[]
+
+/** Only spaces or tabs between two tokens (no punctuation, no line break) */
+const adjacent = (text: string, a: Token, b: Token) => /^[ \t]+$/.test(text.slice(a.end, b.start))
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+// Legitimate doubles: "what it is is", "had had", "that that"
+const ALLOWED_REPEATS = new Set(['had', 'that', 'is'])
+
+const repeatedWord: Rule = (text, tokens) => {
+    const drafts: Draft[] = []
+    for (let i = 1; i < tokens.length; i++) {
+        const [prev, word] = [tokens[i - 1], tokens[i]]
+        if (prev.lower !== word.lower || ALLOWED_REPEATS.has(word.lower)) continue
+        if (!adjacent(text, prev, word)) continue
+        drafts.push({
+            ruleId: 'repeated-word',
+            category: 'grammar',
+            message: `«${word.text}» está repetida`,
+            start: prev.start,
+            end: word.end,
+            replacements: [prev.text]
+        })
+    }
+    return drafts
+}
+
+// "a university", "a one-off": written vowel, consonant sound
+const CONSONANT_SOUND = /^(uni|use|usu|uti|ure|eu|one|once)/
+// "an hour": written consonant, vowel sound
+const VOWEL_SOUND = /^(hour|honest|honor|honour|heir)/
+
+const AUXILIARIES = new Set([
+    'do', 'does', 'did', 'can', 'could', 'will', 'would', 'shall', 'should',
+    'may', 'might', 'must', 'let', 'lets', 'make', 'makes', 'help', 'helps', 'to'
+])
+
+const SINGULAR_SUBJECTS = new Set(['he', 'she', 'it'])
+const PLURAL_SUBJECTS = new Set(['we', 'you', 'they'])
+const SINGULAR_VERB_FIXES: Record<string, string> = { "don't": "doesn't", 'have': 'has', 'are': 'is' }
+const PLURAL_VERB_FIXES: Record<string, string> = { "doesn't": "don't", 'has': 'have', 'is': 'are', 'was': 'were' }
+const FIRST_PERSON_FIXES: Record<string, string> = { "doesn't": "don't", 'has': 'have', 'is': 'am', 'are': 'am' }
+
+function englishAgreement(text: string, tokens: Token[]): Draft[] {
+    const drafts: Draft[] = []
+    for (let i = 0; i + 1 < tokens.length; i++) {
+        const [word, next] = [tokens[i], tokens[i + 1]]
+        if (!adjacent(text, word, next)) continue
+
+        if ((word.lower === 'a' || word.lower === 'an') && next.text !== next.text.toUpperCase()) {
+            const vowel = /^[aeiou]/.test(next.lower)
+                ? !CONSONANT_SOUND.test(next.lower)
+                : VOWEL_SOUND.test(next.lower)
+            const expected = vowel ? 'an' : 'a'
+            if (word.lower !== expected) {
+                drafts.push({
+                    ruleId: 'article-agreement',
+                    category: 'grammar',
+                    message: `Usa «${expected}» delante de «${next.text}»`,
+                    start: word.start,
+                    end: word.end,
+                    replacements: [matchCase(word.text, expected)]
+                })
+            }
+            continue
+        }
+
+        if (i > 0 && AUXILIARIES.has(tokens[i - 1].lower)) continue
+        const verb = next.lower.replace('’', "'")
+        const fix = word.lower === 'i'
+            ? FIRST_PERSON_FIXES[verb]
+            : SINGULAR_SUBJECTS.has(word.lower)
+                ? SINGULAR_VERB_FIXES[verb]
+                : PLURAL_SUBJECTS.has(word.lower) ? PLURAL_VERB_FIXES[verb] : undefined
+        if (fix) {
+            drafts.push({
+                ruleId: 'subject-verb-agreement',
+                category: 'grammar',
+                message: `El verbo no concuerda con «${word.text}»`,
+                start: next.start,
+                end: next.end,
+                replacements: [matchCase(next.text, fix)]
+            })
+        }
+    }
+    return drafts
+}
+
+type Gender = 'm' | 'f'
+type GrammaticalNumber = 's' | 'p'
+
+const SPANISH_ARTICLES: Record<string, { definite: boolean; gender: Gender; number: GrammaticalNumber }> = {
+    el: { definite: true, gender: 'm', number: 's' },
+    la: { definite: true, gender: 'f', number: 's' },
+    los: { definite: true, gender: 'm', number: 'p' },
+    las: { definite: true, gender: 'f', number: 'p' },
+    un: { definite: false, gender: 'm', number: 's' },
+    una: { definite: false, gender: 'f', number: 's' },
+    unos: { definite: false, gender: 'm', number: 'p' },
+    unas: { definite: false, gender: 'f', number: 'p' }
+}
+
+// Suffixes whose gender has no exceptions worth flagging
+const NOUN_SUFFIXES: Array<[RegExp, Gender, GrammaticalNumber]> = [
+    [/(ción|sión|dad|tad|tud|umbre)$/, 'f', 's'],
+    [/(ciones|siones|dades|tades|tudes|umbres)$/, 'f', 'p'],
+    [/(aje|miento|ismo)$/, 'm', 's'],
+    [/(ajes|mientos|ismos)$/, 'm', 'p']
+]
+
+function spanishArticle(definite: boolean, gender: Gender, number: GrammaticalNumber): string {
+    return Object.entries(SPANISH_ARTICLES).find(([, article]) =>
+        article.definite === definite && article.gender === gender && article.number === number
+    )![0]
+}
+
+function spanishAgreement(text: string, tokens: Token[]): Draft[] {
+    const drafts: Draft[] = []
+    for (let i = 0; i + 1 < tokens.length; i++) {
+        const [word, next] = [tokens[i], tokens[i + 1]]
+        if (!adjacent(text, word, next)) continue
+
+        // "de el" → "del"; "a él" (pronoun) carries an accent and is fine
+        if ((word.lower === 'de' || word.lower === 'a') && next.text === 'el') {
+            const merged = word.lower === 'de' ? 'del' : 'al'
+            drafts.push({
+                ruleId: 'contraction',
+                category: 'grammar',
+                message: `Se escribe «${merged}»`,
+                start: word.start,
+                end: next.end,
+                replacements: [matchCase(word.text, merged)]
+            })
+            continue
+        }
+
+        const article = SPANISH_ARTICLES[word.lower]
+        if (!article || next.lower.length < 4) continue
+        const noun = NOUN_SUFFIXES.find(([suffix]) => suffix.test(next.lower))
+        if (!noun) continue
+        const [, gender, number] = noun
+        if (article.gender === gender && article.number === number) continue
+        drafts.push({
+            ruleId: 'article-agreement',
+            category: 'grammar',
+            message: `El artículo no concuerda con «${next.text}»`,
+            start: word.start,
+            end: word.end,
+            replacements: [matchCase(word.text, spanishArticle(article.definite, gender, number))]
+        })
+    }
+    return drafts
+}
+
+const agreement: Rule = (text, tokens, language) =>
+    language === 'en' ? englishAgreement(text, tokens)
+        : language === 'es' ? spanishAgreement(text, tokens)
+            : []
+
+const ENGLISH_BE = new Set(['am', 'is', 'are', 'was', 'were', 'be', 'been', 'being'])
+const ENGLISH_IRREGULAR_PARTICIPLES = new Set([
+    'written', 'done', 'made', 'given', 'taken', 'seen', 'known', 'shown', 'sent',
+    'built', 'found', 'held', 'kept', 'left', 'paid', 'said', 'sold', 'told',
+    'thought', 'brought', 'bought', 'caught', 'taught', 'chosen', 'driven',
+    'forgotten', 'hidden', 'spoken', 'stolen', 'broken', 'begun', 'drawn',
+    'grown', 'thrown', 'torn', 'put', 'set', 'led', 'lost', 'meant', 'spent', 'won'
+])
+// -ed words that describe a state rather than an action
+const ENGLISH_STATE_ADJECTIVES = new Set([
+    'interested', 'tired', 'excited', 'concerned', 'supposed', 'used', 'married',
+    'worried', 'pleased', 'bored', 'scared', 'surprised', 'confused', 'needed'
+])
+
+// "fue aprobado": passive even without an agent
+const SPANISH_SER = new Set(['fue', 'fueron', 'fui', 'fuimos', 'será', 'serán', 'sido', 'siendo'])
+// "es complicado" is usually an adjective: require "por ..." after these
+const SPANISH_SER_WITH_AGENT = new Set(['es', 'son', 'era', 'eran', 'ser', 'sea', 'sean'])
+const SPANISH_IRREGULAR_PARTICIPLES = new Set(
+    ['escrit', 'hech', 'dich', 'vist', 'puest', 'abiert', 'resuelt', 'cubiert', 'devuelt', 'impres']
+        .flatMap(stem => ['o', 'a', 'os', 'as'].map(ending => stem + ending))
+)
+
+const isEnglishParticiple = (word: string) =>
+    ENGLISH_IRREGULAR_PARTICIPLES.has(word) ||
+    (word.length > 4 && word.endsWith('ed') && !ENGLISH_STATE_ADJECTIVES.has(word))
+
+const isSpanishParticiple = (word: string) =>
+    SPANISH_IRREGULAR_PARTICIPLES.has(word) || (word.length > 4 && /[ai]d[oa]s?$/.test(word))
+
+const passiveVoice: Rule = (text, tokens, language) => {
+    const drafts: Draft[] = []
+    if (language !== 'en' && language !== 'es') return drafts
+    for (let i = 0; i + 1 < tokens.length; i++) {
+        const be = tokens[i]
+        let j = i + 1
+        // One adverb may sit in between: "was quickly approved"
+        if (language === 'en' && tokens[j].lower.endsWith('ly') && j + 1 < tokens.length) j++
+        const participle = tokens[j]
+        if (!adjacent(text, tokens[j - 1], participle) || !adjacent(text, be, tokens[i + 1])) continue
+
+        let passive = false
+        if (language === 'en') {
+            passive = ENGLISH_BE.has(be.lower) && isEnglishParticiple(participle.lower)
+        } else if (isSpanishParticiple(participle.lower)) {
+            passive = SPANISH_SER.has(be.lower) ||
+                (SPANISH_SER_WITH_AGENT.has(be.lower) && tokens.slice(j + 1, j + 3).some(t => t.lower === 'por'))
+        }
+        if (!passive) continue
+
+        drafts.push({
+            ruleId: 'passive-voice',
+            category: 'style',
+            message: 'Voz pasiva: considera reescribir la frase en voz activa',
+            start: be.start,
+            end: participle.end,
+            replacements: []
+        })
+        i = j
+    }
+    return drafts
+}
+
+function styleGuideRule(terms: StyleGuideTerm[]): Rule {
+    const patterns = terms
+        .map(term => ({ ...term, term: term.term.trim() }))
+        .filter(term => term.term)
+        .map(term => ({
+            term,
+            pattern: new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term.term)}(?![\\p{L}\\p{N}])`, 'giu')
+        }))
+
+    return (text, tokens) => {
+        if (!tokens.length) return []
+        const from = tokens[0].start
+        const paragraph = text.slice(from, tokens[tokens.length - 1].end)
+        const drafts: Draft[] = []
+        for (const { term, pattern } of patterns) {
+            for (const match of paragraph.matchAll(pattern)) {
+                const replacement = term.replacement?.trim()
+                drafts.push({
+                    ruleId: `style-guide:${term.term.toLowerCase()}`,
+                    category: 'style',
+                    message: term.note?.trim() ||
+                        (replacement ? `Guía de estilo: usa «${replacement}»` : `Guía de estilo: evita «${term.term}»`),
+                    start: from + match.index!,
+                    end: from + match.index! + match[0].length,
+                    replacements: replacement ? [matchCase(match[0], replacement)] : []
+                })
+            }
+        }
+        return drafts
+    }
+}
+
+function spellingRule(dictionary: SpellingDictionary): Rule {
+    return (text, tokens, language) => {
+        const drafts: Draft[] = []
+        for (const token of tokens) {
+            const { text: word, lower } = token
+            if (word.length < 2 || word === word.toUpperCase()) continue
+            if (/\p{Lu}/u.test(word.slice(1))) continue
+
+            // Part of a URL, e-mail or file name
+            let chunkStart = token.start
+            let chunkEnd = token.end
+            while (chunkStart > 0 && !/\s/.test(text[chunkStart - 1])) chunkStart--
+            while (chunkEnd < text.length && !/\s/.test(text[chunkEnd])) chunkEnd++
+            if (/[@/\\]|\.\p{L}/u.test(text.slice(chunkStart, chunkEnd))) continue
+
+            // Capitalized mid-sentence: most likely a name
+            const before = text.slice(0, token.start).replace(/[ \t"'«“(]+$/, '')
+            const sentenceStart = !before || /[.!?:\r\n]$/.test(before)
+            if (word !== lower && !sentenceStart) continue
+
+            if (dictionary.check(word, language) || dictionary.check(lower, language)) continue
+            drafts.push({
+                ruleId: 'spelling',
+                category: 'spelling',
+                message: `«${word}» no está en el diccionario`,
+                start: token.start,
+                end: token.end,
+                replacements: dictionary.suggest(word, language).slice(0, 3)
+            })
+        }
+        return drafts
+    }
+}
+
+// ============================================================================
+// CHECKING
+// ============================================================================
+
+const isIgnored = (ignored: Set<string>, ruleId: string) =>
+    ignored.has(ruleId) || ignored.has(ruleId.split(':')[0])
+
+/**
+ * Keep the first list's suggestions and add later ones that do not overlap
+ * anything kept, sorted by position
+ */
+export function mergeSuggestions(...lists: ProofreadingSuggestion[][]): ProofreadingSuggestion[] {
+    const kept: ProofreadingSuggestion[] = []
+    for (const suggestion of lists.flat()) {
+        if (kept.some(other => suggestion.start < other.end && other.start < suggestion.end)) continue
+        kept.push(suggestion)
+    }
+    return kept.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Run the offline rules over the text
+ */
+export function checkText(text: string, options: ProofreadingOptions = {}): ProofreadingSuggestion[] {
+    const ignored = new Set(options.ignoredRules ?? [])
+    const byCategory: Record<SuggestionCategory, ProofreadingSuggestion[]> = { spelling: [], grammar: [], style: [] }
+    const rules: Rule[] = [repeatedWord, agreement, passiveVoice]
+    if (options.styleGuide?.length) rules.push(styleGuideRule(options.styleGuide))
+    if (options.spelling) rules.push(spellingRule(options.spelling))
+
+    for (const paragraph of paragraphs(text)) {
+        const tokens = tokenize(paragraph.text, paragraph.start)
+        const language = options.language ?? detectTextLanguage(paragraph.text, 'es', options.languages)
+        for (const rule of rules) {
+            for (const draft of rule(text, tokens, language)) {
+                if (isIgnored(ignored, draft.ruleId)) continue
+                byCategory[draft.category].push({
+                    ...draft,
+                    id: suggestionId(text, draft.ruleId, draft.start, draft.end),
+                    source: 'rules',
+                    original: text.slice(draft.start, draft.end)
+                })
+            }
+        }
+    }
+
+    // A misspelling outranks a grammar issue on the same words, which outranks style
+    return mergeSuggestions(byCategory.spelling, byCategory.grammar, byCategory.style)
+}
+
+/**
+ * Find quoted LLM findings in the text. Repeated quotes take successive
+ * occurrences; quotes that are not in the text are dropped.
+ */
+export function locateSuggestions(
+    text: string,
+    findings: ProofreadingFinding[],
+    ignoredRules: string[] = []
+): ProofreadingSuggestion[] {
+    const ignored = new Set(ignoredRules)
+    const searchFrom = new Map<string, number>()
+    const located: ProofreadingSuggestion[] = []
+
+    for (const finding of findings) {
+        const original = finding.original
+        const ruleId = `llm:${finding.category}`
+        if (!original.trim() || isIgnored(ignored, ruleId)) continue
+        const start = text.indexOf(original, searchFrom.get(original) ?? 0)
+        if (start < 0) continue
+        const end = start + original.length
+        searchFrom.set(original, end)
+
+        const replacement = finding.replacement
+        located.push({
+            id: suggestionId(text, ruleId, start, end),
+            ruleId,
+            category: finding.category,
+            source: 'llm',
+            message: finding.message,
+            start,
+            end,
+            original,
+            replacements: replacement !== undefined && replacement !== original ? [replacement] : []
+        })
+    }
+    return mergeSuggestions(located)
+}
+
+/**
+ * Text with each suggestion's first replacement applied; suggestions without
+ * a replacement are left alone
+ */
+export function applySuggestions(text: string, suggestions: ProofreadingSuggestion[]): string {
+    let result = text
+    for (const suggestion of mergeSuggestions(suggestions).reverse()) {
+        const replacement = suggestion.replacements[0]
+        if (replacement === undefined) continue
+        result = result.slice(0, suggestion.start) + replacement + result.slice(suggestion.end)
+    }
+    return result
+}
@@ -0,0 +1,261 @@
+/**
+ * Charts embedded in a workbook and bound to sheet ranges
+ *
+ * A chart stores range references (categories and one range per series),
+ * never the numbers themselves, so it always shows the current cell values.
+ * Definitions live in the Univer snapshot as the SHEET_CHART_PLUGIN resource,
+ * keyed by chart id. The agent tools, the live chart layer in the sheet and
+ * the XLSX export all read them through these helpers.
+ */
+
+export const SHEET_CHART_RESOURCE = 'SHEET_CHART_PLUGIN'
+
+export const SHEET_CHART_TYPES = ['bar', 'line', 'area', 'pie', 'doughnut', 'scatter'] as const
+export type SheetChartType = (typeof SHEET_CHART_TYPES)[number]
+
+export interface SheetChartSeries {
+    /** Range with the values, e.g. "B2:B13" or "'Sales 2025'!B2:B13" */
+    values: string
+    /** Fixed series name */
+    name?: string
+    /** Cell holding the series name (usually the column header) */
+    nameRef?: string
+    /** CSS hex color */
+    color?: string
+}
+
+/** Top-left cell of the chart plus its size in pixels */
+export interface SheetChartAnchor {
+    row: number
+    column: number
+    rowOffset?: number
+    columnOffset?: number
+    width: number
+    height: number
+}
+
+export interface SheetChart {
+    id: string
+    /** Sheet the chart is placed on; unqualified references point here */
+    sheetId: string
+    type: SheetChartType
+    title?: string
+    /** Range with the X axis labels or pie slice names */
+    categories?: string
+    series: SheetChartSeries[]
+    xAxisTitle?: string
+    yAxisTitle?: string
+    showLegend?: boolean
+    stacked?: boolean
+    anchor: SheetChartAnchor
+}
+
+export interface RangeRef {
+    /** Sheet name when the reference is qualified */
+    sheetName?: string
+    startRow: number
+    endRow: number
+    startColumn: number
+    endColumn: number
+}
+
+export interface ResolvedChartSeries {
+    name: string
+    values: Array<number | null>
+    color?: string
+}
+
+export interface ResolvedChartData {
+    categories: string[]
+    series: ResolvedChartSeries[]
+}
+
+/** Reads a block of cell values; unqualified references use `sheetId` */
+export type RangeReader = (ref: RangeRef, sheetId: string) => unknown[][]
+
+interface ChartWorkbook {
+    sheets?: Record<string, { name?: string; cellData?: Record<number, Record<number, { v?: unknown } | undefined>> }>
+    resources?: Array<{ name: string; data: string }>
+}
+
+export const DEFAULT_CHART_WIDTH = 480
+export const DEFAULT_CHART_HEIGHT = 288
+
+function letterToColumn(letters: string): number {
+    let column = 0
+    for (const char of letters.toUpperCase()) {
+        column = column * 26 + (char.charCodeAt(0) - 64)
+    }
+    return column - 1
+}
+
+export function columnToLetter(column: number): string {
+    let letters = ''
+    let n = column + 1
+    while (n > 0) {
+        const rem = (n - 1) % 26
+        letters = String.fromCharCode(65 + rem) + letters
+        n = Math.floor((n - 1) / 26)
+    }
+    return letters
+}
+
+/**
+ * Parse "B2:B13", "$B$2", "Sheet1!A1:C4" or "'My sheet'!A:A"-style references
+ * (whole columns are not supported)
+ */
+export function parseRangeRef(ref: string): RangeRef {
+    const trimmed = ref.trim()
+    const bang = trimmed.lastIndexOf('!')
+    let sheetName: string | undefined
+    let address = trimmed
+    if (bang >= 0) {
+        sheetName = trimmed.slice(0, bang).replace(/^'(.*)'$/, '$1').replace(/''/g, "'")
+        address = trimmed.slice(bang + 1)
+    }
+
+    const match = address.replace(/\$/g, '').match(/^([A-Z]+)(\d+)(?::([A-Z]+)(\d+))?$/i)
+    if (!match) throw new Error(`Invalid range: ${ref}`)
+
+    const startColumn = letterToColumn(match[1])
+    const startRow = Number(match[2]) - 1
+    const endColumn = match[3] ? letterToColumn(match[3]) : startColumn
+    const endRow = match[4] ? Number(match[4]) - 1 : startRow
+    return {
+        sheetName,
+        startRow: Math.min(startRow, endRow),
+        endRow: Math.max(startRow, endRow),
+        startColumn: Math.min(startColumn, endColumn),
+        endColumn: Math.max(startColumn, endColumn)
+    }
+}
+
+/** Absolute, sheet-qualified reference as used in XLSX chart formulas */
+export function formatRangeRef(ref: RangeRef, sheetName: string): string {
+    const name = `'${(ref.sheetName ?? sheetName).replace(/'/g, "''")}'`
+    const start = `$${columnToLetter(ref.startColumn)}$${ref.startRow + 1}`
+    if (ref.startRow === ref.endRow && ref.startColumn === ref.endColumn) return `${name}!${start}`
+    return `${name}!${start}:$${columnToLetter(ref.endColumn)}$${ref.endRow + 1}`
+}
+
+export function readSheetCharts(workbook: ChartWorkbook): SheetChart[] {
+    const resource = workbook.resources?.find(r => r.name === SHEET_CHART_RESOURCE)
+    if (!resource?.data) return []
+    try {
+        const parsed = JSON.parse(resource.data) as Record<string, SheetChart>
+        return Object.values(parsed ?? {})
+    } catch {
+        return []
+    }
+}
+
+export function writeSheetCharts(workbook: ChartWorkbook, charts: SheetChart[]): void {
+    const data = JSON.stringify(Object.fromEntries(charts.map(chart => [chart.id, chart])))
+    if (!workbook.resources) workbook.resources = []
+    const existing = workbook.resources.find(r => r.name === SHEET_CHART_RESOURCE)
+    if (existing) existing.data = data
+    else workbook.resources.push({ name: SHEET_CHART_RESOURCE, data })
+}
+
+export function findSheetIdByName(workbook: ChartWorkbook, name: string): string | undefined {
+    return Object.keys(workbook.sheets ?? {}).find(
+        id => (workbook.sheets![id].name ?? id).toLowerCase() === name.toLowerCase()
+    )
+}
+
+/**
+ * Reader over a stored snapshot (agent tools, export). Formula cells use
+ * their last computed value.
+ */
+export function snapshotRangeReader(workbook: ChartWorkbook): RangeReader {
+    return (ref, sheetId) => {
+        const targetId = ref.sheetName ? findSheetIdByName(workbook, ref.sheetName) : sheetId
+        if (!targetId) throw new Error(`Sheet not found: ${ref.sheetName}`)
+        const cellData = workbook.sheets?.[targetId]?.cellData ?? {}
+        const rows: unknown[][] = []
+        for (let row = ref.startRow; row <= ref.endRow; row++) {
+            const values: unknown[] = []
+            for (let column = ref.startColumn; column <= ref.endColumn; column++) {
+                values.push(cellData[row]?.[column]?.v ?? null)
+            }
+            rows.push(values)
+        }
+        return rows
+    }
+}
+
+function toNumber(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null
+    if (typeof value === 'boolean') return value ? 1 : 0
+    if (typeof value === 'string' && value.trim() !== '') {
+        const n = Number(value.replace(/[,\s]/g, ''))
+        return Number.isFinite(n) ? n : null
+    }
+    return null
+}
+
+/**
+ * Read the current values of every range a chart is bound to
+ */
+export function resolveChartData(chart: SheetChart, read: RangeReader): ResolvedChartData {
+    const series = chart.series.map((s, index) => {
+        const values = read(parseRangeRef(s.values), chart.sheetId).flat().map(toNumber)
+        let name = s.name
+        if (!name && s.nameRef) {
+            const cell = read(parseRangeRef(s.nameRef), chart.sheetId)[0]?.[0]
+            if (cell !== null && cell !== undefined && cell !== '') name = String(cell)
+        }
+        return { name: name ?? `Series ${index + 1}`, values, color: s.color }
+    })
+
+    const length = Math.max(0, ...series.map(s => s.values.length))
+    const categories = chart.categories
+        ? read(parseRangeRef(chart.categories), chart.sheetId).flat().map(v => (v === null || v === undefined ? '' : String(v)))
+        : Array.from({ length }, (_, i) => String(i + 1))
+
+    return { categories, series }
+}
+
+/**
+ * Bind a chart to a table: the first column (or row) holds the categories and
+ * each other column (or row) is a series named after its header
+ */
+export function seriesFromTable(
+    range: string,
+    options: { seriesIn?: 'columns' | 'rows'; hasHeader?: boolean } = {}
+): Pick<SheetChart, 'categories' | 'series'> {
+    const ref = parseRangeRef(range)
+    const byColumns = (options.seriesIn ?? 'columns') === 'columns'
+    const hasHeader = options.hasHeader ?? true
+    const qualify = (r: RangeRef) => {
+        const start = `${columnToLetter(r.startColumn)}${r.startRow + 1}`
+        const single = r.startRow === r.endRow && r.startColumn === r.endColumn
+        const address = single ? start : `${start}:${columnToLetter(r.endColumn)}${r.endRow + 1}`
+        return ref.sheetName ? `'${ref.sheetName.replace(/'/g, "''")}'!${address}` : address
+    }
+    const cell = (row: number, column: number) => qualify({ startRow: row, endRow: row, startColumn: column, endColumn: column })
+
+    // Rows/columns in the table along the series direction
+    const first = byColumns ? ref.startRow : ref.startColumn
+    const dataStart = hasHeader ? first + 1 : first
+    const dataEnd = byColumns ? ref.endRow : ref.endColumn
+    const lanes = byColumns
+        ? { start: ref.startColumn, end: ref.endColumn }
+        : { start: ref.startRow, end: ref.endRow }
+    if (dataEnd < dataStart || lanes.end <= lanes.start) {
+        throw new Error(`Range ${range} needs a category ${byColumns ? 'column' : 'row'} and at least one series`)
+    }
+
+    const lane = (index: number): RangeRef => byColumns
+        ? { startRow: dataStart, endRow: dataEnd, startColumn: index, endColumn: index }
+        : { startRow: index, endRow: index, startColumn: dataStart, endColumn: dataEnd }
+
+    const series: SheetChartSeries[] = []
+    for (let index = lanes.start + 1; index <= lanes.end; index++) {
+        series.push({
+            values: qualify(lane(index)),
+            ...(hasHeader && { nameRef: byColumns ? cell(first, index) : cell(index, first) })
+        })
+    }
+    return { categories: qualify(lane(lanes.start)), series }
+}
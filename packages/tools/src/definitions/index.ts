@@ -8,6 +8,7 @@ export { DOCUMENT_TOOLS, type DocumentToolName } from './document'
 export { IMAGE_TOOLS, type ImageToolName } from './image'
 export { CHART_TOOLS, type ChartToolName } from './chart'
 export { UI_NAVIGATION_TOOLS, type UIToolName } from './ui'
+export { TEMPLATE_TOOLS, type TemplateToolName } from './template'
 export { PLAN_TOOLS, type PlanToolName } from './plan'
 
 // Re-import for aggregation
@@ -16,6 +17,7 @@ import { DOCUMENT_TOOLS } from './document'
 import { IMAGE_TOOLS } from './image'
 import { CHART_TOOLS } from './chart'
 import { UI_NAVIGATION_TOOLS } from './ui'
+import { TEMPLATE_TOOLS } from './template'
 
 /**
  * Combined tools object for API exposure
@@ -26,7 +28,8 @@ export const ALL_TOOLS = {
     ...DOCUMENT_TOOLS,
     ...IMAGE_TOOLS,
     ...CHART_TOOLS,
-    ...UI_NAVIGATION_TOOLS
+    ...UI_NAVIGATION_TOOLS,
+    ...TEMPLATE_TOOLS
 } as const
 
 export type ToolName = keyof typeof ALL_TOOLS
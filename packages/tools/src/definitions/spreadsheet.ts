@@ -8,6 +8,14 @@ import { z } from 'zod'
 // Cell value schema - reusable across multiple tools
 export const CellValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()])
 
+// Chart series bound to a range (insert_chart / update_chart)
+const ChartSeriesSchema = z.object({
+    values: z.string().describe('Range with the values, e.g. B2:B13'),
+    name: z.string().optional().describe('Series name'),
+    nameRef: z.string().optional().describe('Cell with the series name, e.g. B1'),
+    color: z.string().optional().describe('Hex color, e.g. #3b82f6')
+})
+
 export const SPREADSHEET_TOOLS = {
     create_spreadsheet: {
         description: 'Create a new spreadsheet with column headers and optional initial data.',
@@ -382,6 +390,89 @@ export const SPREADSHEET_TOOLS = {
             name: z.string().describe('Name for the range (e.g., "SalesData", "TotalRow")'),
             range: z.string().describe('Cell range to name (e.g., A1:D100)')
         })
+    },
+    create_pivot_table: {
+        description: 'Create a pivot table that groups a source range by row/column fields and aggregates value fields. The first row of the source range must contain headers. The pivot is written as a block of cells into a new or existing sheet and remembers its source range so it can be refreshed later with refresh_pivot_table.',
+        inputSchema: z.object({
+            artifactId: z.string().describe('ID of the spreadsheet artifact'),
+            sourceRange: z.string().describe('Source data range including the header row (e.g., A1:E200)'),
+            sourceSheet: z.string().optional().describe('Name of the sheet with the source data. Defaults to the first sheet.'),
+            rows: z.array(z.string()).describe('Fields to group rows by (header names or column letters, e.g., ["Region", "Product"])'),
+            columns: z.array(z.string()).optional().describe('Fields to spread across columns (e.g., ["Quarter"])'),
+            values: z.array(z.object({
+                field: z.string().describe('Field to aggregate (header name or column letter)'),
+                aggregation: z.enum(['sum', 'count', 'average', 'min', 'max', 'countDistinct']).describe('Aggregation to apply'),
+                label: z.string().optional().describe('Optional column label (default: "Sum of <field>")')
+            })).min(1).describe('Value fields to aggregate'),
+            filters: z.array(z.object({
+                field: z.string().describe('Field to filter on (header name or column letter)'),
+                values: z.array(CellValueSchema).optional().describe('Keep only rows whose value is in this list'),
+                condition: z.string().optional().describe('Keep rows matching a criterion like SUMIF: ">100", "North*", "<>Closed"')
+            })).optional().describe('Filters applied to source rows before grouping'),
+            targetSheet: z.string().optional().describe('Sheet to write the pivot into. Created if it does not exist. Defaults to a new "Pivot" sheet.'),
+            targetCell: z.string().optional().default('A1').describe('Top-left cell for the pivot table'),
+            name: z.string().optional().describe('Name for the pivot table'),
+            showGrandTotals: z.boolean().optional().default(true).describe('Add grand total row and column')
+        })
+    },
+    refresh_pivot_table: {
+        description: 'Recompute pivot tables from their stored source ranges after the data changed. Refreshes all pivot tables when pivotId is omitted.',
+        inputSchema: z.object({
+            artifactId: z.string().describe('ID of the spreadsheet artifact'),
+            pivotId: z.string().optional().describe('ID of the pivot table to refresh (returned by create_pivot_table)')
+        })
+    },
+    compare_workbooks: {
+        description: 'Compare two different spreadsheets (e.g. last month\'s export vs this month\'s). Sheets are matched by name and rows by the value of a key column, not by position, so reordered rows are not reported. Reports added, removed and changed rows with the old and new values. Optionally writes the differences as a new highlighted sheet (green = added, pink = removed, yellow = changed) into the newer spreadsheet.',
+        inputSchema: z.object({
+            artifactId: z.string().describe('ID of the newer spreadsheet artifact (e.g. this month)'),
+            otherArtifactId: z.string().describe('ID of the older spreadsheet artifact to compare against (e.g. last month)'),
+            keyColumn: z.string().describe('Column that identifies a row in both spreadsheets: header name (e.g. "Invoice ID") or column letter'),
+            sheets: z.array(z.string()).optional().describe('Names of the sheets to compare. Defaults to every sheet present in both.'),
+            headerRow: z.number().int().min(0).optional().default(1).describe('Row number of the headers (1-based); 0 if the sheets have no header row'),
+            writeResultSheet: z.boolean().optional().default(false).describe('Add a highlighted sheet with the differences to the newer spreadsheet'),
+            resultSheetName: z.string().optional().describe('Name for the result sheet (default "Comparison")')
+        })
+    },
+    insert_chart: {
+        description: 'Insert a chart into the spreadsheet that is bound to cell ranges, so it updates whenever the cells change and is exported to XLSX as a native Excel chart. Prefer this over generate_chart when the data is already in a spreadsheet. Give either dataRange (a table whose first column holds the categories and whose other columns are series named by their header) or categories and series ranges. References without a sheet name (e.g. B2:B13) point to the sheet the chart is placed on; use \'Sheet name\'!B2:B13 for data on other sheets.',
+        inputSchema: z.object({
+            artifactId: z.string().describe('ID of the spreadsheet artifact'),
+            type: z.enum(['bar', 'line', 'area', 'pie', 'doughnut', 'scatter']).describe('Chart type'),
+            title: z.string().optional().describe('Chart title'),
+            dataRange: z.string().optional().describe('Table including the header row, e.g. A1:C13 (first column = categories, other columns = series)'),
+            seriesIn: z.enum(['columns', 'rows']).optional().describe('Whether series run down columns (default) or across rows of dataRange'),
+            categories: z.string().optional().describe('Range with the X axis labels or pie slice names, e.g. A2:A13'),
+            series: z.array(ChartSeriesSchema).optional().describe('Series bound to ranges (used instead of dataRange)'),
+            sheet: z.string().optional().describe('Sheet to place the chart on. Defaults to the sheet of a qualified dataRange, else the first sheet.'),
+            position: z.string().optional().describe('Cell for the top-left corner of the chart, e.g. "F2". Defaults to the right of the data.'),
+            width: z.number().optional().describe('Width in pixels (default 480)'),
+            height: z.number().optional().describe('Height in pixels (default 288)'),
+            xAxisTitle: z.string().optional().describe('Title for the X axis'),
+            yAxisTitle: z.string().optional().describe('Title for the Y axis'),
+            showLegend: z.boolean().optional().describe('Show the legend. Default: true'),
+            stacked: z.boolean().optional().describe('Stack bars/areas. Default: false')
+        })
+    },
+    update_chart: {
+        description: 'Change a chart inserted with insert_chart: type, title, bound ranges (dataRange, categories or series), axis titles, legend, stacking, position or size. Only the fields given are changed; series replaces the whole series list. Chart IDs are listed by get_spreadsheet_summary.',
+        inputSchema: z.object({
+            artifactId: z.string().describe('ID of the spreadsheet artifact'),
+            chartId: z.string().describe('ID of the chart (returned by insert_chart)'),
+            type: z.enum(['bar', 'line', 'area', 'pie', 'doughnut', 'scatter']).optional().describe('New chart type'),
+            title: z.string().optional().describe('New title'),
+            dataRange: z.string().optional().describe('Rebind the chart to a table including the header row'),
+            seriesIn: z.enum(['columns', 'rows']).optional().describe('Whether series run down columns (default) or across rows of dataRange'),
+            categories: z.string().optional().describe('New categories range'),
+            series: z.array(ChartSeriesSchema).optional().describe('New series list (replaces the current series)'),
+            position: z.string().optional().describe('New top-left cell, e.g. "F2"'),
+            width: z.number().optional().describe('New width in pixels'),
+            height: z.number().optional().describe('New height in pixels'),
+            xAxisTitle: z.string().optional().describe('New X axis title (empty string removes it)'),
+            yAxisTitle: z.string().optional().describe('New Y axis title (empty string removes it)'),
+            showLegend: z.boolean().optional().describe('Show or hide the legend'),
+            stacked: z.boolean().optional().describe('Stack bars/areas')
+        })
     }
 } as const
 
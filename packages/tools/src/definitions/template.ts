@@ -0,0 +1,19 @@
+/**
+ * Template Tool Definitions
+ * Schema definitions for the saved template library
+ */
+
+import { z } from 'zod'
+
+export const TEMPLATE_TOOLS = {
+    instantiate_template: {
+        description: 'Create a new spreadsheet or document from a saved template, filling its {{placeholders}} with values taken from the conversation (department, period, amounts...). date, year, month and month_name are filled automatically. Call it without "template" to list the available templates and their placeholders. The result reports placeholders that were left unfilled.',
+        inputSchema: z.object({
+            template: z.string().optional().describe('Template name or ID. Omit to list the available templates.'),
+            name: z.string().optional().describe('Name for the new spreadsheet or document. Defaults to the template name.'),
+            values: z.string().optional().describe('JSON object mapping placeholder names to values, e.g. {"department": "Ventas", "budget": 12000}')
+        })
+    }
+} as const
+
+export type TemplateToolName = keyof typeof TEMPLATE_TOOLS
@@ -42,6 +42,7 @@ export {
     IMAGE_TOOLS,
     CHART_TOOLS,
     UI_NAVIGATION_TOOLS,
+    TEMPLATE_TOOLS,
     PLAN_TOOLS,
     CellValueSchema,
     type ToolName,
@@ -50,6 +51,7 @@ export {
     type ImageToolName,
     type ChartToolName,
     type UIToolName,
+    type TemplateToolName,
     type PlanToolName
 } from './definitions'
 
@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import {
+  parseRouterClassifierResponse,
+  routeAgent,
+  routeAgentWithClassifier,
+} from "../../packages/core/src/config/agent-router";
+
+describe("agent router", () => {
+  test("spreadsheet requests beat a loaded PDF", () => {
+    const decision = routeAgent("summarize the totals column", {
+      hasPDF: true,
+      artifactType: "spreadsheet",
+    });
+    expect(decision.agent).toBe("excel");
+    expect(decision.source).toBe("scoring");
+    expect(decision.confidence).toBeGreaterThan(0.5);
+    expect(decision.reason).toContain("ExcelAgent");
+  });
+
+  test("questions about the loaded PDF still go to the PDF agent", () => {
+    const decision = routeAgent("¿qué dice la página 3?", { hasPDF: true });
+    expect(decision.agent).toBe("pdf");
+  });
+
+  test("selection and handoff history break ties", () => {
+    const decision = routeAgent("make this bold", {
+      selection: { kind: "cells", range: "A1:C1" },
+      recentAgents: ["excel"],
+    });
+    expect(decision.agent).toBe("excel");
+    expect(decision.reason).toContain("A1:C1");
+  });
+
+  test("falls back to legacy heuristics without signals", () => {
+    const decision = routeAgent("hola, gracias por la ayuda");
+    expect(decision.source).toBe("heuristic");
+  });
+
+  test("classifier decides ambiguous messages and is skipped when confident", async () => {
+    let calls = 0;
+    const classifier = async () => {
+      calls++;
+      return { agent: "docs" as const, confidence: 0.9, reason: "rewrite" };
+    };
+
+    const ambiguous = await routeAgentWithClassifier("improve this", {}, {
+      classifier,
+    });
+    expect(ambiguous.agent).toBe("docs");
+    expect(ambiguous.source).toBe("classifier");
+
+    await routeAgentWithClassifier(
+      "crea una hoja de cálculo con las ventas",
+      { artifactType: "spreadsheet" },
+      { classifier },
+    );
+    expect(calls).toBe(1);
+  });
+
+  test("parses classifier replies defensively", () => {
+    expect(
+      parseRouterClassifierResponse(
+        '```json\n{"agent": "PDF", "confidence": 1.4, "reason": "cites"}\n```',
+      ),
+    ).toEqual({ agent: "pdf", confidence: 1, reason: "cites" });
+    expect(parseRouterClassifierResponse('{"agent": "robot"}')).toBeNull();
+    expect(parseRouterClassifierResponse('{"agent": "constructor"}')).toBeNull();
+    expect(parseRouterClassifierResponse("no json")).toBeNull();
+  });
+});
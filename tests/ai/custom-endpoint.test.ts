@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  getModelById,
+  resolveModelForProvider,
+  resolveModelIdForApi,
+  setCustomModels,
+} from "../../packages/core/src/types/ai";
+import {
+  inferModelCapabilities,
+  mergeDiscoveredModels,
+  parseModelList,
+  toCustomModelDefinition,
+} from "../../apps/electron/main/lib/ai/custom-endpoint";
+
+describe("custom endpoint discovery", () => {
+  test("parses /models and drops non-chat models", () => {
+    const ids = parseModelList({
+      object: "list",
+      data: [
+        { id: "llama3.1:8b" },
+        { id: "nomic-embed-text:latest" },
+        { id: "deepseek-r1:14b" },
+        { id: "llama3.1:8b" },
+      ],
+    });
+    expect(ids).toEqual(["deepseek-r1:14b", "llama3.1:8b"]);
+    expect(() => parseModelList({ models: [] })).toThrow();
+  });
+
+  test("infers capabilities and keeps user overrides on refresh", () => {
+    expect(inferModelCapabilities("llava:13b")).toEqual({
+      supportsTools: false,
+      supportsImages: true,
+      supportsReasoning: false,
+    });
+    expect(inferModelCapabilities("deepseek-r1:14b").supportsReasoning).toBe(true);
+
+    const overridden = {
+      id: "llama3.1:8b",
+      supportsTools: false,
+      supportsImages: false,
+      supportsReasoning: false,
+      userOverride: true,
+    };
+    const merged = mergeDiscoveredModels([overridden], [
+      { id: "llama3.1:8b", ...inferModelCapabilities("llama3.1:8b") },
+      { id: "qwen3:8b", ...inferModelCapabilities("qwen3:8b") },
+    ]);
+    expect(merged[0]).toEqual(overridden);
+    expect(merged[1].supportsTools).toBe(true);
+  });
+});
+
+describe("custom endpoint models in the catalog", () => {
+  afterEach(() => setCustomModels([]));
+
+  test("registered models resolve with their API id", () => {
+    setCustomModels([
+      toCustomModelDefinition({
+        id: "gpt-oss:20b",
+        supportsTools: true,
+        supportsImages: false,
+        supportsReasoning: true,
+      }),
+    ]);
+
+    expect(getModelById("custom:gpt-oss:20b")?.provider).toBe("custom");
+    expect(resolveModelIdForApi("custom:gpt-oss:20b")).toBe("gpt-oss:20b");
+    expect(resolveModelForProvider("custom", "missing").id).toBe("custom:gpt-oss:20b");
+  });
+});
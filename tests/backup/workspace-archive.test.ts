@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import {
+  WORKSPACE_SNAPSHOT_VERSION,
+  packWorkspaceArchive,
+  summarizeWorkspaceSnapshot,
+  unpackWorkspaceArchive,
+  validateWorkspaceSnapshot,
+} from "../../apps/electron/main/lib/backup/workspace-archive";
+import type { WorkspaceSnapshot } from "../../apps/electron/main/lib/backup/workspace-archive";
+
+const snapshot: WorkspaceSnapshot = {
+  version: WORKSPACE_SNAPSHOT_VERSION,
+  userId: "user-1",
+  createdAt: "2026-03-05T10:00:00.000Z",
+  tables: {
+    chats: [{ id: "c1", user_id: "user-1", title: "Presupuesto" }],
+    chat_messages: [
+      { id: "m1", chat_id: "c1", content: "hola" },
+      { id: "m2", chat_id: "c1", content: "adiós" },
+    ],
+    artifacts: [],
+    user_files: [{ id: "f1", name: "Ventas.xlsx", univer_data: { sheets: {} } }],
+    notes_spaces: [],
+    notes_pages: [{ id: "p1", space_id: "s1", title: "Ideas" }],
+  },
+};
+
+describe("workspace archive", () => {
+  test("round-trips a snapshot through a zip", async () => {
+    const archive = await packWorkspaceArchive(snapshot);
+    const restored = await unpackWorkspaceArchive(archive);
+
+    expect(restored).toEqual(snapshot);
+    expect(summarizeWorkspaceSnapshot(restored)).toEqual({
+      chats: 1,
+      chat_messages: 2,
+      artifacts: 0,
+      user_files: 1,
+      notes_spaces: 0,
+      notes_pages: 1,
+    });
+  });
+
+  test("validates version and rows, treating missing tables as empty", () => {
+    expect(() =>
+      validateWorkspaceSnapshot({ ...snapshot, version: WORKSPACE_SNAPSHOT_VERSION + 1 }),
+    ).toThrow();
+    expect(() =>
+      validateWorkspaceSnapshot({ ...snapshot, tables: { chats: ["c1"] } }),
+    ).toThrow();
+
+    const partial = validateWorkspaceSnapshot({ ...snapshot, tables: { chats: [] } });
+    expect(partial.tables.notes_pages).toEqual([]);
+  });
+
+  test("rejects zips that are not workspace archives", async () => {
+    const JSZip = (await import("jszip")).default;
+    const zip = new JSZip();
+    zip.file("readme.txt", "hola");
+    const buffer = await zip.generateAsync({ type: "nodebuffer" });
+
+    await expect(unpackWorkspaceArchive(buffer)).rejects.toThrow();
+  });
+});
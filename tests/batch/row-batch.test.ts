@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import OpenAI from "openai";
+import {
+  applyRowResults,
+  buildRowRequests,
+  collectRowInputs,
+  downloadRowBatchResults,
+  estimateRowTokens,
+  runFlexRows,
+  submitRowBatch,
+} from "../../apps/electron/main/lib/ai/row-batch";
+import { startMockBatchServer, type MockBatchServer } from "../utils/mock-batch-server";
+
+function tickets() {
+  return {
+    sheetOrder: ["s1"],
+    sheets: {
+      s1: {
+        id: "s1",
+        name: "Tickets",
+        rowCount: 100,
+        columnCount: 3,
+        cellData: {
+          0: { 0: { v: "ID" }, 1: { v: "Ticket" }, 2: { v: "Category", s: "bold" } },
+          1: { 0: { v: 1 }, 1: { v: "I was charged twice" }, 2: { s: "yellow" } },
+          2: { 0: { v: 2 }, 1: { v: "App crashes on login" } },
+          3: { 0: { v: 3 }, 1: { v: "" } },
+          4: { 0: { v: 4 }, 1: { v: "Refund please" }, 2: { v: "billing" } },
+        },
+      },
+    },
+  };
+}
+
+const classify = (text: string) => (/charged|refund/i.test(text) ? "billing" : "bug");
+
+let server: MockBatchServer | null = null;
+
+afterEach(() => {
+  server?.stop();
+  server = null;
+});
+
+describe("row batch", () => {
+  test("collects non-empty rows and builds one request per row", () => {
+    const selection = collectRowInputs(tickets(), {
+      sourceColumn: "Ticket",
+      targetColumn: "C",
+      skipFilled: true,
+    });
+
+    expect(selection).toMatchObject({ sheetId: "s1", sourceCol: 1, targetCol: 2 });
+    expect(selection.rows.map((r) => r.row)).toEqual([1, 2]);
+
+    const options = { model: "gpt-5-nano" as const, prompt: "Classify the ticket" };
+    const requests = buildRowRequests(selection.rows, options);
+    expect(requests.map((r) => r.custom_id)).toEqual(["row-1", "row-2"]);
+    expect(requests[0].body.messages[1]).toEqual({ role: "user", content: "I was charged twice" });
+
+    const tokens = estimateRowTokens(selection.rows, options);
+    expect(tokens.requests).toBe(2);
+    expect(tokens.inputTokens).toBeGreaterThan(0);
+    expect(() => collectRowInputs(tickets(), { sourceColumn: "Nope", targetColumn: "C" })).toThrow();
+  });
+
+  test("submits a batch, downloads the results and writes them back", async () => {
+    server = startMockBatchServer((request) => {
+      const text = request.body.messages[1].content as string;
+      return text.includes("crashes") ? { error: "rate limited" } : { content: ` ${classify(text)} ` };
+    });
+    const client = new OpenAI({ apiKey: "test", baseURL: server.baseURL });
+
+    const selection = collectRowInputs(tickets(), { sourceColumn: "B", targetColumn: "Category" });
+    const requests = buildRowRequests(selection.rows, { model: "gpt-5-mini", prompt: "Classify" });
+    const submitted = await submitRowBatch(client, requests, { type: "spreadsheet_rows" });
+    expect(submitted.status).toBe("in_progress");
+
+    server.complete(submitted.id);
+    const batch = await client.batches.retrieve(submitted.id);
+    expect(batch.status).toBe("completed");
+
+    const results = await downloadRowBatchResults(client, batch);
+    expect(results).toContainEqual({ row: 1, value: "billing" });
+    expect(results).toContainEqual({ row: 2, error: "rate limited" });
+
+    const applied = applyRowResults(tickets(), selection.sheetId, selection.targetCol, results);
+    const cells = applied.snapshot.sheets.s1.cellData;
+    expect(applied).toMatchObject({ written: 2, failed: 1 });
+    expect(cells[1][2]).toEqual({ v: "billing", s: "yellow" });
+    expect(cells[2][2]).toBeUndefined();
+    expect(cells[4][2]).toEqual({ v: "billing" });
+  });
+
+  test("flex runs call chat completions on the flex tier", async () => {
+    server = startMockBatchServer((request) => ({ content: classify(request.body.messages[1].content) }));
+    const client = new OpenAI({ apiKey: "test", baseURL: server.baseURL });
+
+    const selection = collectRowInputs(tickets(), { sourceColumn: "Ticket", targetColumn: "Category" });
+    const requests = buildRowRequests(selection.rows, { model: "gpt-5-nano", prompt: "Classify" });
+    const results = await runFlexRows(client, requests, { concurrency: 2 });
+
+    expect(results).toEqual([
+      { row: 1, value: "billing" },
+      { row: 2, value: "bug" },
+      { row: 4, value: "billing" },
+    ]);
+    expect(server.completions.every((body) => body.service_tier === "flex")).toBe(true);
+  });
+
+  test("flex refuses models the flex tier does not serve", async () => {
+    server = startMockBatchServer((request) => ({ content: classify(request.body.messages[1].content) }));
+    const client = new OpenAI({ apiKey: "test", baseURL: server.baseURL });
+
+    const selection = collectRowInputs(tickets(), { sourceColumn: "Ticket", targetColumn: "Category" });
+    const requests = buildRowRequests(selection.rows, { model: "gpt-4o-mini", prompt: "Classify" });
+
+    await expect(runFlexRows(client, requests)).rejects.toThrow("not available on the flex tier");
+    expect(server.completions).toHaveLength(0);
+  });
+
+  test("marks rows that fell back to the standard tier", async () => {
+    server = startMockBatchServer((request) =>
+      request.body.service_tier === "flex" && request.body.messages[1].content.includes("crashes")
+        ? { error: "Resource unavailable", status: 429 }
+        : { content: classify(request.body.messages[1].content) },
+    );
+    const client = new OpenAI({ apiKey: "test", baseURL: server.baseURL, maxRetries: 0 });
+
+    const selection = collectRowInputs(tickets(), { sourceColumn: "Ticket", targetColumn: "Category" });
+    const requests = buildRowRequests(selection.rows, { model: "gpt-5-mini", prompt: "Classify" });
+    const results = await runFlexRows(client, requests);
+
+    expect(results).toEqual([
+      { row: 1, value: "billing" },
+      { row: 2, value: "bug", standardTier: true },
+      { row: 4, value: "billing" },
+    ]);
+  });
+});
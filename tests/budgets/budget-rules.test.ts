@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import {
+  burnDown,
+  checkBudgets,
+  describeBlock,
+  summarizeSpend,
+  type SpendingBudget,
+  type UsageRecord,
+} from "../../apps/electron/main/lib/budgets/budget-rules";
+
+const now = new Date(2026, 1, 10, 12);
+
+function record(chatId: string, day: Date, outputTokens: number): UsageRecord {
+  // gpt-5-mini output is $0.6 / 1M tokens
+  return { chatId, modelId: "gpt-5-mini", createdAt: day.toISOString(), inputTokens: 0, outputTokens };
+}
+
+function budget(overrides: Partial<SpendingBudget>): SpendingBudget {
+  return {
+    id: "b1",
+    name: "Monthly",
+    scope: "monthly",
+    targetId: null,
+    limitUsd: 1,
+    warnRatio: 0.8,
+    hardStop: true,
+    ...overrides,
+  };
+}
+
+describe("budget rules", () => {
+  test("summarizes monthly, per-chat and daily spend", () => {
+    const spend = summarizeSpend(
+      [
+        record("a", new Date(2026, 1, 2, 9), 1_000_000),
+        record("a", new Date(2026, 1, 2, 15), 500_000),
+        record("b", new Date(2026, 1, 5), 1_000_000),
+        record("a", new Date(2026, 0, 20), 1_000_000),
+        { chatId: "b", modelId: "unknown-model", createdAt: now.toISOString(), inputTokens: 9, outputTokens: 9 },
+      ],
+      { acc: 0.25 },
+      now,
+    );
+
+    expect(spend.month).toBeCloseTo(1.5);
+    expect(spend.chats.a).toBeCloseTo(1.5);
+    expect(spend.daily["2026-02-02"]).toBeCloseTo(0.9);
+    expect(spend.daily["2026-01-20"]).toBeUndefined();
+    expect(spend.chatDaily.a["2026-01-20"]).toBeCloseTo(0.6);
+    expect(spend.accounts).toEqual({ acc: 0.25 });
+  });
+
+  test("counts the billed cost of row batch jobs as is", () => {
+    const spend = summarizeSpend(
+      [{ chatId: "job", modelId: "gpt-5-mini", createdAt: now.toISOString(), inputTokens: 0, outputTokens: 0, costUsd: 0.4 }],
+      {},
+      now,
+    );
+
+    expect(spend.month).toBeCloseTo(0.4);
+    expect(spend.chats.job).toBeCloseTo(0.4);
+  });
+
+  test("warns near the limit and blocks hard stops going over", () => {
+    const spend = summarizeSpend([record("a", now, 1_000_000)], { acc: 0.9 }, now);
+    const budgets = [
+      budget({ limitUsd: 0.7 }),
+      budget({ id: "b2", name: "Chat A", scope: "chat", targetId: "a", limitUsd: 0.5, hardStop: false }),
+      budget({ id: "b3", name: "Account", scope: "account", targetId: "acc", limitUsd: 10 }),
+      budget({ id: "b4", name: "Chat B", scope: "chat", targetId: "b", limitUsd: 0.01 }),
+    ];
+
+    const decision = checkBudgets(budgets, spend, { chatId: "a", accountId: "acc", estimatedCost: 0.05 });
+    expect(decision.allowed).toBe(true);
+    expect(decision.warnings.map((c) => c.budget.id)).toEqual(["b1", "b2"]);
+
+    const blocked = checkBudgets(budgets, spend, { chatId: "a", accountId: "acc", estimatedCost: 0.2 });
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.blocking.map((c) => c.budget.id)).toEqual(["b1"]);
+    expect(describeBlock(blocked)).toContain('"Monthly" ($0.60 of $0.70 spent');
+
+    // Subscription and unpriced models cost nothing and are never blocked
+    const free = checkBudgets([budget({ limitUsd: 0.1 })], spend, { chatId: "a", estimatedCost: 0 });
+    expect(free.allowed).toBe(true);
+    expect(free.warnings).toHaveLength(1);
+  });
+
+  test("burn-down accumulates daily spend against an even pace", () => {
+    const points = burnDown(28, { "2026-02-01": 1, "2026-02-03": 2 }, now, 0.5);
+
+    expect(points).toHaveLength(10);
+    expect(points[0]).toEqual({ date: "2026-02-01", spent: 1.5, ideal: 1, remaining: 26.5 });
+    expect(points[2].spent).toBe(3.5);
+    expect(points[9]).toMatchObject({ spent: 3.5, ideal: 10 });
+  });
+});
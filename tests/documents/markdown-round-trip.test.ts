@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import {
+  looksLikeMarkdown,
+  markdownToBlocks,
+  markdownToUniverBody,
+  univerDocToMarkdown,
+} from "../../packages/core/src/utils/document-markup";
+
+const FIXTURES = resolve(import.meta.dir, "fixtures/markdown");
+
+const fixture = (name: string) =>
+  readFileSync(resolve(FIXTURES, name), "utf8");
+
+const roundTrip = (markdown: string) =>
+  univerDocToMarkdown({ body: markdownToUniverBody(markdown) });
+
+describe("markdown round trip", () => {
+  // Written the way the converter writes Markdown, so nothing may change
+  for (const name of ["contract.md", "escapes.md"]) {
+    test(`${name} survives Markdown → Univer → Markdown unchanged`, () => {
+      const markdown = fixture(name);
+      expect(roundTrip(markdown)).toBe(markdown);
+    });
+  }
+
+  test("loose GitHub-flavored input normalizes once, then is stable", () => {
+    const once = roundTrip(fixture("gfm-input.md"));
+    // Run with UPDATE_GOLDEN=1 to rewrite after an intended output change
+    const expectedPath = resolve(FIXTURES, "gfm-input.expected.md");
+    if (process.env.UPDATE_GOLDEN) writeFileSync(expectedPath, once);
+
+    expect(once).toBe(readFileSync(expectedPath, "utf8"));
+    expect(roundTrip(once)).toBe(once);
+  });
+
+  test("writes native Univer headings, bullets, links and code", () => {
+    const body = markdownToUniverBody(
+      "## Plan\n\n1. Ship [docs](https://example.com)\n   - Review\n\n```sh\nmake\n\nmake test\n```",
+    );
+
+    expect(body.dataStream).toBe(
+      "Plan\rShip docs\rReview\r[sh]\rmake\r\rmake test\r\n",
+    );
+    expect(body.paragraphs.map((p) => p.startIndex)).toEqual([
+      4, 14, 21, 26, 31, 32, 42,
+    ]);
+    expect(body.paragraphs[0].paragraphStyle).toEqual({ namedStyleType: 5 });
+    expect(body.paragraphs[1].bullet).toMatchObject({
+      listType: "ORDER_LIST",
+      nestingLevel: 0,
+    });
+    expect(body.paragraphs[2].bullet).toMatchObject({
+      listType: "BULLET_LIST",
+      nestingLevel: 1,
+    });
+    expect(body.customRanges).toEqual([
+      expect.objectContaining({
+        rangeType: 0,
+        startIndex: 10,
+        endIndex: 13,
+        properties: { url: "https://example.com" },
+      }),
+    ]);
+    expect(body.paragraphs[5].paragraphStyle).toHaveProperty("shading");
+    expect(body.sectionBreaks).toEqual([{ startIndex: 43 }]);
+  });
+
+  test("pasted bodies end after their last paragraph", () => {
+    const body = markdownToUniverBody("**Hello**", { sectionBreak: false });
+
+    expect(body.dataStream).toBe("Hello\r");
+    expect(body.textRuns).toEqual([{ st: 0, ed: 5, ts: { bl: 1 } }]);
+    expect(body.sectionBreaks).toBeUndefined();
+  });
+
+  test("parses nested emphasis and code spans", () => {
+    expect(markdownToBlocks("***both*** and *a **b** c* `x*y`")).toEqual([
+      {
+        type: "paragraph",
+        content: [
+          { text: "both", bold: true, italic: true },
+          { text: " and " },
+          { text: "a ", italic: true },
+          { text: "b", italic: true, bold: true },
+          { text: " c", italic: true },
+          { text: " " },
+          { text: "x*y", code: true },
+        ],
+      },
+    ]);
+  });
+
+  test("recognizes pasted Markdown but not prose or plain lists", () => {
+    expect(looksLikeMarkdown("# Title\n\nBody")).toBe(true);
+    expect(looksLikeMarkdown("See [docs](https://example.com)")).toBe(true);
+    expect(looksLikeMarkdown("| a | b |\n| --- | --- |\n| 1 | 2 |")).toBe(true);
+    expect(looksLikeMarkdown("Dear team,\nthanks for the update.")).toBe(false);
+    expect(looksLikeMarkdown("- milk\n- eggs")).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import { afterAll, describe, expect, mock, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PDF } from "@libpdf/core";
+
+// Stubbed recognizer: tesseract returns fixed lines and image decoding
+// reports a fixed size, so no WASM or native code runs
+const IMAGE = { width: 1000, height: 500 };
+const userData = mkdtempSync(join(tmpdir(), "ocr-test-"));
+
+mock.module("electron", () => ({ app: { getPath: () => userData } }));
+mock.module("sharp", () => ({
+  default: () => ({
+    metadata: async () => IMAGE,
+    png: () => ({ toBuffer: async () => Buffer.from("png") }),
+  }),
+}));
+mock.module("tesseract.js", () => ({
+  OEM: { LSTM_ONLY: 1 },
+  createWorker: async () => ({
+    recognize: async () => ({
+      data: {
+        confidence: 81.25,
+        blocks: [
+          {
+            paragraphs: [
+              {
+                lines: [
+                  { text: "Factura  42\n", confidence: 90, bbox: { x0: 100, y0: 50, x1: 600, y1: 100 } },
+                  { text: "   ", confidence: 0, bbox: { x0: 0, y0: 0, x1: 1, y1: 1 } },
+                  { text: "Total 1.250 €", confidence: 72, bbox: { x0: 100, y0: 400, x1: 500, y1: 450 } },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    }),
+    terminate: async () => {},
+  }),
+}));
+
+const { ocrLinesToPositions, terminateOcr } = await import(
+  "../../apps/electron/main/lib/documents/ocr"
+);
+const { processDocument } = await import(
+  "../../apps/electron/main/lib/documents/document-processor"
+);
+
+// 1x1 white PNG: the scan on a page without a text layer
+const PIXEL_PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==",
+  "base64",
+);
+
+async function scannedPdf(): Promise<Buffer> {
+  const pdf = PDF.create();
+  const page = pdf.addPage({ width: 500, height: 250 });
+  const image = await pdf.embedPng(PIXEL_PNG);
+  page.drawImage(image, { x: 0, y: 0, width: 500, height: 250 });
+  return Buffer.from(await pdf.save());
+}
+
+afterAll(async () => {
+  await terminateOcr();
+  rmSync(userData, { recursive: true, force: true });
+});
+
+describe("ocrLinesToPositions", () => {
+  test("scales pixel boxes to PDF points with a bottom-left origin", () => {
+    const lines = ocrLinesToPositions(
+      [
+        { text: "Factura  42\n", confidence: 90, bbox: { x0: 100, y0: 50, x1: 600, y1: 100 } },
+        { text: " ", confidence: 0, bbox: { x0: 0, y0: 0, x1: 1, y1: 1 } },
+        { text: "Total", confidence: 72, bbox: { x0: 100, y0: 400, x1: 500, y1: 450 } },
+      ],
+      { pageNumber: 3, imageWidth: 1000, imageHeight: 500, pageWidth: 500, pageHeight: 250 },
+    );
+
+    expect(lines).toEqual([
+      {
+        text: "Factura 42",
+        pageNumber: 3,
+        pageIndex: 2,
+        boundingBox: { x: 50, y: 200, width: 250, height: 25 },
+        lineIndex: 0,
+      },
+      {
+        text: "Total",
+        pageNumber: 3,
+        pageIndex: 2,
+        boundingBox: { x: 50, y: 25, width: 200, height: 25 },
+        lineIndex: 1,
+      },
+    ]);
+  });
+});
+
+describe("processDocument OCR", () => {
+  test("writes the per-page confidence of an image to the metadata", async () => {
+    const result = await processDocument(Buffer.from("image"), "receipt.png", "image/png");
+
+    expect(result.success).toBe(true);
+    expect(result.content).toBe("Factura 42\nTotal 1.250 €");
+    expect(result.metadata.ocr).toEqual({
+      engine: "tesseract",
+      pages: [{ pageNumber: 1, confidence: 81.3 }],
+      averageConfidence: 81.3,
+    });
+  });
+
+  test("falls back to OCR for a PDF page with an empty text layer", async () => {
+    const result = await processDocument(await scannedPdf(), "scan.pdf", "application/pdf");
+
+    expect(result.success).toBe(true);
+    expect(result.content).toBe("[Page 1]\nFactura 42\nTotal 1.250 €");
+    expect(result.metadata.pageCount).toBe(1);
+    expect(result.metadata.ocr?.pages).toEqual([{ pageNumber: 1, confidence: 81.3 }]);
+
+    // Lines are placed on the PDF page, not the scanned image
+    const [page] = result.pages!;
+    expect(page.width).toBe(500);
+    expect(page.lines?.[0].boundingBox).toEqual({ x: 50, y: 200, width: 250, height: 25 });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, test } from "bun:test";
+import JSZip from "jszip";
+import ExcelJS from "exceljs";
+import {
+  extractDocxPages,
+  extractPptxPages,
+  extractXlsxPages,
+} from "../../apps/electron/main/lib/documents/office";
+import { pagesFromExtractedContent } from "../../apps/electron/main/lib/documents/document-chunker";
+
+const W_NS =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+const P_NS =
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+const pack = async (files: Record<string, string>) => {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(files)) zip.file(path, content);
+  return zip.generateAsync({ type: "uint8array" });
+};
+
+const rels = (targets: Array<[string, string]>) =>
+  `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${targets
+    .map(([id, target]) => `<Relationship Id="${id}" Type="x" Target="${target}"/>`)
+    .join("")}</Relationships>`;
+
+const run = (text: string) => `<w:r><w:t xml:space="preserve">${text}</w:t></w:r>`;
+const para = (text: string, pPr = "") => `<w:p><w:pPr>${pPr}</w:pPr>${run(text)}</w:p>`;
+const cell = (text: string) => `<w:tc>${para(text)}</w:tc>`;
+
+const docx = (body: string) =>
+  pack({
+    "word/document.xml": `<?xml version="1.0" encoding="UTF-8"?><w:document ${W_NS}><w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/></w:sectPr></w:body></w:document>`,
+    "word/styles.xml": `<w:styles ${W_NS}><w:style w:type="paragraph" w:styleId="Ttulo1"><w:name w:val="heading 1"/></w:style><w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/></w:style></w:styles>`,
+    "word/numbering.xml": `<w:numbering ${W_NS}><w:abstractNum w:abstractNumId="0"><w:lvl w:ilvl="0"><w:numFmt w:val="decimal"/></w:lvl><w:lvl w:ilvl="1"><w:numFmt w:val="bullet"/></w:lvl></w:abstractNum><w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num></w:numbering>`,
+  });
+
+const listItem = (text: string, level: number) =>
+  para(text, `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="1"/></w:numPr>`);
+
+describe("office extraction", () => {
+  test("docx keeps headings, lists and tables and splits explicit page breaks", async () => {
+    const buffer = await docx(
+      [
+        para("Service Agreement", '<w:pStyle w:val="Ttulo1"/>'),
+        para("Between Acme Corp &amp; the contractor."),
+        listItem("Scope", 0),
+        listItem("Design review", 1),
+        listItem("Payment", 0),
+        `<w:p>${run("Signed in Madrid.")}<w:r><w:br w:type="page"/></w:r></w:p>`,
+        para("Fees", '<w:pStyle w:val="Heading2"/>'),
+        `<w:tbl><w:tr>${cell("Item")}${cell("Amount")}</w:tr><w:tr>${cell("Retainer | monthly")}${cell("1,200")}</w:tr></w:tbl>`,
+      ].join(""),
+    );
+
+    const pages = await extractDocxPages(buffer);
+
+    expect(pages.map((page) => page.content)).toEqual([
+      "# Service Agreement\n\nBetween Acme Corp & the contractor.\n\n1. Scope\n  - Design review\n2. Payment\n\nSigned in Madrid.",
+      "## Fees\n\n| Item | Amount |\n| --- | --- |\n| Retainer \\| monthly | 1,200 |",
+    ]);
+    expect(pages[0]).toMatchObject({ pageNumber: 1, width: 595.3, height: 841.9 });
+    expect(pages[1].wordCount).toBe(6);
+  });
+
+  test("docx follows Word's rendered page breaks when present", async () => {
+    const buffer = await docx(
+      [
+        para("First page"),
+        `<w:p><w:pPr><w:pageBreakBefore/></w:pPr>${run("Still first")}</w:p>`,
+        `<w:p><w:r><w:t>End of one, </w:t></w:r><w:r><w:lastRenderedPageBreak/><w:t>start of two</w:t></w:r></w:p>`,
+      ].join(""),
+    );
+
+    const pages = await extractDocxPages(buffer);
+
+    expect(pages.map((page) => page.content)).toEqual([
+      "First page\n\nStill first\n\nEnd of one,",
+      "start of two",
+    ]);
+  });
+
+  test("pptx makes one page per slide with title, bullets, tables and notes", async () => {
+    const shape = (ph: string, paragraphs: string[]) =>
+      `<p:sp><p:nvSpPr><p:cNvPr id="1" name="s"/><p:cNvSpPr/><p:nvPr>${ph}</p:nvPr></p:nvSpPr><p:txBody>${paragraphs.join("")}</p:txBody></p:sp>`;
+    const text = (value: string, level = 0) =>
+      `<a:p><a:pPr lvl="${level}"/><a:r><a:t>${value}</a:t></a:r></a:p>`;
+    const slide = (shapes: string) =>
+      `<p:sld ${P_NS}><p:cSld><p:spTree>${shapes}</p:spTree></p:cSld></p:sld>`;
+
+    const buffer = await pack({
+      "ppt/presentation.xml": `<p:presentation ${P_NS}><p:sldIdLst><p:sldId id="257" r:id="rId3"/><p:sldId id="256" r:id="rId2"/></p:sldIdLst><p:sldSz cx="12192000" cy="6858000"/></p:presentation>`,
+      "ppt/_rels/presentation.xml.rels": rels([
+        ["rId2", "slides/slide1.xml"],
+        ["rId3", "slides/slide2.xml"],
+      ]),
+      "ppt/slides/slide1.xml": slide(
+        shape('<p:ph type="title"/>', [text("Roadmap")]) +
+          `<p:graphicFrame><a:graphic><a:graphicData><a:tbl><a:tr><a:tc><a:txBody>${text("Q1")}</a:txBody></a:tc><a:tc><a:txBody>${text("Beta")}</a:txBody></a:tc></a:tr><a:tr><a:tc><a:txBody>${text("Q2")}</a:txBody></a:tc><a:tc><a:txBody>${text("Launch")}</a:txBody></a:tc></a:tr></a:tbl></a:graphicData></a:graphic></p:graphicFrame>` +
+          shape('<p:ph type="sldNum"/>', [text("2")]),
+      ),
+      "ppt/slides/_rels/slide1.xml.rels": rels([["rId1", "../notesSlides/notesSlide1.xml"]]),
+      "ppt/notesSlides/notesSlide1.xml": `<p:notes ${P_NS}><p:cSld><p:spTree>${shape('<p:ph type="sldImg"/>', [])}${shape('<p:ph type="body" idx="1"/>', [text("Mention the hiring plan.")])}${shape('<p:ph type="sldNum"/>', [text("2")])}</p:spTree></p:cSld></p:notes>`,
+      "ppt/slides/slide2.xml": slide(
+        shape('<p:ph type="ctrTitle"/>', [text("Kickoff")]) +
+          shape('<p:ph idx="1"/>', [text("Goals"), text("Ship v2", 1)]) +
+          shape("", [text("Confidential")]),
+      ),
+    });
+
+    const pages = await extractPptxPages(buffer);
+
+    expect(pages.map((page) => page.content)).toEqual([
+      "# Kickoff\n\n- Goals\n  - Ship v2\n\nConfidential",
+      "# Roadmap\n\n| Q1 | Beta |\n| --- | --- |\n| Q2 | Launch |\n\nNotes:\nMention the hiring plan.",
+    ]);
+    expect(pages[1]).toMatchObject({ pageNumber: 2, width: 960, height: 540 });
+  });
+
+  test("xlsx makes one page per worksheet as a table", async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sales = workbook.addWorksheet("Sales");
+    sales.addRow(["Region", "Revenue", "Closed"]);
+    sales.addRow(["North", 1200, new Date(Date.UTC(2024, 2, 31))]);
+    sales.addRow(["South", { formula: "B2*2", result: 2400 }, true]);
+    workbook.addWorksheet("Empty");
+    const notes = workbook.addWorksheet("Notes");
+    notes.getCell("B2").value = {
+      richText: [{ text: "See " }, { font: { bold: true }, text: "appendix" }],
+    };
+    const buffer = new Uint8Array(await workbook.xlsx.writeBuffer());
+
+    const pages = await extractXlsxPages(buffer);
+
+    expect(pages.map((page) => [page.pageNumber, page.content])).toEqual([
+      [
+        1,
+        "## Sales\n\n| Region | Revenue | Closed |\n| --- | --- | --- |\n| North | 1200 | 2024-03-31 |\n| South | 2400 | TRUE |",
+      ],
+      [3, "## Notes\n\n| See appendix |\n| --- |"],
+    ]);
+  });
+
+  test("extracted pages round-trip through page markers", async () => {
+    const pages = await extractDocxPages(
+      await docx(`${para("One")}<w:p><w:r><w:br w:type="page"/></w:r></w:p>${para("Two")}`),
+    );
+    const merged = pages
+      .map((page) => `[Page ${page.pageNumber}]\n${page.content}`)
+      .join("\n\n");
+
+    expect(
+      pagesFromExtractedContent(merged).map((page) => [page.pageNumber, page.content]),
+    ).toEqual([
+      [1, "One"],
+      [2, "Two"],
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, test } from "bun:test";
+import type { PageContent } from "../../apps/electron/main/lib/documents/document-processor";
+import {
+  chunkPages,
+  pagesFromExtractedContent,
+} from "../../apps/electron/main/lib/documents/document-chunker";
+import { createLocalEmbedder } from "../../apps/electron/main/lib/documents/embeddings";
+import { VectorIndex } from "../../apps/electron/main/lib/documents/vector-index";
+
+const positionedPage = (
+  pageNumber: number,
+  texts: string[],
+): PageContent => ({
+  pageNumber,
+  content: texts.join("\n"),
+  wordCount: texts.join(" ").split(/\s+/).length,
+  width: 612,
+  height: 792,
+  lines: texts.map((text, lineIndex) => ({
+    text,
+    pageNumber,
+    pageIndex: pageNumber - 1,
+    lineIndex,
+    boundingBox: { x: 72, y: 700 - lineIndex * 14, width: 400, height: 12 },
+  })),
+});
+
+const contract: PageContent[] = [
+  positionedPage(1, [
+    "Consulting agreement between Acme Corp and the contractor.",
+    "The contractor will review construction costs for the project.",
+  ]),
+  positionedPage(2, [
+    "Payment schedule: invoices are due within 30 days.",
+    "Late payments accrue interest at 2% per month.",
+  ]),
+  positionedPage(3, [
+    "Termination: either party may terminate with 60 days notice.",
+    "Confidential information must be returned on termination.",
+  ]),
+];
+
+describe("document chunker", () => {
+  test("chunks keep page, offsets and the union of line boxes", () => {
+    const chunks = chunkPages(contract);
+    expect(chunks.map((c) => c.pageNumber)).toEqual([1, 2, 3]);
+
+    const [first] = chunks;
+    const { content } = contract[0];
+    expect(content.substring(first.startIndex, first.endIndex)).toBe(
+      first.text,
+    );
+    expect(first.boundingBox).toEqual({
+      x: 72,
+      y: 686,
+      width: 400,
+      height: 26,
+    });
+    expect(first.pageWidth).toBe(612);
+  });
+
+  test("long pages split into overlapping chunks", () => {
+    const lines = Array.from(
+      { length: 40 },
+      (_, i) => `Line ${i} describes clause ${i} of the agreement in detail.`,
+    );
+    const chunks = chunkPages([positionedPage(1, lines)], {
+      chunkSize: 300,
+      overlap: 80,
+    });
+
+    expect(chunks.length).toBeGreaterThan(5);
+    for (const chunk of chunks) expect(chunk.text.length).toBeLessThan(400);
+    expect(chunks[1].startIndex).toBeLessThan(chunks[0].endIndex);
+  });
+
+  test("rebuilds pages from merged content with page markers", () => {
+    const pages = pagesFromExtractedContent(
+      "[Page 1]\nFirst page text\n\n[Page 3]\nThird page text",
+    );
+    expect(pages.map((p) => [p.pageNumber, p.content])).toEqual([
+      [1, "First page text"],
+      [3, "Third page text"],
+    ]);
+  });
+});
+
+describe("local vector index", () => {
+  test("the local embedder is deterministic and normalised", async () => {
+    const embedder = createLocalEmbedder({ dimensions: 64 });
+    const [a] = await embedder.embed(["Late payment interest"]);
+    const [b] = await embedder.embed(["Late payment interest"]);
+    expect(a).toEqual(b);
+    expect(a.reduce((sum, v) => sum + v * v, 0)).toBeCloseTo(1, 6);
+  });
+
+  test("ranks chunks by meaning, not only exact phrases", async () => {
+    const index = new VectorIndex(createLocalEmbedder());
+    await index.addDocument("contract", "contract.pdf", contract);
+
+    const [top] = await index.search("when are invoice payments due?");
+    expect(top.pageNumber).toBe(2);
+    expect(top.filename).toBe("contract.pdf");
+    expect(top.boundingBox).toBeDefined();
+
+    const [notice] = await index.search("how much notice before terminating?");
+    expect(notice.pageNumber).toBe(3);
+  });
+
+  test("searches across documents and skips unchanged re-indexing", async () => {
+    const index = new VectorIndex(createLocalEmbedder());
+    await index.addDocument("contract", "contract.pdf", contract);
+    await index.addDocument("notes", "notes.txt", [
+      {
+        pageNumber: 1,
+        content: "Meeting notes: the budget for marketing was approved.",
+        wordCount: 8,
+      },
+    ]);
+    expect(await index.addDocument("contract", "contract.pdf", contract)).toBe(
+      3,
+    );
+
+    const [top] = await index.search("marketing budget");
+    expect(top.documentId).toBe("notes");
+    expect(top.boundingBox).toBeUndefined();
+
+    const scoped = await index.search("marketing budget", {
+      documentIds: ["contract"],
+    });
+    expect(scoped.every((r) => r.documentId === "contract")).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import {
+  FormulaEngine,
+  recalculateWorkbook,
+  type WorkbookData,
+} from "../../apps/electron/main/lib/formula";
+
+const workbook = (): WorkbookData => ({
+  sheetOrder: ["sheet-1", "sheet-2"],
+  sheets: {
+    "sheet-1": {
+      id: "sheet-1",
+      name: "Sales",
+      cellData: {
+        0: { 0: { v: "Region" }, 1: { v: "Amount" }, 2: { v: "Date" } },
+        1: { 0: { v: "North" }, 1: { v: 100 }, 2: { v: 45292 } },
+        2: { 0: { v: "South" }, 1: { v: "250" }, 2: { v: 45323 } },
+        3: { 0: { v: "North" }, 1: { v: 50 }, 2: { v: 45352 } },
+        // Older tool writes stored formulas in v only
+        4: { 1: { v: "=SUM(B2:B4)" } },
+        5: { 1: { f: "=B5*Rates!B1", v: "" } },
+      },
+    },
+    "sheet-2": {
+      id: "sheet-2",
+      name: "Rates",
+      cellData: {
+        0: { 0: { v: "Tax" }, 1: { v: 0.2 } },
+        1: { 0: { v: "North" }, 1: { v: "N" } },
+        2: { 0: { v: "South" }, 1: { v: "S" } },
+      },
+    },
+  },
+});
+
+const evaluate = (formula: string, data = workbook()) =>
+  new FormulaEngine(data, { now: new Date(2024, 2, 15) }).evaluate(
+    formula,
+    "sheet-1",
+  );
+
+describe("formula engine", () => {
+  test("arithmetic follows Excel precedence", () => {
+    expect(evaluate("=1+2*3^2")).toBe(19);
+    expect(evaluate("=-2^2")).toBe(4);
+    expect(evaluate("=50%+1")).toBe(1.5);
+    expect(evaluate('="a"&1&TRUE')).toBe("a1TRUE");
+    expect(evaluate("=1/0")).toMatchObject({ code: "#DIV/0!" });
+  });
+
+  test("aggregates and conditional sums", () => {
+    expect(evaluate("=SUM(B2:B4)")).toBe(400);
+    expect(evaluate("=AVERAGE(B2:B4)")).toBeCloseTo(133.33);
+    expect(evaluate("=COUNT(B:B)")).toBe(5);
+    expect(evaluate('=SUMIFS(B2:B4,A2:A4,"North")')).toBe(150);
+    expect(evaluate('=COUNTIF(B2:B4,">60")')).toBe(2);
+    expect(evaluate('=SUMIF(A2:A4,"N*",B2:B4)')).toBe(150);
+    expect(evaluate("=SUMPRODUCT((A2:A4=\"North\")*B2:B4)")).toBe(150);
+  });
+
+  test("lookups across sheets", () => {
+    expect(evaluate('=VLOOKUP("south",Rates!A2:B3,2,FALSE)')).toBe("S");
+    expect(evaluate('=XLOOKUP("West",A2:A4,B2:B4,"none")')).toBe("none");
+    expect(evaluate('=INDEX(B2:B4,MATCH("South",A2:A4,0))')).toBe(250);
+    expect(evaluate("=IFERROR(VLOOKUP(\"x\",A2:B4,2,FALSE),-1)")).toBe(-1);
+  });
+
+  test("text and date functions", () => {
+    expect(evaluate('=TEXT(1234.5,"#,##0.00")')).toBe("1,234.50");
+    expect(evaluate('=TEXT(0.256,"0.0%")')).toBe("25.6%");
+    expect(evaluate('=TEXT(C2,"yyyy-mm-dd")')).toBe("2024-01-01");
+    expect(evaluate("=DATE(2024,3,15)")).toBe(45366);
+    expect(evaluate("=TODAY()")).toBe(45366);
+    expect(evaluate("=EOMONTH(C2,1)")).toBe(45351);
+    expect(evaluate('=DATEDIF(C2,C4,"m")')).toBe(2);
+  });
+
+  test("recalculation writes dependency-ordered values", () => {
+    const data = workbook();
+    const result = recalculateWorkbook(data);
+    const cells = data.sheets!["sheet-1"].cellData!;
+
+    expect(result.evaluated).toBe(2);
+    expect(result.errors).toEqual([]);
+    expect(cells[4][1]).toMatchObject({ f: "=SUM(B2:B4)", v: 400, t: 2 });
+    expect(cells[5][1].v).toBeCloseTo(80);
+  });
+
+  test("circular references evaluate to 0 and are reported", () => {
+    const data = workbook();
+    data.sheets!["sheet-1"].cellData![6] = {
+      0: { f: "=B7+1" },
+      1: { f: "=A7*2" },
+      2: { f: "=A7" },
+    };
+    const result = recalculateWorkbook(data);
+    expect(result.circular.sort()).toEqual(["Sales!A7", "Sales!B7"]);
+    expect(data.sheets!["sheet-1"].cellData![6][0].v).toBe(0);
+  });
+});
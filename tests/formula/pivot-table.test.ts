@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import {
+  computePivotTable,
+  refreshPivotTables,
+  writePivotTable,
+  type WorkbookData,
+} from "../../apps/electron/main/lib/formula";
+
+const headers = ["Region", "Quarter", "Product", "Amount"];
+const records = [
+  ["North", "Q1", "Laptop", 100],
+  ["North", "Q2", "Mouse", 20],
+  ["South", "Q1", "Laptop", 300],
+  ["South", "Q1", "Mouse", 30],
+  ["North", "Q1", "Mouse", 10],
+];
+
+describe("pivot tables", () => {
+  test("groups rows and columns with grand totals", () => {
+    const { grid } = computePivotTable(headers, records, {
+      rows: ["Region"],
+      columns: ["Quarter"],
+      values: [{ field: "Amount", aggregation: "sum" }],
+    });
+    expect(grid).toEqual([
+      ["Region", "Q1", "Q2", "Grand Total"],
+      ["North", 110, 20, 130],
+      ["South", 330, 0, 330],
+      ["Grand Total", 440, 20, 460],
+    ]);
+  });
+
+  test("applies filters and several aggregations", () => {
+    const { grid, recordCount } = computePivotTable(headers, records, {
+      rows: ["Product"],
+      values: [
+        { field: "Amount", aggregation: "average" },
+        { field: "Region", aggregation: "countDistinct", label: "Regions" },
+      ],
+      filters: [{ field: "D", condition: ">15" }],
+      showGrandTotals: false,
+    });
+    expect(recordCount).toBe(4);
+    expect(grid).toEqual([
+      ["Product", "Average of Amount", "Regions"],
+      ["Laptop", 200, 2],
+      ["Mouse", 25, 2],
+    ]);
+  });
+
+  test("writes a refreshable block into the workbook", () => {
+    const workbook: WorkbookData = {
+      sheets: {
+        data: {
+          name: "Data",
+          cellData: Object.fromEntries(
+            [headers, ...records].map((row, r) => [
+              r,
+              Object.fromEntries(row.map((v, c) => [c, { v }])),
+            ]),
+          ),
+        },
+        pivot: { name: "Pivot", cellData: {} },
+      },
+    };
+
+    const result = writePivotTable(workbook, {
+      id: "pivot-1",
+      name: "By region",
+      sourceSheetId: "data",
+      sourceRange: "A1:D6",
+      targetSheetId: "pivot",
+      targetCell: "B2",
+      rows: ["Region"],
+      values: [{ field: "Amount", aggregation: "sum" }],
+      createdAt: new Date().toISOString(),
+    });
+    expect(result.outputRange).toBe("B2:C5");
+
+    const data = workbook.sheets!.data.cellData!;
+    data[1][3] = { v: 1000 };
+    const [refreshed] = refreshPivotTables(workbook);
+    expect(refreshed.id).toBe("pivot-1");
+    expect(workbook.sheets!.pivot.cellData![2][2].v).toBe(1030);
+  });
+});
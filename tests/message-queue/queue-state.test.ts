@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import {
+  editItem,
+  needsOpenChat,
+  nextPendingItem,
+  recoverInterrupted,
+  reorderItems,
+  retryItem,
+  setItemStatus,
+  type QueueItem,
+} from "../../apps/electron/main/lib/message-queue/queue-state";
+
+function item(id: string, status: QueueItem["status"] = "pending"): QueueItem {
+  return {
+    id,
+    kind: "chat",
+    targetId: "chat-1",
+    userId: "user-1",
+    message: `prompt ${id}`,
+    payload: {},
+    status,
+    attempts: 0,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+describe("message queue state", () => {
+  test("interrupted items resume as pending", () => {
+    const { queues, recovered } = recoverInterrupted({
+      "chat:chat-1": [item("a", "done"), item("b", "running"), item("c")],
+    });
+
+    expect(recovered).toBe(1);
+    expect(queues["chat:chat-1"].map((i) => i.status)).toEqual(["done", "pending", "pending"]);
+  });
+
+  test("sends one item at a time and skips failed ones", () => {
+    expect(nextPendingItem([item("a", "running"), item("b")])).toBeNull();
+    expect(nextPendingItem([item("a", "failed"), item("b")])?.id).toBe("b");
+
+    const running = setItemStatus([item("a")], "a", "running");
+    expect(running[0].attempts).toBe(1);
+    const failed = setItemStatus(running, "a", "failed", "timeout");
+    expect(failed[0]).toMatchObject({ status: "failed", error: "timeout" });
+    expect(retryItem(failed, "a")[0]).toMatchObject({ status: "pending", error: undefined });
+  });
+
+  test("reorders waiting items around running and done ones", () => {
+    const items = [item("done", "done"), item("run", "running"), item("a"), item("b", "failed"), item("c")];
+
+    const reordered = reorderItems(items, ["c", "a"]);
+
+    expect(reordered.map((i) => i.id)).toEqual(["done", "run", "c", "a", "b"]);
+  });
+
+  test("only waiting items can be edited", () => {
+    expect(editItem([item("a")], "a", "new text")[0].message).toBe("new text");
+    expect(() => editItem([item("a", "running")], "a", "x")).toThrow();
+  });
+
+  test("prompts that need tools wait for their chat", () => {
+    const prompt = (message: string, payload: Record<string, unknown> = {}) => ({
+      ...item("a"),
+      message,
+      payload,
+    });
+
+    expect(needsOpenChat(prompt("¿Qué diferencia hay entre IVA e IRPF?"))).toBe(false);
+    expect(needsOpenChat(prompt("Añade una columna con el total de ventas a la hoja de cálculo"))).toBe(true);
+    expect(needsOpenChat(prompt("Un gato astronauta", { generateImage: true }))).toBe(true);
+  });
+});
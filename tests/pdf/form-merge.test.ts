@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildFieldValues,
+  readSheetRecords,
+  suggestFieldMapping,
+} from "../../apps/electron/main/lib/pdf/form-merge";
+import type { WorkbookData } from "../../apps/electron/main/lib/formula";
+
+const fields = [
+  { name: "FullName", type: "text" as const },
+  { name: "start_date", type: "text" as const },
+  { name: "Email Address", type: "text" as const },
+  { name: "Remote", type: "checkbox" as const },
+  { name: "Signature1", type: "signature" as const },
+];
+
+describe("form merge", () => {
+  test("suggests a mapping by label similarity, one column per field", () => {
+    const headers = ["Full Name", "Email", "Start Date", "Remote?", "Department"];
+    expect(suggestFieldMapping(fields, headers)).toEqual({
+      FullName: "Full Name",
+      start_date: "Start Date",
+      "Email Address": "Email",
+      Remote: "Remote?",
+    });
+  });
+
+  test("builds form values with checkbox coercion", () => {
+    const values = buildFieldValues(
+      { Name: "Ana Pérez", Remote: "Sí", Start: 45000 },
+      { FullName: "Name", Remote: "Remote", start_date: "Start" },
+      fields,
+    );
+    expect(values).toEqual({ FullName: "Ana Pérez", Remote: true, start_date: "45000" });
+  });
+
+  test("reads evaluated sheet rows as records, skipping blank rows", () => {
+    const workbook: WorkbookData = {
+      sheets: {
+        s1: {
+          id: "s1",
+          name: "HR",
+          cellData: {
+            0: { 0: { v: "Name" }, 1: { v: "Salary" }, 2: { v: "Bonus" } },
+            1: { 0: { v: "Ana" }, 1: { v: 1000 }, 2: { f: "=B2*0.1" } },
+            3: { 0: { v: "Luis" }, 1: { v: 2000 }, 2: { f: "=B4*0.1" } },
+          },
+        },
+      },
+    };
+
+    const { headers, records } = readSheetRecords(workbook, "A1:C4", "HR");
+    expect(headers).toEqual(["Name", "Salary", "Bonus"]);
+    expect(records).toEqual([
+      { Name: "Ana", Salary: 1000, Bonus: 100 },
+      { Name: "Luis", Salary: 2000, Bonus: 200 },
+    ]);
+  });
+});
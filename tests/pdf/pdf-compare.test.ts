@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+import { comparePdfPages } from "../../apps/electron/main/lib/pdf/pdf-compare";
+
+const v1 = [
+  { pageNumber: 1, content: "Service Agreement\nTerm: 12 months\nFee: $1,000" },
+  { pageNumber: 2, content: "Termination\nEither party may terminate\nSignatures" },
+];
+
+describe("comparePdfPages", () => {
+  test("reports no changes for identical text, ignoring spacing", () => {
+    const same = v1.map((p) => ({ ...p, content: p.content.replace(/ /g, "  ") }));
+    const result = comparePdfPages(v1, same);
+    expect(result.identical).toBe(true);
+    expect(result.stats.unchanged).toBe(6);
+  });
+
+  test("cites pages in both revisions for each change", () => {
+    const v2 = [
+      { pageNumber: 1, content: "Service Agreement\nTerm: 24 months" },
+      {
+        pageNumber: 2,
+        content: "Fee: $1,000\nTermination\nEither party may terminate\nGoverning law: Chile",
+      },
+      { pageNumber: 3, content: "Signatures" },
+    ];
+
+    const { hunks } = comparePdfPages(v1, v2);
+    expect(hunks).toEqual([
+      {
+        kind: "changed",
+        before: { pages: [1], lines: ["Term: 12 months"] },
+        after: { pages: [1], lines: ["Term: 24 months"] },
+      },
+      {
+        kind: "added",
+        before: { pages: [2], lines: [] },
+        after: { pages: [2], lines: ["Governing law: Chile"] },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import {
+  detectTables,
+  parseCellNumber,
+  tablesToWorkbook,
+} from "../../apps/electron/main/lib/pdf/table-extractor";
+import type { PageTextRuns } from "../../apps/electron/main/lib/pdf/pdf-service";
+
+const COLUMNS = [50, 250, 400];
+
+function run(text: string, x: number, y: number) {
+  return {
+    text,
+    boundingBox: { x, y, width: text.length * 5, height: 10 },
+    fontSize: 10,
+  };
+}
+
+function row(cells: string[], y: number) {
+  return cells.map((text, i) => run(text, COLUMNS[i], y)).filter((r) => r.text);
+}
+
+function page(pageNumber: number, runs: ReturnType<typeof run>[]): PageTextRuns {
+  return { pageNumber, width: 600, height: 800, runs };
+}
+
+describe("detectTables", () => {
+  test("joins a table continued on the next page and drops the repeated header", () => {
+    const header = ["Item", "Qty", "Price"];
+    const pages = [
+      page(1, [
+        run("Quarterly invoice summary for the northern region accounts", 50, 760),
+        ...row(header, 700),
+        ...row(["Laptop", "2", "1,200.00"], 680),
+        ...row(["Mouse", "10", "25.50"], 660),
+      ]),
+      page(2, [
+        ...row(header, 740),
+        ...row(["Monitor", "3", "(300)"], 720),
+        ...row(["", "", "Extended"], 708),
+      ]),
+    ];
+
+    const tables = detectTables(pages);
+    expect(tables).toHaveLength(1);
+
+    const [table] = tables;
+    expect(table.pages).toEqual([1, 2]);
+    expect(table.header?.map((c) => c.text)).toEqual(header);
+    expect(table.rows.map((r) => r.map((c) => c.text))).toEqual([
+      ["Laptop", "2", "1,200.00"],
+      ["Mouse", "10", "25.50"],
+      ["Monitor", "3", "(300) Extended"],
+    ]);
+    expect(table.rows[2][0]).toMatchObject({
+      pageNumber: 2,
+      boundingBox: { x: 50, y: 720, width: 35, height: 10 },
+    });
+  });
+
+  test("ignores prose without column structure", () => {
+    const pages = [
+      page(1, [
+        run("This agreement is made between the parties named below", 50, 700),
+        run("and shall remain in force for the term agreed in writing", 50, 685),
+      ]),
+    ];
+    expect(detectTables(pages)).toEqual([]);
+  });
+});
+
+describe("tablesToWorkbook", () => {
+  test("stores numbers and a page citation on every cell", () => {
+    const tables = detectTables([
+      page(3, [...row(["Name", "Amount"], 500), ...row(["Fee", "$1,500"], 480)]),
+    ]);
+    const workbook = tablesToWorkbook(tables, { name: "Fees", filename: "contract.pdf" }) as {
+      sheets: Record<string, { name: string; cellData: Record<number, Record<number, any>> }>;
+    };
+
+    const sheet = workbook.sheets.sheet1;
+    expect(sheet.name).toBe("Table 1 (p. 3)");
+    expect(sheet.cellData[1][1].v).toBe(1500);
+    expect(sheet.cellData[1][1].custom.citation).toMatchObject({
+      type: "page",
+      filename: "contract.pdf",
+      pageNumber: 3,
+      text: "$1,500",
+      pageHeight: 800,
+    });
+  });
+
+  test("parses printed numbers", () => {
+    expect(parseCellNumber("(1,250.75)")).toBe(-1250.75);
+    expect(parseCellNumber("€ 99")).toBe(99);
+    expect(parseCellNumber("12 units")).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { detectTextLanguage } from "../../packages/core/src/utils/detect-language";
+import { checkText } from "../../packages/core/src/utils/proofreading";
+
+describe("language routing", () => {
+  test("tells Spanish, English, Portuguese and French apart", () => {
+    expect(detectTextLanguage("El informe de la reunión está listo para el equipo.")).toBe("es");
+    expect(detectTextLanguage("The report from the meeting is ready for the team.")).toBe("en");
+    expect(detectTextLanguage("O relatório da reunião não está pronto para a equipe.")).toBe("pt");
+    expect(detectTextLanguage("Le rapport de la réunion est prêt pour les clients.")).toBe("fr");
+  });
+
+  test("only picks among the candidates, falling back to one of them", () => {
+    const portuguese = "O relatório da reunião não está pronto.";
+    expect(detectTextLanguage(portuguese, "es", ["es", "en"])).toBe("es");
+    expect(detectTextLanguage("12345", "es", ["en", "fr"])).toBe("en");
+    expect(detectTextLanguage("12345", "fr", [])).toBe("fr");
+  });
+
+  test("hands each paragraph's language to the spelling dictionary", () => {
+    const words: Record<string, Set<string>> = {
+      en: new Set(["the", "report", "is", "ready"]),
+      fr: new Set(["le", "rapport", "est", "prêt", "pour", "les", "clients"]),
+    };
+    const seen: string[] = [];
+    const spelling = {
+      check: (word: string, language?: string) => {
+        seen.push(language ?? "?");
+        return words[language ?? ""]?.has(word.toLowerCase()) ?? false;
+      },
+      suggest: () => [],
+    };
+
+    const suggestions = checkText(
+      "The report is ready.\rLe rapport est prêt pour les clients.",
+      { spelling, languages: ["en", "fr"] },
+    );
+
+    expect(suggestions).toEqual([]);
+    expect(new Set(seen)).toEqual(new Set(["en", "fr"]));
+  });
+
+  test("keeps Spanish and English grammar rules out of other languages", () => {
+    const rules = (text: string, language: "es" | "pt") =>
+      checkText(text, { language }).map((s) => s.ruleId);
+
+    expect(rules("El contrato fue firmado.", "es")).toEqual(["passive-voice"]);
+    expect(rules("El contrato fue firmado.", "pt")).toEqual([]);
+    expect(rules("Foi foi vendida.", "pt")).toEqual(["repeated-word"]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, test } from "bun:test";
+import {
+  applySuggestions,
+  checkText,
+  locateSuggestions,
+  mergeSuggestions,
+} from "../../packages/core/src/utils/proofreading";
+
+const summarize = (text: string, options = {}) =>
+  checkText(text, options).map((s) => [s.ruleId, s.original, s.replacements]);
+
+describe("proofreading rules", () => {
+  test("flags repeated words within a paragraph only", () => {
+    expect(summarize("We shipped the the beta.\rthe\rThe end")).toEqual([
+      ["repeated-word", "the the", ["the"]],
+    ]);
+    expect(summarize("What it is is a draft that that team had had.")).toEqual(
+      [],
+    );
+  });
+
+  test("checks English articles and subject-verb agreement", () => {
+    expect(
+      summarize(
+        "She don't have a hour for an review. A user and an FBI agent. Does he have it? They is here.",
+        { language: "en" },
+      ),
+    ).toEqual([
+      ["subject-verb-agreement", "don't", ["doesn't"]],
+      ["article-agreement", "a", ["an"]],
+      ["article-agreement", "an", ["a"]],
+      ["subject-verb-agreement", "is", ["are"]],
+    ]);
+  });
+
+  test("checks Spanish article agreement and contractions", () => {
+    expect(
+      summarize(
+        "El canción de el equipo habla de las viaje y los pensamiento. Se lo dije a él.",
+      ),
+    ).toEqual([
+      ["article-agreement", "El", ["La"]],
+      ["contraction", "de el", ["del"]],
+      ["article-agreement", "las", ["el"]],
+      ["article-agreement", "los", ["el"]],
+    ]);
+  });
+
+  test("flags passive voice per language", () => {
+    expect(
+      summarize(
+        "The report was quickly written by the team. She was tired.\nEl contrato fue aprobado ayer. Es complicado. El plan es revisado por todos.",
+      ),
+    ).toEqual([
+      ["passive-voice", "was quickly written", []],
+      ["passive-voice", "fue aprobado", []],
+      ["passive-voice", "es revisado", []],
+    ]);
+  });
+
+  test("applies the team style guide and ignored rules", () => {
+    const styleGuide = [
+      { term: "e-mail", replacement: "correo electrónico" },
+      { term: "utilizar", replacement: "usar", note: "Preferimos «usar»" },
+      { term: "sinergia" },
+    ];
+    const text = "E-mail: vamos a utilizar la sinergia del equipo de el área.";
+
+    const suggestions = checkText(text, { styleGuide });
+    expect(suggestions.map((s) => [s.ruleId, s.message, s.replacements])).toEqual([
+      ["style-guide:e-mail", "Guía de estilo: usa «correo electrónico»", ["Correo electrónico"]],
+      ["style-guide:utilizar", "Preferimos «usar»", ["usar"]],
+      ["style-guide:sinergia", "Guía de estilo: evita «sinergia»", []],
+      ["contraction", "Se escribe «del»", ["del"]],
+    ]);
+    expect(
+      summarize(text, {
+        styleGuide,
+        ignoredRules: ["style-guide", "contraction"],
+      }),
+    ).toEqual([]);
+    expect(applySuggestions(text, suggestions)).toBe(
+      "Correo electrónico: vamos a usar la sinergia del equipo del área.",
+    );
+  });
+
+  test("checks spelling with a dictionary, skipping names, links and acronyms", () => {
+    const known = new Set(["the", "report", "is", "ready", "see", "for", "and"]);
+    const spelling = {
+      check: (word: string) => known.has(word),
+      suggest: (word: string) => (word === "reprot" ? ["report"] : []),
+    };
+
+    expect(
+      summarize(
+        "The reprot is ready for Maria and NASA. See example.com/reprot and Xyzzy.",
+        { language: "en", spelling },
+      ),
+    ).toEqual([["spelling", "reprot", ["report"]]]);
+  });
+
+  test("locates LLM findings and lets rule suggestions win overlaps", () => {
+    const text = "Their going to the the store. Their going home.";
+    const llm = locateSuggestions(text, [
+      { original: "Their going", replacement: "They're going", message: "Homófono", category: "grammar" },
+      { original: "Their going", replacement: "They're going", message: "Homófono", category: "grammar" },
+      { original: "the the", replacement: "the", message: "Repetida", category: "grammar" },
+      { original: "not in the text", message: "?", category: "style" },
+    ]);
+
+    expect(llm.map((s) => [s.start, s.original, s.source])).toEqual([
+      [0, "Their going", "llm"],
+      [15, "the the", "llm"],
+      [30, "Their going", "llm"],
+    ]);
+
+    const merged = mergeSuggestions(checkText(text, { language: "en" }), llm);
+    expect(merged.map((s) => [s.ruleId, s.start])).toEqual([
+      ["llm:grammar", 0],
+      ["repeated-word", 15],
+      ["llm:grammar", 30],
+    ]);
+    expect(applySuggestions(text, merged)).toBe(
+      "They're going to the store. They're going home.",
+    );
+  });
+});
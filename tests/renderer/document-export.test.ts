@@ -0,0 +1,117 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import JSZip from "jszip";
+import {
+  univerDocToBlocks,
+  type DocumentSource,
+} from "../../packages/core/src/utils/document-blocks";
+import {
+  blocksToHtml,
+  blocksToMarkdown,
+} from "../../packages/core/src/utils/document-markup";
+import { DocumentExportService } from "../../apps/electron/renderer/features/univer/services/document-export-service";
+
+const FIXTURES = resolve(import.meta.dir, "fixtures/document-export");
+
+// Built the way the document tools write headings, lists, tables, links,
+// rules, code blocks and quotes, plus one native nested bullet
+const report = (): DocumentSource =>
+  JSON.parse(readFileSync(resolve(FIXTURES, "report.json"), "utf8"));
+
+/**
+ * Compare with a golden file. Run with UPDATE_GOLDEN=1 to rewrite it after an
+ * intended output change.
+ */
+const expectGolden = (name: string, actual: string) => {
+  const path = resolve(FIXTURES, name);
+  if (process.env.UPDATE_GOLDEN) writeFileSync(path, actual);
+  expect(actual).toBe(readFileSync(path, "utf8"));
+};
+
+describe("document export", () => {
+  test("reads tool-written documents as structured blocks", () => {
+    const blocks = univerDocToBlocks(report());
+
+    expect(blocks.map((block) => block.type)).toEqual([
+      "heading",
+      "paragraph",
+      "heading",
+      "list",
+      "heading",
+      "list",
+      "table",
+      "paragraph",
+      "rule",
+      "code",
+      "quote",
+      "paragraph",
+    ]);
+    expect(blocks[3]).toEqual({
+      type: "list",
+      ordered: false,
+      items: [
+        { content: [{ text: "Launched the *beta* program" }], level: 0 },
+        { content: [{ text: "Hired 3 engineers" }], level: 0 },
+        { content: [{ text: "Two in backend" }], level: 1 },
+      ],
+    });
+    expect(blocks[6]).toEqual({
+      type: "table",
+      header: ["Region", "Revenue", "Growth"],
+      rows: [
+        ["North", "1,200", "8%"],
+        ["South", "950", "15%"],
+      ],
+    });
+    expect(blocks[9]).toEqual({
+      type: "code",
+      language: "typescript",
+      text: 'const total = sum(rows)\nif (total > 1000) notify("<team>")',
+    });
+  });
+
+  test("markdown", () => {
+    expectGolden("report.md", blocksToMarkdown(univerDocToBlocks(report())));
+  });
+
+  test("html", () => {
+    expectGolden(
+      "report.html",
+      blocksToHtml(univerDocToBlocks(report()), { title: "Quarterly Report" }),
+    );
+  });
+
+  test("docx", async () => {
+    const file = await DocumentExportService.build(report(), "docx", {
+      title: "Quarterly Report",
+    });
+    const zip = await JSZip.loadAsync(file.bytes);
+    const rels = await zip.file("word/_rels/document.xml.rels")?.async("string");
+    const numbering = await zip.file("word/numbering.xml")?.async("string");
+
+    expect(file.filename).toBe("Quarterly Report.docx");
+    expect(rels).toContain(
+      'Target="https://example.com/dashboard?q=1&amp;view=q3" TargetMode="External"',
+    );
+    expect(numbering).toContain('<w:num w:numId="2"><w:abstractNumId w:val="1"/>');
+    expectGolden(
+      "report.docx.xml",
+      (await zip.file("word/document.xml")?.async("string")) ?? "",
+    );
+  });
+
+  test("pdf", async () => {
+    const file = await DocumentExportService.build(report(), "pdf", {
+      title: "Quarterly Report",
+    });
+    // Creation date and file id change on every run
+    const pdf = Buffer.from(file.bytes)
+      .toString("latin1")
+      .replace(/^\/(CreationDate|ID) .*$/gm, "");
+
+    expect(pdf.startsWith("%PDF-")).toBe(true);
+    expect(pdf).toContain("/URI (https://example.com/dashboard?q=1&view=q3)");
+    expectGolden("report.pdf.txt", pdf);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import {
+  exportToExcelBuffer,
+  importFromExcel,
+  type UniverWorkbookData,
+} from "../../apps/electron/renderer/features/univer/exceljs-exchange";
+import {
+  collectDefinedNames,
+  collectSheetFeatures,
+  type UniverSheetFeatures,
+} from "../../apps/electron/renderer/features/univer/exceljs-sheet-features";
+
+const FIXTURES = resolve(import.meta.dir, "fixtures/exceljs");
+
+const loadFixture = (name: string): UniverWorkbookData =>
+  JSON.parse(readFileSync(resolve(FIXTURES, name), "utf8"));
+
+const roundTrip = async (
+  data: UniverWorkbookData,
+): Promise<UniverWorkbookData> => {
+  const buffer = await exportToExcelBuffer(structuredClone(data));
+  const file = new File([buffer], `${data.name}.xlsx`);
+  return importFromExcel(file);
+};
+
+const sheetIdByName = (data: UniverWorkbookData, name: string): string =>
+  data.sheetOrder.find((id) => data.sheets[id].name === name) ?? "";
+
+/**
+ * Drop generated ids, map sheet ids to names and ignore hex color case so
+ * two feature sets can be compared structurally
+ */
+const normalize = (
+  features: UniverSheetFeatures,
+  data: UniverWorkbookData,
+): unknown => {
+  const strip = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(strip);
+    if (value && typeof value === "object") {
+      const result: Record<string, unknown> = {};
+      for (const [key, inner] of Object.entries(value)) {
+        if (key === "uid" || key === "cfId" || key === "id") continue;
+        result[key] = strip(inner);
+      }
+      return result;
+    }
+    if (typeof value === "string") {
+      if (/^#[0-9a-f]{6}$/i.test(value)) return value.toLowerCase();
+      return value.replace(
+        /^#gid=([^&]+)/,
+        (_, id: string) => `#sheet=${data.sheets[id]?.name}`,
+      );
+    }
+    return value;
+  };
+
+  const sortByJson = (items: unknown[]) =>
+    [...items].sort((a, b) =>
+      JSON.stringify(a).localeCompare(JSON.stringify(b)),
+    );
+
+  const normalized = strip(features) as Record<string, unknown[]>;
+  normalized.dataValidations = sortByJson(normalized.dataValidations);
+  normalized.hyperlinks = sortByJson(normalized.hyperlinks);
+  return normalized;
+};
+
+const expectLosslessRoundTrip = async (fixture: string) => {
+  const original = loadFixture(fixture);
+  const imported = await roundTrip(original);
+
+  for (const sheetId of original.sheetOrder) {
+    const name = original.sheets[sheetId].name;
+    const importedId = sheetIdByName(imported, name);
+    expect(importedId).not.toBe("");
+
+    const before = collectSheetFeatures(original, sheetId);
+    const after = collectSheetFeatures(imported, importedId);
+    expect(normalize(after, imported)).toEqual(normalize(before, original));
+  }
+
+  const namesOf = (data: UniverWorkbookData) =>
+    collectDefinedNames(data)
+      .map(({ name, formulaOrRefString }) => ({ name, formulaOrRefString }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  expect(namesOf(imported)).toEqual(namesOf(original));
+
+  return { original, imported };
+};
+
+describe("ExcelJS exchange sheet features", () => {
+  test("round-trips native Univer plugin resources losslessly", async () => {
+    const { imported } = await expectLosslessRoundTrip("native-features.json");
+
+    const sales = imported.sheets[sheetIdByName(imported, "Sales")];
+    expect(sales.freeze).toEqual({
+      xSplit: 1,
+      ySplit: 1,
+      startRow: 1,
+      startColumn: 1,
+    });
+    expect(sales.cellData["1"]["4"].v).toBe("Handbook");
+    expect(sales.cellData["3"]["2"].f).toBe("SUM(C2:C3)");
+  });
+
+  test("exports agent-tool fields and re-imports them as native resources", async () => {
+    const { imported } = await expectLosslessRoundTrip(
+      "agent-tool-features.json",
+    );
+
+    const resourceNames = imported.resources?.map((r) => r.name) ?? [];
+    expect(resourceNames).toEqual(
+      expect.arrayContaining([
+        "SHEET_DATA_VALIDATION_PLUGIN",
+        "SHEET_CONDITIONAL_FORMATTING_PLUGIN",
+        "SHEET_FILTER_PLUGIN",
+        "SHEET_NOTE_PLUGIN",
+        "SHEET_DEFINED_NAME_PLUGIN",
+      ]),
+    );
+
+    const sheetId = sheetIdByName(imported, "Sheet1");
+    const features = collectSheetFeatures(imported, sheetId);
+    expect(features.freeze?.ySplit).toBe(1);
+    expect(features.notes["0"]["2"].note).toBe("Use the dropdown");
+    expect(
+      features.dataValidations.find((rule) => rule.type === "whole"),
+    ).toMatchObject({
+      operator: "greaterThanOrEqual",
+      formula1: "0",
+      errorStyle: 1,
+      showErrorMessage: true,
+    });
+  });
+
+  test("a second round trip is stable", async () => {
+    const once = await roundTrip(loadFixture("native-features.json"));
+    const twice = await roundTrip(once);
+
+    for (const sheetId of once.sheetOrder) {
+      const name = once.sheets[sheetId].name;
+      const twiceId = sheetIdByName(twice, name);
+      expect(normalize(collectSheetFeatures(twice, twiceId), twice)).toEqual(
+        normalize(collectSheetFeatures(once, sheetId), once),
+      );
+    }
+  });
+});
@@ -0,0 +1,227 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { mergePages, stampBlockClock } from "../../apps/electron/renderer/lib/notes-merge";
+import {
+  getAllPages,
+  getPendingChanges,
+  savePage,
+  setNotesSyncUser,
+  type NotePage,
+} from "../../apps/electron/renderer/lib/notes-storage";
+import { syncNotes, type NotesSyncClient } from "../../apps/electron/renderer/lib/notes-sync";
+
+const createMemoryStorage = () => {
+  const store = new Map<string, string>();
+  return {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      store.set(key, value);
+    },
+    removeItem: (key: string) => {
+      store.delete(key);
+    },
+  };
+};
+
+function page(content: NotePage["content"], updatedAt: number, extra: Partial<NotePage> = {}): NotePage {
+  return {
+    id: "page-1",
+    title: "Plan",
+    content,
+    spaceId: null,
+    parentId: null,
+    createdAt: 1,
+    updatedAt,
+    ...extra,
+  };
+}
+
+const p = (id: string, text: string) => ({ id, type: "paragraph" as const, content: text });
+
+describe("notes merge", () => {
+  test("keeps concurrent edits to different blocks", () => {
+    const base = stampBlockClock(null, page([p("a", "one"), p("b", "two")], 100), 100);
+    const local = stampBlockClock(base, { ...base, content: [p("a", "ONE"), p("b", "two")], updatedAt: 200 }, 200);
+    const remote = stampBlockClock(
+      base,
+      { ...base, title: "Plan v2", content: [p("a", "one"), p("b", "two"), p("c", "three")], updatedAt: 300 },
+      300,
+    );
+
+    const merged = mergePages(local, remote);
+    expect(merged.title).toBe("Plan v2");
+    expect(merged.content).toEqual([p("a", "ONE"), p("b", "two"), p("c", "three")]);
+  });
+
+  test("a block deleted after its last edit stays deleted", () => {
+    const base = stampBlockClock(null, page([p("a", "one"), p("b", "two")], 100), 100);
+    const local = stampBlockClock(base, { ...base, content: [p("a", "one")], updatedAt: 200 }, 200);
+    const remote = stampBlockClock(base, { ...base, content: [p("a", "uno"), p("b", "two")], updatedAt: 150 }, 150);
+
+    expect(mergePages(local, remote).content).toEqual([p("a", "uno")]);
+  });
+});
+
+describe("syncNotes", () => {
+  beforeEach(() => {
+    Object.defineProperty(globalThis, "localStorage", {
+      value: createMemoryStorage(),
+      configurable: true,
+    });
+    setNotesSyncUser("user-a");
+  });
+
+  test("uploads existing local notes once and merges remote pages", async () => {
+    savePage(page([p("a", "local")], 100, { id: "page-local" }));
+
+    const pushed: any[] = [];
+    const client = {
+      notes: {
+        pull: {
+          query: async ({ since }: { since: string | null }) => ({
+            spaces: [],
+            pages: since
+              ? []
+              : [
+                  {
+                    ...page([p("r", "remote")], 50, { id: "page-remote", parentId: "page-local" }),
+                    pinned: false,
+                    archived: false,
+                    blockClock: {},
+                    blockTombstones: {},
+                    deleted: false,
+                    revision: "r1",
+                  },
+                ],
+            cursor: "r1",
+          }),
+        },
+        push: {
+          mutate: async (input: any) => {
+            pushed.push(input);
+            return {
+              spaces: [],
+              pages: input.pages.map((x: any) => ({ id: x.page.id, revision: "r2" })),
+              conflicts: { spaces: [], pages: [] },
+            };
+          },
+        },
+      },
+    } as unknown as NotesSyncClient;
+
+    const result = await syncNotes(client, "user-a");
+    expect(result).toMatchObject({ pulled: 1, pushed: 1, conflicts: 0, changed: true });
+    expect(pushed[0].pages.map((x: any) => x.page.id)).toEqual(["page-local"]);
+    expect(getAllPages().map((x) => [x.id, x.parentId])).toEqual([
+      ["page-local", null],
+      ["page-remote", "page-local"],
+    ]);
+    expect(getPendingChanges().pages).toEqual([]);
+
+    // Already migrated: nothing left to push
+    await syncNotes(client, "user-a");
+    expect(pushed).toHaveLength(1);
+  });
+
+  test("keeps a page pending when it is edited while the push is in flight", async () => {
+    savePage(page([p("a", "first")], 100));
+
+    const server = new Map<string, any>();
+    const pushed: string[] = [];
+    const client = {
+      notes: {
+        pull: {
+          query: async () => ({
+            spaces: [],
+            pages: [...server.values()],
+            cursor: server.size > 0 ? "r1" : null,
+          }),
+        },
+        push: {
+          mutate: async (input: any) => {
+            for (const { page: sent } of input.pages) {
+              pushed.push(sent.content[0].content);
+              server.set(sent.id, { ...sent, deleted: false, revision: `r${pushed.length}` });
+            }
+            // The user keeps typing before the server answers
+            if (pushed.length === 1) savePage(page([p("a", "second")], 200));
+            return {
+              spaces: [],
+              pages: input.pages.map((x: any) => ({ id: x.page.id, revision: `r${pushed.length}` })),
+              conflicts: { spaces: [], pages: [] },
+            };
+          },
+        },
+      },
+    } as unknown as NotesSyncClient;
+
+    await syncNotes(client, "user-a");
+    expect(pushed).toEqual(["first"]);
+    expect(getPendingChanges().pages).toEqual(["page-1"]);
+
+    // The pulled copy of the first push does not overwrite the newer edit
+    await syncNotes(client, "user-a");
+    expect(pushed).toEqual(["first", "second"]);
+    expect(getAllPages()[0].content).toEqual([p("a", "second")]);
+    expect(getPendingChanges().pages).toEqual([]);
+  });
+
+  test("ignores rows pulled again from the overlap window", async () => {
+    const remote = {
+      ...page([p("r", "remote")], 50, { id: "page-remote" }),
+      pinned: false,
+      archived: false,
+      blockClock: {},
+      blockTombstones: {},
+      deleted: false,
+      revision: "2026-02-02T10:00:00.000000+00:00",
+    };
+    // The server re-reads a window before the cursor, so the row comes back
+    const client = {
+      notes: {
+        pull: { query: async () => ({ spaces: [], pages: [remote], cursor: remote.revision }) },
+        push: {
+          mutate: async () => ({ spaces: [], pages: [], conflicts: { spaces: [], pages: [] } }),
+        },
+      },
+    } as unknown as NotesSyncClient;
+
+    expect(await syncNotes(client, "user-a")).toMatchObject({ pulled: 1, changed: true });
+    expect(await syncNotes(client, "user-a")).toMatchObject({ pulled: 0, changed: false });
+    expect(getAllPages().map((x) => x.id)).toEqual(["page-remote"]);
+  });
+
+  test("keeps pending changes and sync state per account", async () => {
+    const pushedBy: Record<string, string[]> = {};
+    const clientFor = (userId: string) =>
+      ({
+        notes: {
+          pull: { query: async () => ({ spaces: [], pages: [], cursor: null }) },
+          push: {
+            mutate: async (input: any) => {
+              pushedBy[userId] = input.pages.map((x: any) => x.page.id);
+              return {
+                spaces: [],
+                pages: input.pages.map((x: any) => ({ id: x.page.id, revision: "r1" })),
+                conflicts: { spaces: [], pages: [] },
+              };
+            },
+          },
+        },
+      }) as unknown as NotesSyncClient;
+
+    savePage(page([p("a", "a")], 100, { id: "page-a" }));
+    await syncNotes(clientFor("user-a"), "user-a");
+    expect(pushedBy["user-a"]).toEqual(["page-a"]);
+
+    // Edited by the first account but not pushed before switching
+    savePage(page([p("a", "a2")], 200, { id: "page-a" }));
+
+    setNotesSyncUser("user-b");
+    savePage(page([p("b", "b")], 300, { id: "page-b" }));
+    await syncNotes(clientFor("user-b"), "user-b");
+    expect(pushedBy["user-b"]).toEqual(["page-b"]);
+
+    setNotesSyncUser("user-a");
+    expect(getPendingChanges().pages).toEqual(["page-a"]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import JSZip from "jszip";
+import {
+  resolveChartData,
+  seriesFromTable,
+  snapshotRangeReader,
+  writeSheetCharts,
+  type SheetChart,
+} from "../../packages/core/src/utils/sheet-charts";
+import {
+  exportToExcelBuffer,
+  type UniverWorkbookData,
+} from "../../apps/electron/renderer/features/univer/exceljs-exchange";
+
+const workbook = (): UniverWorkbookData => ({
+  id: "wb",
+  name: "Sales",
+  sheetOrder: ["s1"],
+  sheets: {
+    s1: {
+      id: "s1",
+      name: "Q1 Sales",
+      cellData: {
+        0: { 0: { v: "Month" }, 1: { v: "North" }, 2: { v: "South" } },
+        1: { 0: { v: "Jan" }, 1: { v: 10 }, 2: { v: "4" } },
+        2: { 0: { v: "Feb" }, 1: { v: 12 } },
+        3: { 0: { v: "Mar" }, 1: { v: 9 }, 2: { v: 7 } },
+      },
+    },
+  },
+});
+
+const chartFor = (): SheetChart => ({
+  id: "chart_1",
+  sheetId: "s1",
+  type: "bar",
+  title: "Q1 by region",
+  ...seriesFromTable("A1:C4"),
+  yAxisTitle: "Units",
+  anchor: { row: 5, column: 0, width: 480, height: 288 },
+});
+
+describe("sheet charts", () => {
+  test("binds a table to category and series ranges", () => {
+    expect(seriesFromTable("'Q1 Sales'!A1:C4")).toEqual({
+      categories: "'Q1 Sales'!A2:A4",
+      series: [
+        { values: "'Q1 Sales'!B2:B4", nameRef: "'Q1 Sales'!B1" },
+        { values: "'Q1 Sales'!C2:C4", nameRef: "'Q1 Sales'!C1" },
+      ],
+    });
+    expect(() => seriesFromTable("A1:A4")).toThrow("at least one series");
+  });
+
+  test("resolves the current cell values of every bound range", () => {
+    const data = workbook();
+    const chart = chartFor();
+    const read = snapshotRangeReader(data);
+
+    expect(resolveChartData(chart, read)).toEqual({
+      categories: ["Jan", "Feb", "Mar"],
+      series: [
+        { name: "North", values: [10, 12, 9], color: undefined },
+        { name: "South", values: [4, null, 7], color: undefined },
+      ],
+    });
+
+    data.sheets.s1.cellData[2][1] = { v: 20 };
+    expect(resolveChartData(chart, read).series[0].values).toEqual([10, 20, 9]);
+  });
+
+  test("exports a native Excel chart bound to the sheet ranges", async () => {
+    const data = workbook();
+    writeSheetCharts(data, [chartFor()]);
+
+    const zip = await JSZip.loadAsync(await exportToExcelBuffer(data));
+    const chartXml = await zip.file("xl/charts/chart1.xml")?.async("string");
+    const sheetXml = await zip.file("xl/worksheets/sheet1.xml")?.async("string");
+    const drawingRels = await zip
+      .file("xl/drawings/_rels/drawing1.xml.rels")
+      ?.async("string");
+    const contentTypes = await zip.file("[Content_Types].xml")?.async("string");
+
+    expect(chartXml).toContain("<c:barChart>");
+    expect(chartXml).toContain("<c:f>'Q1 Sales'!$A$2:$A$4</c:f>");
+    expect(chartXml).toContain("<c:f>'Q1 Sales'!$C$2:$C$4</c:f>");
+    expect(chartXml).toContain("<c:f>'Q1 Sales'!$B$1</c:f>");
+    expect(chartXml).toContain("<a:t>Units</a:t>");
+    expect(sheetXml).toMatch(/<drawing\b[^>]*r:id="rId\d+"\/>/);
+    expect(drawingRels).toContain('Target="../charts/chart1.xml"');
+    expect(contentTypes).toContain('PartName="/xl/charts/chart1.xml"');
+  });
+});
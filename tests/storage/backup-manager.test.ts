@@ -0,0 +1,42 @@
+import { afterAll, describe, expect, mock, setSystemTime, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const userData = mkdtempSync(join(tmpdir(), "backup-test-"));
+
+mock.module("electron", () => ({ app: { getPath: () => userData } }));
+
+const { BackupManager } = await import("../../apps/electron/main/lib/storage/backup-manager");
+
+afterAll(() => {
+  setSystemTime();
+  rmSync(userData, { recursive: true, force: true });
+});
+
+describe("backup manager", () => {
+  test("retention only prunes the backups of the same account", async () => {
+    const manager = new BackupManager({ maxBackups: 2 });
+    await manager.init();
+
+    let minute = 0;
+    const create = (userId: string) => {
+      setSystemTime(new Date(2026, 2, 5, 10, minute++));
+      return manager.create("Automatic", {}, { userId });
+    };
+
+    const first = await create("user-a");
+    await create("user-b");
+    await create("user-a");
+    await create("user-a");
+
+    const entries = await manager.list();
+    const owners = entries.map((entry) => entry.meta?.userId);
+    expect(owners.filter((owner) => owner === "user-a")).toHaveLength(2);
+    expect(owners.filter((owner) => owner === "user-b")).toHaveLength(1);
+    expect(entries.some((entry) => entry.id === first.id)).toBe(false);
+
+    await manager.setMaxBackups(1);
+    expect((await manager.list()).map((entry) => entry.meta?.userId).sort()).toEqual(["user-a", "user-b"]);
+  });
+});
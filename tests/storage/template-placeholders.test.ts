@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test";
+import {
+  extractPlaceholders,
+  fillTemplatePlaceholders,
+} from "../../apps/electron/main/lib/storage/template-placeholders";
+
+const NOW = new Date(2026, 2, 5);
+
+describe("template placeholders", () => {
+  test("fills workbook cells and keeps typed values", () => {
+    const workbook = {
+      name: "Presupuesto {{department}}",
+      sheets: {
+        sheet1: {
+          name: "{{month_name}} {{year}}",
+          cellData: {
+            0: { 0: { v: "Departamento: {{ department }}", t: 1 } },
+            1: { 0: { v: "{{budget}}", t: 1 }, 1: { v: "{{owner}}" } },
+          },
+        },
+      },
+    };
+
+    expect(extractPlaceholders(workbook)).toEqual([
+      "budget",
+      "department",
+      "month_name",
+      "owner",
+      "year",
+    ]);
+
+    const { result, missing } = fillTemplatePlaceholders(
+      workbook,
+      { department: "Ventas", budget: 12000 },
+      NOW,
+    );
+    expect(result.name).toBe("Presupuesto Ventas");
+    expect(result.sheets.sheet1.name).toBe("marzo 2026");
+    expect(result.sheets.sheet1.cellData[0][0].v).toBe("Departamento: Ventas");
+    expect(result.sheets.sheet1.cellData[1][0]).toEqual({ v: 12000, t: 2 });
+    expect(result.sheets.sheet1.cellData[1][1].v).toBe("{{owner}}");
+    expect(missing).toEqual(["owner"]);
+  });
+
+  test("shifts document formatting ranges after replacements", () => {
+    // "Hola {{name}}, informe {{month}}\r\n" with bold on "informe"
+    const dataStream = "Hola {{name}}, informe {{month}}\r\n";
+    const boldStart = dataStream.indexOf("informe");
+    const doc = {
+      title: "Informe",
+      body: {
+        dataStream,
+        textRuns: [{ st: boldStart, ed: boldStart + 7, ts: { bl: 1 } }],
+        paragraphs: [{ startIndex: dataStream.length - 2 }],
+      },
+    };
+
+    const { result } = fillTemplatePlaceholders(doc, { name: "Ana" }, NOW);
+    const text = result.body.dataStream;
+    expect(text).toBe("Hola Ana, informe 03\r\n");
+    const run = result.body.textRuns[0];
+    expect(text.slice(run.st, run.ed)).toBe("informe");
+    expect(result.body.paragraphs[0].startIndex).toBe(text.length - 2);
+  });
+});
@@ -0,0 +1,35 @@
+import { afterAll, describe, expect, mock, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const userData = mkdtempSync(join(tmpdir(), "template-test-"));
+
+mock.module("electron", () => ({ app: { getPath: () => userData } }));
+
+const { TemplateStore } = await import("../../apps/electron/main/lib/storage/template-store");
+
+afterAll(() => {
+  rmSync(userData, { recursive: true, force: true });
+});
+
+describe("template store", () => {
+  test("only shows and deletes the templates of the account that saved them", async () => {
+    const store = new TemplateStore();
+    await store.init();
+
+    const workbook = { id: "wb", name: "Factura", sheets: {} };
+    const mine = await store.saveUniverTemplate({ userId: "user-a", name: "Factura", type: "spreadsheet", univerData: workbook });
+    await store.saveUniverTemplate({ userId: "user-b", name: "Factura", type: "spreadsheet", univerData: workbook });
+
+    expect((await store.list("user-a")).map((template) => template.id)).toEqual([mine.id]);
+    expect(await store.get("user-b", mine.id)).toBeNull();
+    expect((await store.find("user-b", "factura"))?.id).not.toBe(mine.id);
+    await expect(store.instantiate("user-b", mine.id)).rejects.toThrow("Template not found");
+
+    await store.delete("user-b", mine.id);
+    expect(await store.get("user-a", mine.id)).not.toBeNull();
+    await store.delete("user-a", mine.id);
+    expect(await store.list("user-a")).toEqual([]);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Local stand-in for the OpenAI Files + Batch API (and chat completions for
+ * flex calls), so batch pipelines can be tested with a real OpenAI client
+ * pointed at `baseURL`.
+ *
+ * Batches complete on the first retrieve after `complete()` (or right away
+ * with `autoComplete`); each request line is answered by `respond`.
+ */
+
+export interface MockBatchRequest {
+  custom_id: string;
+  method: string;
+  url: string;
+  body: any;
+}
+
+export type MockResponder = (
+  request: MockBatchRequest,
+) => { content: string } | { error: string; status?: number };
+
+// Models OpenAI serves on the flex tier; others get a 400 like the real API
+const FLEX_MODELS = /^(o3|o4-mini|gpt-5)/;
+
+interface MockBatch {
+  id: string;
+  status: string;
+  input_file_id: string;
+  output_file_id: string | null;
+  error_file_id: string | null;
+  metadata: Record<string, string>;
+  request_counts: { total: number; completed: number; failed: number };
+  readyToComplete: boolean;
+}
+
+export interface MockBatchServer {
+  /** Base URL for the OpenAI client, ending in /v1 */
+  baseURL: string;
+  files: Map<string, string>;
+  batches: Map<string, MockBatch>;
+  /** Bodies of direct chat completion calls */
+  completions: any[];
+  /** Let the batch finish on its next retrieve */
+  complete: (batchId: string) => void;
+  stop: () => void;
+}
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+function chatCompletion(content: string) {
+  return {
+    id: `chatcmpl-${crypto.randomUUID()}`,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: "mock",
+    choices: [
+      { index: 0, finish_reason: "stop", message: { role: "assistant", content } },
+    ],
+  };
+}
+
+export function startMockBatchServer(
+  respond: MockResponder,
+  options: { autoComplete?: boolean } = {},
+): MockBatchServer {
+  const files = new Map<string, string>();
+  const batches = new Map<string, MockBatch>();
+  const completions: any[] = [];
+  let counter = 0;
+
+  const runBatch = (batch: MockBatch) => {
+    const output: string[] = [];
+    const errors: string[] = [];
+    for (const line of (files.get(batch.input_file_id) ?? "").split("\n")) {
+      if (!line.trim()) continue;
+      const request = JSON.parse(line) as MockBatchRequest;
+      const answer = respond(request);
+      const id = `batch_req_${++counter}`;
+      if ("error" in answer) {
+        errors.push(JSON.stringify({
+          id,
+          custom_id: request.custom_id,
+          response: null,
+          error: { code: "mock_error", message: answer.error },
+        }));
+      } else {
+        output.push(JSON.stringify({
+          id,
+          custom_id: request.custom_id,
+          response: { status_code: 200, request_id: id, body: chatCompletion(answer.content) },
+          error: null,
+        }));
+      }
+    }
+
+    batch.output_file_id = `file-${++counter}`;
+    files.set(batch.output_file_id, output.join("\n"));
+    if (errors.length > 0) {
+      batch.error_file_id = `file-${++counter}`;
+      files.set(batch.error_file_id, errors.join("\n"));
+    }
+    batch.request_counts = {
+      total: output.length + errors.length,
+      completed: output.length,
+      failed: errors.length,
+    };
+    batch.status = "completed";
+  };
+
+  const toBatch = ({ readyToComplete: _ready, ...batch }: MockBatch) => ({
+    object: "batch",
+    endpoint: "/v1/chat/completions",
+    completion_window: "24h",
+    created_at: Math.floor(Date.now() / 1000),
+    ...batch,
+  });
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const { pathname } = new URL(req.url);
+
+      if (req.method === "POST" && pathname === "/v1/files") {
+        const form = await req.formData();
+        const file = form.get("file") as File;
+        const id = `file-${++counter}`;
+        const text = await file.text();
+        files.set(id, text);
+        return json({
+          id,
+          object: "file",
+          bytes: text.length,
+          created_at: Math.floor(Date.now() / 1000),
+          filename: file.name,
+          purpose: form.get("purpose"),
+          status: "processed",
+        });
+      }
+
+      const content = pathname.match(/^\/v1\/files\/([^/]+)\/content$/);
+      if (req.method === "GET" && content) {
+        const text = files.get(content[1]);
+        return text === undefined ? json({ error: { message: "No such file" } }, 404) : new Response(text);
+      }
+
+      if (req.method === "POST" && pathname === "/v1/batches") {
+        const body = await req.json();
+        if (!files.has(body.input_file_id)) {
+          return json({ error: { message: "Invalid input file" } }, 400);
+        }
+        const batch: MockBatch = {
+          id: `batch_${++counter}`,
+          status: "in_progress",
+          input_file_id: body.input_file_id,
+          output_file_id: null,
+          error_file_id: null,
+          metadata: body.metadata ?? {},
+          request_counts: { total: 0, completed: 0, failed: 0 },
+          readyToComplete: !!options.autoComplete,
+        };
+        batches.set(batch.id, batch);
+        return json(toBatch(batch));
+      }
+
+      const batchPath = pathname.match(/^\/v1\/batches\/([^/]+)(\/cancel)?$/);
+      if (batchPath) {
+        const batch = batches.get(batchPath[1]);
+        if (!batch) return json({ error: { message: "No such batch" } }, 404);
+        if (req.method === "POST" && batchPath[2]) {
+          batch.status = "cancelled";
+        } else if (batch.status === "in_progress" && batch.readyToComplete) {
+          runBatch(batch);
+        }
+        return json(toBatch(batch));
+      }
+
+      if (req.method === "POST" && pathname === "/v1/chat/completions") {
+        const body = await req.json();
+        completions.push(body);
+        if (body.service_tier === "flex" && !FLEX_MODELS.test(String(body.model))) {
+          return json({ error: { message: `Flex processing is not available for ${body.model}` } }, 400);
+        }
+        const answer = respond({ custom_id: "", method: "POST", url: pathname, body });
+        return "error" in answer
+          ? json({ error: { message: answer.error } }, answer.status ?? 400)
+          : json(chatCompletion(answer.content));
+      }
+
+      return json({ error: { message: `Unhandled ${req.method} ${pathname}` } }, 404);
+    },
+  });
+
+  return {
+    baseURL: `http://localhost:${server.port}/v1`,
+    files,
+    batches,
+    completions,
+    complete: (batchId) => {
+      const batch = batches.get(batchId);
+      if (batch) batch.readyToComplete = true;
+    },
+    stop: () => server.stop(true),
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildComparisonTable,
+  compareWorkbooks,
+} from "../../apps/electron/main/lib/versioning";
+
+function workbook(sheetName: string, rows: unknown[][]) {
+  const cellData: Record<number, Record<number, { v: unknown }>> = {};
+  rows.forEach((row, r) => {
+    cellData[r] = {};
+    row.forEach((v, c) => {
+      if (v !== undefined) cellData[r][c] = { v };
+    });
+  });
+  return {
+    sheetOrder: ["s1"],
+    sheets: { s1: { id: "s1", name: sheetName, cellData } },
+  };
+}
+
+const lastMonth = workbook("Ventas", [
+  ["ID", "Cliente", "Importe"],
+  ["A-1", "Acme", 100],
+  ["A-2", "Globex", 250],
+  ["A-3", "Initech", 75],
+]);
+
+// Rows reordered, one changed, one removed, one added, extra column
+const thisMonth = workbook("ventas", [
+  ["ID", "Importe", "Cliente", "Región"],
+  ["A-3", "75", "Initech"],
+  ["A-1", 120, "Acme"],
+  ["A-4", 60, "Umbrella", "Norte"],
+]);
+
+describe("compareWorkbooks", () => {
+  test("aligns sheets by name and rows by key column", () => {
+    const result = compareWorkbooks(lastMonth, thisMonth, { keyColumn: "id" });
+
+    expect(result.sheets).toHaveLength(1);
+    const [sheet] = result.sheets;
+    expect(sheet.keyColumn).toBe("ID");
+    expect(sheet.added.map((row) => row.key)).toEqual(["A-4"]);
+    expect(sheet.removed.map((row) => row.key)).toEqual(["A-2"]);
+    expect(sheet.changed).toEqual([
+      {
+        key: "A-1",
+        beforeRow: 1,
+        afterRow: 2,
+        values: { ID: "A-1", Importe: 120, Cliente: "Acme" },
+        changes: [{ column: "Importe", before: 100, after: 120 }],
+      },
+    ]);
+    // "75" and 75 are the same value
+    expect(sheet.unchanged).toBe(1);
+  });
+
+  test("accepts a column letter and reports sheets without the key", () => {
+    const byLetter = compareWorkbooks(lastMonth, thisMonth, { keyColumn: "A" });
+    expect(byLetter.sheets[0].changed).toHaveLength(1);
+
+    const missing = compareWorkbooks(lastMonth, thisMonth, { keyColumn: "Código" });
+    expect(missing.sheets).toEqual([]);
+    expect(missing.skipped).toEqual([
+      { sheetName: "ventas", reason: 'Key column "Código" not found' },
+    ]);
+  });
+
+  test("builds a highlighted result table", () => {
+    const table = buildComparisonTable(
+      compareWorkbooks(lastMonth, thisMonth, { keyColumn: "ID" }),
+    );
+
+    expect(table.rows[0]).toEqual(["Status", "ID", "Importe", "Cliente", "Región", "Details"]);
+    expect(table.rows.map((row) => row[0])).toEqual(["Status", "Added", "Removed", "Changed"]);
+    expect(table.rows[3]).toEqual(["Changed", "A-1", 120, "Acme", "", "Importe: 100 → 120"]);
+    expect(table.marks.filter((mark) => mark.row === 3)).toEqual([
+      { row: 3, col: 0, type: "modified" },
+      { row: 3, col: 2, type: "modified" },
+    ]);
+    expect(table.marks.filter((mark) => mark.type === "added")).toHaveLength(6);
+  });
+});
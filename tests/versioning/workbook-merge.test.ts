@@ -0,0 +1,107 @@
+import { describe, expect, test } from "bun:test";
+import {
+  conflictKey,
+  findMergeBase,
+  mergeWorkbooks,
+  summarizeBranches,
+} from "../../apps/electron/main/lib/versioning";
+
+function workbook(cells: Record<number, Record<number, unknown>>, styles = {}) {
+  return {
+    id: "wb",
+    name: "Book",
+    styles,
+    sheetOrder: ["s1"],
+    sheets: {
+      s1: { id: "s1", name: "Hoja1", rowCount: 100, columnCount: 20, cellData: cells },
+    },
+  };
+}
+
+describe("mergeWorkbooks", () => {
+  test("takes non-overlapping edits from both branches", () => {
+    const base = workbook({ 0: { 0: { v: "a" }, 1: { v: "b" } } });
+    const ours = workbook({ 0: { 0: { v: "A" }, 1: { v: "b" } } });
+    const theirs = workbook({ 0: { 0: { v: "a" }, 1: { v: "b" } }, 3: { 2: { v: 42 } } });
+
+    const result = mergeWorkbooks(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.autoMerged).toBe(1);
+    expect(result.merged.sheets.s1.cellData).toEqual({
+      0: { 0: { v: "A" }, 1: { v: "b" } },
+      3: { 2: { v: 42 } },
+    });
+  });
+
+  test("reports conflicting cells and applies resolutions", () => {
+    const base = workbook({ 0: { 0: { v: 1 } } });
+    const ours = workbook({ 0: { 0: { v: 2 } } });
+    const theirs = workbook({ 0: { 0: { v: 3 } } });
+
+    const preview = mergeWorkbooks(base, ours, theirs);
+    expect(preview.conflicts).toHaveLength(1);
+    expect(preview.conflicts[0]).toMatchObject({
+      key: conflictKey("s1", 0, 0),
+      sheetName: "Hoja1",
+      base: { v: 1 },
+      ours: { v: 2 },
+      theirs: { v: 3 },
+    });
+    // Unresolved conflicts keep the current branch
+    expect(preview.merged.sheets.s1.cellData[0][0]).toEqual({ v: 2 });
+
+    const resolved = mergeWorkbooks(base, ours, theirs, { "s1!0:0": "theirs" });
+    expect(resolved.merged.sheets.s1.cellData[0][0]).toEqual({ v: 3 });
+  });
+
+  test("compares styles by content rather than id", () => {
+    const bold = { bl: 1 };
+    const base = workbook({ 0: { 0: { v: "x" } } });
+    const ours = workbook({ 0: { 0: { v: "x", s: "abc" } } }, { abc: bold });
+    const theirs = workbook({ 0: { 0: { v: "x", s: "xyz" } } }, { xyz: bold });
+
+    const result = mergeWorkbooks(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged.styles).toMatchObject({ abc: bold, xyz: bold });
+  });
+});
+
+describe("version graph", () => {
+  const versions = [
+    { id: "v1", version_number: 1, branch_name: "main" },
+    { id: "v2", version_number: 2, branch_name: "main", commit_parent_id: "v1" },
+    { id: "v3", version_number: 3, branch_name: "alt", commit_parent_id: "v2" },
+    { id: "v4", version_number: 4, branch_name: "main", commit_parent_id: "v2" },
+    { id: "v5", version_number: 5, branch_name: "alt", commit_parent_id: "v3" },
+  ];
+
+  test("finds the fork point as merge base", () => {
+    expect(findMergeBase(versions, "v4", "v5")?.id).toBe("v2");
+  });
+
+  test("a merged branch has its head as merge base", () => {
+    const merged = [
+      ...versions,
+      { id: "v6", version_number: 6, branch_name: "main", commit_parent_id: "v4", merge_parent_id: "v5" },
+    ];
+    expect(findMergeBase(merged, "v6", "v5")?.id).toBe("v5");
+  });
+
+  test("finds the fork point across checkpoints taken on a branch", () => {
+    const withCheckpoint = [
+      ...versions,
+      { id: "c6", version_number: 6, branch_name: "alt", commit_parent_id: "v5", is_checkpoint: true },
+      { id: "v7", version_number: 7, branch_name: "alt", commit_parent_id: "c6" },
+    ];
+    expect(findMergeBase(withCheckpoint, "v4", "v7")?.id).toBe("v2");
+  });
+
+  test("summarizes branch heads", () => {
+    expect(summarizeBranches(versions).map((b) => [b.name, b.headVersion, b.versionCount])).toEqual([
+      ["alt", 5, 2],
+      ["main", 4, 3],
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import {
+  recordWorkflow,
+  resolveWorkflowSteps,
+  validateWorkflowDefinition,
+} from "../../apps/electron/main/lib/workflows/workflow-definition";
+
+const toolCalls = [
+  {
+    name: "get_spreadsheet_summary",
+    args: { artifactId: "sheet-1" },
+    result: { message: "ok" },
+  },
+  {
+    name: "update_cells",
+    args: {
+      artifactId: "sheet-1",
+      updates: [{ row: 0, column: 3, value: "=SUM(B2:C2)*LOG10($B$1)" }],
+    },
+    result: { message: "Updated 1 cells" },
+  },
+  {
+    name: "format_cells",
+    args: { artifactId: "sheet-1", range: "B:C", format: { bold: true } },
+  },
+  {
+    name: "sort_range",
+    args: { artifactId: "sheet-1", sortBy: [{ column: "B", order: "desc" }] },
+  },
+  {
+    name: "add_sheet",
+    args: { artifactId: "sheet-1", name: "Resumen", columns: ["ID", "Total"] },
+  },
+  {
+    name: "delete_column",
+    args: { artifactId: "sheet-1", columns: ["C"] },
+    result: { error: "Column out of range" },
+  },
+];
+
+describe("workflow recording", () => {
+  test("parameterises the target file and column letters", () => {
+    const { definition, skipped } = recordWorkflow(toolCalls);
+
+    expect(skipped).toEqual(["get_spreadsheet_summary", "delete_column"]);
+    expect(definition.steps.map((step) => step.tool)).toEqual([
+      "update_cells",
+      "format_cells",
+      "sort_range",
+      "add_sheet",
+    ]);
+    expect(definition.parameters.map((param) => param.name)).toEqual([
+      "file",
+      "column_B",
+      "column_C",
+      "column_D",
+    ]);
+    // Header names that look like column letters are left alone
+    expect(definition.steps[3].args.columns).toEqual(["ID", "Total"]);
+  });
+
+  test("replays on another file with remapped columns", () => {
+    const { definition } = recordWorkflow(toolCalls);
+    const steps = resolveWorkflowSteps(definition, {
+      file: "sheet-2",
+      column_B: "e",
+      column_D: "G",
+    });
+
+    expect(steps[0].args).toEqual({
+      artifactId: "sheet-2",
+      updates: [{ row: 0, column: 6, value: "=SUM(E2:C2)*LOG10($E$1)" }],
+    });
+    expect(steps[1].args.range).toBe("E:C");
+    expect(steps[2].args.sortBy).toEqual([{ column: "E", order: "desc" }]);
+  });
+
+  test("requires a target file and valid column letters", () => {
+    const { definition } = recordWorkflow(toolCalls);
+
+    expect(() => resolveWorkflowSteps(definition, {})).toThrow("Target file");
+    expect(() =>
+      resolveWorkflowSteps(definition, { file: "sheet-2", column_B: "B2" }),
+    ).toThrow("not a column letter");
+  });
+
+  test("rejects workflows with tools that cannot be replayed", () => {
+    expect(() =>
+      validateWorkflowDefinition({
+        version: 1,
+        parameters: [],
+        steps: [{ tool: "generate_image", args: {} }],
+      }),
+    ).toThrow();
+  });
+});